@@ -0,0 +1 @@
+export { default } from "@/app/(authenticated)/events-office/courts/page";
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Toolbar from "@mui/material/Toolbar";
+import Button from "@mui/material/Button";
+import Chip from "@mui/material/Chip";
+import CircularProgress from "@mui/material/CircularProgress";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import ToggleButton from "@mui/material/ToggleButton";
+import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
+import RefreshIcon from "@mui/icons-material/RefreshRounded";
+import SendIcon from "@mui/icons-material/SendRounded";
+import {
+  DataGrid,
+  type GridColDef,
+  type GridPaginationModel,
+} from "@mui/x-data-grid";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import {
+  fetchEmailOutbox,
+  resendOutboxEmail,
+  type EmailOutboxMessage,
+  type EmailOutboxStatus,
+} from "@/lib/services/admin";
+import { formatDateTime, formatRelative } from "@/lib/date";
+
+const STATUS_FILTERS: EmailOutboxStatus[] = ["Failed", "Queued", "Sent"];
+
+export default function EmailOutboxPage() {
+  const token = useAuthToken();
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<EmailOutboxStatus>("Failed");
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+    page: 0,
+    pageSize: 25,
+  });
+
+  const { data, isLoading, isFetching, isError, error, refetch } = useQuery({
+    queryKey: ["admin", "email-outbox", status, paginationModel, token],
+    queryFn: () =>
+      fetchEmailOutbox(
+        {
+          status,
+          page: paginationModel.page + 1,
+          limit: paginationModel.pageSize,
+        },
+        token ?? undefined
+      ),
+    enabled: Boolean(token),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (messageId: string) =>
+      resendOutboxEmail(messageId, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message ?? "Email resent", {
+        variant: "success",
+      });
+    },
+    onError: (mutationError: unknown) => {
+      const message =
+        mutationError instanceof Error
+          ? mutationError.message
+          : (mutationError as { message?: string }).message;
+      enqueueSnackbar(message ?? "Failed to resend email", {
+        variant: "error",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "email-outbox"] });
+    },
+  });
+
+  const columns = useMemo<GridColDef<EmailOutboxMessage>[]>(
+    () => [
+      {
+        field: "subject",
+        headerName: "Message",
+        flex: 1.6,
+        sortable: false,
+        renderCell: ({ row }) => (
+          <Stack spacing={0.25} sx={{ py: 1 }}>
+            <Typography variant="body2" fontWeight={600}>
+              {row.subject}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {row.to}
+            </Typography>
+          </Stack>
+        ),
+      },
+      {
+        field: "category",
+        headerName: "Type",
+        flex: 0.8,
+        sortable: false,
+      },
+      {
+        field: "attempts",
+        headerName: "Attempts",
+        flex: 0.5,
+        sortable: false,
+        valueGetter: (_value, row: EmailOutboxMessage) =>
+          `${row.attempts}/${row.maxAttempts}`,
+      },
+      {
+        field: "lastError",
+        headerName: "Last error",
+        flex: 1.4,
+        sortable: false,
+        renderCell: ({ row }) =>
+          row.lastError ? (
+            <Tooltip title={row.lastError}>
+              <Typography variant="body2" color="error" noWrap>
+                {row.lastError}
+              </Typography>
+            </Tooltip>
+          ) : (
+            "—"
+          ),
+      },
+      {
+        field: "updatedAt",
+        headerName: "Updated",
+        flex: 0.9,
+        sortable: false,
+        renderCell: ({ row }) => {
+          if (row.status === "Queued" && row.nextAttemptAt) {
+            return `Retry ${formatRelative(row.nextAttemptAt)}`;
+          }
+          return formatDateTime(row.sentAt ?? row.updatedAt);
+        },
+      },
+      {
+        field: "actions",
+        headerName: "Actions",
+        flex: 0.5,
+        sortable: false,
+        renderCell: ({ row }) =>
+          row.status === "Failed" ? (
+            <Tooltip title="Resend">
+              <span>
+                <IconButton
+                  size="small"
+                  color="primary"
+                  onClick={() => resendMutation.mutate(row.id)}
+                  disabled={resendMutation.isPending}
+                >
+                  <SendIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          ) : null,
+      },
+    ],
+    [resendMutation]
+  );
+
+  useEffect(() => {
+    if (isError) {
+      enqueueSnackbar(
+        error instanceof Error ? error.message : "Failed to load email outbox",
+        { variant: "error" }
+      );
+    }
+  }, [enqueueSnackbar, error, isError]);
+
+  const summary = data?.summary;
+
+  return (
+    <Stack spacing={3}>
+      <Stack spacing={1}>
+        <Typography variant="h4" fontWeight={700}>
+          Email outbox
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Every outgoing email is queued here first. Messages that keep failing
+          after their retries end up in the failed list, where you can resend
+          them once the mail server is back.
+        </Typography>
+      </Stack>
+
+      <Toolbar disableGutters sx={{ gap: 2, flexWrap: "wrap" }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={status}
+          onChange={(_, value: EmailOutboxStatus | null) => {
+            if (value) {
+              setStatus(value);
+              setPaginationModel((current) => ({ ...current, page: 0 }));
+            }
+          }}
+        >
+          {STATUS_FILTERS.map((value) => (
+            <ToggleButton key={value} value={value}>
+              {value}
+              {summary ? (
+                <Chip
+                  size="small"
+                  label={summary[value]}
+                  color={value === "Failed" && summary[value] > 0 ? "error" : "default"}
+                  sx={{ ml: 1 }}
+                />
+              ) : null}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Button
+          startIcon={<RefreshIcon />}
+          onClick={() => refetch()}
+          disabled={isFetching}
+        >
+          Refresh
+        </Button>
+        {isFetching && <CircularProgress size={20} />}
+      </Toolbar>
+
+      {isError ? (
+        <Alert severity="error">
+          {error instanceof Error ? error.message : "Failed to load email outbox."}
+        </Alert>
+      ) : (
+        <Box sx={{ height: 600, width: "100%" }}>
+          <DataGrid
+            rows={data?.messages ?? []}
+            columns={columns}
+            getRowId={(row) => row.id}
+            loading={isLoading}
+            getRowHeight={() => "auto"}
+            disableColumnMenu
+            disableRowSelectionOnClick
+            paginationMode="server"
+            rowCount={data?.total ?? 0}
+            paginationModel={paginationModel}
+            onPaginationModelChange={setPaginationModel}
+            pageSizeOptions={[25, 50, 100]}
+            slots={{
+              noRowsOverlay: () => (
+                <Stack
+                  height="100%"
+                  alignItems="center"
+                  justifyContent="center"
+                  spacing={1}
+                >
+                  <Typography variant="subtitle1" fontWeight={600}>
+                    Nothing here
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {status === "Failed"
+                      ? "No emails have failed delivery."
+                      : `No ${status.toLowerCase()} emails.`}
+                  </Typography>
+                </Stack>
+              ),
+            }}
+          />
+        </Box>
+      )}
+    </Stack>
+  );
+}
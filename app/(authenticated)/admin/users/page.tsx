@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { DataGrid, GridActionsCellItem, GridColDef } from "@mui/x-data-grid";
 import Box from "@mui/material/Box";
 import Stack from "@mui/material/Stack";
@@ -10,10 +10,17 @@ import Button from "@mui/material/Button";
 import Alert from "@mui/material/Alert";
 import Toolbar from "@mui/material/Toolbar";
 import CircularProgress from "@mui/material/CircularProgress";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import TextField from "@mui/material/TextField";
 import RefreshIcon from "@mui/icons-material/RefreshRounded";
 import CheckIcon from "@mui/icons-material/CheckCircleRounded";
 import BlockIcon from "@mui/icons-material/BlockRounded";
 import CancelIcon from "@mui/icons-material/CancelRounded";
+import WalletIcon from "@mui/icons-material/AccountBalanceWalletRounded";
+import SyncIcon from "@mui/icons-material/SyncRounded";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useSnackbar } from "notistack";
 import { useAuthToken } from "@/hooks/useAuthToken";
@@ -22,6 +29,8 @@ import {
   approveUser,
   rejectUser,
   blockUser,
+  adjustUserWallet,
+  rebuildUserWallet,
   AdminUser,
 } from "@/lib/services/admin";
 import { UserStatus, UserRole } from "@/lib/types";
@@ -73,6 +82,55 @@ export default function AdminUserManagementPage() {
     },
   });
 
+  const [walletTarget, setWalletTarget] = useState<AdminUser | null>(null);
+  const [adjustAmount, setAdjustAmount] = useState("");
+  const [adjustReason, setAdjustReason] = useState("");
+
+  const closeWalletDialog = () => {
+    setWalletTarget(null);
+    setAdjustAmount("");
+    setAdjustReason("");
+  };
+
+  const adjustWalletMutation = useMutation({
+    mutationFn: (payload: { userId: string; amount: number; reason: string }) =>
+      adjustUserWallet(
+        payload.userId,
+        { amount: payload.amount, reason: payload.reason },
+        token ?? undefined
+      ),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message ?? "Wallet adjusted", {
+        variant: "success",
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin", "users"] });
+      closeWalletDialog();
+    },
+    onError: (mutationError: unknown) => {
+      enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
+    },
+  });
+
+  const rebuildWalletMutation = useMutation({
+    mutationFn: (userId: string) => rebuildUserWallet(userId, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message ?? "Wallet balance rebuilt", {
+        variant: "info",
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin", "users"] });
+    },
+    onError: (mutationError: unknown) => {
+      enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
+    },
+  });
+
+  const parsedAdjustAmount = Number(adjustAmount);
+  const adjustmentValid =
+    adjustAmount.trim() !== "" &&
+    Number.isFinite(parsedAdjustAmount) &&
+    parsedAdjustAmount !== 0 &&
+    adjustReason.trim().length > 0;
+
   const permittedRoles = useMemo(
     () =>
       new Set<UserRole>([
@@ -195,6 +253,13 @@ export default function AdminUserManagementPage() {
           );
         },
       },
+      {
+        field: "balance",
+        headerName: "Wallet",
+        flex: 0.6,
+        valueFormatter: (value: number | undefined) =>
+          `EGP ${(value ?? 0).toFixed(2)}`,
+      },
       {
         field: "createdAt",
         headerName: "Created",
@@ -274,11 +339,37 @@ export default function AdminUserManagementPage() {
             />
           );
 
+          actions.push(
+            <GridActionsCellItem
+              key="adjust-wallet"
+              icon={<WalletIcon />}
+              label="Adjust wallet"
+              onClick={() => setWalletTarget(row)}
+              showInMenu
+            />
+          );
+          actions.push(
+            <GridActionsCellItem
+              key="rebuild-wallet"
+              icon={<SyncIcon />}
+              label="Rebuild balance from ledger"
+              disabled={rebuildWalletMutation.isPending}
+              onClick={() => rebuildWalletMutation.mutate(row.id)}
+              showInMenu
+            />
+          );
+
           return actions;
         },
       },
     ],
-    [approveMutation, blockMutation, rejectMutation, sessionUser?.id]
+    [
+      approveMutation,
+      blockMutation,
+      rebuildWalletMutation,
+      rejectMutation,
+      sessionUser?.id,
+    ]
   );
 
   return (
@@ -341,6 +432,63 @@ export default function AdminUserManagementPage() {
           />
         </Box>
       )}
+
+      <Dialog
+        open={Boolean(walletTarget)}
+        onClose={adjustWalletMutation.isPending ? undefined : closeWalletDialog}
+        fullWidth
+        maxWidth="xs"
+      >
+        <DialogTitle>Adjust wallet</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              {walletTarget
+                ? `${walletTarget.firstName} ${walletTarget.lastName}`.trim() ||
+                  walletTarget.email
+                : ""}{" "}
+              currently has EGP {(walletTarget?.balance ?? 0).toFixed(2)}. Use a
+              negative amount to debit the wallet.
+            </Typography>
+            <TextField
+              label="Amount (EGP)"
+              type="number"
+              value={adjustAmount}
+              onChange={(event) => setAdjustAmount(event.target.value)}
+              fullWidth
+            />
+            <TextField
+              label="Reason"
+              value={adjustReason}
+              onChange={(event) => setAdjustReason(event.target.value)}
+              helperText="Shown to the user on their wallet statement"
+              fullWidth
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={closeWalletDialog}
+            disabled={adjustWalletMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            disabled={!adjustmentValid || adjustWalletMutation.isPending}
+            onClick={() =>
+              walletTarget &&
+              adjustWalletMutation.mutate({
+                userId: walletTarget.id,
+                amount: parsedAdjustAmount,
+                reason: adjustReason.trim(),
+              })
+            }
+          >
+            Apply adjustment
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Stack>
   );
 }
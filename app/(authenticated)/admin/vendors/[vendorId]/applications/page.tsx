@@ -1,6 +1,6 @@
 "use client";
 
-import { use, useEffect, useMemo } from "react";
+import { use, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Stack from "@mui/material/Stack";
 import Typography from "@mui/material/Typography";
@@ -21,6 +21,7 @@ import TaskAltIcon from "@mui/icons-material/TaskAltRounded";
 import BlockIcon from "@mui/icons-material/BlockRounded";
 import VerifiedIcon from "@mui/icons-material/VerifiedRounded";
 import DownloadIcon from "@mui/icons-material/DownloadRounded";
+import MoreTimeIcon from "@mui/icons-material/MoreTimeRounded";
 import { DataGrid, type GridColDef } from "@mui/x-data-grid";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useSnackbar } from "notistack";
@@ -36,6 +37,7 @@ import {
   type AdminVendorApplication,
 } from "@/lib/services/admin";
 import { formatDateTime } from "@/lib/date";
+import { PaymentDeadlineDialog } from "@/components/vendors/PaymentDeadlineDialog";
 
 export default function VendorApplicationsDetailPage({
   params,
@@ -58,6 +60,8 @@ export default function VendorApplicationsDetailPage({
   });
 
   const vendor = data?.find((v: AdminVendor) => v.id === vendorId);
+  const [deadlineApplication, setDeadlineApplication] =
+    useState<AdminVendorApplication | null>(null);
 
   // Mutation for updating application status
   const updateStatusMutation = useMutation({
@@ -246,6 +250,42 @@ export default function VendorApplicationsDetailPage({
             </Typography>
           ),
       },
+      {
+        field: "payment",
+        headerName: "Payment",
+        flex: 1.1,
+        minWidth: 170,
+        sortable: false,
+        renderCell: ({ row }) =>
+          row.payment ? (
+            <Stack spacing={0.25} justifyContent="center" height="100%">
+              <Chip
+                label={row.payment.releasedAt ? "RELEASED" : row.payment.status.toUpperCase()}
+                size="small"
+                color={
+                  row.payment.status === "paid"
+                    ? "success"
+                    : row.payment.status === "overdue"
+                      ? "error"
+                      : row.payment.status === "refunded"
+                        ? "default"
+                        : "warning"
+                }
+                sx={{ alignSelf: "flex-start" }}
+              />
+              {row.payment.dueDate &&
+              (row.payment.status === "pending" || row.payment.status === "overdue") ? (
+                <Typography variant="caption" color="text.secondary">
+                  Due {formatDateTime(row.payment.dueDate)}
+                </Typography>
+              ) : null}
+            </Stack>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              —
+            </Typography>
+          ),
+      },
       {
         field: "status",
         headerName: "Status",
@@ -297,6 +337,19 @@ export default function VendorApplicationsDetailPage({
                 <CancelIcon fontSize="small" />
               </IconButton>
             </Stack>
+          ) : row.status === "approved" &&
+            row.payment &&
+            !row.payment.releasedAt &&
+            (row.payment.status === "pending" || row.payment.status === "overdue") ? (
+            <Tooltip title="Extend payment deadline">
+              <IconButton
+                size="small"
+                color="primary"
+                onClick={() => setDeadlineApplication(row)}
+              >
+                <MoreTimeIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
           ) : null,
       },
     ],
@@ -601,6 +654,12 @@ export default function VendorApplicationsDetailPage({
           )}
         </Stack>
       </Card>
+
+      <PaymentDeadlineDialog
+        vendorId={vendorId}
+        application={deadlineApplication}
+        onClose={() => setDeadlineApplication(null)}
+      />
     </Stack>
   );
 }
@@ -51,6 +51,10 @@ import {
 import { formatDateTime } from "@/lib/date";
 import { AuthRole, EventType, Location } from "@/lib/types";
 import { EventOfficeEventActions } from "@/components/events/EventOfficeEventActions";
+import { PublicationStatusChip } from "@/components/events/PublicationStatusChip";
+import { VenueSelect } from "@/components/events/VenueSelect";
+import { useVenues } from "@/hooks/useVenues";
+import { confirmDoubleBooking, describeVenue } from "@/lib/services/venues";
 
 const vendorEventTypes = [EventType.Bazaar, EventType.BoothInPlatform] as const;
 
@@ -68,6 +72,7 @@ const bazaarSchema = z
     startDate: z.date().optional(),
     endDate: z.date().optional(),
     registrationDeadline: z.date().optional(),
+    venueId: z.string().optional(),
   })
   .superRefine((values, ctx) => {
     if (values.eventType === EventType.BoothInPlatform) {
@@ -155,6 +160,8 @@ export default function BazaarManagementPage() {
       defaultValues: defaultBazaarValues(),
     });
   const watchEventType = watch("eventType");
+  const watchLocation = watch("location");
+  const { byId: venuesById } = useVenues({ includeInactive: true });
   const isPlatformBoothType = watchEventType === EventType.BoothInPlatform;
 
   useEffect(() => {
@@ -174,12 +181,19 @@ export default function BazaarManagementPage() {
   const createMutation = useMutation({
     mutationFn: (payload: BazaarPayload) =>
       createBazaar(payload, token ?? undefined),
-    onSuccess: () => {
-      enqueueSnackbar("Bazaar created successfully", { variant: "success" });
+    onSuccess: (_bazaar, payload) => {
+      enqueueSnackbar(
+        payload.draft ? "Bazaar saved as a draft" : "Bazaar created successfully",
+        { variant: "success" }
+      );
       queryClient.invalidateQueries({ queryKey: ["events", "bazaars"] });
       closeDialog();
     },
-    onError: (mutationError: unknown) => {
+    onError: (mutationError: unknown, payload) => {
+      if (confirmDoubleBooking(mutationError)) {
+        createMutation.mutate({ ...payload, allowDoubleBooking: true });
+        return;
+      }
       enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
     },
   });
@@ -197,7 +211,14 @@ export default function BazaarManagementPage() {
       queryClient.invalidateQueries({ queryKey: ["events", "bazaars"] });
       closeDialog();
     },
-    onError: (mutationError: unknown) => {
+    onError: (mutationError: unknown, variables) => {
+      if (confirmDoubleBooking(mutationError)) {
+        updateMutation.mutate({
+          ...variables,
+          payload: { ...variables.payload, allowDoubleBooking: true },
+        });
+        return;
+      }
       enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
     },
   });
@@ -281,6 +302,7 @@ export default function BazaarManagementPage() {
       startDate: dayjs(bazaar.startDate).toDate(),
       endDate: dayjs(bazaar.endDate).toDate(),
       registrationDeadline: dayjs(bazaar.registrationDeadline).toDate(),
+      venueId: bazaar.venueId ?? "",
     });
     setDialogOpen(true);
   };
@@ -311,7 +333,7 @@ export default function BazaarManagementPage() {
     setEditingBazaarId(null);
   };
 
-  const onSubmit = handleSubmit((values) => {
+  const toPayload = (values: BazaarFormValues): BazaarPayload => {
     const fallbackDate = new Date();
     const normalizedDates =
       values.eventType === EventType.BoothInPlatform
@@ -325,14 +347,19 @@ export default function BazaarManagementPage() {
             endDate: (values.endDate ?? fallbackDate).toISOString(),
             registrationDeadline: (values.registrationDeadline ?? fallbackDate).toISOString(),
           };
-    const payload: BazaarPayload = {
+    return {
       name: values.name,
       description: values.description,
       eventType: values.eventType,
       location: values.location,
+      // Platform booths are online; empty also clears the room on edit
+      venueId: values.eventType === EventType.BoothInPlatform ? "" : values.venueId ?? "",
       ...normalizedDates,
     };
+  };
 
+  const onSubmit = handleSubmit((values) => {
+    const payload = toPayload(values);
     if (editingBazaarId) {
       updateMutation.mutate({ id: editingBazaarId, payload });
     } else {
@@ -340,6 +367,10 @@ export default function BazaarManagementPage() {
     }
   });
 
+  const onSaveDraft = handleSubmit((values) => {
+    createMutation.mutate({ ...toPayload(values), draft: true });
+  });
+
   const actionLabel = editingBazaarId ? "Save changes" : "Create vendor event";
 
   return (
@@ -444,6 +475,7 @@ export default function BazaarManagementPage() {
                           size="small"
                           variant="outlined"
                         />
+                        <PublicationStatusChip event={bazaar} />
                       </Stack>
                       <Typography variant="h6" fontWeight={700}>
                         {bazaar.name}
@@ -470,6 +502,12 @@ export default function BazaarManagementPage() {
                             label="Registration deadline"
                             value={formatDateTime(bazaar.registrationDeadline)}
                           />
+                          {bazaar.venueId && venuesById.has(bazaar.venueId) ? (
+                            <Detail
+                              label="Room"
+                              value={describeVenue(venuesById.get(bazaar.venueId)!)}
+                            />
+                          ) : null}
                         </>
                       )}
                       <Typography variant="caption" color="text.secondary">
@@ -486,6 +524,14 @@ export default function BazaarManagementPage() {
                             onRestrictionsUpdated={() => {
                               void refetch();
                             }}
+                            schedule={bazaar}
+                            onCopiesChanged={() => {
+                              void refetch();
+                            }}
+                            publication={bazaar}
+                            onPublicationChanged={() => {
+                              void refetch();
+                            }}
                           />
                         </Box>
                       ) : null}
@@ -626,6 +672,19 @@ export default function BazaarManagementPage() {
                 </TextField>
               )}
             />
+            {isPlatformBoothType ? null : (
+              <Controller
+                control={control}
+                name="venueId"
+                render={({ field }) => (
+                  <VenueSelect
+                    value={field.value}
+                    onChange={field.onChange}
+                    campus={watchLocation}
+                  />
+                )}
+              />
+            )}
             {isPlatformBoothType ? (
               <Alert severity="info">
                 Booth in platform events stay open indefinitely. Vendors will choose their own
@@ -702,6 +761,14 @@ export default function BazaarManagementPage() {
           <Button onClick={closeDialog} color="inherit">
             Cancel
           </Button>
+          {editingBazaarId ? null : (
+            <Button
+              onClick={() => void onSaveDraft()}
+              disabled={createMutation.isPending}
+            >
+              Save as draft
+            </Button>
+          )}
           <Button
             type="submit"
             form="bazaar-form"
@@ -730,6 +797,7 @@ function defaultBazaarValues(): BazaarFormValues {
     startDate: now.add(7, "day").hour(10).minute(0).toDate(),
     endDate: now.add(7, "day").hour(18).minute(0).toDate(),
     registrationDeadline: now.add(5, "day").hour(17).minute(0).toDate(),
+    venueId: "",
   };
 }
 
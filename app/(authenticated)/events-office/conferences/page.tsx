@@ -32,6 +32,7 @@ import RefreshIcon from "@mui/icons-material/RefreshRounded";
 import LinkIcon from "@mui/icons-material/LinkRounded";
 import DeleteIcon from "@mui/icons-material/DeleteRounded";
 import ArchiveIcon from "@mui/icons-material/ArchiveRounded";
+import AgendaIcon from "@mui/icons-material/ViewAgendaRounded";
 import LoadingButton from "@mui/lab/LoadingButton";
 import { useSnackbar } from "notistack";
 import { useAuthToken } from "@/hooks/useAuthToken";
@@ -41,6 +42,11 @@ import {
   type EventFilters,
 } from "@/components/events/EventFiltersBar";
 import { EventOfficeEventActions } from "@/components/events/EventOfficeEventActions";
+import { PublicationStatusChip } from "@/components/events/PublicationStatusChip";
+import { AgendaEditorDialog } from "@/components/events/AgendaEditorDialog";
+import { VenueSelect } from "@/components/events/VenueSelect";
+import { useVenues } from "@/hooks/useVenues";
+import { confirmDoubleBooking, describeVenue } from "@/lib/services/venues";
 import { filterAndSortEvents } from "@/lib/events/filters";
 import {
   fetchConferences,
@@ -50,7 +56,7 @@ import {
   archiveEventById,
   type ConferencePayload,
 } from "@/lib/services/events";
-import { AuthRole, FundingSource } from "@/lib/types";
+import { AuthRole, FundingSource, type EventSummary } from "@/lib/types";
 import { formatDateTime } from "@/lib/date";
 
 const conferenceSchema = z
@@ -75,6 +81,7 @@ const conferenceSchema = z
       .max(500, "Keep it under 500 characters")
       .optional()
       .or(z.literal("")),
+    venueId: z.string().optional(),
   })
   .refine((values) => values.startDate < values.endDate, {
     message: "Start date must be before end date",
@@ -93,6 +100,7 @@ export default function ConferenceManagementPage() {
     null
   );
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [agendaConference, setAgendaConference] = useState<EventSummary | null>(null);
   const [filters, setFilters] = useState<EventFilters>({
     search: "",
     eventType: "All",
@@ -112,6 +120,7 @@ export default function ConferenceManagementPage() {
     queryKey: ["events", "conferences", token ?? "public"],
     queryFn: () => fetchConferences(token ?? undefined),
   });
+  const { byId: venuesById } = useVenues({ includeInactive: true });
 
   const { control, handleSubmit, reset, formState, register } =
     useForm<ConferenceFormValues>({
@@ -150,14 +159,21 @@ export default function ConferenceManagementPage() {
   const createMutation = useMutation({
     mutationFn: (payload: ConferencePayload) =>
       createConference(payload, token ?? undefined),
-    onSuccess: () => {
-      enqueueSnackbar("Conference created successfully", {
-        variant: "success",
-      });
+    onSuccess: (_conference, payload) => {
+      enqueueSnackbar(
+        payload.draft
+          ? "Conference saved as a draft"
+          : "Conference created successfully",
+        { variant: "success" }
+      );
       queryClient.invalidateQueries({ queryKey: ["events", "conferences"] });
       closeDialog();
     },
-    onError: (mutationError: unknown) => {
+    onError: (mutationError: unknown, payload) => {
+      if (confirmDoubleBooking(mutationError)) {
+        createMutation.mutate({ ...payload, allowDoubleBooking: true });
+        return;
+      }
       enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
     },
   });
@@ -175,7 +191,14 @@ export default function ConferenceManagementPage() {
       queryClient.invalidateQueries({ queryKey: ["events", "conferences"] });
       closeDialog();
     },
-    onError: (mutationError: unknown) => {
+    onError: (mutationError: unknown, variables) => {
+      if (confirmDoubleBooking(mutationError)) {
+        updateMutation.mutate({
+          ...variables,
+          payload: { ...variables.payload, allowDoubleBooking: true },
+        });
+        return;
+      }
       enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
     },
   });
@@ -235,6 +258,7 @@ export default function ConferenceManagementPage() {
       requiredBudget: conference.requiredBudget ?? 0,
       fundingSource: conference.fundingSource ?? FundingSource.GUC,
       extraRequiredResources: conference.extraRequiredResources ?? "",
+      venueId: conference.venueId ?? "",
     });
     setDialogOpen(true);
   };
@@ -279,6 +303,10 @@ export default function ConferenceManagementPage() {
     }
   });
 
+  const onSaveDraft = handleSubmit((values) => {
+    createMutation.mutate({ ...mapFormToPayload(values), draft: true });
+  });
+
   const actionLabel = editingConferenceId
     ? "Save changes"
     : "Create conference";
@@ -394,6 +422,7 @@ export default function ConferenceManagementPage() {
                         size="small"
                         color="primary"
                       />
+                      <PublicationStatusChip event={conference} />
                       {conference.fundingSource ? (
                         <Chip
                           label={conference.fundingSource}
@@ -419,6 +448,14 @@ export default function ConferenceManagementPage() {
                         label="Registration deadline"
                         value={formatDateTime(conference.registrationDeadline)}
                       />
+                      {conference.registrationEnabled || conference.registeredCount ? (
+                        <Detail
+                          label="Registrations"
+                          value={`${conference.registeredCount ?? 0}${
+                            conference.capacity ? ` / ${conference.capacity}` : ""
+                          }${conference.registrationEnabled ? "" : " (closed)"}`}
+                        />
+                      ) : null}
                       {conference.requiredBudget !== undefined ? (
                         <Detail
                           label="Budget allocation"
@@ -433,7 +470,13 @@ export default function ConferenceManagementPage() {
                         />
                       ) : null}
                       {conference.fullAgenda ? (
-                        <Detail label="Agenda" value={conference.fullAgenda} />
+                        <Detail label="Agenda summary" value={conference.fullAgenda} />
+                      ) : null}
+                      {conference.venueId && venuesById.has(conference.venueId) ? (
+                        <Detail
+                          label="Room"
+                          value={describeVenue(venuesById.get(conference.venueId)!)}
+                        />
                       ) : null}
                       {conference.extraRequiredResources ? (
                         <Detail
@@ -452,6 +495,18 @@ export default function ConferenceManagementPage() {
                         onRestrictionsUpdated={() => {
                           void refetch();
                         }}
+                        registration={conference}
+                        onRegistrationUpdated={() => {
+                          void refetch();
+                        }}
+                        schedule={conference}
+                        onCopiesChanged={() => {
+                          void refetch();
+                        }}
+                        publication={conference}
+                        onPublicationChanged={() => {
+                          void refetch();
+                        }}
                       />
                     ) : null}
                   </Stack>
@@ -475,6 +530,12 @@ export default function ConferenceManagementPage() {
                         </span>
                       </Tooltip>
                     ) : null}
+                    <Button
+                      startIcon={<AgendaIcon />}
+                      onClick={() => setAgendaConference(conference)}
+                    >
+                      Agenda
+                    </Button>
                     <Button
                       startIcon={<EditIcon />}
                       onClick={() => handleEditClick(conference.id)}
@@ -642,6 +703,17 @@ export default function ConferenceManagementPage() {
                 </MenuItem>
               ))}
             </TextField>
+            <Controller
+              name="venueId"
+              control={control}
+              render={({ field }) => (
+                <VenueSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  label="Room (sets the campus)"
+                />
+              )}
+            />
             <TextField
               label="Extra resources (optional)"
               fullWidth
@@ -657,6 +729,14 @@ export default function ConferenceManagementPage() {
           <Button onClick={closeDialog} color="inherit">
             Cancel
           </Button>
+          {editingConferenceId ? null : (
+            <Button
+              onClick={() => void onSaveDraft()}
+              disabled={createMutation.isPending}
+            >
+              Save as draft
+            </Button>
+          )}
           <Button
             type="submit"
             form="conference-form"
@@ -671,6 +751,18 @@ export default function ConferenceManagementPage() {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {agendaConference ? (
+        <AgendaEditorDialog
+          open
+          eventId={agendaConference.id}
+          eventName={agendaConference.name}
+          startDate={agendaConference.startDate}
+          endDate={agendaConference.endDate}
+          token={token}
+          onClose={() => setAgendaConference(null)}
+        />
+      ) : null}
     </Stack>
   );
 }
@@ -687,6 +779,7 @@ function defaultConferenceValues(): ConferenceFormValues {
     requiredBudget: 50000,
     fundingSource: FundingSource.GUC,
     extraRequiredResources: "",
+    venueId: "",
   };
 }
 
@@ -703,6 +796,8 @@ function mapFormToPayload(values: ConferenceFormValues): ConferencePayload {
     requiredBudget: values.requiredBudget,
     fundingSource: values.fundingSource,
     extraRequiredResources: extraResources ? extraResources : undefined,
+    // Empty clears the room on edit
+    venueId: values.venueId ?? "",
   };
 }
 
@@ -0,0 +1,389 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Stack from "@mui/material/Stack";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import Typography from "@mui/material/Typography";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import Chip from "@mui/material/Chip";
+import Button from "@mui/material/Button";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import TextField from "@mui/material/TextField";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Switch from "@mui/material/Switch";
+import Table from "@mui/material/Table";
+import TableBody from "@mui/material/TableBody";
+import TableCell from "@mui/material/TableCell";
+import TableContainer from "@mui/material/TableContainer";
+import TableHead from "@mui/material/TableHead";
+import TableRow from "@mui/material/TableRow";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import LoadingButton from "@mui/lab/LoadingButton";
+import AddIcon from "@mui/icons-material/AddRounded";
+import EditIcon from "@mui/icons-material/EditRounded";
+import DeleteIcon from "@mui/icons-material/DeleteOutlineRounded";
+import RefreshIcon from "@mui/icons-material/RefreshRounded";
+import { useSnackbar } from "notistack";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import { EventType, type Coupon, type CouponInput } from "@/lib/types";
+import { deleteCoupon, fetchCoupons, saveCoupon } from "@/lib/services/events";
+import {
+  DiscountLimitsFields,
+  EMPTY_DISCOUNT_LIMITS,
+  describeDiscountLimits,
+  toDiscountLimits,
+  toDiscountLimitsDraft,
+  validateDiscountLimits,
+  type DiscountLimitsDraft,
+} from "@/components/events/DiscountLimitsFields";
+
+// Only these event types take payments at checkout
+const PAID_EVENT_TYPES = [EventType.Workshop, EventType.Trip];
+
+const currencyFormatter = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "EGP",
+  minimumFractionDigits: 2,
+});
+
+interface CouponDraft {
+  code: string;
+  description: string;
+  discountRate: string;
+  eventTypes: EventType[];
+  active: boolean;
+  limits: DiscountLimitsDraft;
+}
+
+const EMPTY_DRAFT: CouponDraft = {
+  code: "",
+  description: "",
+  discountRate: "",
+  eventTypes: [],
+  active: true,
+  limits: EMPTY_DISCOUNT_LIMITS,
+};
+
+function toDraft(coupon: Coupon): CouponDraft {
+  return {
+    code: coupon.code,
+    description: coupon.description ?? "",
+    discountRate: String(coupon.discountRate),
+    eventTypes: coupon.eventTypes,
+    active: coupon.active,
+    limits: toDiscountLimitsDraft(coupon),
+  };
+}
+
+function validateDraft(draft: CouponDraft): string | null {
+  if (draft.code.trim().length < 3) {
+    return "Codes need at least 3 characters.";
+  }
+  const rate = Number(draft.discountRate);
+  if (!Number.isFinite(rate) || rate < 1 || rate > 100) {
+    return "Enter a discount between 1% and 100%.";
+  }
+  return validateDiscountLimits(draft.limits);
+}
+
+export default function CouponsPage() {
+  const token = useAuthToken();
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [editing, setEditing] = useState<Coupon | "new" | null>(null);
+  const [draft, setDraft] = useState<CouponDraft>(EMPTY_DRAFT);
+
+  const query = useQuery({
+    queryKey: ["coupons", token],
+    queryFn: () => fetchCoupons(token ?? undefined),
+    enabled: Boolean(token),
+  });
+
+  const onMutationError = (error: unknown) => {
+    const message =
+      error && typeof error === "object" && "message" in error
+        ? String((error as { message: unknown }).message)
+        : "Unable to update coupon.";
+    enqueueSnackbar(message, { variant: "error" });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ input, couponId }: { input: CouponInput; couponId?: string }) =>
+      saveCoupon(input, token ?? undefined, couponId),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["coupons"] });
+      closeEditor();
+    },
+    onError: onMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (coupon: Coupon) => deleteCoupon(coupon.id, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["coupons"] });
+    },
+    onError: onMutationError,
+  });
+
+  const openEditor = (coupon: Coupon | "new") => {
+    setEditing(coupon);
+    setDraft(coupon === "new" ? EMPTY_DRAFT : toDraft(coupon));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      input: {
+        code: draft.code.trim(),
+        description: draft.description.trim() || undefined,
+        discountRate: Number(draft.discountRate),
+        eventTypes: draft.eventTypes,
+        active: draft.active,
+        ...toDiscountLimits(draft.limits),
+      },
+      couponId: editing && editing !== "new" ? editing.id : undefined,
+    });
+  };
+
+  const toggleEventType = (eventType: EventType) =>
+    setDraft((prev) => ({
+      ...prev,
+      eventTypes: prev.eventTypes.includes(eventType)
+        ? prev.eventTypes.filter((entry) => entry !== eventType)
+        : [...prev.eventTypes, eventType],
+    }));
+
+  const validationError = editing ? validateDraft(draft) : null;
+  const coupons = query.data ?? [];
+
+  return (
+    <Stack spacing={3}>
+      <Stack
+        direction={{ xs: "column", sm: "row" }}
+        spacing={2}
+        justifyContent="space-between"
+        alignItems={{ xs: "flex-start", sm: "center" }}
+      >
+        <Stack spacing={1}>
+          <Typography variant="h4" fontWeight={700}>
+            Coupons
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Create promo codes that take a percentage off paid workshops and trips. Vendor
+            loyalty codes are redeemed at the same checkout and managed by the vendors.
+          </Typography>
+        </Stack>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openEditor("new")}>
+          New coupon
+        </Button>
+      </Stack>
+
+      {query.isLoading ? (
+        <Skeleton variant="rectangular" height={240} sx={{ borderRadius: 3 }} />
+      ) : query.isError ? (
+        <Alert
+          severity="error"
+          action={
+            <Button size="small" startIcon={<RefreshIcon />} onClick={() => query.refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          We couldn&apos;t load the coupons right now.
+        </Alert>
+      ) : coupons.length === 0 ? (
+        <Alert severity="info">No coupons yet. Create one to offer a discount at checkout.</Alert>
+      ) : (
+        <Card variant="outlined" sx={{ borderRadius: 3 }}>
+          <CardContent>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Code</TableCell>
+                    <TableCell>Discount</TableCell>
+                    <TableCell>Applies to</TableCell>
+                    <TableCell>Limits</TableCell>
+                    <TableCell align="right">Redeemed</TableCell>
+                    <TableCell align="right">Discount given</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {coupons.map((coupon) => (
+                    <TableRow key={coupon.id} hover>
+                      <TableCell>
+                        <Typography fontWeight={700}>{coupon.code}</Typography>
+                        {coupon.description ? (
+                          <Typography variant="caption" color="text.secondary">
+                            {coupon.description}
+                          </Typography>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>{coupon.discountRate}%</TableCell>
+                      <TableCell>
+                        {coupon.eventTypes.length ? coupon.eventTypes.join(", ") : "All paid events"}
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" color="text.secondary">
+                          {describeDiscountLimits(coupon)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        {coupon.redemptions}
+                        {coupon.maxRedemptions ? ` / ${coupon.maxRedemptions}` : ""}
+                      </TableCell>
+                      <TableCell align="right">
+                        {currencyFormatter.format(coupon.discountGiven)}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={coupon.active ? "Active" : "Inactive"}
+                          color={coupon.active ? "success" : "default"}
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openEditor(coupon)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={coupon.redemptions ? "Deactivate" : "Delete"}>
+                          <span>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => deleteMutation.mutate(coupon)}
+                              disabled={
+                                (deleteMutation.isPending &&
+                                  deleteMutation.variables?.id === coupon.id) ||
+                                (!coupon.active && coupon.redemptions > 0)
+                              }
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog
+        open={Boolean(editing)}
+        onClose={saveMutation.isPending ? undefined : closeEditor}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{editing === "new" ? "New coupon" : `Edit ${draft.code}`}</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={2.5}>
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+              <TextField
+                label="Code"
+                value={draft.code}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, code: event.target.value.toUpperCase() }))
+                }
+                disabled={saveMutation.isPending}
+                required
+                fullWidth
+              />
+              <TextField
+                label="Discount (%)"
+                type="number"
+                value={draft.discountRate}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, discountRate: event.target.value }))
+                }
+                slotProps={{ htmlInput: { min: 1, max: 100, step: 1 } }}
+                disabled={saveMutation.isPending}
+                required
+                fullWidth
+              />
+            </Stack>
+            <TextField
+              label="Description"
+              value={draft.description}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, description: event.target.value }))
+              }
+              helperText="Shown to attendees when they apply the code."
+              disabled={saveMutation.isPending}
+              fullWidth
+            />
+            <Stack spacing={1}>
+              <Typography variant="subtitle2">Applies to</Typography>
+              <Stack direction="row" spacing={1}>
+                {PAID_EVENT_TYPES.map((eventType) => (
+                  <Chip
+                    key={eventType}
+                    label={`${eventType}s`}
+                    color={draft.eventTypes.includes(eventType) ? "primary" : "default"}
+                    variant={draft.eventTypes.includes(eventType) ? "filled" : "outlined"}
+                    onClick={() => toggleEventType(eventType)}
+                    disabled={saveMutation.isPending}
+                  />
+                ))}
+              </Stack>
+              <Typography variant="caption" color="text.secondary">
+                Select none to allow every paid event.
+              </Typography>
+            </Stack>
+            <DiscountLimitsFields
+              value={draft.limits}
+              onChange={(limits) => setDraft((prev) => ({ ...prev, limits }))}
+              disabled={saveMutation.isPending}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={draft.active}
+                  onChange={(event) =>
+                    setDraft((prev) => ({ ...prev, active: event.target.checked }))
+                  }
+                  disabled={saveMutation.isPending}
+                />
+              }
+              label="Active"
+            />
+            {validationError ? <Alert severity="warning">{validationError}</Alert> : null}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeEditor} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <LoadingButton
+            onClick={handleSave}
+            loading={saveMutation.isPending}
+            disabled={Boolean(validationError)}
+          >
+            Save coupon
+          </LoadingButton>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Select from "@mui/material/Select";
+import MenuItem from "@mui/material/MenuItem";
+import Chip from "@mui/material/Chip";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import Alert from "@mui/material/Alert";
+import Button from "@mui/material/Button";
+import Skeleton from "@mui/material/Skeleton";
+import Divider from "@mui/material/Divider";
+import Switch from "@mui/material/Switch";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import RepeatIcon from "@mui/icons-material/RepeatRounded";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import { useSnackbar } from "notistack";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import {
+  fetchCourts,
+  fetchCourtReservationsForDate,
+  markCourtReservationNoShow,
+} from "@/lib/services/courts";
+
+export default function EventsOfficeCourtsPage() {
+  const token = useAuthToken();
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [selectedCourtId, setSelectedCourtId] = useState<string>("");
+  const [selectedDate, setSelectedDate] = useState(dayjs());
+  const dateKey = selectedDate.format("YYYY-MM-DD");
+
+  const courtsQuery = useQuery({
+    queryKey: ["courts", token],
+    queryFn: () => fetchCourts(token ?? undefined),
+    enabled: Boolean(token),
+  });
+
+  const courts = courtsQuery.data ?? [];
+  const courtId = selectedCourtId || courts[0]?.id || "";
+
+  const reservationsQuery = useQuery({
+    queryKey: ["court-reservations", courtId, dateKey, token],
+    queryFn: () => fetchCourtReservationsForDate(courtId, dateKey, token ?? undefined),
+    enabled: Boolean(token && courtId),
+  });
+
+  const noShowMutation = useMutation({
+    mutationFn: (payload: { reservationId: string; noShow: boolean }) =>
+      markCourtReservationNoShow(payload.reservationId, payload.noShow, token ?? undefined),
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "No-show updated.", { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["court-reservations", courtId, dateKey] });
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to update no-show status.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  const reservations = reservationsQuery.data ?? [];
+
+  return (
+    <Stack spacing={4}>
+      <Stack
+        direction={{ xs: "column", md: "row" }}
+        spacing={2}
+        justifyContent="space-between"
+        alignItems={{ xs: "flex-start", md: "center" }}
+      >
+        <Box>
+          <Typography variant="h4" fontWeight={700}>
+            Court Reservations
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Review daily bookings and flag students who did not show up. Repeat no-shows
+            suspend court booking automatically.
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1}>
+          <Select
+            size="small"
+            value={courtId}
+            displayEmpty
+            onChange={(event) => setSelectedCourtId(String(event.target.value))}
+            sx={{ minWidth: 200 }}
+          >
+            {courts.map((court) => (
+              <MenuItem key={court.id} value={court.id}>
+                {court.venue} ({court.type})
+              </MenuItem>
+            ))}
+          </Select>
+          <DatePicker
+            label="Date"
+            value={selectedDate}
+            onChange={(value) => {
+              if (value) {
+                setSelectedDate(value);
+              }
+            }}
+            slotProps={{ textField: { size: "small" } }}
+          />
+        </Stack>
+      </Stack>
+
+      <Card sx={{ borderRadius: 3, boxShadow: "0 12px 32px rgba(15,23,42,0.06)" }}>
+        <CardContent>
+          {courtsQuery.isLoading || reservationsQuery.isLoading ? (
+            <Skeleton variant="rectangular" height={160} sx={{ borderRadius: 2 }} />
+          ) : courtsQuery.isError || reservationsQuery.isError ? (
+            <Alert
+              severity="error"
+              action={<Button onClick={() => reservationsQuery.refetch()}>Retry</Button>}
+            >
+              Unable to load court reservations right now.
+            </Alert>
+          ) : courts.length === 0 ? (
+            <Alert severity="info">No courts have been set up yet.</Alert>
+          ) : reservations.length === 0 ? (
+            <Alert severity="info">
+              No reservations on {selectedDate.format("MMM D, YYYY")} for this court.
+            </Alert>
+          ) : (
+            <Stack spacing={1.5} divider={<Divider flexItem />}>
+              {reservations.map((reservation) => {
+                const hasStarted = dayjs(`${reservation.date}T${reservation.startTime}`).isBefore(
+                  dayjs()
+                );
+                return (
+                  <Stack
+                    key={reservation.id}
+                    direction={{ xs: "column", sm: "row" }}
+                    spacing={1}
+                    justifyContent="space-between"
+                    alignItems={{ sm: "center" }}
+                  >
+                    <Stack spacing={0.25}>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="subtitle2" fontWeight={600}>
+                          {reservation.startTime} – {reservation.endTime}
+                        </Typography>
+                        {reservation.seriesId ? (
+                          <Chip icon={<RepeatIcon />} label="Weekly" size="small" variant="outlined" />
+                        ) : null}
+                      </Stack>
+                      <Typography variant="body2" color="text.secondary">
+                        {reservation.studentName} • {reservation.studentGucId}
+                      </Typography>
+                    </Stack>
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          color="error"
+                          checked={reservation.noShow}
+                          disabled={noShowMutation.isPending || (!hasStarted && !reservation.noShow)}
+                          onChange={(event) =>
+                            noShowMutation.mutate({
+                              reservationId: reservation.id,
+                              noShow: event.target.checked,
+                            })
+                          }
+                        />
+                      }
+                      label="No-show"
+                    />
+                  </Stack>
+                );
+              })}
+            </Stack>
+          )}
+        </CardContent>
+      </Card>
+    </Stack>
+  );
+}
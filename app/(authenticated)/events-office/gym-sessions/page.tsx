@@ -34,6 +34,8 @@ import EventIcon from "@mui/icons-material/EventRounded";
 import AddIcon from "@mui/icons-material/AddRounded";
 import EditIcon from "@mui/icons-material/EditRounded";
 import DeleteIcon from "@mui/icons-material/DeleteRounded";
+import HowToRegIcon from "@mui/icons-material/HowToRegRounded";
+import RepeatIcon from "@mui/icons-material/RepeatRounded";
 import { DatePicker } from "@mui/x-date-pickers/DatePicker";
 import { TimePicker } from "@mui/x-date-pickers/TimePicker";
 import { useSnackbar } from "notistack";
@@ -48,7 +50,10 @@ import {
   createGymSession,
   updateGymSession,
   deleteGymSession,
+  fetchGymAttendanceStats,
 } from "@/lib/services/gym";
+import { GymCheckInDialog } from "@/components/gym/GymCheckInDialog";
+import { GymTemplateManager } from "@/components/gym/GymTemplateManager";
 import { type GymSession, GymSessionType, AuthRole } from "@/lib/types";
 import { filterAndSortEvents } from "@/lib/events/filters";
 import type { Resolver } from "react-hook-form";
@@ -134,6 +139,7 @@ export default function EventsOfficeGymSessionsPage() {
   const [selectedYear, setSelectedYear] = useState(TODAY.year());
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingSession, setEditingSession] = useState<GymSession | null>(null);
+  const [checkInSession, setCheckInSession] = useState<GymSession | null>(null);
   const isEventsOfficeEditor = Boolean(editingSession && isEventsOffice);
 
   const {
@@ -160,6 +166,13 @@ export default function EventsOfficeGymSessionsPage() {
     enabled: Boolean(token && canManage),
     ...QUERY_CACHE_SETTINGS,
   });
+  const attendanceStatsQuery = useQuery({
+    queryKey: ["gym-attendance-stats", selectedYear, selectedMonth, token],
+    queryFn: () =>
+      fetchGymAttendanceStats(selectedYear, selectedMonth + 1, token ?? undefined),
+    enabled: Boolean(token && canManage),
+    ...QUERY_CACHE_SETTINGS,
+  });
   const sessions = useMemo(
     () => scheduleQuery.data ?? [],
     [scheduleQuery.data]
@@ -438,6 +451,52 @@ export default function EventsOfficeGymSessionsPage() {
         </CardContent>
       </Card>
 
+      <Card
+        sx={{ borderRadius: 3, boxShadow: "0 14px 40px rgba(15,23,42,0.08)" }}
+      >
+        <CardContent>
+          <Typography variant="subtitle1" fontWeight={700} mb={2}>
+            Attendance in {MONTHS[selectedMonth]} {selectedYear}
+          </Typography>
+          {attendanceStatsQuery.isLoading ? (
+            <Skeleton variant="rectangular" height={72} sx={{ borderRadius: 2 }} />
+          ) : attendanceStatsQuery.isError ? (
+            <Alert severity="error">
+              Unable to load attendance statistics right now.
+            </Alert>
+          ) : (
+            <Grid container spacing={2}>
+              {(attendanceStatsQuery.data ?? []).map((stat) => (
+                <Grid key={stat.type} size={{ xs: 6, md: 2.4 }}>
+                  <Stack spacing={0.5}>
+                    <Chip
+                      label={stat.type}
+                      color={SESSION_COLOR_MAP[stat.type]}
+                      size="small"
+                      sx={{ width: "fit-content" }}
+                    />
+                    <Typography variant="h6" fontWeight={700}>
+                      {stat.attendanceRate === null
+                        ? "—"
+                        : `${stat.attendanceRate}%`}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {stat.checkIns}/{stat.registrations} checked in •{" "}
+                      {stat.sessions} session{stat.sessions === 1 ? "" : "s"}
+                    </Typography>
+                  </Stack>
+                </Grid>
+              ))}
+            </Grid>
+          )}
+        </CardContent>
+      </Card>
+
+      <GymTemplateManager
+        token={token ?? undefined}
+        restrictToSchedule={isEventsOffice}
+      />
+
       <EventFiltersBar
         value={filters}
         onChange={setFilters}
@@ -510,12 +569,22 @@ export default function EventsOfficeGymSessionsPage() {
                               spacing={1}
                             >
                               <Stack spacing={0.5}>
-                                <Chip
-                                  label={session.type}
-                                  color={SESSION_COLOR_MAP[session.type]}
-                                  size="small"
-                                  sx={{ width: "fit-content" }}
-                                />
+                                <Stack direction="row" spacing={0.5}>
+                                  <Chip
+                                    label={session.type}
+                                    color={SESSION_COLOR_MAP[session.type]}
+                                    size="small"
+                                    sx={{ width: "fit-content" }}
+                                  />
+                                  {session.templateId ? (
+                                    <Chip
+                                      icon={<RepeatIcon />}
+                                      label="Weekly"
+                                      size="small"
+                                      variant="outlined"
+                                    />
+                                  ) : null}
+                                </Stack>
                                 <Stack
                                   direction="row"
                                   spacing={1}
@@ -548,6 +617,12 @@ export default function EventsOfficeGymSessionsPage() {
                                   color="text.secondary"
                                 >
                                   {registered}/{capacity} booked
+                                  {session.waitlist?.length
+                                    ? ` • ${session.waitlist.length} waiting`
+                                    : ""}
+                                  {typeof session.attendedCount === "number"
+                                    ? ` • ${session.attendedCount} attended`
+                                    : ""}
                                 </Typography>
                               </Stack>
                             </Stack>
@@ -556,6 +631,14 @@ export default function EventsOfficeGymSessionsPage() {
                               spacing={1}
                               justifyContent="flex-end"
                             >
+                              <IconButton
+                                size="small"
+                                color="success"
+                                onClick={() => setCheckInSession(session)}
+                                aria-label="Check in attendees"
+                              >
+                                <HowToRegIcon fontSize="small" />
+                              </IconButton>
                               <IconButton
                                 size="small"
                                 color="primary"
@@ -598,6 +681,13 @@ export default function EventsOfficeGymSessionsPage() {
         <AddIcon />
       </Fab>
 
+      <GymCheckInDialog
+        open={Boolean(checkInSession)}
+        session={checkInSession}
+        token={token ?? undefined}
+        onClose={() => setCheckInSession(null)}
+      />
+
       <Dialog
         open={dialogOpen}
         onClose={handleCloseDialog}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Stack from "@mui/material/Stack";
+import Grid from "@mui/material/Grid";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import CardActions from "@mui/material/CardActions";
+import Typography from "@mui/material/Typography";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import Chip from "@mui/material/Chip";
+import Button from "@mui/material/Button";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import LoadingButton from "@mui/lab/LoadingButton";
+import EditIcon from "@mui/icons-material/EditRounded";
+import RestoreIcon from "@mui/icons-material/RestoreRounded";
+import RefreshIcon from "@mui/icons-material/RefreshRounded";
+import { useSnackbar } from "notistack";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import type { EventTypeRefundPolicy, RefundPolicyRules } from "@/lib/types";
+import {
+  fetchRefundPolicies,
+  resetRefundPolicy,
+  saveRefundPolicy,
+} from "@/lib/services/events";
+import { formatDateTime } from "@/lib/date";
+import { RefundPolicySummary } from "@/components/events/RefundPolicySummary";
+import {
+  RefundPolicyEditor,
+  validateRefundPolicy,
+} from "@/components/events/RefundPolicyEditor";
+
+export default function RefundPoliciesPage() {
+  const token = useAuthToken();
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [editing, setEditing] = useState<EventTypeRefundPolicy | null>(null);
+  const [draft, setDraft] = useState<RefundPolicyRules | null>(null);
+
+  const query = useQuery({
+    queryKey: ["refund-policies", token],
+    queryFn: () => fetchRefundPolicies(token ?? undefined),
+    enabled: Boolean(token),
+  });
+
+  const onMutationError = (error: unknown) => {
+    enqueueSnackbar(
+      error instanceof Error ? error.message : "Unable to update refund policy.",
+      { variant: "error" }
+    );
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ policy, rules }: { policy: EventTypeRefundPolicy; rules: RefundPolicyRules }) =>
+      saveRefundPolicy(policy.eventType, rules, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["refund-policies"] });
+      queryClient.invalidateQueries({ queryKey: ["event-refund-policy"] });
+      closeEditor();
+    },
+    onError: onMutationError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (policy: EventTypeRefundPolicy) =>
+      resetRefundPolicy(policy.eventType, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["refund-policies"] });
+      queryClient.invalidateQueries({ queryKey: ["event-refund-policy"] });
+    },
+    onError: onMutationError,
+  });
+
+  const openEditor = (policy: EventTypeRefundPolicy) => {
+    setEditing(policy);
+    setDraft({ tiers: policy.tiers, destination: policy.destination });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setDraft(null);
+  };
+
+  const validationError = draft ? validateRefundPolicy(draft) : null;
+
+  return (
+    <Stack spacing={3}>
+      <Stack spacing={1}>
+        <Typography variant="h4" fontWeight={700}>
+          Refund policies
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Decide how much attendees get back when they cancel a paid registration and
+          whether refunds return to their wallet or their card. Individual events can
+          override these defaults from their management actions.
+        </Typography>
+      </Stack>
+
+      {query.isLoading ? (
+        <Grid container spacing={3}>
+          {Array.from({ length: 2 }).map((_, index) => (
+            <Grid key={index} size={{ xs: 12, md: 6 }}>
+              <Skeleton variant="rectangular" height={220} sx={{ borderRadius: 3 }} />
+            </Grid>
+          ))}
+        </Grid>
+      ) : query.isError ? (
+        <Alert
+          severity="error"
+          action={
+            <Button
+              size="small"
+              startIcon={<RefreshIcon />}
+              onClick={() => query.refetch()}
+            >
+              Retry
+            </Button>
+          }
+        >
+          We couldn&apos;t load the refund policies right now.
+        </Alert>
+      ) : (
+        <Grid container spacing={3}>
+          {(query.data ?? []).map((policy) => (
+            <Grid key={policy.eventType} size={{ xs: 12, md: 6 }}>
+              <Card variant="outlined" sx={{ height: "100%", borderRadius: 3 }}>
+                <CardContent>
+                  <Stack spacing={2}>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Typography variant="h6" fontWeight={600}>
+                        {policy.eventType}s
+                      </Typography>
+                      <Chip
+                        size="small"
+                        label={policy.source === "Default" ? "Default" : "Custom"}
+                        color={policy.source === "Default" ? "default" : "primary"}
+                      />
+                    </Stack>
+                    <RefundPolicySummary policy={policy} title="Tiers" />
+                    {policy.updatedAt ? (
+                      <Typography variant="caption" color="text.secondary">
+                        Last updated {formatDateTime(policy.updatedAt)}
+                      </Typography>
+                    ) : null}
+                  </Stack>
+                </CardContent>
+                <CardActions sx={{ px: 2, pb: 2 }}>
+                  <Button startIcon={<EditIcon />} onClick={() => openEditor(policy)}>
+                    Edit
+                  </Button>
+                  {policy.source !== "Default" ? (
+                    <LoadingButton
+                      color="inherit"
+                      startIcon={<RestoreIcon />}
+                      onClick={() => resetMutation.mutate(policy)}
+                      loading={
+                        resetMutation.isPending &&
+                        resetMutation.variables?.eventType === policy.eventType
+                      }
+                    >
+                      Reset to default
+                    </LoadingButton>
+                  ) : null}
+                </CardActions>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+
+      <Dialog
+        open={Boolean(editing)}
+        onClose={saveMutation.isPending ? undefined : closeEditor}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{editing?.eventType} refund policy</DialogTitle>
+        <DialogContent dividers>
+          {draft ? (
+            <Stack spacing={2}>
+              <RefundPolicyEditor
+                value={draft}
+                onChange={setDraft}
+                disabled={saveMutation.isPending}
+              />
+              {validationError ? (
+                <Alert severity="warning">{validationError}</Alert>
+              ) : null}
+            </Stack>
+          ) : null}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeEditor} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <LoadingButton
+            onClick={() =>
+              editing && draft && saveMutation.mutate({ policy: editing, rules: draft })
+            }
+            loading={saveMutation.isPending}
+            disabled={!draft || Boolean(validationError)}
+          >
+            Save policy
+          </LoadingButton>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+}
@@ -41,6 +41,7 @@ import {
   type EventFilters,
 } from "@/components/events/EventFiltersBar";
 import { EventOfficeEventActions } from "@/components/events/EventOfficeEventActions";
+import { PublicationStatusChip } from "@/components/events/PublicationStatusChip";
 import { filterAndSortEvents } from "@/lib/events/filters";
 import {
   fetchTrips,
@@ -52,6 +53,7 @@ import {
 } from "@/lib/services/events";
 import { formatDateTime } from "@/lib/date";
 import { AuthRole, Location } from "@/lib/types";
+import { campusCurrency } from "@/lib/campus";
 
 const tripSchema = z
   .object({
@@ -133,8 +135,11 @@ export default function TripManagementPage() {
   const createMutation = useMutation({
     mutationFn: (payload: TripPayload) =>
       createTrip(payload, token ?? undefined),
-    onSuccess: () => {
-      enqueueSnackbar("Trip created successfully", { variant: "success" });
+    onSuccess: (_trip, payload) => {
+      enqueueSnackbar(
+        payload.draft ? "Trip saved as a draft" : "Trip created successfully",
+        { variant: "success" }
+      );
       queryClient.invalidateQueries({ queryKey: ["events", "trips"] });
       closeDialog();
     },
@@ -265,6 +270,10 @@ export default function TripManagementPage() {
     }
   });
 
+  const onSaveDraft = handleSubmit((values) => {
+    createMutation.mutate({ ...mapFormToPayload(values), draft: true });
+  });
+
   const actionLabel = editingTripId ? "Save changes" : "Create trip";
 
   return (
@@ -378,6 +387,7 @@ export default function TripManagementPage() {
                         size="small"
                         color="primary"
                       />
+                      <PublicationStatusChip event={trip} />
                     </Stack>
                     <Typography variant="body2" color="text.secondary">
                       {trip.description}
@@ -402,7 +412,7 @@ export default function TripManagementPage() {
                       />
                       <Detail
                         label="Price"
-                        value={formatPrice(trip.price ?? 0)}
+                        value={formatPrice(trip.price ?? 0, trip.location)}
                       />
                     </Stack>
                     {isEventsOfficeUser ? (
@@ -416,6 +426,14 @@ export default function TripManagementPage() {
                           onRestrictionsUpdated={() => {
                             void refetch();
                           }}
+                          schedule={trip}
+                          onCopiesChanged={() => {
+                            void refetch();
+                          }}
+                          publication={trip}
+                          onPublicationChanged={() => {
+                            void refetch();
+                          }}
                         />
                       </Box>
                     ) : null}
@@ -607,6 +625,14 @@ export default function TripManagementPage() {
           <Button onClick={closeDialog} color="inherit">
             Cancel
           </Button>
+          {editingTripId ? null : (
+            <Button
+              onClick={() => void onSaveDraft()}
+              disabled={createMutation.isPending}
+            >
+              Save as draft
+            </Button>
+          )}
           <Button
             type="submit"
             form="trip-form"
@@ -674,10 +700,10 @@ function resolveErrorMessage(error: unknown) {
   return "Something went wrong. Please try again.";
 }
 
-function formatPrice(value: number) {
+function formatPrice(value: number, location?: string) {
   const formatter = new Intl.NumberFormat(undefined, {
     style: "currency",
-    currency: "EGP",
+    currency: campusCurrency(location),
     minimumFractionDigits: value % 1 === 0 ? 0 : 2,
   });
   return formatter.format(value);
@@ -0,0 +1,446 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import Stack from "@mui/material/Stack";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import Typography from "@mui/material/Typography";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import Chip from "@mui/material/Chip";
+import Button from "@mui/material/Button";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import TextField from "@mui/material/TextField";
+import MenuItem from "@mui/material/MenuItem";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Switch from "@mui/material/Switch";
+import Table from "@mui/material/Table";
+import TableBody from "@mui/material/TableBody";
+import TableCell from "@mui/material/TableCell";
+import TableContainer from "@mui/material/TableContainer";
+import TableHead from "@mui/material/TableHead";
+import TableRow from "@mui/material/TableRow";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import LoadingButton from "@mui/lab/LoadingButton";
+import AddIcon from "@mui/icons-material/AddRounded";
+import EditIcon from "@mui/icons-material/EditRounded";
+import ArchiveIcon from "@mui/icons-material/Inventory2Rounded";
+import CalendarIcon from "@mui/icons-material/CalendarMonthRounded";
+import RefreshIcon from "@mui/icons-material/RefreshRounded";
+import { useSnackbar } from "notistack";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import { useVenues } from "@/hooks/useVenues";
+import { VenueCalendar } from "@/components/events/VenueCalendar";
+import {
+  VenueKind,
+  createVenue,
+  retireVenue,
+  updateVenue,
+  type Venue,
+  type VenuePayload,
+} from "@/lib/services/venues";
+import { Location } from "@/lib/types";
+
+interface VenueDraft {
+  name: string;
+  kind: VenueKind;
+  campus: Location;
+  building: string;
+  capacity: string;
+  equipment: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: VenueDraft = {
+  name: "",
+  kind: VenueKind.Hall,
+  campus: Location.Cairo,
+  building: "",
+  capacity: "",
+  equipment: "",
+  notes: "",
+};
+
+function toDraft(venue: Venue): VenueDraft {
+  return {
+    name: venue.name,
+    kind: venue.kind,
+    campus: venue.campus,
+    building: venue.building ?? "",
+    capacity: String(venue.capacity),
+    equipment: venue.equipment.join(", "),
+    notes: venue.notes ?? "",
+  };
+}
+
+function toPayload(draft: VenueDraft): VenuePayload {
+  return {
+    name: draft.name.trim(),
+    kind: draft.kind,
+    campus: draft.campus,
+    building: draft.building.trim() || undefined,
+    capacity: Number(draft.capacity),
+    equipment: draft.equipment
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean),
+    notes: draft.notes.trim() || undefined,
+  };
+}
+
+function validateDraft(draft: VenueDraft): string | null {
+  if (!draft.name.trim()) {
+    return "Give the room a name.";
+  }
+  const capacity = Number(draft.capacity);
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    return "Capacity must be a whole number of at least 1.";
+  }
+  return null;
+}
+
+export default function VenuesPage() {
+  const token = useAuthToken();
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [showRetired, setShowRetired] = useState(false);
+  const [editing, setEditing] = useState<Venue | "new" | null>(null);
+  const [draft, setDraft] = useState<VenueDraft>(EMPTY_DRAFT);
+  const [calendarVenueId, setCalendarVenueId] = useState<string | null>(null);
+
+  const query = useVenues({ includeInactive: true });
+  const venues = query.venues.filter((venue) => showRetired || venue.active);
+  const calendarVenue = calendarVenueId ? query.byId.get(calendarVenueId) : undefined;
+
+  const onMutationError = (error: unknown) => {
+    const message =
+      error && typeof error === "object" && "message" in error
+        ? String((error as { message: unknown }).message)
+        : "Unable to update the room.";
+    enqueueSnackbar(message, { variant: "error" });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ payload, venueId }: { payload: VenuePayload; venueId?: string }) =>
+      venueId
+        ? updateVenue(venueId, payload, token ?? undefined)
+        : createVenue(payload, token ?? undefined),
+    onSuccess: (venue, { venueId }) => {
+      enqueueSnackbar(venueId ? `${venue.name} updated.` : `${venue.name} added.`, {
+        variant: "success",
+      });
+      queryClient.invalidateQueries({ queryKey: ["venues"] });
+      closeEditor();
+    },
+    onError: onMutationError,
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: (venue: Venue) => retireVenue(venue.id, token ?? undefined),
+    onSuccess: (message) => {
+      enqueueSnackbar(message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["venues"] });
+    },
+    onError: onMutationError,
+  });
+
+  const openEditor = (venue: Venue | "new") => {
+    setEditing(venue);
+    setDraft(venue === "new" ? EMPTY_DRAFT : toDraft(venue));
+  };
+
+  const handleRetire = (venue: Venue) => {
+    const confirmed = window.confirm(
+      `Retire ${venue.name}? It will no longer be offered for new events; past events keep it.`
+    );
+    if (confirmed) {
+      retireMutation.mutate(venue);
+    }
+  };
+
+  const validationError = editing ? validateDraft(draft) : null;
+
+  return (
+    <Stack spacing={3}>
+      <Stack
+        direction={{ xs: "column", sm: "row" }}
+        spacing={2}
+        justifyContent="space-between"
+        alignItems={{ xs: "flex-start", sm: "center" }}
+      >
+        <Stack spacing={1}>
+          <Typography variant="h4" fontWeight={700}>
+            Rooms & venues
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Halls, labs and outdoor areas that workshops, conferences and bazaars can book.
+            Events are checked against each room&apos;s capacity and existing bookings.
+          </Typography>
+        </Stack>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => openEditor("new")}>
+          New room
+        </Button>
+      </Stack>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={showRetired}
+            onChange={(event) => setShowRetired(event.target.checked)}
+          />
+        }
+        label="Show retired rooms"
+      />
+
+      {query.isLoading ? (
+        <Skeleton variant="rectangular" height={240} sx={{ borderRadius: 3 }} />
+      ) : query.isError ? (
+        <Alert
+          severity="error"
+          action={
+            <Button size="small" startIcon={<RefreshIcon />} onClick={() => query.refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          We couldn&apos;t load the rooms right now.
+        </Alert>
+      ) : venues.length === 0 ? (
+        <Alert severity="info">No rooms yet. Add the halls and labs events can be held in.</Alert>
+      ) : (
+        <Card variant="outlined" sx={{ borderRadius: 3 }}>
+          <CardContent>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Room</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Campus</TableCell>
+                    <TableCell align="right">Capacity</TableCell>
+                    <TableCell>Equipment</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {venues.map((venue) => (
+                    <TableRow
+                      key={venue.id}
+                      hover
+                      selected={venue.id === calendarVenueId}
+                    >
+                      <TableCell>
+                        <Typography fontWeight={700}>{venue.name}</Typography>
+                        {venue.building ? (
+                          <Typography variant="caption" color="text.secondary">
+                            {venue.building}
+                          </Typography>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>{venue.kind}</TableCell>
+                      <TableCell>{venue.campus}</TableCell>
+                      <TableCell align="right">{venue.capacity}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" color="text.secondary">
+                          {venue.equipment.length ? venue.equipment.join(", ") : "—"}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={venue.active ? "Bookable" : "Retired"}
+                          color={venue.active ? "success" : "default"}
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Room calendar">
+                          <IconButton
+                            size="small"
+                            color={venue.id === calendarVenueId ? "primary" : "default"}
+                            onClick={() =>
+                              setCalendarVenueId((prev) => (prev === venue.id ? null : venue.id))
+                            }
+                          >
+                            <CalendarIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openEditor(venue)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        {venue.active ? (
+                          <Tooltip title="Retire">
+                            <span>
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() => handleRetire(venue)}
+                                disabled={
+                                  retireMutation.isPending &&
+                                  retireMutation.variables?.id === venue.id
+                                }
+                              >
+                                <ArchiveIcon fontSize="small" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {calendarVenue ? (
+        <Card variant="outlined" sx={{ borderRadius: 3 }}>
+          <CardContent>
+            <Stack spacing={2}>
+              <Stack spacing={0.5}>
+                <Typography variant="h6" fontWeight={700}>
+                  {calendarVenue.name} calendar
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {calendarVenue.kind} on the {calendarVenue.campus} campus, up to{" "}
+                  {calendarVenue.capacity} people. Double-booked events are marked in red.
+                </Typography>
+              </Stack>
+              <VenueCalendar venue={calendarVenue} token={token} />
+            </Stack>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <Dialog
+        open={Boolean(editing)}
+        onClose={saveMutation.isPending ? undefined : closeEditor}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{editing === "new" ? "New room" : `Edit ${draft.name}`}</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={2.5}>
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+              <TextField
+                label="Name"
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                disabled={saveMutation.isPending}
+                required
+                fullWidth
+              />
+              <TextField
+                label="Building"
+                value={draft.building}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, building: event.target.value }))
+                }
+                disabled={saveMutation.isPending}
+                fullWidth
+              />
+            </Stack>
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+              <TextField
+                select
+                label="Type"
+                value={draft.kind}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, kind: event.target.value as VenueKind }))
+                }
+                disabled={saveMutation.isPending}
+                fullWidth
+              >
+                {Object.values(VenueKind).map((kind) => (
+                  <MenuItem key={kind} value={kind}>
+                    {kind}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Campus"
+                value={draft.campus}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, campus: event.target.value as Location }))
+                }
+                disabled={saveMutation.isPending}
+                fullWidth
+              >
+                {Object.values(Location).map((campus) => (
+                  <MenuItem key={campus} value={campus}>
+                    {campus}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Capacity"
+                type="number"
+                value={draft.capacity}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, capacity: event.target.value }))
+                }
+                slotProps={{ htmlInput: { min: 1, step: 1 } }}
+                disabled={saveMutation.isPending}
+                required
+                fullWidth
+              />
+            </Stack>
+            <TextField
+              label="Equipment"
+              value={draft.equipment}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, equipment: event.target.value }))
+              }
+              helperText="Comma separated, e.g. projector, PA system, 40 lab PCs."
+              disabled={saveMutation.isPending}
+              fullWidth
+            />
+            <TextField
+              label="Notes"
+              value={draft.notes}
+              onChange={(event) => setDraft((prev) => ({ ...prev, notes: event.target.value }))}
+              disabled={saveMutation.isPending}
+              multiline
+              minRows={2}
+              fullWidth
+            />
+            {validationError ? <Alert severity="warning">{validationError}</Alert> : null}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeEditor} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <LoadingButton
+            onClick={() =>
+              saveMutation.mutate({
+                payload: toPayload(draft),
+                venueId: editing && editing !== "new" ? editing.id : undefined,
+              })
+            }
+            loading={saveMutation.isPending}
+            disabled={Boolean(validationError)}
+          >
+            Save room
+          </LoadingButton>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+}
@@ -27,7 +27,7 @@ import { useAuthToken } from "@/hooks/useAuthToken";
 import { useSessionUser } from "@/hooks/useSessionUser";
 import { fetchUpcomingEvents } from "@/lib/services/events";
 import { fetchUserRegisteredEvents } from "@/lib/services/users";
-import { formatDateTime } from "@/lib/date";
+import { formatCampusDateTime } from "@/lib/campus";
 import { UserRole } from "@/lib/types";
 
 export default function UserDashboardPage() {
@@ -108,7 +108,7 @@ export default function UserDashboardPage() {
             title="Next on your calendar"
             value={
               stats.nextRegistration
-                ? formatDateTime(stats.nextRegistration.startDate, "MMM D, h:mm A")
+                ? formatCampusDateTime(stats.nextRegistration.startDate, stats.nextRegistration.location, "MMM D, h:mm A")
                 : "No upcoming events"
             }
             icon={<EventNoteIcon fontSize="large" color="action" />}
@@ -172,8 +172,8 @@ export default function UserDashboardPage() {
                     <TableCell>
                       <Chip label={registration.location} size="small" />
                     </TableCell>
-                    <TableCell>{formatDateTime(registration.startDate)}</TableCell>
-                    <TableCell>{formatDateTime(registration.registrationDeadline)}</TableCell>
+                    <TableCell>{formatCampusDateTime(registration.startDate, registration.location)}</TableCell>
+                    <TableCell>{formatCampusDateTime(registration.registrationDeadline, registration.location)}</TableCell>
                     <TableCell>
                       <Chip
                         label={registration.status}
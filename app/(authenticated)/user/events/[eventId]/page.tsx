@@ -21,6 +21,10 @@ import EventBusyIcon from "@mui/icons-material/EventBusyRounded";
 import BlockIcon from "@mui/icons-material/BlockRounded";
 import FavoriteIcon from "@mui/icons-material/FavoriteRounded";
 import FavoriteBorderIcon from "@mui/icons-material/FavoriteBorderRounded";
+import HourglassIcon from "@mui/icons-material/HourglassTopRounded";
+import CalendarAddIcon from "@mui/icons-material/EditCalendarRounded";
+import TicketIcon from "@mui/icons-material/ConfirmationNumberRounded";
+import GroupAddIcon from "@mui/icons-material/GroupAddRounded";
 import dayjs from "dayjs";
 import { useSnackbar } from "notistack";
 import { useAuthToken } from "@/hooks/useAuthToken";
@@ -32,15 +36,33 @@ import {
   cancelEventRegistration,
   createStripePaymentIntent,
   finalizeStripePayment,
+  fetchEventWaitlistStatus,
+  joinEventWaitlist,
+  leaveEventWaitlist,
+  downloadEventCalendarFile,
+  downloadEventTicketFile,
 } from "@/lib/services/events";
-import { EventType, type EventSummary } from "@/lib/types";
+import {
+  AuthRole,
+  EventType,
+  WaitlistStatus,
+  type EventSummary,
+  type TicketTierAudience,
+} from "@/lib/types";
 import { formatDateTime, formatRelative } from "@/lib/date";
+import {
+  campusCurrency,
+  campusTimeZone,
+  formatCampusDateTime,
+  formatMoney,
+} from "@/lib/campus";
+import { acceptsRegistrations, registrationPrice } from "@/lib/events/registration";
 import EventPaymentDialog from "@/components/events/EventPaymentDialog";
 import EventCancellationDialog from "@/components/events/EventCancellationDialog";
+import GroupBookingDialog from "@/components/events/GroupBookingDialog";
 import { fetchFavoriteEvents, addEventToFavorites } from "@/lib/services/users";
 import { EventFeedbackSection } from "@/components/events/EventFeedbackSection";
-
-const CANCELLATION_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+import { ConferenceAgenda } from "@/components/events/ConferenceAgenda";
 
 export default function EventDetailsPage() {
   const params = useParams<{ eventId: string }>();
@@ -58,6 +80,7 @@ export default function EventDetailsPage() {
   >(null);
   const [cardError, setCardError] = useState<string | null>(null);
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [groupDialogOpen, setGroupDialogOpen] = useState(false);
   const resetPaymentFlow = () => {
     setPaymentStep("method");
     setStripeIntent(null);
@@ -77,12 +100,24 @@ export default function EventDetailsPage() {
   });
 
   const event = query.data;
-  const supportsRegistration =
-    event?.eventType === EventType.Workshop || event?.eventType === EventType.Trip;
+  const supportsRegistration = acceptsRegistrations(event);
   const registeredCount = event?.registeredCount ?? 0;
   const totalCapacity = typeof event?.capacity === "number" ? event.capacity : undefined;
   const hasCapacity = typeof totalCapacity === "number";
-  const remainingCapacity = hasCapacity ? Math.max((totalCapacity ?? 0) - registeredCount, 0) : undefined;
+
+  const waitlistQuery = useQuery({
+    queryKey: ["event-waitlist", eventId, user?.id, token],
+    queryFn: () => fetchEventWaitlistStatus(eventId!, token ?? undefined),
+    enabled: Boolean(eventId && token && supportsRegistration && hasCapacity),
+  });
+  const waitlist = waitlistQuery.data;
+  const hasWaitlistOffer = waitlist?.status === WaitlistStatus.Offered;
+  const isWaitlisted = Boolean(waitlist?.status);
+  // Seats held for other promoted users are not available to this user.
+  const heldForOthers = Math.max((waitlist?.heldSeats ?? 0) - (hasWaitlistOffer ? 1 : 0), 0);
+  const remainingCapacity = hasCapacity
+    ? Math.max((totalCapacity ?? 0) - registeredCount - heldForOthers, 0)
+    : undefined;
   const capacityReached = hasCapacity ? remainingCapacity === 0 : false;
   const registrationDeadlinePassed = event?.registrationDeadline
     ? dayjs(event.registrationDeadline).isBefore(dayjs())
@@ -122,7 +157,8 @@ export default function EventDetailsPage() {
   }, [eventId, favoritesQuery.data]);
 
   const registerMutation = useMutation({
-    mutationFn: () => registerForWorkshop(eventId!, token ?? undefined),
+    mutationFn: (ticketTier?: TicketTierAudience) =>
+      registerForWorkshop(eventId!, token ?? undefined, undefined, ticketTier),
     onSuccess: (response) => {
       setIsRegistered(true);
       const message =
@@ -133,6 +169,9 @@ export default function EventDetailsPage() {
       queryClient.invalidateQueries({
         queryKey: ["event", eventId, user?.id, token],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["event-waitlist", eventId, user?.id, token],
+      });
     },
     onError: (error: unknown) => {
       const message = getErrorMessage(
@@ -144,7 +183,13 @@ export default function EventDetailsPage() {
   });
 
   const walletPaymentMutation = useMutation({
-    mutationFn: () => payForEventByWallet(eventId!, token ?? undefined),
+    mutationFn: ({
+      promoCode,
+      ticketTier,
+    }: {
+      promoCode?: string;
+      ticketTier?: TicketTierAudience;
+    }) => payForEventByWallet(eventId!, token ?? undefined, promoCode, ticketTier),
     onSuccess: (response) => {
       enqueueSnackbar(response.message ?? "Payment completed successfully.", {
         variant: "success",
@@ -158,8 +203,48 @@ export default function EventDetailsPage() {
     },
   });
 
+  const joinWaitlistMutation = useMutation({
+    mutationFn: () => joinEventWaitlist(eventId!, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message ?? "You joined the waitlist.", {
+        variant: "success",
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["event-waitlist", eventId, user?.id, token],
+      });
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(getErrorMessage(error, "Unable to join the waitlist."), {
+        variant: "error",
+      });
+    },
+  });
+
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: () => leaveEventWaitlist(eventId!, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message ?? "You left the waitlist.", {
+        variant: "success",
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["event-waitlist", eventId, user?.id, token],
+      });
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(getErrorMessage(error, "Unable to leave the waitlist."), {
+        variant: "error",
+      });
+    },
+  });
+
   const createStripeIntentMutation = useMutation({
-    mutationFn: () => createStripePaymentIntent(eventId!, token ?? undefined),
+    mutationFn: ({
+      promoCode,
+      ticketTier,
+    }: {
+      promoCode?: string;
+      ticketTier?: TicketTierAudience;
+    }) => createStripePaymentIntent(eventId!, token ?? undefined, promoCode, ticketTier),
   });
 
   const finalizeStripePaymentMutation = useMutation({
@@ -185,6 +270,48 @@ export default function EventDetailsPage() {
     },
   });
 
+  const handleDownloadCalendar = async () => {
+    if (!eventId) {
+      return;
+    }
+    try {
+      const { blob, filename } = await downloadEventCalendarFile(eventId, token ?? undefined);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename ?? "event.ics";
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to download the calendar file.";
+      enqueueSnackbar(message, { variant: "error" });
+    }
+  };
+
+  const handleDownloadTicket = async () => {
+    if (!eventId) {
+      return;
+    }
+    try {
+      const { blob, filename } = await downloadEventTicketFile(eventId, token ?? undefined);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename ?? "ticket.png";
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to download your ticket.";
+      enqueueSnackbar(message, { variant: "error" });
+    }
+  };
+
   const handleAddFavorite = () => {
     if (!eventId) {
       return;
@@ -213,7 +340,7 @@ export default function EventDetailsPage() {
       return;
     }
     if (!supportsRegistration) {
-      enqueueSnackbar("Only workshops and trips support online registration.", {
+      enqueueSnackbar("This event does not take online registrations.", {
         variant: "info",
       });
       return;
@@ -225,7 +352,7 @@ export default function EventDetailsPage() {
       return;
     }
     if (capacityReached) {
-      enqueueSnackbar("This event is fully booked.", {
+      enqueueSnackbar("This event is fully booked. Join the waitlist to be notified when a seat opens.", {
         variant: "info",
       });
       return;
@@ -256,13 +383,13 @@ export default function EventDetailsPage() {
     resetPaymentFlow();
   };
 
-  const handleWalletPayment = async () => {
+  const handleWalletPayment = async (promoCode?: string, ticketTier?: TicketTierAudience) => {
     if (!event) return;
     setCardError(null);
     try {
-      await registerMutation.mutateAsync();
-      if ((event.price ?? 0) > 0) {
-        await walletPaymentMutation.mutateAsync();
+      await registerMutation.mutateAsync(ticketTier);
+      if (registrationPrice(event, ticketTier) > 0) {
+        await walletPaymentMutation.mutateAsync({ promoCode, ticketTier });
       } else {
         enqueueSnackbar(`Registration confirmed for ${event.name}.`, {
           variant: "success",
@@ -276,9 +403,12 @@ export default function EventDetailsPage() {
     }
   };
 
-  const handleStartCardPayment = async () => {
+  const handleStartCardPayment = async (
+    promoCode?: string,
+    ticketTier?: TicketTierAudience
+  ) => {
     if (!event) return;
-    if ((event.price ?? 0) <= 0) {
+    if (registrationPrice(event, ticketTier) <= 0) {
       enqueueSnackbar("Card payments are only required for paid events.", {
         variant: "info",
       });
@@ -287,7 +417,7 @@ export default function EventDetailsPage() {
 
     try {
       setCardError(null);
-      const intent = await createStripeIntentMutation.mutateAsync();
+      const intent = await createStripeIntentMutation.mutateAsync({ promoCode, ticketTier });
       setStripeIntent(intent);
       setPaymentStep("card");
     } catch (error) {
@@ -307,6 +437,9 @@ export default function EventDetailsPage() {
       });
       queryClient.invalidateQueries({ queryKey: ["event", eventId, user?.id, token] });
       queryClient.invalidateQueries({ queryKey: ["events", user?.id, token] });
+      queryClient.invalidateQueries({
+        queryKey: ["event-waitlist", eventId, user?.id, token],
+      });
       setPaymentDialogOpen(false);
       setPaymentEvent(null);
       resetPaymentFlow();
@@ -333,7 +466,7 @@ export default function EventDetailsPage() {
   const handleCancelRegistration = () => {
     if (!event) return;
     if (!canCancelRegistration) {
-      enqueueSnackbar("Cancellations are only available until 14 days before the event.", {
+      enqueueSnackbar("Cancellations are closed once the event has started.", {
         variant: "info",
       });
       return;
@@ -366,6 +499,10 @@ export default function EventDetailsPage() {
       queryClient.invalidateQueries({ queryKey: ["wallet-summary", token] });
       queryClient.invalidateQueries({ queryKey: ["event", eventId, user?.id, token] });
       queryClient.invalidateQueries({ queryKey: ["events", user?.id, token] });
+      queryClient.invalidateQueries({
+        queryKey: ["event-waitlist", eventId, user?.id, token],
+      });
+      queryClient.invalidateQueries({ queryKey: ["event-refund-policy", eventId] });
     },
     onError: (error: unknown) => {
       const message = getErrorMessage(error, "Unable to cancel registration.");
@@ -399,8 +536,8 @@ export default function EventDetailsPage() {
     );
   }
 
-  const cancellationWindowRemaining = event ? new Date(event.startDate).getTime() - Date.now() : 0;
-  const canCancelRegistration = isRegistered && cancellationWindowRemaining >= CANCELLATION_WINDOW_MS;
+  // The refund policy decides the exact cut-off; the dialog shows the quote
+  const canCancelRegistration = isRegistered && !eventHasStarted;
   const registerDisabledReason = registrationDeadlinePassed
     ? "deadline"
     : capacityReached
@@ -427,6 +564,14 @@ export default function EventDetailsPage() {
   const canSubmitFeedback = Boolean(isRegistered && eventHasStarted);
 
   const paymentLoading = registerMutation.isPending || walletPaymentMutation.isPending;
+  // Group bookings are only sold for workshops and trips
+  const canBookGroup =
+    (event.eventType === EventType.Workshop || event.eventType === EventType.Trip) &&
+    registerDisabledReason !== "deadline" &&
+    registerDisabledReason !== "capacity";
+  const canJoinWaitlist =
+    registerDisabledReason === "capacity" && !isWaitlisted && !registrationDeadlinePassed;
+  const waitlistPending = joinWaitlistMutation.isPending || leaveWaitlistMutation.isPending;
 
   return (
     <Stack spacing={3}>
@@ -449,7 +594,7 @@ export default function EventDetailsPage() {
           <Typography variant="subtitle2" color="text.secondary">
             Registration deadline
           </Typography>
-          <Typography variant="h6">{formatDateTime(event.registrationDeadline)}</Typography>
+          <Typography variant="h6">{formatCampusDateTime(event.registrationDeadline, event.location)}</Typography>
           {supportsRegistration ? (
             <Stack direction="row" spacing={1} alignItems="center">
               <Button
@@ -460,12 +605,42 @@ export default function EventDetailsPage() {
               >
                 {paymentLoading ? "Processing..." : registerButtonLabel}
               </Button>
+              {canBookGroup ? (
+                <Button
+                  variant="outlined"
+                  startIcon={<GroupAddIcon />}
+                  onClick={() => setGroupDialogOpen(true)}
+                  disabled={paymentLoading}
+                >
+                  Book for a group
+                </Button>
+              ) : null}
+              {canJoinWaitlist ? (
+                <Button
+                  variant="outlined"
+                  startIcon={<HourglassIcon />}
+                  disabled={waitlistPending}
+                  onClick={() => joinWaitlistMutation.mutate()}
+                >
+                  {joinWaitlistMutation.isPending ? "Joining..." : "Join waitlist"}
+                </Button>
+              ) : null}
+              {isWaitlisted && !isRegistered ? (
+                <Button
+                  variant="outlined"
+                  color="warning"
+                  disabled={waitlistPending}
+                  onClick={() => leaveWaitlistMutation.mutate()}
+                >
+                  {leaveWaitlistMutation.isPending ? "Leaving..." : "Leave waitlist"}
+                </Button>
+              ) : null}
               {isRegistered ? (
                 <Tooltip
                   title={
                     canCancelRegistration
                       ? "Cancel registration"
-                      : "Cancellations are only available until 14 days before the event."
+                      : "Cancellations are closed once the event has started."
                   }
                 >
                   <span>
@@ -486,6 +661,30 @@ export default function EventDetailsPage() {
               Registration is managed offline for this event.
             </Typography>
           )}
+          {hasWaitlistOffer && waitlist?.offerExpiresAt && !isRegistered ? (
+            <Alert severity="success" sx={{ maxWidth: 360 }}>
+              A seat opened up and is held for you until{" "}
+              {formatDateTime(waitlist.offerExpiresAt)}. Register before then to keep it.
+            </Alert>
+          ) : null}
+          {isRegistered && registrationPrice(event, event.myTicketTier) > 0 ? (
+            <Button
+              variant="text"
+              color="secondary"
+              startIcon={<TicketIcon />}
+              onClick={handleDownloadTicket}
+            >
+              Download ticket
+            </Button>
+          ) : null}
+          <Button
+            variant="text"
+            color="secondary"
+            startIcon={<CalendarAddIcon />}
+            onClick={handleDownloadCalendar}
+          >
+            Add to calendar
+          </Button>
           <Button
             variant="text"
             color="secondary"
@@ -507,9 +706,13 @@ export default function EventDetailsPage() {
               Schedule
             </Typography>
             <Stack spacing={1}>
-              <DetailRow icon={<CalendarIcon />} label="Start" value={formatDateTime(event.startDate)} />
-              <DetailRow icon={<CalendarIcon />} label="End" value={formatDateTime(event.endDate)} />
-              <DetailRow icon={<LocationIcon />} label="Location" value={event.location} />
+              <DetailRow icon={<CalendarIcon />} label="Start" value={formatCampusDateTime(event.startDate, event.location)} />
+              <DetailRow icon={<CalendarIcon />} label="End" value={formatCampusDateTime(event.endDate, event.location)} />
+              <DetailRow
+                icon={<LocationIcon />}
+                label="Location"
+                value={`${event.location} (times in ${campusTimeZone(event.location)})`}
+              />
               {hasCapacity && remainingCapacity !== undefined && totalCapacity !== undefined ? (
                 <DetailRow
                   icon={<PeopleIcon />}
@@ -517,11 +720,44 @@ export default function EventDetailsPage() {
                   value={`${remainingCapacity.toLocaleString()}/${totalCapacity.toLocaleString()} attendees`}
                 />
               ) : null}
-              {event.price ? (
+              {waitlist && waitlist.waitlistSize > 0 ? (
+                <DetailRow
+                  icon={<HourglassIcon />}
+                  label="Waitlist"
+                  value={
+                    waitlist.position
+                      ? `You are #${waitlist.position} of ${waitlist.waitlistSize} in the queue`
+                      : `${waitlist.waitlistSize.toLocaleString()} waiting`
+                  }
+                />
+              ) : null}
+              {event.ticketTiers?.length ? (
+                <DetailRow
+                  icon={<MonetizationIcon />}
+                  label="Tickets"
+                  value={event.ticketTiers
+                    .map(
+                      (tier) =>
+                        `${tier.audience} ${
+                          tier.price > 0
+                            ? formatMoney(tier.price, campusCurrency(event.location))
+                            : "free"
+                        }`
+                    )
+                    .join(" · ")}
+                />
+              ) : event.price ? (
                 <DetailRow
                   icon={<MonetizationIcon />}
                   label="Price"
-                  value={`${event.price.toLocaleString()} EGP`}
+                  value={formatMoney(event.price, campusCurrency(event.location))}
+                />
+              ) : null}
+              {event.myTicketTier ? (
+                <DetailRow
+                  icon={<TicketIcon />}
+                  label="Your ticket"
+                  value={event.myTicketTier}
                 />
               ) : null}
             </Stack>
@@ -539,6 +775,16 @@ export default function EventDetailsPage() {
               </Stack>
             </Stack>
           )}
+
+          {event.eventType === EventType.Conference ? (
+            <ConferenceAgenda
+              eventId={event.id}
+              location={event.location}
+              token={token}
+              userId={user?.id}
+              canBookmark={user?.role === AuthRole.User}
+            />
+          ) : null}
         </Grid>
         <Grid size={{ xs: 12, md: 4 }}>
           <Stack spacing={2.5} sx={{ p: 3, backgroundColor: "#FFFFFF", borderRadius: 3 }}>
@@ -574,9 +820,9 @@ export default function EventDetailsPage() {
             <Stack spacing={1.5}>
               <TimelineItem label="Registration opens" value={dayjs(event.registrationDeadline).subtract(4, "week").format("MMM D, YYYY")}
               />
-              <TimelineItem label="Registration closes" value={formatDateTime(event.registrationDeadline)} />
-              <TimelineItem label="Event start" value={formatDateTime(event.startDate)} />
-              <TimelineItem label="Event end" value={formatDateTime(event.endDate)} />
+              <TimelineItem label="Registration closes" value={formatCampusDateTime(event.registrationDeadline, event.location)} />
+              <TimelineItem label="Event start" value={formatCampusDateTime(event.startDate, event.location)} />
+              <TimelineItem label="Event end" value={formatCampusDateTime(event.endDate, event.location)} />
             </Stack>
           </Stack>
         </Grid>
@@ -616,6 +862,22 @@ export default function EventDetailsPage() {
         onConfirm={confirmCancellation}
         onClose={closeCancellationDialog}
       />
+      <GroupBookingDialog
+        open={groupDialogOpen}
+        event={event}
+        organizerRegistered={isRegistered}
+        onClose={() => setGroupDialogOpen(false)}
+        onBooked={(message) => {
+          enqueueSnackbar(message, { variant: "success" });
+          setGroupDialogOpen(false);
+          queryClient.invalidateQueries({ queryKey: ["wallet-summary", token] });
+          queryClient.invalidateQueries({ queryKey: ["event", eventId, user?.id, token] });
+          queryClient.invalidateQueries({
+            queryKey: ["event-waitlist", eventId, user?.id, token],
+          });
+          queryClient.invalidateQueries({ queryKey: ["group-bookings", token] });
+        }}
+      />
     </Stack>
   );
 }
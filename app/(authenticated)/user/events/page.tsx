@@ -2,7 +2,6 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
-import dayjs from "dayjs";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import Grid from "@mui/material/Grid";
 import Box from "@mui/material/Box";
@@ -36,18 +35,18 @@ import {
   finalizeStripePayment,
 } from "@/lib/services/events";
 import {
-  EventType,
   type EventSummary,
+  type TicketTierAudience,
   type UserRegisteredEvent,
 } from "@/lib/types";
 import { useAuthToken } from "@/hooks/useAuthToken";
 import { useSessionUser } from "@/hooks/useSessionUser";
 import { filterAndSortEvents } from "@/lib/events/filters";
+import { acceptsRegistrations, registrationPrice } from "@/lib/events/registration";
 import { fetchUserRegisteredEvents } from "@/lib/services/users";
-import { formatDateTime } from "@/lib/date";
+import { formatCampusDateTime } from "@/lib/campus";
 
 const PAGE_SIZE = 6;
-const CANCELLATION_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
 
 const INITIAL_FILTERS: EventFilters = {
   search: "",
@@ -182,12 +181,12 @@ export default function UserEventsPage() {
   };
 
   const registerMutation = useMutation({
-    mutationFn: (event: EventSummary) =>
-      registerForWorkshop(event.id, token ?? undefined),
-    onMutate: (event) => {
+    mutationFn: ({ event, ticketTier }: { event: EventSummary; ticketTier?: TicketTierAudience }) =>
+      registerForWorkshop(event.id, token ?? undefined, undefined, ticketTier),
+    onMutate: ({ event }) => {
       setPendingEventId(event.id);
     },
-    onSuccess: (response, event) => {
+    onSuccess: (response, { event }) => {
       setRegisteredEventIds((prev) => {
         const next = new Set(prev);
         next.add(event.id);
@@ -201,7 +200,7 @@ export default function UserEventsPage() {
         queryKey: ["event", event.id, user?.id, token],
       });
     },
-    onError: (error: unknown, event) => {
+    onError: (error: unknown, { event }) => {
       const message = getErrorMessage(
         error,
         `Failed to register for ${event.name}.`
@@ -221,12 +220,8 @@ export default function UserEventsPage() {
       return;
     }
 
-    const supportsRegistration =
-      event.eventType === EventType.Workshop ||
-      event.eventType === EventType.Trip;
-
-    if (!supportsRegistration) {
-      enqueueSnackbar("Only workshops and trips support online registration.", {
+    if (!acceptsRegistrations(event)) {
+      enqueueSnackbar("This event does not take online registrations.", {
         variant: "info",
       });
       return;
@@ -250,11 +245,19 @@ export default function UserEventsPage() {
   };
 
   const walletPaymentMutation = useMutation({
-    mutationFn: (eventId: string) => payForEventByWallet(eventId, token ?? undefined),
-    onMutate: (eventId) => {
+    mutationFn: ({
+      eventId,
+      promoCode,
+      ticketTier,
+    }: {
+      eventId: string;
+      promoCode?: string;
+      ticketTier?: TicketTierAudience;
+    }) => payForEventByWallet(eventId, token ?? undefined, promoCode, ticketTier),
+    onMutate: ({ eventId }) => {
       setPendingEventId(eventId);
     },
-    onSuccess: (response, eventId) => {
+    onSuccess: (response, { eventId }) => {
       enqueueSnackbar(response.message ?? "Payment completed successfully.", {
         variant: "success",
       });
@@ -272,7 +275,15 @@ export default function UserEventsPage() {
   });
 
   const createStripeIntentMutation = useMutation({
-    mutationFn: (eventId: string) => createStripePaymentIntent(eventId, token ?? undefined),
+    mutationFn: ({
+      eventId,
+      promoCode,
+      ticketTier,
+    }: {
+      eventId: string;
+      promoCode?: string;
+      ticketTier?: TicketTierAudience;
+    }) => createStripePaymentIntent(eventId, token ?? undefined, promoCode, ticketTier),
   });
 
   const finalizeStripePaymentMutation = useMutation({
@@ -297,6 +308,7 @@ export default function UserEventsPage() {
       queryClient.invalidateQueries({ queryKey: ["events", user?.id, token] });
       queryClient.invalidateQueries({ queryKey: ["event", eventId, user?.id, token] });
       queryClient.invalidateQueries({ queryKey: ["registered-events", user?.id, token] });
+      queryClient.invalidateQueries({ queryKey: ["event-refund-policy", eventId] });
     },
     onError: (error: unknown, eventId) => {
       const message = getErrorMessage(error, "Unable to cancel this registration.");
@@ -319,15 +331,19 @@ export default function UserEventsPage() {
     resetPaymentFlow();
   };
 
-  const handleWalletPayment = async () => {
+  const handleWalletPayment = async (promoCode?: string, ticketTier?: TicketTierAudience) => {
     if (!paymentEvent) {
       return;
     }
     setCardError(null);
     try {
-      await registerMutation.mutateAsync(paymentEvent);
-      if ((paymentEvent.price ?? 0) > 0) {
-        await walletPaymentMutation.mutateAsync(paymentEvent.id);
+      await registerMutation.mutateAsync({ event: paymentEvent, ticketTier });
+      if (registrationPrice(paymentEvent, ticketTier) > 0) {
+        await walletPaymentMutation.mutateAsync({
+          eventId: paymentEvent.id,
+          promoCode,
+          ticketTier,
+        });
       } else {
         enqueueSnackbar(`Registration confirmed for ${paymentEvent.name}.`, {
           variant: "success",
@@ -341,12 +357,15 @@ export default function UserEventsPage() {
     }
   };
 
-  const handleStartCardPayment = async () => {
+  const handleStartCardPayment = async (
+    promoCode?: string,
+    ticketTier?: TicketTierAudience
+  ) => {
     if (!paymentEvent) {
       return;
     }
 
-    if ((paymentEvent.price ?? 0) <= 0) {
+    if (registrationPrice(paymentEvent, ticketTier) <= 0) {
       enqueueSnackbar("Card payments are only required for paid events.", {
         variant: "info",
       });
@@ -355,7 +374,11 @@ export default function UserEventsPage() {
 
     try {
       setCardError(null);
-      const intent = await createStripeIntentMutation.mutateAsync(paymentEvent.id);
+      const intent = await createStripeIntentMutation.mutateAsync({
+        eventId: paymentEvent.id,
+        promoCode,
+        ticketTier,
+      });
       setStripeIntent(intent);
       setPaymentStep("card");
     } catch (error) {
@@ -533,18 +556,12 @@ export default function UserEventsPage() {
                 ...event,
                 isRegistered,
               };
-              const isRegisterable =
-                event.eventType === EventType.Workshop ||
-                event.eventType === EventType.Trip;
+              const isRegisterable = acceptsRegistrations(event);
               const isPendingRegistration =
                 pendingEventId === event.id && registerMutation.isPending;
-              const eventStartsIn = dayjs(event.startDate).diff(dayjs());
-              const cancellationDisabled =
-                !isRegistered || eventStartsIn < CANCELLATION_WINDOW_MS;
+              const cancellationDisabled = !isRegistered;
               const cancelTooltip = cancellationDisabled
-                ? !isRegistered
-                  ? "You are not registered for this event."
-                  : "Cancellations are only available until 14 days before the event."
+                ? "You are not registered for this event."
                 : undefined;
 
               return (
@@ -681,8 +698,8 @@ function AttendedEventsHighlight({
                   </Typography>
                   <Divider flexItem sx={{ my: 1 }} />
                   <Stack spacing={0.5}>
-                    <Detail label="Started" value={formatDateTime(event.startDate)} />
-                    <Detail label="Ended" value={formatDateTime(event.endDate)} />
+                    <Detail label="Started" value={formatCampusDateTime(event.startDate, event.location)} />
+                    <Detail label="Ended" value={formatCampusDateTime(event.endDate, event.location)} />
                   </Stack>
                 </Stack>
               </CardContent>
@@ -19,7 +19,7 @@ import EventIcon from "@mui/icons-material/EventAvailableRounded";
 import { useAuthToken } from "@/hooks/useAuthToken";
 import { useSessionUser } from "@/hooks/useSessionUser";
 import { fetchFavoriteEvents } from "@/lib/services/users";
-import { formatDateTime } from "@/lib/date";
+import { campusCurrency, formatCampusDateTime, formatMoney } from "@/lib/campus";
 
 export default function UserFavoritesPage() {
   const token = useAuthToken();
@@ -96,11 +96,11 @@ export default function UserFavoritesPage() {
                     {event.description}
                   </Typography>
                   <Stack spacing={1} divider={<Divider flexItem />}>
-                    <Detail label="Starts" value={formatDateTime(event.startDate)} />
-                    <Detail label="Ends" value={formatDateTime(event.endDate)} />
+                    <Detail label="Starts" value={formatCampusDateTime(event.startDate, event.location)} />
+                    <Detail label="Ends" value={formatCampusDateTime(event.endDate, event.location)} />
                     <Detail label="Location" value={event.location} />
                     {typeof event.price === "number" ? (
-                      <Detail label="Ticket price" value={`${event.price.toLocaleString()} EGP`} />
+                      <Detail label="Ticket price" value={formatMoney(event.price, campusCurrency(event.location))} />
                     ) : null}
                   </Stack>
                 </CardContent>
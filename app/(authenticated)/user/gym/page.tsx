@@ -26,6 +26,10 @@ import Dialog from "@mui/material/Dialog";
 import DialogTitle from "@mui/material/DialogTitle";
 import DialogContent from "@mui/material/DialogContent";
 import DialogActions from "@mui/material/DialogActions";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Switch from "@mui/material/Switch";
+import ToggleButton from "@mui/material/ToggleButton";
+import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
 import ArrowBackIcon from "@mui/icons-material/ArrowBackIosNewRounded";
 import ArrowForwardIcon from "@mui/icons-material/ArrowForwardIosRounded";
 import FitnessCenterIcon from "@mui/icons-material/FitnessCenterRounded";
@@ -34,11 +38,39 @@ import PeopleIcon from "@mui/icons-material/PeopleAltRounded";
 import EventIcon from "@mui/icons-material/EventRounded";
 import FlagIcon from "@mui/icons-material/FlagRounded";
 import StadiumIcon from "@mui/icons-material/StadiumRounded";
+import RepeatIcon from "@mui/icons-material/RepeatRounded";
+import QrCodeIcon from "@mui/icons-material/QrCode2Rounded";
+import WalletIcon from "@mui/icons-material/AccountBalanceWalletRounded";
+import CreditCardIcon from "@mui/icons-material/CreditCardRounded";
+import { Elements } from "@stripe/react-stripe-js";
 import { useAuthToken } from "@/hooks/useAuthToken";
 import { useSessionUser } from "@/hooks/useSessionUser";
-import { fetchGymSchedule, registerForGymSession } from "@/lib/services/gym";
+import {
+  fetchGymSchedule,
+  registerForGymSession,
+  unregisterFromGymSession,
+  joinGymSessionWaitlist,
+  leaveGymSessionWaitlist,
+  downloadGymSessionPass,
+} from "@/lib/services/gym";
 import { type GymSession, GymSessionType, CourtType, UserRole } from "@/lib/types";
-import { fetchCourts, fetchCourtAvailabilitySlots, reserveCourtSlot } from "@/lib/services/courts";
+import {
+  fetchCourts,
+  fetchCourtAvailabilitySlots,
+  reserveCourtSlot,
+  previewRecurringCourtReservation,
+  reserveRecurringCourtSlots,
+  fetchMyCourtReservations,
+  cancelCourtReservationSeries,
+  cancelCourtReservation,
+  createCourtPaymentIntent,
+  finalizeCourtPayment,
+  courtSlotPrice,
+  type RecurringOccurrence,
+  type RecurringReservationPayload,
+} from "@/lib/services/courts";
+import { stripePromise } from "@/lib/stripe";
+import { StripePaymentForm } from "@/components/events/StripePaymentForm";
 import { DatePicker } from "@mui/x-date-pickers/DatePicker";
 import { useSnackbar } from "notistack";
 
@@ -84,6 +116,14 @@ function formatSessionTime(date: string, time: string) {
   return combined.isValid() ? combined.format("h:mm A") : time;
 }
 
+function formatCourtPrice(amount: number, currency: string) {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
 function formatCourtTime(time: string) {
   const parsed = dayjs(time, "HH:mm", true);
   return parsed.isValid() ? parsed.format("h:mm A") : time;
@@ -119,9 +159,19 @@ export default function UserGymPage() {
   const [reservationDialog, setReservationDialog] = useState<{
     courtId: string;
     courtLabel: string;
+    pricePerHour: number;
+    currency: string;
   } | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<"wallet" | "card">("wallet");
+  const [cardClientSecret, setCardClientSecret] = useState<string | null>(null);
+  const [cardError, setCardError] = useState<string | null>(null);
+  const [cardAmount, setCardAmount] = useState<number | null>(null);
+  const [promoInput, setPromoInput] = useState("");
   const [reservationDate, setReservationDate] = useState(dayjs());
   const [selectedSlot, setSelectedSlot] = useState<{ startTime: string; endTime: string } | null>(null);
+  const [repeatWeekly, setRepeatWeekly] = useState(false);
+  const [repeatWeeks, setRepeatWeeks] = useState(4);
+  const [recurringPreview, setRecurringPreview] = useState<RecurringOccurrence[] | null>(null);
   const reservationDateKey = reservationDate.format("YYYY-MM-DD");
 
   const scheduleQuery = useQuery({
@@ -136,10 +186,26 @@ export default function UserGymPage() {
     enabled: Boolean(token && isStudent),
   });
 
+  const myReservationsQuery = useQuery({
+    queryKey: ["my-court-reservations", token],
+    queryFn: () => fetchMyCourtReservations(token ?? undefined),
+    enabled: Boolean(token && isStudent),
+  });
+
   useEffect(() => {
     setSelectedSlot(null);
   }, [reservationDateKey, reservationDialog?.courtId]);
 
+  useEffect(() => {
+    setRecurringPreview(null);
+  }, [reservationDateKey, reservationDialog?.courtId, selectedSlot, repeatWeekly, repeatWeeks, promoInput]);
+
+  useEffect(() => {
+    setCardClientSecret(null);
+    setCardAmount(null);
+    setCardError(null);
+  }, [reservationDateKey, reservationDialog?.courtId, selectedSlot, repeatWeekly, paymentMethod, promoInput]);
+
   const availabilityQuery = useQuery({
     queryKey: ["court-availability", reservationDialog?.courtId, reservationDateKey, token],
     queryFn: () =>
@@ -171,17 +237,72 @@ export default function UserGymPage() {
     onSettled: () => setPendingSessionId(null),
   });
 
+  const sessionActionMutation = useMutation({
+    mutationFn: ({ sessionId, action }: { sessionId: string; action: "leave" | "join-waitlist" | "leave-waitlist" }) => {
+      if (action === "leave") {
+        return unregisterFromGymSession(sessionId, token ?? undefined);
+      }
+      if (action === "join-waitlist") {
+        return joinGymSessionWaitlist(sessionId, token ?? undefined);
+      }
+      return leaveGymSessionWaitlist(sessionId, token ?? undefined);
+    },
+    onMutate: ({ sessionId }) => {
+      setPendingSessionId(sessionId);
+    },
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "Session updated.", { variant: "success" });
+      scheduleQuery.refetch();
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to update your session booking.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+    onSettled: () => setPendingSessionId(null),
+  });
+
+  const handleDownloadPass = async (session: GymSession) => {
+    try {
+      const blob = await downloadGymSessionPass(session.id, token ?? undefined);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `gym-pass-${dayjs(session.date).format("YYYY-MM-DD")}.png`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to download your gym pass.";
+      enqueueSnackbar(message, { variant: "error" });
+    }
+  };
+
   const reservationMutation = useMutation({
-    mutationFn: (payload: { courtId: string; date: string; startTime: string; endTime: string }) =>
+    mutationFn: (payload: {
+      courtId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+      promoCode?: string;
+    }) =>
       reserveCourtSlot(
         payload.courtId,
-        { date: payload.date, startTime: payload.startTime, endTime: payload.endTime },
+        {
+          date: payload.date,
+          startTime: payload.startTime,
+          endTime: payload.endTime,
+          promoCode: payload.promoCode,
+        },
         token ?? undefined
       ),
     onSuccess: (message) => {
       enqueueSnackbar(message ?? "Court reserved successfully.", { variant: "success" });
       setReservationDialog(null);
       setSelectedSlot(null);
+      myReservationsQuery.refetch();
     },
     onError: (error: unknown) => {
       const message =
@@ -190,17 +311,143 @@ export default function UserGymPage() {
     },
   });
 
+  const cardIntentMutation = useMutation({
+    mutationFn: (payload: {
+      courtId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+      promoCode?: string;
+    }) =>
+      createCourtPaymentIntent(
+        payload.courtId,
+        {
+          date: payload.date,
+          startTime: payload.startTime,
+          endTime: payload.endTime,
+          promoCode: payload.promoCode,
+        },
+        token ?? undefined
+      ),
+    onSuccess: (data) => {
+      setCardError(null);
+      setCardAmount(data.amount);
+      setCardClientSecret(data.clientSecret);
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to start the card payment.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  const cardFinalizeMutation = useMutation({
+    mutationFn: (payload: { courtId: string; paymentIntentId: string }) =>
+      finalizeCourtPayment(payload.courtId, payload.paymentIntentId, token ?? undefined),
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "Court reserved and paid.", { variant: "success" });
+      setReservationDialog(null);
+      setSelectedSlot(null);
+      setCardClientSecret(null);
+      myReservationsQuery.refetch();
+    },
+    onError: (error: unknown) => {
+      setCardError(
+        error instanceof Error ? error.message : "Failed to confirm the card payment."
+      );
+    },
+  });
+
+  const recurringPreviewMutation = useMutation({
+    mutationFn: (payload: RecurringReservationPayload & { courtId: string }) =>
+      previewRecurringCourtReservation(
+        payload.courtId,
+        {
+          startDate: payload.startDate,
+          startTime: payload.startTime,
+          endTime: payload.endTime,
+          weeks: payload.weeks,
+          promoCode: payload.promoCode,
+        },
+        token ?? undefined
+      ),
+    onSuccess: (preview) => {
+      setRecurringPreview(preview.occurrences);
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to check the recurring dates.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  const recurringReservationMutation = useMutation({
+    mutationFn: (payload: RecurringReservationPayload & { courtId: string }) =>
+      reserveRecurringCourtSlots(
+        payload.courtId,
+        {
+          startDate: payload.startDate,
+          startTime: payload.startTime,
+          endTime: payload.endTime,
+          weeks: payload.weeks,
+          promoCode: payload.promoCode,
+        },
+        token ?? undefined
+      ),
+    onSuccess: (result) => {
+      enqueueSnackbar(result.message ?? "Weekly reservation created.", { variant: "success" });
+      setReservationDialog(null);
+      setSelectedSlot(null);
+      setRecurringPreview(null);
+      myReservationsQuery.refetch();
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to reserve the weekly slots.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  const cancelReservationMutation = useMutation({
+    mutationFn: (reservationId: string) => cancelCourtReservation(reservationId, token ?? undefined),
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "Reservation cancelled.", { variant: "success" });
+      myReservationsQuery.refetch();
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to cancel the reservation.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  const cancelSeriesMutation = useMutation({
+    mutationFn: (seriesId: string) => cancelCourtReservationSeries(seriesId, token ?? undefined),
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "Weekly reservation cancelled.", { variant: "success" });
+      myReservationsQuery.refetch();
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to cancel the weekly reservation.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
   const sessionsWithFlags = useMemo(() => {
     const sessions = scheduleQuery.data ?? [];
     return sessions.map((session) => {
       const registeredUsers = session.registeredUsers ?? [];
       const registeredCount = session.registeredCount ?? registeredUsers.length;
       const isRegistered = user?.id ? registeredUsers.includes(user.id) : false;
+      const waitlist = session.waitlist ?? [];
+      const waitlistPosition = user?.id ? waitlist.indexOf(user.id) + 1 : 0;
       return {
         ...session,
         registeredUsers,
         registeredCount,
         isRegistered,
+        waitlistPosition,
         remainingSpots: Math.max(session.maxParticipants - registeredCount, 0),
       };
     });
@@ -274,32 +521,112 @@ export default function UserGymPage() {
     registerMutation.mutate(sessionId);
   };
 
-  const handleOpenReservationDialog = (courtId: string, label: string) => {
-    setReservationDialog({ courtId, courtLabel: label });
+  const handleOpenReservationDialog = (
+    court: { id: string; pricePerHour: number; currency: string },
+    label: string
+  ) => {
+    setReservationDialog({
+      courtId: court.id,
+      courtLabel: label,
+      pricePerHour: court.pricePerHour,
+      currency: court.currency,
+    });
     setReservationDate(dayjs());
     setSelectedSlot(null);
+    setRepeatWeekly(false);
+    setRepeatWeeks(4);
+    setPaymentMethod("wallet");
+    setPromoInput("");
   };
 
   const handleCloseReservationDialog = () => {
     setReservationDialog(null);
     setSelectedSlot(null);
+    setRecurringPreview(null);
+    setCardClientSecret(null);
+    setCardError(null);
+    setPromoInput("");
   };
 
+  const slotPrice =
+    reservationDialog && selectedSlot
+      ? courtSlotPrice(reservationDialog, selectedSlot.startTime, selectedSlot.endTime)
+      : 0;
+  const slotPriceLabel =
+    reservationDialog && slotPrice > 0
+      ? formatCourtPrice(slotPrice, reservationDialog.currency)
+      : "";
+  // Weekly series are always charged to the wallet
+  const payingByCard = slotPrice > 0 && !repeatWeekly && paymentMethod === "card";
+  // The server prices the code; the card form shows what the intent was created for
+  const promoCode = slotPrice > 0 ? promoInput.trim() || undefined : undefined;
+
   const handleSubmitReservation = () => {
     if (!reservationDialog || !selectedSlot) {
       enqueueSnackbar("Select an available slot to continue.", { variant: "info" });
       return;
     }
 
-    reservationMutation.mutate({
+    if (repeatWeekly) {
+      const payload = {
+        courtId: reservationDialog.courtId,
+        startDate: reservationDateKey,
+        startTime: selectedSlot.startTime,
+        endTime: selectedSlot.endTime,
+        weeks: repeatWeeks,
+        promoCode,
+      };
+      // The first click shows the per-date preview, the second books the free dates.
+      if (!recurringPreview) {
+        recurringPreviewMutation.mutate(payload);
+      } else {
+        recurringReservationMutation.mutate(payload);
+      }
+      return;
+    }
+
+    const payload = {
       courtId: reservationDialog.courtId,
       date: reservationDateKey,
       startTime: selectedSlot.startTime,
       endTime: selectedSlot.endTime,
-    });
+      promoCode,
+    };
+    if (payingByCard) {
+      cardIntentMutation.mutate(payload);
+      return;
+    }
+    reservationMutation.mutate(payload);
   };
 
   const reservationLoading = availabilityQuery.isLoading || availabilityQuery.isFetching;
+  const recurringAvailableCount =
+    recurringPreview?.filter((occurrence) => occurrence.isAvailable).length ?? 0;
+  const reservationSubmitting =
+    reservationMutation.isPending ||
+    cardIntentMutation.isPending ||
+    cardFinalizeMutation.isPending ||
+    recurringPreviewMutation.isPending ||
+    recurringReservationMutation.isPending;
+  const reservationSubmitLabel = !repeatWeekly
+    ? payingByCard
+      ? cardIntentMutation.isPending
+        ? "Preparing..."
+        : "Continue to card"
+      : reservationMutation.isPending
+        ? "Reserving..."
+        : slotPriceLabel
+          ? `Pay ${slotPriceLabel} from wallet`
+          : "Reserve"
+    : !recurringPreview
+      ? recurringPreviewMutation.isPending
+        ? "Checking dates..."
+        : "Check dates"
+      : recurringReservationMutation.isPending
+        ? "Reserving..."
+        : `Reserve ${recurringAvailableCount} date${recurringAvailableCount === 1 ? "" : "s"}`;
+
+  const myReservations = myReservationsQuery.data ?? [];
 
   return (
     <>
@@ -413,7 +740,14 @@ export default function UserGymPage() {
                         capacity > 0 ? Math.min((registered / capacity) * 100, 100) : undefined;
                       const isRegistered = session.isRegistered ?? false;
                       const remainingSpots = session.remainingSpots ?? Math.max(capacity - registered, 0);
-                      const isProcessing = pendingSessionId === session.id && registerMutation.isPending;
+                      const waitlistPosition =
+                        "waitlistPosition" in session ? Number(session.waitlistPosition) : 0;
+                      const hasStarted = dayjs(
+                        `${dayjs(session.date).format("YYYY-MM-DD")}T${session.time}`
+                      ).isBefore(dayjs());
+                      const isProcessing =
+                        pendingSessionId === session.id &&
+                        (registerMutation.isPending || sessionActionMutation.isPending);
                       const buttonLabel = isRegistered
                         ? "Registered"
                         : isProcessing
@@ -475,15 +809,59 @@ export default function UserGymPage() {
                           >
                             <Typography variant="caption" color="text.secondary">
                               {remainingSpots} spot{remainingSpots === 1 ? "" : "s"} left
+                              {(session.waitlist?.length ?? 0) > 0
+                                ? ` • ${session.waitlist?.length} waiting`
+                                : ""}
                             </Typography>
-                            <Button
-                              variant={isRegistered ? "outlined" : "contained"}
-                              size="small"
-                              disabled={disableRegisterButton}
-                              onClick={() => handleRegisterSession(session.id)}
-                            >
-                              {buttonLabel}
-                            </Button>
+                            {isRegistered ? (
+                              <Stack direction="row" spacing={1}>
+                                <Tooltip title="Download the QR pass staff scan at check-in">
+                                  <IconButton
+                                    size="small"
+                                    aria-label="Download gym pass"
+                                    onClick={() => handleDownloadPass(session)}
+                                  >
+                                    <QrCodeIcon fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                                <Button
+                                  variant="outlined"
+                                  color="error"
+                                  size="small"
+                                  disabled={isProcessing || hasStarted}
+                                  onClick={() =>
+                                    sessionActionMutation.mutate({ sessionId: session.id, action: "leave" })
+                                  }
+                                >
+                                  Leave session
+                                </Button>
+                              </Stack>
+                            ) : remainingSpots === 0 && canRegisterForGym && !hasStarted ? (
+                              <Button
+                                variant="outlined"
+                                size="small"
+                                disabled={isProcessing}
+                                onClick={() =>
+                                  sessionActionMutation.mutate({
+                                    sessionId: session.id,
+                                    action: waitlistPosition > 0 ? "leave-waitlist" : "join-waitlist",
+                                  })
+                                }
+                              >
+                                {waitlistPosition > 0
+                                  ? `Leave waitlist (#${waitlistPosition})`
+                                  : "Join waitlist"}
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="contained"
+                                size="small"
+                                disabled={disableRegisterButton}
+                                onClick={() => handleRegisterSession(session.id)}
+                              >
+                                {buttonLabel}
+                              </Button>
+                            )}
                           </Stack>
                         </Box>
                       );
@@ -623,6 +1001,18 @@ export default function UserGymPage() {
                             </Stack>
                           )}
 
+                          <Typography variant="body2" fontWeight={600} mt={2}>
+                            {court.pricePerHour > 0
+                              ? `${formatCourtPrice(court.pricePerHour, court.currency)} per hour`
+                              : "Free to book"}
+                          </Typography>
+
+                          {court.weeklyQuota ? (
+                            <Typography variant="caption" color="text.secondary" display="block" mt={2}>
+                              Limit: {court.weeklyQuota} reservation{court.weeklyQuota === 1 ? "" : "s"} per week for this court type.
+                            </Typography>
+                          ) : null}
+
                           {exceptions.length > 0 && (
                             <Alert severity="warning" variant="outlined" sx={{ mt: 3 }}>
                               <Typography variant="subtitle2" fontWeight={700}>
@@ -643,7 +1033,7 @@ export default function UserGymPage() {
                             sx={{ mt: 3 }}
                             onClick={() =>
                               handleOpenReservationDialog(
-                                court.id,
+                                court,
                                 COURT_LABELS[courtType] ?? court.venue
                               )
                             }
@@ -657,6 +1047,94 @@ export default function UserGymPage() {
                 })}
               </Grid>
             )}
+
+            <Card sx={{ borderRadius: 3, boxShadow: "0 12px 32px rgba(15,23,42,0.05)" }}>
+              <CardContent>
+                <Typography variant="h6" fontWeight={700} gutterBottom>
+                  My upcoming court reservations
+                </Typography>
+                {myReservationsQuery.isLoading ? (
+                  <Skeleton variant="rectangular" height={80} sx={{ borderRadius: 2 }} />
+                ) : myReservationsQuery.isError ? (
+                  <Alert severity="error" action={<Button onClick={() => myReservationsQuery.refetch()}>Retry</Button>}>
+                    Unable to load your reservations right now.
+                  </Alert>
+                ) : myReservations.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    You have no upcoming court reservations.
+                  </Typography>
+                ) : (
+                  <Stack spacing={1.5} divider={<Divider flexItem />}>
+                    {myReservations.map((reservation) => (
+                      <Stack
+                        key={reservation.id}
+                        direction={{ xs: "column", sm: "row" }}
+                        spacing={1}
+                        justifyContent="space-between"
+                        alignItems={{ sm: "center" }}
+                      >
+                        <Stack spacing={0.25}>
+                          <Typography variant="subtitle2" fontWeight={600}>
+                            {reservation.courtType
+                              ? COURT_LABELS[reservation.courtType] ?? reservation.courtType
+                              : "Court"}
+                            {reservation.venue ? ` • ${reservation.venue}` : ""}
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {dayjs(reservation.date).format("ddd, MMM D, YYYY")} •{" "}
+                            {formatCourtTime(reservation.startTime)} – {formatCourtTime(reservation.endTime)}
+                          </Typography>
+                          {reservation.payment ? (
+                            <Typography variant="caption" color="text.secondary">
+                              Paid {formatCourtPrice(reservation.payment.amount, reservation.payment.currency)}{" "}
+                              by {reservation.payment.method === "Wallet" ? "wallet" : "card"} • Receipt{" "}
+                              {reservation.payment.receiptNumber}
+                            </Typography>
+                          ) : null}
+                        </Stack>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          {reservation.seriesId ? (
+                            <>
+                              <Chip icon={<RepeatIcon />} label="Weekly" size="small" variant="outlined" />
+                              <Button
+                                size="small"
+                                color="error"
+                                disabled={cancelSeriesMutation.isPending}
+                                onClick={() => cancelSeriesMutation.mutate(reservation.seriesId!)}
+                              >
+                                Cancel series
+                              </Button>
+                            </>
+                          ) : null}
+                          <Tooltip
+                            title={
+                              dayjs(reservation.cancellableUntil).isAfter(dayjs())
+                                ? `Cancel before ${dayjs(reservation.cancellableUntil).format("MMM D, h:mm A")}`
+                                : "The cancellation window has closed"
+                            }
+                          >
+                            <span>
+                              <Button
+                                size="small"
+                                color="error"
+                                variant="outlined"
+                                disabled={
+                                  cancelReservationMutation.isPending ||
+                                  !dayjs(reservation.cancellableUntil).isAfter(dayjs())
+                                }
+                                onClick={() => cancelReservationMutation.mutate(reservation.id)}
+                              >
+                                Cancel
+                              </Button>
+                            </span>
+                          </Tooltip>
+                        </Stack>
+                      </Stack>
+                    ))}
+                  </Stack>
+                )}
+              </CardContent>
+            </Card>
           </Stack>
         </>
       ) : null}
@@ -718,19 +1196,144 @@ export default function UserGymPage() {
             {selectedSlot ? (
               <Alert severity="success" variant="outlined">
                 Selected slot: {selectedSlot.startTime} – {selectedSlot.endTime}
+                {slotPriceLabel ? ` • ${slotPriceLabel}` : ""}
+              </Alert>
+            ) : null}
+            {slotPriceLabel && !repeatWeekly ? (
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                color="primary"
+                value={paymentMethod}
+                onChange={(_event, value) => value && setPaymentMethod(value)}
+                disabled={Boolean(cardClientSecret)}
+              >
+                <ToggleButton value="wallet">
+                  <WalletIcon fontSize="small" sx={{ mr: 1 }} /> Wallet
+                </ToggleButton>
+                <ToggleButton value="card" disabled={!stripePromise}>
+                  <CreditCardIcon fontSize="small" sx={{ mr: 1 }} /> Card
+                </ToggleButton>
+              </ToggleButtonGroup>
+            ) : null}
+            {slotPriceLabel ? (
+              <TextField
+                size="small"
+                label="Promo code"
+                value={promoInput}
+                onChange={(event) => setPromoInput(event.target.value.toUpperCase())}
+                disabled={Boolean(cardClientSecret)}
+                helperText="Loyalty codes and coupons are checked when you book."
+              />
+            ) : null}
+            <Stack direction="row" spacing={2} alignItems="center">
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={repeatWeekly}
+                    onChange={(event) => setRepeatWeekly(event.target.checked)}
+                  />
+                }
+                label="Repeat weekly"
+              />
+              {repeatWeekly ? (
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Weeks"
+                  value={repeatWeeks}
+                  onChange={(event) =>
+                    setRepeatWeeks(Math.min(Math.max(Number(event.target.value) || 1, 1), 26))
+                  }
+                  inputProps={{ min: 1, max: 26 }}
+                  sx={{ width: 96 }}
+                />
+              ) : null}
+            </Stack>
+            {repeatWeekly && slotPriceLabel ? (
+              <Alert severity="info" variant="outlined">
+                Weekly bookings are paid from your wallet, {slotPriceLabel} per date.
               </Alert>
             ) : null}
+            {cardError ? <Alert severity="error">{cardError}</Alert> : null}
+            {payingByCard && stripePromise && cardClientSecret && reservationDialog ? (
+              <Elements
+                key={cardClientSecret}
+                stripe={stripePromise}
+                options={{
+                  clientSecret: cardClientSecret,
+                  appearance: {
+                    rules: {
+                      ".LinkButton": { display: "none" },
+                      ".LinkSeparator": { display: "none" },
+                    },
+                  },
+                }}
+              >
+                <StripePaymentForm
+                  amountLabel={
+                    cardAmount !== null
+                      ? formatCourtPrice(cardAmount, reservationDialog.currency)
+                      : slotPriceLabel
+                  }
+                  finalizing={cardFinalizeMutation.isPending}
+                  onSuccess={(paymentIntentId) =>
+                    cardFinalizeMutation.mutate({
+                      courtId: reservationDialog.courtId,
+                      paymentIntentId,
+                    })
+                  }
+                  onError={setCardError}
+                />
+              </Elements>
+            ) : null}
+            {repeatWeekly && recurringPreview ? (
+              <Stack spacing={1}>
+                <Typography variant="subtitle2" fontWeight={700}>
+                  {recurringAvailableCount} of {recurringPreview.length} dates are free
+                </Typography>
+                {recurringPreview.map((occurrence) => (
+                  <Stack
+                    key={occurrence.date}
+                    direction="row"
+                    spacing={1}
+                    alignItems="center"
+                  >
+                    <Chip
+                      size="small"
+                      label={occurrence.isAvailable ? "Free" : "Conflict"}
+                      color={occurrence.isAvailable ? "success" : "warning"}
+                      variant="outlined"
+                    />
+                    <Typography variant="body2">
+                      {dayjs(occurrence.date).format("ddd, MMM D")}
+                    </Typography>
+                    {occurrence.reason ? (
+                      <Typography variant="caption" color="text.secondary">
+                        {occurrence.reason}
+                      </Typography>
+                    ) : null}
+                  </Stack>
+                ))}
+              </Stack>
+            ) : null}
           </Stack>
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseReservationDialog}>Cancel</Button>
-          <Button
-            variant="contained"
-            onClick={handleSubmitReservation}
-            disabled={!selectedSlot || reservationMutation.isPending}
-          >
-            {reservationMutation.isPending ? "Reserving..." : "Reserve"}
-          </Button>
+          {cardClientSecret && payingByCard ? null : (
+            <Button
+              variant="contained"
+              onClick={handleSubmitReservation}
+              disabled={
+                !selectedSlot ||
+                reservationSubmitting ||
+                (repeatWeekly && recurringPreview !== null && recurringAvailableCount === 0)
+              }
+            >
+              {reservationSubmitLabel}
+            </Button>
+          )}
         </DialogActions>
       </Dialog>
     </>
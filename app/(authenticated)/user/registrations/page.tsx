@@ -17,7 +17,12 @@ import EventIcon from "@mui/icons-material/EventAvailableRounded";
 import { useAuthToken } from "@/hooks/useAuthToken";
 import { useSessionUser } from "@/hooks/useSessionUser";
 import { fetchUserRegisteredEvents } from "@/lib/services/users";
-import { formatDateTime } from "@/lib/date";
+import { formatCampusDateTime } from "@/lib/campus";
+import { CalendarFeedCard } from "@/components/calendar/CalendarFeedCard";
+import {
+  GroupBookingsSection,
+  GroupInvitationsSection,
+} from "@/components/events/GroupBookingsSection";
 
 export default function UserRegistrationsPage() {
   const token = useAuthToken();
@@ -42,6 +47,10 @@ export default function UserRegistrationsPage() {
         </Typography>
       </Stack>
 
+      <GroupInvitationsSection token={token ?? undefined} />
+
+      <CalendarFeedCard token={token ?? undefined} />
+
       {query.isLoading ? (
         <Skeleton variant="rectangular" height={360} sx={{ borderRadius: 3 }} />
       ) : query.isError ? (
@@ -75,7 +84,7 @@ export default function UserRegistrationsPage() {
                       {item.name}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
-                      Registration closes {formatDateTime(item.registrationDeadline)}
+                      Registration closes {formatCampusDateTime(item.registrationDeadline, item.location)}
                     </Typography>
                   </Stack>
                   <Stack direction="row" spacing={1}>
@@ -90,8 +99,8 @@ export default function UserRegistrationsPage() {
                 <Divider sx={{ my: 2 }} />
                 <GridDetails
                   data={[
-                    { label: "Event starts", value: formatDateTime(item.startDate) },
-                    { label: "Event ends", value: formatDateTime(item.endDate) },
+                    { label: "Event starts", value: formatCampusDateTime(item.startDate, item.location) },
+                    { label: "Event ends", value: formatCampusDateTime(item.endDate, item.location) },
                     { label: "Event ID", value: item.id },
                     { label: "Registration status", value: item.status },
                   ]}
@@ -112,6 +121,8 @@ export default function UserRegistrationsPage() {
           ))}
         </Stack>
       )}
+
+      <GroupBookingsSection token={token ?? undefined} />
     </Stack>
   );
 }
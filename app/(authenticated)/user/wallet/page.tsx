@@ -1,30 +1,42 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import type { ReactNode } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import Stack from "@mui/material/Stack";
 import Grid from "@mui/material/Grid";
+import Box from "@mui/material/Box";
 import Card from "@mui/material/Card";
 import CardContent from "@mui/material/CardContent";
 import Typography from "@mui/material/Typography";
 import Alert from "@mui/material/Alert";
 import Skeleton from "@mui/material/Skeleton";
-import Table from "@mui/material/Table";
-import TableBody from "@mui/material/TableBody";
-import TableCell from "@mui/material/TableCell";
-import TableContainer from "@mui/material/TableContainer";
-import TableHead from "@mui/material/TableHead";
-import TableRow from "@mui/material/TableRow";
-import Paper from "@mui/material/Paper";
+import TextField from "@mui/material/TextField";
+import MenuItem from "@mui/material/MenuItem";
 import Chip from "@mui/material/Chip";
 import Button from "@mui/material/Button";
 import AccountBalanceIcon from "@mui/icons-material/AccountBalanceWalletRounded";
 import RestoreIcon from "@mui/icons-material/RestoreRounded";
 import ReceiptIcon from "@mui/icons-material/ReceiptLongRounded";
+import AddCardIcon from "@mui/icons-material/AddCardRounded";
+import PdfIcon from "@mui/icons-material/PictureAsPdfRounded";
+import { DataGrid, type GridColDef } from "@mui/x-data-grid";
+import { useSnackbar } from "notistack";
 import { useAuthToken } from "@/hooks/useAuthToken";
-import { fetchWalletSummary } from "@/lib/services/users";
+import {
+  downloadPaymentDocument,
+  fetchPaymentHistory,
+  fetchWalletStatement,
+  fetchWalletSummary,
+} from "@/lib/services/users";
+import type {
+  PaymentDocumentKind,
+  PaymentHistoryItem,
+  WalletTransaction,
+  WalletTransactionType,
+} from "@/lib/types";
 import { formatDateTime } from "@/lib/date";
+import { WalletTopUpDialog } from "@/components/wallet/WalletTopUpDialog";
 
 const currencyFormatter = new Intl.NumberFormat(undefined, {
   style: "currency",
@@ -32,8 +44,43 @@ const currencyFormatter = new Intl.NumberFormat(undefined, {
   minimumFractionDigits: 2,
 });
 
+const TRANSACTION_TYPE_LABELS: Record<WalletTransactionType, string> = {
+  TopUp: "Top-up",
+  EventPayment: "Event payment",
+  CourtPayment: "Court booking",
+  Refund: "Refund",
+  AdminAdjustment: "Adjustment",
+};
+
+const TRANSACTION_TYPE_COLORS: Record<
+  WalletTransactionType,
+  "success" | "primary" | "secondary" | "default"
+> = {
+  TopUp: "success",
+  EventPayment: "primary",
+  CourtPayment: "primary",
+  Refund: "secondary",
+  AdminAdjustment: "default",
+};
+
+function triggerBrowserDownload(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
 export default function UserWalletPage() {
   const token = useAuthToken();
+  const { enqueueSnackbar } = useSnackbar();
+  const [topUpOpen, setTopUpOpen] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<WalletTransactionType | "">("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
 
   const walletQuery = useQuery({
     queryKey: ["wallet-summary", token],
@@ -41,18 +88,214 @@ export default function UserWalletPage() {
     enabled: Boolean(token),
   });
 
+  const statementQuery = useQuery({
+    queryKey: ["wallet-statement", typeFilter, fromDate, toDate, token],
+    queryFn: () =>
+      fetchWalletStatement(
+        {
+          type: typeFilter || undefined,
+          from: fromDate || undefined,
+          to: toDate || undefined,
+        },
+        token ?? undefined
+      ),
+    enabled: Boolean(token),
+  });
+
+  const paymentsQuery = useQuery({
+    queryKey: ["payment-history", token],
+    queryFn: () => fetchPaymentHistory(token ?? undefined),
+    enabled: Boolean(token),
+  });
+
+  const documentMutation = useMutation({
+    mutationFn: ({ paymentId, kind }: { paymentId: string; kind: PaymentDocumentKind }) =>
+      downloadPaymentDocument(paymentId, kind, token ?? undefined),
+    onSuccess: ({ blob, filename }, { kind }) => {
+      triggerBrowserDownload(blob, filename ?? `${kind}.pdf`);
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(
+        error instanceof Error ? error.message : "Failed to download the document.",
+        { variant: "error" }
+      );
+    },
+  });
+
   const summary = walletQuery.data ?? { balance: 0, totalRefunded: 0, refunds: [] };
-  const refunds = useMemo(() => summary.refunds ?? [], [summary.refunds]);
+  const transactions = statementQuery.data?.transactions ?? [];
+  const hasFilters = Boolean(typeFilter || fromDate || toDate);
+
+  const columns = useMemo<GridColDef<WalletTransaction>[]>(
+    () => [
+      {
+        field: "createdAt",
+        headerName: "Date",
+        flex: 0.9,
+        valueFormatter: (value: string) => formatDateTime(value),
+      },
+      {
+        field: "description",
+        headerName: "Description",
+        flex: 1.6,
+        sortable: false,
+        renderCell: ({ row }) => (
+          <Stack spacing={0.5} sx={{ py: 1 }}>
+            <Typography variant="body2" fontWeight={600}>
+              {row.description}
+            </Typography>
+            <Chip
+              size="small"
+              label={TRANSACTION_TYPE_LABELS[row.type]}
+              color={TRANSACTION_TYPE_COLORS[row.type]}
+              sx={{ alignSelf: "flex-start" }}
+            />
+          </Stack>
+        ),
+      },
+      {
+        field: "amount",
+        headerName: "Amount",
+        flex: 0.7,
+        renderCell: ({ row }) => (
+          <Typography
+            variant="body2"
+            fontWeight={600}
+            color={row.amount < 0 ? "error.main" : "success.main"}
+          >
+            {row.amount > 0 ? "+" : ""}
+            {currencyFormatter.format(row.amount)}
+          </Typography>
+        ),
+      },
+      {
+        field: "balanceAfter",
+        headerName: "Balance",
+        flex: 0.7,
+        sortable: false,
+        valueFormatter: (value: number) => currencyFormatter.format(value),
+      },
+      {
+        field: "receiptNumber",
+        headerName: "Receipt",
+        flex: 1,
+        sortable: false,
+        renderCell: ({ row }) => (
+          <Chip
+            size="small"
+            variant="outlined"
+            icon={<ReceiptIcon fontSize="small" />}
+            label={row.receiptNumber}
+          />
+        ),
+      },
+    ],
+    []
+  );
+
+  const paymentColumns = useMemo<GridColDef<PaymentHistoryItem>[]>(
+    () => [
+      {
+        field: "paidAt",
+        headerName: "Paid on",
+        flex: 0.9,
+        valueFormatter: (value: string) => formatDateTime(value),
+      },
+      {
+        field: "eventName",
+        headerName: "Event",
+        flex: 1.4,
+        sortable: false,
+        renderCell: ({ row }) => (
+          <Stack spacing={0.5} sx={{ py: 1 }}>
+            <Typography variant="body2" fontWeight={600}>
+              {row.eventName ?? "Deleted event"}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {row.receiptNumber}
+            </Typography>
+          </Stack>
+        ),
+      },
+      {
+        field: "amount",
+        headerName: "Amount",
+        flex: 0.8,
+        renderCell: ({ row }) => (
+          <Stack spacing={0.5} sx={{ py: 1 }}>
+            <Typography variant="body2" fontWeight={600}>
+              {currencyFormatter.format(row.amount)}
+            </Typography>
+            {row.status === "Refunded" ? (
+              <Typography variant="caption" color="success.main">
+                {currencyFormatter.format(row.refundAmount ?? 0)} refunded
+              </Typography>
+            ) : null}
+          </Stack>
+        ),
+      },
+      {
+        field: "documents",
+        headerName: "Documents",
+        flex: 1.2,
+        sortable: false,
+        renderCell: ({ row }) => (
+          <Stack direction="row" spacing={0.5} sx={{ py: 1 }}>
+            <Button
+              size="small"
+              startIcon={<PdfIcon />}
+              onClick={() =>
+                documentMutation.mutate({ paymentId: row.paymentId, kind: "invoice" })
+              }
+              disabled={documentMutation.isPending}
+            >
+              Invoice
+            </Button>
+            {row.hasCreditNote ? (
+              <Button
+                size="small"
+                startIcon={<PdfIcon />}
+                onClick={() =>
+                  documentMutation.mutate({
+                    paymentId: row.paymentId,
+                    kind: "credit-note",
+                  })
+                }
+                disabled={documentMutation.isPending}
+              >
+                Credit note
+              </Button>
+            ) : null}
+          </Stack>
+        ),
+      },
+    ],
+    [documentMutation]
+  );
 
   return (
     <Stack spacing={3}>
-      <Stack spacing={1}>
-        <Typography variant="h4" fontWeight={700}>
-          Wallet overview
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          Track your current balance and see the most recent refunds related to trip and workshop registrations.
-        </Typography>
+      <Stack
+        direction={{ xs: "column", sm: "row" }}
+        spacing={2}
+        justifyContent="space-between"
+        alignItems={{ xs: "flex-start", sm: "center" }}
+      >
+        <Stack spacing={1}>
+          <Typography variant="h4" fontWeight={700}>
+            Wallet overview
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Top up your balance and follow every payment, refund and adjustment on your wallet statement.
+          </Typography>
+        </Stack>
+        <Button
+          variant="contained"
+          startIcon={<AddCardIcon />}
+          onClick={() => setTopUpOpen(true)}
+        >
+          Top up
+        </Button>
       </Stack>
 
       {walletQuery.isLoading ? (
@@ -89,64 +332,173 @@ export default function UserWalletPage() {
         </Grid>
       )}
 
-      {walletQuery.isLoading ? (
-        <Skeleton variant="rectangular" height={320} sx={{ borderRadius: 3 }} />
-      ) : refunds.length === 0 ? (
-        <Alert severity="info">No refunds have been processed on your wallet yet.</Alert>
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent>
+          <Stack spacing={2}>
+            <Typography variant="h6" fontWeight={700}>
+              Statement
+            </Typography>
+            <Stack spacing={2} direction={{ xs: "column", md: "row" }}>
+              <TextField
+                select
+                label="Type"
+                value={typeFilter}
+                onChange={(event) =>
+                  setTypeFilter(event.target.value as WalletTransactionType | "")
+                }
+                fullWidth
+              >
+                <MenuItem value="">All transactions</MenuItem>
+                {(Object.keys(TRANSACTION_TYPE_LABELS) as WalletTransactionType[]).map(
+                  (type) => (
+                    <MenuItem key={type} value={type}>
+                      {TRANSACTION_TYPE_LABELS[type]}
+                    </MenuItem>
+                  )
+                )}
+              </TextField>
+              <TextField
+                type="date"
+                label="From"
+                InputLabelProps={{ shrink: true }}
+                value={fromDate}
+                onChange={(event) => setFromDate(event.target.value)}
+                fullWidth
+              />
+              <TextField
+                type="date"
+                label="To"
+                InputLabelProps={{ shrink: true }}
+                value={toDate}
+                onChange={(event) => setToDate(event.target.value)}
+                fullWidth
+              />
+              <Button
+                onClick={() => {
+                  setTypeFilter("");
+                  setFromDate("");
+                  setToDate("");
+                }}
+                disabled={!hasFilters}
+                sx={{ flexShrink: 0 }}
+              >
+                Clear
+              </Button>
+            </Stack>
+            {statementQuery.data ? (
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                <Chip
+                  color="success"
+                  variant="outlined"
+                  label={`Credits ${currencyFormatter.format(statementQuery.data.totalCredits)}`}
+                />
+                <Chip
+                  color="error"
+                  variant="outlined"
+                  label={`Debits ${currencyFormatter.format(statementQuery.data.totalDebits)}`}
+                />
+              </Stack>
+            ) : null}
+          </Stack>
+        </CardContent>
+      </Card>
+
+      {statementQuery.isError ? (
+        <Alert
+          severity="error"
+          action={<Button onClick={() => statementQuery.refetch()}>Retry</Button>}
+        >
+          {statementQuery.error instanceof Error
+            ? statementQuery.error.message
+            : "Unable to load your wallet statement."}
+        </Alert>
       ) : (
-        <TableContainer component={Paper} sx={{ borderRadius: 3 }}>
-          <Table>
-            <TableHead>
-              <TableRow>
-                <TableCell>Event</TableCell>
-                <TableCell>Amount</TableCell>
-                <TableCell>Date</TableCell>
-                <TableCell>Reference</TableCell>
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {refunds.map((refund, index) => {
-                const key =
-                  refund.refundReference ||
-                  refund.receiptNumber ||
-                  `${refund.eventId}-${refund.refundedAt ?? index}`;
-                return (
-                  <TableRow key={key}>
-                    <TableCell>
-                      <Stack spacing={0.5}>
-                        <Typography fontWeight={600}>{refund.eventName ?? "Event"}</Typography>
-                        <Typography variant="caption" color="text.secondary">
-                          {refund.eventId}
-                      </Typography>
-                    </Stack>
-                  </TableCell>
-                  <TableCell>{currencyFormatter.format(refund.amount)}</TableCell>
-                  <TableCell>
-                    {refund.refundedAt ? formatDateTime(refund.refundedAt) : "—"}
-                  </TableCell>
-                  <TableCell>
-                    <Stack spacing={0.5}>
-                      {refund.receiptNumber ? (
-                        <Chip
-                          size="small"
-                          icon={<ReceiptIcon fontSize="small" />}
-                          label={`Receipt ${refund.receiptNumber}`}
-                        />
-                      ) : null}
-                      {refund.refundReference ? (
-                        <Typography variant="caption" color="text.secondary">
-                          Ref: {refund.refundReference}
-                        </Typography>
-                      ) : null}
-                    </Stack>
-                    </TableCell>
-                  </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
-        </TableContainer>
+        <Box sx={{ height: 560, width: "100%" }}>
+          <DataGrid
+            rows={transactions}
+            columns={columns}
+            getRowId={(row) => row.id}
+            loading={statementQuery.isLoading}
+            getRowHeight={() => "auto"}
+            disableColumnMenu
+            disableRowSelectionOnClick
+            initialState={{
+              pagination: { paginationModel: { pageSize: 10, page: 0 } },
+            }}
+            pageSizeOptions={[10, 25, 50]}
+            slots={{
+              noRowsOverlay: () => (
+                <Stack
+                  height="100%"
+                  alignItems="center"
+                  justifyContent="center"
+                  spacing={1}
+                >
+                  <Typography variant="subtitle1" fontWeight={600}>
+                    No transactions
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {hasFilters
+                      ? "Nothing matches these filters."
+                      : "Top-ups, payments and refunds will show up here."}
+                  </Typography>
+                </Stack>
+              ),
+            }}
+          />
+        </Box>
       )}
+
+      <Card sx={{ borderRadius: 3 }}>
+        <CardContent>
+          <Stack spacing={0.5}>
+            <Typography variant="h6" fontWeight={700}>
+              Payments &amp; invoices
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Download a PDF invoice for every event you paid for, and a credit note for each refund.
+            </Typography>
+          </Stack>
+        </CardContent>
+      </Card>
+
+      {paymentsQuery.isError ? (
+        <Alert
+          severity="error"
+          action={<Button onClick={() => paymentsQuery.refetch()}>Retry</Button>}
+        >
+          {paymentsQuery.error instanceof Error
+            ? paymentsQuery.error.message
+            : "Unable to load your payments."}
+        </Alert>
+      ) : (
+        <Box sx={{ height: 420, width: "100%" }}>
+          <DataGrid
+            rows={paymentsQuery.data ?? []}
+            columns={paymentColumns}
+            getRowId={(row) => row.paymentId}
+            loading={paymentsQuery.isLoading}
+            getRowHeight={() => "auto"}
+            disableColumnMenu
+            disableRowSelectionOnClick
+            initialState={{
+              pagination: { paginationModel: { pageSize: 5, page: 0 } },
+            }}
+            pageSizeOptions={[5, 10, 25]}
+            slots={{
+              noRowsOverlay: () => (
+                <Stack height="100%" alignItems="center" justifyContent="center">
+                  <Typography variant="body2" color="text.secondary">
+                    Paid registrations will show up here.
+                  </Typography>
+                </Stack>
+              ),
+            }}
+          />
+        </Box>
+      )}
+
+      <WalletTopUpDialog open={topUpOpen} onClose={() => setTopUpOpen(false)} />
     </Stack>
   );
 }
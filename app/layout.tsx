@@ -3,6 +3,7 @@ import type { ReactNode } from "react";
 import { AppProviders } from "@/components/providers/AppProviders";
 import { AuthProvider } from "@/components/providers/AuthProvider";
 import { getServerSession } from "@/lib/get-server-session";
+import { fetchCampusDirectory } from "@/lib/services/campuses";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -17,11 +18,16 @@ export default async function RootLayout({
   children: ReactNode;
 }>) {
   const session = await getServerSession();
+  // Without it the app falls back to the default campus settings in lib/campus.ts
+  const campusDirectory = await fetchCampusDirectory().catch((error) => {
+    console.error("Failed to load campus settings:", error);
+    return null;
+  });
 
   return (
     <html lang="en">
       <body className="antialiased">
-        <AppProviders>
+        <AppProviders campusDirectory={campusDirectory}>
           <AuthProvider initialSession={session}>{children}</AuthProvider>
         </AppProviders>
       </body>
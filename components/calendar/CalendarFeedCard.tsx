@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import TextField from "@mui/material/TextField";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import CalendarIcon from "@mui/icons-material/CalendarMonthRounded";
+import { useSnackbar } from "notistack";
+import { fetchCalendarFeedUrl } from "@/lib/services/users";
+
+interface CalendarFeedCardProps {
+  token?: string;
+}
+
+export function CalendarFeedCard({ token }: CalendarFeedCardProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  const feedMutation = useMutation({
+    mutationFn: (regenerate: boolean) => fetchCalendarFeedUrl(token, regenerate),
+    onSuccess: async (url, regenerate) => {
+      setFeedUrl(url);
+      try {
+        await navigator.clipboard.writeText(url);
+        enqueueSnackbar(
+          regenerate
+            ? "New calendar link copied. The old link no longer works."
+            : "Calendar link copied to your clipboard.",
+          { variant: "success" }
+        );
+      } catch {
+        enqueueSnackbar("Copy the link below into your calendar app.", { variant: "info" });
+      }
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to load your calendar link.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  return (
+    <Card sx={{ borderRadius: 3, boxShadow: "0 14px 40px rgba(15,23,42,0.08)" }}>
+      <CardContent>
+        <Stack spacing={1.5}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <CalendarIcon color="primary" />
+            <Typography variant="subtitle1" fontWeight={700}>
+              Subscribe in your calendar
+            </Typography>
+          </Stack>
+          <Typography variant="body2" color="text.secondary">
+            Your registered events, gym sessions and court bookings as a private iCal feed.
+            Changes and cancellations sync automatically. Keep the link to yourself.
+          </Typography>
+          {feedUrl ? (
+            <TextField
+              value={feedUrl}
+              size="small"
+              fullWidth
+              slotProps={{ input: { readOnly: true } }}
+              onFocus={(event) => event.target.select()}
+            />
+          ) : null}
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="contained"
+              size="small"
+              disabled={!token || feedMutation.isPending}
+              onClick={() => feedMutation.mutate(false)}
+            >
+              Copy calendar link
+            </Button>
+            {feedUrl ? (
+              <Button
+                size="small"
+                color="warning"
+                disabled={feedMutation.isPending}
+                onClick={() => feedMutation.mutate(true)}
+              >
+                Reset link
+              </Button>
+            ) : null}
+          </Stack>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
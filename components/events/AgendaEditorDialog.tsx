@@ -0,0 +1,349 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import IconButton from "@mui/material/IconButton";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import TextField from "@mui/material/TextField";
+import Divider from "@mui/material/Divider";
+import Tooltip from "@mui/material/Tooltip";
+import EditIcon from "@mui/icons-material/EditRounded";
+import DeleteIcon from "@mui/icons-material/DeleteRounded";
+import LoadingButton from "@mui/lab/LoadingButton";
+import { DateTimePicker } from "@mui/x-date-pickers/DateTimePicker";
+import dayjs, { type Dayjs } from "dayjs";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import {
+  addAgendaSession,
+  deleteAgendaSession,
+  fetchConferenceAgenda,
+  updateAgendaSession,
+  type AgendaSession,
+  type AgendaSessionPayload,
+} from "@/lib/services/agenda";
+import { formatDateTime } from "@/lib/date";
+
+interface SessionDraft {
+  title: string;
+  startTime: Dayjs | null;
+  endTime: Dayjs | null;
+  room: string;
+  track: string;
+  speakers: string;
+  abstract: string;
+}
+
+interface AgendaEditorDialogProps {
+  open: boolean;
+  eventId: string;
+  eventName: string;
+  startDate: string;
+  endDate: string;
+  token?: string | null;
+  onClose: () => void;
+}
+
+function emptyDraft(startDate: string): SessionDraft {
+  return {
+    title: "",
+    startTime: dayjs(startDate),
+    endTime: dayjs(startDate).add(1, "hour"),
+    room: "",
+    track: "",
+    speakers: "",
+    abstract: "",
+  };
+}
+
+function toDraft(session: AgendaSession): SessionDraft {
+  return {
+    title: session.title,
+    startTime: dayjs(session.startTime),
+    endTime: dayjs(session.endTime),
+    room: session.room ?? "",
+    track: session.track ?? "",
+    speakers: session.speakers.join(", "),
+    abstract: session.abstract ?? "",
+  };
+}
+
+/** Lets the Events Office build a conference programme session by session. */
+export function AgendaEditorDialog({
+  open,
+  eventId,
+  eventName,
+  startDate,
+  endDate,
+  token,
+  onClose,
+}: AgendaEditorDialogProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(() => emptyDraft(startDate));
+
+  useEffect(() => {
+    if (!open) return;
+    setEditingId(null);
+    setDraft(emptyDraft(startDate));
+  }, [open, startDate]);
+
+  const agendaQuery = useQuery({
+    queryKey: ["conference-agenda", eventId, "editor", token],
+    queryFn: () => fetchConferenceAgenda(eventId, token ?? undefined),
+    enabled: open && Boolean(token),
+  });
+  const sessions = agendaQuery.data?.sessions ?? [];
+
+  const validationError = (() => {
+    if (!draft.title.trim()) return "Give the session a title.";
+    if (!draft.startTime || !draft.endTime) return "Set when the session starts and ends.";
+    if (!draft.endTime.isAfter(draft.startTime)) return "The session must end after it starts.";
+    if (draft.startTime.isBefore(dayjs(startDate)) || draft.endTime.isAfter(dayjs(endDate))) {
+      return "Sessions must fall within the conference dates.";
+    }
+    return null;
+  })();
+
+  const onMutationError = (fallback: string) => (error: unknown) => {
+    enqueueSnackbar(error instanceof Error ? error.message : fallback, { variant: "error" });
+  };
+
+  const refreshAgenda = () =>
+    queryClient.invalidateQueries({ queryKey: ["conference-agenda", eventId] });
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload: AgendaSessionPayload = {
+        title: draft.title.trim(),
+        startTime: draft.startTime!.toISOString(),
+        endTime: draft.endTime!.toISOString(),
+        room: draft.room.trim() || undefined,
+        track: draft.track.trim() || undefined,
+        speakers: draft.speakers
+          .split(",")
+          .map((speaker) => speaker.trim())
+          .filter(Boolean),
+        abstract: draft.abstract.trim() || undefined,
+      };
+      return editingId
+        ? updateAgendaSession(eventId, editingId, payload, token ?? undefined)
+        : addAgendaSession(eventId, payload, token ?? undefined);
+    },
+    onSuccess: (message) => {
+      enqueueSnackbar(message, { variant: "success" });
+      void refreshAgenda();
+      // Keep the times so consecutive sessions are quick to enter
+      setDraft((current) => ({
+        ...emptyDraft(startDate),
+        startTime: current.endTime,
+        endTime: current.endTime?.add(1, "hour") ?? null,
+        room: current.room,
+        track: current.track,
+      }));
+      setEditingId(null);
+    },
+    onError: onMutationError("Unable to save the session."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (sessionId: string) =>
+      deleteAgendaSession(eventId, sessionId, token ?? undefined),
+    onSuccess: (message, sessionId) => {
+      enqueueSnackbar(message, { variant: "success" });
+      void refreshAgenda();
+      if (sessionId === editingId) {
+        setEditingId(null);
+        setDraft(emptyDraft(startDate));
+      }
+    },
+    onError: onMutationError("Unable to delete the session."),
+  });
+
+  const handleDelete = (session: AgendaSession) => {
+    const warning = session.bookmarkCount
+      ? ` ${session.bookmarkCount} attendees bookmarked it.`
+      : "";
+    if (window.confirm(`Remove "${session.title}" from the agenda?${warning}`)) {
+      deleteMutation.mutate(session.id);
+    }
+  };
+
+  const update = (patch: Partial<SessionDraft>) =>
+    setDraft((current) => ({ ...current, ...patch }));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Agenda for {eventName}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={3}>
+          <Stack spacing={1.5}>
+            <Typography variant="subtitle2">Sessions</Typography>
+            {agendaQuery.isLoading ? (
+              <Skeleton variant="rounded" height={80} />
+            ) : agendaQuery.isError ? (
+              <Alert severity="error">
+                {agendaQuery.error instanceof Error
+                  ? agendaQuery.error.message
+                  : "Unable to load the agenda."}
+              </Alert>
+            ) : sessions.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No sessions yet. Add the first one below.
+              </Typography>
+            ) : (
+              sessions.map((session) => (
+                <Stack
+                  key={session.id}
+                  direction="row"
+                  spacing={1.5}
+                  alignItems="center"
+                  sx={{
+                    p: 1.5,
+                    borderRadius: 2,
+                    border: "1px solid",
+                    borderColor: session.id === editingId ? "primary.main" : "divider",
+                  }}
+                >
+                  <Stack sx={{ flex: 1, minWidth: 0 }}>
+                    <Typography variant="body2" fontWeight={600} noWrap>
+                      {session.title}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {formatDateTime(session.startTime)} – {formatDateTime(session.endTime, "h:mm A")}
+                      {session.room ? ` · ${session.room}` : ""}
+                      {session.track ? ` · ${session.track}` : ""}
+                      {session.bookmarkCount ? ` · ${session.bookmarkCount} bookmarked` : ""}
+                    </Typography>
+                  </Stack>
+                  <Tooltip title="Edit session">
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        setEditingId(session.id);
+                        setDraft(toDraft(session));
+                      }}
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete session">
+                    <span>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => handleDelete(session)}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Stack>
+              ))
+            )}
+          </Stack>
+
+          <Divider />
+
+          <Stack spacing={2}>
+            <Typography variant="subtitle2">
+              {editingId ? "Edit session" : "Add a session"}
+            </Typography>
+            <TextField
+              label="Title"
+              value={draft.title}
+              onChange={(event) => update({ title: event.target.value })}
+              fullWidth
+            />
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+              <DateTimePicker
+                label="Starts"
+                value={draft.startTime}
+                onChange={(value) => update({ startTime: value })}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+              <DateTimePicker
+                label="Ends"
+                value={draft.endTime}
+                onChange={(value) => update({ endTime: value })}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Stack>
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+              <TextField
+                label="Room"
+                value={draft.room}
+                onChange={(event) => update({ room: event.target.value })}
+                fullWidth
+              />
+              <TextField
+                label="Track"
+                value={draft.track}
+                onChange={(event) => update({ track: event.target.value })}
+                helperText={
+                  agendaQuery.data?.tracks.length
+                    ? `Existing: ${agendaQuery.data.tracks.join(", ")}`
+                    : undefined
+                }
+                fullWidth
+              />
+            </Stack>
+            <TextField
+              label="Speakers"
+              value={draft.speakers}
+              onChange={(event) => update({ speakers: event.target.value })}
+              helperText="Separate names with commas"
+              fullWidth
+            />
+            <TextField
+              label="Abstract"
+              value={draft.abstract}
+              onChange={(event) => update({ abstract: event.target.value })}
+              multiline
+              minRows={3}
+              fullWidth
+            />
+            {validationError && draft.title ? (
+              <Alert severity="warning">{validationError}</Alert>
+            ) : null}
+          </Stack>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {editingId ? (
+          <Button
+            onClick={() => {
+              setEditingId(null);
+              setDraft(emptyDraft(startDate));
+            }}
+            disabled={saveMutation.isPending}
+          >
+            Cancel edit
+          </Button>
+        ) : null}
+        <Button onClick={onClose} disabled={saveMutation.isPending}>
+          Close
+        </Button>
+        <LoadingButton
+          variant="contained"
+          onClick={() => saveMutation.mutate()}
+          loading={saveMutation.isPending}
+          disabled={Boolean(validationError)}
+        >
+          {editingId ? "Save session" : "Add session"}
+        </LoadingButton>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default AgendaEditorDialog;
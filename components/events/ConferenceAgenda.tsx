@@ -0,0 +1,301 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Stack from "@mui/material/Stack";
+import Box from "@mui/material/Box";
+import Typography from "@mui/material/Typography";
+import Chip from "@mui/material/Chip";
+import Button from "@mui/material/Button";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import Collapse from "@mui/material/Collapse";
+import ToggleButton from "@mui/material/ToggleButton";
+import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
+import BookmarkIcon from "@mui/icons-material/BookmarkRounded";
+import BookmarkBorderIcon from "@mui/icons-material/BookmarkBorderRounded";
+import WarningIcon from "@mui/icons-material/WarningAmberRounded";
+import CalendarAddIcon from "@mui/icons-material/EditCalendarRounded";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import {
+  bookmarkAgendaSession,
+  downloadAgendaCalendarFile,
+  fetchConferenceAgenda,
+  removeAgendaBookmark,
+  type AgendaSession,
+} from "@/lib/services/agenda";
+import { formatCampusDateTime } from "@/lib/campus";
+
+interface ConferenceAgendaProps {
+  eventId: string;
+  location?: string;
+  token?: string | null;
+  userId?: string;
+  canBookmark: boolean;
+}
+
+/** Conference programme on the event page, with a personal schedule for attendees. */
+export function ConferenceAgenda({
+  eventId,
+  location,
+  token,
+  userId,
+  canBookmark,
+}: ConferenceAgendaProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<"all" | "mine">("all");
+  const [track, setTrack] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const agendaQuery = useQuery({
+    queryKey: ["conference-agenda", eventId, userId, token],
+    queryFn: () => fetchConferenceAgenda(eventId, token ?? undefined),
+    enabled: Boolean(eventId && token),
+  });
+  const agenda = agendaQuery.data;
+
+  const bookmarkMutation = useMutation({
+    mutationFn: async (session: AgendaSession) => {
+      if (session.bookmarked) {
+        const message = await removeAgendaBookmark(eventId, session.id, token ?? undefined);
+        return { message, clashes: [] };
+      }
+      return bookmarkAgendaSession(eventId, session.id, token ?? undefined);
+    },
+    onSuccess: ({ message, clashes }) => {
+      enqueueSnackbar(message, { variant: clashes.length ? "warning" : "success" });
+      queryClient.invalidateQueries({ queryKey: ["conference-agenda", eventId] });
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(
+        error instanceof Error ? error.message : "Unable to update your schedule.",
+        { variant: "error" }
+      );
+    },
+  });
+
+  const sessionsById = useMemo(
+    () => new Map((agenda?.sessions ?? []).map((session) => [session.id, session])),
+    [agenda?.sessions]
+  );
+
+  // Grouped by calendar day at the campus, which is how the programme is printed
+  const days = useMemo(() => {
+    const visible = (agenda?.sessions ?? []).filter(
+      (session) =>
+        (view === "all" || session.bookmarked) && (!track || session.track === track)
+    );
+    const grouped = new Map<string, AgendaSession[]>();
+    for (const session of visible) {
+      const day = formatCampusDateTime(session.startTime, location, "dddd, MMM D");
+      grouped.set(day, [...(grouped.get(day) ?? []), session]);
+    }
+    return [...grouped.entries()];
+  }, [agenda?.sessions, view, track, location]);
+
+  const bookmarkedCount = (agenda?.sessions ?? []).filter((session) => session.bookmarked)
+    .length;
+
+  const handleDownload = async (mine: boolean) => {
+    try {
+      const { blob, filename } = await downloadAgendaCalendarFile(
+        eventId,
+        { mine },
+        token ?? undefined
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename ?? "agenda.ics";
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to download the agenda.";
+      enqueueSnackbar(message, { variant: "error" });
+    }
+  };
+
+  const describeClashes = (session: AgendaSession) =>
+    session.clashesWith
+      .map((id) => sessionsById.get(id)?.title)
+      .map((title) => (title ? `"${title}"` : "a session at another event"))
+      .join(", ");
+
+  return (
+    <Stack spacing={2.5} sx={{ p: 3, backgroundColor: "#FFFFFF", borderRadius: 3, mt: 3 }}>
+      <Stack
+        direction={{ xs: "column", sm: "row" }}
+        justifyContent="space-between"
+        alignItems={{ xs: "flex-start", sm: "center" }}
+        spacing={1.5}
+      >
+        <Typography variant="h6" fontWeight={700}>
+          Agenda
+        </Typography>
+        {agenda?.sessions.length ? (
+          <Stack direction="row" spacing={1}>
+            <Button
+              size="small"
+              color="secondary"
+              startIcon={<CalendarAddIcon />}
+              onClick={() => handleDownload(false)}
+            >
+              Full agenda
+            </Button>
+            {canBookmark && bookmarkedCount > 0 ? (
+              <Button
+                size="small"
+                color="secondary"
+                startIcon={<CalendarAddIcon />}
+                onClick={() => handleDownload(true)}
+              >
+                My sessions
+              </Button>
+            ) : null}
+          </Stack>
+        ) : null}
+      </Stack>
+
+      {agendaQuery.isLoading ? (
+        <Skeleton variant="rounded" height={160} />
+      ) : agendaQuery.isError ? (
+        <Alert severity="error">
+          {agendaQuery.error instanceof Error
+            ? agendaQuery.error.message
+            : "Unable to load the agenda."}
+        </Alert>
+      ) : !agenda?.sessions.length ? (
+        <Typography variant="body2" color="text.secondary">
+          The programme has not been published yet.
+        </Typography>
+      ) : (
+        <>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap alignItems="center">
+            {canBookmark ? (
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={view}
+                onChange={(_event, value) => value && setView(value)}
+              >
+                <ToggleButton value="all">All sessions</ToggleButton>
+                <ToggleButton value="mine">My schedule ({bookmarkedCount})</ToggleButton>
+              </ToggleButtonGroup>
+            ) : null}
+            {agenda.tracks.map((name) => (
+              <Chip
+                key={name}
+                label={name}
+                size="small"
+                color={track === name ? "primary" : "default"}
+                variant={track === name ? "filled" : "outlined"}
+                onClick={() => setTrack(track === name ? null : name)}
+              />
+            ))}
+          </Stack>
+
+          {days.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {view === "mine"
+                ? "Bookmark sessions to build your personal schedule."
+                : "No sessions in this track."}
+            </Typography>
+          ) : null}
+
+          {days.map(([day, sessions]) => (
+            <Stack key={day} spacing={1.5}>
+              <Typography variant="subtitle2" color="text.secondary">
+                {day}
+              </Typography>
+              {sessions.map((session) => (
+                <Box
+                  key={session.id}
+                  sx={{
+                    p: 2,
+                    borderRadius: 2,
+                    border: "1px solid",
+                    borderColor:
+                      session.bookmarked && session.clashesWith.length
+                        ? "warning.main"
+                        : "divider",
+                  }}
+                >
+                  <Stack direction="row" spacing={2} alignItems="flex-start">
+                    <Typography variant="body2" fontWeight={600} sx={{ minWidth: 110 }}>
+                      {formatCampusDateTime(session.startTime, location, "h:mm A")} –{" "}
+                      {formatCampusDateTime(session.endTime, location, "h:mm A")}
+                    </Typography>
+                    <Stack spacing={0.5} sx={{ flex: 1, minWidth: 0 }}>
+                      <Typography
+                        variant="subtitle1"
+                        fontWeight={700}
+                        sx={{ cursor: session.abstract ? "pointer" : "default" }}
+                        onClick={() =>
+                          session.abstract &&
+                          setExpanded(expanded === session.id ? null : session.id)
+                        }
+                      >
+                        {session.title}
+                      </Typography>
+                      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                        {session.track ? (
+                          <Chip label={session.track} size="small" color="secondary" />
+                        ) : null}
+                        {session.room ? (
+                          <Chip label={session.room} size="small" variant="outlined" />
+                        ) : null}
+                      </Stack>
+                      {session.speakers.length ? (
+                        <Typography variant="body2" color="text.secondary">
+                          {session.speakers.join(", ")}
+                        </Typography>
+                      ) : null}
+                      {session.abstract ? (
+                        <Collapse in={expanded === session.id}>
+                          <Typography variant="body2" sx={{ mt: 1, whiteSpace: "pre-line" }}>
+                            {session.abstract}
+                          </Typography>
+                        </Collapse>
+                      ) : null}
+                      {session.bookmarked && session.clashesWith.length ? (
+                        <Stack direction="row" spacing={0.5} alignItems="center">
+                          <WarningIcon fontSize="small" color="warning" />
+                          <Typography variant="caption" color="warning.main">
+                            Clashes with {describeClashes(session)}
+                          </Typography>
+                        </Stack>
+                      ) : null}
+                    </Stack>
+                    {canBookmark ? (
+                      <Tooltip
+                        title={session.bookmarked ? "Remove from my schedule" : "Add to my schedule"}
+                      >
+                        <span>
+                          <IconButton
+                            color={session.bookmarked ? "primary" : "default"}
+                            disabled={bookmarkMutation.isPending}
+                            onClick={() => bookmarkMutation.mutate(session)}
+                          >
+                            {session.bookmarked ? <BookmarkIcon /> : <BookmarkBorderIcon />}
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    ) : null}
+                  </Stack>
+                </Box>
+              ))}
+            </Stack>
+          ))}
+        </>
+      )}
+    </Stack>
+  );
+}
+
+export default ConferenceAgenda;
@@ -0,0 +1,146 @@
+"use client";
+
+import dayjs from "dayjs";
+import Grid from "@mui/material/Grid";
+import TextField from "@mui/material/TextField";
+import { formatDate } from "@/lib/date";
+
+// Form state for the validity window and redemption limits shared by coupons and loyalty offers
+export interface DiscountLimitsDraft {
+  validFrom: string;
+  validUntil: string;
+  maxRedemptions: string;
+  perUserLimit: string;
+}
+
+export interface DiscountLimits {
+  validFrom?: string | null;
+  validUntil?: string | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
+}
+
+const INPUT_FORMAT = "YYYY-MM-DDTHH:mm";
+
+export const EMPTY_DISCOUNT_LIMITS: DiscountLimitsDraft = {
+  validFrom: "",
+  validUntil: "",
+  maxRedemptions: "",
+  perUserLimit: "",
+};
+
+export function toDiscountLimitsDraft(limits: DiscountLimits): DiscountLimitsDraft {
+  return {
+    validFrom: limits.validFrom ? dayjs(limits.validFrom).format(INPUT_FORMAT) : "",
+    validUntil: limits.validUntil ? dayjs(limits.validUntil).format(INPUT_FORMAT) : "",
+    maxRedemptions: limits.maxRedemptions ? String(limits.maxRedemptions) : "",
+    perUserLimit: limits.perUserLimit ? String(limits.perUserLimit) : "",
+  };
+}
+
+export function toDiscountLimits(draft: DiscountLimitsDraft): DiscountLimits {
+  return {
+    validFrom: draft.validFrom ? new Date(draft.validFrom).toISOString() : null,
+    validUntil: draft.validUntil ? new Date(draft.validUntil).toISOString() : null,
+    maxRedemptions: draft.maxRedemptions ? Number(draft.maxRedemptions) : null,
+    perUserLimit: draft.perUserLimit ? Number(draft.perUserLimit) : null,
+  };
+}
+
+export function validateDiscountLimits(draft: DiscountLimitsDraft): string | null {
+  for (const value of [draft.maxRedemptions, draft.perUserLimit]) {
+    if (value && (!Number.isInteger(Number(value)) || Number(value) < 1)) {
+      return "Limits must be whole numbers of at least 1.";
+    }
+  }
+  if (
+    draft.validFrom &&
+    draft.validUntil &&
+    !dayjs(draft.validUntil).isAfter(dayjs(draft.validFrom))
+  ) {
+    return "The end date must be after the start date.";
+  }
+  return null;
+}
+
+export function describeDiscountLimits(limits: DiscountLimits): string {
+  const parts: string[] = [];
+  if (limits.validFrom && limits.validUntil) {
+    parts.push(`${formatDate(limits.validFrom)} – ${formatDate(limits.validUntil)}`);
+  } else if (limits.validFrom) {
+    parts.push(`From ${formatDate(limits.validFrom)}`);
+  } else if (limits.validUntil) {
+    parts.push(`Until ${formatDate(limits.validUntil)}`);
+  }
+  if (limits.maxRedemptions) {
+    parts.push(`${limits.maxRedemptions} uses in total`);
+  }
+  if (limits.perUserLimit) {
+    parts.push(`${limits.perUserLimit} per person`);
+  }
+  return parts.length ? parts.join(" · ") : "No date or usage limits";
+}
+
+interface DiscountLimitsFieldsProps {
+  value: DiscountLimitsDraft;
+  onChange: (value: DiscountLimitsDraft) => void;
+  disabled?: boolean;
+}
+
+export function DiscountLimitsFields({ value, onChange, disabled }: DiscountLimitsFieldsProps) {
+  const update = (key: keyof DiscountLimitsDraft, next: string) =>
+    onChange({ ...value, [key]: next });
+
+  return (
+    <Grid container spacing={2}>
+      <Grid size={{ xs: 12, sm: 6 }}>
+        <TextField
+          type="datetime-local"
+          label="Valid from"
+          value={value.validFrom}
+          onChange={(event) => update("validFrom", event.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+          helperText="Leave empty to start right away."
+          disabled={disabled}
+          fullWidth
+        />
+      </Grid>
+      <Grid size={{ xs: 12, sm: 6 }}>
+        <TextField
+          type="datetime-local"
+          label="Valid until"
+          value={value.validUntil}
+          onChange={(event) => update("validUntil", event.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+          helperText="Leave empty for no end date."
+          disabled={disabled}
+          fullWidth
+        />
+      </Grid>
+      <Grid size={{ xs: 12, sm: 6 }}>
+        <TextField
+          type="number"
+          label="Total redemptions"
+          value={value.maxRedemptions}
+          onChange={(event) => update("maxRedemptions", event.target.value)}
+          slotProps={{ htmlInput: { min: 1, step: 1 } }}
+          helperText="Empty means unlimited."
+          disabled={disabled}
+          fullWidth
+        />
+      </Grid>
+      <Grid size={{ xs: 12, sm: 6 }}>
+        <TextField
+          type="number"
+          label="Uses per person"
+          value={value.perUserLimit}
+          onChange={(event) => update("perUserLimit", event.target.value)}
+          slotProps={{ htmlInput: { min: 1, step: 1 } }}
+          helperText="Empty means unlimited."
+          disabled={disabled}
+          fullWidth
+        />
+      </Grid>
+    </Grid>
+  );
+}
@@ -8,15 +8,37 @@ import Button from "@mui/material/Button";
 import Stack from "@mui/material/Stack";
 import Typography from "@mui/material/Typography";
 import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
 import WarningIcon from "@mui/icons-material/WarningRounded";
 import EventIcon from "@mui/icons-material/EventRounded";
 import RefundIcon from "@mui/icons-material/ReplayRounded";
-import type { EventSummary } from "@/lib/types";
-import { formatDateTime } from "@/lib/date";
+import { useQuery } from "@tanstack/react-query";
+import type { EventSummary, RefundQuote } from "@/lib/types";
+import { campusCurrency, formatCampusDateTime, formatMoney } from "@/lib/campus";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import { fetchEventRefundPolicy } from "@/lib/services/events";
+import {
+  RefundPolicySummary,
+  describeRefundDestination,
+} from "@/components/events/RefundPolicySummary";
+
+function describeQuote(quote: RefundQuote, currency: string): string {
+  if (quote.refundAmount === 0) {
+    return "No refund applies if you cancel now, but your seat will go to the next person on the waiting list.";
+  }
+  const parts: string[] = [];
+  if (quote.walletRefundAmount > 0) {
+    parts.push(`${formatMoney(quote.walletRefundAmount, currency)} to your wallet`);
+  }
+  if (quote.cardRefundAmount > 0) {
+    parts.push(`${formatMoney(quote.cardRefundAmount, currency)} to your card`);
+  }
+  return `You will get ${quote.percentage}% back: ${parts.join(" and ")}.`;
+}
 
 interface EventCancellationDialogProps {
   open: boolean;
-  event?: Pick<EventSummary, "name" | "startDate"> | null;
+  event?: Pick<EventSummary, "id" | "name" | "startDate" | "location"> | null;
   loading?: boolean;
   onConfirm: () => void;
   onClose: () => void;
@@ -29,7 +51,20 @@ export function EventCancellationDialog({
   onConfirm,
   onClose,
 }: EventCancellationDialogProps) {
-  const startDateLabel = event?.startDate ? formatDateTime(event.startDate) : undefined;
+  const startDateLabel = event?.startDate
+    ? formatCampusDateTime(event.startDate, event.location)
+    : undefined;
+  const currency = campusCurrency(event?.location);
+  const token = useAuthToken();
+
+  const refundQuery = useQuery({
+    queryKey: ["event-refund-policy", event?.id, token],
+    queryFn: () => fetchEventRefundPolicy(event?.id ?? "", token ?? undefined),
+    enabled: open && Boolean(event?.id) && Boolean(token),
+  });
+
+  const quote = refundQuery.data?.quote;
+  const cancellationClosed = quote ? !quote.allowed : false;
 
   return (
     <Dialog
@@ -41,9 +76,18 @@ export function EventCancellationDialog({
       <DialogTitle>Cancel registration?</DialogTitle>
       <DialogContent dividers>
         <Stack spacing={2.5}>
-          <Alert severity="warning" icon={<WarningIcon fontSize="small" />}> 
-            Refunds are automatically credited back to your wallet when you cancel at least 14 days before the event start date.
-          </Alert>
+          {refundQuery.isLoading ? (
+            <Skeleton variant="rectangular" height={56} sx={{ borderRadius: 2 }} />
+          ) : quote ? (
+            <Alert
+              severity={quote.allowed ? "warning" : "error"}
+              icon={<WarningIcon fontSize="small" />}
+            >
+              {quote.allowed
+                ? `${describeQuote(quote, currency)} ${quote.refundAmount > 0 ? describeRefundDestination(quote.destination) : ""}`.trim()
+                : "This registration can no longer be cancelled under the event's refund policy."}
+            </Alert>
+          ) : null}
           <Stack spacing={1.5}>
             <Stack direction="row" spacing={1} alignItems="center">
               <EventIcon color="primary" />
@@ -72,6 +116,12 @@ export function EventCancellationDialog({
             <Typography variant="body2" color="text.secondary">
               Your seat will be released to the waiting list. This action cannot be undone.
             </Typography>
+            {refundQuery.data ? (
+              <RefundPolicySummary
+                policy={refundQuery.data.policy}
+                startDate={event?.startDate}
+              />
+            ) : null}
           </Stack>
         </Stack>
       </DialogContent>
@@ -83,7 +133,7 @@ export function EventCancellationDialog({
           onClick={onConfirm}
           color="error"
           variant="contained"
-          disabled={loading}
+          disabled={loading || cancellationClosed}
         >
           {loading ? "Cancelling..." : "Cancel & refund"}
         </Button>
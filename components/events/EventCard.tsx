@@ -15,7 +15,8 @@ import {
 import CalendarIcon from "@mui/icons-material/CalendarMonthRounded";
 import LocationIcon from "@mui/icons-material/FmdGoodRounded";
 import GroupIcon from "@mui/icons-material/PeopleAltRounded";
-import { formatDateTime, formatRelative } from "@/lib/date";
+import { formatRelative } from "@/lib/date";
+import { formatCampusDateTime } from "@/lib/campus";
 import { EventType, type EventSummary } from "@/lib/types";
 
 interface EventCardProps {
@@ -26,6 +27,7 @@ interface EventCardProps {
   cancelDisabled?: boolean;
   cancelLabel?: string;
   cancelDisabledReason?: string;
+  preview?: boolean; // Events Office preview of an unpublished event
 }
 
 const typeColorMap = {
@@ -45,6 +47,7 @@ export function EventCard({
   cancelDisabled,
   cancelLabel = "Cancel registration",
   cancelDisabledReason,
+  preview = false,
 }: EventCardProps) {
   const isBazaar = event.eventType === EventType.Bazaar;
   const chipLabel = event.eventType ?? "Event";
@@ -94,7 +97,8 @@ export function EventCard({
           <Stack direction="row" spacing={1} alignItems="center">
             <CalendarIcon fontSize="small" />
             <Typography variant="body2">
-              {formatDateTime(event.startDate)} – {formatDateTime(event.endDate)}
+              {formatCampusDateTime(event.startDate, event.location)} –{" "}
+              {formatCampusDateTime(event.endDate, event.location)}
             </Typography>
           </Stack>
           <Stack direction="row" spacing={1} alignItems="center">
@@ -126,15 +130,17 @@ export function EventCard({
         </Stack>
       </CardContent>
       <CardActions sx={{ px: 3, pb: 3, pt: 0, gap: 1 }}>
-        <Button
-          component={Link}
-          href={`/user/events/${event.id}`}
-          variant="outlined"
-          color="primary"
-          size="small"
-        >
-          Details
-        </Button>
+        {preview ? null : (
+          <Button
+            component={Link}
+            href={`/user/events/${event.id}`}
+            variant="outlined"
+            color="primary"
+            size="small"
+          >
+            Details
+          </Button>
+        )}
         {onRegister && (
           <Button
             onClick={() => onRegister(event)}
@@ -162,7 +168,8 @@ export function EventCard({
         ) : null}
         <Box flexGrow={1} />
         <Typography variant="caption" color="text.secondary">
-          Register by {formatDateTime(event.registrationDeadline, "MMM D, h:mm A")}
+          Register by{" "}
+          {formatCampusDateTime(event.registrationDeadline, event.location, "MMM D, h:mm A")}
         </Typography>
       </CardActions>
     </Card>
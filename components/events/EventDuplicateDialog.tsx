@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Alert from "@mui/material/Alert";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Checkbox from "@mui/material/Checkbox";
+import LoadingButton from "@mui/lab/LoadingButton";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import dayjs, { type Dayjs } from "dayjs";
+import { useMutation } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import { duplicateEvent } from "@/lib/services/eventSeries";
+import { formatCampusDateTime } from "@/lib/campus";
+
+interface EventDuplicateDialogProps {
+  open: boolean;
+  eventId: string;
+  eventName: string;
+  startDate: string;
+  endDate: string;
+  location?: string;
+  token?: string | null;
+  onClose: () => void;
+  onDuplicated?: () => void;
+}
+
+/** Copies an event to a new start date, keeping its times of day. */
+export function EventDuplicateDialog({
+  open,
+  eventId,
+  eventName,
+  startDate,
+  endDate,
+  location,
+  token,
+  onClose,
+  onDuplicated,
+}: EventDuplicateDialogProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const [newStart, setNewStart] = useState<Dayjs | null>(null);
+  const [asDraft, setAsDraft] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    // Default to the same slot next month, or next month from today for past events
+    const base = dayjs(startDate).isAfter(dayjs()) ? dayjs(startDate) : dayjs();
+    setNewStart(base.add(1, "month"));
+    setAsDraft(true);
+  }, [open, startDate]);
+
+  const offsetDays = newStart
+    ? newStart.startOf("day").diff(dayjs(startDate).startOf("day"), "day")
+    : 0;
+  const copyStart = dayjs(startDate).add(offsetDays, "day");
+  const copyEnd = dayjs(endDate).add(offsetDays, "day");
+
+  const validationError = !newStart
+    ? "Pick a start date for the copy."
+    : offsetDays === 0
+      ? "Pick a different date from the original."
+      : copyStart.isBefore(dayjs())
+        ? "The copy must start in the future."
+        : null;
+
+  const duplicateMutation = useMutation({
+    mutationFn: () =>
+      duplicateEvent(
+        eventId,
+        { startDate: newStart!.toISOString(), draft: asDraft },
+        token ?? undefined
+      ),
+    onSuccess: (message) => {
+      enqueueSnackbar(message, { variant: "success" });
+      onDuplicated?.();
+      onClose();
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(
+        error instanceof Error ? error.message : "Unable to duplicate this event.",
+        { variant: "error" }
+      );
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onClose={duplicateMutation.isPending ? undefined : onClose}
+      maxWidth="xs"
+      fullWidth
+    >
+      <DialogTitle>Duplicate {eventName}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            The copy keeps the details, prices and access rules. Registrations, revenue and
+            vendor applications start empty, and every date moves by the same number of days.
+          </Typography>
+          <DatePicker
+            label="New start date"
+            value={newStart}
+            onChange={(value) => setNewStart(value)}
+            slotProps={{ textField: { fullWidth: true } }}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox checked={asDraft} onChange={(event) => setAsDraft(event.target.checked)} />
+            }
+            label="Save the copy as a draft to review before publishing"
+          />
+          {validationError ? (
+            <Alert severity="warning">{validationError}</Alert>
+          ) : (
+            <Alert severity="info">
+              The copy runs {formatCampusDateTime(copyStart.toDate(), location)} to{" "}
+              {formatCampusDateTime(copyEnd.toDate(), location)} (
+              {offsetDays > 0 ? "+" : ""}
+              {offsetDays} days).
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={duplicateMutation.isPending}>
+          Cancel
+        </Button>
+        <LoadingButton
+          onClick={() => duplicateMutation.mutate()}
+          loading={duplicateMutation.isPending}
+          disabled={Boolean(validationError)}
+        >
+          Duplicate
+        </LoadingButton>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default EventDuplicateDialog;
@@ -13,17 +13,36 @@ import Checkbox from "@mui/material/Checkbox";
 import Button from "@mui/material/Button";
 import Tooltip from "@mui/material/Tooltip";
 import Alert from "@mui/material/Alert";
+import TextField from "@mui/material/TextField";
 import LoadingButton from "@mui/lab/LoadingButton";
 import DownloadIcon from "@mui/icons-material/CloudDownloadRounded";
 import QrCodeIcon from "@mui/icons-material/QrCode2Rounded";
 import LockIcon from "@mui/icons-material/LockRounded";
+import HowToRegIcon from "@mui/icons-material/HowToRegRounded";
+import PolicyIcon from "@mui/icons-material/PolicyRounded";
+import EventSeatIcon from "@mui/icons-material/EventSeatRounded";
+import CopyIcon from "@mui/icons-material/ContentCopyRounded";
+import RepeatIcon from "@mui/icons-material/RepeatRounded";
+import PublishIcon from "@mui/icons-material/PublishRounded";
 import { useSnackbar } from "notistack";
-import { EventType, UserRole } from "@/lib/types";
 import {
+  EventType,
+  PublicationStatus,
+  UserRole,
+  type EventSummary,
+} from "@/lib/types";
+import {
+  checkInEventTicket,
   exportEventRegistrationsFile,
   generateEventQrCodeFile,
   updateEventRoleRestrictions,
+  type TicketCheckInResult,
 } from "@/lib/services/events";
+import { EventRefundPolicyDialog } from "@/components/events/EventRefundPolicyDialog";
+import { EventRegistrationSettingsDialog } from "@/components/events/EventRegistrationSettingsDialog";
+import { EventDuplicateDialog } from "@/components/events/EventDuplicateDialog";
+import { EventSeriesDialog } from "@/components/events/EventSeriesDialog";
+import { EventPublishDialog } from "@/components/events/EventPublishDialog";
 
 const USER_ROLE_OPTIONS: UserRole[] = [
   UserRole.Student,
@@ -39,6 +58,18 @@ interface EventOfficeEventActionsProps {
   token?: string | null;
   allowedRoles?: UserRole[];
   onRestrictionsUpdated?: (roles: UserRole[]) => void;
+  // Seminars and conferences only: the event's current registration settings
+  registration?: Pick<
+    EventSummary,
+    "registrationEnabled" | "capacity" | "price" | "ticketTiers" | "registeredCount"
+  >;
+  onRegistrationUpdated?: () => void;
+  // Dates and series of the event, to copy it or repeat it on a schedule
+  schedule?: Pick<EventSummary, "startDate" | "endDate" | "location" | "seriesId">;
+  onCopiesChanged?: () => void;
+  // The whole event, to preview it and publish, schedule or unpublish it
+  publication?: EventSummary;
+  onPublicationChanged?: () => void;
 }
 
 export function EventOfficeEventActions({
@@ -48,6 +79,12 @@ export function EventOfficeEventActions({
   token,
   allowedRoles = [],
   onRestrictionsUpdated,
+  registration,
+  onRegistrationUpdated,
+  schedule,
+  onCopiesChanged,
+  publication,
+  onPublicationChanged,
 }: EventOfficeEventActionsProps) {
   const { enqueueSnackbar } = useSnackbar();
   const [exporting, setExporting] = useState(false);
@@ -56,6 +93,15 @@ export function EventOfficeEventActions({
   const [currentRoles, setCurrentRoles] = useState<UserRole[]>(allowedRoles);
   const [selectedRoles, setSelectedRoles] = useState<UserRole[]>(allowedRoles);
   const [savingRestrictions, setSavingRestrictions] = useState(false);
+  const [checkInOpen, setCheckInOpen] = useState(false);
+  const [ticketCode, setTicketCode] = useState("");
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [lastCheckIn, setLastCheckIn] = useState<TicketCheckInResult | null>(null);
+  const [refundPolicyOpen, setRefundPolicyOpen] = useState(false);
+  const [registrationOpen, setRegistrationOpen] = useState(false);
+  const [duplicateOpen, setDuplicateOpen] = useState(false);
+  const [seriesOpen, setSeriesOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
 
   useEffect(() => {
     setCurrentRoles(allowedRoles);
@@ -69,9 +115,25 @@ export function EventOfficeEventActions({
   const qrSupported =
     eventType === EventType.Bazaar || eventType === EventType.Seminar;
 
+  const refundPolicySupported =
+    eventType === EventType.Workshop || eventType === EventType.Trip;
+
+  const registrationConfigurable =
+    eventType === EventType.Seminar || eventType === EventType.Conference;
+
+  // Platform booths run indefinitely, so there are no dates to move
+  const copySupported = Boolean(schedule) && eventType !== EventType.BoothInPlatform;
+
+  const publicationStatus = publication
+    ? (publication.publicationStatus ?? PublicationStatus.Published)
+    : null;
+
+  const ticketsSupported =
+    refundPolicySupported || Boolean(registration?.registrationEnabled);
+
   const exportDisabledReason =
-    eventType === EventType.Conference
-      ? "Conferences do not support attendee exports."
+    registrationConfigurable && !registration?.registrationEnabled && !registration?.registeredCount
+      ? "Open registration to collect attendees for this event."
       : undefined;
 
   const needsAuth = !token;
@@ -159,6 +221,25 @@ export function EventOfficeEventActions({
     }
   };
 
+  const handleCheckIn = async () => {
+    if (!token || !ticketCode.trim()) return;
+    setCheckingIn(true);
+    try {
+      const result = await checkInEventTicket(eventId, ticketCode.trim(), token);
+      setLastCheckIn(result);
+      setTicketCode("");
+      enqueueSnackbar(`${result.attendeeName || "Attendee"} checked in.`, {
+        variant: "success",
+      });
+    } catch (error) {
+      enqueueSnackbar(getErrorMessage(error, "Unable to check in this ticket."), {
+        variant: "error",
+      });
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
   const handleToggleRole = (role: UserRole) => {
     setSelectedRoles((current) => {
       if (current.includes(role)) {
@@ -211,6 +292,68 @@ export function EventOfficeEventActions({
               </span>
             </Tooltip>
           ) : null}
+          {ticketsSupported ? (
+            <Button
+              startIcon={<HowToRegIcon />}
+              variant="outlined"
+              onClick={() => setCheckInOpen(true)}
+              disabled={needsAuth}
+            >
+              Check in tickets
+            </Button>
+          ) : null}
+          {registrationConfigurable ? (
+            <Button
+              startIcon={<EventSeatIcon />}
+              variant="outlined"
+              onClick={() => setRegistrationOpen(true)}
+              disabled={needsAuth}
+            >
+              Registration
+            </Button>
+          ) : null}
+          {refundPolicySupported ? (
+            <Button
+              startIcon={<PolicyIcon />}
+              variant="outlined"
+              onClick={() => setRefundPolicyOpen(true)}
+              disabled={needsAuth}
+            >
+              Refund policy
+            </Button>
+          ) : null}
+          {publicationStatus ? (
+            <Button
+              startIcon={<PublishIcon />}
+              variant={
+                publicationStatus === PublicationStatus.Published ? "outlined" : "contained"
+              }
+              onClick={() => setPublishOpen(true)}
+              disabled={needsAuth}
+            >
+              {publicationStatus === PublicationStatus.Published ? "Unpublish" : "Publish"}
+            </Button>
+          ) : null}
+          {copySupported ? (
+            <Button
+              startIcon={<CopyIcon />}
+              variant="outlined"
+              onClick={() => setDuplicateOpen(true)}
+              disabled={needsAuth}
+            >
+              Duplicate
+            </Button>
+          ) : null}
+          {copySupported ? (
+            <Button
+              startIcon={<RepeatIcon />}
+              variant="outlined"
+              onClick={() => setSeriesOpen(true)}
+              disabled={needsAuth}
+            >
+              {schedule?.seriesId ? "Series" : "Repeat"}
+            </Button>
+          ) : null}
           <Button
             startIcon={<LockIcon />}
             variant="contained"
@@ -225,6 +368,109 @@ export function EventOfficeEventActions({
         </Typography>
       </Stack>
 
+      <Dialog
+        open={checkInOpen}
+        onClose={() => setCheckInOpen(false)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>Check in tickets</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              Scan an attendee&apos;s ticket QR or paste the code printed under it.
+            </Typography>
+            <TextField
+              label="Ticket code"
+              value={ticketCode}
+              onChange={(event) => setTicketCode(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.preventDefault();
+                  void handleCheckIn();
+                }
+              }}
+              autoFocus
+              fullWidth
+            />
+            {lastCheckIn ? (
+              <Alert severity="success">
+                {lastCheckIn.attendeeName || "Attendee"} checked in.{" "}
+                {lastCheckIn.checkedInCount} checked in so far.
+              </Alert>
+            ) : null}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCheckInOpen(false)}>Close</Button>
+          <LoadingButton
+            onClick={handleCheckIn}
+            loading={checkingIn}
+            disabled={!ticketCode.trim()}
+          >
+            Check in
+          </LoadingButton>
+        </DialogActions>
+      </Dialog>
+
+      {registrationConfigurable ? (
+        <EventRegistrationSettingsDialog
+          open={registrationOpen}
+          eventId={eventId}
+          eventName={eventName}
+          settings={registration}
+          token={token}
+          onClose={() => setRegistrationOpen(false)}
+          onSaved={onRegistrationUpdated}
+        />
+      ) : null}
+
+      {publication ? (
+        <EventPublishDialog
+          open={publishOpen}
+          event={publication}
+          token={token}
+          onClose={() => setPublishOpen(false)}
+          onChanged={onPublicationChanged}
+        />
+      ) : null}
+
+      {copySupported && schedule ? (
+        <>
+          <EventDuplicateDialog
+            open={duplicateOpen}
+            eventId={eventId}
+            eventName={eventName}
+            startDate={schedule.startDate}
+            endDate={schedule.endDate}
+            location={schedule.location}
+            token={token}
+            onClose={() => setDuplicateOpen(false)}
+            onDuplicated={onCopiesChanged}
+          />
+          <EventSeriesDialog
+            open={seriesOpen}
+            eventId={eventId}
+            eventName={eventName}
+            seriesId={schedule.seriesId}
+            location={schedule.location}
+            token={token}
+            onClose={() => setSeriesOpen(false)}
+            onChanged={onCopiesChanged}
+          />
+        </>
+      ) : null}
+
+      {refundPolicySupported ? (
+        <EventRefundPolicyDialog
+          open={refundPolicyOpen}
+          eventId={eventId}
+          eventName={eventName}
+          token={token}
+          onClose={() => setRefundPolicyOpen(false)}
+        />
+      ) : null}
+
       <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
         <DialogTitle>Allowed roles</DialogTitle>
         <DialogContent dividers>
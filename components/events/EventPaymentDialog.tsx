@@ -11,21 +11,32 @@ import Chip from "@mui/material/Chip";
 import Alert from "@mui/material/Alert";
 import Skeleton from "@mui/material/Skeleton";
 import Divider from "@mui/material/Divider";
+import TextField from "@mui/material/TextField";
+import ToggleButton from "@mui/material/ToggleButton";
+import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
 import PaymentIcon from "@mui/icons-material/PaymentRounded";
 import AccountBalanceIcon from "@mui/icons-material/AccountBalanceWalletRounded";
 import CancelIcon from "@mui/icons-material/CancelRounded";
 import CreditCardIcon from "@mui/icons-material/CreditCardRounded";
 import ArrowBackIcon from "@mui/icons-material/ArrowBackRounded";
-import type { EventSummary } from "@/lib/types";
+import LocalOfferIcon from "@mui/icons-material/LocalOfferRounded";
+import { useEffect, useState } from "react";
+import type { DiscountQuote, EventSummary, TicketTierAudience } from "@/lib/types";
 import { Elements } from "@stripe/react-stripe-js";
 import { stripePromise } from "@/lib/stripe";
 import { StripePaymentForm } from "@/components/events/StripePaymentForm";
-
-const currencyFormatter = new Intl.NumberFormat(undefined, {
-  style: "currency",
-  currency: "EGP",
-  minimumFractionDigits: 2,
-});
+import { RefundPolicySummary } from "@/components/events/RefundPolicySummary";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import { useSessionUser } from "@/hooks/useSessionUser";
+import {
+  defaultTicketTier,
+  isTierSoldOut,
+  registrationPrice,
+  ticketTierOpenTo,
+} from "@/lib/events/registration";
+import { fetchEventRefundPolicy, previewEventDiscount } from "@/lib/services/events";
+import { campusCurrency, formatMoney, walletCurrency } from "@/lib/campus";
 
 type PaymentDialogStep = "method" | "card";
 
@@ -39,8 +50,8 @@ interface EventPaymentDialogProps {
   cardFinalizing?: boolean;
   cardError?: string | null;
   onClose: () => void;
-  onPayWithWallet: () => void;
-  onStartCardFlow: () => void;
+  onPayWithWallet: (promoCode?: string, ticketTier?: TicketTierAudience) => void;
+  onStartCardFlow: (promoCode?: string, ticketTier?: TicketTierAudience) => void;
   onCardPaymentSuccess: (paymentIntentId: string) => void;
   onCardError?: (message: string) => void;
   onBackToMethods: () => void;
@@ -62,17 +73,59 @@ export function EventPaymentDialog({
   onCardError,
   onBackToMethods,
 }: EventPaymentDialogProps) {
-  const amount = Math.max(event?.price ?? 0, 0);
-  const amountLabel = amount > 0 ? currencyFormatter.format(amount) : "Free";
+  const [promoInput, setPromoInput] = useState("");
+  const [discount, setDiscount] = useState<DiscountQuote | null>(null);
+  const user = useSessionUser();
+  const [ticketTier, setTicketTier] = useState<TicketTierAudience | undefined>();
+  const ticketTiers = event?.ticketTiers ?? [];
+  const needsTier = ticketTiers.length > 0 && !ticketTier;
+  const amount = registrationPrice(event, ticketTier);
+  const amountDue = discount ? discount.finalAmount : amount;
+  const currency = campusCurrency(event?.location);
+  const amountLabel = amountDue > 0 ? formatMoney(amountDue, currency) : "Free";
   const isPaidEvent = amount > 0;
+  // The wallet is held in the home campus currency
+  const walletAvailable = amountDue <= 0 || currency === walletCurrency();
   const showCardStep = step === "card";
-  const cardAvailable = Boolean(stripePromise) && isPaidEvent;
+  const cardAvailable = Boolean(stripePromise) && isPaidEvent && amountDue > 0;
   const cardIntro = !stripePromise
     ? "Stripe is not configured. Please use wallet for now."
     : !isPaidEvent
       ? "Card payments are only required for paid events."
-      : "Secure credit/debit card checkout is powered by Stripe.";
+      : amountDue <= 0
+        ? "Your promo code covers the full price; no card is needed."
+        : "Secure credit/debit card checkout is powered by Stripe.";
   const disableDialogClose = loading || cardSelectionLoading || cardFinalizing;
+  const token = useAuthToken();
+
+  const initialTier = defaultTicketTier(event, user?.userRole);
+
+  useEffect(() => {
+    if (!open) {
+      setPromoInput("");
+      setDiscount(null);
+    }
+    setTicketTier(initialTier);
+  }, [open, event?.id, initialTier]);
+
+  const discountMutation = useMutation({
+    mutationFn: (code: string) =>
+      previewEventDiscount(event?.id ?? "", code, token ?? undefined, ticketTier),
+    onSuccess: (quote) => setDiscount(quote),
+    onError: () => setDiscount(null),
+  });
+
+  const discountError =
+    discountMutation.error && typeof discountMutation.error === "object"
+      ? ((discountMutation.error as { message?: string }).message ??
+        "This promo code cannot be applied.")
+      : null;
+
+  const refundPolicyQuery = useQuery({
+    queryKey: ["event-refund-policy", event?.id, token],
+    queryFn: () => fetchEventRefundPolicy(event?.id ?? "", token ?? undefined),
+    enabled: open && Boolean(event?.id) && Boolean(token) && isPaidEvent,
+  });
 
   const renderMethodSelection = () => (
     <Stack spacing={2.5}>
@@ -84,27 +137,131 @@ export function EventPaymentDialog({
           {event?.name ?? "Select an event"}
         </Typography>
       </Stack>
-      <Stack direction="row" spacing={1} alignItems="center">
+      {ticketTiers.length > 0 ? (
+        <Stack spacing={1}>
+          <Typography variant="subtitle2" color="text.secondary">
+            Ticket
+          </Typography>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={ticketTier ?? null}
+            onChange={(_changeEvent, value: TicketTierAudience | null) => {
+              if (!value) return;
+              setTicketTier(value);
+              setDiscount(null);
+              discountMutation.reset();
+            }}
+            disabled={loading || Boolean(event?.myTicketTier)}
+          >
+            {ticketTiers.map((tier) => {
+              const soldOut = isTierSoldOut(tier);
+              return (
+                <ToggleButton
+                  key={tier.audience}
+                  value={tier.audience}
+                  disabled={soldOut || !ticketTierOpenTo(tier.audience, user?.userRole)}
+                  sx={{ textTransform: "none", flexDirection: "column", px: 2 }}
+                >
+                  <Typography variant="body2" fontWeight={600}>
+                    {tier.audience}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {soldOut
+                      ? "Sold out"
+                      : tier.price > 0
+                        ? formatMoney(tier.price, currency)
+                        : "Free"}
+                  </Typography>
+                </ToggleButton>
+              );
+            })}
+          </ToggleButtonGroup>
+          {needsTier ? (
+            <Typography variant="caption" color="text.secondary">
+              Choose the ticket that matches you. Student and staff tickets are only sold to
+              those roles.
+            </Typography>
+          ) : null}
+        </Stack>
+      ) : null}
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
         <Chip icon={<PaymentIcon />} label={`Amount due: ${amountLabel}`} color="primary" />
+        {discount ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textDecoration: "line-through" }}>
+            {formatMoney(discount.originalAmount, currency)}
+          </Typography>
+        ) : null}
       </Stack>
+      {isPaidEvent ? (
+        <Stack spacing={1}>
+          <Stack direction="row" spacing={1} alignItems="flex-start">
+            <TextField
+              label="Promo code"
+              size="small"
+              value={promoInput}
+              onChange={(inputEvent) => {
+                setPromoInput(inputEvent.target.value.toUpperCase());
+                setDiscount(null);
+                discountMutation.reset();
+              }}
+              disabled={Boolean(discount) || loading}
+              error={Boolean(discountError)}
+              helperText={discountError ?? undefined}
+              fullWidth
+            />
+            {discount ? (
+              <Button
+                onClick={() => {
+                  setDiscount(null);
+                  setPromoInput("");
+                }}
+                disabled={loading || cardSelectionLoading}
+              >
+                Remove
+              </Button>
+            ) : (
+              <Button
+                variant="outlined"
+                startIcon={<LocalOfferIcon />}
+                onClick={() => discountMutation.mutate(promoInput.trim())}
+                disabled={!promoInput.trim() || discountMutation.isPending}
+              >
+                {discountMutation.isPending ? "Checking..." : "Apply"}
+              </Button>
+            )}
+          </Stack>
+          {discount ? (
+            <Alert severity="success" icon={<LocalOfferIcon />}>
+              {discount.label}: {discount.discountRate}% off, you save{" "}
+              {formatMoney(discount.amount, currency)}.
+            </Alert>
+          ) : null}
+        </Stack>
+      ) : null}
       <Typography variant="body2" color="text.secondary">
         Choose how you would like to complete your registration.
       </Typography>
+      {!walletAvailable ? (
+        <Alert severity="info">
+          {event?.location} events are charged in {currency}, so they can only be paid by card.
+        </Alert>
+      ) : null}
       <Stack direction={{ xs: "column", sm: "row" }} spacing={1.5}>
         <Button
           variant="contained"
           startIcon={<AccountBalanceIcon />}
-          onClick={onPayWithWallet}
-          disabled={loading}
+          onClick={() => onPayWithWallet(discount?.code, ticketTier)}
+          disabled={loading || !walletAvailable || needsTier}
           fullWidth
         >
-          {amount > 0 ? "Pay with wallet" : "Confirm registration"}
+          {amountDue > 0 ? "Pay with wallet" : "Confirm registration"}
         </Button>
         <Button
           variant="outlined"
           startIcon={<CreditCardIcon />}
-          onClick={onStartCardFlow}
-          disabled={!cardAvailable || cardSelectionLoading}
+          onClick={() => onStartCardFlow(discount?.code, ticketTier)}
+          disabled={!cardAvailable || cardSelectionLoading || needsTier}
           fullWidth
         >
           {cardSelectionLoading ? "Preparing..." : "Pay with card"}
@@ -113,6 +270,19 @@ export function EventPaymentDialog({
       <Typography variant="caption" color="text.secondary">
         {cardIntro}
       </Typography>
+      {isPaidEvent ? (
+        <>
+          <Divider />
+          {refundPolicyQuery.isLoading ? (
+            <Skeleton variant="rectangular" height={72} sx={{ borderRadius: 2 }} />
+          ) : refundPolicyQuery.data ? (
+            <RefundPolicySummary
+              policy={refundPolicyQuery.data.policy}
+              startDate={event?.startDate}
+            />
+          ) : null}
+        </>
+      ) : null}
     </Stack>
   );
 
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Alert from "@mui/material/Alert";
+import Radio from "@mui/material/Radio";
+import RadioGroup from "@mui/material/RadioGroup";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import LoadingButton from "@mui/lab/LoadingButton";
+import { DateTimePicker } from "@mui/x-date-pickers/DateTimePicker";
+import dayjs, { type Dayjs } from "dayjs";
+import { useMutation } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import { EventCard } from "@/components/events/EventCard";
+import { publishEvent, unpublishEvent } from "@/lib/services/events";
+import { formatCampusDateTime } from "@/lib/campus";
+import { PublicationStatus, type EventSummary } from "@/lib/types";
+
+interface EventPublishDialogProps {
+  open: boolean;
+  event: EventSummary;
+  token?: string | null;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+/** Previews an event as attendees will see it and publishes, schedules or hides it. */
+export function EventPublishDialog({
+  open,
+  event,
+  token,
+  onClose,
+  onChanged,
+}: EventPublishDialogProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const [mode, setMode] = useState<"now" | "schedule">("now");
+  const [publishAt, setPublishAt] = useState<Dayjs | null>(null);
+
+  const status = event.publicationStatus ?? PublicationStatus.Published;
+  const isPublished = status === PublicationStatus.Published;
+  const isScheduled = status === PublicationStatus.Scheduled;
+
+  useEffect(() => {
+    if (!open) return;
+    setMode(isScheduled ? "schedule" : "now");
+    setPublishAt(
+      isScheduled && event.publishAt
+        ? dayjs(event.publishAt)
+        : dayjs().add(1, "day").hour(9).minute(0).second(0)
+    );
+  }, [open, isScheduled, event.publishAt]);
+
+  const validationError =
+    mode !== "schedule"
+      ? null
+      : !publishAt
+        ? "Pick when the event goes live."
+        : !publishAt.isAfter(dayjs())
+          ? "The publish time must be in the future."
+          : !publishAt.isBefore(dayjs(event.startDate))
+            ? "Publish the event before it starts."
+            : null;
+
+  const onMutationSuccess = (message: string) => {
+    enqueueSnackbar(message, { variant: "success" });
+    onChanged?.();
+    onClose();
+  };
+
+  const onMutationError = (fallback: string) => (error: unknown) => {
+    enqueueSnackbar(error instanceof Error ? error.message : fallback, { variant: "error" });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: () =>
+      publishEvent(
+        event.id,
+        mode === "schedule" && publishAt ? { publishAt: publishAt.toISOString() } : {},
+        token ?? undefined
+      ),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError("Unable to publish this event."),
+  });
+
+  const unpublishMutation = useMutation({
+    mutationFn: () => unpublishEvent(event.id, token ?? undefined),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError("Unable to unpublish this event."),
+  });
+
+  const busy = publishMutation.isPending || unpublishMutation.isPending;
+
+  const statusText = isPublished
+    ? "Published. Everyone can see this event and register."
+    : isScheduled && event.publishAt
+      ? `Scheduled to go live ${formatCampusDateTime(event.publishAt, event.location)}. The announcement is sent then.`
+      : status === PublicationStatus.Unpublished
+        ? "Unpublished. Hidden from listings; existing registrations are kept."
+        : "Draft. Only the Events Office can see it. Publishing sends the new-event announcement.";
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{isPublished ? "Unpublish" : "Publish"} {event.name}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2.5}>
+          <Alert severity={isPublished ? "success" : "info"}>{statusText}</Alert>
+
+          <Stack spacing={1}>
+            <Typography variant="subtitle2">How attendees see it</Typography>
+            <EventCard event={event} preview />
+          </Stack>
+
+          {isPublished ? (
+            <Typography variant="body2" color="text.secondary">
+              Unpublishing hides the event from listings and stops new registrations. Attendees
+              who already registered keep their seats and tickets.
+            </Typography>
+          ) : (
+            <Stack spacing={1.5}>
+              <RadioGroup
+                value={mode}
+                onChange={(_event, value) => setMode(value as "now" | "schedule")}
+              >
+                <FormControlLabel value="now" control={<Radio />} label="Publish now" />
+                <FormControlLabel value="schedule" control={<Radio />} label="Schedule" />
+              </RadioGroup>
+              {mode === "schedule" ? (
+                <DateTimePicker
+                  label="Goes live at"
+                  value={publishAt}
+                  onChange={(value) => setPublishAt(value)}
+                  slotProps={{ textField: { fullWidth: true } }}
+                />
+              ) : null}
+              {validationError ? <Alert severity="warning">{validationError}</Alert> : null}
+            </Stack>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={busy}>
+          Close
+        </Button>
+        {isPublished || isScheduled ? (
+          <LoadingButton
+            color="warning"
+            onClick={() => unpublishMutation.mutate()}
+            loading={unpublishMutation.isPending}
+            disabled={busy}
+          >
+            {isScheduled ? "Back to draft" : "Unpublish"}
+          </LoadingButton>
+        ) : null}
+        {isPublished ? null : (
+          <LoadingButton
+            variant="contained"
+            onClick={() => publishMutation.mutate()}
+            loading={publishMutation.isPending}
+            disabled={busy || Boolean(validationError)}
+          >
+            {mode === "schedule" ? "Schedule" : "Publish now"}
+          </LoadingButton>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default EventPublishDialog;
@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import LoadingButton from "@mui/lab/LoadingButton";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import type { RefundPolicyRules } from "@/lib/types";
+import {
+  fetchEventRefundPolicy,
+  updateEventRefundPolicy,
+} from "@/lib/services/events";
+import {
+  RefundPolicyEditor,
+  validateRefundPolicy,
+} from "@/components/events/RefundPolicyEditor";
+
+interface EventRefundPolicyDialogProps {
+  open: boolean;
+  eventId: string;
+  eventName: string;
+  token?: string | null;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS = {
+  Event: "This event has its own refund policy.",
+  EventType: "This event follows its event type's refund policy.",
+  Default: "This event follows the default refund policy.",
+} as const;
+
+export function EventRefundPolicyDialog({
+  open,
+  eventId,
+  eventName,
+  token,
+  onClose,
+}: EventRefundPolicyDialogProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RefundPolicyRules | null>(null);
+
+  const policyQuery = useQuery({
+    queryKey: ["event-refund-policy", eventId, token],
+    queryFn: () => fetchEventRefundPolicy(eventId, token ?? undefined),
+    enabled: open && Boolean(token),
+  });
+
+  useEffect(() => {
+    if (!open) {
+      setDraft(null);
+      return;
+    }
+    if (policyQuery.data && !draft) {
+      const { tiers, destination } = policyQuery.data.policy;
+      setDraft({ tiers, destination });
+    }
+  }, [draft, open, policyQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (rules: RefundPolicyRules | null) =>
+      updateEventRefundPolicy(eventId, rules, token ?? undefined),
+    onSuccess: (response) => {
+      enqueueSnackbar(response.message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["event-refund-policy", eventId] });
+      onClose();
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(
+        error instanceof Error ? error.message : "Unable to update refund policy.",
+        { variant: "error" }
+      );
+    },
+  });
+
+  const validationError = draft ? validateRefundPolicy(draft) : null;
+  const source = policyQuery.data?.policy.source;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={saveMutation.isPending ? undefined : onClose}
+      maxWidth="sm"
+      fullWidth
+    >
+      <DialogTitle>Refund policy for {eventName}</DialogTitle>
+      <DialogContent dividers>
+        {policyQuery.isLoading || (!draft && !policyQuery.isError) ? (
+          <Skeleton variant="rectangular" height={160} sx={{ borderRadius: 2 }} />
+        ) : policyQuery.isError || !draft ? (
+          <Alert severity="error">
+            {policyQuery.error instanceof Error
+              ? policyQuery.error.message
+              : "Unable to load the refund policy."}
+          </Alert>
+        ) : (
+          <Stack spacing={2}>
+            {source ? <Alert severity="info">{SOURCE_LABELS[source]}</Alert> : null}
+            <RefundPolicyEditor
+              value={draft}
+              onChange={setDraft}
+              disabled={saveMutation.isPending}
+            />
+            {validationError ? (
+              <Alert severity="warning">{validationError}</Alert>
+            ) : null}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {source === "Event" ? (
+          <Button
+            color="inherit"
+            onClick={() => saveMutation.mutate(null)}
+            disabled={saveMutation.isPending}
+            sx={{ mr: "auto" }}
+          >
+            Use event type default
+          </Button>
+        ) : null}
+        <Button onClick={onClose} disabled={saveMutation.isPending}>
+          Cancel
+        </Button>
+        <LoadingButton
+          onClick={() => draft && saveMutation.mutate(draft)}
+          loading={saveMutation.isPending}
+          disabled={!draft || Boolean(validationError)}
+        >
+          Save policy
+        </LoadingButton>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default EventRefundPolicyDialog;
@@ -0,0 +1,271 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Alert from "@mui/material/Alert";
+import TextField from "@mui/material/TextField";
+import Switch from "@mui/material/Switch";
+import Checkbox from "@mui/material/Checkbox";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import LoadingButton from "@mui/lab/LoadingButton";
+import { useMutation } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import {
+  TicketTierAudience,
+  type EventSummary,
+  type RegistrationSettingsInput,
+} from "@/lib/types";
+import { updateEventRegistrationSettings } from "@/lib/services/events";
+
+const TIER_HINTS: Record<TicketTierAudience, string> = {
+  [TicketTierAudience.Student]: "Students only",
+  [TicketTierAudience.Staff]: "Staff, TAs and professors",
+  [TicketTierAudience.External]: "Anyone with an account",
+};
+
+interface TierDraft {
+  offered: boolean;
+  price: string;
+  capacity: string;
+  sold: number;
+}
+
+type RegistrationSettingsSource = Pick<
+  EventSummary,
+  "registrationEnabled" | "capacity" | "price" | "ticketTiers" | "registeredCount"
+>;
+
+interface EventRegistrationSettingsDialogProps {
+  open: boolean;
+  eventId: string;
+  eventName: string;
+  settings?: RegistrationSettingsSource;
+  token?: string | null;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+function toTierDrafts(settings?: RegistrationSettingsSource) {
+  return Object.values(TicketTierAudience).reduce(
+    (drafts, audience) => {
+      const tier = settings?.ticketTiers?.find((entry) => entry.audience === audience);
+      drafts[audience] = {
+        offered: Boolean(tier),
+        price: tier ? String(tier.price) : "",
+        capacity: tier?.capacity ? String(tier.capacity) : "",
+        sold: tier?.sold ?? 0,
+      };
+      return drafts;
+    },
+    {} as Record<TicketTierAudience, TierDraft>
+  );
+}
+
+function optionalNumber(value: string) {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
+/** Lets the Events Office open registration on a seminar or conference. */
+export function EventRegistrationSettingsDialog({
+  open,
+  eventId,
+  eventName,
+  settings,
+  token,
+  onClose,
+  onSaved,
+}: EventRegistrationSettingsDialogProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const [enabled, setEnabled] = useState(false);
+  const [capacity, setCapacity] = useState("");
+  const [price, setPrice] = useState("");
+  const [tiers, setTiers] = useState(() => toTierDrafts(settings));
+
+  useEffect(() => {
+    if (!open) return;
+    setEnabled(Boolean(settings?.registrationEnabled));
+    setCapacity(settings?.capacity ? String(settings.capacity) : "");
+    setPrice(settings?.price ? String(settings.price) : "");
+    setTiers(toTierDrafts(settings));
+  }, [open, settings]);
+
+  const offeredTiers = Object.entries(tiers).filter(([, draft]) => draft.offered);
+
+  const validationError = (() => {
+    const capacityValue = optionalNumber(capacity);
+    if (capacityValue !== undefined && (!Number.isInteger(capacityValue) || capacityValue < 1)) {
+      return "Capacity must be a whole number of at least 1.";
+    }
+    const priceValue = optionalNumber(price);
+    if (!offeredTiers.length && priceValue !== undefined && !(priceValue >= 0)) {
+      return "Price cannot be negative.";
+    }
+    for (const [audience, draft] of offeredTiers) {
+      const tierPrice = optionalNumber(draft.price);
+      if (tierPrice === undefined || !(tierPrice >= 0)) {
+        return `Set a price of 0 or more for ${audience} tickets.`;
+      }
+      const tierCapacity = optionalNumber(draft.capacity);
+      if (tierCapacity !== undefined && (!Number.isInteger(tierCapacity) || tierCapacity < 1)) {
+        return `${audience} capacity must be a whole number of at least 1.`;
+      }
+    }
+    return null;
+  })();
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload: RegistrationSettingsInput = {
+        registrationEnabled: enabled,
+        capacity: optionalNumber(capacity),
+        price: offeredTiers.length ? undefined : optionalNumber(price),
+        ticketTiers: offeredTiers.map(([audience, draft]) => ({
+          audience: audience as TicketTierAudience,
+          price: Number(draft.price),
+          capacity: optionalNumber(draft.capacity),
+        })),
+      };
+      return updateEventRegistrationSettings(eventId, payload, token ?? undefined);
+    },
+    onSuccess: (message) => {
+      enqueueSnackbar(message, { variant: "success" });
+      onSaved?.();
+      onClose();
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(
+        error instanceof Error ? error.message : "Unable to update registration settings.",
+        { variant: "error" }
+      );
+    },
+  });
+
+  const updateTier = (audience: TicketTierAudience, patch: Partial<TierDraft>) =>
+    setTiers((current) => ({ ...current, [audience]: { ...current[audience], ...patch } }));
+
+  return (
+    <Dialog
+      open={open}
+      onClose={saveMutation.isPending ? undefined : onClose}
+      maxWidth="sm"
+      fullWidth
+    >
+      <DialogTitle>Registration for {eventName}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2.5}>
+          <FormControlLabel
+            control={
+              <Switch checked={enabled} onChange={(_event, checked) => setEnabled(checked)} />
+            }
+            label={enabled ? "Registration is open" : "Registration is closed"}
+          />
+          {settings?.registeredCount ? (
+            <Alert severity="info">
+              {settings.registeredCount} people are registered. Closing registration keeps
+              them on the list and only stops new sign-ups.
+            </Alert>
+          ) : null}
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+            <TextField
+              label="Capacity"
+              type="number"
+              value={capacity}
+              onChange={(event) => setCapacity(event.target.value)}
+              helperText="Leave empty for unlimited seats"
+              fullWidth
+            />
+            <TextField
+              label="Price"
+              type="number"
+              value={offeredTiers.length ? "" : price}
+              onChange={(event) => setPrice(event.target.value)}
+              disabled={offeredTiers.length > 0}
+              helperText={
+                offeredTiers.length ? "Ticket tiers set the price" : "Leave empty for a free event"
+              }
+              fullWidth
+            />
+          </Stack>
+          <Stack spacing={1.5}>
+            <Typography variant="subtitle2">Ticket tiers</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Offer tiers to charge different prices by audience. A tier&apos;s capacity is
+              counted within the event capacity.
+            </Typography>
+            {Object.values(TicketTierAudience).map((audience) => {
+              const draft = tiers[audience];
+              return (
+                <Stack
+                  key={audience}
+                  direction={{ xs: "column", sm: "row" }}
+                  spacing={1.5}
+                  alignItems={{ xs: "stretch", sm: "center" }}
+                >
+                  <FormControlLabel
+                    sx={{ minWidth: 200 }}
+                    control={
+                      <Checkbox
+                        checked={draft.offered}
+                        // A tier that has sold tickets cannot be withdrawn
+                        disabled={draft.sold > 0}
+                        onChange={(_event, checked) => updateTier(audience, { offered: checked })}
+                      />
+                    }
+                    label={
+                      <Stack>
+                        <Typography variant="body2" fontWeight={600}>
+                          {audience}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {draft.sold > 0 ? `${draft.sold} sold` : TIER_HINTS[audience]}
+                        </Typography>
+                      </Stack>
+                    }
+                  />
+                  <TextField
+                    label="Price"
+                    type="number"
+                    size="small"
+                    value={draft.price}
+                    onChange={(event) => updateTier(audience, { price: event.target.value })}
+                    disabled={!draft.offered}
+                  />
+                  <TextField
+                    label="Capacity"
+                    type="number"
+                    size="small"
+                    value={draft.capacity}
+                    onChange={(event) => updateTier(audience, { capacity: event.target.value })}
+                    disabled={!draft.offered}
+                    placeholder="No limit"
+                  />
+                </Stack>
+              );
+            })}
+          </Stack>
+          {validationError ? <Alert severity="warning">{validationError}</Alert> : null}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saveMutation.isPending}>
+          Cancel
+        </Button>
+        <LoadingButton
+          onClick={() => saveMutation.mutate()}
+          loading={saveMutation.isPending}
+          disabled={Boolean(validationError)}
+        >
+          Save registration
+        </LoadingButton>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default EventRegistrationSettingsDialog;
@@ -0,0 +1,404 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import TextField from "@mui/material/TextField";
+import MenuItem from "@mui/material/MenuItem";
+import Chip from "@mui/material/Chip";
+import Divider from "@mui/material/Divider";
+import ToggleButton from "@mui/material/ToggleButton";
+import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Checkbox from "@mui/material/Checkbox";
+import LoadingButton from "@mui/lab/LoadingButton";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import dayjs, { type Dayjs } from "dayjs";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import {
+  cancelEventSeries,
+  createEventSeries,
+  fetchEventSeries,
+  updateEventSeries,
+  type SeriesFrequency,
+  type SeriesUpdatePayload,
+} from "@/lib/services/eventSeries";
+import { formatCampusDateTime } from "@/lib/campus";
+
+const FREQUENCY_UNITS: Record<SeriesFrequency, string> = {
+  Weekly: "week",
+  Monthly: "month",
+  Yearly: "year",
+};
+
+interface EventSeriesDialogProps {
+  open: boolean;
+  eventId: string;
+  eventName: string;
+  seriesId?: string;
+  location?: string;
+  token?: string | null;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+/**
+ * Repeats an event on a schedule, or edits and cancels the series it
+ * already belongs to. Single occurrences are still edited from their card.
+ */
+export function EventSeriesDialog({
+  open,
+  eventId,
+  eventName,
+  seriesId,
+  location,
+  token,
+  onClose,
+  onChanged,
+}: EventSeriesDialogProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+
+  const [frequency, setFrequency] = useState<SeriesFrequency>("Monthly");
+  const [repeatInterval, setRepeatInterval] = useState("1");
+  const [endMode, setEndMode] = useState<"count" | "until">("count");
+  const [count, setCount] = useState("6");
+  const [until, setUntil] = useState<Dayjs | null>(null);
+  const [asDrafts, setAsDrafts] = useState(false);
+
+  const [scope, setScope] = useState<"all" | "following">("all");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [price, setPrice] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setFrequency("Monthly");
+    setRepeatInterval("1");
+    setEndMode("count");
+    setCount("6");
+    setUntil(dayjs().add(6, "month"));
+    setAsDrafts(false);
+    setScope("all");
+    setName("");
+    setDescription("");
+    setCapacity("");
+    setPrice("");
+  }, [open]);
+
+  const seriesQuery = useQuery({
+    queryKey: ["event-series", seriesId, token],
+    queryFn: () => fetchEventSeries(seriesId!, token ?? undefined),
+    enabled: open && Boolean(seriesId && token),
+  });
+  const series = seriesQuery.data;
+  const upcoming = (series?.occurrences ?? []).filter((occurrence) =>
+    dayjs(occurrence.startDate).isAfter(dayjs())
+  );
+  // "This and following" only makes sense from an occurrence that has not started
+  const fromEventId =
+    scope === "following" && upcoming.some((occurrence) => occurrence.id === eventId)
+      ? eventId
+      : undefined;
+
+  const onChangedSeries = (message: string) => {
+    enqueueSnackbar(message, { variant: "success" });
+    void queryClient.invalidateQueries({ queryKey: ["event-series", seriesId] });
+    onChanged?.();
+  };
+  const onMutationError = (fallback: string) => (error: unknown) => {
+    enqueueSnackbar(error instanceof Error ? error.message : fallback, { variant: "error" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createEventSeries(
+        eventId,
+        {
+          frequency,
+          interval: Number(repeatInterval),
+          ...(endMode === "count"
+            ? { count: Number(count) }
+            : { until: until?.endOf("day").toISOString() }),
+          draft: asDrafts,
+        },
+        token ?? undefined
+      ),
+    onSuccess: ({ message }) => {
+      onChangedSeries(message);
+      onClose();
+    },
+    onError: onMutationError("Unable to create the series."),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: () => {
+      const payload: SeriesUpdatePayload = {
+        ...(name.trim() ? { name: name.trim() } : {}),
+        ...(description.trim() ? { description: description.trim() } : {}),
+        ...(capacity.trim() ? { capacity: Number(capacity) } : {}),
+        ...(price.trim() ? { price: Number(price) } : {}),
+      };
+      return updateEventSeries(seriesId!, payload, token ?? undefined, fromEventId);
+    },
+    onSuccess: (message) => {
+      onChangedSeries(message);
+      setName("");
+      setDescription("");
+      setCapacity("");
+      setPrice("");
+    },
+    onError: onMutationError("Unable to update the series."),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelEventSeries(seriesId!, token ?? undefined, fromEventId),
+    onSuccess: ({ message, kept }) => {
+      onChangedSeries(message);
+      if (kept.length) {
+        enqueueSnackbar(
+          `Kept: ${kept
+            .map((occurrence) => `${dayjs(occurrence.startDate).format("MMM D")} (${occurrence.reason})`)
+            .join(", ")}`,
+          { variant: "info" }
+        );
+      }
+    },
+    onError: onMutationError("Unable to cancel the series."),
+  });
+
+  const handleCancelSeries = () => {
+    const target = fromEventId ? "this and every following occurrence" : "every upcoming occurrence";
+    if (window.confirm(`Cancel ${target} of ${series?.name ?? eventName}?`)) {
+      cancelMutation.mutate();
+    }
+  };
+
+  const ruleError = (() => {
+    const parsedInterval = Number(repeatInterval);
+    if (!Number.isInteger(parsedInterval) || parsedInterval < 1 || parsedInterval > 12) {
+      return "Repeat every 1 to 12 periods.";
+    }
+    if (endMode === "count") {
+      const parsedCount = Number(count);
+      if (!Number.isInteger(parsedCount) || parsedCount < 2 || parsedCount > 52) {
+        return "A series has between 2 and 52 occurrences.";
+      }
+    } else if (!until || !until.isAfter(dayjs())) {
+      return "Pick a future end date.";
+    }
+    return null;
+  })();
+
+  const hasUpdates = Boolean(
+    name.trim() || description.trim() || capacity.trim() || price.trim()
+  );
+  const busy =
+    createMutation.isPending || updateMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{seriesId ? `Series: ${series?.name ?? eventName}` : `Repeat ${eventName}`}</DialogTitle>
+      <DialogContent dividers>
+        {!seriesId ? (
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              Each occurrence is a separate event with its own registrations. Occurrences
+              keep this event&apos;s times of day and details.
+            </Typography>
+            <Stack direction="row" spacing={2}>
+              <TextField
+                label="Repeat every"
+                type="number"
+                value={repeatInterval}
+                onChange={(event) => setRepeatInterval(event.target.value)}
+                sx={{ width: 140 }}
+              />
+              <TextField
+                select
+                label="Period"
+                value={frequency}
+                onChange={(event) => setFrequency(event.target.value as SeriesFrequency)}
+                fullWidth
+              >
+                {(Object.keys(FREQUENCY_UNITS) as SeriesFrequency[]).map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {FREQUENCY_UNITS[option]}
+                    {Number(repeatInterval) > 1 ? "s" : ""}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Stack>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={endMode}
+              onChange={(_event, value) => value && setEndMode(value)}
+            >
+              <ToggleButton value="count">After a number of occurrences</ToggleButton>
+              <ToggleButton value="until">On a date</ToggleButton>
+            </ToggleButtonGroup>
+            {endMode === "count" ? (
+              <TextField
+                label="Occurrences (including this one)"
+                type="number"
+                value={count}
+                onChange={(event) => setCount(event.target.value)}
+                fullWidth
+              />
+            ) : (
+              <DatePicker
+                label="Last occurrence on or before"
+                value={until}
+                onChange={(value) => setUntil(value)}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            )}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={asDrafts}
+                  onChange={(event) => setAsDrafts(event.target.checked)}
+                />
+              }
+              label="Save new occurrences as drafts"
+            />
+            {ruleError ? <Alert severity="warning">{ruleError}</Alert> : null}
+          </Stack>
+        ) : seriesQuery.isLoading ? (
+          <Skeleton variant="rounded" height={160} />
+        ) : seriesQuery.isError || !series ? (
+          <Alert severity="error">
+            {seriesQuery.error instanceof Error
+              ? seriesQuery.error.message
+              : "Unable to load the series."}
+          </Alert>
+        ) : (
+          <Stack spacing={2.5}>
+            <Stack spacing={1}>
+              <Typography variant="subtitle2">
+                Every {series.interval > 1 ? `${series.interval} ` : ""}
+                {FREQUENCY_UNITS[series.frequency]}
+                {series.interval > 1 ? "s" : ""}
+                {series.cancelledAt ? " · cancelled" : ""}
+              </Typography>
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {series.occurrences.map((occurrence) => (
+                  <Chip
+                    key={occurrence.id}
+                    size="small"
+                    color={occurrence.id === eventId ? "primary" : "default"}
+                    variant={dayjs(occurrence.startDate).isAfter(dayjs()) ? "filled" : "outlined"}
+                    label={`${formatCampusDateTime(occurrence.startDate, location, "MMM D, YYYY")}${
+                      occurrence.registeredCount ? ` · ${occurrence.registeredCount} registered` : ""
+                    }`}
+                  />
+                ))}
+              </Stack>
+            </Stack>
+
+            {upcoming.length && !series.cancelledAt ? (
+              <>
+                <Divider />
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={scope}
+                  onChange={(_event, value) => value && setScope(value)}
+                >
+                  <ToggleButton value="all">All upcoming ({upcoming.length})</ToggleButton>
+                  <ToggleButton
+                    value="following"
+                    disabled={!upcoming.some((occurrence) => occurrence.id === eventId)}
+                  >
+                    This and following
+                  </ToggleButton>
+                </ToggleButtonGroup>
+                <Typography variant="body2" color="text.secondary">
+                  Fill in only what should change. To change one occurrence, edit it from its
+                  own card.
+                </Typography>
+                <TextField
+                  label="Name"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  fullWidth
+                />
+                <TextField
+                  label="Description"
+                  value={description}
+                  onChange={(event) => setDescription(event.target.value)}
+                  multiline
+                  minRows={2}
+                  fullWidth
+                />
+                <Stack direction="row" spacing={2}>
+                  <TextField
+                    label="Capacity"
+                    type="number"
+                    value={capacity}
+                    onChange={(event) => setCapacity(event.target.value)}
+                    fullWidth
+                  />
+                  <TextField
+                    label="Price"
+                    type="number"
+                    value={price}
+                    onChange={(event) => setPrice(event.target.value)}
+                    fullWidth
+                  />
+                </Stack>
+              </>
+            ) : (
+              <Alert severity="info">This series has no upcoming occurrences left.</Alert>
+            )}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {seriesId && series && upcoming.length && !series.cancelledAt ? (
+          <LoadingButton
+            color="error"
+            onClick={handleCancelSeries}
+            loading={cancelMutation.isPending}
+            disabled={busy}
+            sx={{ mr: "auto" }}
+          >
+            Cancel {fromEventId ? "following" : "series"}
+          </LoadingButton>
+        ) : null}
+        <Button onClick={onClose} disabled={busy}>
+          Close
+        </Button>
+        {seriesId ? (
+          <LoadingButton
+            onClick={() => updateMutation.mutate()}
+            loading={updateMutation.isPending}
+            disabled={busy || !hasUpdates || !upcoming.length}
+          >
+            Apply to {fromEventId ? "following" : "all upcoming"}
+          </LoadingButton>
+        ) : (
+          <LoadingButton
+            onClick={() => createMutation.mutate()}
+            loading={createMutation.isPending}
+            disabled={busy || Boolean(ruleError)}
+          >
+            Create series
+          </LoadingButton>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default EventSeriesDialog;
@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Chip from "@mui/material/Chip";
+import Alert from "@mui/material/Alert";
+import Divider from "@mui/material/Divider";
+import Skeleton from "@mui/material/Skeleton";
+import TextField from "@mui/material/TextField";
+import Checkbox from "@mui/material/Checkbox";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import AccountBalanceIcon from "@mui/icons-material/AccountBalanceWalletRounded";
+import CreditCardIcon from "@mui/icons-material/CreditCardRounded";
+import ArrowBackIcon from "@mui/icons-material/ArrowBackRounded";
+import CancelIcon from "@mui/icons-material/CancelRounded";
+import PersonAddIcon from "@mui/icons-material/PersonAddAlt1Rounded";
+import { Elements } from "@stripe/react-stripe-js";
+import { useMutation } from "@tanstack/react-query";
+import { stripePromise } from "@/lib/stripe";
+import { StripePaymentForm } from "@/components/events/StripePaymentForm";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import type { EventSummary } from "@/lib/types";
+import { campusCurrency, formatMoney, walletCurrency } from "@/lib/campus";
+import {
+  bookGroupWithWallet,
+  createGroupBookingPaymentIntent,
+  finalizeGroupBookingPayment,
+  type GroupBookingPayload,
+} from "@/lib/services/groupBookings";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface GroupBookingDialogProps {
+  open: boolean;
+  event: EventSummary | null;
+  organizerRegistered?: boolean;
+  onClose: () => void;
+  onBooked: (message: string) => void;
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  if (error && typeof error === "object" && "message" in error) {
+    const message = (error as { message?: unknown }).message;
+    if (typeof message === "string" && message) return message;
+  }
+  return fallback;
+}
+
+export function GroupBookingDialog({
+  open,
+  event,
+  organizerRegistered = false,
+  onClose,
+  onBooked,
+}: GroupBookingDialogProps) {
+  const token = useAuthToken();
+  const [emailInput, setEmailInput] = useState("");
+  const [emails, setEmails] = useState<string[]>([]);
+  const [includeSelf, setIncludeSelf] = useState(!organizerRegistered);
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const seatCount = emails.length + (includeSelf ? 1 : 0);
+  const seatPrice = Math.max(event?.price ?? 0, 0);
+  const total = seatPrice * seatCount;
+  const currency = campusCurrency(event?.location);
+  const totalLabel = total > 0 ? formatMoney(total, currency) : "Free";
+  // The wallet is held in the home campus currency
+  const walletAvailable = total <= 0 || currency === walletCurrency();
+  const cardAvailable = Boolean(stripePromise) && total > 0;
+
+  useEffect(() => {
+    if (!open) {
+      setEmailInput("");
+      setEmails([]);
+      setClientSecret(null);
+      setError(null);
+    }
+    setIncludeSelf(!organizerRegistered);
+  }, [open, organizerRegistered]);
+
+  const payload = (): GroupBookingPayload => ({ emails, includeSelf });
+
+  const walletMutation = useMutation({
+    mutationFn: () => bookGroupWithWallet(event?.id ?? "", payload(), token ?? undefined),
+    onSuccess: ({ message }) => onBooked(message),
+    onError: (mutationError) =>
+      setError(errorMessage(mutationError, "Unable to book the group.")),
+  });
+
+  const intentMutation = useMutation({
+    mutationFn: () =>
+      createGroupBookingPaymentIntent(event?.id ?? "", payload(), token ?? undefined),
+    onSuccess: (intent) => setClientSecret(intent.clientSecret),
+    onError: (mutationError) =>
+      setError(errorMessage(mutationError, "Unable to start card payment.")),
+  });
+
+  const finalizeMutation = useMutation({
+    mutationFn: (paymentIntentId: string) =>
+      finalizeGroupBookingPayment(paymentIntentId, token ?? undefined),
+    onSuccess: ({ message }) => onBooked(message),
+    onError: (mutationError) =>
+      setError(errorMessage(mutationError, "Unable to confirm card payment.")),
+  });
+
+  const busy =
+    walletMutation.isPending || intentMutation.isPending || finalizeMutation.isPending;
+
+  const addEmails = () => {
+    const candidates = emailInput
+      .split(/[\s,;]+/)
+      .map((value) => value.trim().toLowerCase())
+      .filter(Boolean);
+    const invalid = candidates.find((value) => !EMAIL_PATTERN.test(value));
+    if (invalid) {
+      setError(`"${invalid}" is not a valid email address.`);
+      return;
+    }
+    setError(null);
+    setEmails((current) => Array.from(new Set([...current, ...candidates])));
+    setEmailInput("");
+  };
+
+  const renderDetails = () => (
+    <Stack spacing={2.5}>
+      <Stack spacing={0.5}>
+        <Typography variant="subtitle2" color="text.secondary">
+          Event
+        </Typography>
+        <Typography variant="h6" fontWeight={700}>
+          {event?.name ?? "Select an event"}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          You pay for every seat now. Each guest gets an invitation and receives their
+          own ticket once they confirm; declined seats are refunded to you.
+        </Typography>
+      </Stack>
+      <Stack direction="row" spacing={1} alignItems="flex-start">
+        <TextField
+          label="Guest emails"
+          size="small"
+          value={emailInput}
+          onChange={(inputEvent) => setEmailInput(inputEvent.target.value)}
+          onKeyDown={(keyEvent) => {
+            if (keyEvent.key === "Enter") {
+              keyEvent.preventDefault();
+              addEmails();
+            }
+          }}
+          helperText="Separate several addresses with commas"
+          disabled={busy}
+          fullWidth
+        />
+        <Button
+          variant="outlined"
+          startIcon={<PersonAddIcon />}
+          onClick={addEmails}
+          disabled={!emailInput.trim() || busy}
+        >
+          Add
+        </Button>
+      </Stack>
+      {emails.length > 0 ? (
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          {emails.map((email) => (
+            <Chip
+              key={email}
+              label={email}
+              onDelete={
+                busy
+                  ? undefined
+                  : () => setEmails((current) => current.filter((value) => value !== email))
+              }
+            />
+          ))}
+        </Stack>
+      ) : null}
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={includeSelf}
+            onChange={(_changeEvent, checked) => setIncludeSelf(checked)}
+            disabled={organizerRegistered || busy}
+          />
+        }
+        label={
+          organizerRegistered
+            ? "You already have a seat"
+            : "Include a seat for me"
+        }
+      />
+      <Divider />
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="body2" color="text.secondary">
+          {seatCount} seat{seatCount === 1 ? "" : "s"}
+          {seatPrice > 0 ? ` × ${formatMoney(seatPrice, currency)}` : ""}
+        </Typography>
+        <Typography variant="h6" fontWeight={700}>
+          {totalLabel}
+        </Typography>
+      </Stack>
+      {!walletAvailable ? (
+        <Alert severity="info">
+          {event?.location} events are charged in {currency}, so they can only be paid by card.
+        </Alert>
+      ) : null}
+      {error ? <Alert severity="error">{error}</Alert> : null}
+    </Stack>
+  );
+
+  const renderCardStep = () => (
+    <Stack spacing={2.5}>
+      <Typography variant="body2" color="text.secondary">
+        {totalLabel} for {seatCount} seats will be charged once the payment succeeds.
+      </Typography>
+      {error ? <Alert severity="error">{error}</Alert> : null}
+      {!stripePromise ? (
+        <Alert severity="warning">Stripe is not configured. Please use wallet payments.</Alert>
+      ) : !clientSecret ? (
+        <Skeleton variant="rectangular" height={120} sx={{ borderRadius: 2 }} />
+      ) : (
+        <Elements key={clientSecret} stripe={stripePromise} options={{ clientSecret }}>
+          <StripePaymentForm
+            amountLabel={totalLabel}
+            disabled={busy}
+            finalizing={finalizeMutation.isPending}
+            onSuccess={(paymentIntentId) => finalizeMutation.mutate(paymentIntentId)}
+            onError={setError}
+          />
+        </Elements>
+      )}
+    </Stack>
+  );
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{clientSecret ? "Secure card payment" : "Book for a group"}</DialogTitle>
+      <DialogContent dividers>
+        {clientSecret ? renderCardStep() : renderDetails()}
+      </DialogContent>
+      <DialogActions>
+        {clientSecret ? (
+          <Button
+            onClick={() => {
+              setClientSecret(null);
+              setError(null);
+            }}
+            startIcon={<ArrowBackIcon />}
+            disabled={busy}
+          >
+            Back
+          </Button>
+        ) : (
+          <>
+            <Button
+              startIcon={<CreditCardIcon />}
+              onClick={() => intentMutation.mutate()}
+              disabled={!cardAvailable || emails.length === 0 || busy}
+            >
+              {intentMutation.isPending ? "Preparing..." : "Pay with card"}
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<AccountBalanceIcon />}
+              onClick={() => walletMutation.mutate()}
+              disabled={!walletAvailable || emails.length === 0 || busy}
+            >
+              {walletMutation.isPending
+                ? "Booking..."
+                : total > 0
+                  ? "Pay with wallet"
+                  : "Book seats"}
+            </Button>
+          </>
+        )}
+        <Button onClick={onClose} disabled={busy} startIcon={<CancelIcon />}>
+          Cancel
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default GroupBookingDialog;
@@ -0,0 +1,268 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Alert from "@mui/material/Alert";
+import Button from "@mui/material/Button";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import Chip from "@mui/material/Chip";
+import Divider from "@mui/material/Divider";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import TicketIcon from "@mui/icons-material/ConfirmationNumberRounded";
+import RemoveIcon from "@mui/icons-material/PersonRemoveRounded";
+import { formatCampusDateTime, formatMoney } from "@/lib/campus";
+import {
+  cancelGroupSeat,
+  downloadGroupSeatTicketFile,
+  fetchGroupInvitations,
+  fetchMyGroupBookings,
+  respondToGroupInvitation,
+  type GroupInvitation,
+  type GroupSeat,
+  type GroupSeatStatus,
+} from "@/lib/services/groupBookings";
+
+const SEAT_STATUS_COLOR: Record<GroupSeatStatus, "default" | "success" | "warning"> = {
+  Pending: "warning",
+  Confirmed: "success",
+  Declined: "default",
+  Cancelled: "default",
+  Expired: "default",
+};
+
+const cardSx = {
+  borderRadius: 3,
+  boxShadow: "0 14px 40px rgba(15,23,42,0.08)",
+};
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/** Seats other people booked for the signed-in user, waiting for an answer. */
+export function GroupInvitationsSection({ token }: { token?: string }) {
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["group-invitations", token],
+    queryFn: () => fetchGroupInvitations(token),
+    enabled: Boolean(token),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ invitation, accept }: { invitation: GroupInvitation; accept: boolean }) =>
+      respondToGroupInvitation(invitation, accept, token),
+    onSuccess: (message) => {
+      enqueueSnackbar(message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["group-invitations", token] });
+      queryClient.invalidateQueries({ queryKey: ["registered-events"] });
+    },
+    onError: (error) =>
+      enqueueSnackbar(errorMessage(error, "Unable to answer the invitation."), {
+        variant: "error",
+      }),
+  });
+
+  const invitations = query.data ?? [];
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack spacing={1.5}>
+      <Typography variant="h6" fontWeight={700}>
+        Seats booked for you
+      </Typography>
+      {invitations.map((invitation) => (
+        <Alert
+          key={invitation.seatId}
+          severity="info"
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button
+                color="inherit"
+                size="small"
+                disabled={respondMutation.isPending}
+                onClick={() => respondMutation.mutate({ invitation, accept: false })}
+              >
+                Decline
+              </Button>
+              <Button
+                variant="contained"
+                size="small"
+                disabled={respondMutation.isPending}
+                onClick={() => respondMutation.mutate({ invitation, accept: true })}
+              >
+                Confirm
+              </Button>
+            </Stack>
+          }
+        >
+          <strong>{invitation.organizerName || "Someone"}</strong> booked you a seat at{" "}
+          <strong>{invitation.eventName}</strong>
+          {invitation.startDate
+            ? `, ${formatCampusDateTime(invitation.startDate, invitation.location)}`
+            : ""}
+          .
+          {invitation.expiresAt
+            ? ` Answer before ${formatCampusDateTime(invitation.expiresAt, invitation.location)}.`
+            : ""}
+        </Alert>
+      ))}
+    </Stack>
+  );
+}
+
+/** Group bookings the signed-in user paid for, with one row per seat. */
+export function GroupBookingsSection({ token }: { token?: string }) {
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["group-bookings", token],
+    queryFn: () => fetchMyGroupBookings(token),
+    enabled: Boolean(token),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: ({ bookingId, seatId }: { bookingId: string; seatId: string }) =>
+      cancelGroupSeat(bookingId, seatId, token),
+    onSuccess: (message) => {
+      enqueueSnackbar(message, { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["group-bookings", token] });
+      queryClient.invalidateQueries({ queryKey: ["wallet-summary", token] });
+      queryClient.invalidateQueries({ queryKey: ["registered-events"] });
+    },
+    onError: (error) =>
+      enqueueSnackbar(errorMessage(error, "Unable to cancel the seat."), {
+        variant: "error",
+      }),
+  });
+
+  const handleDownloadTicket = async (bookingId: string, seat: GroupSeat) => {
+    try {
+      const { blob, filename } = await downloadGroupSeatTicketFile(bookingId, seat.id, token);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename ?? "ticket.png";
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      enqueueSnackbar(errorMessage(error, "Failed to download the ticket."), {
+        variant: "error",
+      });
+    }
+  };
+
+  const bookings = query.data ?? [];
+  if (bookings.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack spacing={1.5}>
+      <Typography variant="h6" fontWeight={700}>
+        My group bookings
+      </Typography>
+      {bookings.map((booking) => (
+        <Card key={booking.id} sx={cardSx}>
+          <CardContent sx={{ p: { xs: 2.5, md: 3 } }}>
+            <Stack
+              direction={{ xs: "column", md: "row" }}
+              justifyContent="space-between"
+              spacing={1}
+            >
+              <Stack spacing={0.5}>
+                <Typography variant="subtitle1" fontWeight={700}>
+                  {booking.eventName}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {booking.startDate
+                    ? formatCampusDateTime(booking.startDate, booking.location)
+                    : "Date to be announced"}
+                  {" · "}Receipt {booking.receiptNumber}
+                </Typography>
+              </Stack>
+              <Typography variant="subtitle1" fontWeight={700}>
+                {booking.totalAmount > 0
+                  ? formatMoney(booking.totalAmount, booking.currency)
+                  : "Free"}
+              </Typography>
+            </Stack>
+            <Divider sx={{ my: 2 }} />
+            <Stack spacing={1}>
+              {booking.seats.map((seat) => (
+                <Stack
+                  key={seat.id}
+                  direction="row"
+                  spacing={1.5}
+                  alignItems="center"
+                  justifyContent="space-between"
+                >
+                  <Stack spacing={0.25} minWidth={0}>
+                    <Typography variant="body2" fontWeight={600} noWrap>
+                      {seat.isOrganizer ? "You" : (seat.attendeeName ?? seat.email)}
+                    </Typography>
+                    {!seat.isOrganizer && seat.attendeeName ? (
+                      <Typography variant="caption" color="text.secondary" noWrap>
+                        {seat.email}
+                      </Typography>
+                    ) : null}
+                  </Stack>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    {seat.refundAmount ? (
+                      <Typography variant="caption" color="text.secondary">
+                        Refunded {formatMoney(seat.refundAmount, booking.currency)}
+                      </Typography>
+                    ) : null}
+                    <Chip
+                      size="small"
+                      label={seat.status}
+                      color={SEAT_STATUS_COLOR[seat.status]}
+                    />
+                    <Tooltip title="Download ticket">
+                      <span>
+                        <IconButton
+                          size="small"
+                          disabled={!seat.hasTicket}
+                          onClick={() => handleDownloadTicket(booking.id, seat)}
+                        >
+                          <TicketIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Cancel seat">
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          disabled={
+                            cancelMutation.isPending ||
+                            (seat.status !== "Pending" && seat.status !== "Confirmed")
+                          }
+                          onClick={() =>
+                            cancelMutation.mutate({ bookingId: booking.id, seatId: seat.id })
+                          }
+                        >
+                          <RemoveIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Stack>
+                </Stack>
+              ))}
+            </Stack>
+          </CardContent>
+        </Card>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import Chip from "@mui/material/Chip";
+import { formatCampusDateTime } from "@/lib/campus";
+import { PublicationStatus, type EventSummary } from "@/lib/types";
+
+interface PublicationStatusChipProps {
+  event: Pick<EventSummary, "publicationStatus" | "publishAt" | "location">;
+}
+
+/** Marks events attendees cannot see yet; published events get no chip. */
+export function PublicationStatusChip({ event }: PublicationStatusChipProps) {
+  switch (event.publicationStatus) {
+    case PublicationStatus.Draft:
+      return <Chip label="Draft" size="small" variant="outlined" />;
+    case PublicationStatus.Scheduled:
+      return (
+        <Chip
+          label={
+            event.publishAt
+              ? `Goes live ${formatCampusDateTime(event.publishAt, event.location, "MMM D, h:mm A")}`
+              : "Scheduled"
+          }
+          size="small"
+          color="info"
+          variant="outlined"
+        />
+      );
+    case PublicationStatus.Unpublished:
+      return <Chip label="Unpublished" size="small" color="warning" variant="outlined" />;
+    default:
+      return null;
+  }
+}
+
+export default PublicationStatusChip;
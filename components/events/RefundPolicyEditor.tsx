@@ -0,0 +1,168 @@
+"use client";
+
+import Stack from "@mui/material/Stack";
+import TextField from "@mui/material/TextField";
+import MenuItem from "@mui/material/MenuItem";
+import IconButton from "@mui/material/IconButton";
+import Button from "@mui/material/Button";
+import Tooltip from "@mui/material/Tooltip";
+import InputAdornment from "@mui/material/InputAdornment";
+import AddIcon from "@mui/icons-material/AddRounded";
+import DeleteIcon from "@mui/icons-material/DeleteOutlineRounded";
+import type { RefundDestination, RefundPolicyRules } from "@/lib/types";
+import { formatRefundWindow } from "@/components/events/RefundPolicySummary";
+
+const MAX_TIERS = 10;
+
+interface RefundPolicyEditorProps {
+  value: RefundPolicyRules;
+  onChange: (value: RefundPolicyRules) => void;
+  disabled?: boolean;
+}
+
+/** Returns a message describing the first problem with the tiers, if any. */
+export function validateRefundPolicy(value: RefundPolicyRules): string | null {
+  if (value.tiers.length === 0) {
+    return "Add at least one tier.";
+  }
+  const hours = new Set<number>();
+  for (const tier of value.tiers) {
+    if (!Number.isFinite(tier.hoursBeforeStart) || tier.hoursBeforeStart < 0) {
+      return "Hours before start must be zero or more.";
+    }
+    if (
+      !Number.isFinite(tier.percentage) ||
+      tier.percentage < 0 ||
+      tier.percentage > 100
+    ) {
+      return "Refund percentages must be between 0 and 100.";
+    }
+    if (hours.has(tier.hoursBeforeStart)) {
+      return "Each tier needs a different cut-off.";
+    }
+    hours.add(tier.hoursBeforeStart);
+  }
+  return null;
+}
+
+export function RefundPolicyEditor({
+  value,
+  onChange,
+  disabled = false,
+}: RefundPolicyEditorProps) {
+  const updateTier = (
+    index: number,
+    field: "hoursBeforeStart" | "percentage",
+    raw: string
+  ) => {
+    const tiers = value.tiers.map((tier, position) =>
+      position === index ? { ...tier, [field]: raw === "" ? NaN : Number(raw) } : tier
+    );
+    onChange({ ...value, tiers });
+  };
+
+  const addTier = () => {
+    const smallest = value.tiers.reduce(
+      (min, tier) => Math.min(min, tier.hoursBeforeStart),
+      Infinity
+    );
+    const hoursBeforeStart = Number.isFinite(smallest)
+      ? Math.max(Math.floor(smallest / 2), 0)
+      : 24 * 7;
+    onChange({
+      ...value,
+      tiers: [...value.tiers, { hoursBeforeStart, percentage: 0 }],
+    });
+  };
+
+  const removeTier = (index: number) => {
+    onChange({
+      ...value,
+      tiers: value.tiers.filter((_, position) => position !== index),
+    });
+  };
+
+  return (
+    <Stack spacing={2}>
+      {value.tiers.map((tier, index) => (
+        <Stack key={index} direction="row" spacing={1.5} alignItems="flex-start">
+          <TextField
+            label="Cancel at least"
+            type="number"
+            value={Number.isNaN(tier.hoursBeforeStart) ? "" : tier.hoursBeforeStart}
+            onChange={(event) =>
+              updateTier(index, "hoursBeforeStart", event.target.value)
+            }
+            helperText={
+              Number.isFinite(tier.hoursBeforeStart)
+                ? `${formatRefundWindow(tier.hoursBeforeStart)} before`
+                : " "
+            }
+            slotProps={{
+              input: {
+                endAdornment: <InputAdornment position="end">hours</InputAdornment>,
+              },
+              htmlInput: { min: 0, step: 1 },
+            }}
+            disabled={disabled}
+            fullWidth
+          />
+          <TextField
+            label="Refund"
+            type="number"
+            value={Number.isNaN(tier.percentage) ? "" : tier.percentage}
+            onChange={(event) => updateTier(index, "percentage", event.target.value)}
+            helperText=" "
+            slotProps={{
+              input: {
+                endAdornment: <InputAdornment position="end">%</InputAdornment>,
+              },
+              htmlInput: { min: 0, max: 100, step: 5 },
+            }}
+            disabled={disabled}
+            sx={{ maxWidth: 140 }}
+          />
+          <Tooltip title="Remove tier">
+            <span>
+              <IconButton
+                onClick={() => removeTier(index)}
+                disabled={disabled || value.tiers.length === 1}
+                sx={{ mt: 1 }}
+              >
+                <DeleteIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+      ))}
+      <Button
+        startIcon={<AddIcon />}
+        onClick={addTier}
+        disabled={disabled || value.tiers.length >= MAX_TIERS}
+        sx={{ alignSelf: "flex-start" }}
+      >
+        Add tier
+      </Button>
+      <TextField
+        select
+        label="Refund to"
+        value={value.destination}
+        onChange={(event) =>
+          onChange({
+            ...value,
+            destination: event.target.value as RefundDestination,
+          })
+        }
+        disabled={disabled}
+        fullWidth
+      >
+        <MenuItem value="Wallet">Wallet</MenuItem>
+        <MenuItem value="OriginalPayment">
+          Original payment method (card refunds through Stripe)
+        </MenuItem>
+      </TextField>
+    </Stack>
+  );
+}
+
+export default RefundPolicyEditor;
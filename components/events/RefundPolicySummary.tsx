@@ -0,0 +1,99 @@
+"use client";
+
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import List from "@mui/material/List";
+import ListItem from "@mui/material/ListItem";
+import ListItemIcon from "@mui/material/ListItemIcon";
+import ListItemText from "@mui/material/ListItemText";
+import PolicyIcon from "@mui/icons-material/PolicyRounded";
+import CheckIcon from "@mui/icons-material/CheckCircleOutlineRounded";
+import BlockIcon from "@mui/icons-material/DoNotDisturbOnRounded";
+import type { RefundPolicyRules } from "@/lib/types";
+import { formatDateTime } from "@/lib/date";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function formatRefundWindow(hours: number): string {
+  if (hours === 0) return "the start";
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days === 1 ? "" : "s"}`;
+  }
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+export function describeRefundDestination(
+  destination: RefundPolicyRules["destination"]
+): string {
+  return destination === "OriginalPayment"
+    ? "Card payments are refunded to your card; wallet payments go back to your wallet."
+    : "Refunds are credited to your wallet.";
+}
+
+interface RefundPolicySummaryProps {
+  policy: RefundPolicyRules;
+  startDate?: string;
+  title?: string;
+}
+
+export function RefundPolicySummary({
+  policy,
+  startDate,
+  title = "Refund policy",
+}: RefundPolicySummaryProps) {
+  const tiers = [...policy.tiers].sort(
+    (a, b) => b.hoursBeforeStart - a.hoursBeforeStart
+  );
+  const lastTier = tiers[tiers.length - 1];
+  const startTime = startDate ? new Date(startDate).getTime() : undefined;
+
+  const deadline = (hours: number) =>
+    startTime !== undefined
+      ? ` (until ${formatDateTime(new Date(startTime - hours * HOUR_MS))})`
+      : "";
+
+  return (
+    <Stack spacing={0.5}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <PolicyIcon fontSize="small" color="action" />
+        <Typography variant="subtitle2">{title}</Typography>
+      </Stack>
+      <List dense disablePadding>
+        {tiers.map((tier) => (
+          <ListItem key={tier.hoursBeforeStart} disableGutters>
+            <ListItemIcon sx={{ minWidth: 32 }}>
+              {tier.percentage > 0 ? (
+                <CheckIcon fontSize="small" color="success" />
+              ) : (
+                <BlockIcon fontSize="small" color="disabled" />
+              )}
+            </ListItemIcon>
+            <ListItemText
+              primary={
+                tier.hoursBeforeStart === 0
+                  ? `${tier.percentage}% refund if you cancel before the start${deadline(0)}`
+                  : `${tier.percentage}% refund if you cancel at least ${formatRefundWindow(tier.hoursBeforeStart)} before the start${deadline(tier.hoursBeforeStart)}`
+              }
+            />
+          </ListItem>
+        ))}
+        {lastTier && lastTier.hoursBeforeStart > 0 ? (
+          <ListItem disableGutters>
+            <ListItemIcon sx={{ minWidth: 32 }}>
+              <BlockIcon fontSize="small" color="disabled" />
+            </ListItemIcon>
+            <ListItemText
+              primary={`No cancellations within ${formatRefundWindow(lastTier.hoursBeforeStart)} of the start`}
+            />
+          </ListItem>
+        ) : null}
+      </List>
+      <Typography variant="caption" color="text.secondary">
+        {describeRefundDestination(policy.destination)}
+      </Typography>
+    </Stack>
+  );
+}
+
+export default RefundPolicySummary;
@@ -0,0 +1,158 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import Paper from "@mui/material/Paper";
+import Box from "@mui/material/Box";
+import PrevIcon from "@mui/icons-material/ChevronLeftRounded";
+import NextIcon from "@mui/icons-material/ChevronRightRounded";
+import dayjs from "dayjs";
+import { campusTimeZone, formatCampusDateTime } from "@/lib/campus";
+import { fetchVenueCalendar, type Venue, type VenueBooking } from "@/lib/services/venues";
+
+interface VenueCalendarProps {
+  venue: Venue;
+  token?: string | null;
+}
+
+/** One week of bookings in a room, by day in the room's campus time zone. */
+export function VenueCalendar({ venue, token }: VenueCalendarProps) {
+  const timeZone = campusTimeZone(venue.campus);
+  const [weekOffset, setWeekOffset] = useState(0);
+
+  const weekStart = useMemo(
+    () => dayjs().tz(timeZone).startOf("week").add(weekOffset, "week"),
+    [timeZone, weekOffset]
+  );
+  const from = weekStart.toISOString();
+  const to = weekStart.add(1, "week").toISOString();
+
+  const calendarQuery = useQuery({
+    queryKey: ["venues", venue.id, "calendar", from, token ?? "public"],
+    queryFn: () => fetchVenueCalendar(venue.id, { from, to }, token ?? undefined),
+    enabled: Boolean(token),
+  });
+
+  const bookings = calendarQuery.data?.bookings ?? [];
+  const clashCount = bookings.filter((booking) => booking.clashesWith.length).length;
+  const days = Array.from({ length: 7 }, (_, index) => weekStart.add(index, "day"));
+
+  const bookingsOn = (day: dayjs.Dayjs) =>
+    bookings.filter(
+      (booking) =>
+        dayjs(booking.startDate).isBefore(day.add(1, "day")) &&
+        dayjs(booking.endDate).isAfter(day)
+    );
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Tooltip title="Previous week">
+            <IconButton size="small" onClick={() => setWeekOffset((prev) => prev - 1)}>
+              <PrevIcon />
+            </IconButton>
+          </Tooltip>
+          <Typography variant="subtitle1" fontWeight={600}>
+            {weekStart.format("MMM D")} – {weekStart.add(6, "day").format("MMM D, YYYY")}
+          </Typography>
+          <Tooltip title="Next week">
+            <IconButton size="small" onClick={() => setWeekOffset((prev) => prev + 1)}>
+              <NextIcon />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+        {weekOffset !== 0 ? (
+          <Button size="small" onClick={() => setWeekOffset(0)}>
+            This week
+          </Button>
+        ) : null}
+      </Stack>
+
+      {calendarQuery.isError ? (
+        <Alert severity="error">
+          {calendarQuery.error instanceof Error
+            ? calendarQuery.error.message
+            : "We couldn't load this room's bookings."}
+        </Alert>
+      ) : null}
+      {clashCount ? (
+        <Alert severity="warning">
+          {clashCount} booking{clashCount === 1 ? "" : "s"} this week overlap another event in{" "}
+          {venue.name}.
+        </Alert>
+      ) : null}
+
+      {calendarQuery.isLoading ? (
+        <Skeleton variant="rectangular" height={220} sx={{ borderRadius: 3 }} />
+      ) : (
+        <Box
+          sx={{
+            display: "grid",
+            gridTemplateColumns: { xs: "1fr", md: "repeat(7, minmax(0, 1fr))" },
+            gap: 1,
+          }}
+        >
+          {days.map((day) => {
+            const dayBookings = bookingsOn(day);
+            return (
+              <Paper key={day.toISOString()} variant="outlined" sx={{ p: 1, minHeight: 120 }}>
+                <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                  {day.format("ddd D")}
+                </Typography>
+                <Stack spacing={0.75} mt={0.75}>
+                  {dayBookings.length ? (
+                    dayBookings.map((booking) => (
+                      <BookingBlock key={booking.eventId} booking={booking} venue={venue} />
+                    ))
+                  ) : (
+                    <Typography variant="caption" color="text.disabled">
+                      Free
+                    </Typography>
+                  )}
+                </Stack>
+              </Paper>
+            );
+          })}
+        </Box>
+      )}
+    </Stack>
+  );
+}
+
+function BookingBlock({ booking, venue }: { booking: VenueBooking; venue: Venue }) {
+  const clashing = booking.clashesWith.length > 0;
+  return (
+    <Box
+      sx={{
+        p: 0.75,
+        borderRadius: 1.5,
+        borderLeft: 3,
+        borderColor: clashing ? "error.main" : "primary.main",
+        bgcolor: "action.hover",
+      }}
+    >
+      <Typography variant="body2" fontWeight={600} noWrap title={booking.name}>
+        {booking.name}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" display="block">
+        {formatCampusDateTime(booking.startDate, venue.campus, "h:mm A")} –{" "}
+        {formatCampusDateTime(booking.endDate, venue.campus, "MMM D h:mm A")}
+      </Typography>
+      <Typography variant="caption" color={clashing ? "error" : "text.secondary"} display="block">
+        {booking.eventType}
+        {booking.capacity ? ` · ${booking.capacity} seats` : ""}
+        {clashing ? " · double-booked" : ""}
+      </Typography>
+    </Box>
+  );
+}
+
+export default VenueCalendar;
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect } from "react";
+import TextField from "@mui/material/TextField";
+import MenuItem from "@mui/material/MenuItem";
+import { useVenues } from "@/hooks/useVenues";
+import { describeVenue } from "@/lib/services/venues";
+import type { Location } from "@/lib/types";
+
+interface VenueSelectProps {
+  value?: string;
+  onChange: (venueId: string) => void;
+  campus?: Location; // only rooms on this campus; omit to list every campus
+  capacity?: number; // flags rooms too small for the event
+  disabled?: boolean;
+  label?: string;
+}
+
+/** Room picker for event forms. An empty value means no room is booked. */
+export function VenueSelect({
+  value,
+  onChange,
+  campus,
+  capacity,
+  disabled,
+  label = "Room",
+}: VenueSelectProps) {
+  // Retired rooms are loaded so an event already booked into one keeps showing it
+  const venuesQuery = useVenues({ campus, includeInactive: true });
+  const selected = venuesQuery.venues.find((venue) => venue.id === value);
+  const venues = venuesQuery.venues.filter((venue) => venue.active || venue.id === value);
+  const tooSmall = Boolean(selected && capacity && capacity > selected.capacity);
+
+  // Switching campus drops a room that is not on the new campus
+  useEffect(() => {
+    if (venuesQuery.isSuccess && value && !selected) {
+      onChange("");
+    }
+  }, [venuesQuery.isSuccess, value, selected, onChange]);
+
+  const helperText = venuesQuery.isError
+    ? "Rooms could not be loaded."
+    : selected && !selected.active
+      ? `${selected.name} has been retired; pick another room before moving this event.`
+      : tooSmall
+        ? `${selected?.name} only holds ${selected?.capacity} people.`
+        : selected?.equipment.length
+          ? `Equipment: ${selected.equipment.join(", ")}`
+          : "Booked rooms are checked for clashes when you save.";
+
+  return (
+    <TextField
+      select
+      label={label}
+      fullWidth
+      value={selected ? selected.id : ""}
+      onChange={(event) => onChange(event.target.value)}
+      disabled={disabled || venuesQuery.isLoading}
+      error={tooSmall || venuesQuery.isError}
+      helperText={helperText}
+    >
+      <MenuItem value="">
+        <em>No room</em>
+      </MenuItem>
+      {venues.map((venue) => (
+        <MenuItem key={venue.id} value={venue.id} disabled={!venue.active}>
+          {campus ? describeVenue(venue) : `${describeVenue(venue)} · ${venue.campus}`}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+}
+
+export default VenueSelect;
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Button from "@mui/material/Button";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import TextField from "@mui/material/TextField";
+import Checkbox from "@mui/material/Checkbox";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Chip from "@mui/material/Chip";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import Divider from "@mui/material/Divider";
+import QrCodeIcon from "@mui/icons-material/QrCode2Rounded";
+import { useSnackbar } from "notistack";
+import {
+  checkInGymSessionAttendees,
+  fetchGymSessionParticipants,
+} from "@/lib/services/gym";
+import type { GymSession } from "@/lib/types";
+
+interface GymCheckInDialogProps {
+  open: boolean;
+  session: GymSession | null;
+  token?: string;
+  onClose: () => void;
+}
+
+export function GymCheckInDialog({ open, session, token, onClose }: GymCheckInDialogProps) {
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [passCode, setPassCode] = useState("");
+  const sessionId = session?.id ?? "";
+
+  const participantsQuery = useQuery({
+    queryKey: ["gym-participants", sessionId, token],
+    queryFn: () => fetchGymSessionParticipants(sessionId, token),
+    enabled: Boolean(open && token && sessionId),
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: (payload: { userIds?: string[]; passCode?: string }) =>
+      checkInGymSessionAttendees(sessionId, payload, token),
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "Attendance recorded.", { variant: "success" });
+      setSelected([]);
+      setPassCode("");
+      queryClient.invalidateQueries({ queryKey: ["gym-participants", sessionId] });
+      queryClient.invalidateQueries({ queryKey: ["gym-schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["gym-attendance-stats"] });
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : "Failed to check in attendees.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  const handleClose = () => {
+    setSelected([]);
+    setPassCode("");
+    onClose();
+  };
+
+  const toggleSelected = (userId: string) => {
+    setSelected((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
+  };
+
+  const participants = participantsQuery.data;
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+      <DialogTitle>
+        Check in{session ? ` • ${session.type} ${dayjs(session.date).format("MMM D")} ${session.time}` : ""}
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} mt={1}>
+          <Stack direction="row" spacing={1} alignItems="flex-start">
+            <TextField
+              label="Gym pass code"
+              placeholder="Scan or paste the code from the attendee's QR pass"
+              value={passCode}
+              onChange={(event) => setPassCode(event.target.value)}
+              size="small"
+              fullWidth
+            />
+            <Button
+              variant="outlined"
+              startIcon={<QrCodeIcon />}
+              disabled={!passCode.trim() || checkInMutation.isPending}
+              onClick={() => checkInMutation.mutate({ passCode: passCode.trim() })}
+            >
+              Verify
+            </Button>
+          </Stack>
+          <Divider />
+          {participantsQuery.isLoading ? (
+            <Skeleton variant="rectangular" height={120} sx={{ borderRadius: 2 }} />
+          ) : participantsQuery.isError ? (
+            <Alert severity="error">Unable to load participants right now.</Alert>
+          ) : !participants || participants.registered.length === 0 ? (
+            <Alert severity="info">Nobody has registered for this session yet.</Alert>
+          ) : (
+            <Stack spacing={0.5}>
+              {participants.registered.map((participant) => (
+                <Stack
+                  key={participant.id}
+                  direction="row"
+                  justifyContent="space-between"
+                  alignItems="center"
+                >
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={Boolean(participant.checkedInAt) || selected.includes(participant.id)}
+                        disabled={Boolean(participant.checkedInAt)}
+                        onChange={() => toggleSelected(participant.id)}
+                      />
+                    }
+                    label={
+                      <Stack spacing={0}>
+                        <Typography variant="body2" fontWeight={600}>
+                          {participant.name}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {participant.email}
+                        </Typography>
+                      </Stack>
+                    }
+                  />
+                  {participant.checkedInAt ? (
+                    <Chip
+                      size="small"
+                      color="success"
+                      variant="outlined"
+                      label={`${participant.method ?? "Checked in"} • ${dayjs(participant.checkedInAt).format("HH:mm")}`}
+                    />
+                  ) : null}
+                </Stack>
+              ))}
+              {participants.waitlist.length > 0 ? (
+                <Typography variant="caption" color="text.secondary" pt={1}>
+                  {participants.waitlist.length} on the waitlist
+                </Typography>
+              ) : null}
+            </Stack>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Close</Button>
+        <Button
+          variant="contained"
+          disabled={selected.length === 0 || checkInMutation.isPending}
+          onClick={() => checkInMutation.mutate({ userIds: selected })}
+        >
+          Check in {selected.length > 0 ? `(${selected.length})` : ""}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,400 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import dayjs, { type Dayjs } from "dayjs";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import IconButton from "@mui/material/IconButton";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import Chip from "@mui/material/Chip";
+import Alert from "@mui/material/Alert";
+import Skeleton from "@mui/material/Skeleton";
+import Divider from "@mui/material/Divider";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import TextField from "@mui/material/TextField";
+import MenuItem from "@mui/material/MenuItem";
+import Switch from "@mui/material/Switch";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import RepeatIcon from "@mui/icons-material/RepeatRounded";
+import AddIcon from "@mui/icons-material/AddRounded";
+import EditIcon from "@mui/icons-material/EditRounded";
+import DeleteIcon from "@mui/icons-material/DeleteRounded";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import { useSnackbar } from "notistack";
+import {
+  createGymSessionTemplate,
+  deleteGymSessionTemplate,
+  fetchGymSessionTemplates,
+  updateGymSessionTemplate,
+  type GymSessionTemplateRequest,
+} from "@/lib/services/gym";
+import { GymSessionType, type GymSessionTemplate } from "@/lib/types";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+interface TemplateFormState {
+  weekday: number;
+  time: string;
+  duration: number;
+  type: GymSessionType;
+  maxParticipants: number;
+  startDate: Dayjs;
+  endDate: Dayjs;
+  blackoutDates: string[];
+}
+
+function emptyForm(): TemplateFormState {
+  return {
+    weekday: dayjs().day(),
+    time: "18:00",
+    duration: 60,
+    type: GymSessionType.Yoga,
+    maxParticipants: 20,
+    startDate: dayjs(),
+    endDate: dayjs().add(3, "month"),
+    blackoutDates: [],
+  };
+}
+
+function toDateKey(value: string | Dayjs) {
+  return dayjs(value).format("YYYY-MM-DD");
+}
+
+interface GymTemplateManagerProps {
+  token?: string;
+  /** Events office accounts may only change a template's schedule, not its type or capacity. */
+  restrictToSchedule?: boolean;
+}
+
+export function GymTemplateManager({ token, restrictToSchedule = false }: GymTemplateManagerProps) {
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<GymSessionTemplate | null>(null);
+  const [form, setForm] = useState<TemplateFormState>(emptyForm);
+  const [blackoutDraft, setBlackoutDraft] = useState<Dayjs | null>(null);
+  const [applyToFuture, setApplyToFuture] = useState(true);
+
+  const templatesQuery = useQuery({
+    queryKey: ["gym-templates", token],
+    queryFn: () => fetchGymSessionTemplates(token),
+    enabled: Boolean(token),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["gym-templates"] });
+    queryClient.invalidateQueries({ queryKey: ["gym-schedule"] });
+  };
+
+  const onError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : "Failed to save the template.";
+    enqueueSnackbar(message, { variant: "error" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload: GymSessionTemplateRequest = {
+        weekday: form.weekday,
+        time: form.time,
+        duration: Number(form.duration),
+        type: form.type,
+        maxParticipants: Number(form.maxParticipants),
+        startDate: toDateKey(form.startDate),
+        endDate: toDateKey(form.endDate),
+        blackoutDates: form.blackoutDates,
+      };
+
+      if (!editing) {
+        const response = await createGymSessionTemplate(payload, token);
+        const skipped = response.data?.skippedDates?.length ?? 0;
+        return skipped > 0
+          ? `${response.message}. Skipped ${skipped} blackout date${skipped === 1 ? "" : "s"}.`
+          : response.message;
+      }
+
+      const { time, duration, endDate, blackoutDates } = payload;
+      return updateGymSessionTemplate(
+        editing.id,
+        restrictToSchedule
+          ? { time, duration, endDate, blackoutDates, applyToFuture }
+          : {
+              time,
+              duration,
+              type: payload.type,
+              maxParticipants: payload.maxParticipants,
+              startDate: payload.startDate,
+              endDate,
+              blackoutDates,
+              applyToFuture,
+            },
+        token
+      );
+    },
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "Template saved.", { variant: "success" });
+      invalidate();
+      handleClose();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: string) => deleteGymSessionTemplate(templateId, token),
+    onSuccess: (message) => {
+      enqueueSnackbar(message ?? "Template deleted.", { variant: "success" });
+      invalidate();
+    },
+    onError,
+  });
+
+  const handleOpen = (template?: GymSessionTemplate) => {
+    setEditing(template ?? null);
+    setForm(
+      template
+        ? {
+            weekday: template.weekday,
+            time: template.time,
+            duration: template.duration,
+            type: template.type,
+            maxParticipants: template.maxParticipants,
+            startDate: dayjs(template.startDate),
+            endDate: dayjs(template.endDate),
+            blackoutDates: template.blackoutDates.map((date) => toDateKey(date)),
+          }
+        : emptyForm()
+    );
+    setApplyToFuture(true);
+    setBlackoutDraft(null);
+    setDialogOpen(true);
+  };
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    setEditing(null);
+  };
+
+  const handleAddBlackout = () => {
+    if (!blackoutDraft) {
+      return;
+    }
+    const key = toDateKey(blackoutDraft);
+    setForm((current) => ({
+      ...current,
+      blackoutDates: current.blackoutDates.includes(key)
+        ? current.blackoutDates
+        : [...current.blackoutDates, key].sort(),
+    }));
+    setBlackoutDraft(null);
+  };
+
+  const templates = templatesQuery.data ?? [];
+  const lockSessionFields = Boolean(editing && restrictToSchedule);
+
+  return (
+    <Card sx={{ borderRadius: 3, boxShadow: "0 14px 40px rgba(15,23,42,0.08)" }}>
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" mb={2}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <RepeatIcon color="primary" />
+            <Typography variant="subtitle1" fontWeight={700}>
+              Weekly templates
+            </Typography>
+          </Stack>
+          <Button size="small" startIcon={<AddIcon />} onClick={() => handleOpen()}>
+            New template
+          </Button>
+        </Stack>
+        {templatesQuery.isLoading ? (
+          <Skeleton variant="rectangular" height={72} sx={{ borderRadius: 2 }} />
+        ) : templatesQuery.isError ? (
+          <Alert severity="error">Unable to load gym session templates right now.</Alert>
+        ) : templates.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No templates yet. Create one to generate a recurring weekly session.
+          </Typography>
+        ) : (
+          <Stack spacing={1} divider={<Divider flexItem />}>
+            {templates.map((template) => (
+              <Stack
+                key={template.id}
+                direction="row"
+                justifyContent="space-between"
+                alignItems="center"
+              >
+                <Box>
+                  <Typography variant="body2" fontWeight={600}>
+                    {template.type} • {WEEKDAYS[template.weekday]}s at {template.time} •{" "}
+                    {template.duration} min
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {dayjs(template.startDate).format("MMM D")} –{" "}
+                    {dayjs(template.endDate).format("MMM D, YYYY")} • {template.upcomingSessions}{" "}
+                    upcoming • {template.blackoutDates.length} blackout date
+                    {template.blackoutDates.length === 1 ? "" : "s"}
+                  </Typography>
+                </Box>
+                <Stack direction="row" spacing={0.5}>
+                  <IconButton
+                    size="small"
+                    color="primary"
+                    aria-label="Edit template"
+                    onClick={() => handleOpen(template)}
+                  >
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    color="error"
+                    aria-label="Delete template"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(template.id)}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Stack>
+              </Stack>
+            ))}
+          </Stack>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={handleClose} fullWidth maxWidth="sm">
+        <DialogTitle>{editing ? "Edit template" : "New weekly template"}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} mt={1}>
+            <Stack direction="row" spacing={2}>
+              <TextField
+                select
+                label="Weekday"
+                value={form.weekday}
+                disabled={Boolean(editing)}
+                onChange={(event) => setForm({ ...form, weekday: Number(event.target.value) })}
+                fullWidth
+              >
+                {WEEKDAYS.map((label, index) => (
+                  <MenuItem key={label} value={index}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Time"
+                type="time"
+                value={form.time}
+                onChange={(event) => setForm({ ...form, time: event.target.value })}
+                fullWidth
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Stack>
+            <Stack direction="row" spacing={2}>
+              <TextField
+                select
+                label="Type"
+                value={form.type}
+                disabled={lockSessionFields}
+                onChange={(event) =>
+                  setForm({ ...form, type: event.target.value as GymSessionType })
+                }
+                fullWidth
+              >
+                {Object.values(GymSessionType).map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {type}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Duration (minutes)"
+                type="number"
+                value={form.duration}
+                onChange={(event) => setForm({ ...form, duration: Number(event.target.value) })}
+                fullWidth
+              />
+              <TextField
+                label="Max participants"
+                type="number"
+                value={form.maxParticipants}
+                disabled={lockSessionFields}
+                onChange={(event) =>
+                  setForm({ ...form, maxParticipants: Number(event.target.value) })
+                }
+                fullWidth
+              />
+            </Stack>
+            <Stack direction="row" spacing={2}>
+              <DatePicker
+                label="From"
+                value={form.startDate}
+                disabled={lockSessionFields}
+                onChange={(value) => value && setForm({ ...form, startDate: value })}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+              <DatePicker
+                label="Until"
+                value={form.endDate}
+                onChange={(value) => value && setForm({ ...form, endDate: value })}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Stack>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <DatePicker
+                label="Blackout date"
+                value={blackoutDraft}
+                onChange={(value) => setBlackoutDraft(value)}
+                slotProps={{ textField: { size: "small", fullWidth: true } }}
+              />
+              <Button onClick={handleAddBlackout} disabled={!blackoutDraft}>
+                Add
+              </Button>
+            </Stack>
+            {form.blackoutDates.length > 0 ? (
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {form.blackoutDates.map((date) => (
+                  <Chip
+                    key={date}
+                    label={dayjs(date).format("MMM D, YYYY")}
+                    size="small"
+                    onDelete={() =>
+                      setForm({
+                        ...form,
+                        blackoutDates: form.blackoutDates.filter((value) => value !== date),
+                      })
+                    }
+                  />
+                ))}
+              </Stack>
+            ) : null}
+            {editing ? (
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={applyToFuture}
+                    onChange={(event) => setApplyToFuture(event.target.checked)}
+                  />
+                }
+                label="Also update upcoming sessions (registered participants are emailed)"
+              />
+            ) : null}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {editing ? "Save" : "Generate sessions"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
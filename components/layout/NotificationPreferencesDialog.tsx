@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Button from "@mui/material/Button";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Switch from "@mui/material/Switch";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Skeleton from "@mui/material/Skeleton";
+import Alert from "@mui/material/Alert";
+import { useSnackbar } from "notistack";
+import { NotificationType } from "@/lib/types";
+import {
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+} from "@/lib/services/notifications";
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  [NotificationType.NewEvent]: "New events",
+  [NotificationType.Reminder]: "Event reminders",
+  [NotificationType.LoyaltyPartner]: "Loyalty partner offers",
+  [NotificationType.Poll]: "Vendor booth polls",
+  [NotificationType.VendorApplication]: "Vendor requests",
+  [NotificationType.WorkshopReview]: "Workshop reviews",
+  [NotificationType.Waitlist]: "Waitlist updates",
+  [NotificationType.Gym]: "Gym sessions",
+  [NotificationType.Court]: "Court bookings",
+  [NotificationType.General]: "General",
+};
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  token?: string;
+  onClose: () => void;
+}
+
+export function NotificationPreferencesDialog({
+  open,
+  token,
+  onClose,
+}: NotificationPreferencesDialogProps) {
+  const { enqueueSnackbar } = useSnackbar();
+  const queryClient = useQueryClient();
+  const [muted, setMuted] = useState<NotificationType[]>([]);
+
+  const preferencesQuery = useQuery({
+    queryKey: ["notification-preferences", token],
+    queryFn: () => fetchNotificationPreferences(token),
+    enabled: Boolean(open && token),
+  });
+
+  useEffect(() => {
+    if (preferencesQuery.data) {
+      setMuted(preferencesQuery.data.mutedTypes);
+    }
+  }, [preferencesQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateNotificationPreferences(muted, token),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["notification-preferences", token], preferences);
+      enqueueSnackbar("Notification preferences saved.", { variant: "success" });
+      onClose();
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : "Failed to save notification preferences.";
+      enqueueSnackbar(message, { variant: "error" });
+    },
+  });
+
+  const toggle = (type: NotificationType) => {
+    setMuted((current) =>
+      current.includes(type)
+        ? current.filter((value) => value !== type)
+        : [...current, type]
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Notification settings</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={1.5}>
+          <Typography variant="body2" color="text.secondary">
+            Choose which announcements you want to receive. Updates about your own
+            registrations and bookings are always delivered.
+          </Typography>
+          {preferencesQuery.isLoading ? (
+            <Skeleton variant="rounded" height={120} />
+          ) : preferencesQuery.isError ? (
+            <Alert severity="error">Unable to load your notification settings.</Alert>
+          ) : (
+            (preferencesQuery.data?.mutableTypes ?? []).map((type) => (
+              <FormControlLabel
+                key={type}
+                control={
+                  <Switch checked={!muted.includes(type)} onChange={() => toggle(type)} />
+                }
+                label={TYPE_LABELS[type] ?? type}
+              />
+            ))
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => saveMutation.mutate()}
+          disabled={!preferencesQuery.data || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
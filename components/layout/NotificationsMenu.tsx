@@ -1,102 +1,128 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
 import IconButton from "@mui/material/IconButton";
 import Badge from "@mui/material/Badge";
 import Menu from "@mui/material/Menu";
 import MenuItem from "@mui/material/MenuItem";
 import List from "@mui/material/List";
 import ListItem from "@mui/material/ListItem";
+import ListItemButton from "@mui/material/ListItemButton";
 import ListItemText from "@mui/material/ListItemText";
 import Stack from "@mui/material/Stack";
 import Typography from "@mui/material/Typography";
 import CircularProgress from "@mui/material/CircularProgress";
 import Button from "@mui/material/Button";
+import Tabs from "@mui/material/Tabs";
+import Tab from "@mui/material/Tab";
+import Tooltip from "@mui/material/Tooltip";
 import NotificationsIcon from "@mui/icons-material/NotificationsRounded";
 import RefreshIcon from "@mui/icons-material/RefreshRounded";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import SettingsIcon from "@mui/icons-material/SettingsRounded";
+import ArchiveIcon from "@mui/icons-material/ArchiveOutlined";
+import UnarchiveIcon from "@mui/icons-material/UnarchiveOutlined";
+import DoneAllIcon from "@mui/icons-material/DoneAllRounded";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
 import { useAuth } from "@/components/providers/AuthProvider";
-import { AuthRole, type NotificationList } from "@/lib/types";
+import { useRealtimeUpdates } from "@/hooks/useRealtimeUpdates";
+import { AuthRole, type NotificationEntry } from "@/lib/types";
+import { formatRelative } from "@/lib/date";
 import {
-  fetchEventOfficeNotifications,
-  fetchUserNotifications,
-  markEventOfficeNotificationsSeen,
-  markUserNotificationsSeen,
+  fetchNotifications,
+  markAllNotificationsRead,
+  updateNotification,
 } from "@/lib/services/notifications";
+import { NotificationPreferencesDialog } from "@/components/layout/NotificationPreferencesDialog";
+
+const PAGE_SIZE = 10;
 
 export function NotificationsMenu() {
   const { session } = useAuth();
+  const router = useRouter();
   const token = session?.token ?? undefined;
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
 
   const role = session?.user.role ?? null;
   const isAdminAccount = role === AuthRole.Admin || role === AuthRole.EventOffice;
   const isUserAccount = role === AuthRole.User;
+  const enabled = Boolean(token) && (isAdminAccount || isUserAccount);
 
-  const queryKey = useMemo(
+  const baseKey = useMemo(
     () => ["notifications", role, session?.user.id],
     [role, session?.user.id]
   );
 
-  const notificationsQuery = useQuery({
-    queryKey,
-    queryFn: () =>
-      isAdminAccount
-        ? fetchEventOfficeNotifications(token)
-        : fetchUserNotifications(token),
-    enabled: Boolean(token) && (isAdminAccount || isUserAccount),
+  const notificationsQuery = useInfiniteQuery({
+    queryKey: [...baseKey, showArchived ? "archived" : "inbox"],
+    queryFn: ({ pageParam }) =>
+      fetchNotifications(
+        { page: pageParam, limit: PAGE_SIZE, archived: showArchived },
+        token
+      ),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+    enabled,
     refetchOnWindowFocus: false,
   });
 
-  const notificationsData = notificationsQuery.data?.notifications;
   const notifications = useMemo(
-    () => notificationsData ?? [],
-    [notificationsData]
+    () => notificationsQuery.data?.pages.flatMap((page) => page.notifications) ?? [],
+    [notificationsQuery.data]
   );
-  const badgeCount = notifications.filter((notification) => !notification.seen).length;
-  const hasUnseen = notifications.some((notification) => !notification.seen);
+  const badgeCount = notificationsQuery.data?.pages[0]?.unreadCount ?? 0;
   const queryClient = useQueryClient();
 
-  const {
-    mutate: markNotificationsSeen,
-    isPending: isMarkingNotifications,
-  } = useMutation({
-    mutationFn: () =>
-      isAdminAccount
-        ? markEventOfficeNotificationsSeen(token)
-        : markUserNotificationsSeen(token),
-    onSuccess: () => {
-      queryClient.setQueryData<NotificationList | undefined>(queryKey, (prev) => {
-        if (!prev) {
-          return prev;
-        }
-        if (!prev.notifications.some((notification) => !notification.seen)) {
-          return prev;
-        }
-        return {
-          notifications: prev.notifications.map((notification) => ({
-            ...notification,
-            seen: true,
-          })),
-        };
-      });
-    },
-    onSettled: () => {
-      queryClient.invalidateQueries({ queryKey });
-    },
+  const invalidateNotifications = () =>
+    queryClient.invalidateQueries({ queryKey: baseKey });
+
+  const updateMutation = useMutation({
+    mutationFn: (variables: {
+      id: string;
+      changes: { read?: boolean; archived?: boolean };
+    }) => updateNotification(variables.id, variables.changes, token),
+    onSettled: invalidateNotifications,
   });
 
+  const markAllMutation = useMutation({
+    mutationFn: () => markAllNotificationsRead(token),
+    onSettled: invalidateNotifications,
+  });
+
+  const { enqueueSnackbar } = useSnackbar();
+  const realtimeCallbacks = useMemo(
+    () => ({
+      onNotification: (notification: NotificationEntry) => {
+        queryClient.invalidateQueries({ queryKey: baseKey });
+        enqueueSnackbar(notification.message, { variant: "info" });
+      },
+      onPoll: () => queryClient.invalidateQueries({ queryKey: baseKey }),
+    }),
+    [queryClient, baseKey, enqueueSnackbar]
+  );
+  const realtimeStatus = useRealtimeUpdates(
+    enabled ? token : undefined,
+    realtimeCallbacks
+  );
+
   const handleOpen = (event: React.MouseEvent<HTMLButtonElement>) => {
     setAnchorEl(event.currentTarget);
   };
 
   const handleClose = () => setAnchorEl(null);
 
-  useEffect(() => {
-    if (anchorEl && hasUnseen && !isMarkingNotifications) {
-      markNotificationsSeen();
+  const handleSelect = (notification: NotificationEntry) => {
+    if (!notification.read) {
+      updateMutation.mutate({ id: notification.id, changes: { read: true } });
+    }
+    if (notification.link) {
+      handleClose();
+      router.push(notification.link);
     }
-  }, [anchorEl, hasUnseen, isMarkingNotifications, markNotificationsSeen]);
+  };
 
   if (!token || (!isUserAccount && !isAdminAccount)) {
     return null;
@@ -127,14 +153,51 @@ export function NotificationsMenu() {
           <Typography variant="subtitle1" fontWeight={600}>
             Notifications
           </Typography>
-          <IconButton
-            size="small"
-            onClick={() => notificationsQuery.refetch()}
-            disabled={notificationsQuery.isFetching}
-          >
-            <RefreshIcon fontSize="small" />
-          </IconButton>
+          <Stack direction="row" spacing={0.5}>
+            <Tooltip title="Mark all as read">
+              <span>
+                <IconButton
+                  size="small"
+                  onClick={() => markAllMutation.mutate()}
+                  disabled={badgeCount === 0 || markAllMutation.isPending}
+                >
+                  <DoneAllIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Notification settings">
+              <IconButton size="small" onClick={() => setPreferencesOpen(true)}>
+                <SettingsIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip
+              title={
+                realtimeStatus === "live"
+                  ? "Live updates on"
+                  : "Live updates unavailable, checking periodically"
+              }
+            >
+              <span>
+                <IconButton
+                  size="small"
+                  onClick={() => notificationsQuery.refetch()}
+                  disabled={notificationsQuery.isFetching}
+                >
+                  <RefreshIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Stack>
         </Stack>
+        <Tabs
+          value={showArchived ? 1 : 0}
+          onChange={(_, value: number) => setShowArchived(value === 1)}
+          variant="fullWidth"
+          sx={{ minHeight: 36, px: 1 }}
+        >
+          <Tab label="Inbox" sx={{ minHeight: 36 }} />
+          <Tab label="Archived" sx={{ minHeight: 36 }} />
+        </Tabs>
         {notificationsQuery.isLoading ? (
           <Stack alignItems="center" justifyContent="center" sx={{ px: 2, py: 3 }}>
             <CircularProgress size={24} />
@@ -151,23 +214,73 @@ export function NotificationsMenu() {
         ) : notifications.length === 0 ? (
           <MenuItem disabled>
             <ListItemText
-              primary="You're all caught up"
-              secondary="New updates will appear here."
+              primary={showArchived ? "No archived notifications" : "You're all caught up"}
+              secondary={showArchived ? undefined : "New updates will appear here."}
             />
           </MenuItem>
         ) : (
           <List dense disablePadding sx={{ minWidth: 320, maxWidth: 360 }}>
-            {notifications.map((notification, index) => (
+            {notifications.map((notification) => (
               <ListItem
-                key={`${notification.message}-${notification.createdAt ?? index}`}
-                sx={{ alignItems: "flex-start" }}
+                key={notification.id}
+                disablePadding
+                secondaryAction={
+                  <Tooltip title={notification.archived ? "Move to inbox" : "Archive"}>
+                    <IconButton
+                      edge="end"
+                      size="small"
+                      onClick={() =>
+                        updateMutation.mutate({
+                          id: notification.id,
+                          changes: { archived: !notification.archived },
+                        })
+                      }
+                    >
+                      {notification.archived ? (
+                        <UnarchiveIcon fontSize="small" />
+                      ) : (
+                        <ArchiveIcon fontSize="small" />
+                      )}
+                    </IconButton>
+                  </Tooltip>
+                }
               >
-                <ListItemText primary={notification.message} />
+                <ListItemButton
+                  onClick={() => handleSelect(notification)}
+                  sx={{
+                    alignItems: "flex-start",
+                    bgcolor: notification.read ? undefined : "action.hover",
+                  }}
+                >
+                  <ListItemText
+                    primary={notification.message}
+                    secondary={formatRelative(notification.createdAt)}
+                    slotProps={{
+                      primary: { fontWeight: notification.read ? 400 : 600 },
+                    }}
+                  />
+                </ListItemButton>
               </ListItem>
             ))}
+            {notificationsQuery.hasNextPage ? (
+              <Stack alignItems="center" sx={{ py: 1 }}>
+                <Button
+                  size="small"
+                  onClick={() => notificationsQuery.fetchNextPage()}
+                  disabled={notificationsQuery.isFetchingNextPage}
+                >
+                  {notificationsQuery.isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              </Stack>
+            ) : null}
           </List>
         )}
       </Menu>
+      <NotificationPreferencesDialog
+        open={preferencesOpen}
+        token={token}
+        onClose={() => setPreferencesOpen(false)}
+      />
     </>
   );
 }
@@ -17,6 +17,11 @@ import SchoolIcon from "@mui/icons-material/SchoolRounded";
 import ConferenceIcon from "@mui/icons-material/CampaignRounded";
 import ChecklistIcon from "@mui/icons-material/ChecklistRtlRounded";
 import RateReviewIcon from "@mui/icons-material/RateReviewRounded";
+import SportsTennisIcon from "@mui/icons-material/SportsTennisRounded";
+import OutboxIcon from "@mui/icons-material/OutboxRounded";
+import PolicyIcon from "@mui/icons-material/PolicyRounded";
+import LocalOfferIcon from "@mui/icons-material/LocalOfferRounded";
+import MeetingRoomIcon from "@mui/icons-material/MeetingRoomRounded";
 import { AuthRole, UserRole } from "@/lib/types";
 
 export interface NavItem {
@@ -137,6 +142,12 @@ export const navItems: NavItem[] = [
     icon: PollIcon,
     roles: [AuthRole.Admin],
   },
+  {
+    label: "Email Outbox",
+    href: "/admin/email-outbox",
+    icon: OutboxIcon,
+    roles: [AuthRole.Admin],
+  },
   {
     label: "Vendor Applications",
     href: "/events-office/vendors",
@@ -167,6 +178,18 @@ export const navItems: NavItem[] = [
     icon: WalletIcon,
     roles: [AuthRole.EventOffice],
   },
+  {
+    label: "Refund Policies",
+    href: "/events-office/refund-policies",
+    icon: PolicyIcon,
+    roles: [AuthRole.EventOffice, AuthRole.Admin],
+  },
+  {
+    label: "Coupons",
+    href: "/events-office/coupons",
+    icon: LocalOfferIcon,
+    roles: [AuthRole.EventOffice, AuthRole.Admin],
+  },
   {
     label: "Vendor Polls",
     href: "/events-office/polls",
@@ -221,6 +244,18 @@ export const navItems: NavItem[] = [
     icon: ConferenceIcon,
     roles: [AuthRole.Admin],
   },
+  {
+    label: "Rooms & Venues",
+    href: "/events-office/venues",
+    icon: MeetingRoomIcon,
+    roles: [AuthRole.EventOffice],
+  },
+  {
+    label: "Rooms & Venues",
+    href: "/admin/venues",
+    icon: MeetingRoomIcon,
+    roles: [AuthRole.Admin],
+  },
   {
     label: "Gym Sessions",
     href: "/events-office/gym-sessions",
@@ -233,6 +268,18 @@ export const navItems: NavItem[] = [
     icon: FitnessCenterIcon,
     roles: [AuthRole.Admin],
   },
+  {
+    label: "Court Reservations",
+    href: "/events-office/courts",
+    icon: SportsTennisIcon,
+    roles: [AuthRole.EventOffice],
+  },
+  {
+    label: "Court Reservations",
+    href: "/admin/courts",
+    icon: SportsTennisIcon,
+    roles: [AuthRole.Admin],
+  },
   {
     label: "Vendor Dashboard",
     href: "/vendor/dashboard",
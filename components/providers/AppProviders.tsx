@@ -8,6 +8,8 @@ import { SnackbarProvider } from "notistack";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
 import { AdapterDayjs } from "@mui/x-date-pickers/AdapterDayjs";
+import { applyCampusDirectory } from "@/lib/campus";
+import type { CampusDirectory } from "@/lib/services/campuses";
 
 const theme = createTheme({
   palette: {
@@ -74,10 +76,19 @@ const theme = createTheme({
 });
 
 interface AppProvidersProps {
+  campusDirectory?: CampusDirectory | null;
   children: ReactNode;
 }
 
-export function AppProviders({ children }: AppProvidersProps) {
+export function AppProviders({ campusDirectory, children }: AppProvidersProps) {
+  // Applied before any child renders so prices and times use the server's campus settings
+  useState(() => {
+    if (campusDirectory) {
+      applyCampusDirectory(campusDirectory);
+    }
+    return true;
+  });
+
   const [queryClient] = useState(
     () =>
       new QueryClient({
@@ -102,9 +102,14 @@ export function AttendanceReport({
         flex: 0.8,
         valueFormatter: (value) => (value ? formatDateTime(String(value)) : "—"),
       },
+      {
+        field: "registeredCount",
+        headerName: "Registered",
+        flex: 0.6,
+      },
       {
         field: "totalAttendees",
-        headerName: "Attendees",
+        headerName: "Checked in",
         flex: 0.6,
       },
     ],
@@ -113,13 +118,14 @@ export function AttendanceReport({
 
   const handleExport = () => {
     if (!rows.length) return;
-    const csvHeader = "Event,Type,Start,End,Attendees";
+    const csvHeader = "Event,Type,Start,End,Registered,Checked In";
     const csvRows = rows.map((row) =>
       [
         row.name,
         row.eventType,
         formatDateTime(row.startDate),
         formatDateTime(row.endDate),
+        row.registeredCount,
         row.totalAttendees,
       ]
         .map((value) => `"${String(value).replace(/"/g, '""')}"`)
@@ -240,7 +246,7 @@ export function AttendanceReport({
                 <Divider orientation="vertical" flexItem sx={{ display: { xs: "none", md: "block" } }} />
                 <Stack spacing={0.5}>
                   <Typography variant="subtitle2" color="text.secondary">
-                    Total attendees
+                    Checked-in attendees
                   </Typography>
                   <Typography variant="h4" fontWeight={700}>
                     {totalAttendees.toLocaleString()}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
 import Stack from "@mui/material/Stack";
 import Typography from "@mui/material/Typography";
 import Card from "@mui/material/Card";
@@ -14,14 +15,21 @@ import Alert from "@mui/material/Alert";
 import CircularProgress from "@mui/material/CircularProgress";
 import ToggleButton from "@mui/material/ToggleButton";
 import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
+import Tooltip from "@mui/material/Tooltip";
 import DownloadIcon from "@mui/icons-material/DownloadRounded";
 import RefreshIcon from "@mui/icons-material/RefreshRounded";
 import TrendingUpIcon from "@mui/icons-material/TrendingUpRounded";
 import TrendingDownIcon from "@mui/icons-material/TrendingDownRounded";
+import ReceiptLongIcon from "@mui/icons-material/ReceiptLongRounded";
 import { DataGrid, type GridColDef } from "@mui/x-data-grid";
-import { EventType } from "@/lib/types";
-import { formatDateTime } from "@/lib/date";
-import { fetchSalesReport, type SalesReportItem } from "@/lib/services/reports";
+import { EventType, Location } from "@/lib/types";
+import { formatCampusDateTime, formatMoney } from "@/lib/campus";
+import {
+  downloadReconciliationReport,
+  fetchSalesReport,
+  type CourtSalesReportItem,
+  type SalesReportItem,
+} from "@/lib/services/reports";
 import { useAuthToken } from "@/hooks/useAuthToken";
 
 const eventTypeOptions: Array<{ label: string; value: EventType | "" }> = [
@@ -33,6 +41,12 @@ const eventTypeOptions: Array<{ label: string; value: EventType | "" }> = [
   { label: "Seminars", value: EventType.Seminar },
 ];
 
+const locationOptions: Array<{ label: string; value: Location | "" }> = [
+  { label: "All campuses", value: "" },
+  { label: "GUC Cairo", value: Location.Cairo },
+  { label: "GUC Berlin", value: Location.Berlin },
+];
+
 interface SalesReportProps {
   title?: string;
   subtitle?: string;
@@ -43,7 +57,9 @@ export function SalesReport({
   subtitle = "See how much revenue each event generated.",
 }: SalesReportProps) {
   const token = useAuthToken();
+  const { enqueueSnackbar } = useSnackbar();
   const [eventType, setEventType] = useState<EventType | "">("");
+  const [location, setLocation] = useState<Location | "">("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [specificDate, setSpecificDate] = useState("");
@@ -52,18 +68,20 @@ export function SalesReport({
   const filters = useMemo(
     () => ({
       eventType: eventType || undefined,
+      location: location || undefined,
       startDate: startDate ? new Date(startDate).toISOString() : undefined,
       endDate: endDate ? new Date(endDate).toISOString() : undefined,
       date: specificDate ? new Date(specificDate).toISOString() : undefined,
       sortOrder,
     }),
-    [eventType, startDate, endDate, specificDate, sortOrder]
+    [eventType, location, startDate, endDate, specificDate, sortOrder]
   );
 
   const queryKey = [
     "sales-report",
     token,
     filters.eventType,
+    filters.location,
     filters.startDate,
     filters.endDate,
     filters.date,
@@ -77,50 +95,84 @@ export function SalesReport({
   });
 
   const rows = reportQuery.data?.events ?? [];
-  const totalRevenue = reportQuery.data?.totalRevenue ?? 0;
+  const courtRows = reportQuery.data?.courts ?? [];
+  const totals = reportQuery.data?.totals ?? [];
 
   const columns = useMemo<GridColDef<SalesReportItem>[]>(
     () => [
       { field: "name", headerName: "Event", flex: 1.2 },
       { field: "eventType", headerName: "Type", flex: 0.6 },
+      { field: "location", headerName: "Campus", flex: 0.6 },
       {
         field: "startDate",
         headerName: "Start",
         flex: 0.8,
-        valueFormatter: (params: { value: string | number | Date }) =>
-          formatDateTime(String(params.value)),
+        valueGetter: (_value, row) => formatCampusDateTime(row.startDate, row.location),
       },
       {
         field: "endDate",
         headerName: "End",
         flex: 0.8,
-        valueFormatter: (params: { value: string | number | Date }) =>
-          formatDateTime(String(params.value)),
+        valueGetter: (_value, row) => formatCampusDateTime(row.endDate, row.location),
+      },
+      {
+        field: "revenue",
+        headerName: "Revenue",
+        flex: 0.7,
+        renderCell: ({ row }) => formatMoney(row.revenue, row.currency),
+      },
+    ],
+    []
+  );
+
+  const courtColumns = useMemo<GridColDef<CourtSalesReportItem>[]>(
+    () => [
+      {
+        field: "courtType",
+        headerName: "Court",
+        flex: 1,
+        valueGetter: (_value, row) =>
+          row.courtType ? `${row.courtType} court` : "Court",
       },
+      { field: "venue", headerName: "Venue", flex: 1 },
+      { field: "bookings", headerName: "Paid bookings", flex: 0.6 },
+      { field: "refunded", headerName: "Refunded", flex: 0.6 },
       {
         field: "revenue",
         headerName: "Revenue",
         flex: 0.7,
-        valueFormatter: (params: { value: string | number | Date }) =>
-          `${Number(params.value).toLocaleString()} EGP`,
+        renderCell: ({ row }) => formatMoney(row.revenue, row.currency),
       },
     ],
     []
   );
 
   const handleExport = () => {
-    if (!rows.length) return;
-    const csvHeader = "Event,Type,Start,End,Revenue";
-    const csvRows = rows.map((row) =>
-      [
+    if (!rows.length && !courtRows.length) return;
+    const csvHeader = "Event,Type,Campus,Start,End,Revenue,Currency";
+    const csvRows = [
+      ...rows.map((row) => [
         row.name,
         row.eventType,
-        formatDateTime(row.startDate),
-        formatDateTime(row.endDate),
+        row.location,
+        formatCampusDateTime(row.startDate, row.location),
+        formatCampusDateTime(row.endDate, row.location),
         row.revenue,
-      ]
-        .map((value) => `"${String(value).replace(/"/g, '""')}"`)
-        .join(",")
+        row.currency,
+      ]),
+      ...courtRows.map((row) => [
+        [row.courtType ? `${row.courtType} court` : "Court", row.venue]
+          .filter(Boolean)
+          .join(" - "),
+        "Court booking",
+        "",
+        "",
+        "",
+        row.revenue,
+        row.currency,
+      ]),
+    ].map((values) =>
+      values.map((value) => `"${String(value).replace(/"/g, '""')}"`).join(",")
     );
     const blob = new Blob([`${csvHeader}\n${csvRows.join("\n")}`], {
       type: "text/csv;charset=utf-8;",
@@ -132,6 +184,26 @@ export function SalesReport({
     URL.revokeObjectURL(link.href);
   };
 
+  // Reconciliation covers payments and refunds made between the two dates
+  const reconciliationMutation = useMutation({
+    mutationFn: () =>
+      downloadReconciliationReport({ startDate, endDate }, token ?? undefined),
+    onSuccess: ({ blob, filename }) => {
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = filename ?? `reconciliation-${startDate}-${endDate}.xlsx`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    },
+    onError: (error) =>
+      enqueueSnackbar(
+        error instanceof Error && error.message
+          ? error.message
+          : "Unable to export the reconciliation report.",
+        { variant: "error" }
+      ),
+  });
+
   return (
     <Stack spacing={4}>
       <Stack spacing={0.5}>
@@ -161,6 +233,21 @@ export function SalesReport({
                 </MenuItem>
               ))}
             </TextField>
+            <TextField
+              select
+              label="Campus"
+              value={location}
+              onChange={(event) =>
+                setLocation(event.target.value as Location | "")
+              }
+              fullWidth
+            >
+              {locationOptions.map((option) => (
+                <MenuItem key={option.label} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
             <TextField
               type="date"
               label="Start after"
@@ -221,10 +308,31 @@ export function SalesReport({
               <Button
                 startIcon={<DownloadIcon />}
                 onClick={handleExport}
-                disabled={!rows.length}
+                disabled={!rows.length && !courtRows.length}
               >
                 Export CSV
               </Button>
+              <Tooltip
+                title={
+                  startDate && endDate
+                    ? "Every payment, refund and booth fee between the start and end dates, with revenue checks"
+                    : "Pick a start and end date to export a reconciliation"
+                }
+              >
+                <span>
+                  <Button
+                    startIcon={<ReceiptLongIcon />}
+                    onClick={() => reconciliationMutation.mutate()}
+                    disabled={
+                      !startDate || !endDate || reconciliationMutation.isPending
+                    }
+                  >
+                    {reconciliationMutation.isPending
+                      ? "Exporting..."
+                      : "Reconciliation XLSX"}
+                  </Button>
+                </span>
+              </Tooltip>
             </Stack>
           </Stack>
         </CardContent>
@@ -241,7 +349,7 @@ export function SalesReport({
               Unable to load sales data. Please adjust filters or try again
               later.
             </Alert>
-          ) : rows.length === 0 ? (
+          ) : rows.length === 0 && courtRows.length === 0 ? (
             <Alert severity="info">No events match your filters.</Alert>
           ) : (
             <Stack spacing={3}>
@@ -254,32 +362,62 @@ export function SalesReport({
                     {rows.length}
                   </Typography>
                 </Stack>
-                <Divider
-                  orientation="vertical"
-                  flexItem
-                  sx={{ display: { xs: "none", md: "block" } }}
+                {totals.map((total) => (
+                  <Stack key={total.currency} direction="row" spacing={3}>
+                    <Divider
+                      orientation="vertical"
+                      flexItem
+                      sx={{ display: { xs: "none", md: "block" } }}
+                    />
+                    <Stack spacing={0.5}>
+                      <Typography variant="subtitle2" color="text.secondary">
+                        Revenue in {total.currency}
+                      </Typography>
+                      <Typography variant="h4" fontWeight={700}>
+                        {formatMoney(total.totalRevenue, total.currency)}
+                      </Typography>
+                      {total.courtRevenue > 0 ? (
+                        <Typography variant="caption" color="text.secondary">
+                          {formatMoney(total.eventRevenue, total.currency)} events •{" "}
+                          {formatMoney(total.courtRevenue, total.currency)} courts
+                        </Typography>
+                      ) : null}
+                    </Stack>
+                  </Stack>
+                ))}
+              </Stack>
+              {rows.length > 0 ? (
+                <DataGrid
+                  rows={rows}
+                  columns={columns}
+                  getRowId={(row) => row.eventId}
+                  autoHeight
+                  disableColumnMenu
+                  disableRowSelectionOnClick
+                  pageSizeOptions={[10, 25, 50]}
+                  initialState={{
+                    pagination: { paginationModel: { pageSize: 10, page: 0 } },
+                  }}
                 />
-                <Stack spacing={0.5}>
-                  <Typography variant="subtitle2" color="text.secondary">
-                    Total revenue
-                  </Typography>
-                  <Typography variant="h4" fontWeight={700}>
-                    {totalRevenue.toLocaleString()} EGP
+              ) : (
+                <Alert severity="info">No events match your filters.</Alert>
+              )}
+              {courtRows.length > 0 && (
+                <Stack spacing={1.5}>
+                  <Typography variant="h6" fontWeight={600}>
+                    Court bookings
                   </Typography>
+                  <DataGrid
+                    rows={courtRows}
+                    columns={courtColumns}
+                    getRowId={(row) => `${row.courtId}-${row.currency}`}
+                    autoHeight
+                    disableColumnMenu
+                    disableRowSelectionOnClick
+                    hideFooter={courtRows.length <= 10}
+                  />
                 </Stack>
-              </Stack>
-              <DataGrid
-                rows={rows}
-                columns={columns}
-                getRowId={(row) => row.eventId}
-                autoHeight
-                disableColumnMenu
-                disableRowSelectionOnClick
-                pageSizeOptions={[10, 25, 50]}
-                initialState={{
-                  pagination: { paginationModel: { pageSize: 10, page: 0 } },
-                }}
-              />
+              )}
             </Stack>
           )}
         </CardContent>
@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import TextField from "@mui/material/TextField";
+import Button from "@mui/material/Button";
+import Alert from "@mui/material/Alert";
+import LoadingButton from "@mui/lab/LoadingButton";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import { formatDateTime } from "@/lib/date";
+import {
+  extendVendorPaymentDeadline,
+  type AdminVendorApplication,
+} from "@/lib/services/admin";
+
+const INPUT_FORMAT = "YYYY-MM-DDTHH:mm";
+const DEFAULT_EXTENSION_DAYS = 3;
+
+function getErrorMessage(error: unknown, fallback: string) {
+  if (error && typeof error === "object" && "message" in error) {
+    const message = (error as { message?: unknown }).message;
+    if (typeof message === "string" && message.trim()) {
+      return message;
+    }
+  }
+  return fallback;
+}
+
+interface PaymentDeadlineDialogProps {
+  vendorId: string;
+  application: AdminVendorApplication | null;
+  onClose: () => void;
+}
+
+// Events Office / Admin override for an unpaid booth's due date
+export function PaymentDeadlineDialog({
+  vendorId,
+  application,
+  onClose,
+}: PaymentDeadlineDialogProps) {
+  const token = useAuthToken();
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [dueDate, setDueDate] = useState("");
+  const [reason, setReason] = useState("");
+  const payment = application?.payment;
+
+  useEffect(() => {
+    if (!application) return;
+    const currentDue = dayjs(application.payment?.dueDate ?? undefined);
+    const base = currentDue.isAfter(dayjs()) ? currentDue : dayjs();
+    setDueDate(base.add(DEFAULT_EXTENSION_DAYS, "day").format(INPUT_FORMAT));
+    setReason("");
+  }, [application]);
+
+  const extendMutation = useMutation({
+    mutationFn: () =>
+      extendVendorPaymentDeadline(
+        {
+          vendorId,
+          eventId: application?.eventId ?? "",
+          dueDate: new Date(dueDate).toISOString(),
+          reason: reason.trim() || undefined,
+        },
+        token ?? undefined
+      ),
+    onSuccess: () => {
+      enqueueSnackbar("Payment deadline extended", { variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ["admin", "vendors"] });
+      onClose();
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(getErrorMessage(error, "Failed to extend deadline"), {
+        variant: "error",
+      });
+    },
+  });
+
+  const dueDateValid = Boolean(dueDate) && dayjs(dueDate).isAfter(dayjs());
+
+  return (
+    <Dialog open={Boolean(application)} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Extend payment deadline</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} mt={1}>
+          <Typography variant="body2" color="text.secondary">
+            {application?.eventName ?? "Booth"} · currently due{" "}
+            {payment?.dueDate ? formatDateTime(payment.dueDate) : "—"}
+          </Typography>
+          {payment?.status === "overdue" && payment.releaseAfter ? (
+            <Alert severity="warning">
+              Overdue. The booth will be released on{" "}
+              {formatDateTime(payment.releaseAfter)} unless the deadline moves.
+            </Alert>
+          ) : null}
+          <TextField
+            type="datetime-local"
+            label="New due date"
+            value={dueDate}
+            onChange={(event) => setDueDate(event.target.value)}
+            error={Boolean(dueDate) && !dueDateValid}
+            helperText="The vendor is emailed the new date and gets a fresh reminder."
+            slotProps={{ inputLabel: { shrink: true } }}
+            fullWidth
+          />
+          <TextField
+            label="Note to vendor"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            slotProps={{ htmlInput: { maxLength: 500 } }}
+            multiline
+            minRows={2}
+            fullWidth
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={extendMutation.isPending}>
+          Cancel
+        </Button>
+        <LoadingButton
+          variant="contained"
+          onClick={() => extendMutation.mutate()}
+          loading={extendMutation.isPending}
+          disabled={!dueDateValid}
+        >
+          Extend
+        </LoadingButton>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import TextField from "@mui/material/TextField";
+import InputAdornment from "@mui/material/InputAdornment";
+import Button from "@mui/material/Button";
+import Chip from "@mui/material/Chip";
+import Alert from "@mui/material/Alert";
+import Divider from "@mui/material/Divider";
+import ArrowBackIcon from "@mui/icons-material/ArrowBackRounded";
+import CreditCardIcon from "@mui/icons-material/CreditCardRounded";
+import { Elements } from "@stripe/react-stripe-js";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSnackbar } from "notistack";
+import { useAuthToken } from "@/hooks/useAuthToken";
+import { stripePromise } from "@/lib/stripe";
+import { StripePaymentForm } from "@/components/events/StripePaymentForm";
+import {
+  createWalletTopUpIntent,
+  finalizeWalletTopUp,
+} from "@/lib/services/users";
+
+const MIN_TOP_UP = 10;
+const MAX_TOP_UP = 10000;
+const PRESET_AMOUNTS = [100, 250, 500, 1000];
+
+const currencyFormatter = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "EGP",
+  minimumFractionDigits: 2,
+});
+
+interface WalletTopUpDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function WalletTopUpDialog({ open, onClose }: WalletTopUpDialogProps) {
+  const token = useAuthToken();
+  const queryClient = useQueryClient();
+  const { enqueueSnackbar } = useSnackbar();
+  const [amountInput, setAmountInput] = useState("250");
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [cardError, setCardError] = useState<string | null>(null);
+
+  const amount = Number(amountInput);
+  const amountValid =
+    Number.isFinite(amount) && amount >= MIN_TOP_UP && amount <= MAX_TOP_UP;
+  const amountLabel = amountValid ? currencyFormatter.format(amount) : "";
+
+  const intentMutation = useMutation({
+    mutationFn: () => createWalletTopUpIntent(amount, token ?? undefined),
+    onSuccess: (data) => {
+      setCardError(null);
+      setClientSecret(data.clientSecret);
+    },
+    onError: (error: unknown) => {
+      enqueueSnackbar(
+        error instanceof Error ? error.message : "Failed to start wallet top-up",
+        { variant: "error" }
+      );
+    },
+  });
+
+  const finalizeMutation = useMutation({
+    mutationFn: (paymentIntentId: string) =>
+      finalizeWalletTopUp(paymentIntentId, token ?? undefined),
+    onSuccess: (data) => {
+      enqueueSnackbar(
+        `${currencyFormatter.format(data.transaction.amount)} added to your wallet.`,
+        { variant: "success" }
+      );
+      queryClient.invalidateQueries({ queryKey: ["wallet-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["wallet-statement"] });
+      handleClose();
+    },
+    onError: (error: unknown) => {
+      setCardError(
+        error instanceof Error ? error.message : "Failed to confirm wallet top-up"
+      );
+    },
+  });
+
+  const busy = intentMutation.isPending || finalizeMutation.isPending;
+
+  function handleClose() {
+    setClientSecret(null);
+    setCardError(null);
+    onClose();
+  }
+
+  const renderAmountStep = () => (
+    <Stack spacing={2.5}>
+      <Typography variant="body2" color="text.secondary">
+        Add credit to your wallet to pay for trips and workshops in one tap.
+      </Typography>
+      <TextField
+        label="Amount"
+        type="number"
+        value={amountInput}
+        onChange={(event) => setAmountInput(event.target.value)}
+        error={amountInput !== "" && !amountValid}
+        helperText={`Between ${currencyFormatter.format(MIN_TOP_UP)} and ${currencyFormatter.format(MAX_TOP_UP)}`}
+        slotProps={{
+          input: {
+            startAdornment: <InputAdornment position="start">EGP</InputAdornment>,
+          },
+          htmlInput: { min: MIN_TOP_UP, max: MAX_TOP_UP, step: 1 },
+        }}
+        fullWidth
+      />
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        {PRESET_AMOUNTS.map((preset) => (
+          <Chip
+            key={preset}
+            label={currencyFormatter.format(preset)}
+            color={amount === preset ? "primary" : "default"}
+            onClick={() => setAmountInput(String(preset))}
+          />
+        ))}
+      </Stack>
+      {!stripePromise ? (
+        <Alert severity="warning">
+          Stripe is not configured, so wallet top-ups are unavailable.
+        </Alert>
+      ) : null}
+    </Stack>
+  );
+
+  const renderCardStep = () => (
+    <Stack spacing={2.5}>
+      <Typography variant="body2" color="text.secondary">
+        {amountLabel} will be added to your wallet once the payment succeeds.
+      </Typography>
+      <Divider />
+      {cardError ? <Alert severity="error">{cardError}</Alert> : null}
+      {stripePromise && clientSecret ? (
+        <Elements
+          key={clientSecret}
+          stripe={stripePromise}
+          options={{
+            clientSecret,
+            appearance: {
+              rules: {
+                ".LinkButton": { display: "none" },
+                ".LinkSeparator": { display: "none" },
+              },
+            },
+          }}
+        >
+          <StripePaymentForm
+            amountLabel={amountLabel}
+            finalizing={finalizeMutation.isPending}
+            onSuccess={(paymentIntentId) => finalizeMutation.mutate(paymentIntentId)}
+            onError={setCardError}
+          />
+        </Elements>
+      ) : null}
+    </Stack>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={busy ? undefined : handleClose}
+      fullWidth
+      maxWidth="sm"
+    >
+      <DialogTitle>Top up wallet</DialogTitle>
+      <DialogContent dividers>
+        {clientSecret ? renderCardStep() : renderAmountStep()}
+      </DialogContent>
+      <DialogActions>
+        {clientSecret ? (
+          <Button
+            onClick={() => {
+              setClientSecret(null);
+              setCardError(null);
+            }}
+            startIcon={<ArrowBackIcon />}
+            disabled={busy}
+          >
+            Change amount
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            startIcon={<CreditCardIcon />}
+            onClick={() => intentMutation.mutate()}
+            disabled={!amountValid || !stripePromise || busy}
+          >
+            {intentMutation.isPending ? "Preparing..." : "Continue to card"}
+          </Button>
+        )}
+        <Button onClick={handleClose} disabled={busy}>
+          Cancel
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default WalletTopUpDialog;
@@ -77,7 +77,11 @@ import {
   type EventFilters,
 } from "@/components/events/EventFiltersBar";
 import { EventOfficeEventActions } from "@/components/events/EventOfficeEventActions";
+import { VenueSelect } from "@/components/events/VenueSelect";
+import { useVenues } from "@/hooks/useVenues";
+import { confirmDoubleBooking, describeVenue } from "@/lib/services/venues";
 import { filterAndSortEvents } from "@/lib/events/filters";
+import { campusCurrency } from "@/lib/campus";
 
 const WORKSHOP_QUERY_SETTINGS = {
   staleTime: 5 * 60 * 1000,
@@ -110,6 +114,7 @@ const workshopSchema = z
       message: "Select a funding source",
     }),
     extraRequiredResources: z.string().optional(),
+    venueId: z.string().optional(),
     capacity: z.coerce
       .number()
       .int()
@@ -242,11 +247,15 @@ export default function WorkshopManager({
     handleSubmit,
     reset,
     register,
+    watch,
     formState: { errors },
   } = useForm<WorkshopFormValues>({
     resolver: zodResolver(workshopSchema) as Resolver<WorkshopFormValues>,
     defaultValues: defaultWorkshopValues(),
   });
+  const watchLocation = watch("location");
+  const watchCapacity = watch("capacity");
+  const { byId: venuesById } = useVenues({ includeInactive: true });
 
   const createMutation = useMutation({
     mutationFn: (payload: WorkshopPayload) =>
@@ -260,7 +269,11 @@ export default function WorkshopManager({
         closeDialog();
       }
     },
-    onError: (mutationError: unknown) => {
+    onError: (mutationError: unknown, payload) => {
+      if (confirmDoubleBooking(mutationError)) {
+        createMutation.mutate({ ...payload, allowDoubleBooking: true });
+        return;
+      }
       enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
     },
   });
@@ -273,7 +286,14 @@ export default function WorkshopManager({
       queryClient.invalidateQueries({ queryKey });
       closeDialog();
     },
-    onError: (mutationError: unknown) => {
+    onError: (mutationError: unknown, variables) => {
+      if (confirmDoubleBooking(mutationError)) {
+        updateMutation.mutate({
+          ...variables,
+          payload: { ...variables.payload, allowDoubleBooking: true },
+        });
+        return;
+      }
       enqueueSnackbar(resolveErrorMessage(mutationError), { variant: "error" });
     },
   });
@@ -296,7 +316,8 @@ export default function WorkshopManager({
       sendWorkshopCertificates(workshopId, token ?? undefined),
     onSuccess: (result) => {
       enqueueSnackbar(result.message ?? "Certificates sent successfully.", {
-        variant: "success",
+        variant:
+          result.queuedCount > 0 || result.failedCount > 0 ? "warning" : "success",
       });
     },
     onError: (mutationError: unknown) => {
@@ -463,6 +484,7 @@ export default function WorkshopManager({
       price: workshop.price ?? 0,
       fundingSource: workshop.fundingSource,
       extraRequiredResources: workshop.extraRequiredResources ?? "",
+      venueId: workshop.venueId ?? "",
       capacity: workshop.capacity,
     });
     setDialogOpen(true);
@@ -484,6 +506,8 @@ export default function WorkshopManager({
       fundingSource: values.fundingSource,
       extraRequiredResources:
         values.extraRequiredResources?.trim() || undefined,
+      // Empty clears the room on edit
+      venueId: values.venueId ?? "",
       capacity: values.capacity,
     };
 
@@ -843,8 +867,15 @@ export default function WorkshopManager({
                       {focusedWorkshop.requiredBudget.toLocaleString()}
                     </Typography>
                     <Typography variant="body2">
-                      Ticket price: EGP {focusedWorkshop.price?.toLocaleString() ?? "0"}
+                      Ticket price: {campusCurrency(focusedWorkshop.location)}{" "}
+                      {focusedWorkshop.price?.toLocaleString() ?? "0"}
                     </Typography>
+                    {focusedWorkshop.venueId &&
+                    venuesById.has(focusedWorkshop.venueId) ? (
+                      <Typography variant="body2">
+                        Room: {describeVenue(venuesById.get(focusedWorkshop.venueId)!)}
+                      </Typography>
+                    ) : null}
                     {focusedWorkshop.extraRequiredResources ? (
                       <Typography variant="body2" color="text.secondary">
                         Extras: {focusedWorkshop.extraRequiredResources}
@@ -1280,8 +1311,14 @@ export default function WorkshopManager({
                             {workshop.requiredBudget.toLocaleString()}
                           </Typography>
                           <Typography variant="body2">
-                            Ticket price: EGP {workshop.price?.toLocaleString() ?? "0"}
+                            Ticket price: {campusCurrency(workshop.location)}{" "}
+                            {workshop.price?.toLocaleString() ?? "0"}
                           </Typography>
+                          {workshop.venueId && venuesById.has(workshop.venueId) ? (
+                            <Typography variant="body2">
+                              Room: {describeVenue(venuesById.get(workshop.venueId)!)}
+                            </Typography>
+                          ) : null}
                           {workshop.extraRequiredResources ? (
                             <Typography variant="body2" color="text.secondary">
                               Extras: {workshop.extraRequiredResources}
@@ -1398,6 +1435,20 @@ export default function WorkshopManager({
                     ))}
                   </TextField>
                 </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <Controller
+                    name="venueId"
+                    control={control}
+                    render={({ field }) => (
+                      <VenueSelect
+                        value={field.value}
+                        onChange={field.onChange}
+                        campus={watchLocation}
+                        capacity={Number(watchCapacity) || undefined}
+                      />
+                    )}
+                  />
+                </Grid>
                 <Grid size={{ xs: 12, md: 6 }}>
                   <Controller
                     name="startDate"
@@ -1646,7 +1697,7 @@ export default function WorkshopManager({
                     multiline
                     minRows={2}
                     {...register("extraRequiredResources")}
-                    helperText="List any special equipment or spaces needed."
+                    helperText="Anything the room does not already provide."
                   />
                 </Grid>
               </Grid>
@@ -1855,6 +1906,7 @@ function defaultWorkshopValues(): WorkshopFormValues {
     price: 0,
     fundingSource: FundingSource.GUC,
     extraRequiredResources: "",
+    venueId: "",
     capacity: 20,
   };
 }
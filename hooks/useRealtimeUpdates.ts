@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { NotificationEntry, VendorPoll } from "@/lib/types";
+import {
+  subscribeToRealtimeUpdates,
+  type RealtimeStatus,
+} from "@/lib/services/notifications";
+
+interface RealtimeCallbacks {
+  onNotification?: (notification: NotificationEntry) => void;
+  onPoll?: () => void;
+}
+
+/**
+ * Keeps one notification stream open for the signed-in session and applies
+ * registration count and poll vote pushes to the react-query cache.
+ */
+export function useRealtimeUpdates(
+  token: string | undefined,
+  callbacks: RealtimeCallbacks
+) {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<RealtimeStatus>("connecting");
+  const callbacksRef = useRef(callbacks);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  }, [callbacks]);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    return subscribeToRealtimeUpdates(token, {
+      onStatusChange: setStatus,
+      onNotification: (notification) =>
+        callbacksRef.current.onNotification?.(notification),
+      onPoll: () => callbacksRef.current.onPoll?.(),
+      onRegistrationCount: ({ eventId }) => {
+        queryClient.invalidateQueries({ queryKey: ["event", eventId] });
+        queryClient.invalidateQueries({ queryKey: ["events"] });
+      },
+      onPollVotes: (update) => {
+        queryClient.setQueriesData<VendorPoll[]>(
+          { queryKey: ["vendor-polls"] },
+          (polls) =>
+            polls?.map((poll) =>
+              poll.id === update.pollId
+                ? {
+                    ...poll,
+                    totalVotes: update.totalVotes,
+                    options: poll.options.map((option) => ({
+                      ...option,
+                      votes:
+                        update.vendors.find(
+                          (vendor) => vendor.vendorId === option.vendorId
+                        )?.votes ?? option.votes,
+                    })),
+                  }
+                : poll
+            )
+        );
+      },
+    });
+  }, [token, queryClient]);
+
+  return status;
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuthToken } from "./useAuthToken";
+import { fetchVenues, type Venue } from "@/lib/services/venues";
+import type { Location } from "@/lib/types";
+
+/**
+ * Loads the room inventory for pickers and event cards. `byId` also holds
+ * retired rooms when `includeInactive` is set, so past events keep their name.
+ */
+export function useVenues(options: { campus?: Location; includeInactive?: boolean } = {}) {
+  const token = useAuthToken();
+  const { campus, includeInactive } = options;
+
+  const query = useQuery({
+    queryKey: ["venues", campus ?? "all", includeInactive ? "all" : "active", token ?? "public"],
+    queryFn: () => fetchVenues({ campus, includeInactive }, token ?? undefined),
+    enabled: Boolean(token),
+  });
+
+  const byId = useMemo(
+    () => new Map<string, Venue>((query.data ?? []).map((venue) => [venue.id, venue])),
+    [query.data]
+  );
+
+  return { ...query, venues: query.data ?? [], byId };
+}
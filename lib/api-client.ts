@@ -97,6 +97,64 @@ export async function apiFetch<TResponse, TBody = unknown>(
   return parseJson<TResponse>(response);
 }
 
+/** Fetches a file endpoint and returns the body with the server-suggested filename. */
+export async function apiDownload(
+  path: string,
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  const url = path.startsWith("http")
+    ? path
+    : `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+
+  const headers = new Headers();
+  headers.set("Accept", "application/octet-stream");
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  const response = await fetch(url, {
+    method: "GET",
+    headers,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    let message = "Failed to download file.";
+    try {
+      const data = (await response.json()) as { message?: string };
+      if (data?.message) {
+        message = data.message;
+      }
+    } catch {
+      message = response.statusText || message;
+    }
+    throw new Error(message);
+  }
+
+  const blob = await response.blob();
+  const disposition = response.headers.get("Content-Disposition");
+  const filename = disposition ? extractFilenameFromDisposition(disposition) : undefined;
+
+  return { blob, filename };
+}
+
+function extractFilenameFromDisposition(headerValue: string): string | undefined {
+  const utf8Match = headerValue.match(/filename\*=(?:UTF-8'')?([^;]+)/i);
+  if (utf8Match && utf8Match[1]) {
+    try {
+      return decodeURIComponent(utf8Match[1].trim().replace(/(^\"|\"$)/g, ""));
+    } catch {
+      return utf8Match[1].trim().replace(/(^\"|\"$)/g, "");
+    }
+  }
+
+  const asciiMatch = headerValue.match(/filename="?([^\";]+)"?/i);
+  if (asciiMatch && asciiMatch[1]) {
+    return asciiMatch[1].trim();
+  }
+  return undefined;
+}
+
 async function parseError(response: Response): Promise<ApiError> {
   try {
     const data = await parseJson<Partial<ApiError>>(response);
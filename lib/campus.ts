@@ -0,0 +1,61 @@
+import { Location } from "@/lib/types";
+import { formatDateTime } from "@/lib/date";
+import type { CampusDirectory } from "@/lib/services/campuses";
+
+interface CampusSettings {
+  currency: string;
+  timeZone: string;
+}
+
+// Fallbacks until the server's /campuses answer is applied with applyCampusDirectory
+const CAMPUS_SETTINGS: Record<string, CampusSettings> = {
+  [Location.Cairo]: { currency: "EGP", timeZone: "Africa/Cairo" },
+  [Location.Berlin]: { currency: "EUR", timeZone: "Europe/Berlin" },
+};
+
+let walletCurrencyCode = CAMPUS_SETTINGS[Location.Cairo].currency;
+
+/** Uses the currencies and time zones the server is configured with. */
+export function applyCampusDirectory(directory: CampusDirectory) {
+  for (const campus of directory.campuses) {
+    CAMPUS_SETTINGS[campus.location] = {
+      currency: campus.currency,
+      timeZone: campus.timeZone,
+    };
+  }
+  walletCurrencyCode = directory.walletCurrency;
+}
+
+/** Wallet balances are held in this currency; other campuses pay by card. */
+export function walletCurrency() {
+  return walletCurrencyCode;
+}
+
+export function getCampusSettings(location?: Location | string | null) {
+  return CAMPUS_SETTINGS[location as Location] ?? CAMPUS_SETTINGS[Location.Cairo];
+}
+
+export function campusCurrency(location?: Location | string | null) {
+  return getCampusSettings(location).currency;
+}
+
+export function campusTimeZone(location?: Location | string | null) {
+  return getCampusSettings(location).timeZone;
+}
+
+export function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Formats an event time in the campus time zone rather than the browser's. */
+export function formatCampusDateTime(
+  value: string | Date,
+  location?: Location | string | null,
+  format?: string
+) {
+  return formatDateTime(value, format, campusTimeZone(location));
+}
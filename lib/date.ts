@@ -1,14 +1,30 @@
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
 
 dayjs.extend(relativeTime);
+dayjs.extend(utc);
+dayjs.extend(timezone);
 
-export function formatDateTime(value: string | Date, format = "MMM D, YYYY h:mm A") {
-  return dayjs(value).format(format);
+function inZone(value: string | Date, timeZone?: string) {
+  return timeZone ? dayjs(value).tz(timeZone) : dayjs(value);
 }
 
-export function formatDate(value: string | Date, format = "MMM D, YYYY") {
-  return dayjs(value).format(format);
+export function formatDateTime(
+  value: string | Date,
+  format = "MMM D, YYYY h:mm A",
+  timeZone?: string
+) {
+  return inZone(value, timeZone).format(format);
+}
+
+export function formatDate(
+  value: string | Date,
+  format = "MMM D, YYYY",
+  timeZone?: string
+) {
+  return inZone(value, timeZone).format(format);
 }
 
 export function formatRelative(value: string | Date) {
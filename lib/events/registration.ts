@@ -0,0 +1,60 @@
+import {
+  EventType,
+  TicketTierAudience,
+  UserRole,
+  type EventSummary,
+  type EventTicketTier,
+} from "@/lib/types";
+
+// Missing audiences are open to every role
+const TIER_AUDIENCE_ROLES: Partial<Record<TicketTierAudience, UserRole[]>> = {
+  [TicketTierAudience.Student]: [UserRole.Student],
+  [TicketTierAudience.Staff]: [UserRole.Staff, UserRole.Professor, UserRole.TA],
+};
+
+/** Workshops and trips always take registrations; seminars and conferences opt in. */
+export function acceptsRegistrations(
+  event: Pick<EventSummary, "eventType" | "registrationEnabled"> | null | undefined
+) {
+  if (!event) return false;
+  if (event.eventType === EventType.Workshop || event.eventType === EventType.Trip) {
+    return true;
+  }
+  return (
+    (event.eventType === EventType.Seminar || event.eventType === EventType.Conference) &&
+    Boolean(event.registrationEnabled)
+  );
+}
+
+export function ticketTierOpenTo(audience: TicketTierAudience, role?: UserRole) {
+  const roles = TIER_AUDIENCE_ROLES[audience];
+  return !roles || (Boolean(role) && roles.includes(role as UserRole));
+}
+
+export function isTierSoldOut(tier: EventTicketTier) {
+  return typeof tier.capacity === "number" && tier.capacity > 0 && tier.sold >= tier.capacity;
+}
+
+/** Tier a new registration lands in when the user has only one to choose from. */
+export function defaultTicketTier(
+  event: Pick<EventSummary, "ticketTiers" | "myTicketTier"> | null | undefined,
+  role?: UserRole
+) {
+  if (event?.myTicketTier) return event.myTicketTier;
+  const open = (event?.ticketTiers ?? []).filter(
+    (tier) => ticketTierOpenTo(tier.audience, role) && !isTierSoldOut(tier)
+  );
+  return open.length === 1 ? open[0].audience : undefined;
+}
+
+/** List price before discounts: the tier's price when the event sells tiers. */
+export function registrationPrice(
+  event: Pick<EventSummary, "price" | "ticketTiers"> | null | undefined,
+  audience?: TicketTierAudience
+) {
+  if (event?.ticketTiers?.length) {
+    const tier = event.ticketTiers.find((entry) => entry.audience === audience);
+    return Math.max(tier?.price ?? 0, 0);
+  }
+  return Math.max(event?.price ?? 0, 0);
+}
@@ -7,6 +7,7 @@ import type {
   VendorStatus,
 } from "@/lib/types";
 import { BazaarBoothSize } from "@/server/models/Event";
+import type { VendorApplicationPayment } from "@/lib/services/vendor";
 
 export interface AdminUser {
   id: string;
@@ -49,6 +50,8 @@ export interface AdminVendorApplication {
   boothStartTime?: string | null;
   boothEndTime?: string | null;
   boothDurationWeeks?: number | null;
+  hasPaid?: boolean;
+  payment?: VendorApplicationPayment;
 }
 
 export interface AdminVendor {
@@ -220,6 +223,25 @@ export async function updateVendorApplicationStatus(
   }
 }
 
+export async function extendVendorPaymentDeadline(
+  options: {
+    vendorId: string;
+    eventId: string;
+    dueDate: string;
+    reason?: string;
+  },
+  token?: string
+) {
+  return apiFetch<AdminActionResponse>(
+    `/vendors/bazaar-application/payment-deadline`,
+    {
+      method: "PATCH",
+      body: options,
+      token,
+    }
+  );
+}
+
 export async function rejectUser(
   userId: string,
   reason: string | undefined,
@@ -257,6 +279,43 @@ export async function blockUser(userId: string, token?: string) {
   return response;
 }
 
+export async function adjustUserWallet(
+  userId: string,
+  payload: { amount: number; reason: string },
+  token?: string
+) {
+  const response = await apiFetch<
+    AdminActionResponse,
+    { amount: number; reason: string }
+  >(`/admin/users/${userId}/wallet/adjustments`, {
+    method: "POST",
+    body: payload,
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to adjust wallet");
+  }
+
+  return response;
+}
+
+export async function rebuildUserWallet(userId: string, token?: string) {
+  const response = await apiFetch<AdminActionResponse>(
+    `/admin/users/${userId}/wallet/rebuild`,
+    {
+      method: "POST",
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to rebuild wallet balance");
+  }
+
+  return response;
+}
+
 export async function fetchAdminUsers(token?: string): Promise<AdminUser[]> {
   const response = await apiFetch<{
     success: boolean;
@@ -550,3 +609,81 @@ export async function unblockAdmin(adminId: string, token?: string) {
 
   return response;
 }
+
+export type EmailOutboxStatus = "Queued" | "Sending" | "Sent" | "Failed";
+
+export interface EmailOutboxMessage {
+  id: string;
+  category: string;
+  to: string;
+  subject: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  sentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailOutboxPage {
+  messages: EmailOutboxMessage[];
+  total: number;
+  page: number;
+  limit: number;
+  summary: Record<EmailOutboxStatus, number>;
+}
+
+interface EmailOutboxResponse {
+  success: boolean;
+  message?: string;
+  data?: EmailOutboxPage;
+}
+
+interface EmailOutboxMessageResponse {
+  success: boolean;
+  message?: string;
+  data?: EmailOutboxMessage;
+}
+
+export async function fetchEmailOutbox(
+  options: { status?: EmailOutboxStatus; page?: number; limit?: number },
+  token?: string
+): Promise<EmailOutboxPage> {
+  const params = new URLSearchParams();
+  if (options.status) params.set("status", options.status);
+  if (options.page) params.set("page", String(options.page));
+  if (options.limit) params.set("limit", String(options.limit));
+  const query = params.toString();
+
+  const response = await apiFetch<EmailOutboxResponse>(
+    `/admin/email-outbox${query ? `?${query}` : ""}`,
+    {
+      method: "GET",
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load email outbox");
+  }
+
+  return response.data;
+}
+
+export async function resendOutboxEmail(messageId: string, token?: string) {
+  const response = await apiFetch<EmailOutboxMessageResponse>(
+    `/admin/email-outbox/${messageId}/resend`,
+    {
+      method: "POST",
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to resend email");
+  }
+
+  return response;
+}
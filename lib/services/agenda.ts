@@ -0,0 +1,159 @@
+import { apiDownload, apiFetch } from "@/lib/api-client";
+
+export interface AgendaSession {
+  id: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  room?: string;
+  track?: string;
+  speakers: string[];
+  abstract?: string;
+  bookmarkCount: number;
+  bookmarked: boolean;
+  clashesWith: string[];
+}
+
+export interface ConferenceAgenda {
+  eventId: string;
+  eventName: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  tracks: string[];
+  rooms: string[];
+  sessions: AgendaSession[];
+}
+
+export interface ScheduleEntry extends AgendaSession {
+  eventId: string;
+  eventName: string;
+  location: string;
+}
+
+export interface AgendaSessionPayload {
+  title: string;
+  startTime: string;
+  endTime: string;
+  room?: string;
+  track?: string;
+  speakers: string[];
+  abstract?: string;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+export async function fetchConferenceAgenda(eventId: string, token?: string) {
+  const response = await apiFetch<ApiResponse<ConferenceAgenda>>(
+    `/agenda/events/${eventId}`,
+    { token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load agenda");
+  }
+  return response.data;
+}
+
+export async function fetchMySchedule(token?: string) {
+  const response = await apiFetch<ApiResponse<ScheduleEntry[]>>(
+    "/agenda/my-schedule",
+    { token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load your schedule");
+  }
+  return response.data ?? [];
+}
+
+export async function addAgendaSession(
+  eventId: string,
+  payload: AgendaSessionPayload,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<AgendaSession>, AgendaSessionPayload>(
+    `/agenda/events/${eventId}/sessions`,
+    { method: "POST", body: payload, token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to add session");
+  }
+  return response.message;
+}
+
+export async function updateAgendaSession(
+  eventId: string,
+  sessionId: string,
+  payload: AgendaSessionPayload,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<AgendaSession>, AgendaSessionPayload>(
+    `/agenda/events/${eventId}/sessions/${sessionId}`,
+    { method: "PUT", body: payload, token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to update session");
+  }
+  return response.message;
+}
+
+export async function deleteAgendaSession(
+  eventId: string,
+  sessionId: string,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<null>>(
+    `/agenda/events/${eventId}/sessions/${sessionId}`,
+    { method: "DELETE", token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to delete session");
+  }
+  return response.message;
+}
+
+export async function bookmarkAgendaSession(
+  eventId: string,
+  sessionId: string,
+  token?: string
+) {
+  const response = await apiFetch<
+    ApiResponse<{ session: AgendaSession; clashes: ScheduleEntry[] }>
+  >(`/agenda/events/${eventId}/sessions/${sessionId}/bookmark`, {
+    method: "POST",
+    token,
+  });
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to bookmark session");
+  }
+  return { ...response.data, message: response.message };
+}
+
+export async function removeAgendaBookmark(
+  eventId: string,
+  sessionId: string,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<AgendaSession>>(
+    `/agenda/events/${eventId}/sessions/${sessionId}/bookmark`,
+    { method: "DELETE", token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to remove bookmark");
+  }
+  return response.message;
+}
+
+export async function downloadAgendaCalendarFile(
+  eventId: string,
+  options: { mine?: boolean } = {},
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  return apiDownload(
+    `/agenda/events/${eventId}/calendar.ics${options.mine ? "?mine=true" : ""}`,
+    token
+  );
+}
@@ -0,0 +1,33 @@
+import { apiFetch } from "@/lib/api-client";
+import type { Location } from "@/lib/types";
+
+export interface CampusSettings {
+  location: Location;
+  currency: string;
+  timeZone: string;
+}
+
+export interface CampusDirectory {
+  walletCurrency: string;
+  campuses: CampusSettings[];
+}
+
+interface CampusDirectoryResponse {
+  success: boolean;
+  message?: string;
+  data?: CampusDirectory;
+}
+
+export async function fetchCampusDirectory(): Promise<CampusDirectory> {
+  // Env-driven settings change only on deploy, so a few minutes of caching is fine
+  const response = await apiFetch<CampusDirectoryResponse>("/campuses", {
+    method: "GET",
+    next: { revalidate: 300 },
+  });
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load campuses");
+  }
+
+  return response.data;
+}
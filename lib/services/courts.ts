@@ -23,6 +23,10 @@ interface CourtsResponse {
     timezone?: string;
     openingHours?: CourtOpeningHourDto[];
     exceptions?: CourtExceptionDto[];
+    weeklyQuota?: number;
+    bookingSlotMinutes?: number;
+    pricePerHour?: number;
+    currency?: string;
   }>;
 }
 
@@ -45,6 +49,25 @@ export interface CourtAvailability {
   timezone?: string;
   openingHours: CourtOpeningHour[];
   exceptions: CourtException[];
+  weeklyQuota?: number;
+  bookingSlotMinutes: number;
+  pricePerHour: number; // 0 for free courts
+  currency: string;
+}
+
+/** Display price for a slot; the server recalculates it when booking. */
+export function courtSlotPrice(
+  court: Pick<CourtAvailability, "pricePerHour">,
+  startTime: string,
+  endTime: string
+) {
+  const toMinutes = (value: string) => {
+    const [hours, minutes] = value.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  const minutes = toMinutes(endTime) - toMinutes(startTime);
+  if (!court.pricePerHour || minutes <= 0) return 0;
+  return Math.round(((court.pricePerHour * minutes) / 60) * 100) / 100;
 }
 
 export async function fetchCourts(token?: string): Promise<CourtAvailability[]> {
@@ -75,6 +98,10 @@ export async function fetchCourts(token?: string): Promise<CourtAvailability[]>
           reason: exception.reason,
         }))
       : [],
+    weeklyQuota: court.weeklyQuota,
+    bookingSlotMinutes: court.bookingSlotMinutes ?? 60,
+    pricePerHour: court.pricePerHour ?? 0,
+    currency: court.currency ?? "EGP",
   }));
 }
 
@@ -92,11 +119,34 @@ interface CourtAvailabilityResponse {
   };
 }
 
+export interface CourtPaymentSummary {
+  id: string;
+  amount: number;
+  currency: string;
+  method: "Wallet" | "CreditCard";
+  status: "Paid" | "Refunded";
+  receiptNumber: string;
+  paidAt: string;
+  refundAmount?: number;
+  refundedAt?: string;
+}
+
 interface CourtReservationResponse {
   success: boolean;
   message: string;
 }
 
+interface CourtPaymentIntentResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    clientSecret: string;
+    paymentIntentId: string;
+    amount: number;
+    currency: string;
+  };
+}
+
 export async function fetchCourtAvailabilitySlots(
   courtId: string,
   date: string,
@@ -119,7 +169,7 @@ export async function fetchCourtAvailabilitySlots(
 
 export async function reserveCourtSlot(
   courtId: string,
-  payload: { date: string; startTime: string; endTime?: string },
+  payload: { date: string; startTime: string; endTime?: string; promoCode?: string },
   token?: string
 ) {
   const response = await apiFetch<CourtReservationResponse, typeof payload>(
@@ -137,3 +187,261 @@ export async function reserveCourtSlot(
 
   return response.message;
 }
+
+export async function createCourtPaymentIntent(
+  courtId: string,
+  payload: { date: string; startTime: string; endTime?: string; promoCode?: string },
+  token?: string
+) {
+  const response = await apiFetch<CourtPaymentIntentResponse, typeof payload>(
+    `/courts/${courtId}/reservations/payment-intent`,
+    {
+      method: "POST",
+      body: payload,
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to start card payment");
+  }
+
+  return response.data;
+}
+
+export async function finalizeCourtPayment(
+  courtId: string,
+  paymentIntentId: string,
+  token?: string
+) {
+  const response = await apiFetch<CourtReservationResponse, { paymentIntentId: string }>(
+    `/courts/${courtId}/reservations/finalize`,
+    {
+      method: "POST",
+      body: { paymentIntentId },
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to confirm card payment");
+  }
+
+  return response.message;
+}
+
+export interface RecurringReservationPayload {
+  startDate: string;
+  startTime: string;
+  endTime?: string;
+  weeks?: number;
+  until?: string;
+  promoCode?: string;
+}
+
+export interface RecurringOccurrence {
+  date: string;
+  startTime: string;
+  endTime: string;
+  isAvailable: boolean;
+  reason?: string;
+}
+
+interface RecurringPreviewResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    courtId: string;
+    occurrences: RecurringOccurrence[];
+    availableCount: number;
+    conflictCount: number;
+    pricePerOccurrence: number;
+    currency: string;
+  };
+}
+
+interface RecurringReservationResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    seriesId: string;
+    reservations: Array<{
+      id: string;
+      courtId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+    }>;
+    skipped: RecurringOccurrence[];
+    amountCharged: number;
+    currency: string;
+  };
+}
+
+export interface StudentCourtReservation {
+  id: string;
+  courtId: string;
+  courtType?: CourtType;
+  venue?: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  seriesId?: string;
+  cancellableUntil: string;
+  payment?: CourtPaymentSummary;
+}
+
+interface StudentCourtReservationsResponse {
+  success: boolean;
+  message: string;
+  data?: StudentCourtReservation[];
+}
+
+export async function previewRecurringCourtReservation(
+  courtId: string,
+  payload: RecurringReservationPayload,
+  token?: string
+) {
+  const response = await apiFetch<RecurringPreviewResponse, RecurringReservationPayload>(
+    `/courts/${courtId}/reservations/recurring/preview`,
+    {
+      method: "POST",
+      body: payload,
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to preview recurring reservation");
+  }
+
+  return response.data;
+}
+
+export async function reserveRecurringCourtSlots(
+  courtId: string,
+  payload: RecurringReservationPayload,
+  token?: string
+) {
+  const response = await apiFetch<RecurringReservationResponse, RecurringReservationPayload>(
+    `/courts/${courtId}/reservations/recurring`,
+    {
+      method: "POST",
+      body: payload,
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to reserve recurring slots");
+  }
+
+  return response;
+}
+
+export async function fetchMyCourtReservations(token?: string) {
+  const response = await apiFetch<StudentCourtReservationsResponse>(
+    "/courts/reservations/mine",
+    {
+      method: "GET",
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load your reservations");
+  }
+
+  return response.data ?? [];
+}
+
+export async function cancelCourtReservationSeries(seriesId: string, token?: string) {
+  const response = await apiFetch<{ success: boolean; message: string }>(
+    `/courts/reservations/series/${seriesId}`,
+    {
+      method: "DELETE",
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to cancel reservation series");
+  }
+
+  return response.message;
+}
+
+export async function cancelCourtReservation(reservationId: string, token?: string) {
+  const response = await apiFetch<{ success: boolean; message: string }>(
+    `/courts/reservations/${reservationId}`,
+    {
+      method: "DELETE",
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to cancel reservation");
+  }
+
+  return response.message;
+}
+
+export interface CourtReservationEntry {
+  id: string;
+  userId: string;
+  studentName: string;
+  studentGucId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  seriesId?: string;
+  noShow: boolean;
+}
+
+interface CourtReservationsResponse {
+  success: boolean;
+  message: string;
+  data?: CourtReservationEntry[];
+}
+
+export async function fetchCourtReservationsForDate(
+  courtId: string,
+  date: string,
+  token?: string
+) {
+  const response = await apiFetch<CourtReservationsResponse>(
+    `/courts/${courtId}/reservations?date=${encodeURIComponent(date)}`,
+    {
+      method: "GET",
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load court reservations");
+  }
+
+  return response.data ?? [];
+}
+
+export async function markCourtReservationNoShow(
+  reservationId: string,
+  noShow: boolean,
+  token?: string
+) {
+  const response = await apiFetch<{ success: boolean; message: string }, { noShow: boolean }>(
+    `/courts/reservations/${reservationId}/no-show`,
+    {
+      method: "PATCH",
+      body: { noShow },
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to update no-show status");
+  }
+
+  return response.message;
+}
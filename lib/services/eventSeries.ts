@@ -0,0 +1,133 @@
+import { apiFetch } from "@/lib/api-client";
+import type { EventType, Location, UserRole } from "@/lib/types";
+
+export type SeriesFrequency = "Weekly" | "Monthly" | "Yearly";
+
+export interface SeriesOccurrence {
+  id: string;
+  name: string;
+  seriesIndex: number;
+  startDate: string;
+  endDate: string;
+  registeredCount: number;
+  archived: boolean;
+}
+
+export interface EventSeries {
+  id: string;
+  name: string;
+  eventType: EventType;
+  frequency: SeriesFrequency;
+  interval: number;
+  cancelledAt?: string;
+  occurrences: SeriesOccurrence[];
+}
+
+export interface DuplicateEventPayload {
+  offsetDays?: number;
+  startDate?: string;
+  draft?: boolean;
+}
+
+export interface RecurrencePayload {
+  frequency: SeriesFrequency;
+  interval: number;
+  count?: number;
+  until?: string;
+  draft?: boolean; // new occurrences stay hidden until published one by one
+}
+
+export interface SeriesUpdatePayload {
+  name?: string;
+  description?: string;
+  location?: Location;
+  capacity?: number | null;
+  price?: number | null;
+  allowedRoles?: UserRole[];
+}
+
+export interface SeriesCancellation {
+  cancelled: number;
+  kept: Array<{ id: string; name: string; startDate: string; reason: string }>;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+export async function duplicateEvent(
+  eventId: string,
+  payload: DuplicateEventPayload,
+  token?: string
+) {
+  const response = await apiFetch<
+    ApiResponse<{ id: string; name: string; startDate: string; endDate: string }>,
+    DuplicateEventPayload
+  >(`/events/${eventId}/duplicate`, { method: "POST", body: payload, token });
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to duplicate event");
+  }
+  return response.message;
+}
+
+export async function createEventSeries(
+  eventId: string,
+  payload: RecurrencePayload,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<EventSeries>, RecurrencePayload>(
+    `/events/${eventId}/series`,
+    { method: "POST", body: payload, token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to create series");
+  }
+  return { series: response.data, message: response.message };
+}
+
+export async function fetchEventSeries(seriesId: string, token?: string) {
+  const response = await apiFetch<ApiResponse<EventSeries>>(
+    `/events/series/${seriesId}`,
+    { token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load series");
+  }
+  return response.data;
+}
+
+/** `fromEventId` limits the change to that occurrence and the ones after it. */
+export async function updateEventSeries(
+  seriesId: string,
+  payload: SeriesUpdatePayload,
+  token?: string,
+  fromEventId?: string
+) {
+  const query = fromEventId ? `?from=${encodeURIComponent(fromEventId)}` : "";
+  const response = await apiFetch<ApiResponse<{ updated: number }>, SeriesUpdatePayload>(
+    `/events/series/${seriesId}${query}`,
+    { method: "PUT", body: payload, token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to update series");
+  }
+  return response.message;
+}
+
+export async function cancelEventSeries(
+  seriesId: string,
+  token?: string,
+  fromEventId?: string
+) {
+  const query = fromEventId ? `?from=${encodeURIComponent(fromEventId)}` : "";
+  const response = await apiFetch<ApiResponse<SeriesCancellation>>(
+    `/events/series/${seriesId}${query}`,
+    { method: "DELETE", token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to cancel series");
+  }
+  return { ...response.data, message: response.message };
+}
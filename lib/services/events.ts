@@ -1,15 +1,25 @@
-import { apiFetch } from "@/lib/api-client";
-import { API_BASE_URL } from "@/lib/config";
+import { apiDownload, apiFetch } from "@/lib/api-client";
 import {
   EventType,
   FundingSource,
   Location,
   UserRole,
   type AttendanceReportData,
+  type Coupon,
+  type CouponInput,
+  type DiscountQuote,
   type EventSummary,
+  type PublicationStatus,
+  type EventRefundPolicy,
+  type EventTypeRefundPolicy,
+  type EventWaitlistStatus,
+  type RefundPolicyRules,
+  type RegistrationSettingsInput,
   type SalesReportData,
+  type TicketTierAudience,
   type VendorSummary,
 } from "@/lib/types";
+import type { VenueBookingOptions } from "@/lib/services/venues";
 
 interface EventApiResponse {
   success: boolean;
@@ -45,6 +55,14 @@ interface EventApiItem {
   requiredBudget?: number;
   archived?: boolean;
   allowedRoles?: string[];
+  registrationEnabled?: boolean;
+  ticketTiers?: Array<{ audience: TicketTierAudience; price: number; capacity?: number }>;
+  ticketHolders?: Array<{ userId: string; audience: TicketTierAudience }>;
+  seriesId?: string;
+  seriesIndex?: number;
+  publicationStatus?: PublicationStatus;
+  publishAt?: string;
+  venueId?: string;
 }
 
 interface UpcomingBazaarsResponse {
@@ -65,6 +83,18 @@ interface EventMutationResponse {
   data?: unknown;
 }
 
+interface PublicationResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    id: string;
+    publicationStatus: PublicationStatus;
+    publishAt?: string;
+    publishedAt?: string;
+    announced: boolean;
+  };
+}
+
 interface ArchiveEventResponse {
   success: boolean;
   message: string;
@@ -117,6 +147,25 @@ interface StripeFinalizeResponse {
   };
 }
 
+interface WaitlistResponse {
+  success: boolean;
+  message: string;
+  data?: EventWaitlistStatus;
+}
+
+export interface TicketCheckInResult {
+  userId: string;
+  attendeeName: string;
+  checkedInAt: string;
+  checkedInCount: number;
+}
+
+interface TicketCheckInResponse {
+  success: boolean;
+  message: string;
+  data?: TicketCheckInResult;
+}
+
 interface RoleRestrictionsResponse {
   success: boolean;
   message?: string;
@@ -139,7 +188,13 @@ interface SalesReportResponse {
   data?: SalesReportData;
 }
 
-export interface BazaarPayload {
+// Create as a draft, or schedule the publish time; omit both to publish now
+export interface PublicationOptions {
+  draft?: boolean;
+  publishAt?: string;
+}
+
+export interface BazaarPayload extends PublicationOptions, VenueBookingOptions {
   name: string;
   description: string;
   startDate: string | null;
@@ -149,7 +204,7 @@ export interface BazaarPayload {
   eventType?: EventType;
 }
 
-export interface TripPayload {
+export interface TripPayload extends PublicationOptions {
   name: string;
   description: string;
   startDate: string;
@@ -160,7 +215,7 @@ export interface TripPayload {
   price: number;
 }
 
-export interface ConferencePayload {
+export interface ConferencePayload extends PublicationOptions, VenueBookingOptions {
   name: string;
   description: string;
   startDate: string;
@@ -175,16 +230,17 @@ export interface ConferencePayload {
 export async function registerForWorkshop(
   workshopId: string,
   token?: string,
-  userId?: string
+  userId?: string,
+  ticketTier?: TicketTierAudience
 ): Promise<RegisterEventResponse> {
-  const response = await apiFetch<RegisterEventResponse, { userId?: string }>(
-    `/events/workshop/${workshopId}/register`,
-    {
-      method: "POST",
-      body: userId ? { userId } : undefined,
-      token,
-    }
-  );
+  const response = await apiFetch<
+    RegisterEventResponse,
+    { userId?: string; ticketTier?: TicketTierAudience }
+  >(`/events/workshop/${workshopId}/register`, {
+    method: "POST",
+    body: userId || ticketTier ? { userId, ticketTier } : undefined,
+    token,
+  });
 
   if (!response.success) {
     throw new Error(response.message ?? "Failed to register for this event");
@@ -193,15 +249,20 @@ export async function registerForWorkshop(
   return response;
 }
 
-export async function payForEventByWallet(eventId: string, token?: string) {
-  const response = await apiFetch<PayByWalletResponse, { useWalletBalance: boolean }>(
-    `/events/${eventId}/pay-by-wallet`,
-    {
-      method: "POST",
-      body: { useWalletBalance: true },
-      token,
-    }
-  );
+export async function payForEventByWallet(
+  eventId: string,
+  token?: string,
+  promoCode?: string,
+  ticketTier?: TicketTierAudience
+) {
+  const response = await apiFetch<
+    PayByWalletResponse,
+    { useWalletBalance: boolean; promoCode?: string; ticketTier?: TicketTierAudience }
+  >(`/events/${eventId}/pay-by-wallet`, {
+    method: "POST",
+    body: { useWalletBalance: true, promoCode, ticketTier },
+    token,
+  });
 
   if (!response.success) {
     throw new Error(response.message ?? "Failed to process wallet payment");
@@ -226,14 +287,20 @@ export async function cancelEventRegistration(eventId: string, token?: string) {
   return response;
 }
 
-export async function createStripePaymentIntent(eventId: string, token?: string) {
-  const response = await apiFetch<StripeIntentResponse>(
-    `/events/${eventId}/stripe/payment-intent`,
-    {
-      method: "POST",
-      token,
-    }
-  );
+export async function createStripePaymentIntent(
+  eventId: string,
+  token?: string,
+  promoCode?: string,
+  ticketTier?: TicketTierAudience
+) {
+  const response = await apiFetch<
+    StripeIntentResponse,
+    { promoCode?: string; ticketTier?: TicketTierAudience }
+  >(`/events/${eventId}/stripe/payment-intent`, {
+    method: "POST",
+    body: promoCode || ticketTier ? { promoCode, ticketTier } : undefined,
+    token,
+  });
 
   if (!response.success || !response.data) {
     throw new Error(response.message ?? "Failed to start card payment");
@@ -242,6 +309,34 @@ export async function createStripePaymentIntent(eventId: string, token?: string)
   return response.data;
 }
 
+interface DiscountQuoteResponse {
+  success: boolean;
+  message: string;
+  data?: DiscountQuote;
+}
+
+export async function previewEventDiscount(
+  eventId: string,
+  promoCode: string,
+  token?: string,
+  ticketTier?: TicketTierAudience
+): Promise<DiscountQuote> {
+  const response = await apiFetch<
+    DiscountQuoteResponse,
+    { promoCode: string; ticketTier?: TicketTierAudience }
+  >(`/events/${eventId}/discount-quote`, {
+    method: "POST",
+    body: { promoCode, ticketTier },
+    token,
+  });
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "This promo code cannot be applied.");
+  }
+
+  return response.data;
+}
+
 export async function finalizeStripePayment(
   eventId: string,
   paymentIntentId: string,
@@ -263,6 +358,69 @@ export async function finalizeStripePayment(
   return response;
 }
 
+export async function fetchEventWaitlistStatus(
+  eventId: string,
+  token?: string
+): Promise<EventWaitlistStatus> {
+  const response = await apiFetch<WaitlistResponse>(`/events/${eventId}/waitlist`, {
+    method: "GET",
+    token,
+  });
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load waitlist status");
+  }
+
+  return response.data;
+}
+
+export async function joinEventWaitlist(eventId: string, token?: string) {
+  const response = await apiFetch<WaitlistResponse>(`/events/${eventId}/waitlist`, {
+    method: "POST",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to join the waitlist");
+  }
+
+  return response;
+}
+
+export async function leaveEventWaitlist(eventId: string, token?: string) {
+  const response = await apiFetch<WaitlistResponse>(`/events/${eventId}/waitlist`, {
+    method: "DELETE",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to leave the waitlist");
+  }
+
+  return response;
+}
+
+export async function checkInEventTicket(
+  eventId: string,
+  ticketCode: string,
+  token?: string
+) {
+  const response = await apiFetch<TicketCheckInResponse, { ticketCode: string }>(
+    `/events/${eventId}/check-in`,
+    {
+      method: "POST",
+      body: { ticketCode },
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to check in ticket");
+  }
+
+  return response.data;
+}
+
 export async function fetchUpcomingEvents(
   token?: string,
   currentUserId?: string,
@@ -533,6 +691,40 @@ export async function archiveEventById(id: string, token?: string): Promise<Arch
   return response;
 }
 
+export async function publishEvent(
+  id: string,
+  options: { publishAt?: string },
+  token?: string
+): Promise<string> {
+  const response = await apiFetch<PublicationResponse, { publishAt?: string }>(
+    `/events/${id}/publish`,
+    {
+      method: "PATCH",
+      body: options,
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to publish event");
+  }
+
+  return response.message;
+}
+
+export async function unpublishEvent(id: string, token?: string): Promise<string> {
+  const response = await apiFetch<PublicationResponse>(`/events/${id}/unpublish`, {
+    method: "PATCH",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to unpublish event");
+  }
+
+  return response.message;
+}
+
 export interface AttendanceReportFiltersInput {
   name?: string;
   eventType?: EventType;
@@ -632,18 +824,166 @@ export async function updateEventRoleRestrictions(
   };
 }
 
+interface EventRefundPolicyResponse {
+  success: boolean;
+  message: string;
+  data?: EventRefundPolicy;
+}
+
+export async function fetchEventRefundPolicy(
+  eventId: string,
+  token?: string
+): Promise<EventRefundPolicy> {
+  const response = await apiFetch<EventRefundPolicyResponse>(
+    `/events/${eventId}/refund-policy`,
+    { token }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load refund policy.");
+  }
+
+  return response.data;
+}
+
+/** Saves the event's own refund tiers, or clears them when `rules` is null. */
+export async function updateEventRefundPolicy(
+  eventId: string,
+  rules: RefundPolicyRules | null,
+  token?: string
+) {
+  const response = await apiFetch<EventRefundPolicyResponse, RefundPolicyRules>(
+    `/events/${eventId}/refund-policy`,
+    {
+      method: rules ? "PUT" : "DELETE",
+      body: rules ?? undefined,
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to update refund policy.");
+  }
+
+  return { ...response.data, message: response.message };
+}
+
+interface RegistrationSettingsResponse {
+  success: boolean;
+  message: string;
+}
+
+/** Opens or closes registration on a seminar or conference and sets its ticket tiers. */
+export async function updateEventRegistrationSettings(
+  eventId: string,
+  settings: RegistrationSettingsInput,
+  token?: string
+) {
+  const response = await apiFetch<RegistrationSettingsResponse, RegistrationSettingsInput>(
+    `/events/${eventId}/registration`,
+    {
+      method: "PUT",
+      body: settings,
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to update registration settings.");
+  }
+
+  return response.message;
+}
+
+interface RefundPoliciesResponse {
+  success: boolean;
+  message: string;
+  data?: EventTypeRefundPolicy[];
+}
+
+interface RefundPolicyResponse {
+  success: boolean;
+  message: string;
+  data?: EventTypeRefundPolicy;
+}
+
+export async function fetchRefundPolicies(
+  token?: string
+): Promise<EventTypeRefundPolicy[]> {
+  const response = await apiFetch<RefundPoliciesResponse>("/refund-policies", {
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load refund policies.");
+  }
+
+  return response.data ?? [];
+}
+
+export async function saveRefundPolicy(
+  eventType: EventType,
+  rules: RefundPolicyRules,
+  token?: string
+) {
+  const response = await apiFetch<RefundPolicyResponse, RefundPolicyRules>(
+    `/refund-policies/${encodeURIComponent(eventType)}`,
+    {
+      method: "PUT",
+      body: rules,
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to save refund policy.");
+  }
+
+  return response;
+}
+
+export async function resetRefundPolicy(eventType: EventType, token?: string) {
+  const response = await apiFetch<RefundPolicyResponse>(
+    `/refund-policies/${encodeURIComponent(eventType)}`,
+    {
+      method: "DELETE",
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to reset refund policy.");
+  }
+
+  return response;
+}
+
 export async function exportEventRegistrationsFile(
   eventId: string,
   token?: string
 ): Promise<{ blob: Blob; filename?: string }> {
-  return downloadEventAsset(`/events/${eventId}/export-registrations`, token);
+  return apiDownload(`/events/${eventId}/export-registrations`, token);
 }
 
 export async function generateEventQrCodeFile(
   eventId: string,
   token?: string
 ): Promise<{ blob: Blob; filename?: string }> {
-  return downloadEventAsset(`/events/${eventId}/generate-qr`, token);
+  return apiDownload(`/events/${eventId}/generate-qr`, token);
+}
+
+export async function downloadEventCalendarFile(
+  eventId: string,
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  return apiDownload(`/events/${eventId}/calendar.ics`, token);
+}
+
+export async function downloadEventTicketFile(
+  eventId: string,
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  return apiDownload(`/events/${eventId}/ticket`, token);
 }
 
 function mapEvent(event: EventApiItem, currentUserId?: string): EventSummary {
@@ -651,6 +991,16 @@ function mapEvent(event: EventApiItem, currentUserId?: string): EventSummary {
     ? (event.registeredUsers ?? []).some((userId) => userId === currentUserId)
     : undefined;
   const registeredCount = event.registeredUsers?.length ?? 0;
+  const ticketHolders = event.ticketHolders ?? [];
+  const ticketTiers = event.ticketTiers?.length
+    ? event.ticketTiers.map((tier) => ({
+        ...tier,
+        sold: ticketHolders.filter((holder) => holder.audience === tier.audience).length,
+      }))
+    : undefined;
+  const myTicketTier = currentUserId
+    ? ticketHolders.find((holder) => holder.userId === currentUserId)?.audience
+    : undefined;
   const vendors: VendorSummary[] = (event.vendors ?? []).map(
     (vendorId, index) => ({
       id: vendorId,
@@ -682,6 +1032,14 @@ function mapEvent(event: EventApiItem, currentUserId?: string): EventSummary {
     requiredBudget: event.requiredBudget,
     archived: Boolean(event.archived),
     allowedRoles: sanitizeAllowedRoles(event.allowedRoles),
+    registrationEnabled: Boolean(event.registrationEnabled),
+    ticketTiers,
+    myTicketTier,
+    seriesId: event.seriesId,
+    seriesIndex: event.seriesIndex,
+    publicationStatus: event.publicationStatus,
+    publishAt: event.publishAt,
+    venueId: event.venueId || undefined,
   };
 }
 
@@ -706,59 +1064,62 @@ function buildReportQueryParams(params: Record<string, string | EventType | Sale
   return serialized.length ? serialized : "";
 }
 
-async function downloadEventAsset(
-  path: string,
-  token?: string
-): Promise<{ blob: Blob; filename?: string }> {
-  const url = path.startsWith("http")
-    ? path
-    : `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+interface CouponsResponse {
+  success: boolean;
+  message: string;
+  data?: Coupon[];
+}
 
-  const headers = new Headers();
-  headers.set("Accept", "application/octet-stream");
-  if (token) {
-    headers.set("Authorization", `Bearer ${token}`);
+interface CouponResponse {
+  success: boolean;
+  message: string;
+  data?: Coupon;
+}
+
+export async function fetchCoupons(token?: string): Promise<Coupon[]> {
+  const response = await apiFetch<CouponsResponse>("/coupons", { token });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load coupons.");
   }
 
-  const response = await fetch(url, {
-    method: "GET",
-    headers,
-    credentials: "include",
-  });
+  return response.data ?? [];
+}
 
-  if (!response.ok) {
-    let message = "Failed to download file.";
-    try {
-      const data = (await response.json()) as { message?: string };
-      if (data?.message) {
-        message = data.message;
-      }
-    } catch {
-      message = response.statusText || message;
+/** Creates a coupon, or updates it when `couponId` is given. */
+export async function saveCoupon(
+  input: CouponInput,
+  token?: string,
+  couponId?: string
+) {
+  const response = await apiFetch<CouponResponse, CouponInput>(
+    couponId ? `/coupons/${couponId}` : "/coupons",
+    {
+      method: couponId ? "PUT" : "POST",
+      body: input,
+      token,
     }
-    throw new Error(message);
-  }
+  );
 
-  const blob = await response.blob();
-  const disposition = response.headers.get("Content-Disposition");
-  const filename = disposition ? extractFilenameFromDisposition(disposition) : undefined;
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to save coupon.");
+  }
 
-  return { blob, filename };
+  return response;
 }
 
-function extractFilenameFromDisposition(headerValue: string): string | undefined {
-  const utf8Match = headerValue.match(/filename\*=(?:UTF-8'')?([^;]+)/i);
-  if (utf8Match && utf8Match[1]) {
-    try {
-      return decodeURIComponent(utf8Match[1].trim().replace(/(^\"|\"$)/g, ""));
-    } catch {
-      return utf8Match[1].trim().replace(/(^\"|\"$)/g, "");
+export async function deleteCoupon(couponId: string, token?: string) {
+  const response = await apiFetch<{ success: boolean; message: string }>(
+    `/coupons/${couponId}`,
+    {
+      method: "DELETE",
+      token,
     }
-  }
+  );
 
-  const asciiMatch = headerValue.match(/filename="?([^\";]+)"?/i);
-  if (asciiMatch && asciiMatch[1]) {
-    return asciiMatch[1].trim();
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to delete coupon.");
   }
-  return undefined;
+
+  return response;
 }
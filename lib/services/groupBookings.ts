@@ -0,0 +1,170 @@
+import { apiDownload, apiFetch } from "@/lib/api-client";
+
+export type GroupSeatStatus =
+  | "Pending"
+  | "Confirmed"
+  | "Declined"
+  | "Cancelled"
+  | "Expired";
+
+export interface GroupSeat {
+  id: string;
+  email: string;
+  status: GroupSeatStatus;
+  attendeeName?: string;
+  isOrganizer: boolean;
+  refundAmount?: number;
+  hasTicket: boolean;
+}
+
+export interface GroupBooking {
+  id: string;
+  eventId: string;
+  eventName: string;
+  eventType?: string;
+  location?: string;
+  startDate?: string;
+  seatPrice: number;
+  currency: string;
+  totalAmount: number;
+  method: "Wallet" | "CreditCard";
+  receiptNumber: string;
+  paidAt?: string;
+  seats: GroupSeat[];
+}
+
+export interface GroupInvitation {
+  bookingId: string;
+  seatId: string;
+  eventId: string;
+  eventName: string;
+  eventType?: string;
+  location?: string;
+  startDate?: string;
+  registrationDeadline?: string;
+  expiresAt?: string;
+  organizerName: string;
+}
+
+export interface GroupBookingPayload {
+  emails: string[];
+  includeSelf: boolean;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+export async function fetchMyGroupBookings(token?: string) {
+  const response = await apiFetch<ApiResponse<GroupBooking[]>>(
+    "/group-bookings",
+    { token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load group bookings");
+  }
+  return response.data ?? [];
+}
+
+export async function fetchGroupInvitations(token?: string) {
+  const response = await apiFetch<ApiResponse<GroupInvitation[]>>(
+    "/group-bookings/invitations",
+    { token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load invitations");
+  }
+  return response.data ?? [];
+}
+
+export async function bookGroupWithWallet(
+  eventId: string,
+  payload: GroupBookingPayload,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<GroupBooking>, GroupBookingPayload>(
+    `/group-bookings/events/${eventId}`,
+    { method: "POST", body: payload, token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to book the group");
+  }
+  return { booking: response.data, message: response.message };
+}
+
+export async function createGroupBookingPaymentIntent(
+  eventId: string,
+  payload: GroupBookingPayload,
+  token?: string
+) {
+  const response = await apiFetch<
+    ApiResponse<{ clientSecret: string; paymentIntentId: string; bookingId: string }>,
+    GroupBookingPayload
+  >(`/group-bookings/events/${eventId}/payment-intent`, {
+    method: "POST",
+    body: payload,
+    token,
+  });
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to start card payment");
+  }
+  return response.data;
+}
+
+export async function finalizeGroupBookingPayment(
+  paymentIntentId: string,
+  token?: string
+) {
+  const response = await apiFetch<
+    ApiResponse<GroupBooking>,
+    { paymentIntentId: string }
+  >("/group-bookings/finalize", {
+    method: "POST",
+    body: { paymentIntentId },
+    token,
+  });
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to confirm card payment");
+  }
+  return { booking: response.data, message: response.message };
+}
+
+export async function respondToGroupInvitation(
+  invitation: Pick<GroupInvitation, "bookingId" | "seatId">,
+  accept: boolean,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<{ status: GroupSeatStatus }>, { accept: boolean }>(
+    `/group-bookings/${invitation.bookingId}/seats/${invitation.seatId}/respond`,
+    { method: "POST", body: { accept }, token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to answer the invitation");
+  }
+  return response.message;
+}
+
+export async function cancelGroupSeat(
+  bookingId: string,
+  seatId: string,
+  token?: string
+) {
+  const response = await apiFetch<ApiResponse<{ refundAmount: number }>>(
+    `/group-bookings/${bookingId}/seats/${seatId}`,
+    { method: "DELETE", token }
+  );
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to cancel the seat");
+  }
+  return response.message;
+}
+
+export async function downloadGroupSeatTicketFile(
+  bookingId: string,
+  seatId: string,
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  return apiDownload(`/group-bookings/${bookingId}/seats/${seatId}/ticket`, token);
+}
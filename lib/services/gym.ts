@@ -1,5 +1,11 @@
 import { apiFetch } from "@/lib/api-client";
-import type { GymSession, GymSessionType } from "@/lib/types";
+import type {
+  GymAttendanceStat,
+  GymSession,
+  GymSessionParticipants,
+  GymSessionTemplate,
+  GymSessionType,
+} from "@/lib/types";
 
 interface GymScheduleResponse {
   success: boolean;
@@ -13,6 +19,9 @@ interface GymScheduleResponse {
     maxParticipants: number;
     registeredCount?: number;
     registeredUsers?: string[];
+    waitlist?: string[];
+    attendance?: Array<{ userId: string }>;
+    templateId?: string;
   }>;
 }
 
@@ -53,6 +62,9 @@ export async function fetchGymSchedule(year: number, month: number, token?: stri
         : Array.isArray(session.registeredUsers)
           ? session.registeredUsers.length
           : 0,
+    waitlist: Array.isArray(session.waitlist) ? session.waitlist : [],
+    attendedCount: Array.isArray(session.attendance) ? session.attendance.length : 0,
+    templateId: session.templateId,
   }));
 }
 
@@ -102,3 +114,186 @@ export async function deleteGymSession(id: string, token?: string) {
     token,
   });
 }
+
+export async function unregisterFromGymSession(sessionId: string, token?: string) {
+  const response = await apiFetch<MutationResponse>(`/gym-sessions/${sessionId}/register`, {
+    method: "DELETE",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to leave gym session");
+  }
+
+  return response.message;
+}
+
+export async function joinGymSessionWaitlist(sessionId: string, token?: string) {
+  const response = await apiFetch<MutationResponse>(`/gym-sessions/${sessionId}/waitlist`, {
+    method: "POST",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to join the waitlist");
+  }
+
+  return response.message;
+}
+
+export async function leaveGymSessionWaitlist(sessionId: string, token?: string) {
+  const response = await apiFetch<MutationResponse>(`/gym-sessions/${sessionId}/waitlist`, {
+    method: "DELETE",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to leave the waitlist");
+  }
+
+  return response.message;
+}
+
+export async function downloadGymSessionPass(sessionId: string, token?: string) {
+  return apiFetch<Blob>(`/gym-sessions/${sessionId}/pass`, {
+    token,
+    skipJson: true,
+  });
+}
+
+export async function fetchGymSessionParticipants(sessionId: string, token?: string) {
+  const response = await apiFetch<{
+    success: boolean;
+    message: string;
+    data?: GymSessionParticipants;
+  }>(`/gym-sessions/${sessionId}/participants`, {
+    token,
+  });
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load participants");
+  }
+
+  return response.data;
+}
+
+export async function checkInGymSessionAttendees(
+  sessionId: string,
+  payload: { userIds?: string[]; passCode?: string },
+  token?: string
+) {
+  const response = await apiFetch<MutationResponse, typeof payload>(
+    `/gym-sessions/${sessionId}/check-in`,
+    {
+      method: "POST",
+      body: payload,
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to check in attendees");
+  }
+
+  return response.message;
+}
+
+export async function fetchGymAttendanceStats(year: number, month: number, token?: string) {
+  const response = await apiFetch<{
+    success: boolean;
+    message: string;
+    data?: GymAttendanceStat[];
+  }>(`/gym-sessions/attendance-stats?year=${year}&month=${month}`, {
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load attendance statistics");
+  }
+
+  return response.data ?? [];
+}
+
+export interface GymSessionTemplateRequest {
+  weekday: number;
+  time: string;
+  duration: number;
+  type: GymSessionType;
+  maxParticipants: number;
+  startDate: string;
+  endDate: string;
+  blackoutDates: string[];
+}
+
+interface GymSessionTemplatesResponse {
+  success: boolean;
+  message: string;
+  data?: Array<Omit<GymSessionTemplate, "id"> & { _id: string }>;
+}
+
+export async function fetchGymSessionTemplates(token?: string) {
+  const response = await apiFetch<GymSessionTemplatesResponse>("/gym-sessions/templates", {
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load gym session templates");
+  }
+
+  return (response.data ?? []).map<GymSessionTemplate>(({ _id, ...template }) => ({
+    ...template,
+    id: _id,
+    blackoutDates: Array.isArray(template.blackoutDates) ? template.blackoutDates : [],
+  }));
+}
+
+export async function createGymSessionTemplate(payload: GymSessionTemplateRequest, token?: string) {
+  const response = await apiFetch<
+    MutationResponse & { data?: { createdSessions: number; skippedDates: string[] } },
+    GymSessionTemplateRequest
+  >("/gym-sessions/templates", {
+    method: "POST",
+    body: payload,
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to create gym session template");
+  }
+
+  return response;
+}
+
+export async function updateGymSessionTemplate(
+  templateId: string,
+  payload: Partial<GymSessionTemplateRequest> & { applyToFuture?: boolean },
+  token?: string
+) {
+  const response = await apiFetch<MutationResponse, typeof payload>(
+    `/gym-sessions/templates/${templateId}`,
+    {
+      method: "PUT",
+      body: payload,
+      token,
+    }
+  );
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to update gym session template");
+  }
+
+  return response.message;
+}
+
+export async function deleteGymSessionTemplate(templateId: string, token?: string) {
+  const response = await apiFetch<MutationResponse>(`/gym-sessions/templates/${templateId}`, {
+    method: "DELETE",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to delete gym session template");
+  }
+
+  return response.message;
+}
@@ -1,58 +1,83 @@
 import { apiFetch } from "@/lib/api-client";
-import type { NotificationEntry, NotificationList } from "@/lib/types";
+import { API_BASE_URL } from "@/lib/config";
+import type {
+  NotificationEntry,
+  NotificationPage,
+  NotificationPreferences,
+  NotificationType,
+} from "@/lib/types";
 
-interface NotificationsResponse {
+interface NotificationPageResponse {
   success: boolean;
   message?: string;
-  data?: {
-    notifications?: NotificationEntry[];
-  };
-  notifications?: NotificationEntry[];
+  data?: NotificationPage;
 }
 
-export async function fetchUserNotifications(token?: string): Promise<NotificationList> {
-  const response = await apiFetch<NotificationsResponse>("/users/professor-notifications", {
-    method: "GET",
-    token,
-  });
+interface NotificationResponse {
+  success: boolean;
+  message?: string;
+  data?: NotificationEntry;
+}
 
-  if (!response.success) {
+interface PreferencesResponse {
+  success: boolean;
+  message?: string;
+  data?: NotificationPreferences;
+}
+
+interface MarkResponse {
+  success: boolean;
+  message?: string;
+}
+
+export async function fetchNotifications(
+  options: { page?: number; limit?: number; archived?: boolean },
+  token?: string
+): Promise<NotificationPage> {
+  const params = new URLSearchParams();
+  if (options.page) params.set("page", String(options.page));
+  if (options.limit) params.set("limit", String(options.limit));
+  if (options.archived) params.set("archived", "true");
+  const query = params.toString();
+
+  const response = await apiFetch<NotificationPageResponse>(
+    `/notifications${query ? `?${query}` : ""}`,
+    {
+      method: "GET",
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
     throw new Error(response.message ?? "Failed to load notifications");
   }
 
-  const notifications =
-    response.data?.notifications ?? response.notifications ?? [];
-
-  return {
-    notifications,
-  };
+  return response.data;
 }
 
-export async function fetchEventOfficeNotifications(token?: string): Promise<NotificationList> {
-  const response = await apiFetch<NotificationsResponse>("/admin/notifications", {
-    method: "GET",
+export async function updateNotification(
+  notificationId: string,
+  changes: { read?: boolean; archived?: boolean },
+  token?: string
+): Promise<NotificationEntry> {
+  const response = await apiFetch<
+    NotificationResponse,
+    { read?: boolean; archived?: boolean }
+  >(`/notifications/${notificationId}`, {
+    method: "PATCH",
+    body: changes,
     token,
   });
 
-  if (!response.success) {
-    throw new Error(response.message ?? "Failed to load notifications");
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to update notification");
   }
 
-  const notifications =
-    response.data?.notifications ?? response.notifications ?? [];
-
-  return {
-    notifications,
-  };
+  return response.data;
 }
 
-interface MarkResponse {
-  success: boolean;
-  message?: string;
-}
-
-export async function markUserNotificationsSeen(token?: string) {
-  const response = await apiFetch<MarkResponse>("/users/professor-notifications/seen", {
+export async function markAllNotificationsRead(token?: string) {
+  const response = await apiFetch<MarkResponse>("/notifications/read-all", {
     method: "PATCH",
     token,
   });
@@ -64,15 +89,207 @@ export async function markUserNotificationsSeen(token?: string) {
   return response;
 }
 
-export async function markEventOfficeNotificationsSeen(token?: string) {
-  const response = await apiFetch<MarkResponse>("/admin/notifications/seen", {
-    method: "PATCH",
+export async function fetchNotificationPreferences(
+  token?: string
+): Promise<NotificationPreferences> {
+  const response = await apiFetch<PreferencesResponse>(
+    "/notifications/preferences",
+    {
+      method: "GET",
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load notification preferences");
+  }
+
+  return response.data;
+}
+
+export async function updateNotificationPreferences(
+  mutedTypes: NotificationType[],
+  token?: string
+): Promise<NotificationPreferences> {
+  const response = await apiFetch<
+    PreferencesResponse,
+    { mutedTypes: NotificationType[] }
+  >("/notifications/preferences", {
+    method: "PUT",
+    body: { mutedTypes },
     token,
   });
 
-  if (!response.success) {
-    throw new Error(response.message ?? "Failed to update notifications");
+  if (!response.success || !response.data) {
+    throw new Error(
+      response.message ?? "Failed to update notification preferences"
+    );
   }
 
-  return response;
+  return response.data;
+}
+
+export interface RegistrationCountUpdate {
+  eventId: string;
+  registeredCount: number;
+  capacity?: number;
+}
+
+export interface PollVotesUpdate {
+  pollId: string;
+  vendors: Array<{ vendorId: string; votes: number }>;
+  totalVotes: number;
+}
+
+export type RealtimeStatus = "connecting" | "live" | "polling";
+
+export interface RealtimeHandlers {
+  onNotification?: (notification: NotificationEntry) => void;
+  onRegistrationCount?: (update: RegistrationCountUpdate) => void;
+  onPollVotes?: (update: PollVotesUpdate) => void;
+  // Called on every tick while the stream is down so callers can refetch
+  onPoll?: () => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+}
+
+const STREAM_RETRY_BASE_MS = 2_000;
+const STREAM_RETRY_MAX_MS = 60_000;
+const POLL_INTERVAL_MS = 30_000;
+
+function dispatchStreamEvent(
+  event: string,
+  data: string,
+  handlers: RealtimeHandlers
+) {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return;
+  }
+
+  if (event === "notification") {
+    handlers.onNotification?.(payload as NotificationEntry);
+  } else if (event === "registration-count") {
+    handlers.onRegistrationCount?.(payload as RegistrationCountUpdate);
+  } else if (event === "poll-votes") {
+    handlers.onPollVotes?.(payload as PollVotesUpdate);
+  }
+}
+
+async function readEventStream(
+  token: string,
+  signal: AbortSignal,
+  handlers: RealtimeHandlers,
+  onOpen: () => void
+) {
+  // fetch instead of EventSource so the bearer token goes in a header
+  const response = await fetch(`${API_BASE_URL}/notifications/stream`, {
+    headers: {
+      Accept: "text/event-stream",
+      Authorization: `Bearer ${token}`,
+    },
+    credentials: "include",
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Notification stream unavailable (${response.status})`);
+  }
+
+  onOpen();
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += value.replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      const dataLines: string[] = [];
+      block.split("\n").forEach((line) => {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      });
+
+      if (dataLines.length) {
+        dispatchStreamEvent(event, dataLines.join("\n"), handlers);
+      }
+    }
+  }
+}
+
+/**
+ * Subscribes to the server's notification stream. While the stream is down
+ * (proxy strips it, server restarting, offline) handlers.onPoll fires on an
+ * interval and reconnects are retried with backoff.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToRealtimeUpdates(
+  token: string,
+  handlers: RealtimeHandlers
+): () => void {
+  const controller = new AbortController();
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+
+  const startPolling = () => {
+    if (pollTimer) return;
+    handlers.onStatusChange?.("polling");
+    pollTimer = setInterval(() => handlers.onPoll?.(), POLL_INTERVAL_MS);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  const connect = () => {
+    if (controller.signal.aborted) return;
+    if (!pollTimer) handlers.onStatusChange?.("connecting");
+
+    readEventStream(token, controller.signal, handlers, () => {
+      const recovered = pollTimer !== null;
+      attempt = 0;
+      stopPolling();
+      handlers.onStatusChange?.("live");
+      // Catch up on anything that arrived while we were disconnected
+      if (recovered) handlers.onPoll?.();
+    })
+      .catch(() => undefined)
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        startPolling();
+        const delay = Math.min(
+          STREAM_RETRY_MAX_MS,
+          STREAM_RETRY_BASE_MS * 2 ** attempt
+        );
+        attempt += 1;
+        retryTimer = setTimeout(connect, delay);
+      });
+  };
+
+  connect();
+
+  return () => {
+    controller.abort();
+    stopPolling();
+    if (retryTimer) clearTimeout(retryTimer);
+  };
 }
@@ -1,5 +1,5 @@
-import { apiFetch } from "@/lib/api-client";
-import type { EventType } from "@/lib/types";
+import { apiDownload, apiFetch } from "@/lib/api-client";
+import type { EventType, Location } from "@/lib/types";
 
 export interface AttendanceReportFilters {
   name?: string;
@@ -15,6 +15,7 @@ export interface AttendanceReportItem {
   eventType: EventType;
   startDate: string;
   endDate: string;
+  registeredCount: number;
   totalAttendees: number;
 }
 
@@ -65,6 +66,7 @@ export async function fetchAttendanceReport(
 
 export interface SalesReportFilters {
   eventType?: EventType;
+  location?: Location;
   startDate?: string;
   endDate?: string;
   date?: string;
@@ -75,28 +77,46 @@ export interface SalesReportItem {
   eventId: string;
   name: string;
   eventType: EventType;
+  location: Location;
+  currency: string;
   startDate: string;
   endDate: string;
   revenue: number;
 }
 
+export interface CourtSalesReportItem {
+  courtId: string;
+  courtType?: string;
+  venue?: string;
+  currency: string;
+  bookings: number;
+  refunded: number;
+  revenue: number;
+}
+
+export interface SalesReportCurrencyTotal {
+  currency: string;
+  eventRevenue: number;
+  courtRevenue: number;
+  totalRevenue: number;
+}
+
 interface SalesReportResponse {
   success: boolean;
   message?: string;
-  data?: {
-    events: SalesReportItem[];
-    totalRevenue: number;
-  };
+  data?: SalesReportPayload;
 }
 
 export interface SalesReportPayload {
   events: SalesReportItem[];
-  totalRevenue: number;
+  courts: CourtSalesReportItem[];
+  totals: SalesReportCurrencyTotal[];
 }
 
 function buildSalesQueryString(filters: SalesReportFilters) {
   const params = new URLSearchParams();
   if (filters.eventType) params.set("eventType", filters.eventType);
+  if (filters.location) params.set("location", filters.location);
   if (filters.startDate) params.set("startDate", filters.startDate);
   if (filters.endDate) params.set("endDate", filters.endDate);
   if (filters.date) params.set("date", filters.date);
@@ -124,3 +144,19 @@ export async function fetchSalesReport(
 
   return response.data;
 }
+
+export interface ReconciliationRange {
+  startDate: string;
+  endDate: string;
+}
+
+export async function downloadReconciliationReport(
+  range: ReconciliationRange,
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  const params = new URLSearchParams({
+    startDate: range.startDate,
+    endDate: range.endDate,
+  });
+  return apiDownload(`/events/reports/reconciliation/export?${params.toString()}`, token);
+}
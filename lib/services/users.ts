@@ -1,9 +1,15 @@
-import { apiFetch } from "@/lib/api-client";
+import { apiDownload, apiFetch } from "@/lib/api-client";
+import { API_BASE_URL } from "@/lib/config";
 import type {
   FavoriteEvent,
+  PaymentDocumentKind,
+  PaymentHistoryItem,
   ProfessorSummary,
   UserRegisteredEvent,
+  WalletStatement,
   WalletSummary,
+  WalletTransaction,
+  WalletTransactionType,
 } from "@/lib/types";
 
 interface RegisteredEventsResponse {
@@ -130,3 +136,141 @@ export async function fetchWalletSummary(token?: string): Promise<WalletSummary>
     }
   );
 }
+
+interface WalletStatementResponse {
+  success: boolean;
+  message: string;
+  data?: WalletStatement;
+}
+
+export interface WalletStatementFilters {
+  type?: WalletTransactionType;
+  from?: string;
+  to?: string;
+}
+
+export async function fetchWalletStatement(
+  filters: WalletStatementFilters = {},
+  token?: string
+): Promise<WalletStatement> {
+  const params = new URLSearchParams();
+  if (filters.type) params.set("type", filters.type);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  const query = params.toString();
+
+  const response = await apiFetch<WalletStatementResponse>(
+    `/users/wallet/statement${query ? `?${query}` : ""}`,
+    {
+      method: "GET",
+      token,
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load wallet statement");
+  }
+
+  return response.data;
+}
+
+interface PaymentHistoryResponse {
+  success: boolean;
+  message: string;
+  data?: PaymentHistoryItem[];
+}
+
+export async function fetchPaymentHistory(token?: string): Promise<PaymentHistoryItem[]> {
+  const response = await apiFetch<PaymentHistoryResponse>("/users/payments", {
+    method: "GET",
+    token,
+  });
+
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to load payments");
+  }
+
+  return response.data ?? [];
+}
+
+export async function downloadPaymentDocument(
+  paymentId: string,
+  kind: PaymentDocumentKind,
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  return apiDownload(`/users/payments/${paymentId}/${kind}`, token);
+}
+
+interface WalletTopUpIntentResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    clientSecret: string;
+    paymentIntentId: string;
+    amount: number;
+    currency: string;
+  };
+}
+
+interface WalletTopUpResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    transaction: WalletTransaction;
+    balance: number;
+  };
+}
+
+export async function createWalletTopUpIntent(amount: number, token?: string) {
+  const response = await apiFetch<WalletTopUpIntentResponse, { amount: number }>(
+    "/users/wallet/top-up/payment-intent",
+    {
+      method: "POST",
+      token,
+      body: { amount },
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to start wallet top-up");
+  }
+
+  return response.data;
+}
+
+export async function finalizeWalletTopUp(paymentIntentId: string, token?: string) {
+  const response = await apiFetch<WalletTopUpResponse, { paymentIntentId: string }>(
+    "/users/wallet/top-up/finalize",
+    {
+      method: "POST",
+      token,
+      body: { paymentIntentId },
+    }
+  );
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to confirm wallet top-up");
+  }
+
+  return { ...response.data, message: response.message };
+}
+
+interface CalendarFeedResponse {
+  success: boolean;
+  message: string;
+  data?: { token: string; path: string };
+}
+
+/** Returns the absolute iCal feed URL, creating a token on first use or replacing it when `regenerate` is set. */
+export async function fetchCalendarFeedUrl(token?: string, regenerate = false) {
+  const response = await apiFetch<CalendarFeedResponse>("/users/calendar-feed", {
+    method: regenerate ? "POST" : "GET",
+    token,
+  });
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load calendar feed link");
+  }
+
+  return `${API_BASE_URL}${response.data.path}`;
+}
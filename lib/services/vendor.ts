@@ -1,7 +1,8 @@
-import { apiFetch } from "../api-client";
+import { apiDownload, apiFetch } from "../api-client";
 import type {
   EventType,
   LoyaltyPartner,
+  PaymentDocumentKind,
   VendorStatus,
 } from "@/lib/types";
 import { BazaarBoothSize } from "@/server/models/Event";
@@ -95,7 +96,7 @@ export async function fetchLoyaltyVendors(token?: string): Promise<LoyaltyPartne
   }));
 }
 
-export type VendorPaymentStatus = "pending" | "paid" | "overdue";
+export type VendorPaymentStatus = "pending" | "paid" | "overdue" | "refunded";
 
 export interface VendorAttendee {
   name: string;
@@ -109,6 +110,14 @@ export interface VendorQrCode {
   issuedAt?: string;
 }
 
+export interface VendorPaymentDeadlineExtension {
+  previousDueDate: string;
+  dueDate: string;
+  extendedAt: string;
+  extendedBy?: string;
+  reason?: string;
+}
+
 export interface VendorApplicationPayment {
   amount: number;
   currency: string;
@@ -117,6 +126,17 @@ export interface VendorApplicationPayment {
   paidAt?: string;
   receiptNumber?: string;
   transactionReference?: string;
+  failureReason?: string;
+  failedAt?: string;
+  refundAmount?: number;
+  refundedAt?: string;
+  reminderSentAt?: string;
+  overdueAt?: string;
+  releasedAt?: string;
+  releaseAfter?: string;
+  deadlineExtensions?: VendorPaymentDeadlineExtension[];
+  hasInvoice?: boolean;
+  hasCreditNote?: boolean;
 }
 
 export interface VendorApplication {
@@ -162,6 +182,14 @@ export async function cancelVendorApplication(eventId: string, token?: string):
   });
 }
 
+export async function downloadVendorPaymentDocument(
+  eventId: string,
+  kind: PaymentDocumentKind,
+  token?: string
+): Promise<{ blob: Blob; filename?: string }> {
+  return apiDownload(`/vendors/my-applications/${eventId}/${kind}`, token);
+}
+
 export interface VendorAttendeeFormEntry extends VendorAttendee {
   file?: File | null;
 }
@@ -245,6 +273,10 @@ export interface LoyaltyProgramPayload {
   discountRate: number;
   promoCode: string;
   termsAndConditions: string;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
 }
 
 export interface VendorLoyaltyProgram {
@@ -254,6 +286,43 @@ export interface VendorLoyaltyProgram {
   status: "active" | "cancelled";
   appliedAt?: string;
   cancelledAt?: string;
+  validFrom?: string;
+  validUntil?: string;
+  maxRedemptions?: number;
+  perUserLimit?: number;
+  codeExpiresAt?: string;
+}
+
+export interface LoyaltyRedemptionReport {
+  promoCode?: string;
+  maxRedemptions?: number;
+  remainingRedemptions?: number;
+  codeExpiresAt?: string;
+  totals: {
+    redemptions: number;
+    refunded: number;
+    discountGiven: number;
+    sales: number;
+  };
+  byEvent: Array<{
+    eventId: string;
+    eventName: string;
+    eventType?: string;
+    redemptions: number;
+    discountGiven: number;
+    sales: number;
+    lastRedeemedAt?: string;
+  }>;
+  recent: Array<{
+    id: string;
+    eventId: string;
+    eventName: string;
+    originalAmount: number;
+    discountAmount: number;
+    paidAmount: number;
+    status: string;
+    redeemedAt: string;
+  }>;
 }
 
 export async function fetchVendorLoyaltyProgram(
@@ -295,6 +364,25 @@ export async function applyToVendorLoyaltyProgram(
   return { message: response.message };
 }
 
+export async function fetchVendorLoyaltyRedemptions(
+  token?: string
+): Promise<LoyaltyRedemptionReport> {
+  const response = await apiFetch<{
+    success: boolean;
+    message: string;
+    data?: LoyaltyRedemptionReport;
+  }>("/vendors/loyalty/redemptions", {
+    method: "GET",
+    token,
+  });
+
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load loyalty redemptions");
+  }
+
+  return response.data;
+}
+
 export async function cancelVendorLoyaltyProgram(
   token?: string
 ): Promise<{ message: string }> {
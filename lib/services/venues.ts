@@ -0,0 +1,166 @@
+import { apiFetch } from "@/lib/api-client";
+import type { ApiError, EventType, Location } from "@/lib/types";
+
+export enum VenueKind {
+  Hall = "Hall",
+  Lab = "Lab",
+  Classroom = "Classroom",
+  Outdoor = "Outdoor",
+}
+
+export interface Venue {
+  id: string;
+  name: string;
+  kind: VenueKind;
+  campus: Location;
+  building?: string;
+  capacity: number;
+  equipment: string[];
+  notes?: string;
+  active: boolean;
+}
+
+export interface VenuePayload {
+  name: string;
+  kind: VenueKind;
+  campus: Location;
+  building?: string;
+  capacity: number;
+  equipment: string[];
+  notes?: string;
+}
+
+export interface VenueBooking {
+  eventId: string;
+  name: string;
+  eventType: EventType;
+  startDate: string;
+  endDate: string;
+  capacity?: number;
+  clashesWith: string[];
+}
+
+export interface VenueCalendar {
+  venue: Venue;
+  from: string;
+  to: string;
+  bookings: VenueBooking[];
+}
+
+// Sent with an event create/edit that picks a room
+export interface VenueBookingOptions {
+  venueId?: string;
+  allowDoubleBooking?: boolean; // book the room even though it is already in use
+}
+
+interface VenueApiItem extends Omit<Venue, "id"> {
+  _id: string;
+}
+
+type VenueCalendarApiItem = Omit<VenueCalendar, "venue"> & { venue: VenueApiItem };
+
+interface ApiResponse<T> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+function mapVenue(venue: VenueApiItem): Venue {
+  return {
+    id: venue._id,
+    name: venue.name,
+    kind: venue.kind,
+    campus: venue.campus,
+    building: venue.building,
+    capacity: venue.capacity,
+    equipment: venue.equipment ?? [],
+    notes: venue.notes,
+    active: venue.active !== false,
+  };
+}
+
+/** True when the server refused an event because its room is already booked then. */
+export function isVenueClash(error: unknown) {
+  return (error as ApiError | null)?.status === 409;
+}
+
+export function describeVenue(venue: Pick<Venue, "name" | "building" | "capacity">) {
+  return `${venue.name}${venue.building ? `, ${venue.building}` : ""} · ${venue.capacity} seats`;
+}
+
+export async function fetchVenues(
+  options: { campus?: Location; includeInactive?: boolean } = {},
+  token?: string
+) {
+  const params = new URLSearchParams();
+  if (options.campus) params.set("campus", options.campus);
+  if (options.includeInactive) params.set("includeInactive", "true");
+  const query = params.toString();
+
+  const response = await apiFetch<ApiResponse<VenueApiItem[]>>(
+    `/venues${query ? `?${query}` : ""}`,
+    { token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load venues");
+  }
+  return response.data.map(mapVenue);
+}
+
+export async function createVenue(payload: VenuePayload, token?: string) {
+  const response = await apiFetch<ApiResponse<VenueApiItem>, VenuePayload>("/venues", {
+    method: "POST",
+    body: payload,
+    token,
+  });
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to create venue");
+  }
+  return mapVenue(response.data);
+}
+
+export async function updateVenue(venueId: string, payload: VenuePayload, token?: string) {
+  const response = await apiFetch<ApiResponse<VenueApiItem>, VenuePayload>(
+    `/venues/${venueId}`,
+    { method: "PUT", body: payload, token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to update venue");
+  }
+  return mapVenue(response.data);
+}
+
+export async function retireVenue(venueId: string, token?: string) {
+  const response = await apiFetch<ApiResponse<VenueApiItem>>(`/venues/${venueId}`, {
+    method: "DELETE",
+    token,
+  });
+  if (!response.success) {
+    throw new Error(response.message ?? "Failed to retire venue");
+  }
+  return response.message;
+}
+
+export async function fetchVenueCalendar(
+  venueId: string,
+  range: { from: string; to: string },
+  token?: string
+) {
+  const params = new URLSearchParams(range);
+  const response = await apiFetch<ApiResponse<VenueCalendarApiItem>>(
+    `/venues/${venueId}/calendar?${params.toString()}`,
+    { token }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.message ?? "Failed to load venue calendar");
+  }
+  return { ...response.data, venue: mapVenue(response.data.venue) } satisfies VenueCalendar;
+}
+
+/** Offers to book an already-used room anyway; true means retry with allowDoubleBooking. */
+export function confirmDoubleBooking(error: unknown) {
+  return (
+    isVenueClash(error) &&
+    window.confirm(`${(error as ApiError).message}\n\nBook the room anyway?`)
+  );
+}
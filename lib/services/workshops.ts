@@ -8,6 +8,7 @@ import {
   type Workshop,
   type WorkshopParticipantsSnapshot,
 } from "@/lib/types";
+import type { VenueBookingOptions } from "@/lib/services/venues";
 
 interface WorkshopApiItem {
   id?: string;
@@ -34,6 +35,7 @@ interface WorkshopApiItem {
   workshopStatus?: string;
   requestedEdits?: string | null;
   allowedRoles?: string[];
+  venueId?: string;
 }
 
 interface WorkshopListResponse {
@@ -66,7 +68,7 @@ interface WorkshopStatusResponse {
   } | null;
 }
 
-export interface WorkshopPayload {
+export interface WorkshopPayload extends VenueBookingOptions {
   name: string;
   location: Location;
   startDate: string;
@@ -262,6 +264,7 @@ function mapWorkshop(item: WorkshopApiItem): Workshop {
     workshopStatus: item.workshopStatus,
     requestedEdits: item.requestedEdits ?? null,
     allowedRoles: sanitizeAllowedRoles(item.allowedRoles),
+    venueId: item.venueId || undefined,
   };
 }
 
@@ -302,6 +305,7 @@ interface CertificateResponse {
   message: string;
   data?: {
     sentCount: number;
+    queuedCount: number;
     failedCount: number;
   };
 }
@@ -350,6 +354,7 @@ export async function sendWorkshopCertificates(workshopId: string, token?: strin
 
   return {
     sentCount: response.data?.sentCount ?? 0,
+    queuedCount: response.data?.queuedCount ?? 0,
     failedCount: response.data?.failedCount ?? 0,
     message: response.message,
   };
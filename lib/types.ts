@@ -32,6 +32,14 @@ export enum EventType {
   BoothInPlatform = "Booth in platform",
 }
 
+// Events without a status were created before drafts existed and are published
+export enum PublicationStatus {
+  Draft = "Draft",
+  Scheduled = "Scheduled",
+  Published = "Published",
+  Unpublished = "Unpublished",
+}
+
 export enum Location {
   Cairo = "GUC Cairo",
   Berlin = "GUC Berlin",
@@ -113,6 +121,116 @@ export interface EventSummary {
   requiredBudget?: number;
   archived?: boolean;
   allowedRoles?: UserRole[];
+  registrationEnabled?: boolean;
+  ticketTiers?: EventTicketTier[];
+  myTicketTier?: TicketTierAudience;
+  seriesId?: string;
+  seriesIndex?: number;
+  publicationStatus?: PublicationStatus;
+  publishAt?: string;
+  venueId?: string;
+}
+
+export enum TicketTierAudience {
+  Student = "Student",
+  Staff = "Staff",
+  External = "External",
+}
+
+export interface EventTicketTier {
+  audience: TicketTierAudience;
+  price: number;
+  capacity?: number;
+  sold: number;
+}
+
+export interface RegistrationSettingsInput {
+  registrationEnabled: boolean;
+  capacity?: number;
+  price?: number;
+  ticketTiers: Array<Omit<EventTicketTier, "sold">>;
+}
+
+export enum WaitlistStatus {
+  Waiting = "Waiting",
+  Offered = "Offered",
+}
+
+export interface EventWaitlistStatus {
+  eventId: string;
+  waitlistSize: number;
+  heldSeats: number;
+  position: number | null;
+  status: WaitlistStatus | null;
+  offerExpiresAt?: string;
+}
+
+export type RefundDestination = "Wallet" | "OriginalPayment";
+
+export interface RefundTier {
+  hoursBeforeStart: number;
+  percentage: number;
+}
+
+export interface RefundPolicyRules {
+  tiers: RefundTier[];
+  destination: RefundDestination;
+}
+
+export interface RefundPolicy extends RefundPolicyRules {
+  source: "Event" | "EventType" | "Default";
+}
+
+export interface RefundQuote {
+  allowed: boolean;
+  percentage: number;
+  refundAmount: number;
+  walletRefundAmount: number;
+  cardRefundAmount: number;
+  destination: RefundDestination;
+  tierEndsAt?: string;
+}
+
+export interface EventRefundPolicy {
+  policy: RefundPolicy;
+  quote?: RefundQuote;
+}
+
+export interface EventTypeRefundPolicy extends RefundPolicy {
+  eventType: EventType;
+  updatedAt?: string;
+}
+
+export type DiscountSource = "Loyalty" | "Coupon";
+
+export interface DiscountQuote {
+  code: string;
+  source: DiscountSource;
+  label: string;
+  discountRate: number;
+  originalAmount: number;
+  amount: number;
+  finalAmount: number;
+}
+
+export interface CouponInput {
+  code: string;
+  description?: string;
+  discountRate: number;
+  eventTypes: EventType[];
+  validFrom?: string | null;
+  validUntil?: string | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
+  active?: boolean;
+}
+
+export interface Coupon extends CouponInput {
+  id: string;
+  active: boolean;
+  redemptions: number;
+  discountGiven: number;
+  createdAt?: string;
 }
 
 export interface Workshop {
@@ -139,6 +257,7 @@ export interface Workshop {
   workshopStatus?: string;
   requestedEdits?: string | null;
   allowedRoles?: UserRole[];
+  venueId?: string;
 }
 
 export interface ProfessorSummary {
@@ -189,10 +308,45 @@ export interface GymSession {
   maxParticipants: number;
   registeredCount?: number;
   registeredUsers?: string[];
+  waitlist?: string[];
+  attendedCount?: number;
+  templateId?: string;
   isRegistered?: boolean;
   remainingSpots?: number;
 }
 
+export interface GymSessionTemplate {
+  id: string;
+  weekday: number;
+  time: string;
+  duration: number;
+  type: GymSessionType;
+  maxParticipants: number;
+  startDate: string;
+  endDate: string;
+  blackoutDates: string[];
+  upcomingSessions: number;
+}
+
+export interface GymAttendanceStat {
+  type: GymSessionType;
+  sessions: number;
+  registrations: number;
+  checkIns: number;
+  attendanceRate: number | null;
+}
+
+export interface GymSessionParticipants {
+  registered: Array<{
+    id: string;
+    name: string;
+    email: string;
+    checkedInAt?: string;
+    method?: "Manual" | "QR";
+  }>;
+  waitlist: Array<{ id: string; name: string; email: string }>;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -318,14 +472,42 @@ export interface VendorPoll {
   selectedVendorId?: string;
 }
 
+export enum NotificationType {
+  NewEvent = "NewEvent",
+  Reminder = "Reminder",
+  LoyaltyPartner = "LoyaltyPartner",
+  Poll = "Poll",
+  VendorApplication = "VendorApplication",
+  WorkshopReview = "WorkshopReview",
+  Waitlist = "Waitlist",
+  Gym = "Gym",
+  Court = "Court",
+  General = "General",
+}
+
 export interface NotificationEntry {
+  id: string;
+  type: NotificationType;
   message: string;
-  seen: boolean;
-  createdAt?: string;
+  entity?: { kind: string; id: string };
+  link?: string;
+  read: boolean;
+  archived: boolean;
+  createdAt: string;
 }
 
-export interface NotificationList {
+export interface NotificationPage {
   notifications: NotificationEntry[];
+  page: number;
+  limit: number;
+  total: number;
+  unreadCount: number;
+  hasMore: boolean;
+}
+
+export interface NotificationPreferences {
+  mutedTypes: NotificationType[];
+  mutableTypes: NotificationType[];
 }
 
 export interface WalletRefundRecord {
@@ -343,12 +525,58 @@ export interface WalletSummary {
   refunds: WalletRefundRecord[];
 }
 
+export type WalletTransactionType =
+  | "TopUp"
+  | "EventPayment"
+  | "CourtPayment"
+  | "Refund"
+  | "AdminAdjustment";
+
+export interface WalletTransaction {
+  id: string;
+  type: WalletTransactionType;
+  amount: number;
+  balanceAfter: number;
+  currency: string;
+  receiptNumber: string;
+  description: string;
+  eventId?: string;
+  createdAt: string;
+}
+
+export interface WalletStatement {
+  balance: number;
+  currency: string;
+  totalCredits: number;
+  totalDebits: number;
+  transactions: WalletTransaction[];
+}
+
+export type PaymentDocumentKind = "invoice" | "credit-note";
+
+export interface PaymentHistoryItem {
+  paymentId: string;
+  eventId: string;
+  eventName?: string;
+  receiptNumber: string;
+  amount: number;
+  currency: string;
+  method: string;
+  status: "Paid" | "Refunded";
+  paidAt: string;
+  refundAmount?: number;
+  refundedAt?: string;
+  hasInvoice: boolean;
+  hasCreditNote: boolean;
+}
+
 export interface AttendanceReportEvent {
   eventId: string;
   name: string;
   eventType: EventType;
   startDate: string;
   endDate: string;
+  registeredCount: number;
   totalAttendees: number;
 }
 
@@ -361,12 +589,32 @@ export interface SalesReportEvent {
   eventId: string;
   name: string;
   eventType: EventType;
+  location: Location;
+  currency: string;
   startDate: string;
   endDate: string;
   revenue: number;
 }
 
+export interface SalesReportCourt {
+  courtId: string;
+  courtType?: string;
+  venue?: string;
+  currency: string;
+  bookings: number;
+  refunded: number;
+  revenue: number;
+}
+
+export interface SalesReportCurrencyTotal {
+  currency: string;
+  eventRevenue: number;
+  courtRevenue: number;
+  totalRevenue: number;
+}
+
 export interface SalesReportData {
   events: SalesReportEvent[];
-  totalRevenue: number;
+  courts: SalesReportCourt[];
+  totals: SalesReportCurrencyTotal[];
 }
@@ -1,10 +1,8 @@
 import type { Response } from "express";
 import * as adminService from "../services/adminService";
-import {
-  AdminRequired,
-  LoginRequired,
-  AllowedRoles,
-} from "../middleware/authDecorators";
+import * as emailOutbox from "../services/emailOutbox";
+import * as walletService from "../services/walletService";
+import { AdminRequired } from "../middleware/authDecorators";
 import type { AuthRequest } from "../middleware/authMiddleware";
 import { ValidateBody } from "../middleware/validationDecorators";
 
@@ -454,63 +452,82 @@ export class AdminController {
     });
   }
 
-  @LoginRequired()
-  @AllowedRoles(["EventOffice", "Admin"])
-  async getMyNotifications(req: AuthRequest, res: Response) {
+  @AdminRequired()
+  async listEmailOutbox(req: AuthRequest, res: Response) {
     try {
-      const adminId = req.user?.id;
-
-      if (!adminId) {
-        return res.status(401).json({
-          success: false,
-          message: "Unauthorized",
-        });
-      }
+      const page = Number(req.query.page);
+      const limit = Number(req.query.limit);
+      const result = await emailOutbox.listOutboxMessages({
+        status: typeof req.query.status === "string" ? req.query.status : undefined,
+        page: Number.isFinite(page) ? page : undefined,
+        limit: Number.isFinite(limit) ? limit : undefined,
+      });
 
-      const result = await adminService.getEventOfficeNotifications(adminId);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("List email outbox error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load email outbox",
+      });
+    }
+  }
 
-      if (!result.success) {
-        return res.status(400).json({
-          success: false,
-          message: result.message,
-        });
-      }
+  @AdminRequired()
+  async resendOutboxEmail(req: AuthRequest, res: Response) {
+    try {
+      const result = await emailOutbox.resendOutboxMessage(req.params.id);
 
-      return res.status(200).json({
-        success: true,
-        notifications: result.notifications,
-      });
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
     } catch (error) {
-      console.error("Get notifications error:", error);
+      console.error("Resend email error:", error);
       return res.status(500).json({
         success: false,
-        message: "Failed to fetch notifications",
+        message: "Failed to resend email",
       });
     }
   }
 
-  @LoginRequired()
-  @AllowedRoles(["EventOffice", "Admin"])
-  async markMyNotificationsSeen(req: AuthRequest, res: Response) {
+  @AdminRequired()
+  async adjustUserWallet(req: AuthRequest, res: Response) {
     try {
-      const adminId = req.user?.id;
-
-      if (!adminId) {
-        return res.status(401).json({
-          success: false,
-          message: "Unauthorized",
-        });
-      }
+      const result = await walletService.adjustWalletBalance(
+        req.params.userId,
+        req.body ?? {},
+        req.user?.id
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Adjust wallet error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to adjust wallet",
+      });
+    }
+  }
 
-      const result = await adminService.markEventOfficeNotificationsSeen(adminId);
-      const status = result.success ? 200 : 400;
+  @AdminRequired()
+  async rebuildUserWallet(req: AuthRequest, res: Response) {
+    try {
+      const result = await walletService.rebuildWalletBalance(
+        req.params.userId
+      );
 
-      return res.status(status).json(result);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
     } catch (error) {
-      console.error("Mark notifications seen error:", error);
+      console.error("Rebuild wallet error:", error);
       return res.status(500).json({
         success: false,
-        message: "Failed to update notifications",
+        message: "Failed to rebuild wallet balance",
       });
     }
   }
@@ -0,0 +1,182 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middleware/authMiddleware";
+import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
+import * as agendaService from "../services/agendaService";
+import { buildAgendaCalendarFile } from "../services/calendarService";
+
+export class AgendaController {
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async getAgenda(req: AuthRequest, res: Response) {
+    try {
+      const result = await agendaService.getConferenceAgenda(
+        req.params.eventId,
+        req.user?.id
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Get agenda error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load agenda",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async downloadAgendaCalendar(req: AuthRequest, res: Response) {
+    try {
+      // ?mine=true limits the file to the caller's bookmarked sessions
+      const mine = req.query.mine === "true";
+      const result = await buildAgendaCalendarFile(
+        req.params.eventId,
+        mine ? req.user?.id ?? "" : undefined
+      );
+      if (!result.success || !result.data) {
+        return res.status(result.statusCode ?? 400).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${result.data.filename}"`
+      );
+      return res.send(result.data.content);
+    } catch (error) {
+      console.error("Download agenda calendar error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to build calendar file",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async addSession(req: AuthRequest, res: Response) {
+    try {
+      const result = await agendaService.addAgendaSession(
+        req.params.eventId,
+        req.body
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 201 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Add agenda session error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to add session",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async updateSession(req: AuthRequest, res: Response) {
+    try {
+      const result = await agendaService.updateAgendaSession(
+        req.params.eventId,
+        req.params.sessionId,
+        req.body
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Update agenda session error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update session",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async deleteSession(req: AuthRequest, res: Response) {
+    try {
+      const result = await agendaService.deleteAgendaSession(
+        req.params.eventId,
+        req.params.sessionId
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Delete agenda session error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to delete session",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async bookmarkSession(req: AuthRequest, res: Response) {
+    try {
+      const result = await agendaService.bookmarkAgendaSession(
+        req.params.eventId,
+        req.params.sessionId,
+        req.user?.id ?? ""
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Bookmark agenda session error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to bookmark session",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async removeBookmark(req: AuthRequest, res: Response) {
+    try {
+      const result = await agendaService.removeAgendaBookmark(
+        req.params.eventId,
+        req.params.sessionId,
+        req.user?.id ?? ""
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Remove agenda bookmark error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to remove bookmark",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async getMySchedule(req: AuthRequest, res: Response) {
+    try {
+      const result = await agendaService.getMySchedule(req.user?.id ?? "");
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Get schedule error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load your schedule",
+      });
+    }
+  }
+}
+
+export const agendaController = new AgendaController();
+export default agendaController;
@@ -0,0 +1,24 @@
+import type { Request, Response } from "express";
+import { listCampusSettings } from "../services/campusService";
+
+export class CampusController {
+  // Public: checkout and event pages need the currency before anyone logs in
+  async listCampuses(_req: Request, res: Response) {
+    try {
+      return res.status(200).json({
+        success: true,
+        message: "Campuses retrieved successfully",
+        data: listCampusSettings(),
+      });
+    } catch (error) {
+      console.error("List campuses error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load campuses",
+      });
+    }
+  }
+}
+
+export const campusController = new CampusController();
+export default campusController;
@@ -0,0 +1,83 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middleware/authMiddleware";
+import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
+import * as discountService from "../services/discountService";
+
+export class CouponController {
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async listCoupons(_req: AuthRequest, res: Response) {
+    try {
+      const result = await discountService.listCoupons();
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("List coupons error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load coupons",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async createCoupon(req: AuthRequest, res: Response) {
+    try {
+      const result = await discountService.createCoupon(
+        req.body ?? {},
+        req.user?.id
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 201 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Create coupon error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to create coupon",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async updateCoupon(req: AuthRequest, res: Response) {
+    try {
+      const result = await discountService.updateCoupon(
+        req.params.id,
+        req.body ?? {}
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Update coupon error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update coupon",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async deleteCoupon(req: AuthRequest, res: Response) {
+    try {
+      const result = await discountService.deleteCoupon(req.params.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Delete coupon error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to delete coupon",
+      });
+    }
+  }
+}
+
+export const couponController = new CouponController();
+export default couponController;
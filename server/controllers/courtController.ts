@@ -4,6 +4,15 @@ import {
   viewAllCourts as fetchCourts,
   getCourtAvailability,
   reserveCourtSlot,
+  createCourtReservationPaymentIntent,
+  finalizeCourtReservationPayment,
+  previewRecurringCourtReservation,
+  reserveRecurringCourtSlots,
+  getStudentCourtReservations,
+  cancelCourtReservationSeries,
+  cancelCourtReservation,
+  getCourtReservationsForDate,
+  markCourtReservationNoShow,
 } from "../services/courtService";
 
 export class CourtController {
@@ -53,7 +62,7 @@ export class CourtController {
   reserveCourt = async (req: AuthRequest, res: Response) => {
     try {
       const { courtId } = req.params;
-      const { date, startTime, endTime } = req.body ?? {};
+      const { date, startTime, endTime, promoCode } = req.body ?? {};
 
       if (!date || !startTime) {
         return res.status(400).json({
@@ -73,6 +82,7 @@ export class CourtController {
         date,
         startTime,
         endTime,
+        promoCode,
       });
 
       return res
@@ -86,6 +96,291 @@ export class CourtController {
       });
     }
   };
+
+  createReservationPaymentIntent = async (req: AuthRequest, res: Response) => {
+    try {
+      const { courtId } = req.params;
+      const { date, startTime, endTime, promoCode } = req.body ?? {};
+
+      if (!date || !startTime) {
+        return res.status(400).json({
+          success: false,
+          message: "date and startTime are required",
+        });
+      }
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await createCourtReservationPaymentIntent(
+        courtId,
+        req.user.id,
+        { date, startTime, endTime, promoCode }
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error creating court payment intent:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to initiate card payment",
+      });
+    }
+  };
+
+  finalizeReservationPayment = async (req: AuthRequest, res: Response) => {
+    try {
+      const { courtId } = req.params;
+      const { paymentIntentId } = req.body ?? {};
+
+      if (!paymentIntentId || typeof paymentIntentId !== "string") {
+        return res.status(400).json({
+          success: false,
+          message: "paymentIntentId is required",
+        });
+      }
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await finalizeCourtReservationPayment(
+        courtId,
+        req.user.id,
+        paymentIntentId
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error finalizing court payment:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to confirm card payment",
+      });
+    }
+  };
+
+  previewRecurringReservation = async (req: AuthRequest, res: Response) => {
+    try {
+      const { courtId } = req.params;
+      const { startDate, startTime, endTime, weeks, until, promoCode } =
+        req.body ?? {};
+
+      if (!startDate || !startTime) {
+        return res.status(400).json({
+          success: false,
+          message: "startDate and startTime are required",
+        });
+      }
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await previewRecurringCourtReservation(
+        courtId,
+        req.user.id,
+        { startDate, startTime, endTime, weeks, until, promoCode }
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error previewing recurring reservation:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to preview recurring reservation",
+      });
+    }
+  };
+
+  reserveRecurring = async (req: AuthRequest, res: Response) => {
+    try {
+      const { courtId } = req.params;
+      const { startDate, startTime, endTime, weeks, until, promoCode } =
+        req.body ?? {};
+
+      if (!startDate || !startTime) {
+        return res.status(400).json({
+          success: false,
+          message: "startDate and startTime are required",
+        });
+      }
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await reserveRecurringCourtSlots(courtId, req.user.id, {
+        startDate,
+        startTime,
+        endTime,
+        weeks,
+        until,
+        promoCode,
+      });
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error reserving recurring court slots:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to reserve recurring court slots",
+      });
+    }
+  };
+
+  viewMyReservations = async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await getStudentCourtReservations(req.user.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error loading court reservations:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load court reservations",
+      });
+    }
+  };
+
+  cancelReservationSeries = async (req: AuthRequest, res: Response) => {
+    try {
+      const { seriesId } = req.params;
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await cancelCourtReservationSeries(seriesId, req.user.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error cancelling reservation series:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to cancel reservation series",
+      });
+    }
+  };
+
+  cancelReservation = async (req: AuthRequest, res: Response) => {
+    try {
+      const { reservationId } = req.params;
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await cancelCourtReservation(reservationId, req.user.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error cancelling court reservation:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to cancel reservation",
+      });
+    }
+  };
+
+  viewCourtReservations = async (req: AuthRequest, res: Response) => {
+    try {
+      const { courtId } = req.params;
+      const date =
+        typeof req.query.date === "string" ? req.query.date : undefined;
+
+      if (!date) {
+        return res.status(400).json({
+          success: false,
+          message: "Query parameter 'date' is required (YYYY-MM-DD)",
+        });
+      }
+
+      const result = await getCourtReservationsForDate(courtId, date);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error loading court reservations:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load court reservations",
+      });
+    }
+  };
+
+  markNoShow = async (req: AuthRequest, res: Response) => {
+    try {
+      const { reservationId } = req.params;
+      const { noShow } = req.body ?? {};
+
+      if (typeof noShow !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          message: "noShow must be a boolean",
+        });
+      }
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await markCourtReservationNoShow(
+        reservationId,
+        req.user.id,
+        noShow
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Error recording court no-show:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update no-show status",
+      });
+    }
+  };
 }
 
 export const courtController = new CourtController();
@@ -1,6 +1,10 @@
 import type { Request, Response } from "express";
 import { type AuthRequest } from "../middleware/authMiddleware";
-import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
+import {
+  LoginRequired,
+  AllowedRoles,
+  OptionalAuth,
+} from "../middleware/authDecorators";
 import {
   deleteEventById,
   getAllEvents,
@@ -25,7 +29,7 @@ import {
   sendWorkshopCertificates,
   deleteWorkshopById,
 } from "../services/eventService";
-import { IEvent, EventType } from "../models/Event";
+import { IEvent, EventType, Location } from "../models/Event";
 import {
   editBazaarDetails,
   createTrip,
@@ -48,8 +52,42 @@ import {
   cancelRegistrationAndRefund as cancelRegistrationAndRefundService,
   createStripePaymentIntent as createStripePaymentIntentService,
   finalizeStripePayment as finalizeStripePaymentService,
+  previewEventDiscount,
   PayByWalletInput,
 } from "../services/paymentService";
+import {
+  getEventWaitlistStatus,
+  joinEventWaitlist,
+  leaveEventWaitlist,
+} from "../services/waitlistService";
+import { buildEventCalendarFile } from "../services/calendarService";
+import {
+  exportReconciliationReport,
+  getReconciliationReport,
+  type ReconciliationFilters,
+} from "../services/reconciliationService";
+import {
+  checkInEventTicket,
+  getUserEventTicket,
+} from "../services/ticketService";
+import {
+  getEventRefundPolicy,
+  setEventRefundPolicy,
+} from "../services/refundPolicyService";
+import { updateEventRegistrationSettings } from "../services/ticketTierService";
+import {
+  cancelEventSeries,
+  createEventSeries,
+  duplicateEvent,
+  getEventSeries,
+  updateEventSeries,
+} from "../services/eventSeriesService";
+import {
+  parsePublicationInput,
+  publishEvent,
+  unpublishEvent,
+} from "../services/eventPublicationService";
+import { checkEventVenueUpdate } from "../services/venueService";
 
 function extractUserId(user: unknown): string | undefined {
   if (!user || typeof user !== "object") return undefined;
@@ -59,6 +97,11 @@ function extractUserId(user: unknown): string | undefined {
   return undefined;
 }
 
+// Events Office and admins see drafts so they can preview them
+function canSeeUnpublished(user: AuthRequest["user"]): boolean {
+  return user?.role === "EventOffice" || user?.role === "Admin";
+}
+
 function extractQueryString(value: unknown): string | undefined {
   if (Array.isArray(value)) {
     const entry = value.find(
@@ -86,6 +129,14 @@ function parseEventType(value?: string): EventType | undefined {
   ) as EventType | undefined;
 }
 
+function parseLocation(value?: string): Location | undefined {
+  if (!value) return undefined;
+  const normalized = value.trim().toLowerCase();
+  return (Object.values(Location) as string[]).find(
+    (location) => location.toLowerCase() === normalized
+  ) as Location | undefined;
+}
+
 function parseDate(value?: string): Date | undefined {
   if (!value) return undefined;
   const parsed = new Date(value);
@@ -95,6 +146,31 @@ function parseDate(value?: string): Date | undefined {
   return parsed;
 }
 
+// A bare YYYY-MM-DD end date covers that whole day
+function parseReconciliationRange(
+  query: Request["query"]
+): { filters: ReconciliationFilters } | { error: string } {
+  const startDateRaw = extractQueryString(query.startDate);
+  const endDateRaw = extractQueryString(query.endDate);
+  if (!startDateRaw || !endDateRaw) {
+    return { error: "startDate and endDate are required." };
+  }
+
+  const startDate = parseDate(startDateRaw);
+  if (!startDate) {
+    return { error: "Invalid date format for 'startDate'." };
+  }
+  const endDate = parseDate(endDateRaw);
+  if (!endDate) {
+    return { error: "Invalid date format for 'endDate'." };
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(endDateRaw)) {
+    endDate.setUTCHours(23, 59, 59, 999);
+  }
+
+  return { filters: { startDate, endDate } };
+}
+
 type RevenueSortOrder = "asc" | "desc";
 
 function parseSortOrder(value?: string): RevenueSortOrder | undefined {
@@ -114,14 +190,10 @@ export class EventController {
   async updateConferenceController(req: AuthRequest, res: Response) {
     try {
       const { eventId } = req.params;
-      const updateData = req.body;
-      const updated = await updateConferenceById(eventId, updateData);
-      if (!updated) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Conference not found" });
-      }
-      return res.status(200).json({ success: true, data: updated });
+      const result = await updateConferenceById(eventId, req.body ?? {});
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
     } catch {
       return res
         .status(500)
@@ -221,10 +293,13 @@ export class EventController {
       });
     }
   }
-  async getEventByIdController(req: Request, res: Response) {
+  @OptionalAuth()
+  async getEventByIdController(req: AuthRequest, res: Response) {
     try {
       const { eventId } = req.params as { eventId: string };
-      const result = await getEventById(eventId);
+      const result = await getEventById(eventId, {
+        includeUnpublished: canSeeUnpublished(req.user),
+      });
 
       if (!result.success) {
         return res
@@ -259,6 +334,16 @@ export class EventController {
         });
       }
 
+      const locationRaw = extractQueryString(req.query.location);
+      const location = parseLocation(locationRaw);
+
+      if (locationRaw && !location) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid campus location provided.",
+        });
+      }
+
       const dateRaw = extractQueryString(req.query.date);
       const startDateRaw = extractQueryString(req.query.startDate);
       const endDateRaw = extractQueryString(req.query.endDate);
@@ -300,6 +385,7 @@ export class EventController {
       const result = await getEventSalesReport(
         {
           eventType,
+          location,
           date,
           startDate,
           endDate,
@@ -320,12 +406,73 @@ export class EventController {
       });
     }
   }
+
+  @LoginRequired()
+  @AllowedRoles(["Admin", "EventOffice"])
+  async getReconciliationReportController(req: AuthRequest, res: Response) {
+    try {
+      const range = parseReconciliationRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({ success: false, message: range.error });
+      }
+
+      const result = await getReconciliationReport(range.filters);
+      if (!result.success) {
+        return res.status(result.statusCode ?? 500).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      console.error("Get reconciliation report controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Admin", "EventOffice"])
+  async exportReconciliationReportController(req: AuthRequest, res: Response) {
+    try {
+      const range = parseReconciliationRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({ success: false, message: range.error });
+      }
+
+      const result = await exportReconciliationReport(range.filters);
+      if (!result.success || !result.data) {
+        return res.status(result.statusCode ?? 500).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${result.data.filename}"`
+      );
+      return res.send(result.data.buffer);
+    } catch (error) {
+      console.error("Export reconciliation report controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
   @LoginRequired()
   @AllowedRoles(["Admin", "EventOffice"])
   async updateBazaarDetails(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
-      const updateData: Partial<IEvent> = req.body;
+      const { allowDoubleBooking, ...updateData }: Partial<IEvent> & {
+        allowDoubleBooking?: boolean;
+      } = req.body ?? {};
 
       const existingBazaar = await getBazaarById(id);
 
@@ -355,6 +502,14 @@ export class EventController {
         }
       }
 
+      const venueCheck = await checkEventVenueUpdate(existingBazaar, {
+        ...updateData,
+        allowDoubleBooking,
+      });
+      if (!venueCheck.success) {
+        return res.status(venueCheck.statusCode).json(venueCheck);
+      }
+
       const result = await editBazaarDetails(id, updateData);
 
       if (!result) {
@@ -363,7 +518,9 @@ export class EventController {
           .json({ success: false, message: "Event not found" });
       }
 
-      res.status(200).json({ success: true, data: result });
+      res
+        .status(200)
+        .json({ success: true, data: result, warning: venueCheck.warning });
     } catch (error) {
       console.error("Error updating event:", error);
       res
@@ -414,8 +571,15 @@ export class EventController {
   async createNewTrip(req: AuthRequest, res: Response) {
     try {
       const tripData: Partial<IEvent> = req.body;
+      const publication = parsePublicationInput(req.body);
+      if (!publication.success) {
+        return res
+          .status(400)
+          .json({ success: false, message: publication.message });
+      }
 
-      const result = await createTrip(tripData);
+      // Publication fields last, so a raw body cannot set them directly
+      const result = await createTrip({ ...tripData, ...publication.fields });
 
       res.status(201).json({ success: true, data: result });
     } catch (error) {
@@ -477,7 +641,8 @@ export class EventController {
         .json({ success: false, message: "Failed to update trip" });
     }
   }
-  async getAllEventsController(req: Request, res: Response) {
+  @OptionalAuth()
+  async getAllEventsController(req: AuthRequest, res: Response) {
     try {
       const sortQuery = Array.isArray(req.query.sortOrder)
         ? req.query.sortOrder[0]
@@ -501,7 +666,10 @@ export class EventController {
         typeof includePastRaw === "string" &&
         ["true", "1", "yes"].includes(includePastRaw.toLowerCase());
 
-      const result = await getAllEvents(sortOrder, { includePast });
+      const result = await getAllEvents(sortOrder, {
+        includePast,
+        includeUnpublished: canSeeUnpublished(req.user),
+      });
 
       if (!result.success) {
         return res.status(500).json(result);
@@ -525,7 +693,9 @@ export class EventController {
         ? typesRaw.split(",").map((value) => value.trim())
         : undefined;
 
-      const bazaars = await getUpcomingBazaars(typeList);
+      const bazaars = await getUpcomingBazaars(typeList, {
+        includeUnpublished: canSeeUnpublished(req.user),
+      });
       res.status(200).json({ success: true, bazaars });
     } catch {
       res
@@ -544,6 +714,8 @@ export class EventController {
         endDate,
         location,
         registrationDeadline,
+        venueId,
+        allowDoubleBooking,
       } = req.body;
       const eventType =
         parseEventType(
@@ -580,6 +752,13 @@ export class EventController {
         });
       }
 
+      const publication = parsePublicationInput(req.body);
+      if (!publication.success) {
+        return res
+          .status(400)
+          .json({ success: false, message: publication.message });
+      }
+
       const result = await createBazaar({
         name,
         description,
@@ -587,10 +766,13 @@ export class EventController {
         endDate,
         location,
         registrationDeadline,
+        venueId,
+        allowDoubleBooking,
         eventType,
+        publication: publication.fields,
       });
 
-      const status = result.success ? 201 : 400;
+      const status = result.statusCode ?? (result.success ? 201 : 400);
       return res.status(status).json(result);
     } catch (error) {
       console.error("Create bazaar controller error:", error);
@@ -706,6 +888,8 @@ export class EventController {
         extraRequiredResources,
         capacity,
         registrationDeadline,
+        venueId,
+        allowDoubleBooking,
       } = req.body;
 
       const userId = extractUserId(req.user);
@@ -757,6 +941,13 @@ export class EventController {
         });
       }
 
+      const publication = parsePublicationInput(req.body);
+      if (!publication.success) {
+        return res
+          .status(400)
+          .json({ success: false, message: publication.message });
+      }
+
       const result = await createWorkshop({
         name,
         location,
@@ -773,9 +964,12 @@ export class EventController {
         capacity,
         registrationDeadline,
         createdBy: userId,
+        venueId,
+        allowDoubleBooking,
+        publication: publication.fields,
       });
 
-      const status = result.success ? 201 : 400;
+      const status = result.statusCode ?? (result.success ? 201 : 400);
       return res.status(status).json(result);
     } catch (error) {
       console.error("Create workshop controller error:", error);
@@ -831,7 +1025,7 @@ export class EventController {
 
       const result = await editWorkshop(id, userId, updatePayload, actorRole);
 
-      const status = result.success ? 200 : 400;
+      const status = result.statusCode ?? (result.success ? 200 : 400);
       return res.status(status).json(result);
     } catch (error) {
       console.error("Edit workshop controller error:", error);
@@ -909,7 +1103,9 @@ export class EventController {
           .json({ success: false, message: "User ID is required." });
       }
 
-      const result = await registerUserForWorkshop(id, userId);
+      const result = await registerUserForWorkshop(id, userId, {
+        ticketTier: extractQueryString(req.body?.ticketTier),
+      });
       const statusCode = result.statusCode ?? (result.success ? 200 : 400);
 
       return res.status(statusCode).json(result);
@@ -992,6 +1188,96 @@ export class EventController {
     }
   }
 
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async getWaitlistStatusController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        return res.status(400).json({
+          success: false,
+          message: "Event ID is required.",
+        });
+      }
+
+      const result = await getEventWaitlistStatus(id, req.user?.id);
+      const status = result.statusCode ?? (result.success ? 200 : 400);
+      return res.status(status).json(result);
+    } catch (error) {
+      console.error("Get waitlist status controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async joinWaitlistController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!id) {
+        return res.status(400).json({
+          success: false,
+          message: "Event ID is required.",
+        });
+      }
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await joinEventWaitlist(id, userId);
+      const status = result.statusCode ?? (result.success ? 201 : 400);
+      return res.status(status).json(result);
+    } catch (error) {
+      console.error("Join waitlist controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to join the waitlist.",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async leaveWaitlistController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!id) {
+        return res.status(400).json({
+          success: false,
+          message: "Event ID is required.",
+        });
+      }
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await leaveEventWaitlist(id, userId);
+      const status = result.statusCode ?? (result.success ? 200 : 400);
+      return res.status(status).json(result);
+    } catch (error) {
+      console.error("Leave waitlist controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to leave the waitlist.",
+      });
+    }
+  }
+
   @LoginRequired()
   @AllowedRoles(["EventOffice"])
   async createConferenceController(req: AuthRequest, res: Response) {
@@ -1006,6 +1292,8 @@ export class EventController {
         requiredBudget,
         fundingSource,
         extraRequiredResources,
+        venueId,
+        allowDoubleBooking,
       } = req.body;
 
       if (
@@ -1025,6 +1313,13 @@ export class EventController {
         });
       }
 
+      const publication = parsePublicationInput(req.body);
+      if (!publication.success) {
+        return res
+          .status(400)
+          .json({ success: false, message: publication.message });
+      }
+
       const result = await createConference({
         name,
         startDate,
@@ -1035,9 +1330,12 @@ export class EventController {
         requiredBudget,
         fundingSource,
         extraRequiredResources,
+        venueId,
+        allowDoubleBooking,
+        publication: publication.fields,
       });
 
-      const status = result.success ? 201 : 400;
+      const status = result.statusCode ?? (result.success ? 201 : 400);
       return res.status(status).json(result);
     } catch (error) {
       console.error("Create conference controller error:", error);
@@ -1393,6 +1691,300 @@ export class EventController {
     }
   }
 
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async downloadEventCalendarController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const result = await buildEventCalendarFile(id);
+
+      if (!result.success || !result.data) {
+        return res.status(result.statusCode ?? 400).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${result.data.filename}"`
+      );
+      return res.send(result.data.content);
+    } catch (error) {
+      console.error("Download event calendar controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async downloadEventTicketController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const userId = extractUserId(req.user);
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized",
+        });
+      }
+
+      const result = await getUserEventTicket(id, userId);
+
+      if (!result.success || !result.data) {
+        return res.status(result.statusCode ?? 400).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${result.data.filename}"`
+      );
+      return res.send(result.data.buffer);
+    } catch (error) {
+      console.error("Download event ticket controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async checkInEventTicketController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { ticketCode } = req.body ?? {};
+      const staffId = extractUserId(req.user);
+      if (!staffId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized",
+        });
+      }
+
+      if (typeof ticketCode !== "string" || !ticketCode.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: "Ticket code is required.",
+        });
+      }
+
+      const result = await checkInEventTicket(id, ticketCode, staffId);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Check in event ticket controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async getEventRefundPolicyController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const isAttendee = req.user?.role === "User";
+      // Attendees also get a quote for their own paid registration
+      const result = await getEventRefundPolicy(
+        id,
+        isAttendee ? extractUserId(req.user) : undefined
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Get event refund policy controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async setEventRefundPolicyController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      // DELETE drops the override so the event type's policy applies again
+      const result = await setEventRefundPolicy(
+        id,
+        req.method === "DELETE" ? null : req.body ?? {}
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Set event refund policy controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async updateEventRegistrationSettingsController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const result = await updateEventRegistrationSettings(id, req.body ?? {});
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Update registration settings controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async publishEventController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const result = await publishEvent(id, req.body ?? {});
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Publish event controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async unpublishEventController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const result = await unpublishEvent(id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Unpublish event controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async duplicateEventController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const result = await duplicateEvent(id, req.body ?? {});
+      return res
+        .status(result.statusCode ?? (result.success ? 201 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Duplicate event controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async createEventSeriesController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const result = await createEventSeries(id, req.body ?? {}, req.user?.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 201 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Create event series controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async getEventSeriesController(req: AuthRequest, res: Response) {
+    try {
+      const result = await getEventSeries(req.params.seriesId);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Get event series controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async updateEventSeriesController(req: AuthRequest, res: Response) {
+    try {
+      // ?from=<eventId> limits the change to that occurrence and the ones after it
+      const result = await updateEventSeries(
+        req.params.seriesId,
+        req.body ?? {},
+        extractQueryString(req.query.from)
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Update event series controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async cancelEventSeriesController(req: AuthRequest, res: Response) {
+    try {
+      const result = await cancelEventSeries(
+        req.params.seriesId,
+        extractQueryString(req.query.from)
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Cancel event series controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
   @LoginRequired()
   @AllowedRoles(["Student", "Staff", "TA", "Professor"])
   async sendWorkshopCertificatesController(req: AuthRequest, res: Response) {
@@ -1423,6 +2015,39 @@ export class EventController {
     }
   }
 
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async previewEventDiscountController(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const promoCode =
+        typeof req.body?.promoCode === "string" ? req.body.promoCode : "";
+      const result = await previewEventDiscount(
+        id,
+        userId,
+        promoCode,
+        extractQueryString(req.body?.ticketTier)
+      );
+      const status = result.statusCode ?? (result.success ? 200 : 400);
+      return res.status(status).json(result);
+    } catch (error) {
+      console.error("previewEventDiscount controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to apply promo code.",
+      });
+    }
+  }
+
   @LoginRequired()
   @AllowedRoles(["Student", "Staff", "TA", "Professor"])
   async createStripePaymentIntentController(req: AuthRequest, res: Response) {
@@ -1444,7 +2069,14 @@ export class EventController {
         });
       }
 
-      const result = await createStripePaymentIntentService(id, userId);
+      const promoCode =
+        typeof req.body?.promoCode === "string" ? req.body.promoCode : undefined;
+      const result = await createStripePaymentIntentService(
+        id,
+        userId,
+        promoCode,
+        extractQueryString(req.body?.ticketTier)
+      );
       const status = result.statusCode ?? (result.success ? 200 : 400);
       return res.status(status).json(result);
     } catch (error) {
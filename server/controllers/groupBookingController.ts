@@ -0,0 +1,201 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middleware/authMiddleware";
+import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
+import * as groupBookingService from "../services/groupBookingService";
+
+export class GroupBookingController {
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async listMyBookings(req: AuthRequest, res: Response) {
+    try {
+      const result = await groupBookingService.getOrganizerGroupBookings(
+        req.user?.id ?? ""
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("List group bookings error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load group bookings",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async listInvitations(req: AuthRequest, res: Response) {
+    try {
+      const result = await groupBookingService.getPendingGroupInvitations(
+        req.user?.id ?? ""
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("List group invitations error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load invitations",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async bookWithWallet(req: AuthRequest, res: Response) {
+    try {
+      const result = await groupBookingService.bookGroupWithWallet(
+        req.params.eventId,
+        req.user?.id ?? "",
+        req.body ?? {}
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 201 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Group booking error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to book the group",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async createPaymentIntent(req: AuthRequest, res: Response) {
+    try {
+      const result = await groupBookingService.createGroupBookingPaymentIntent(
+        req.params.eventId,
+        req.user?.id ?? "",
+        req.body ?? {}
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Group booking payment intent error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to initiate card payment",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async finalizePayment(req: AuthRequest, res: Response) {
+    try {
+      const paymentIntentId =
+        typeof req.body?.paymentIntentId === "string"
+          ? req.body.paymentIntentId.trim()
+          : "";
+      if (!paymentIntentId) {
+        return res.status(400).json({
+          success: false,
+          message: "Stripe paymentIntentId is required.",
+        });
+      }
+
+      const result = await groupBookingService.finalizeGroupBookingPayment(
+        req.user?.id ?? "",
+        paymentIntentId
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Group booking finalize error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to confirm card payment",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async respondToInvitation(req: AuthRequest, res: Response) {
+    try {
+      if (typeof req.body?.accept !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          message: "accept must be true or false.",
+        });
+      }
+
+      const result = await groupBookingService.respondToGroupInvitation(
+        req.params.id,
+        req.params.seatId,
+        req.user?.id ?? "",
+        req.body.accept
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Group invitation response error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to answer the invitation",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async cancelSeat(req: AuthRequest, res: Response) {
+    try {
+      const result = await groupBookingService.cancelGroupSeat(
+        req.params.id,
+        req.params.seatId,
+        req.user?.id ?? ""
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Cancel group seat error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to cancel the seat",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async downloadSeatTicket(req: AuthRequest, res: Response) {
+    try {
+      const result = await groupBookingService.getGroupSeatTicket(
+        req.params.id,
+        req.params.seatId,
+        req.user?.id ?? ""
+      );
+      if (!result.success || !result.data) {
+        return res.status(result.statusCode ?? 400).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${result.data.filename}"`
+      );
+      return res.send(result.data.buffer);
+    } catch (error) {
+      console.error("Download group seat ticket error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to generate ticket",
+      });
+    }
+  }
+}
+
+export const groupBookingController = new GroupBookingController();
+export default groupBookingController;
@@ -6,11 +6,29 @@ import {
   getGymSessionsByMonth,
   editGymSession,
   registerForGymSession,
+  unregisterFromGymSession,
+  joinGymSessionWaitlist,
+  leaveGymSessionWaitlist,
+  generateGymSessionPass,
+  checkInGymSessionAttendees,
+  getGymSessionParticipants,
+  getGymAttendanceStats,
+  createGymSessionTemplate,
+  getGymSessionTemplates,
+  updateGymSessionTemplate,
+  deleteGymSessionTemplate,
+  type GymSessionTemplatePayload,
 } from "../services/gymSessionService";
 import type { AuthRequest } from "../middleware/authMiddleware";
 import type { IGymSession } from "../models/GymSession";
 
 const EVENT_OFFICE_EDITABLE_FIELDS = new Set(["date", "time", "duration"]);
+const EVENT_OFFICE_TEMPLATE_FIELDS = new Set([
+  "time",
+  "duration",
+  "endDate",
+  "blackoutDates",
+]);
 
 export class GymSessionController {
   cancel = async (req: AuthRequest, res: Response) => {
@@ -200,6 +218,286 @@ export class GymSessionController {
       });
     }
   };
+
+  unregister = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await unregisterFromGymSession(id, req.user.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Unregister from gym session controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  joinWaitlist = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await joinGymSessionWaitlist(id, req.user.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Join gym waitlist controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  leaveWaitlist = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await leaveGymSessionWaitlist(id, req.user.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Leave gym waitlist controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  downloadPass = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await generateGymSessionPass(id, req.user.id);
+      if (!result.success || !result.buffer) {
+        return res.status(result.statusCode ?? 400).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${result.filename}"`
+      );
+      return res.send(result.buffer);
+    } catch (error) {
+      console.error("Gym pass controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  checkIn = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { userIds, passCode } = req.body ?? {};
+
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      const result = await checkInGymSessionAttendees(id, req.user.id, {
+        userIds,
+        passCode: typeof passCode === "string" ? passCode : undefined,
+      });
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Gym check-in controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  viewParticipants = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const result = await getGymSessionParticipants(id);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Gym participants controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  viewAttendanceStats = async (req: AuthRequest, res: Response) => {
+    try {
+      const year = parseInt(req.query.year as string);
+      const month = parseInt(req.query.month as string);
+
+      if (!year || !month || month < 1 || month > 12) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid year and month are required.",
+        });
+      }
+
+      const result = await getGymAttendanceStats(year, month);
+      return res.status(result.success ? 200 : 500).json(result);
+    } catch (error) {
+      console.error("Gym attendance stats controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  createTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+      const payload = req.body as GymSessionTemplatePayload;
+      if (
+        payload?.weekday === undefined ||
+        !payload.time ||
+        !payload.duration ||
+        !payload.type ||
+        !payload.maxParticipants ||
+        !payload.startDate ||
+        !payload.endDate
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "All fields are required.",
+        });
+      }
+
+      const result = await createGymSessionTemplate(payload, req.user?.id);
+      return res
+        .status(result.statusCode ?? (result.success ? 201 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Create gym session template controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  viewTemplates = async (_req: AuthRequest, res: Response) => {
+    try {
+      const result = await getGymSessionTemplates();
+      return res.status(result.success ? 200 : 500).json(result);
+    } catch (error) {
+      console.error("View gym session templates controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  editTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+      const { templateId } = req.params;
+      const { applyToFuture, ...updates } = (req.body ?? {}) as Partial<
+        GymSessionTemplatePayload
+      > & { applyToFuture?: boolean };
+
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "No updates provided",
+        });
+      }
+
+      const isEventOffice =
+        req.user?.role === "EventOffice" ||
+        (req.user?.role === "Admin" && req.user?.adminType === "EventOffice");
+      if (
+        isEventOffice &&
+        Object.keys(updates).some(
+          (field) => !EVENT_OFFICE_TEMPLATE_FIELDS.has(field)
+        )
+      ) {
+        return res.status(403).json({
+          success: false,
+          message:
+            "Events office accounts can only update time, duration, end date, or blackout dates for templates.",
+        });
+      }
+
+      const result = await updateGymSessionTemplate(
+        templateId,
+        updates,
+        applyToFuture === true
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Edit gym session template controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
+
+  deleteTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+      const { templateId } = req.params;
+      const result = await deleteGymSessionTemplate(templateId);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Delete gym session template controller error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error.",
+      });
+    }
+  };
 }
 
 export const gymSessionController = new GymSessionController();
@@ -0,0 +1,201 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middleware/authMiddleware";
+import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
+import { NotificationRecipientModel } from "../models/Notification";
+import * as notificationService from "../services/notificationService";
+import { openEventStream } from "../services/realtimeService";
+
+function resolveRecipient(
+  req: AuthRequest
+): notificationService.NotificationRecipient | null {
+  if (!req.user?.id) {
+    return null;
+  }
+  const isAdminAccount =
+    req.user.role === "Admin" || req.user.role === "EventOffice";
+  return {
+    id: req.user.id,
+    model: isAdminAccount
+      ? NotificationRecipientModel.ADMIN
+      : NotificationRecipientModel.USER,
+  };
+}
+
+function parseBooleanQuery(value: unknown): boolean {
+  return value === "true" || value === "1";
+}
+
+function parseOptionalBoolean(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+export class NotificationController {
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async listNotifications(req: AuthRequest, res: Response) {
+    try {
+      const recipient = resolveRecipient(req);
+      if (!recipient) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const page = Number(req.query.page);
+      const limit = Number(req.query.limit);
+      const result = await notificationService.listNotifications(recipient, {
+        page: Number.isFinite(page) ? page : undefined,
+        limit: Number.isFinite(limit) ? limit : undefined,
+        archived: parseBooleanQuery(req.query.archived),
+        unreadOnly: parseBooleanQuery(req.query.unread),
+      });
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("List notifications error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load notifications.",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async streamNotifications(req: AuthRequest, res: Response) {
+    const recipient = resolveRecipient(req);
+    if (!recipient) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required.",
+      });
+    }
+
+    openEventStream(recipient, req, res);
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async updateNotification(req: AuthRequest, res: Response) {
+    try {
+      const recipient = resolveRecipient(req);
+      if (!recipient) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const { read, archived } = req.body ?? {};
+      const result = await notificationService.updateNotificationState(
+        recipient,
+        req.params.id,
+        {
+          read: parseOptionalBoolean(read),
+          archived: parseOptionalBoolean(archived),
+        }
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Update notification error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update notification.",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async markAllRead(req: AuthRequest, res: Response) {
+    try {
+      const recipient = resolveRecipient(req);
+      if (!recipient) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await notificationService.markAllNotificationsRead(
+        recipient
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Mark notifications read error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update notifications.",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async getPreferences(req: AuthRequest, res: Response) {
+    try {
+      const recipient = resolveRecipient(req);
+      if (!recipient) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await notificationService.getNotificationPreferences(
+        recipient
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Get notification preferences error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load notification preferences.",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
+  async updatePreferences(req: AuthRequest, res: Response) {
+    try {
+      const recipient = resolveRecipient(req);
+      if (!recipient) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await notificationService.updateNotificationPreferences(
+        recipient,
+        req.body?.mutedTypes
+      );
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Update notification preferences error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update notification preferences.",
+      });
+    }
+  }
+}
+
+export const notificationController = new NotificationController();
+export default notificationController;
@@ -0,0 +1,66 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middleware/authMiddleware";
+import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
+import * as refundPolicyService from "../services/refundPolicyService";
+
+export class RefundPolicyController {
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async listPolicies(_req: AuthRequest, res: Response) {
+    try {
+      const result = await refundPolicyService.listRefundPolicies();
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("List refund policies error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load refund policies",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async savePolicy(req: AuthRequest, res: Response) {
+    try {
+      const result = await refundPolicyService.saveRefundPolicy(
+        req.params.eventType,
+        req.body ?? {},
+        req.user?.id
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Save refund policy error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to save refund policy",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async resetPolicy(req: AuthRequest, res: Response) {
+    try {
+      const result = await refundPolicyService.resetRefundPolicy(
+        req.params.eventType
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Reset refund policy error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to reset refund policy",
+      });
+    }
+  }
+}
+
+export const refundPolicyController = new RefundPolicyController();
+export default refundPolicyController;
@@ -0,0 +1,28 @@
+import { Request, Response } from "express";
+import { handleStripeWebhook } from "../services/stripeWebhookService";
+
+export class StripeWebhookController {
+  // Authenticated by the Stripe-Signature header rather than a session
+  async handleWebhook(req: Request, res: Response) {
+    try {
+      const payload = Buffer.isBuffer(req.body) ? req.body : "";
+      const result = await handleStripeWebhook(
+        payload,
+        req.headers["stripe-signature"]
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Stripe webhook error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to process Stripe event",
+      });
+    }
+  }
+}
+
+export const stripeWebhookController = new StripeWebhookController();
+
+export default stripeWebhookController;
@@ -5,6 +5,59 @@ import { z } from "zod";
 import type { AuthRequest } from "../middleware/authMiddleware";
 import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
 import { getWalletRefundSummary as getWalletRefundSummaryService } from "../services/paymentService";
+import * as walletService from "../services/walletService";
+import {
+  getUserPaymentDocument,
+  listUserInvoices,
+  type InvoiceKind,
+} from "../services/invoiceService";
+import {
+  buildUserCalendarFeed,
+  getCalendarFeedToken,
+} from "../services/calendarService";
+
+async function sendPaymentDocument(
+  req: AuthRequest,
+  res: Response,
+  kind: InvoiceKind
+) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required.",
+      });
+    }
+
+    const result = await getUserPaymentDocument(
+      userId,
+      req.params.paymentId,
+      kind
+    );
+
+    if (!result.success || !result.data) {
+      return res.status(result.statusCode ?? 400).json({
+        success: false,
+        message: result.message,
+      });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${result.data.filename}"`
+    );
+    return res.send(result.data.buffer);
+  } catch (error) {
+    console.error("Download payment document error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to generate document.",
+    });
+  }
+}
 
 export class UserController {
   async signup(req: Request, res: Response) {
@@ -127,7 +180,7 @@ export class UserController {
 
   @LoginRequired()
   @AllowedRoles(["Student", "Staff", "TA", "Professor"])
-  async getMyNotifications(req: AuthRequest, res: Response) {
+  async getFavoritesList(req: AuthRequest, res: Response) {
     try {
       const userId = req.user?.id;
 
@@ -138,22 +191,46 @@ export class UserController {
         });
       }
 
-      const result = await userService.getProfessorNotifications(userId);
-      const status = result.success ? 200 : 400;
+      const result = await userService.getFavoriteEvents(userId);
+      const status = result.statusCode ?? (result.success ? 200 : 400);
+      return res.status(status).json(result);
+    } catch (error) {
+      console.error("Get favorites list error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to retrieve favorites.",
+      });
+    }
+  }
 
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async getWalletRefundSummary(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await getWalletRefundSummaryService(userId);
+      const status = result.statusCode ?? (result.success ? 200 : 400);
       return res.status(status).json(result);
     } catch (error) {
-      console.error("Get professor notifications error:", error);
+      console.error("Get wallet summary error:", error);
       return res.status(500).json({
         success: false,
-        message: "Failed to retrieve notifications.",
+        message: "Failed to retrieve wallet summary.",
       });
     }
   }
 
   @LoginRequired()
   @AllowedRoles(["Student", "Staff", "TA", "Professor"])
-  async markMyNotificationsSeen(req: AuthRequest, res: Response) {
+  async getWalletStatement(req: AuthRequest, res: Response) {
     try {
       const userId = req.user?.id;
 
@@ -164,22 +241,63 @@ export class UserController {
         });
       }
 
-      const result = await userService.markNotificationsAsSeen(userId);
-      const status = result.success ? 200 : 400;
+      const { type, from, to } = req.query;
+      const result = await walletService.getWalletStatement(userId, {
+        type: typeof type === "string" && type ? type : undefined,
+        from: typeof from === "string" && from ? from : undefined,
+        to: typeof to === "string" && to ? to : undefined,
+      });
+      const status = result.statusCode ?? (result.success ? 200 : 400);
+      return res.status(status).json(result);
+    } catch (error) {
+      console.error("Get wallet statement error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to retrieve wallet statement.",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async getPaymentHistory(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
 
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await listUserInvoices(userId);
+      const status = result.statusCode ?? (result.success ? 200 : 400);
       return res.status(status).json(result);
     } catch (error) {
-      console.error("Mark notifications seen error:", error);
+      console.error("Get payment history error:", error);
       return res.status(500).json({
         success: false,
-        message: "Failed to update notifications.",
+        message: "Failed to retrieve payments.",
       });
     }
   }
 
   @LoginRequired()
   @AllowedRoles(["Student", "Staff", "TA", "Professor"])
-  async getFavoritesList(req: AuthRequest, res: Response) {
+  async downloadPaymentInvoice(req: AuthRequest, res: Response) {
+    return sendPaymentDocument(req, res, "invoice");
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async downloadPaymentCreditNote(req: AuthRequest, res: Response) {
+    return sendPaymentDocument(req, res, "creditNote");
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async createWalletTopUpIntent(req: AuthRequest, res: Response) {
     try {
       const userId = req.user?.id;
 
@@ -190,23 +308,31 @@ export class UserController {
         });
       }
 
-      const result = await userService.getFavoriteEvents(userId);
+      const result = await walletService.createWalletTopUpIntent(
+        userId,
+        Number(req.body?.amount)
+      );
       const status = result.statusCode ?? (result.success ? 200 : 400);
       return res.status(status).json(result);
     } catch (error) {
-      console.error("Get favorites list error:", error);
+      console.error("Create wallet top-up error:", error);
       return res.status(500).json({
         success: false,
-        message: "Failed to retrieve favorites.",
+        message: "Failed to start wallet top-up.",
       });
     }
   }
 
   @LoginRequired()
   @AllowedRoles(["Student", "Staff", "TA", "Professor"])
-  async getWalletRefundSummary(req: AuthRequest, res: Response) {
+  async finalizeWalletTopUp(req: AuthRequest, res: Response) {
     try {
       const userId = req.user?.id;
+      const paymentIntentIdRaw = req.body?.paymentIntentId;
+      const paymentIntentId =
+        typeof paymentIntentIdRaw === "string" && paymentIntentIdRaw.trim().length > 0
+          ? paymentIntentIdRaw.trim()
+          : undefined;
 
       if (!userId) {
         return res.status(401).json({
@@ -215,14 +341,73 @@ export class UserController {
         });
       }
 
-      const result = await getWalletRefundSummaryService(userId);
+      if (!paymentIntentId) {
+        return res.status(400).json({
+          success: false,
+          message: "Stripe paymentIntentId is required.",
+        });
+      }
+
+      const result = await walletService.finalizeWalletTopUp(
+        userId,
+        paymentIntentId
+      );
       const status = result.statusCode ?? (result.success ? 200 : 400);
       return res.status(status).json(result);
     } catch (error) {
-      console.error("Get wallet summary error:", error);
+      console.error("Finalize wallet top-up error:", error);
       return res.status(500).json({
         success: false,
-        message: "Failed to retrieve wallet summary.",
+        message: "Failed to confirm wallet top-up.",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Student", "Staff", "TA", "Professor"])
+  async getCalendarFeedLink(req: AuthRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required.",
+        });
+      }
+
+      const result = await getCalendarFeedToken(userId, req.method === "POST");
+      const status = result.statusCode ?? (result.success ? 200 : 400);
+      return res.status(status).json(result);
+    } catch (error) {
+      console.error("Get calendar feed link error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load calendar feed link.",
+      });
+    }
+  }
+
+  // Public: calendar apps cannot send a JWT, so the token in the URL is the credential
+  async getCalendarFeed(req: Request, res: Response) {
+    try {
+      const result = await buildUserCalendarFeed(req.params.token);
+
+      if (!result.success || !result.data) {
+        return res.status(result.statusCode ?? 400).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=300");
+      return res.send(result.data);
+    } catch (error) {
+      console.error("Get calendar feed error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to build calendar feed.",
       });
     }
   }
@@ -1,5 +1,10 @@
 import type { Request, Response } from "express";
 import * as vendorService from "../services/vendorService";
+import { getVendorRedemptionReport } from "../services/discountService";
+import {
+  getVendorPaymentDocument,
+  type InvoiceKind,
+} from "../services/invoiceService";
 import { z } from "zod";
 import type { AuthRequest } from "../middleware/authMiddleware";
 import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
@@ -168,6 +173,49 @@ function parseAttendeesFromRequest(
   };
 }
 
+async function sendApplicationPaymentDocument(
+  req: AuthRequest,
+  res: Response,
+  kind: InvoiceKind
+) {
+  try {
+    const vendorId = req.user?.id;
+
+    if (!vendorId) {
+      return res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    const result = await getVendorPaymentDocument(
+      vendorId,
+      req.params.eventId,
+      kind
+    );
+
+    if (!result.success || !result.data) {
+      return res.status(result.statusCode ?? 400).json({
+        success: false,
+        message: result.message,
+      });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${result.data.filename}"`
+    );
+    return res.send(result.data.buffer);
+  } catch (error) {
+    console.error("Download booth payment document error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+}
+
 export class VendorController {
   async vendorSignup(req: Request, res: Response) {
     try {
@@ -363,6 +411,18 @@ export class VendorController {
     }
   }
 
+  @LoginRequired()
+  @AllowedRoles(["Vendor"])
+  async downloadApplicationInvoice(req: AuthRequest, res: Response) {
+    return sendApplicationPaymentDocument(req, res, "invoice");
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["Vendor"])
+  async downloadApplicationCreditNote(req: AuthRequest, res: Response) {
+    return sendApplicationPaymentDocument(req, res, "creditNote");
+  }
+
   @LoginRequired()
   @AllowedRoles(["Vendor"])
   async cancelMyApplication(req: AuthRequest, res: Response) {
@@ -475,6 +535,40 @@ export class VendorController {
     }
   }
 
+  @LoginRequired()
+  @AllowedRoles(["Admin", "EventOffice"])
+  async extendPaymentDeadline(req: AuthRequest, res: Response) {
+    try {
+      const { vendorId, eventId, reason } = req.body ?? {};
+      const dueDate = parseOptionalDate(req.body?.dueDate);
+
+      if (!vendorId || !eventId || !dueDate) {
+        return res.status(400).json({
+          success: false,
+          message: "vendorId, eventId, and a valid dueDate are required",
+        });
+      }
+
+      const result = await vendorService.extendApplicationPaymentDeadline({
+        vendorId: String(vendorId),
+        eventId: String(eventId),
+        dueDate,
+        reason: typeof reason === "string" ? reason : undefined,
+        extendedBy: req.user?.id,
+      });
+
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Extend payment deadline error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
   @LoginRequired()
   @AllowedRoles(["Vendor"])
   async uploadApplicationAttendees(req: AuthRequest, res: Response) {
@@ -903,6 +997,32 @@ export class VendorController {
     }
   }
 
+  @LoginRequired()
+  @AllowedRoles(["Vendor"])
+  async getMyLoyaltyRedemptions(req: AuthRequest, res: Response) {
+    try {
+      const vendorId = req.user?.id;
+
+      if (!vendorId) {
+        return res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+      }
+
+      const result = await getVendorRedemptionReport(vendorId);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Get loyalty redemptions error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+
   @LoginRequired()
   @AllowedRoles(["Student", "Staff", "TA", "Professor", "EventOffice", "Admin"])
   async listLoyaltyVendors(_req: AuthRequest, res: Response) {
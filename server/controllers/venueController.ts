@@ -0,0 +1,103 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middleware/authMiddleware";
+import { LoginRequired, AllowedRoles } from "../middleware/authDecorators";
+import * as venueService from "../services/venueService";
+
+export class VenueController {
+  // Professors pick a room when proposing a workshop
+  @LoginRequired()
+  @AllowedRoles(["Professor", "EventOffice", "Admin"])
+  async listVenues(req: AuthRequest, res: Response) {
+    try {
+      const campus = typeof req.query.campus === "string" ? req.query.campus : undefined;
+      const result = await venueService.listVenues({
+        campus,
+        includeInactive: req.query.includeInactive === "true",
+      });
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("List venues error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load venues",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async createVenue(req: AuthRequest, res: Response) {
+    try {
+      const result = await venueService.createVenue(req.body);
+      return res
+        .status(result.statusCode ?? (result.success ? 201 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Create venue error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to create venue",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async updateVenue(req: AuthRequest, res: Response) {
+    try {
+      const result = await venueService.updateVenue(req.params.venueId, req.body);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Update venue error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to update venue",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async retireVenue(req: AuthRequest, res: Response) {
+    try {
+      const result = await venueService.retireVenue(req.params.venueId);
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Retire venue error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to retire venue",
+      });
+    }
+  }
+
+  @LoginRequired()
+  @AllowedRoles(["EventOffice", "Admin"])
+  async getVenueCalendar(req: AuthRequest, res: Response) {
+    try {
+      const result = await venueService.getVenueCalendar(
+        req.params.venueId,
+        req.query.from,
+        req.query.to
+      );
+      return res
+        .status(result.statusCode ?? (result.success ? 200 : 400))
+        .json(result);
+    } catch (error) {
+      console.error("Venue calendar error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to load venue calendar",
+      });
+    }
+  }
+}
+
+export const venueController = new VenueController();
+export default venueController;
@@ -1,12 +1,7 @@
 import mongoose, { Schema } from "mongoose";
 import { IBaseModel } from "./BaseModel";
 import bcrypt from "bcrypt";
-
-export interface IAdminNotification {
-  message: string;
-  seen: boolean;
-  createdAt?: Date;
-}
+import { NotificationType } from "./Notification";
 
 export interface IAdmin extends IBaseModel {
   // could maybe be under users?
@@ -16,18 +11,9 @@ export interface IAdmin extends IBaseModel {
   password: string;
   status: "Active" | "Blocked";
   adminType: string; // "Event Office" or "Admin"
-  notifications?: IAdminNotification[];
+  mutedNotificationTypes?: NotificationType[];
 }
 
-const NotificationSchema = new Schema<IAdminNotification>(
-  {
-    message: { type: String, required: true },
-    seen: { type: Boolean, default: false },
-    createdAt: { type: Date, default: Date.now },
-  },
-  { _id: false }
-);
-
 const AdminSchema = new Schema<IAdmin>(
   {
     firstName: { type: String, required: true },
@@ -40,7 +26,10 @@ const AdminSchema = new Schema<IAdmin>(
       enum: ["EventOffice", "Admin"],
       required: true,
     },
-    notifications: { type: [NotificationSchema], default: [] },
+    mutedNotificationTypes: {
+      type: [{ type: String, enum: Object.values(NotificationType) }],
+      default: [],
+    },
   },
   { timestamps: true }
 );
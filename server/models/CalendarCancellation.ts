@@ -0,0 +1,36 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+
+// Keeps deleted events, gym sessions and court bookings in calendar feeds as
+// CANCELLED entries so subscribed calendar apps drop them.
+export interface ICalendarCancellation extends IBaseModel {
+  uid: string;
+  userIds: string[];
+  summary: string;
+  location?: string;
+  startsAt: Date;
+  endsAt: Date;
+  sequence: number;
+}
+
+const CalendarCancellationSchema = new Schema<ICalendarCancellation>(
+  {
+    uid: { type: String, required: true },
+    userIds: { type: [String], index: true, default: [] },
+    summary: { type: String, required: true },
+    location: { type: String },
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true },
+    sequence: { type: Number, default: 1 },
+  },
+  { timestamps: true }
+);
+
+const CalendarCancellationModel =
+  mongoose.models.CalendarCancellation ||
+  mongoose.model<ICalendarCancellation>(
+    "CalendarCancellation",
+    CalendarCancellationSchema
+  );
+
+export default CalendarCancellationModel;
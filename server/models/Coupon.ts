@@ -0,0 +1,47 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+import { EventType } from "./Event";
+
+// Events Office discount code; an empty eventTypes list applies to every paid event
+export interface ICoupon extends IBaseModel {
+  code: string;
+  description?: string;
+  discountRate: number;
+  eventTypes: EventType[];
+  validFrom?: Date;
+  validUntil?: Date;
+  maxRedemptions?: number; // across all users
+  perUserLimit?: number;
+  active: boolean;
+  createdBy?: string;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    description: { type: String, trim: true },
+    discountRate: { type: Number, required: true, min: 1, max: 100 },
+    eventTypes: {
+      type: [{ type: String, enum: Object.values(EventType) }],
+      default: [],
+    },
+    validFrom: { type: Date },
+    validUntil: { type: Date },
+    maxRedemptions: { type: Number, min: 1 },
+    perUserLimit: { type: Number, min: 1 },
+    active: { type: Boolean, default: true },
+    createdBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+const CouponModel =
+  mongoose.models.Coupon || mongoose.model<ICoupon>("Coupon", CouponSchema);
+
+export default CouponModel;
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Types } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+import { IPaymentDiscount, PaymentDiscountSchema } from "./UserPayment";
+
+export type CourtPaymentMethod = "Wallet" | "CreditCard";
+export type CourtPaymentStatus = "Paid" | "Refunded";
+
+/**
+ * Receipt for a paid court slot. Kept after the reservation is cancelled (and
+ * deleted) so refunds and court revenue can still be traced.
+ */
+export interface ICourtPayment extends IBaseModel {
+  userId: Types.ObjectId;
+  courtId: Types.ObjectId;
+  reservationId?: Types.ObjectId;
+  date: Date;
+  startTime: string; // HH:mm, court local time
+  endTime: string;
+  amount: number;
+  currency: string;
+  method: CourtPaymentMethod;
+  cardLast4?: string;
+  status: CourtPaymentStatus;
+  receiptNumber: string;
+  paidAt: Date;
+  transactionReference?: string; // Stripe payment intent for card payments
+  refundAmount?: number;
+  refundedAt?: Date;
+  refundReference?: string;
+  stripeRefundId?: string;
+  refundRequestedAt?: Date; // card refund in flight
+  discount?: IPaymentDiscount; // promo code applied; `amount` is already after it
+  discountReference?: string; // redemption it was taken under, shared by a weekly series
+}
+
+const CourtPaymentSchema = new Schema<ICourtPayment>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    courtId: {
+      type: Schema.Types.ObjectId,
+      ref: "Court",
+      required: true,
+    },
+    reservationId: { type: Schema.Types.ObjectId, ref: "CourtReservation" },
+    date: { type: Date, required: true },
+    startTime: { type: String, required: true },
+    endTime: { type: String, required: true },
+    amount: { type: Number, required: true },
+    currency: { type: String, default: "EGP" },
+    method: {
+      type: String,
+      enum: ["Wallet", "CreditCard"],
+      default: "Wallet",
+    },
+    cardLast4: { type: String },
+    status: {
+      type: String,
+      enum: ["Paid", "Refunded"],
+      default: "Paid",
+    },
+    receiptNumber: { type: String, required: true, unique: true },
+    paidAt: { type: Date, default: Date.now },
+    transactionReference: { type: String },
+    refundAmount: { type: Number },
+    refundedAt: { type: Date },
+    refundReference: { type: String },
+    stripeRefundId: { type: String },
+    refundRequestedAt: { type: Date },
+    discount: { type: PaymentDiscountSchema },
+    discountReference: { type: String, index: true },
+  },
+  { timestamps: true }
+);
+
+// A card payment intent pays for exactly one slot
+CourtPaymentSchema.index(
+  { transactionReference: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { transactionReference: { $type: "string" } },
+  }
+);
+CourtPaymentSchema.index({ courtId: 1, date: 1, status: 1 });
+
+const CourtPaymentModel =
+  mongoose.models.CourtPayment ||
+  mongoose.model<ICourtPayment>("CourtPayment", CourtPaymentSchema);
+
+export default CourtPaymentModel;
@@ -9,6 +9,11 @@ export interface ICourtReservation extends IBaseModel {
   endTime: string; // HH:mm
   studentName: string;
   studentGucId: string;
+  seriesId?: string; // Shared by every occurrence of a recurring booking
+  payment?: Schema.Types.ObjectId; // CourtPayment for paid courts
+  noShow: boolean;
+  noShowMarkedBy?: string;
+  noShowMarkedAt?: Date;
 }
 
 const CourtReservationSchema = new Schema<ICourtReservation>(
@@ -20,6 +25,11 @@ const CourtReservationSchema = new Schema<ICourtReservation>(
     endTime: { type: String, required: true },
     studentName: { type: String, required: true },
     studentGucId: { type: String, required: true },
+    seriesId: { type: String, index: true },
+    payment: { type: Schema.Types.ObjectId, ref: "CourtPayment" },
+    noShow: { type: Boolean, default: false },
+    noShowMarkedBy: { type: String },
+    noShowMarkedAt: { type: Date },
   },
   { timestamps: true }
 );
@@ -0,0 +1,28 @@
+import mongoose, { Schema, Types } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+
+// Redemptions held against a promo code's limits: one row for the whole code
+// (no userId) and one per user. Only changed with conditional $inc so two
+// checkouts cannot both take the last redemption.
+export interface IDiscountCounter extends IBaseModel {
+  counterKey: string;
+  userId?: Types.ObjectId;
+  count: number;
+}
+
+const DiscountCounterSchema = new Schema<IDiscountCounter>(
+  {
+    counterKey: { type: String, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
+    count: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+DiscountCounterSchema.index({ counterKey: 1, userId: 1 }, { unique: true });
+
+const DiscountCounterModel =
+  mongoose.models.DiscountCounter ||
+  mongoose.model<IDiscountCounter>("DiscountCounter", DiscountCounterSchema);
+
+export default DiscountCounterModel;
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Types } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+import { DiscountSource } from "./UserPayment";
+
+export enum DiscountRedemptionStatus {
+  RESERVED = "Reserved",
+  REDEEMED = "Redeemed",
+  RELEASED = "Released",
+}
+
+// One row per checkout that used a promo code. `reference` is the payment
+// intent id for card checkouts and the transaction reference for wallet ones.
+export interface IDiscountRedemption extends IBaseModel {
+  reference: string;
+  counterKey: string;
+  code: string;
+  source: DiscountSource;
+  couponId?: Types.ObjectId;
+  vendorId?: Types.ObjectId;
+  userId: Types.ObjectId;
+  status: DiscountRedemptionStatus;
+  expiresAt?: Date; // a Reserved row gives the redemption back after this
+  releasedAt?: Date;
+}
+
+const DiscountRedemptionSchema = new Schema<IDiscountRedemption>(
+  {
+    reference: { type: String, required: true, unique: true },
+    counterKey: { type: String, required: true },
+    code: { type: String, required: true },
+    source: {
+      type: String,
+      enum: Object.values(DiscountSource),
+      required: true,
+    },
+    couponId: { type: Schema.Types.ObjectId, ref: "Coupon" },
+    vendorId: { type: Schema.Types.ObjectId, ref: "Vendor" },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    status: {
+      type: String,
+      enum: Object.values(DiscountRedemptionStatus),
+      default: DiscountRedemptionStatus.RESERVED,
+    },
+    expiresAt: { type: Date },
+    releasedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+DiscountRedemptionSchema.index({ status: 1, expiresAt: 1 });
+
+const DiscountRedemptionModel =
+  mongoose.models.DiscountRedemption ||
+  mongoose.model<IDiscountRedemption>(
+    "DiscountRedemption",
+    DiscountRedemptionSchema
+  );
+
+export default DiscountRedemptionModel;
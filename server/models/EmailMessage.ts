@@ -0,0 +1,79 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+
+export enum EmailStatus {
+  QUEUED = "Queued",
+  SENDING = "Sending",
+  SENT = "Sent",
+  FAILED = "Failed",
+}
+
+export interface IEmailAttachment {
+  filename?: string;
+  content: Buffer;
+  contentType?: string;
+  cid?: string;
+}
+
+export interface IEmailMessage extends IBaseModel {
+  category: string; // EmailService method that produced the message
+  to: string;
+  from?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  attachments: IEmailAttachment[];
+  status: EmailStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  transport?: string;
+  messageId?: string;
+  previewUrl?: string;
+  sentAt?: Date;
+}
+
+const EmailAttachmentSchema = new Schema<IEmailAttachment>(
+  {
+    filename: { type: String },
+    content: { type: Buffer, required: true },
+    contentType: { type: String },
+    cid: { type: String },
+  },
+  { _id: false }
+);
+
+const EmailMessageSchema = new Schema<IEmailMessage>(
+  {
+    category: { type: String, required: true },
+    to: { type: String, required: true },
+    from: { type: String },
+    subject: { type: String, required: true },
+    html: { type: String },
+    text: { type: String },
+    attachments: { type: [EmailAttachmentSchema], default: [] },
+    status: {
+      type: String,
+      enum: Object.values(EmailStatus),
+      default: EmailStatus.QUEUED,
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5 },
+    nextAttemptAt: { type: Date, default: () => new Date() },
+    lastError: { type: String },
+    transport: { type: String },
+    messageId: { type: String },
+    previewUrl: { type: String },
+    sentAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+EmailMessageSchema.index({ status: 1, nextAttemptAt: 1 });
+
+const EmailMessageModel =
+  mongoose.models.EmailMessage ||
+  mongoose.model<IEmailMessage>("EmailMessage", EmailMessageSchema);
+
+export default EmailMessageModel;
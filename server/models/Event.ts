@@ -1,4 +1,4 @@
-import mongoose, { Schema } from "mongoose";
+import mongoose, { Schema, Types } from "mongoose";
 import { IBaseModel } from "./BaseModel";
 
 export enum Location {
@@ -41,13 +41,96 @@ export enum WorkshopStatus {
   REJECTED = "Rejected",
 }
 
+// Events without a status were created before drafts existed and count as published
+export enum PublicationStatus {
+  DRAFT = "Draft",
+  SCHEDULED = "Scheduled", // goes live at publishAt
+  PUBLISHED = "Published",
+  UNPUBLISHED = "Unpublished", // hidden again; registrations are kept
+}
+
+export enum WaitlistStatus {
+  WAITING = "Waiting",
+  OFFERED = "Offered",
+}
+
+export enum RefundDestination {
+  WALLET = "Wallet",
+  ORIGINAL_PAYMENT = "OriginalPayment", // card share goes back through Stripe
+}
+
+// Who can buy a ticket tier; External is open to every role
+export enum TicketTierAudience {
+  STUDENT = "Student",
+  STAFF = "Staff",
+  EXTERNAL = "External",
+}
+
+export interface IRefundTier {
+  hoursBeforeStart: number; // tier applies when cancelling at least this early
+  percentage: number;
+}
+
+export interface IRefundPolicyRules {
+  tiers: IRefundTier[];
+  destination: RefundDestination;
+}
+
+export interface IEventWaitlistEntry {
+  userId: string;
+  joinedAt: Date;
+  status: WaitlistStatus;
+  offeredAt?: Date;
+  offerExpiresAt?: Date; // seat is held for the user until this time
+}
+
+export interface IEventCheckIn {
+  userId: string;
+  paymentId: string; // UserPayment the ticket was issued for
+  checkedInAt: Date;
+  checkedInBy: string;
+}
+
+// A group booking seat waiting for its invitee; counts against capacity
+export interface IEventGroupHold {
+  bookingId: string;
+  seatId: string;
+  userId?: string; // set when the invitee already has an account
+  expiresAt?: Date; // stops counting against capacity after this
+}
+
+export interface IEventTicketTier {
+  audience: TicketTierAudience;
+  price: number;
+  capacity?: number; // tier limit; the event capacity still applies
+}
+
+export interface IEventTicketHolder {
+  userId: string;
+  audience: TicketTierAudience;
+}
+
+// A talk, panel or break in a conference programme
+export interface IAgendaSession {
+  _id: Types.ObjectId;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  room?: string;
+  track?: string;
+  speakers: string[];
+  abstract?: string;
+  bookmarkedBy: string[]; // users who added the session to their schedule
+}
+
 export interface IEvent extends IBaseModel {
   // Event type? workshop, seminar, etc. Not decided yet
   name: string;
   eventType: EventType;
   description: string;
   date: Date;
-  location: Location; // which hall or online
+  location: Location; // campus; the room is venueId
+  venueId?: string; // Venue the event is held in, checked for double bookings
   capacity?: number; // workshops and trips only
   startDate: Date;
   endDate: Date;
@@ -67,11 +150,117 @@ export interface IEvent extends IBaseModel {
   archived: boolean;
   allowedRoles?: string[]; // User roles that are allowed to register for this event
   registeredUsers: string[]; // List of users
+  waitlist: IEventWaitlistEntry[]; // Queue for full workshops and trips, oldest first
+  checkIns: IEventCheckIn[]; // Tickets scanned at the door
+  groupHolds: IEventGroupHold[]; // Paid group seats not yet confirmed
   vendors: string[]; // List of vendors
   certificateSentAt?: Date;
   certificateSentBy?: "auto" | "manual";
   certificateSentCount?: number;
+  calendarSequence: number; // Bumped when calendar-visible details change
+  refundPolicy?: IRefundPolicyRules; // Overrides the event type's policy
+  registrationEnabled?: boolean; // seminars and conferences opt in to registration
+  ticketTiers?: IEventTicketTier[]; // replace `price` when set
+  ticketHolders: IEventTicketHolder[]; // tier each registered user bought
+  agendaSessions: IAgendaSession[]; // conferences only, in no particular order
+  seriesId?: string; // Set when generated as part of an EventSeries
+  seriesIndex?: number; // 0 for the event the series was started from
+  publicationStatus?: PublicationStatus;
+  publishAt?: Date; // Scheduled events only
+  publishedAt?: Date;
+  announcedAt?: Date; // The new-event announcement goes out once
 }
+const WaitlistEntrySchema = new Schema<IEventWaitlistEntry>(
+  {
+    userId: { type: String, required: true },
+    joinedAt: { type: Date, default: Date.now },
+    status: {
+      type: String,
+      enum: Object.values(WaitlistStatus),
+      default: WaitlistStatus.WAITING,
+    },
+    offeredAt: { type: Date },
+    offerExpiresAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const CheckInSchema = new Schema<IEventCheckIn>(
+  {
+    userId: { type: String, required: true },
+    paymentId: { type: String, required: true },
+    checkedInAt: { type: Date, required: true },
+    checkedInBy: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const GroupHoldSchema = new Schema<IEventGroupHold>(
+  {
+    bookingId: { type: String, required: true },
+    seatId: { type: String, required: true },
+    userId: { type: String },
+    expiresAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const TicketTierSchema = new Schema<IEventTicketTier>(
+  {
+    audience: {
+      type: String,
+      enum: Object.values(TicketTierAudience),
+      required: true,
+    },
+    price: { type: Number, required: true, min: 0 },
+    capacity: { type: Number, min: 1 },
+  },
+  { _id: false }
+);
+
+const TicketHolderSchema = new Schema<IEventTicketHolder>(
+  {
+    userId: { type: String, required: true },
+    audience: {
+      type: String,
+      enum: Object.values(TicketTierAudience),
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const AgendaSessionSchema = new Schema<IAgendaSession>({
+  title: { type: String, required: true, trim: true },
+  startTime: { type: Date, required: true },
+  endTime: { type: Date, required: true },
+  room: { type: String, trim: true },
+  track: { type: String, trim: true },
+  speakers: { type: [String], default: [] },
+  abstract: { type: String },
+  bookmarkedBy: { type: [String], default: [] },
+});
+
+const RefundTierSchema = new Schema<IRefundTier>(
+  {
+    hoursBeforeStart: { type: Number, required: true, min: 0 },
+    percentage: { type: Number, required: true, min: 0, max: 100 },
+  },
+  { _id: false }
+);
+
+export const RefundPolicyRulesSchema = new Schema<IRefundPolicyRules>(
+  {
+    tiers: { type: [RefundTierSchema], default: [] },
+    destination: {
+      type: String,
+      enum: Object.values(RefundDestination),
+      default: RefundDestination.WALLET,
+    },
+  },
+  { _id: false }
+);
+
 const EventSchema = new Schema<IEvent>(
   {
     name: { type: String, required: true },
@@ -87,6 +276,7 @@ const EventSchema = new Schema<IEvent>(
       enum: Object.values(Location),
       required: true,
     },
+    venueId: { type: String, index: true },
     capacity: { type: Number },
     startDate: { type: Date, required: true },
     endDate: { type: Date, required: true },
@@ -116,10 +306,28 @@ const EventSchema = new Schema<IEvent>(
     archived: { type: Boolean, default: false },
     allowedRoles: [{ type: String }],
     registeredUsers: [{ type: String }],
+    waitlist: { type: [WaitlistEntrySchema], default: [] },
+    checkIns: { type: [CheckInSchema], default: [] },
+    groupHolds: { type: [GroupHoldSchema], default: [] },
     vendors: [{ type: String }],
     certificateSentAt: { type: Date },
     certificateSentBy: { type: String, enum: ["auto", "manual"] },
     certificateSentCount: { type: Number },
+    calendarSequence: { type: Number, default: 0 },
+    refundPolicy: { type: RefundPolicyRulesSchema },
+    registrationEnabled: { type: Boolean },
+    ticketTiers: { type: [TicketTierSchema], default: undefined },
+    ticketHolders: { type: [TicketHolderSchema], default: [] },
+    agendaSessions: { type: [AgendaSessionSchema], default: [] },
+    seriesId: { type: String, index: true },
+    seriesIndex: { type: Number },
+    publicationStatus: {
+      type: String,
+      enum: Object.values(PublicationStatus),
+    },
+    publishAt: { type: Date, index: true },
+    publishedAt: { type: Date },
+    announcedAt: { type: Date },
   },
   { timestamps: true }
 );
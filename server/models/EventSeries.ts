@@ -0,0 +1,45 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+import { EventType } from "./Event";
+
+export enum SeriesFrequency {
+  WEEKLY = "Weekly",
+  MONTHLY = "Monthly",
+  YEARLY = "Yearly",
+}
+
+// A recurring event; each occurrence is a regular Event pointing back here
+export interface IEventSeries extends IBaseModel {
+  name: string;
+  eventType: EventType;
+  frequency: SeriesFrequency;
+  interval: number; // every N weeks, months or years
+  occurrenceCount: number; // occurrences generated, including the first event
+  firstStartDate: Date;
+  cancelledAt?: Date;
+  createdBy?: string;
+}
+
+const EventSeriesSchema = new Schema<IEventSeries>(
+  {
+    name: { type: String, required: true },
+    eventType: { type: String, enum: Object.values(EventType), required: true },
+    frequency: {
+      type: String,
+      enum: Object.values(SeriesFrequency),
+      required: true,
+    },
+    interval: { type: Number, required: true, min: 1 },
+    occurrenceCount: { type: Number, required: true, min: 2 },
+    firstStartDate: { type: Date, required: true },
+    cancelledAt: { type: Date },
+    createdBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+const EventSeriesModel =
+  mongoose.models.EventSeries ||
+  mongoose.model<IEventSeries>("EventSeries", EventSeriesSchema);
+
+export default EventSeriesModel;
@@ -0,0 +1,118 @@
+import mongoose, { Schema, Types } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+
+export enum GroupBookingStatus {
+  AWAITING_PAYMENT = "AwaitingPayment", // card intent created, not yet paid
+  PAID = "Paid",
+  FAILED = "Failed",
+}
+
+export enum GroupSeatStatus {
+  PENDING = "Pending", // invitee has not answered; the seat is held
+  CONFIRMED = "Confirmed",
+  DECLINED = "Declined",
+  CANCELLED = "Cancelled",
+  EXPIRED = "Expired", // not answered in time; the seat was released
+}
+
+export type GroupBookingMethod = "Wallet" | "CreditCard";
+
+export interface IGroupSeat {
+  _id: Types.ObjectId;
+  email: string;
+  userId?: Types.ObjectId; // known once the email matches a verified user
+  status: GroupSeatStatus;
+  paymentId?: Types.ObjectId; // the attendee's UserPayment, issued on confirmation
+  respondedAt?: Date;
+  expiresAt?: Date; // the held seat is released after this
+  refundAmount?: number;
+  refundedAt?: Date;
+}
+
+/**
+ * Seats bought by one organizer for a workshop or trip. The organizer pays
+ * for every seat up front; each invitee confirms to receive their own
+ * ticket, and unanswered seats stay held against the event's capacity.
+ */
+export interface IGroupBooking extends IBaseModel {
+  eventId: Types.ObjectId;
+  organizerId: Types.ObjectId;
+  seats: IGroupSeat[];
+  seatPrice: number;
+  currency: string;
+  method: GroupBookingMethod;
+  status: GroupBookingStatus;
+  receiptNumber: string;
+  transactionReference?: string; // Stripe payment intent for card bookings
+  cardLast4?: string;
+  paidAt?: Date;
+  failureReason?: string;
+  refundedAt?: Date; // card refunded after a failed booking
+}
+
+const GroupSeatSchema = new Schema<IGroupSeat>({
+  email: { type: String, required: true, lowercase: true, trim: true },
+  userId: { type: Schema.Types.ObjectId, ref: "User" },
+  status: {
+    type: String,
+    enum: Object.values(GroupSeatStatus),
+    default: GroupSeatStatus.PENDING,
+  },
+  paymentId: { type: Schema.Types.ObjectId, ref: "UserPayment" },
+  respondedAt: { type: Date },
+  expiresAt: { type: Date },
+  refundAmount: { type: Number },
+  refundedAt: { type: Date },
+});
+
+const GroupBookingSchema = new Schema<IGroupBooking>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      required: true,
+      index: true,
+    },
+    organizerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    seats: { type: [GroupSeatSchema], default: [] },
+    seatPrice: { type: Number, required: true },
+    currency: { type: String, default: "EGP" },
+    method: {
+      type: String,
+      enum: ["Wallet", "CreditCard"],
+      default: "Wallet",
+    },
+    status: {
+      type: String,
+      enum: Object.values(GroupBookingStatus),
+      default: GroupBookingStatus.AWAITING_PAYMENT,
+    },
+    receiptNumber: { type: String, required: true, unique: true },
+    transactionReference: { type: String },
+    cardLast4: { type: String },
+    paidAt: { type: Date },
+    failureReason: { type: String },
+    refundedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+GroupBookingSchema.index({ "seats.email": 1, "seats.status": 1 });
+GroupBookingSchema.index(
+  { transactionReference: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { transactionReference: { $type: "string" } },
+  }
+);
+
+const GroupBookingModel =
+  mongoose.models.GroupBooking ||
+  mongoose.model<IGroupBooking>("GroupBooking", GroupBookingSchema);
+
+export default GroupBookingModel;
@@ -8,6 +8,33 @@ export enum GymSessionType {
   PILATES = "Pilates",
   CROSSFIT = "CrossFit",
 }
+
+export enum GymCheckInMethod {
+  MANUAL = "Manual",
+  QR = "QR",
+}
+
+export interface IGymAttendance {
+  userId: string;
+  checkedInAt: Date;
+  checkedInBy: string;
+  method: GymCheckInMethod;
+}
+
+const GymAttendanceSchema = new Schema<IGymAttendance>(
+  {
+    userId: { type: String, required: true },
+    checkedInAt: { type: Date, required: true },
+    checkedInBy: { type: String, required: true },
+    method: {
+      type: String,
+      enum: Object.values(GymCheckInMethod),
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 //assumption Date and time are separated
 export interface IGymSession extends IBaseModel {
   date: Date;
@@ -16,6 +43,10 @@ export interface IGymSession extends IBaseModel {
   type: GymSessionType;
   maxParticipants: number;
   registeredUsers: string[];
+  waitlist: string[]; // User IDs in the order they joined
+  attendance: IGymAttendance[];
+  templateId?: string; // Set when generated from a GymSessionTemplate
+  calendarSequence: number; // Bumped on every edit for iCal feeds
 }
 
 const GymSessionSchema = new Schema<IGymSession>(
@@ -26,6 +57,10 @@ const GymSessionSchema = new Schema<IGymSession>(
     type: { type: String, enum: Object.values(GymSessionType), required: true },
     maxParticipants: { type: Number, required: true, min: 1 },
     registeredUsers: [{ type: String }],
+    waitlist: { type: [String], default: [] },
+    attendance: { type: [GymAttendanceSchema], default: [] },
+    templateId: { type: String, index: true },
+    calendarSequence: { type: Number, default: 0 },
   },
   { timestamps: true }
 );
@@ -0,0 +1,44 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+import { GymSessionType } from "./GymSession";
+
+// A weekly timetable slot that gym sessions are generated from
+export interface IGymSessionTemplate extends IBaseModel {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  time: string; // HH:mm, same format as GymSession.time
+  duration: number;
+  type: GymSessionType;
+  maxParticipants: number;
+  startDate: Date;
+  endDate: Date;
+  blackoutDates: Date[]; // Holidays and closures that are never generated
+  createdBy?: string;
+}
+
+const GymSessionTemplateSchema = new Schema<IGymSessionTemplate>(
+  {
+    weekday: { type: Number, required: true, min: 0, max: 6 },
+    time: {
+      type: String,
+      required: true,
+      match: /^([01]\d|2[0-3]):[0-5]\d$/,
+    },
+    duration: { type: Number, required: true, min: 1 },
+    type: { type: String, enum: Object.values(GymSessionType), required: true },
+    maxParticipants: { type: Number, required: true, min: 1 },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+    blackoutDates: { type: [Date], default: [] },
+    createdBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+const GymSessionTemplateModel =
+  mongoose.models.GymSessionTemplate ||
+  mongoose.model<IGymSessionTemplate>(
+    "GymSessionTemplate",
+    GymSessionTemplateSchema
+  );
+
+export default GymSessionTemplateModel;
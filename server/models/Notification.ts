@@ -0,0 +1,101 @@
+import mongoose, { Schema, Types } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+
+export enum NotificationType {
+  NEW_EVENT = "NewEvent",
+  REMINDER = "Reminder",
+  LOYALTY_PARTNER = "LoyaltyPartner",
+  POLL = "Poll",
+  VENDOR_APPLICATION = "VendorApplication",
+  WORKSHOP_REVIEW = "WorkshopReview",
+  WAITLIST = "Waitlist",
+  GYM = "Gym",
+  COURT = "Court",
+  GENERAL = "General",
+}
+
+// Announcements people can opt out of. The rest are about their own
+// registrations, bookings or requests and are always delivered.
+export const MUTABLE_NOTIFICATION_TYPES: NotificationType[] = [
+  NotificationType.NEW_EVENT,
+  NotificationType.REMINDER,
+  NotificationType.LOYALTY_PARTNER,
+  NotificationType.POLL,
+  NotificationType.VENDOR_APPLICATION,
+];
+
+export enum NotificationRecipientModel {
+  USER = "User",
+  ADMIN = "Admin",
+}
+
+export enum NotificationEntityKind {
+  EVENT = "Event",
+  POLL = "Poll",
+  VENDOR_APPLICATION = "VendorApplication",
+  GYM_SESSION = "GymSession",
+  COURT_RESERVATION = "CourtReservation",
+}
+
+export interface INotificationEntity {
+  kind: NotificationEntityKind;
+  id: string;
+}
+
+export interface INotification extends IBaseModel {
+  recipientId: Types.ObjectId;
+  recipientModel: NotificationRecipientModel;
+  type: NotificationType;
+  message: string;
+  entity?: INotificationEntity;
+  link?: string; // Frontend path opened when the notification is clicked
+  readAt?: Date;
+  archivedAt?: Date;
+}
+
+const NotificationEntitySchema = new Schema<INotificationEntity>(
+  {
+    kind: {
+      type: String,
+      enum: Object.values(NotificationEntityKind),
+      required: true,
+    },
+    id: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    recipientId: { type: Schema.Types.ObjectId, required: true },
+    recipientModel: {
+      type: String,
+      enum: Object.values(NotificationRecipientModel),
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: true,
+    },
+    message: { type: String, required: true },
+    entity: { type: NotificationEntitySchema },
+    link: { type: String },
+    readAt: { type: Date },
+    archivedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+NotificationSchema.index({
+  recipientId: 1,
+  recipientModel: 1,
+  archivedAt: 1,
+  createdAt: -1,
+});
+
+const NotificationModel =
+  mongoose.models.Notification ||
+  mongoose.model<INotification>("Notification", NotificationSchema);
+
+export default NotificationModel;
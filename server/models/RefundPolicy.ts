@@ -0,0 +1,34 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+import {
+  EventType,
+  IRefundPolicyRules,
+  RefundPolicyRulesSchema,
+} from "./Event";
+
+// Default refund policy for every event of a type; events can override it
+export interface IRefundPolicy extends IBaseModel, IRefundPolicyRules {
+  eventType: EventType;
+  updatedBy?: string;
+}
+
+const RefundPolicySchema = new Schema<IRefundPolicy>(
+  {
+    eventType: {
+      type: String,
+      enum: Object.values(EventType),
+      required: true,
+      unique: true,
+    },
+    updatedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+RefundPolicySchema.add(RefundPolicyRulesSchema);
+
+const RefundPolicyModel =
+  mongoose.models.RefundPolicy ||
+  mongoose.model<IRefundPolicy>("RefundPolicy", RefundPolicySchema);
+
+export default RefundPolicyModel;
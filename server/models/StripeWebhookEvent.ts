@@ -0,0 +1,46 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+
+export enum StripeWebhookStatus {
+  PROCESSING = "Processing",
+  PROCESSED = "Processed",
+  IGNORED = "Ignored",
+  FAILED = "Failed",
+}
+
+// One row per Stripe event id so redelivered events are only applied once
+export interface IStripeWebhookEvent extends IBaseModel {
+  stripeEventId: string;
+  type: string;
+  objectId?: string;
+  status: StripeWebhookStatus;
+  attempts: number;
+  message?: string;
+  processedAt?: Date;
+}
+
+const StripeWebhookEventSchema = new Schema<IStripeWebhookEvent>(
+  {
+    stripeEventId: { type: String, required: true, unique: true },
+    type: { type: String, required: true },
+    objectId: { type: String, index: true },
+    status: {
+      type: String,
+      enum: Object.values(StripeWebhookStatus),
+      default: StripeWebhookStatus.PROCESSING,
+    },
+    attempts: { type: Number, default: 1 },
+    message: { type: String },
+    processedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+const StripeWebhookEventModel =
+  mongoose.models.StripeWebhookEvent ||
+  mongoose.model<IStripeWebhookEvent>(
+    "StripeWebhookEvent",
+    StripeWebhookEventSchema
+  );
+
+export default StripeWebhookEventModel;
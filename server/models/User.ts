@@ -1,6 +1,7 @@
 import mongoose, { Schema } from "mongoose";
 import { IBaseModel } from "./BaseModel";
 import bcrypt from "bcrypt";
+import { NotificationType } from "./Notification";
 
 export enum userRole {
   STUDENT = "Student",
@@ -14,12 +15,6 @@ export enum userStatus {
   BLOCKED = "Blocked",
 }
 
-export interface IUserNotification {
-  message: string;
-  seen: boolean;
-  createdAt?: Date;
-}
-
 export interface IUser extends IBaseModel {
   firstName: string;
   lastName: string;
@@ -33,21 +28,14 @@ export interface IUser extends IBaseModel {
   balance?: number;
   verified: boolean;
   favorites?: string[];
-  notifications?: IUserNotification[];
+  mutedNotificationTypes?: NotificationType[];
   workshops?: string[];
   registeredGymSessions?: string[];
   reservedCourts?: string[];
+  courtSuspendedUntil?: Date; // Set after repeated court no-shows
+  calendarFeedToken?: string; // Secret in the personal iCal feed URL
 }
 
-const NotificationSchema = new Schema<IUserNotification>(
-  {
-    message: { type: String, required: true },
-    seen: { type: Boolean, default: false },
-    createdAt: { type: Date, default: Date.now },
-  },
-  { _id: false }
-);
-
 const UserSchema = new Schema<IUser>(
   {
     firstName: { type: String, required: true },
@@ -90,10 +78,20 @@ const UserSchema = new Schema<IUser>(
       default: false,
     },
     favorites: [{ type: String }],
-    notifications: { type: [NotificationSchema], default: [] },
+    mutedNotificationTypes: {
+      type: [{ type: String, enum: Object.values(NotificationType) }],
+      default: [],
+    },
     workshops: [{ type: String }],
     registeredGymSessions: [{ type: String }],
     reservedCourts: [{ type: String }],
+    courtSuspendedUntil: { type: Date },
+    calendarFeedToken: {
+      type: String,
+      unique: true,
+      sparse: true,
+      select: false,
+    },
   },
   { timestamps: true }
 );
@@ -1,8 +1,25 @@
 import mongoose, { Schema, Types } from "mongoose";
 import { IBaseModel } from "./BaseModel";
+import { IRefundPolicyRules, RefundDestination, TicketTierAudience } from "./Event";
 
 export type PaymentMethod = "Wallet" | "CreditCard" | "DebitCard" | "Mixed";
-export type PaymentStatus = "Paid" | "Refunded";
+export type PaymentStatus = "Paid" | "Refunded" | "Failed";
+
+export enum DiscountSource {
+  LOYALTY = "Loyalty",
+  COUPON = "Coupon",
+}
+
+// Snapshot of the promo code applied at checkout; `amount` is what it took off
+export interface IPaymentDiscount {
+  code: string;
+  source: DiscountSource;
+  vendorId?: Types.ObjectId;
+  couponId?: Types.ObjectId;
+  discountRate: number;
+  amount: number;
+  originalAmount: number;
+}
 
 export interface IUserPayment extends IBaseModel {
   userId: Types.ObjectId;
@@ -21,8 +38,38 @@ export interface IUserPayment extends IBaseModel {
   refundAmount?: number;
   refundedAt?: Date;
   refundReference?: string;
+  refundPercentage?: number;
+  walletRefundAmount?: number;
+  cardRefundAmount?: number;
+  stripeRefundId?: string;
+  refundPolicy?: IRefundPolicyRules & { source: string }; // snapshot at cancellation
+  refundRequestedAt?: Date; // card refund in flight; webhooks leave it alone
+  failureReason?: string;
+  failedAt?: Date;
+  discount?: IPaymentDiscount;
+  groupBookingId?: Types.ObjectId; // seat bought by someone else in a group booking
+  purchasedBy?: Types.ObjectId; // group organizer; refunds go back to them
+  ticketTier?: TicketTierAudience; // seminar/conference tier the seat was sold at
 }
 
+// Court payments keep the same snapshot
+export const PaymentDiscountSchema = new Schema<IPaymentDiscount>(
+  {
+    code: { type: String, required: true },
+    source: {
+      type: String,
+      enum: Object.values(DiscountSource),
+      required: true,
+    },
+    vendorId: { type: Schema.Types.ObjectId, ref: "Vendor" },
+    couponId: { type: Schema.Types.ObjectId, ref: "Coupon" },
+    discountRate: { type: Number, required: true },
+    amount: { type: Number, required: true },
+    originalAmount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
 const UserPaymentSchema = new Schema<IUserPayment>(
   {
     userId: {
@@ -53,7 +100,7 @@ const UserPaymentSchema = new Schema<IUserPayment>(
     cardLast4: { type: String },
     status: {
       type: String,
-      enum: ["Paid", "Refunded"],
+      enum: ["Paid", "Refunded", "Failed"],
       default: "Paid",
       index: true,
     },
@@ -63,6 +110,39 @@ const UserPaymentSchema = new Schema<IUserPayment>(
     refundAmount: { type: Number },
     refundedAt: { type: Date },
     refundReference: { type: String },
+    refundPercentage: { type: Number },
+    walletRefundAmount: { type: Number },
+    cardRefundAmount: { type: Number },
+    stripeRefundId: { type: String },
+    refundPolicy: {
+      type: new Schema(
+        {
+          tiers: [
+            {
+              _id: false,
+              hoursBeforeStart: { type: Number },
+              percentage: { type: Number },
+            },
+          ],
+          destination: {
+            type: String,
+            enum: Object.values(RefundDestination),
+          },
+          source: { type: String },
+        },
+        { _id: false }
+      ),
+    },
+    refundRequestedAt: { type: Date },
+    failureReason: { type: String },
+    failedAt: { type: Date },
+    discount: { type: PaymentDiscountSchema },
+    groupBookingId: { type: Schema.Types.ObjectId, ref: "GroupBooking" },
+    purchasedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    ticketTier: {
+      type: String,
+      enum: Object.values(TicketTierAudience),
+    },
   },
   { timestamps: true }
 );
@@ -75,6 +155,9 @@ UserPaymentSchema.index(
   }
 );
 UserPaymentSchema.index({ receiptNumber: 1 }, { unique: true });
+UserPaymentSchema.index({ transactionReference: 1 });
+UserPaymentSchema.index({ "discount.vendorId": 1, status: 1 }, { sparse: true });
+UserPaymentSchema.index({ "discount.couponId": 1, status: 1 }, { sparse: true });
 
 const UserPaymentModel =
   mongoose.models.UserPayment ||
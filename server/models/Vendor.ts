@@ -32,9 +32,22 @@ export interface LoyaltyProgramDetails {
   status: LoyaltyProgramStatus;
   appliedAt?: Date;
   cancelledAt?: Date;
+  validFrom?: Date;
+  validUntil?: Date;
+  maxRedemptions?: number; // across all users
+  perUserLimit?: number;
+  codeExpiresAt?: Date; // set on cancellation; the code stops working after it
 }
 
-export type PaymentStatus = "pending" | "paid" | "overdue";
+export type PaymentStatus = "pending" | "paid" | "overdue" | "refunded";
+
+export interface PaymentDeadlineExtension {
+  previousDueDate: Date;
+  dueDate: Date;
+  extendedAt: Date;
+  extendedBy?: string;
+  reason?: string;
+}
 
 export interface ApplicationPayment {
   amount: number;
@@ -44,6 +57,14 @@ export interface ApplicationPayment {
   paidAt?: Date;
   receiptNumber?: string;
   transactionReference?: string;
+  failureReason?: string; // last declined card attempt
+  failedAt?: Date;
+  refundAmount?: number;
+  refundedAt?: Date;
+  reminderSentAt?: Date; // the booth payment scheduler fills in the next three
+  overdueAt?: Date;
+  releasedAt?: Date; // booth given back to the bazaar after the grace period
+  deadlineExtensions?: PaymentDeadlineExtension[];
 }
 
 export interface VisitorQrCode {
@@ -148,12 +169,31 @@ const vendorSchema = new Schema<IVendor>(
             currency: { type: String, default: "EGP" },
             status: {
               type: String,
-              enum: ["pending", "paid", "overdue"],
+              enum: ["pending", "paid", "overdue", "refunded"],
             },
             dueDate: { type: Date },
             paidAt: { type: Date },
             receiptNumber: { type: String },
             transactionReference: { type: String },
+            failureReason: { type: String },
+            failedAt: { type: Date },
+            refundAmount: { type: Number },
+            refundedAt: { type: Date },
+            reminderSentAt: { type: Date },
+            overdueAt: { type: Date },
+            releasedAt: { type: Date },
+            deadlineExtensions: {
+              type: [
+                {
+                  previousDueDate: { type: Date, required: true },
+                  dueDate: { type: Date, required: true },
+                  extendedAt: { type: Date, required: true },
+                  extendedBy: { type: String },
+                  reason: { type: String, trim: true },
+                },
+              ],
+              default: undefined,
+            },
           },
           decisionDate: { type: Date },
           qrCodes: {
@@ -182,6 +222,11 @@ const vendorSchema = new Schema<IVendor>(
       },
       appliedAt: { type: Date },
       cancelledAt: { type: Date },
+      validFrom: { type: Date },
+      validUntil: { type: Date },
+      maxRedemptions: { type: Number, min: 1 },
+      perUserLimit: { type: Number, min: 1 },
+      codeExpiresAt: { type: Date },
     },
   },
   { timestamps: true }
@@ -199,6 +244,11 @@ vendorSchema.pre("save", async function (next) {
 });
 
 vendorSchema.index({ "loyaltyProgram.status": 1 });
+vendorSchema.index({ "loyaltyProgram.promoCode": 1 });
+vendorSchema.index({
+  "applications.status": 1,
+  "applications.payment.status": 1,
+});
 
 const vendorModel =
   mongoose.models.Vendor || mongoose.model<IVendor>("Vendor", vendorSchema);
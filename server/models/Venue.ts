@@ -0,0 +1,51 @@
+import mongoose, { Schema } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+import { Location } from "./Event";
+
+export enum VenueKind {
+  HALL = "Hall",
+  LAB = "Lab",
+  CLASSROOM = "Classroom",
+  OUTDOOR = "Outdoor",
+}
+
+// A bookable room or area on one campus; events reference it by venueId
+export interface IVenue extends IBaseModel {
+  name: string;
+  kind: VenueKind;
+  campus: Location;
+  building?: string;
+  capacity: number; // seated or standing, whichever the room is set up for
+  equipment: string[]; // e.g. projector, PA system, lab PCs
+  notes?: string;
+  active: boolean; // retired rooms keep their past bookings
+}
+
+const VenueSchema = new Schema<IVenue>(
+  {
+    name: { type: String, required: true, trim: true },
+    kind: {
+      type: String,
+      enum: Object.values(VenueKind),
+      required: true,
+    },
+    campus: {
+      type: String,
+      enum: Object.values(Location),
+      required: true,
+    },
+    building: { type: String, trim: true },
+    capacity: { type: Number, required: true, min: 1 },
+    equipment: { type: [String], default: [] },
+    notes: { type: String },
+    active: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+VenueSchema.index({ campus: 1, name: 1 }, { unique: true });
+
+const VenueModel =
+  mongoose.models.Venue || mongoose.model<IVenue>("Venue", VenueSchema);
+
+export default VenueModel;
@@ -0,0 +1,95 @@
+import mongoose, { Schema, Types } from "mongoose";
+import { IBaseModel } from "./BaseModel";
+
+export enum WalletTransactionType {
+  TOP_UP = "TopUp",
+  EVENT_PAYMENT = "EventPayment",
+  COURT_PAYMENT = "CourtPayment",
+  REFUND = "Refund",
+  ADMIN_ADJUSTMENT = "AdminAdjustment",
+}
+
+/**
+ * One line of a user's wallet statement. Entries are append-only: amounts are
+ * signed (credits positive, debits negative) so a user's balance is always the
+ * sum of their entries.
+ */
+export interface IWalletTransaction extends IBaseModel {
+  userId: Types.ObjectId;
+  type: WalletTransactionType;
+  amount: number;
+  balanceAfter: number;
+  currency: string;
+  receiptNumber: string;
+  description: string;
+  eventId?: Types.ObjectId;
+  paymentId?: Types.ObjectId;
+  // Stripe payment intent for top-ups; unique so a top-up is credited once
+  externalReference?: string;
+  createdBy?: Types.ObjectId;
+}
+
+const WalletTransactionSchema = new Schema<IWalletTransaction>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(WalletTransactionType),
+      required: true,
+    },
+    amount: { type: Number, required: true },
+    balanceAfter: { type: Number, required: true },
+    currency: { type: String, default: "EGP" },
+    receiptNumber: { type: String, required: true },
+    description: { type: String, required: true },
+    eventId: { type: Schema.Types.ObjectId, ref: "Event" },
+    paymentId: { type: Schema.Types.ObjectId, ref: "UserPayment" },
+    externalReference: { type: String },
+    createdBy: { type: Schema.Types.ObjectId, ref: "Admin" },
+  },
+  { timestamps: true }
+);
+
+WalletTransactionSchema.index({ userId: 1, createdAt: 1 });
+WalletTransactionSchema.index({ receiptNumber: 1 }, { unique: true });
+WalletTransactionSchema.index(
+  { externalReference: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { externalReference: { $type: "string" } },
+  }
+);
+
+function rejectLedgerRewrite() {
+  throw new Error(
+    "Wallet transactions are append-only; record a correcting entry instead."
+  );
+}
+
+WalletTransactionSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  rejectLedgerRewrite
+);
+
+const WalletTransactionModel =
+  mongoose.models.WalletTransaction ||
+  mongoose.model<IWalletTransaction>(
+    "WalletTransaction",
+    WalletTransactionSchema
+  );
+
+export default WalletTransactionModel;
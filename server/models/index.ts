@@ -1,8 +1,10 @@
 export { default as User } from "./User";
 export { default as Court } from "./Court";
 export { default as CourtReservation } from "./CourtReservation";
+export { default as CourtPayment } from "./CourtPayment";
 export { default as Poll } from "./Poll";
 export { default as Comment } from "./Comment";
 export { default as Rating } from "./Rating";
 export { default as EmailVerificationToken } from "./EmailVerificationToken";
 export { default as UserPayment } from "./UserPayment";
+export { default as GroupBooking } from "./GroupBooking";
@@ -24,15 +24,6 @@ router.delete(
   "/events-office/:id",
   adminController.deleteEventsOffice.bind(adminController)
 );
-router.get(
-  "/notifications",
-  adminController.getMyNotifications.bind(adminController)
-);
-router.patch(
-  "/notifications/seen",
-  allowedRoles(["EventOffice"]),
-  adminController.markMyNotificationsSeen.bind(adminController)
-);
 
 router.post(
   "/polls",
@@ -69,6 +60,25 @@ router.patch(
   "/users/:userId/block",
   adminController.blockUser.bind(adminController)
 );
+router.post(
+  "/users/:userId/wallet/adjustments",
+  adminController.adjustUserWallet.bind(adminController)
+);
+// Resets the stored balance to the sum of the user's ledger entries
+router.post(
+  "/users/:userId/wallet/rebuild",
+  adminController.rebuildUserWallet.bind(adminController)
+);
+
+// Email outbox: ?status=Failed|Queued|Sending|Sent (defaults to Failed)
+router.get(
+  "/email-outbox",
+  adminController.listEmailOutbox.bind(adminController)
+);
+router.post(
+  "/email-outbox/:id/resend",
+  adminController.resendOutboxEmail.bind(adminController)
+);
 
 router.get("/", adminController.getAllAdmins.bind(adminController));
 router.get("/users", adminController.viewAllUsers.bind(adminController));
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import agendaController from "../controllers/agendaController";
+
+const router = Router();
+
+// Bookmarked sessions across every conference, with clashes marked
+router.get("/my-schedule", agendaController.getMySchedule.bind(agendaController));
+
+// Conference programme and its .ics export (?mine=true for bookmarks only)
+router.get("/events/:eventId", agendaController.getAgenda.bind(agendaController));
+router.get(
+  "/events/:eventId/calendar.ics",
+  agendaController.downloadAgendaCalendar.bind(agendaController)
+);
+
+// Events Office edits the programme
+router.post(
+  "/events/:eventId/sessions",
+  agendaController.addSession.bind(agendaController)
+);
+router.put(
+  "/events/:eventId/sessions/:sessionId",
+  agendaController.updateSession.bind(agendaController)
+);
+router.delete(
+  "/events/:eventId/sessions/:sessionId",
+  agendaController.deleteSession.bind(agendaController)
+);
+
+// Attendees build their personal schedule
+router.post(
+  "/events/:eventId/sessions/:sessionId/bookmark",
+  agendaController.bookmarkSession.bind(agendaController)
+);
+router.delete(
+  "/events/:eventId/sessions/:sessionId/bookmark",
+  agendaController.removeBookmark.bind(agendaController)
+);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import campusController from "../controllers/campusController";
+
+const router = Router();
+
+// Currency and time zone of every campus, read from the server's env
+router.get("/", campusController.listCampuses.bind(campusController));
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import couponController from "../controllers/couponController";
+
+const router = Router();
+
+// Events Office discount codes redeemable at event checkout
+router.get("/", couponController.listCoupons.bind(couponController));
+
+router.post("/", couponController.createCoupon.bind(couponController));
+
+router.put("/:id", couponController.updateCoupon.bind(couponController));
+
+// Redeemed coupons are deactivated rather than deleted
+router.delete("/:id", couponController.deleteCoupon.bind(couponController));
+
+export default router;
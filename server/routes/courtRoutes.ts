@@ -5,17 +5,71 @@ import { loginRequired, allowedRoles } from "../middleware/authMiddleware";
 const router = Router();
 
 router.get("/", courtController.viewAllCourts);
+router.get(
+  "/reservations/mine",
+  loginRequired,
+  allowedRoles(["Student"]),
+  courtController.viewMyReservations
+);
+router.delete(
+  "/reservations/series/:seriesId",
+  loginRequired,
+  allowedRoles(["Student"]),
+  courtController.cancelReservationSeries
+);
+router.delete(
+  "/reservations/:reservationId",
+  loginRequired,
+  allowedRoles(["Student"]),
+  courtController.cancelReservation
+);
+router.patch(
+  "/reservations/:reservationId/no-show",
+  loginRequired,
+  allowedRoles(["EventOffice", "Admin"]),
+  courtController.markNoShow
+);
 router.get(
   "/:courtId/availability",
   loginRequired,
   allowedRoles(["Student"]),
   courtController.viewCourtAvailability
 );
+router.get(
+  "/:courtId/reservations",
+  loginRequired,
+  allowedRoles(["EventOffice", "Admin"]),
+  courtController.viewCourtReservations
+);
 router.post(
   "/:courtId/reservations",
   loginRequired,
   allowedRoles(["Student"]),
   courtController.reserveCourt
 );
+router.post(
+  "/:courtId/reservations/payment-intent",
+  loginRequired,
+  allowedRoles(["Student"]),
+  courtController.createReservationPaymentIntent
+);
+router.post(
+  "/:courtId/reservations/finalize",
+  loginRequired,
+  allowedRoles(["Student"]),
+  courtController.finalizeReservationPayment
+);
+router.post(
+  "/:courtId/reservations/recurring/preview",
+  loginRequired,
+  allowedRoles(["Student"]),
+  courtController.previewRecurringReservation
+);
+router.post(
+  "/:courtId/reservations/recurring",
+  loginRequired,
+  allowedRoles(["Student"]),
+  courtController.reserveRecurring
+);
 
 export default router;
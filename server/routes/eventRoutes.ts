@@ -32,6 +32,18 @@ router.get(
   allowedRoles(["Admin", "EventOffice"]),
   eventController.getSalesReportController
 );
+router.get(
+  "/reports/reconciliation",
+  loginRequired,
+  allowedRoles(["Admin", "EventOffice"]),
+  eventController.getReconciliationReportController
+);
+router.get(
+  "/reports/reconciliation/export",
+  loginRequired,
+  allowedRoles(["Admin", "EventOffice"]),
+  eventController.exportReconciliationReportController
+);
 router.get(
   "/:eventId/applications",
   loginRequired,
@@ -75,6 +87,12 @@ router.post(
   allowedRoles(["Student", "Staff", "Professor", "TA"]),
   eventController.payByWalletController
 );
+router.post(
+  "/:id/discount-quote",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA"]),
+  eventController.previewEventDiscountController
+);
 router.post(
   "/:id/stripe/payment-intent",
   loginRequired,
@@ -93,6 +111,24 @@ router.post(
   allowedRoles(["Student", "Staff", "Professor", "TA"]),
   eventController.cancelRegistrationAndRefundController
 );
+router.get(
+  "/:id/waitlist",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA", "EventOffice", "Admin"]),
+  eventController.getWaitlistStatusController
+);
+router.post(
+  "/:id/waitlist",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA"]),
+  eventController.joinWaitlistController
+);
+router.delete(
+  "/:id/waitlist",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA"]),
+  eventController.leaveWaitlistController
+);
 router.get(
   "/workshop/:id/participants",
   eventController.getWorkshopParticipantsController
@@ -133,6 +169,38 @@ router.get(
 // Event Office route for generating QR codes
 router.get("/:id/generate-qr", eventController.generateEventQRCodeController);
 
+// One-off .ics download so users can add an event to their own calendar
+router.get("/:id/calendar.ics", eventController.downloadEventCalendarController);
+
+// Ticket QR for a paid registration, and the door check-in that scans it
+router.get("/:id/ticket", eventController.downloadEventTicketController);
+router.post("/:id/check-in", eventController.checkInEventTicketController);
+
+// Refund tiers for an event; attendees also get a quote for their registration
+router.get("/:id/refund-policy", eventController.getEventRefundPolicyController);
+router.put("/:id/refund-policy", eventController.setEventRefundPolicyController);
+router.delete(
+  "/:id/refund-policy",
+  eventController.setEventRefundPolicyController
+);
+
+// Opt-in registration and ticket tiers for seminars and conferences
+router.put(
+  "/:id/registration",
+  eventController.updateEventRegistrationSettingsController
+);
+
+// Drafts: publish now or at a set time, or hide a published event again
+router.patch("/:id/publish", eventController.publishEventController);
+router.patch("/:id/unpublish", eventController.unpublishEventController);
+
+// Copy an event to new dates, or repeat it as a series
+router.post("/:id/duplicate", eventController.duplicateEventController);
+router.post("/:id/series", eventController.createEventSeriesController);
+router.get("/series/:seriesId", eventController.getEventSeriesController);
+router.put("/series/:seriesId", eventController.updateEventSeriesController);
+router.delete("/series/:seriesId", eventController.cancelEventSeriesController);
+
 // Route for sending workshop certificates (Student, Staff, TA, Professor)
 router.post(
   "/workshop/:id/send-certificates",
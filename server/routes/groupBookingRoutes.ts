@@ -0,0 +1,41 @@
+import { Router } from "express";
+import groupBookingController from "../controllers/groupBookingController";
+
+const router = Router();
+
+// Bookings the signed-in user paid for, and seats others booked for them
+router.get("/", groupBookingController.listMyBookings.bind(groupBookingController));
+router.get(
+  "/invitations",
+  groupBookingController.listInvitations.bind(groupBookingController)
+);
+
+// Checkout for a workshop or trip: wallet directly, or a Stripe card intent
+router.post(
+  "/events/:eventId",
+  groupBookingController.bookWithWallet.bind(groupBookingController)
+);
+router.post(
+  "/events/:eventId/payment-intent",
+  groupBookingController.createPaymentIntent.bind(groupBookingController)
+);
+router.post(
+  "/finalize",
+  groupBookingController.finalizePayment.bind(groupBookingController)
+);
+
+// Invitees accept or decline; organizers cancel seats and fetch tickets
+router.post(
+  "/:id/seats/:seatId/respond",
+  groupBookingController.respondToInvitation.bind(groupBookingController)
+);
+router.delete(
+  "/:id/seats/:seatId",
+  groupBookingController.cancelSeat.bind(groupBookingController)
+);
+router.get(
+  "/:id/seats/:seatId/ticket",
+  groupBookingController.downloadSeatTicket.bind(groupBookingController)
+);
+
+export default router;
@@ -21,6 +21,39 @@ router.delete(
 // GET /api/gym-sessions/schedule?year=2025&month=10 - View schedule (no auth required or optional)
 router.get("/schedule", gymSessionController.viewScheduleByMonth);
 
+// GET /api/gym-sessions/attendance-stats?year=2025&month=10 - Monthly attendance by session type
+router.get(
+  "/attendance-stats",
+  allowedRoles(["EventOffice", "Admin"]),
+  gymSessionController.viewAttendanceStats
+);
+
+// Weekly templates that generate gym sessions over a date range
+router.get(
+  "/templates",
+  allowedRoles(["EventOffice", "Admin"]),
+  gymSessionController.viewTemplates
+);
+
+router.post(
+  "/templates",
+  allowedRoles(["EventOffice", "Admin"]),
+  gymSessionController.createTemplate
+);
+
+// PUT /api/gym-sessions/templates/:templateId - Body may include applyToFuture: true
+router.put(
+  "/templates/:templateId",
+  allowedRoles(["EventOffice", "Admin"]),
+  gymSessionController.editTemplate
+);
+
+router.delete(
+  "/templates/:templateId",
+  allowedRoles(["EventOffice", "Admin"]),
+  gymSessionController.deleteTemplate
+);
+
 // PUT /api/gym-sessions/:id - Update a gym session (EventsOffice or Admin only)
 router.put(
   "/:id",
@@ -34,4 +67,46 @@ router.post(
   allowedRoles(["Student", "Staff", "Professor", "TA"]),
   gymSessionController.register
 );
+
+router.delete(
+  "/:id/register",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA"]),
+  gymSessionController.unregister
+);
+
+router.post(
+  "/:id/waitlist",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA"]),
+  gymSessionController.joinWaitlist
+);
+
+router.delete(
+  "/:id/waitlist",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA"]),
+  gymSessionController.leaveWaitlist
+);
+
+// GET /api/gym-sessions/:id/pass - QR pass a participant shows at the door
+router.get(
+  "/:id/pass",
+  loginRequired,
+  allowedRoles(["Student", "Staff", "Professor", "TA"]),
+  gymSessionController.downloadPass
+);
+
+router.get(
+  "/:id/participants",
+  allowedRoles(["EventOffice", "Admin"]),
+  gymSessionController.viewParticipants
+);
+
+// POST /api/gym-sessions/:id/check-in - Body: { userIds: [...] } or { passCode }
+router.post(
+  "/:id/check-in",
+  allowedRoles(["EventOffice", "Admin"]),
+  gymSessionController.checkIn
+);
 export default router;
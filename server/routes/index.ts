@@ -9,6 +9,13 @@ import adminRoutes from "./adminRoutes";
 import commentRoutes from "./commentRoutes";
 import ratingRoutes from "./ratingRoutes";
 import pollRoutes from "./pollRoutes";
+import notificationRoutes from "./notificationRoutes";
+import refundPolicyRoutes from "./refundPolicyRoutes";
+import couponRoutes from "./couponRoutes";
+import groupBookingRoutes from "./groupBookingRoutes";
+import agendaRoutes from "./agendaRoutes";
+import venueRoutes from "./venueRoutes";
+import campusRoutes from "./campusRoutes";
 
 const api = Router();
 api.use("/users", userRoutes);
@@ -22,5 +29,12 @@ api.use("/admin", adminRoutes);
 api.use("/comments", commentRoutes);
 api.use("/ratings", ratingRoutes);
 api.use("/polls", pollRoutes);
+api.use("/notifications", notificationRoutes);
+api.use("/refund-policies", refundPolicyRoutes);
+api.use("/coupons", couponRoutes);
+api.use("/group-bookings", groupBookingRoutes);
+api.use("/agenda", agendaRoutes);
+api.use("/venues", venueRoutes);
+api.use("/campuses", campusRoutes);
 
 export default api;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import notificationController from "../controllers/notificationController";
+
+const router = Router();
+
+// Paginated notification center: ?page=1&limit=20&archived=true&unread=true
+router.get(
+  "/",
+  notificationController.listNotifications.bind(notificationController)
+);
+
+// Server-Sent Events: notification, registration-count and poll-votes
+router.get(
+  "/stream",
+  notificationController.streamNotifications.bind(notificationController)
+);
+
+router.patch(
+  "/read-all",
+  notificationController.markAllRead.bind(notificationController)
+);
+
+// Muted categories for the signed-in account
+router.get(
+  "/preferences",
+  notificationController.getPreferences.bind(notificationController)
+);
+
+router.put(
+  "/preferences",
+  notificationController.updatePreferences.bind(notificationController)
+);
+
+// Body: { read?: boolean, archived?: boolean }
+router.patch(
+  "/:id",
+  notificationController.updateNotification.bind(notificationController)
+);
+
+export default router;
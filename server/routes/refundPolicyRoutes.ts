@@ -0,0 +1,23 @@
+import { Router } from "express";
+import refundPolicyController from "../controllers/refundPolicyController";
+
+const router = Router();
+
+// Default refund tiers per event type (Workshop, Trip)
+router.get(
+  "/",
+  refundPolicyController.listPolicies.bind(refundPolicyController)
+);
+
+router.put(
+  "/:eventType",
+  refundPolicyController.savePolicy.bind(refundPolicyController)
+);
+
+// Falls back to the built-in policy
+router.delete(
+  "/:eventType",
+  refundPolicyController.resetPolicy.bind(refundPolicyController)
+);
+
+export default router;
@@ -0,0 +1,13 @@
+import express, { Router } from "express";
+import stripeWebhookController from "../controllers/stripeWebhookController";
+
+const router = Router();
+
+// Stripe signs the exact bytes it sent, so this route needs the raw body
+router.post(
+  "/webhook",
+  express.raw({ type: "application/json" }),
+  stripeWebhookController.handleWebhook.bind(stripeWebhookController)
+);
+
+export default router;
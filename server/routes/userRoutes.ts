@@ -20,18 +20,46 @@ router.get(
   userController.getFavoritesList.bind(userController)
 );
 router.get(
-  "/professor-notifications",
-  userController.getMyNotifications.bind(userController)
+  "/wallet/refunds",
+  userController.getWalletRefundSummary.bind(userController)
 );
-router.patch(
-  "/professor-notifications/seen",
-  loginRequired,
-  allowedRoles(["Student", "Staff", "TA", "Professor"]),
-  userController.markMyNotificationsSeen.bind(userController)
+// Statement filters: ?type=TopUp|EventPayment|Refund|AdminAdjustment&from=&to=
+router.get(
+  "/wallet/statement",
+  userController.getWalletStatement.bind(userController)
+);
+router.post(
+  "/wallet/top-up/payment-intent",
+  userController.createWalletTopUpIntent.bind(userController)
+);
+router.post(
+  "/wallet/top-up/finalize",
+  userController.finalizeWalletTopUp.bind(userController)
 );
 router.get(
-  "/wallet/refunds",
-  userController.getWalletRefundSummary.bind(userController)
+  "/payments",
+  userController.getPaymentHistory.bind(userController)
+);
+router.get(
+  "/payments/:paymentId/invoice",
+  userController.downloadPaymentInvoice.bind(userController)
+);
+router.get(
+  "/payments/:paymentId/credit-note",
+  userController.downloadPaymentCreditNote.bind(userController)
+);
+// GET returns the personal iCal feed link; POST replaces it with a new one
+router.get(
+  "/calendar-feed",
+  userController.getCalendarFeedLink.bind(userController)
+);
+router.post(
+  "/calendar-feed",
+  userController.getCalendarFeedLink.bind(userController)
+);
+router.get(
+  "/calendar/:token.ics",
+  userController.getCalendarFeed.bind(userController)
 );
 router.get(
   "/:userId/registered-events",
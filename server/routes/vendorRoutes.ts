@@ -69,6 +69,20 @@ router.delete(
   vendorController.cancelMyApplication.bind(vendorController)
 );
 
+router.get(
+  "/my-applications/:eventId/invoice",
+  loginRequired,
+  allowedRoles(["Vendor"]),
+  vendorController.downloadApplicationInvoice.bind(vendorController)
+);
+
+router.get(
+  "/my-applications/:eventId/credit-note",
+  loginRequired,
+  allowedRoles(["Vendor"]),
+  vendorController.downloadApplicationCreditNote.bind(vendorController)
+);
+
 // Profile routes - protected with decorators in controller
 router.get(
   "/profile",
@@ -109,6 +123,13 @@ router.get(
   vendorController.getMyLoyaltyProgram.bind(vendorController)
 );
 
+router.get(
+  "/loyalty/redemptions",
+  loginRequired,
+  allowedRoles(["Vendor"]),
+  vendorController.getMyLoyaltyRedemptions.bind(vendorController)
+);
+
 router.get(
   "/loyalty",
   loginRequired,
@@ -122,6 +143,14 @@ router.patch(
   allowedRoles(["Admin", "EventOffice"]),
   vendorController.updateBazaarApplicationStatus.bind(vendorController)
 );
+
+router.patch(
+  "/bazaar-application/payment-deadline",
+  loginRequired,
+  allowedRoles(["Admin", "EventOffice"]),
+  vendorController.extendPaymentDeadline.bind(vendorController)
+);
+
 // Admin routes - properly protected with middleware
 router.get(
   "/admin",
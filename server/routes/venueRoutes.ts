@@ -0,0 +1,18 @@
+import { Router } from "express";
+import venueController from "../controllers/venueController";
+
+const router = Router();
+
+// Room inventory (?campus=GUC Cairo, ?includeInactive=true)
+router.get("/", venueController.listVenues.bind(venueController));
+router.post("/", venueController.createVenue.bind(venueController));
+router.put("/:venueId", venueController.updateVenue.bind(venueController));
+router.delete("/:venueId", venueController.retireVenue.bind(venueController));
+
+// Bookings in one room between ?from and ?to, with double bookings marked
+router.get(
+  "/:venueId/calendar",
+  venueController.getVenueCalendar.bind(venueController)
+);
+
+export default router;
@@ -0,0 +1,104 @@
+import { config as loadEnv } from "dotenv";
+import mongoose, { Types } from "mongoose";
+import NotificationModel, {
+  NotificationRecipientModel,
+  NotificationType,
+} from "../models/Notification";
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+const mongoUri = process.env.MONGODB_URI ?? "mongodb://localhost:27017/aclDB";
+
+type LegacyNotification = {
+  message?: string;
+  seen?: boolean;
+  createdAt?: Date;
+};
+
+type LegacyAccount = {
+  _id: Types.ObjectId;
+  notifications?: Array<LegacyNotification | string>;
+};
+
+// Legacy entries were plain strings, so the category is guessed from the text
+const TYPE_PATTERNS: Array<[RegExp, NotificationType]> = [
+  [/^New event/i, NotificationType.NEW_EVENT],
+  [/^Reminder:/i, NotificationType.REMINDER],
+  [/^New loyalty partner/i, NotificationType.LOYALTY_PARTNER],
+  [/vendor requests? waiting/i, NotificationType.VENDOR_APPLICATION],
+  [/workshop/i, NotificationType.WORKSHOP_REVIEW],
+  [/waitlist|held seat|seat opened/i, NotificationType.WAITLIST],
+  [/gym session/i, NotificationType.GYM],
+  [/court/i, NotificationType.COURT],
+];
+
+function inferType(message: string): NotificationType {
+  const match = TYPE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : NotificationType.GENERAL;
+}
+
+async function migrateCollection(
+  collectionName: string,
+  recipientModel: NotificationRecipientModel
+) {
+  const collection = mongoose.connection.collection<LegacyAccount>(
+    collectionName
+  );
+  const accounts = await collection
+    .find({ "notifications.0": { $exists: true } })
+    .project<LegacyAccount>({ notifications: 1 })
+    .toArray();
+
+  let migrated = 0;
+  for (const account of accounts) {
+    const documents = (account.notifications ?? [])
+      .map((entry) =>
+        typeof entry === "string" ? { message: entry, seen: false } : entry
+      )
+      .filter((entry) => entry.message)
+      .map((entry) => {
+        const createdAt = entry.createdAt ?? account._id.getTimestamp();
+        return {
+          recipientId: account._id,
+          recipientModel,
+          type: inferType(entry.message!),
+          message: entry.message,
+          ...(entry.seen ? { readAt: createdAt } : {}),
+          createdAt,
+          updatedAt: createdAt,
+        };
+      });
+
+    if (documents.length) {
+      // Raw insert keeps the original createdAt instead of stamping "now"
+      await NotificationModel.collection.insertMany(documents);
+      migrated += documents.length;
+    }
+    await collection.updateOne(
+      { _id: account._id },
+      { $unset: { notifications: "" } }
+    );
+  }
+
+  console.log(
+    `${collectionName}: moved ${migrated} notifications from ${accounts.length} accounts.`
+  );
+}
+
+async function main() {
+  try {
+    await mongoose.connect(mongoUri);
+    console.log(`Connected to MongoDB at ${mongoUri}`);
+
+    await migrateCollection("users", NotificationRecipientModel.USER);
+    await migrateCollection("admins", NotificationRecipientModel.ADMIN);
+  } catch (error) {
+    console.error("Notification migration error:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,92 @@
+import { config as loadEnv } from "dotenv";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import Stripe from "stripe";
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+// Signs a fixture from ./fixtures/stripe with STRIPE_WEBHOOK_SECRET and posts it
+// to the local API, so the webhook can be exercised without the Stripe CLI.
+//
+//   npx tsx server/scripts/sendStripeWebhook.ts payment_intent.succeeded \
+//     eventId=<event id> userId=<user id>
+//
+// key=value pairs override fields of the event's data.object; unknown keys go
+// into its metadata. Each run gets a fresh event id unless id=<evt_...> is set.
+
+const FIXTURE_DIR = path.join(process.cwd(), "server/scripts/fixtures/stripe");
+const apiUrl = process.env.API_URL ?? `http://localhost:${process.env.PORT ?? 4000}/api`;
+
+type FixtureEvent = {
+  id: string;
+  created: number;
+  data: { object: Record<string, unknown> & { metadata?: Record<string, string> } };
+};
+
+function applyOverrides(event: FixtureEvent, overrides: string[]) {
+  const target = event.data.object;
+  for (const override of overrides) {
+    const separator = override.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Expected key=value, got "${override}"`);
+    }
+    const key = override.slice(0, separator);
+    const raw = override.slice(separator + 1);
+
+    if (key === "id") {
+      event.id = raw;
+    } else if (key in target && key !== "metadata") {
+      const current = target[key];
+      target[key] =
+        typeof current === "number"
+          ? Number(raw)
+          : typeof current === "boolean"
+            ? raw === "true"
+            : raw;
+    } else {
+      target.metadata = { ...(target.metadata ?? {}), [key]: raw };
+    }
+  }
+}
+
+async function main() {
+  const [fixtureName, ...overrides] = process.argv.slice(2);
+  if (!fixtureName) {
+    throw new Error(
+      "Usage: sendStripeWebhook.ts <fixture> [key=value ...], e.g. payment_intent.succeeded"
+    );
+  }
+
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("Set STRIPE_WEBHOOK_SECRET to the value the API uses.");
+  }
+
+  const event = JSON.parse(
+    readFileSync(path.join(FIXTURE_DIR, `${fixtureName}.json`), "utf8")
+  ) as FixtureEvent;
+  event.id = `${event.id}_${Date.now().toString(36)}`;
+  event.created = Math.floor(Date.now() / 1000);
+  applyOverrides(event, overrides);
+
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+  const response = await fetch(`${apiUrl}/stripe/webhook`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": signature,
+    },
+    body: payload,
+  });
+
+  console.log(`${event.id} -> ${response.status}`);
+  console.log(await response.text());
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
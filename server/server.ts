@@ -3,8 +3,15 @@ import express from "express";
 import cors from "cors";
 import { connectDB } from "./db";
 import api from "./routes";
+import stripeWebhookRoutes from "./routes/stripeWebhookRoutes";
 import { startReminderScheduler } from "./services/notificationService";
 import { startCertificateScheduler } from "./services/certificateScheduler";
+import { startWaitlistScheduler } from "./services/waitlistService";
+import { startEmailOutboxScheduler } from "./services/emailOutbox";
+import { startBoothPaymentScheduler } from "./services/boothPaymentScheduler";
+import { startEventPublishScheduler } from "./services/eventPublicationService";
+import { startGroupBookingScheduler } from "./services/groupBookingService";
+import { startDiscountReservationScheduler } from "./services/discountService";
 
 const app = express();
 const allowedOrigin =
@@ -18,6 +25,8 @@ app.use(
     credentials: true,
   })
 );
+// Mounted before express.json() so the webhook still sees the raw payload
+app.use("/api/stripe", stripeWebhookRoutes);
 app.use(express.json());
 app.use("/uploads", express.static("uploads"));
 
@@ -55,6 +64,12 @@ async function start() {
   await ensureDatabaseConnection();
   startReminderScheduler();
   startCertificateScheduler();
+  startWaitlistScheduler();
+  startEmailOutboxScheduler();
+  startBoothPaymentScheduler();
+  startEventPublishScheduler();
+  startGroupBookingScheduler();
+  startDiscountReservationScheduler();
   app.listen(PORT, () => console.log(`✅ API listening on :${PORT}`));
 }
 
@@ -0,0 +1,495 @@
+import { Types } from "mongoose";
+import EventModel, { EventType, IAgendaSession, IEvent } from "../models/Event";
+import { recordCalendarCancellation } from "./calendarService";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type AgendaSessionInput = {
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  room?: string;
+  track?: string;
+  speakers: string[];
+  abstract?: string;
+};
+
+export type AgendaSessionView = {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  room?: string;
+  track?: string;
+  speakers: string[];
+  abstract?: string;
+  bookmarkCount: number;
+  bookmarked: boolean;
+  clashesWith: string[]; // ids of the caller's other bookmarked sessions that overlap
+};
+
+export type ConferenceAgenda = {
+  eventId: string;
+  eventName: string;
+  location: string;
+  startDate: Date;
+  endDate: Date;
+  tracks: string[];
+  rooms: string[];
+  sessions: AgendaSessionView[];
+};
+
+export type ScheduleEntry = AgendaSessionView & {
+  eventId: string;
+  eventName: string;
+  location: string;
+};
+
+export type BookmarkResult = {
+  session: AgendaSessionView;
+  clashes: ScheduleEntry[];
+};
+
+type TimedSession = { id: string; startTime: Date; endTime: Date };
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_ABSTRACT_LENGTH = 2000;
+
+export function sessionsOverlap(
+  a: Pick<TimedSession, "startTime" | "endTime">,
+  b: Pick<TimedSession, "startTime" | "endTime">
+) {
+  return (
+    new Date(a.startTime).getTime() < new Date(b.endTime).getTime() &&
+    new Date(b.startTime).getTime() < new Date(a.endTime).getTime()
+  );
+}
+
+/** Maps each session id to the ids of the sessions it overlaps. */
+export function findClashes(sessions: TimedSession[]) {
+  const sorted = [...sessions].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+  const clashes = new Map<string, string[]>(sessions.map((session) => [session.id, []]));
+
+  sorted.forEach((session, index) => {
+    for (const later of sorted.slice(index + 1)) {
+      // Sorted by start, so nothing after this one can overlap either
+      if (new Date(later.startTime).getTime() >= new Date(session.endTime).getTime()) break;
+      clashes.get(session.id)?.push(later.id);
+      clashes.get(later.id)?.push(session.id);
+    }
+  });
+
+  return clashes;
+}
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parseSpeakers(value: unknown) {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  const speakers: string[] = [];
+  for (const entry of raw) {
+    const name = typeof entry === "string" ? entry.trim() : "";
+    if (name && !speakers.some((speaker) => speaker.toLowerCase() === name.toLowerCase())) {
+      speakers.push(name);
+    }
+  }
+  return speakers;
+}
+
+export function parseAgendaSession(
+  input: unknown,
+  event: Pick<IEvent, "startDate" | "endDate">
+): { success: true; session: AgendaSessionInput } | { success: false; message: string } {
+  if (!input || typeof input !== "object") {
+    return { success: false, message: "Session details are required." };
+  }
+
+  const { title, startTime, endTime, room, track, speakers, abstract } = input as Record<
+    string,
+    unknown
+  >;
+
+  const parsedTitle = optionalText(title);
+  if (!parsedTitle) {
+    return { success: false, message: "Session title is required." };
+  }
+  if (parsedTitle.length > MAX_TITLE_LENGTH) {
+    return {
+      success: false,
+      message: `Session title must be at most ${MAX_TITLE_LENGTH} characters.`,
+    };
+  }
+
+  const start = new Date(startTime as string);
+  const end = new Date(endTime as string);
+  if (!startTime || !endTime || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return { success: false, message: "Session start and end times are required." };
+  }
+  if (end <= start) {
+    return { success: false, message: "Session must end after it starts." };
+  }
+  if (start < new Date(event.startDate) || end > new Date(event.endDate)) {
+    return {
+      success: false,
+      message: "Session must take place within the conference dates.",
+    };
+  }
+
+  const parsedAbstract = optionalText(abstract);
+  if (parsedAbstract && parsedAbstract.length > MAX_ABSTRACT_LENGTH) {
+    return {
+      success: false,
+      message: `Abstract must be at most ${MAX_ABSTRACT_LENGTH} characters.`,
+    };
+  }
+
+  return {
+    success: true,
+    session: {
+      title: parsedTitle,
+      startTime: start,
+      endTime: end,
+      room: optionalText(room),
+      track: optionalText(track),
+      speakers: parseSpeakers(speakers),
+      abstract: parsedAbstract,
+    },
+  };
+}
+
+function toSessionView(
+  session: IAgendaSession,
+  userId?: string,
+  clashesWith: string[] = []
+): AgendaSessionView {
+  const bookmarkedBy = session.bookmarkedBy ?? [];
+  return {
+    id: session._id.toString(),
+    title: session.title,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    room: session.room || undefined,
+    track: session.track || undefined,
+    speakers: session.speakers ?? [],
+    abstract: session.abstract || undefined,
+    bookmarkCount: bookmarkedBy.length,
+    bookmarked: Boolean(userId) && bookmarkedBy.includes(userId as string),
+    clashesWith,
+  };
+}
+
+function distinctValues(values: Array<string | undefined>) {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))].sort();
+}
+
+function sortByStart<T extends { startTime: Date }>(sessions: T[]) {
+  return sessions.sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+}
+
+type AgendaEvent = IEvent & { _id: Types.ObjectId };
+
+// Every session the user bookmarked, across all conferences still listed
+async function loadBookmarkedSessions(userId: string): Promise<ScheduleEntry[]> {
+  const events = await EventModel.find({
+    "agendaSessions.bookmarkedBy": userId,
+    archived: { $ne: true },
+  }).lean<AgendaEvent[]>();
+
+  const entries = events.flatMap((event) =>
+    (event.agendaSessions ?? [])
+      .filter((session) => (session.bookmarkedBy ?? []).includes(userId))
+      .map((session) => ({
+        ...toSessionView(session, userId),
+        eventId: event._id.toString(),
+        eventName: event.name,
+        location: event.location,
+      }))
+  );
+
+  const clashes = findClashes(entries);
+  return sortByStart(
+    entries.map((entry) => ({ ...entry, clashesWith: clashes.get(entry.id) ?? [] }))
+  );
+}
+
+async function findConference(eventId: string) {
+  if (!Types.ObjectId.isValid(eventId)) {
+    return { success: false as const, message: "Invalid event ID.", statusCode: 400 };
+  }
+  const event = await EventModel.findById(eventId);
+  if (!event) {
+    return { success: false as const, message: "Event not found.", statusCode: 404 };
+  }
+  if (event.eventType !== EventType.CONFERENCE) {
+    return {
+      success: false as const,
+      message: "Only conferences have an agenda.",
+      statusCode: 400,
+    };
+  }
+  return { success: true as const, event };
+}
+
+/** The conference programme, with the caller's bookmarks and clashes marked. */
+export async function getConferenceAgenda(
+  eventId: string,
+  userId?: string
+): Promise<ServiceResponse<ConferenceAgenda>> {
+  try {
+    const found = await findConference(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    const sessions = event.agendaSessions ?? [];
+    // Clashes also count bookmarks made at other conferences
+    const schedule = userId ? await loadBookmarkedSessions(userId) : [];
+    const clashes = findClashes(schedule);
+
+    return {
+      success: true,
+      message: "Agenda retrieved successfully.",
+      data: {
+        eventId: event._id.toString(),
+        eventName: event.name,
+        location: event.location,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        tracks: distinctValues(sessions.map((session: IAgendaSession) => session.track)),
+        rooms: distinctValues(sessions.map((session: IAgendaSession) => session.room)),
+        sessions: sortByStart(
+          sessions.map((session: IAgendaSession) =>
+            toSessionView(session, userId, clashes.get(session._id.toString()) ?? [])
+          )
+        ),
+      },
+    };
+  } catch (error) {
+    console.error("Error getting conference agenda:", error);
+    return { success: false, message: "Failed to load agenda.", statusCode: 500 };
+  }
+}
+
+export async function addAgendaSession(
+  eventId: string,
+  input: unknown
+): Promise<ServiceResponse<AgendaSessionView>> {
+  try {
+    const found = await findConference(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    const parsed = parseAgendaSession(input, event);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+
+    event.agendaSessions.push({ ...parsed.session, bookmarkedBy: [] });
+    const session = event.agendaSessions[event.agendaSessions.length - 1];
+    await event.save();
+
+    return {
+      success: true,
+      message: "Session added to the agenda.",
+      statusCode: 201,
+      data: toSessionView(session),
+    };
+  } catch (error) {
+    console.error("Error adding agenda session:", error);
+    return { success: false, message: "Failed to add session.", statusCode: 500 };
+  }
+}
+
+export async function updateAgendaSession(
+  eventId: string,
+  sessionId: string,
+  input: unknown
+): Promise<ServiceResponse<AgendaSessionView>> {
+  try {
+    const found = await findConference(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    const session = Types.ObjectId.isValid(sessionId)
+      ? event.agendaSessions.find((entry: IAgendaSession) => entry._id.equals(sessionId))
+      : undefined;
+    if (!session) {
+      return { success: false, message: "Session not found.", statusCode: 404 };
+    }
+
+    const parsed = parseAgendaSession(input, event);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+
+    Object.assign(session, parsed.session);
+    // Subscribed calendars only pick up the new time with a higher sequence
+    event.calendarSequence = (event.calendarSequence ?? 0) + 1;
+    await event.save();
+
+    return {
+      success: true,
+      message: "Session updated.",
+      data: toSessionView(session),
+    };
+  } catch (error) {
+    console.error("Error updating agenda session:", error);
+    return { success: false, message: "Failed to update session.", statusCode: 500 };
+  }
+}
+
+export async function deleteAgendaSession(
+  eventId: string,
+  sessionId: string
+): Promise<ServiceResponse<null>> {
+  try {
+    const found = await findConference(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    const session = Types.ObjectId.isValid(sessionId)
+      ? event.agendaSessions.find((entry: IAgendaSession) => entry._id.equals(sessionId))
+      : undefined;
+    if (!session) {
+      return { success: false, message: "Session not found.", statusCode: 404 };
+    }
+
+    const removed = {
+      title: session.title,
+      room: session.room,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      bookmarkedBy: [...(session.bookmarkedBy ?? [])],
+    };
+    event.agendaSessions = event.agendaSessions.filter(
+      (entry: IAgendaSession) => !entry._id.equals(sessionId)
+    );
+    await event.save();
+
+    await recordCalendarCancellation({
+      kind: "session",
+      id: sessionId,
+      userIds: removed.bookmarkedBy,
+      summary: removed.title,
+      location: removed.room ? `${removed.room}, ${event.location}` : event.location,
+      startsAt: removed.startTime,
+      endsAt: removed.endTime,
+      sequence: event.calendarSequence,
+    });
+
+    return { success: true, message: "Session removed from the agenda.", data: null };
+  } catch (error) {
+    console.error("Error deleting agenda session:", error);
+    return { success: false, message: "Failed to delete session.", statusCode: 500 };
+  }
+}
+
+/**
+ * Adds a session to the user's schedule. Clashing bookmarks are allowed; the
+ * overlapping sessions come back so the client can warn about them.
+ */
+export async function bookmarkAgendaSession(
+  eventId: string,
+  sessionId: string,
+  userId: string
+): Promise<ServiceResponse<BookmarkResult>> {
+  try {
+    const found = await findConference(eventId);
+    if (!found.success) return found;
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return { success: false, message: "Session not found.", statusCode: 404 };
+    }
+
+    const event = await EventModel.findOneAndUpdate(
+      { _id: eventId, "agendaSessions._id": sessionId },
+      { $addToSet: { "agendaSessions.$.bookmarkedBy": userId } },
+      { new: true }
+    );
+    const session = event?.agendaSessions.find((entry: IAgendaSession) => entry._id.equals(sessionId));
+    if (!session) {
+      return { success: false, message: "Session not found.", statusCode: 404 };
+    }
+
+    const schedule = await loadBookmarkedSessions(userId);
+    const clashIds = schedule.find((entry) => entry.id === sessionId)?.clashesWith ?? [];
+    const clashes = schedule.filter((entry) => clashIds.includes(entry.id));
+
+    return {
+      success: true,
+      message: clashes.length
+        ? `Added to your schedule, but it clashes with ${clashes
+            .map((entry) => `"${entry.title}"`)
+            .join(", ")}.`
+        : "Added to your schedule.",
+      data: { session: toSessionView(session, userId, clashIds), clashes },
+    };
+  } catch (error) {
+    console.error("Error bookmarking agenda session:", error);
+    return { success: false, message: "Failed to bookmark session.", statusCode: 500 };
+  }
+}
+
+export async function removeAgendaBookmark(
+  eventId: string,
+  sessionId: string,
+  userId: string
+): Promise<ServiceResponse<AgendaSessionView>> {
+  try {
+    const found = await findConference(eventId);
+    if (!found.success) return found;
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return { success: false, message: "Session not found.", statusCode: 404 };
+    }
+
+    const event = await EventModel.findOneAndUpdate(
+      { _id: eventId, "agendaSessions._id": sessionId },
+      { $pull: { "agendaSessions.$.bookmarkedBy": userId } },
+      { new: true }
+    );
+    const session = event?.agendaSessions.find((entry: IAgendaSession) => entry._id.equals(sessionId));
+    if (!session) {
+      return { success: false, message: "Session not found.", statusCode: 404 };
+    }
+
+    return {
+      success: true,
+      message: "Removed from your schedule.",
+      data: toSessionView(session, userId),
+    };
+  } catch (error) {
+    console.error("Error removing agenda bookmark:", error);
+    return { success: false, message: "Failed to remove bookmark.", statusCode: 500 };
+  }
+}
+
+/** Upcoming bookmarked sessions across every conference, with clashes marked. */
+export async function getMySchedule(
+  userId: string
+): Promise<ServiceResponse<ScheduleEntry[]>> {
+  try {
+    const now = Date.now();
+    const schedule = await loadBookmarkedSessions(userId);
+    return {
+      success: true,
+      message: "Schedule retrieved successfully.",
+      data: schedule.filter((entry) => new Date(entry.endTime).getTime() >= now),
+    };
+  } catch (error) {
+    console.error("Error getting schedule:", error);
+    return { success: false, message: "Failed to load your schedule.", statusCode: 500 };
+  }
+}
@@ -0,0 +1,299 @@
+import { Types } from "mongoose";
+import EventModel from "../models/Event";
+import vendorModel, {
+  ApplicationPayment,
+  BazaarApplication,
+  VendorStatus,
+} from "../models/Vendor";
+import {
+  NotificationEntityKind,
+  NotificationType,
+} from "../models/Notification";
+import { emailService } from "./emailService";
+import { notifyEventOffice } from "./notificationService";
+
+// Vendors hear about an unpaid booth this long before the due date, and an
+// overdue booth is held for the grace period before it goes back to the bazaar
+export const BOOTH_PAYMENT_REMINDER_HOURS = Number(
+  process.env.BOOTH_PAYMENT_REMINDER_HOURS ?? 24
+);
+export const BOOTH_PAYMENT_GRACE_DAYS = Number(
+  process.env.BOOTH_PAYMENT_GRACE_DAYS ?? 2
+);
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const BOOTH_PAYMENT_CHECK_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const UNPAID_STATUSES = ["pending", "overdue"];
+let schedulerStarted = false;
+let schedulerBusy = false;
+
+export type BoothPaymentAction = "remind" | "markOverdue" | "release";
+
+type BoothPaymentState = Pick<
+  ApplicationPayment,
+  "status" | "dueDate" | "reminderSentAt" | "overdueAt" | "releasedAt"
+>;
+
+type VendorSummary = {
+  _id: Types.ObjectId;
+  email: string;
+  companyName: string;
+  applications?: BazaarApplication[];
+};
+
+export function getBoothReleaseDate(dueDate: Date): Date {
+  return new Date(new Date(dueDate).getTime() + BOOTH_PAYMENT_GRACE_DAYS * DAY_MS);
+}
+
+/** The next step the scheduler owes an unpaid booth, if any. */
+export function getBoothPaymentAction(
+  payment: BoothPaymentState,
+  now: Date = new Date()
+): BoothPaymentAction | null {
+  if (
+    !payment.dueDate ||
+    payment.releasedAt ||
+    !UNPAID_STATUSES.includes(payment.status)
+  ) {
+    return null;
+  }
+
+  const dueTime = new Date(payment.dueDate).getTime();
+
+  if (now.getTime() >= getBoothReleaseDate(payment.dueDate).getTime()) {
+    return "release";
+  }
+
+  if (now.getTime() > dueTime) {
+    return payment.overdueAt ? null : "markOverdue";
+  }
+
+  if (
+    !payment.reminderSentAt &&
+    dueTime - now.getTime() <= BOOTH_PAYMENT_REMINDER_HOURS * HOUR_MS
+  ) {
+    return "remind";
+  }
+
+  return null;
+}
+
+// Matches the application only while it is still in the state the scheduler
+// read, so a payment or a deadline extension in between wins
+function unchangedApplicationFilter(
+  vendorId: Types.ObjectId,
+  application: BazaarApplication
+) {
+  return {
+    _id: vendorId,
+    applications: {
+      $elemMatch: {
+        eventId: application.eventId,
+        status: VendorStatus.APPROVED,
+        "payment.status": { $in: UNPAID_STATUSES },
+        "payment.dueDate": application.payment?.dueDate,
+        "payment.releasedAt": { $exists: false },
+      },
+    },
+  };
+}
+
+async function loadEventName(eventId: Types.ObjectId) {
+  const event = await EventModel.findById(eventId)
+    .select("name")
+    .lean<{ name: string }>();
+  return event?.name ?? "your event";
+}
+
+async function sendPaymentReminder(
+  vendor: VendorSummary,
+  application: BazaarApplication,
+  now: Date
+) {
+  const payment = application.payment as ApplicationPayment;
+  const result = await vendorModel.updateOne(
+    unchangedApplicationFilter(vendor._id, application),
+    { $set: { "applications.$.payment.reminderSentAt": now } }
+  );
+
+  if (!result.modifiedCount) {
+    return;
+  }
+
+  await emailService.sendVendorPaymentReminder({
+    vendorEmail: vendor.email,
+    vendorCompany: vendor.companyName,
+    eventName: await loadEventName(application.eventId),
+    amount: payment.amount,
+    currency: payment.currency,
+    dueDate: payment.dueDate,
+  });
+}
+
+async function markPaymentOverdue(
+  vendor: VendorSummary,
+  application: BazaarApplication,
+  now: Date
+) {
+  const payment = application.payment as ApplicationPayment;
+  const result = await vendorModel.updateOne(
+    unchangedApplicationFilter(vendor._id, application),
+    {
+      $set: {
+        "applications.$.payment.status": "overdue",
+        "applications.$.payment.overdueAt": now,
+      },
+    }
+  );
+
+  if (!result.modifiedCount) {
+    return;
+  }
+
+  await emailService.sendVendorPaymentOverdue({
+    vendorEmail: vendor.email,
+    vendorCompany: vendor.companyName,
+    eventName: await loadEventName(application.eventId),
+    amount: payment.amount,
+    currency: payment.currency,
+    releaseDate: getBoothReleaseDate(payment.dueDate),
+  });
+}
+
+async function releaseBooth(
+  vendor: VendorSummary,
+  application: BazaarApplication,
+  now: Date
+) {
+  const result = await vendorModel.updateOne(
+    unchangedApplicationFilter(vendor._id, application),
+    {
+      $set: {
+        "applications.$.status": VendorStatus.REJECTED,
+        "applications.$.decisionDate": now,
+        "applications.$.payment.status": "overdue",
+        "applications.$.payment.releasedAt": now,
+      },
+    }
+  );
+
+  if (!result.modifiedCount) {
+    return;
+  }
+
+  // Same bookkeeping as a vendor cancelling: the spots go back to the event
+  const attendeesCount = application.attendees?.length ?? 0;
+  const event = await EventModel.findByIdAndUpdate(
+    application.eventId,
+    {
+      $pull: { vendors: vendor._id.toString() },
+      ...(attendeesCount > 0 ? { $inc: { capacity: attendeesCount } } : {}),
+    },
+    { new: true }
+  )
+    .select("name")
+    .lean<{ name: string }>();
+  const eventName = event?.name ?? "your event";
+
+  console.info(
+    `[BoothPaymentScheduler] Released ${vendor.companyName}'s booth at ${eventName} after the payment grace period`
+  );
+
+  await Promise.all([
+    emailService.sendVendorBoothReleased({
+      vendorEmail: vendor.email,
+      vendorCompany: vendor.companyName,
+      eventName,
+    }),
+    notifyEventOffice({
+      type: NotificationType.VENDOR_APPLICATION,
+      message: `${vendor.companyName}'s booth at ${eventName} was released because the fee was not paid.`,
+      entity: {
+        kind: NotificationEntityKind.VENDOR_APPLICATION,
+        id: vendor._id.toString(),
+      },
+      link: `/events-office/vendors/${vendor._id.toString()}/applications`,
+    }),
+  ]);
+}
+
+const ACTION_HANDLERS: Record<
+  BoothPaymentAction,
+  (vendor: VendorSummary, application: BazaarApplication, now: Date) => Promise<void>
+> = {
+  remind: sendPaymentReminder,
+  markOverdue: markPaymentOverdue,
+  release: releaseBooth,
+};
+
+async function processUnpaidBoothPayments() {
+  const now = new Date();
+
+  const vendors = await vendorModel
+    .find({
+      applications: {
+        $elemMatch: {
+          status: VendorStatus.APPROVED,
+          "payment.status": { $in: UNPAID_STATUSES },
+          "payment.releasedAt": { $exists: false },
+          "payment.dueDate": {
+            $lte: new Date(now.getTime() + BOOTH_PAYMENT_REMINDER_HOURS * HOUR_MS),
+          },
+        },
+      },
+    })
+    .select(["_id", "email", "companyName", "applications"])
+    .lean<VendorSummary[]>();
+
+  for (const vendor of vendors) {
+    for (const application of vendor.applications ?? []) {
+      if (application.status !== VendorStatus.APPROVED || !application.payment) {
+        continue;
+      }
+
+      const action = getBoothPaymentAction(application.payment, now);
+      if (!action) {
+        continue;
+      }
+
+      try {
+        await ACTION_HANDLERS[action](vendor, application, now);
+      } catch (error) {
+        console.error(
+          `[BoothPaymentScheduler] Failed to ${action} booth payment for vendor ${vendor._id.toString()} at event ${application.eventId.toString()}:`,
+          error
+        );
+      }
+    }
+  }
+}
+
+export function startBoothPaymentScheduler() {
+  if (schedulerStarted) {
+    return;
+  }
+
+  schedulerStarted = true;
+
+  const tick = async () => {
+    if (schedulerBusy) {
+      return;
+    }
+
+    schedulerBusy = true;
+    try {
+      await processUnpaidBoothPayments();
+    } catch (error) {
+      console.error("Booth payment scheduler tick error:", error);
+    } finally {
+      schedulerBusy = false;
+    }
+  };
+
+  void tick();
+
+  setInterval(() => {
+    void tick();
+  }, BOOTH_PAYMENT_CHECK_INTERVAL_MS);
+}
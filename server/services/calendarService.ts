@@ -0,0 +1,490 @@
+import { randomBytes } from "crypto";
+import { Types } from "mongoose";
+import EventModel, { IAgendaSession, IEvent } from "../models/Event";
+import GymSessionModel, { IGymSession } from "../models/GymSession";
+import CourtReservationModel, {
+  ICourtReservation,
+} from "../models/CourtReservation";
+import { ICourt } from "../models/Court";
+import UserModel from "../models/User";
+import CalendarCancellationModel, {
+  ICalendarCancellation,
+} from "../models/CalendarCancellation";
+import { reservationStartsAt } from "./courtService";
+import { sessionWindow } from "./gymSessionService";
+
+const frontendUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+const CALENDAR_DOMAIN = "zapvent";
+const GYM_LOCATION = "GUC Gym";
+const FEED_HISTORY_DAYS = 90;
+const CANCELLATION_HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CalendarEntryKind = "event" | "session" | "gym" | "court";
+
+type CalendarEntry = {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  startsAt: Date;
+  endsAt: Date;
+  status: "CONFIRMED" | "CANCELLED";
+  sequence: number;
+  lastModified?: Date;
+  url?: string;
+};
+
+type CourtReservationWithCourt = Omit<ICourtReservation, "court"> & {
+  _id: Types.ObjectId;
+  court?: Pick<ICourt, "type" | "venue" | "timezone"> | null;
+};
+
+export function calendarUid(kind: CalendarEntryKind, id: string) {
+  return `${kind}-${id}@${CALENDAR_DOMAIN}`;
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on the
+// next line after a single leading space.
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function renderEntry(entry: CalendarEntry, stamp: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${entry.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART:${formatUtc(entry.startsAt)}`,
+    `DTEND:${formatUtc(entry.endsAt)}`,
+    `SUMMARY:${escapeText(entry.summary)}`,
+    `STATUS:${entry.status}`,
+    `SEQUENCE:${entry.sequence}`,
+  ];
+  if (entry.location) {
+    lines.push(`LOCATION:${escapeText(entry.location)}`);
+  }
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  }
+  if (entry.url) {
+    lines.push(`URL:${entry.url}`);
+  }
+  if (entry.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtc(entry.lastModified)}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function renderCalendar(entries: CalendarEntry[], name: string): string {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Zapvent//Campus Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...entries.flatMap((entry) => renderEntry(entry, stamp)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+function eventEntry(event: IEvent & { _id: Types.ObjectId }): CalendarEntry {
+  const id = event._id.toString();
+  return {
+    uid: calendarUid("event", id),
+    summary: event.name,
+    description: event.description,
+    location: event.location,
+    startsAt: new Date(event.startDate),
+    endsAt: new Date(event.endDate),
+    status: "CONFIRMED",
+    sequence: event.calendarSequence ?? 0,
+    lastModified: event.updatedAt,
+    url: `${frontendUrl}/user/events/${id}`,
+  };
+}
+
+function agendaSessionEntry(
+  event: IEvent & { _id: Types.ObjectId },
+  session: IAgendaSession
+): CalendarEntry {
+  const details = [
+    session.speakers.length ? `Speakers: ${session.speakers.join(", ")}` : "",
+    session.track ? `Track: ${session.track}` : "",
+    session.abstract ?? "",
+    `Part of ${event.name}`,
+  ].filter(Boolean);
+  return {
+    uid: calendarUid("session", session._id.toString()),
+    summary: session.title,
+    description: details.join("\n\n"),
+    location: session.room ? `${session.room}, ${event.location}` : event.location,
+    startsAt: new Date(session.startTime),
+    endsAt: new Date(session.endTime),
+    status: "CONFIRMED",
+    sequence: event.calendarSequence ?? 0,
+    lastModified: event.updatedAt,
+    url: `${frontendUrl}/user/events/${event._id.toString()}`,
+  };
+}
+
+function bookmarkedSessionEntries(
+  events: Array<IEvent & { _id: Types.ObjectId }>,
+  userId: string
+) {
+  return events.flatMap((event) =>
+    (event.agendaSessions ?? [])
+      .filter((session) => (session.bookmarkedBy ?? []).includes(userId))
+      .map((session) => agendaSessionEntry(event, session))
+  );
+}
+
+function calendarSlug(name: string, fallback: string) {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return slug || fallback;
+}
+
+function gymEntry(session: IGymSession & { _id: Types.ObjectId }): CalendarEntry {
+  return {
+    uid: calendarUid("gym", session._id.toString()),
+    summary: `${session.type} gym session`,
+    location: GYM_LOCATION,
+    ...sessionWindow(session),
+    status: "CONFIRMED",
+    sequence: session.calendarSequence ?? 0,
+    lastModified: session.updatedAt,
+    url: `${frontendUrl}/user/gym`,
+  };
+}
+
+function courtEntry(reservation: CourtReservationWithCourt): CalendarEntry {
+  const timeZone = reservation.court?.timezone;
+  return {
+    uid: calendarUid("court", reservation._id.toString()),
+    summary: `${reservation.court?.type ?? "Court"} court booking`,
+    location: reservation.court?.venue,
+    startsAt: reservationStartsAt(reservation.date, reservation.startTime, timeZone),
+    endsAt: reservationStartsAt(reservation.date, reservation.endTime, timeZone),
+    status: "CONFIRMED",
+    sequence: 0,
+    lastModified: reservation.updatedAt,
+    url: `${frontendUrl}/user/gym`,
+  };
+}
+
+function cancellationEntry(record: ICalendarCancellation): CalendarEntry {
+  return {
+    uid: record.uid,
+    summary: record.summary,
+    location: record.location,
+    startsAt: record.startsAt,
+    endsAt: record.endsAt,
+    status: "CANCELLED",
+    sequence: record.sequence,
+    lastModified: record.createdAt,
+  };
+}
+
+function validObjectIds(ids: string[] = []) {
+  return ids.filter((id) => Types.ObjectId.isValid(id));
+}
+
+/**
+ * Keeps a cancelled item in its participants' feeds with STATUS:CANCELLED.
+ * Failures are logged rather than thrown so cancellations still go through.
+ */
+export async function recordCalendarCancellation(record: {
+  kind: CalendarEntryKind;
+  id: string;
+  userIds: string[];
+  summary: string;
+  location?: string;
+  startsAt: Date;
+  endsAt: Date;
+  sequence?: number;
+}): Promise<void> {
+  if (record.userIds.length === 0) {
+    return;
+  }
+
+  try {
+    await CalendarCancellationModel.create({
+      uid: calendarUid(record.kind, record.id),
+      userIds: record.userIds,
+      summary: record.summary,
+      location: record.location,
+      startsAt: record.startsAt,
+      endsAt: record.endsAt,
+      sequence: (record.sequence ?? 0) + 1,
+    });
+  } catch (error) {
+    console.error("Error recording calendar cancellation:", error);
+  }
+}
+
+export async function getCalendarFeedToken(
+  userId: string,
+  rotate = false
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: { token: string; path: string };
+}> {
+  try {
+    const user = await UserModel.findById(userId).select("+calendarFeedToken");
+    if (!user) {
+      return { success: false, message: "User not found", statusCode: 404 };
+    }
+
+    if (!user.calendarFeedToken || rotate) {
+      user.calendarFeedToken = randomBytes(24).toString("hex");
+      await user.save();
+    }
+
+    return {
+      success: true,
+      message: rotate
+        ? "Calendar feed link regenerated. The old link no longer works"
+        : "Calendar feed link loaded",
+      statusCode: 200,
+      data: {
+        token: user.calendarFeedToken,
+        path: `/users/calendar/${user.calendarFeedToken}.ics`,
+      },
+    };
+  } catch (error) {
+    console.error("Error loading calendar feed token:", error);
+    return {
+      success: false,
+      message: "Failed to load calendar feed link",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function buildUserCalendarFeed(token: string): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: string;
+}> {
+  try {
+    if (!token || !/^[a-f0-9]{48}$/.test(token)) {
+      return {
+        success: false,
+        message: "Calendar feed not found",
+        statusCode: 404,
+      };
+    }
+
+    const user = await UserModel.findOne({ calendarFeedToken: token }).lean<{
+      _id: Types.ObjectId;
+      firstName: string;
+      registeredEvents?: string[];
+      registeredGymSessions?: string[];
+      reservedCourts?: string[];
+    }>();
+    if (!user) {
+      return {
+        success: false,
+        message: "Calendar feed not found",
+        statusCode: 404,
+      };
+    }
+
+    const userId = user._id.toString();
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS);
+
+    const [events, agendaEvents, sessions, reservations, cancellations] = await Promise.all([
+      EventModel.find({
+        $or: [
+          { _id: { $in: validObjectIds(user.registeredEvents) } },
+          { registeredUsers: userId },
+        ],
+        endDate: { $gte: since },
+      }).lean<Array<IEvent & { _id: Types.ObjectId }>>(),
+      EventModel.find({
+        "agendaSessions.bookmarkedBy": userId,
+        archived: { $ne: true },
+        endDate: { $gte: since },
+      }).lean<Array<IEvent & { _id: Types.ObjectId }>>(),
+      GymSessionModel.find({
+        $or: [
+          { _id: { $in: validObjectIds(user.registeredGymSessions) } },
+          { registeredUsers: userId },
+        ],
+        date: { $gte: since },
+      }).lean<Array<IGymSession & { _id: Types.ObjectId }>>(),
+      CourtReservationModel.find({
+        $or: [
+          { _id: { $in: validObjectIds(user.reservedCourts) } },
+          { user: user._id },
+        ],
+        date: { $gte: since },
+      })
+        .populate("court", "type venue timezone")
+        .lean<CourtReservationWithCourt[]>(),
+      CalendarCancellationModel.find({
+        userIds: userId,
+        startsAt: {
+          $gte: new Date(Date.now() - CANCELLATION_HISTORY_DAYS * DAY_MS),
+        },
+      }).lean<ICalendarCancellation[]>(),
+    ]);
+
+    const entries = [
+      ...events.map(eventEntry),
+      ...bookmarkedSessionEntries(agendaEvents, userId),
+      ...sessions.map(gymEntry),
+      ...reservations.map(courtEntry),
+    ];
+    const activeUids = new Set(entries.map((entry) => entry.uid));
+    cancellations
+      .filter((record) => !activeUids.has(record.uid))
+      .forEach((record) => entries.push(cancellationEntry(record)));
+
+    entries.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+    return {
+      success: true,
+      message: "Calendar feed generated",
+      statusCode: 200,
+      data: renderCalendar(entries, `Zapvent – ${user.firstName}`),
+    };
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return {
+      success: false,
+      message: "Failed to build calendar feed",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function buildEventCalendarFile(eventId: string): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: { filename: string; content: string };
+}> {
+  try {
+    if (!Types.ObjectId.isValid(eventId)) {
+      return { success: false, message: "Invalid event ID", statusCode: 400 };
+    }
+
+    const event = await EventModel.findById(eventId).lean<
+      (IEvent & { _id: Types.ObjectId }) | null
+    >();
+    if (!event) {
+      return { success: false, message: "Event not found", statusCode: 404 };
+    }
+
+    return {
+      success: true,
+      message: "Calendar file generated",
+      statusCode: 200,
+      data: {
+        filename: `${calendarSlug(event.name, "event")}.ics`,
+        content: renderCalendar([eventEntry(event)], event.name),
+      },
+    };
+  } catch (error) {
+    console.error("Error building event calendar file:", error);
+    return {
+      success: false,
+      message: "Failed to build calendar file",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * A conference programme as an .ics file: every session, or only the ones
+ * `userId` bookmarked.
+ */
+export async function buildAgendaCalendarFile(
+  eventId: string,
+  userId?: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: { filename: string; content: string };
+}> {
+  try {
+    if (!Types.ObjectId.isValid(eventId)) {
+      return { success: false, message: "Invalid event ID", statusCode: 400 };
+    }
+
+    const event = await EventModel.findById(eventId).lean<
+      (IEvent & { _id: Types.ObjectId }) | null
+    >();
+    if (!event) {
+      return { success: false, message: "Event not found", statusCode: 404 };
+    }
+
+    const entries = userId
+      ? bookmarkedSessionEntries([event], userId)
+      : (event.agendaSessions ?? []).map((session) => agendaSessionEntry(event, session));
+    if (!entries.length) {
+      return {
+        success: false,
+        message: userId
+          ? "You have not bookmarked any sessions of this event"
+          : "This event has no agenda yet",
+        statusCode: 404,
+      };
+    }
+    entries.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+    const slug = calendarSlug(event.name, "event");
+    return {
+      success: true,
+      message: "Calendar file generated",
+      statusCode: 200,
+      data: {
+        filename: `${slug}-${userId ? "my-sessions" : "agenda"}.ics`,
+        content: renderCalendar(entries, `${event.name} agenda`),
+      },
+    };
+  } catch (error) {
+    console.error("Error building agenda calendar file:", error);
+    return {
+      success: false,
+      message: "Failed to build calendar file",
+      statusCode: 500,
+    };
+  }
+}
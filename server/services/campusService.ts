@@ -0,0 +1,83 @@
+import { Location } from "../models/Event";
+
+export type CampusSettings = {
+  currency: string;
+  timeZone: string;
+};
+
+export type CampusDirectory = {
+  walletCurrency: string;
+  campuses: Array<CampusSettings & { location: Location }>;
+};
+
+const CAMPUS_SETTINGS: Record<Location, CampusSettings> = {
+  [Location.GUCCAIRO]: {
+    currency: (process.env.EVENT_PAYMENT_CURRENCY || "EGP").toUpperCase(),
+    timeZone: "Africa/Cairo",
+  },
+  [Location.GUCCBERLIN]: {
+    currency: (process.env.BERLIN_PAYMENT_CURRENCY || "EUR").toUpperCase(),
+    timeZone: "Europe/Berlin",
+  },
+};
+
+// Wallets are held in the home campus currency
+export const WALLET_CURRENCY = CAMPUS_SETTINGS[Location.GUCCAIRO].currency;
+
+/** Currency and time zone for a campus; unknown locations fall back to Cairo. */
+export function getCampusSettings(location?: Location | string | null) {
+  return (
+    CAMPUS_SETTINGS[location as Location] ?? CAMPUS_SETTINGS[Location.GUCCAIRO]
+  );
+}
+
+/** Every campus with its currency and time zone, so the client never hard-codes them. */
+export function listCampusSettings(): CampusDirectory {
+  return {
+    walletCurrency: WALLET_CURRENCY,
+    campuses: Object.values(Location).map((location) => ({
+      location,
+      ...CAMPUS_SETTINGS[location],
+    })),
+  };
+}
+
+export function getCampusCurrency(location?: Location | string | null) {
+  return getCampusSettings(location).currency;
+}
+
+export function getCampusTimeZone(location?: Location | string | null) {
+  return getCampusSettings(location).timeZone;
+}
+
+/** Wallet balances cannot pay for, or receive refunds of, other currencies. */
+export function isWalletCurrency(currency?: string | null) {
+  return (currency || WALLET_CURRENCY).toUpperCase() === WALLET_CURRENCY;
+}
+
+/** Minutes `timeZone` is ahead of UTC at `instant`; 0 for unknown zones. */
+export function timezoneOffsetMinutes(instant: Date, timeZone: string) {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).formatToParts(instant);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((item) => item.type === type)?.value ?? 0);
+    const asUtc = Date.UTC(
+      part("year"),
+      part("month") - 1,
+      part("day"),
+      part("hour"),
+      part("minute")
+    );
+    return Math.round((asUtc - instant.getTime()) / 60000);
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,633 @@
+import { Types } from "mongoose";
+import Stripe from "stripe";
+import CourtModel, { CourtType, ICourt } from "../models/Court";
+import CourtPaymentModel, {
+  CourtPaymentMethod,
+  ICourtPayment,
+} from "../models/CourtPayment";
+import UserModel from "../models/User";
+import { IPaymentDiscount } from "../models/UserPayment";
+import { WalletTransactionType } from "../models/WalletTransaction";
+import { WALLET_CURRENCY } from "./campusService";
+import {
+  AppliedDiscount,
+  discountFromMetadata,
+  discountToMetadata,
+  releaseDiscountRedemption,
+} from "./discountService";
+import { emailService } from "./emailService";
+import {
+  buildCourtPaymentInvoice,
+  renderInvoiceAttachment,
+} from "./invoiceService";
+import { recordWalletTransaction } from "./walletService";
+
+const COURT_PAYMENT_PURPOSE = "court_reservation";
+
+const stripeClient = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    })
+  : null;
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type CourtPaymentWithId = ICourtPayment & { _id: Types.ObjectId };
+
+type PricedCourt = Pick<ICourt, "type" | "venue" | "pricePerHour" | "currency">;
+
+export type CourtSlot = {
+  courtId: string;
+  userId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string;
+  endTime: string;
+};
+
+export type CourtPaymentSummary = {
+  id: string;
+  amount: number;
+  currency: string;
+  method: CourtPaymentMethod;
+  status: ICourtPayment["status"];
+  receiptNumber: string;
+  paidAt: Date;
+  refundAmount?: number;
+  refundedAt?: Date;
+};
+
+export type CourtSalesItem = {
+  courtId: string;
+  courtType?: CourtType;
+  venue?: string;
+  currency: string;
+  bookings: number;
+  refunded: number;
+  revenue: number;
+};
+
+export type CourtSalesFilters = {
+  startDate?: Date;
+  endDate?: Date;
+  date?: Date;
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function generateReference(prefix: string): string {
+  const random = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}-${random}`;
+}
+
+function startOfUtcDay(value: Date) {
+  return new Date(
+    Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate())
+  );
+}
+
+/** Slot price from the court's hourly rate; courts without a rate are free. */
+export function calculateCourtPrice(
+  pricePerHour: number | null | undefined,
+  slotMinutes: number
+): number {
+  if (
+    typeof pricePerHour !== "number" ||
+    !Number.isFinite(pricePerHour) ||
+    pricePerHour <= 0 ||
+    slotMinutes <= 0
+  ) {
+    return 0;
+  }
+  return roundMoney((pricePerHour * slotMinutes) / 60);
+}
+
+export function getCourtCurrency(court: { currency?: string | null }) {
+  return (court.currency || WALLET_CURRENCY).toUpperCase();
+}
+
+export function describeCourt(court: Pick<ICourt, "type"> | null | undefined) {
+  const type = court?.type;
+  if (!type) return "Court";
+  return `${type.charAt(0).toUpperCase()}${type.slice(1)} court`;
+}
+
+export function describeCourtSlot(
+  payment: Pick<ICourtPayment, "date" | "startTime" | "endTime">
+) {
+  const day = new Date(payment.date).toISOString().slice(0, 10);
+  return `${day}, ${payment.startTime}–${payment.endTime}`;
+}
+
+export function toCourtPaymentSummary(
+  payment: CourtPaymentWithId
+): CourtPaymentSummary {
+  return {
+    id: payment._id.toString(),
+    amount: payment.amount,
+    currency: payment.currency,
+    method: payment.method,
+    status: payment.status,
+    receiptNumber: payment.receiptNumber,
+    paidAt: payment.paidAt,
+    refundAmount: payment.refundAmount,
+    refundedAt: payment.refundedAt,
+  };
+}
+
+export function isCourtPaymentIntent(paymentIntent: Stripe.PaymentIntent) {
+  return paymentIntent.metadata?.purpose === COURT_PAYMENT_PURPOSE;
+}
+
+export function isCourtCardPaymentAvailable() {
+  return Boolean(stripeClient);
+}
+
+export async function createCourtCardIntent(
+  slot: CourtSlot,
+  amount: number,
+  currency: string,
+  discount?: AppliedDiscount
+) {
+  if (!stripeClient) {
+    throw new Error("Stripe is not configured.");
+  }
+  return stripeClient.paymentIntents.create({
+    amount: Math.round(amount * 100),
+    currency: currency.toLowerCase(),
+    payment_method_types: ["card"],
+    metadata: {
+      purpose: COURT_PAYMENT_PURPOSE,
+      courtId: slot.courtId,
+      userId: slot.userId,
+      date: slot.date,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      ...(discount ? discountToMetadata(discount) : {}),
+    },
+  });
+}
+
+// Used when the promo code could not be held after the intent was created
+export async function cancelCourtCardIntent(paymentIntentId: string) {
+  if (!stripeClient) return;
+  try {
+    await stripeClient.paymentIntents.cancel(paymentIntentId);
+  } catch (error) {
+    console.error("Failed to cancel court payment intent:", error);
+  }
+}
+
+export async function retrieveCourtPaymentIntent(paymentIntentId: string) {
+  if (!stripeClient) {
+    throw new Error("Stripe is not configured.");
+  }
+  return stripeClient.paymentIntents.retrieve(paymentIntentId, {
+    expand: ["latest_charge"],
+  });
+}
+
+// Used when the card was charged but the slot could not be booked
+export async function refundUnbookedCourtIntent(paymentIntentId: string) {
+  if (!stripeClient) return;
+  try {
+    await stripeClient.refunds.create({
+      payment_intent: paymentIntentId,
+      reason: "requested_by_customer",
+    });
+  } catch (error) {
+    console.error("Failed to auto-refund unbooked court payment:", error);
+  }
+}
+
+export async function findCourtPaymentByIntent(paymentIntentId: string) {
+  return CourtPaymentModel.findOne({
+    transactionReference: paymentIntentId,
+  }).lean<CourtPaymentWithId | null>();
+}
+
+/**
+ * Records a succeeded card payment for a slot. The unique transaction
+ * reference makes the browser callback and the webhook race safely: the loser
+ * gets a duplicate key error and reads the winner's payment instead.
+ */
+export async function recordCourtCardPayment(
+  slot: CourtSlot & { utcDate: Date },
+  paymentIntent: Stripe.PaymentIntent
+): Promise<CourtPaymentWithId> {
+  const amountReceived =
+    typeof paymentIntent.amount_received === "number"
+      ? paymentIntent.amount_received
+      : paymentIntent.amount;
+  const latestCharge =
+    typeof paymentIntent.latest_charge === "object"
+      ? paymentIntent.latest_charge
+      : null;
+  const discount = discountFromMetadata(paymentIntent.metadata);
+
+  const payment = await CourtPaymentModel.create({
+    userId: slot.userId,
+    courtId: slot.courtId,
+    date: slot.utcDate,
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    amount: roundMoney((amountReceived ?? 0) / 100),
+    currency: (paymentIntent.currency ?? WALLET_CURRENCY).toUpperCase(),
+    method: "CreditCard",
+    cardLast4: latestCharge?.payment_method_details?.card?.last4 ?? undefined,
+    status: "Paid",
+    receiptNumber: generateReference("CRT"),
+    paidAt: new Date(),
+    transactionReference: paymentIntent.id,
+    discount,
+    discountReference: discount ? paymentIntent.id : undefined,
+  });
+  return payment.toObject() as CourtPaymentWithId;
+}
+
+/**
+ * Debits the slot price from the user's wallet and records the payment.
+ * Throws InsufficientWalletBalanceError (leaving nothing behind) when the
+ * balance does not cover it. A promo code that covers the whole price still
+ * records a payment, so cancelling can give the redemption back.
+ */
+export async function payCourtSlotFromWallet(
+  slot: CourtSlot & { utcDate: Date },
+  court: PricedCourt,
+  amount: number,
+  redemption?: { discount: IPaymentDiscount; reference: string }
+): Promise<CourtPaymentWithId> {
+  const payment = await CourtPaymentModel.create({
+    userId: slot.userId,
+    courtId: slot.courtId,
+    date: slot.utcDate,
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    amount,
+    currency: getCourtCurrency(court),
+    method: "Wallet",
+    status: "Paid",
+    receiptNumber: generateReference("CRT"),
+    paidAt: new Date(),
+    discount: redemption?.discount,
+    discountReference: redemption?.reference,
+  });
+  if (amount <= 0) {
+    return payment.toObject() as CourtPaymentWithId;
+  }
+
+  try {
+    await recordWalletTransaction({
+      userId: slot.userId,
+      type: WalletTransactionType.COURT_PAYMENT,
+      amount: -amount,
+      description: `${describeCourt(court)} booking, ${describeCourtSlot(payment)}`,
+      receiptNumber: payment.receiptNumber,
+    });
+  } catch (error) {
+    await CourtPaymentModel.deleteOne({ _id: payment._id });
+    throw error;
+  }
+
+  return payment.toObject() as CourtPaymentWithId;
+}
+
+export async function linkCourtPaymentReservation(
+  paymentId: Types.ObjectId,
+  reservationId: Types.ObjectId
+) {
+  await CourtPaymentModel.updateOne(
+    { _id: paymentId },
+    { $set: { reservationId } }
+  );
+}
+
+/**
+ * Gives the promo code back once no paid slot uses its redemption any more.
+ * Every occurrence of a weekly series shares one redemption, so it is only
+ * released when the last of them is refunded.
+ */
+export async function releaseCourtPaymentDiscount(
+  payment: Pick<ICourtPayment, "discountReference">
+) {
+  if (!payment.discountReference) return;
+  const stillPaid = await CourtPaymentModel.exists({
+    discountReference: payment.discountReference,
+    status: "Paid",
+  });
+  if (!stillPaid) {
+    await releaseDiscountRedemption(payment.discountReference);
+  }
+}
+
+// Drops a payment whose slot was lost before the reservation was written
+export async function discardCourtPayment(payment: CourtPaymentWithId) {
+  await CourtPaymentModel.deleteOne({ _id: payment._id });
+  await releaseCourtPaymentDiscount(payment);
+  if (payment.method === "Wallet" && payment.amount > 0) {
+    await recordWalletTransaction({
+      userId: payment.userId.toString(),
+      type: WalletTransactionType.REFUND,
+      amount: payment.amount,
+      description: `Refund for unavailable court slot, ${describeCourtSlot(payment)}`,
+      receiptNumber: generateReference("REF"),
+    });
+  } else if (payment.transactionReference) {
+    await refundUnbookedCourtIntent(payment.transactionReference);
+  }
+}
+
+export async function sendCourtPaymentReceipt(
+  payment: CourtPaymentWithId,
+  court: PricedCourt
+) {
+  try {
+    const user = await UserModel.findById(payment.userId)
+      .select("firstName lastName email")
+      .lean<{ firstName?: string; lastName?: string; email: string } | null>();
+    if (!user) return;
+
+    const recipientName = `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim();
+    const courtLabel = describeCourt(court);
+    const invoice = await renderInvoiceAttachment(
+      buildCourtPaymentInvoice({
+        payment,
+        customer: { name: recipientName, email: user.email },
+        courtLabel,
+        venue: court.venue,
+      })
+    );
+    await emailService.sendCourtPaymentReceipt({
+      recipientEmail: user.email,
+      recipientName,
+      courtLabel,
+      venue: court.venue,
+      slotLabel: describeCourtSlot(payment),
+      amount: payment.amount,
+      currency: payment.currency,
+      method: payment.method === "Wallet" ? "Wallet" : "Card",
+      receiptNumber: payment.receiptNumber,
+      paidAt: payment.paidAt,
+      invoice,
+    });
+  } catch (error) {
+    console.error("Failed to send court payment receipt:", error);
+  }
+}
+
+/**
+ * Refunds a paid slot in full: card payments go back through Stripe, wallet
+ * payments are credited to the wallet. The caller deletes the reservation
+ * only once this succeeds.
+ */
+export async function refundCourtPayment(
+  paymentId: string
+): Promise<ServiceResponse<{ refundAmount: number; currency: string }>> {
+  try {
+    const payment = await CourtPaymentModel.findById(paymentId);
+    if (!payment) {
+      return {
+        success: false,
+        message: "Court payment not found.",
+        statusCode: 404,
+      };
+    }
+
+    if (payment.status === "Refunded") {
+      return {
+        success: true,
+        message: "Court payment already refunded.",
+        data: { refundAmount: payment.refundAmount ?? 0, currency: payment.currency },
+      };
+    }
+
+    if (payment.method === "CreditCard") {
+      if (!stripeClient || !payment.transactionReference) {
+        return {
+          success: false,
+          message: "Card refunds are unavailable because Stripe is not configured.",
+          statusCode: 503,
+        };
+      }
+      payment.refundRequestedAt = new Date();
+      await payment.save();
+      try {
+        const stripeRefund = await stripeClient.refunds.create({
+          payment_intent: payment.transactionReference,
+          reason: "requested_by_customer",
+        });
+        payment.stripeRefundId = stripeRefund.id;
+      } catch (stripeError) {
+        console.error("Stripe court refund failed:", stripeError);
+        payment.refundRequestedAt = undefined;
+        await payment.save();
+        return {
+          success: false,
+          message: "We couldn't refund your card right now. Please try again later.",
+          statusCode: 502,
+        };
+      }
+    }
+
+    payment.status = "Refunded";
+    payment.refundAmount = payment.amount;
+    payment.refundedAt = new Date();
+    payment.refundReference = generateReference("REF");
+    payment.refundRequestedAt = undefined;
+    await payment.save();
+    await releaseCourtPaymentDiscount(payment);
+
+    if (payment.method === "Wallet" && payment.amount > 0) {
+      await recordWalletTransaction({
+        userId: payment.userId.toString(),
+        type: WalletTransactionType.REFUND,
+        amount: payment.amount,
+        description: `Refund for court booking, ${describeCourtSlot(payment)}`,
+        receiptNumber: payment.refundReference,
+      });
+    }
+
+    try {
+      const [user, court] = await Promise.all([
+        UserModel.findById(payment.userId)
+          .select("firstName lastName email")
+          .lean<{ firstName?: string; lastName?: string; email: string } | null>(),
+        CourtModel.findById(payment.courtId).select("type").lean<Pick<ICourt, "type"> | null>(),
+      ]);
+      if (user) {
+        await emailService.sendCourtRefundNotice({
+          recipientEmail: user.email,
+          recipientName: `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim(),
+          courtLabel: describeCourt(court),
+          slotLabel: describeCourtSlot(payment),
+          refundAmount: payment.amount,
+          currency: payment.currency,
+          destination: payment.method === "Wallet" ? "wallet" : "card",
+          refundReference: payment.refundReference,
+        });
+      }
+    } catch (emailError) {
+      console.error("Failed to send court refund email:", emailError);
+    }
+
+    return {
+      success: true,
+      message: "Court payment refunded.",
+      data: { refundAmount: payment.amount, currency: payment.currency },
+    };
+  } catch (error) {
+    console.error("refundCourtPayment error:", error);
+    return {
+      success: false,
+      message: "Failed to refund court payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Applies a card refund issued outside Zapvent, such as from the Stripe
+ * dashboard, to the court payment it belongs to. `released` tells the caller
+ * the payment is now fully refunded and the slot should be given up.
+ */
+export async function recordCourtChargeRefund(
+  charge: Stripe.Charge
+): Promise<ServiceResponse<{ payment: CourtPaymentWithId; released: boolean }>> {
+  const paymentIntentId =
+    typeof charge.payment_intent === "string"
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+  if (!paymentIntentId) {
+    return {
+      success: false,
+      message: "Charge has no payment intent.",
+      statusCode: 400,
+    };
+  }
+
+  const payment = await CourtPaymentModel.findOne({
+    transactionReference: paymentIntentId,
+    method: "CreditCard",
+  });
+  if (!payment) {
+    return {
+      success: false,
+      message: "No court payment matches this charge.",
+      statusCode: 404,
+    };
+  }
+
+  if (payment.status === "Refunded") {
+    return {
+      success: true,
+      message: "Refund already recorded.",
+      data: { payment: payment.toObject() as CourtPaymentWithId, released: false },
+    };
+  }
+
+  // refundCourtPayment records its own refund once Stripe answers
+  if (payment.refundRequestedAt) {
+    return {
+      success: false,
+      message: "A refund for this court payment is still being recorded.",
+      statusCode: 409,
+    };
+  }
+
+  const refunded = roundMoney(charge.amount_refunded / 100);
+  if (refunded <= (payment.refundAmount ?? 0)) {
+    return {
+      success: true,
+      message: "Refund already recorded.",
+      data: { payment: payment.toObject() as CourtPaymentWithId, released: false },
+    };
+  }
+
+  payment.refundAmount = refunded;
+  payment.refundedAt = new Date();
+  if (charge.refunded) {
+    payment.status = "Refunded";
+    payment.refundReference = generateReference("REF");
+  }
+  await payment.save();
+  if (charge.refunded) {
+    await releaseCourtPaymentDiscount(payment);
+  }
+
+  return {
+    success: true,
+    message: charge.refunded
+      ? "Court payment refunded."
+      : "Partial court refund recorded.",
+    data: {
+      payment: payment.toObject() as CourtPaymentWithId,
+      released: Boolean(charge.refunded),
+    },
+  };
+}
+
+/** Court revenue per court for bookings dated inside the report filters. */
+export async function getCourtSales(
+  filters: CourtSalesFilters
+): Promise<CourtSalesItem[]> {
+  const dateConditions: Record<string, Date> = {};
+  if (filters.date) {
+    const day = startOfUtcDay(filters.date);
+    dateConditions.$gte = day;
+    dateConditions.$lt = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  }
+  if (filters.startDate) {
+    dateConditions.$gte = filters.startDate;
+  }
+  if (filters.endDate) {
+    dateConditions.$lte = filters.endDate;
+  }
+
+  // A court whose price currency changed reports one row per currency
+  const rows = await CourtPaymentModel.aggregate<{
+    _id: { courtId: Types.ObjectId; currency?: string };
+    bookings: number;
+    refunded: number;
+    revenue: number;
+  }>([
+    {
+      $match: {
+        status: { $in: ["Paid", "Refunded"] },
+        ...(Object.keys(dateConditions).length ? { date: dateConditions } : {}),
+      },
+    },
+    {
+      $group: {
+        _id: { courtId: "$courtId", currency: "$currency" },
+        bookings: { $sum: { $cond: [{ $eq: ["$status", "Paid"] }, 1, 0] } },
+        refunded: { $sum: { $cond: [{ $eq: ["$status", "Refunded"] }, 1, 0] } },
+        revenue: {
+          $sum: { $subtract: ["$amount", { $ifNull: ["$refundAmount", 0] }] },
+        },
+      },
+    },
+  ]);
+
+  const courts = await CourtModel.find({
+    _id: { $in: rows.map((row) => row._id.courtId) },
+  })
+    .select("type venue")
+    .lean<Array<Pick<ICourt, "type" | "venue"> & { _id: Types.ObjectId }>>();
+  const courtById = new Map(courts.map((court) => [court._id.toString(), court]));
+
+  return rows.map((row) => ({
+    courtId: row._id.courtId.toString(),
+    courtType: courtById.get(row._id.courtId.toString())?.type,
+    venue: courtById.get(row._id.courtId.toString())?.venue,
+    currency: (row._id.currency || WALLET_CURRENCY).toUpperCase(),
+    bookings: row.bookings,
+    refunded: row.refunded,
+    revenue: roundMoney(row.revenue),
+  }));
+}
@@ -1,10 +1,66 @@
-import { isValidObjectId } from "mongoose";
-import CourtModel, { IOpeningHour } from "../models/Court";
+import { isValidObjectId, Types } from "mongoose";
+import Stripe from "stripe";
+import CourtModel, { CourtType, ICourt, IOpeningHour } from "../models/Court";
 import CourtReservationModel from "../models/CourtReservation";
 import UserModel, { userRole } from "../models/User";
+import {
+  NotificationEntityKind,
+  NotificationType,
+} from "../models/Notification";
+import { recordCalendarCancellation } from "./calendarService";
+import { notifyUsers } from "./notificationService";
+import {
+  calculateCourtPrice,
+  createCourtCardIntent,
+  cancelCourtCardIntent,
+  describeCourtSlot,
+  discardCourtPayment,
+  findCourtPaymentByIntent,
+  getCourtCurrency,
+  isCourtCardPaymentAvailable,
+  isCourtPaymentIntent,
+  linkCourtPaymentReservation,
+  payCourtSlotFromWallet,
+  recordCourtCardPayment,
+  recordCourtChargeRefund,
+  refundCourtPayment,
+  refundUnbookedCourtIntent,
+  retrieveCourtPaymentIntent,
+  sendCourtPaymentReceipt,
+  toCourtPaymentSummary,
+  type CourtPaymentSummary,
+  type CourtPaymentWithId,
+} from "./courtPaymentService";
+import { isWalletCurrency, timezoneOffsetMinutes } from "./campusService";
+import {
+  AppliedDiscount,
+  discountFromMetadata,
+  redeemDiscountRedemption,
+  releaseDiscountRedemption,
+  reserveDiscountRedemption,
+  resolveDiscount,
+  toPaymentDiscount,
+} from "./discountService";
+import { InsufficientWalletBalanceError } from "./walletService";
+import { formatDate } from "../../lib/date";
 
 const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
 const DEFAULT_SLOT_MINUTES = 60;
+const MAX_RECURRING_OCCURRENCES = 26; // One semester of weekly bookings
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const CANCELLATION_CUTOFF_MS =
+  (Number(process.env.COURT_CANCELLATION_CUTOFF_HOURS) || 2) * 60 * 60 * 1000;
+const NO_SHOW_LIMIT = 3;
+const NO_SHOW_WINDOW_DAYS = 30;
+const SUSPENSION_DAYS = 14;
+const DEFAULT_WEEKLY_QUOTA = 2;
+
+// Reservations a student may hold per court type in one Sunday–Saturday week.
+export const WEEKLY_RESERVATION_QUOTAS: Record<CourtType, number> = {
+  [CourtType.TENNIS]: 3,
+  [CourtType.FOOTBALL]: 2,
+  [CourtType.BASKETBALL]: 3,
+};
 
 type Slot = {
   startTime: string;
@@ -12,7 +68,44 @@ type Slot = {
   isAvailable: boolean;
 };
 
-function parseDateInput(value: string) {
+type ParsedDate = {
+  utcDate: Date;
+  nextUtcDate: Date;
+  weekday: number;
+};
+
+type SlotSource = Pick<
+  ICourt,
+  | "type"
+  | "timezone"
+  | "openingHours"
+  | "exceptions"
+  | "bookingSlotMinutes"
+  | "bufferMinutes"
+> & { _id: unknown };
+
+type SlotCheck =
+  | { ok: true; startTime: string; endTime: string }
+  | { ok: false; message: string; statusCode: number };
+
+export type RecurringReservationPayload = {
+  startDate: string;
+  startTime: string;
+  endTime?: string;
+  weeks?: number;
+  until?: string;
+  promoCode?: string;
+};
+
+export type RecurringOccurrence = {
+  date: string;
+  startTime: string;
+  endTime: string;
+  isAvailable: boolean;
+  reason?: string;
+};
+
+function parseDateInput(value: string): ParsedDate | null {
   if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
     return null;
   }
@@ -116,6 +209,280 @@ function isDateWithinExceptions(
   });
 }
 
+function formatDateKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reservations store a calendar date plus an HH:mm start in the court's local
+ * time. This resolves the actual instant the slot begins.
+ */
+export function reservationStartsAt(date: Date, startTime: string, timeZone?: string) {
+  const wallClock = new Date(
+    new Date(date).getTime() + (parseTimeToMinutes(startTime) ?? 0) * 60000
+  );
+  const offset = timeZone ? timezoneOffsetMinutes(wallClock, timeZone) : 0;
+  return new Date(wallClock.getTime() - offset * 60000);
+}
+
+function cancellationDeadline(
+  date: Date,
+  startTime: string,
+  timeZone?: string
+) {
+  return new Date(
+    reservationStartsAt(date, startTime, timeZone).getTime() -
+      CANCELLATION_CUTOFF_MS
+  );
+}
+
+type CancellableReservation = {
+  _id: Types.ObjectId;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  court: Pick<ICourt, "type" | "venue" | "timezone"> | null;
+  payment?: Types.ObjectId;
+};
+
+function recordCourtCancellation(
+  reservation: CancellableReservation,
+  userId: string
+) {
+  const timeZone = reservation.court?.timezone;
+  return recordCalendarCancellation({
+    kind: "court",
+    id: reservation._id.toString(),
+    userIds: [userId],
+    summary: `${reservation.court?.type ?? "Court"} court booking`,
+    location: reservation.court?.venue,
+    startsAt: reservationStartsAt(reservation.date, reservation.startTime, timeZone),
+    endsAt: reservationStartsAt(reservation.date, reservation.endTime, timeZone),
+  });
+}
+
+function weeklyQuotaFor(type: CourtType | string) {
+  return WEEKLY_RESERVATION_QUOTAS[type as CourtType] ?? DEFAULT_WEEKLY_QUOTA;
+}
+
+async function checkWeeklyQuota(
+  userId: string,
+  courtType: CourtType,
+  utcDate: Date
+): Promise<SlotCheck | { ok: true }> {
+  const weekStart = new Date(utcDate);
+  weekStart.setUTCDate(weekStart.getUTCDate() - weekStart.getUTCDay());
+  const weekEnd = new Date(weekStart);
+  weekEnd.setUTCDate(weekEnd.getUTCDate() + 7);
+
+  const courtIds = await CourtModel.find({ type: courtType }).distinct("_id");
+  const booked = await CourtReservationModel.countDocuments({
+    user: userId,
+    court: { $in: courtIds },
+    date: { $gte: weekStart, $lt: weekEnd },
+  });
+
+  const quota = weeklyQuotaFor(courtType);
+  if (booked >= quota) {
+    return {
+      ok: false,
+      message: `Weekly limit of ${quota} ${courtType} reservations reached`,
+      statusCode: 409,
+    };
+  }
+
+  return { ok: true };
+}
+
+function startOfTodayUtc() {
+  const now = new Date();
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+}
+
+async function loadReservingStudent(userId: string) {
+  const user = await UserModel.findById(userId);
+  if (!user || user.role !== userRole.STUDENT) {
+    return {
+      ok: false as const,
+      message: "Only verified students can reserve courts",
+      statusCode: 403,
+    };
+  }
+
+  if (!user.studentId) {
+    return {
+      ok: false as const,
+      message: "Student record is missing a GUC ID",
+      statusCode: 400,
+    };
+  }
+
+  if (user.courtSuspendedUntil && user.courtSuspendedUntil > new Date()) {
+    return {
+      ok: false as const,
+      message: `Court booking is suspended until ${formatDate(user.courtSuspendedUntil)} after repeated no-shows`,
+      statusCode: 403,
+    };
+  }
+
+  return { ok: true as const, user };
+}
+
+/**
+ * Validates a single slot on a single date against the court's exceptions,
+ * opening hours and the reservations already stored for that day.
+ */
+async function checkCourtSlot(
+  court: SlotSource,
+  parsedDate: ParsedDate,
+  slotStartMinutes: number,
+  slotEndMinutes: number
+): Promise<SlotCheck> {
+  if (isDateWithinExceptions(parsedDate.utcDate, court.exceptions)) {
+    return {
+      ok: false,
+      message: "Court unavailable on this date",
+      statusCode: 409,
+    };
+  }
+
+  const windows = (court.openingHours ?? []).filter(
+    (window: IOpeningHour) => window.weekday === parsedDate.weekday
+  );
+
+  if (windows.length === 0) {
+    return {
+      ok: false,
+      message: "Court is closed on the selected date",
+      statusCode: 409,
+    };
+  }
+
+  const bookingMinutes = court.bookingSlotMinutes ?? DEFAULT_SLOT_MINUTES;
+  const bufferMinutes = court.bufferMinutes ?? 0;
+
+  if (slotEndMinutes - slotStartMinutes !== bookingMinutes) {
+    return {
+      ok: false,
+      message: `Slot length must equal ${bookingMinutes} minutes`,
+      statusCode: 400,
+    };
+  }
+
+  const slotWithinWindow = windows.some((window: IOpeningHour) => {
+    const windowStart = parseTimeToMinutes(window.startTime) ?? -1;
+    const windowEnd = parseTimeToMinutes(window.endTime) ?? -1;
+    return slotStartMinutes >= windowStart && slotEndMinutes <= windowEnd;
+  });
+
+  if (!slotWithinWindow) {
+    return {
+      ok: false,
+      message: "Requested time falls outside opening hours",
+      statusCode: 400,
+    };
+  }
+
+  const sameDayReservations = (await CourtReservationModel.find({
+    court: court._id,
+    date: { $gte: parsedDate.utcDate, $lt: parsedDate.nextUtcDate },
+  })
+    .select("startTime endTime")
+    .lean()) as unknown as Array<{ startTime: string; endTime: string }>;
+
+  const generatedSlots = buildSlots(
+    windows,
+    bookingMinutes,
+    bufferMinutes,
+    sameDayReservations
+  );
+
+  const formattedStart = minutesToTime(slotStartMinutes);
+  const formattedEnd = minutesToTime(slotEndMinutes);
+  const matchingSlot = generatedSlots.find(
+    (slot) => slot.startTime === formattedStart && slot.endTime === formattedEnd
+  );
+
+  if (!matchingSlot) {
+    return {
+      ok: false,
+      message: "Requested time does not match any available slot",
+      statusCode: 400,
+    };
+  }
+
+  if (!matchingSlot.isAvailable) {
+    return {
+      ok: false,
+      message: "Selected slot is already reserved",
+      statusCode: 409,
+    };
+  }
+
+  return { ok: true, startTime: formattedStart, endTime: formattedEnd };
+}
+
+function buildWeeklyDates(
+  payload: RecurringReservationPayload
+): { ok: true; dates: ParsedDate[] } | { ok: false; message: string } {
+  const firstDate = parseDateInput(payload.startDate);
+  if (!firstDate) {
+    return { ok: false, message: "startDate must be in YYYY-MM-DD format" };
+  }
+
+  if (firstDate.utcDate < startOfTodayUtc()) {
+    return { ok: false, message: "startDate cannot be in the past" };
+  }
+
+  const hasWeeks = payload.weeks !== undefined && payload.weeks !== null;
+  const hasUntil = Boolean(payload.until);
+  if (hasWeeks === hasUntil) {
+    return { ok: false, message: "Provide either weeks or until, not both" };
+  }
+
+  let occurrences: number;
+  if (hasWeeks) {
+    const weeks = Number(payload.weeks);
+    if (!Number.isInteger(weeks) || weeks < 1) {
+      return { ok: false, message: "weeks must be a positive whole number" };
+    }
+    occurrences = weeks;
+  } else {
+    const untilDate = parseDateInput(payload.until as string);
+    if (!untilDate) {
+      return { ok: false, message: "until must be in YYYY-MM-DD format" };
+    }
+    if (untilDate.utcDate < firstDate.utcDate) {
+      return { ok: false, message: "until must be on or after startDate" };
+    }
+    const diffDays = Math.round(
+      (untilDate.utcDate.getTime() - firstDate.utcDate.getTime()) /
+        (24 * 60 * 60 * 1000)
+    );
+    occurrences = Math.floor(diffDays / 7) + 1;
+  }
+
+  if (occurrences > MAX_RECURRING_OCCURRENCES) {
+    return {
+      ok: false,
+      message: `A recurring reservation can cover at most ${MAX_RECURRING_OCCURRENCES} weeks`,
+    };
+  }
+
+  const dates: ParsedDate[] = [];
+  for (let index = 0; index < occurrences; index += 1) {
+    const utcDate = new Date(firstDate.utcDate);
+    utcDate.setUTCDate(utcDate.getUTCDate() + index * 7);
+    const nextUtcDate = new Date(utcDate);
+    nextUtcDate.setUTCDate(nextUtcDate.getUTCDate() + 1);
+    dates.push({ utcDate, nextUtcDate, weekday: firstDate.weekday });
+  }
+
+  return { ok: true, dates };
+}
+
 export async function viewAllCourts() {
   try {
     const courts = await CourtModel.find().lean();
@@ -127,6 +494,10 @@ export async function viewAllCourts() {
       timezone: court.timezone,
       openingHours: court.openingHours,
       exceptions: court.exceptions,
+      weeklyQuota: weeklyQuotaFor(court.type),
+      bookingSlotMinutes: court.bookingSlotMinutes ?? DEFAULT_SLOT_MINUTES,
+      pricePerHour: court.pricePerHour ?? 0,
+      currency: getCourtCurrency({ currency: court.currency }),
     }));
 
     return {
@@ -152,7 +523,13 @@ export async function getCourtAvailability(
 ): Promise<{
   success: boolean;
   message: string;
-  data?: { courtId: string; date: string; slots: Slot[] };
+  data?: {
+    courtId: string;
+    date: string;
+    slots: Slot[];
+    price: number;
+    currency: string;
+  };
   statusCode?: number;
 }> {
   try {
@@ -174,11 +551,17 @@ export async function getCourtAvailability(
       return { success: false, message: "Court not found", statusCode: 404 };
     }
 
+    const bookingMinutes = court.bookingSlotMinutes ?? DEFAULT_SLOT_MINUTES;
+    const pricing = {
+      price: calculateCourtPrice(court.pricePerHour, bookingMinutes),
+      currency: getCourtCurrency(court),
+    };
+
     if (isDateWithinExceptions(parsedDate.utcDate, court.exceptions)) {
       return {
         success: true,
         message: "Court unavailable on this date",
-        data: { courtId, date, slots: [] },
+        data: { courtId, date, slots: [], ...pricing },
         statusCode: 200,
       };
     }
@@ -191,7 +574,7 @@ export async function getCourtAvailability(
       return {
         success: true,
         message: "Court is closed on the selected date",
-        data: { courtId, date, slots: [] },
+        data: { courtId, date, slots: [], ...pricing },
         statusCode: 200,
       };
     }
@@ -203,7 +586,6 @@ export async function getCourtAvailability(
       .select("startTime endTime")
       .lean()) as unknown as Array<{ startTime: string; endTime: string }>;
 
-    const bookingMinutes = court.bookingSlotMinutes ?? DEFAULT_SLOT_MINUTES;
     const bufferMinutes = court.bufferMinutes ?? 0;
 
     const slots = buildSlots(
@@ -218,7 +600,7 @@ export async function getCourtAvailability(
       message: slots.some((slot) => slot.isAvailable)
         ? "Availability loaded"
         : "No free slots for this date",
-      data: { courtId, date, slots },
+      data: { courtId, date, slots, ...pricing },
       statusCode: 200,
     };
   } catch (error) {
@@ -231,204 +613,1555 @@ export async function getCourtAvailability(
   }
 }
 
-export async function reserveCourtSlot(
-  courtId: string,
-  userId: string,
-  payload: { date: string; startTime: string; endTime?: string }
-): Promise<{
+type ReservingStudent = Extract<
+  Awaited<ReturnType<typeof loadReservingStudent>>,
+  { ok: true }
+>["user"];
+
+type ReservationPayload = {
+  date: string;
+  startTime: string;
+  endTime?: string;
+  promoCode?: string;
+};
+
+type PreparedReservation =
+  | {
+      ok: true;
+      court: SlotSource &
+        Pick<ICourt, "venue" | "pricePerHour" | "currency"> & {
+          _id: Types.ObjectId;
+        };
+      user: ReservingStudent;
+      parsedDate: ParsedDate;
+      startTime: string;
+      endTime: string;
+      price: number; // after the promo code, if one was given
+      discount?: AppliedDiscount;
+    }
+  | { ok: false; message: string; statusCode: number };
+
+type ReservationData = {
+  reservation: {
+    id: string;
+    courtId: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+    studentName: string;
+    studentGucId: string;
+    payment?: CourtPaymentSummary;
+  };
+};
+
+type ReservationResponse = {
   success: boolean;
   message: string;
   statusCode?: number;
-  data?: {
-    reservation: {
-      id: string;
-      courtId: string;
-      date: string;
-      startTime: string;
-      endTime: string;
-      studentName: string;
-      studentGucId: string;
+  data?: ReservationData;
+  refunded?: boolean; // card payment returned because the slot could not be booked
+};
+
+function isDuplicateKeyError(error: unknown) {
+  return (error as { code?: number })?.code === 11000;
+}
+
+/** Prices a slot with the student's promo code; without one the list price stands. */
+async function priceWithPromoCode(
+  userId: string,
+  listPrice: number,
+  promoCode?: string
+): Promise<
+  | { ok: true; price: number; discount?: AppliedDiscount }
+  | { ok: false; message: string; statusCode: number }
+> {
+  if (!promoCode?.trim()) {
+    return { ok: true, price: listPrice };
+  }
+  const resolved = await resolveDiscount(promoCode, { userId, amount: listPrice });
+  if (!resolved.success || !resolved.data) {
+    return {
+      ok: false,
+      message: resolved.message,
+      statusCode: resolved.statusCode ?? 400,
+    };
+  }
+  return { ok: true, price: resolved.data.finalAmount, discount: resolved.data };
+}
+
+/**
+ * Runs every check a single booking needs (student, slot, weekly quota) and
+ * prices the slot. Card bookings run it again once Stripe confirms, since the
+ * slot may have gone while the card was being charged.
+ */
+async function prepareCourtReservation(
+  courtId: string,
+  userId: string,
+  payload: ReservationPayload
+): Promise<PreparedReservation> {
+  if (!isValidObjectId(courtId)) {
+    return { ok: false, message: "Invalid court ID", statusCode: 400 };
+  }
+
+  if (!isValidObjectId(userId)) {
+    return { ok: false, message: "Invalid user ID", statusCode: 400 };
+  }
+
+  const parsedDate = parseDateInput(payload.date);
+  if (!parsedDate) {
+    return {
+      ok: false,
+      message: "Date must be in YYYY-MM-DD format",
+      statusCode: 400,
     };
+  }
+
+  const slotStartMinutes = parseTimeToMinutes(payload.startTime);
+  if (slotStartMinutes === null) {
+    return { ok: false, message: "startTime must use HH:mm", statusCode: 400 };
+  }
+
+  const court = await CourtModel.findById(courtId);
+  if (!court) {
+    return { ok: false, message: "Court not found", statusCode: 404 };
+  }
+
+  const student = await loadReservingStudent(userId);
+  if (!student.ok) {
+    return student;
+  }
+
+  const bookingMinutes = court.bookingSlotMinutes ?? DEFAULT_SLOT_MINUTES;
+  const slotEndMinutes = payload.endTime
+    ? parseTimeToMinutes(payload.endTime)
+    : slotStartMinutes + bookingMinutes;
+
+  if (slotEndMinutes === null) {
+    return { ok: false, message: "endTime must use HH:mm", statusCode: 400 };
+  }
+
+  const slotCheck = await checkCourtSlot(
+    court,
+    parsedDate,
+    slotStartMinutes,
+    slotEndMinutes
+  );
+  if (!slotCheck.ok) {
+    return slotCheck;
+  }
+
+  const quotaCheck = await checkWeeklyQuota(
+    userId,
+    court.type,
+    parsedDate.utcDate
+  );
+  if (!quotaCheck.ok) {
+    return quotaCheck;
+  }
+
+  const pricing = await priceWithPromoCode(
+    userId,
+    calculateCourtPrice(court.pricePerHour, slotEndMinutes - slotStartMinutes),
+    payload.promoCode
+  );
+  if (!pricing.ok) {
+    return pricing;
+  }
+
+  return {
+    ok: true,
+    court,
+    user: student.user,
+    parsedDate,
+    startTime: slotCheck.startTime,
+    endTime: slotCheck.endTime,
+    price: pricing.price,
+    discount: pricing.discount,
   };
-}> {
-  try {
-    if (!isValidObjectId(courtId)) {
-      return { success: false, message: "Invalid court ID", statusCode: 400 };
-    }
+}
 
-    if (!isValidObjectId(userId)) {
-      return { success: false, message: "Invalid user ID", statusCode: 400 };
+type PreparedSlot = Extract<PreparedReservation, { ok: true }>;
+
+function toCourtSlot(prepared: PreparedSlot) {
+  return {
+    courtId: prepared.court._id.toString(),
+    userId: prepared.user._id.toString(),
+    date: formatDateKey(prepared.parsedDate.utcDate),
+    utcDate: prepared.parsedDate.utcDate,
+    startTime: prepared.startTime,
+    endTime: prepared.endTime,
+  };
+}
+
+function insertCourtReservation(
+  prepared: PreparedSlot,
+  payment?: CourtPaymentWithId
+) {
+  const { court, user, parsedDate } = prepared;
+  return CourtReservationModel.create({
+    court: court._id,
+    user: user._id,
+    date: parsedDate.utcDate,
+    startTime: prepared.startTime,
+    endTime: prepared.endTime,
+    studentName: `${user.firstName} ${user.lastName}`,
+    studentGucId: user.studentId,
+    payment: payment?._id,
+  });
+}
+
+function toReservationData(
+  reservation: {
+    _id: Types.ObjectId;
+    court: unknown;
+    date: Date;
+    startTime: string;
+    endTime: string;
+    studentName: string;
+    studentGucId: string;
+  },
+  payment?: CourtPaymentWithId
+): ReservationData {
+  return {
+    reservation: {
+      id: reservation._id.toString(),
+      courtId: String(reservation.court),
+      date: formatDateKey(new Date(reservation.date)),
+      startTime: reservation.startTime,
+      endTime: reservation.endTime,
+      studentName: reservation.studentName,
+      studentGucId: reservation.studentGucId,
+      payment: payment ? toCourtPaymentSummary(payment) : undefined,
+    },
+  };
+}
+
+async function completeCourtBooking(
+  prepared: PreparedSlot,
+  reservationDoc: Awaited<ReturnType<typeof insertCourtReservation>>,
+  payment: CourtPaymentWithId | undefined,
+  message: string
+): Promise<ReservationResponse> {
+  const { user } = prepared;
+
+  if (payment) {
+    await linkCourtPaymentReservation(payment._id, reservationDoc._id);
+    await sendCourtPaymentReceipt(payment, prepared.court);
+  }
+
+  user.reservedCourts = user.reservedCourts ?? [];
+  user.reservedCourts.push(reservationDoc._id.toString());
+  await user.save();
+
+  return {
+    success: true,
+    message,
+    statusCode: 201,
+    data: toReservationData(reservationDoc, payment),
+  };
+}
+
+/**
+ * Books a slot. Paid courts are charged to the student's wallet; students
+ * paying by card go through createCourtReservationPaymentIntent instead.
+ */
+export async function reserveCourtSlot(
+  courtId: string,
+  userId: string,
+  payload: ReservationPayload
+): Promise<ReservationResponse> {
+  try {
+    const prepared = await prepareCourtReservation(courtId, userId, payload);
+    if (!prepared.ok) {
+      return {
+        success: false,
+        message: prepared.message,
+        statusCode: prepared.statusCode,
+      };
     }
 
-    const parsedDate = parseDateInput(payload.date);
-    if (!parsedDate) {
+    const { court, user, price, discount } = prepared;
+    const currency = getCourtCurrency(court);
+    if (price > 0 && !isWalletCurrency(currency)) {
       return {
         success: false,
-        message: "Date must be in YYYY-MM-DD format",
+        message: `This court charges in ${currency}, so it can only be paid by card.`,
         statusCode: 400,
       };
     }
-
-    const slotStartMinutes = parseTimeToMinutes(payload.startTime);
-    if (slotStartMinutes === null) {
+    if (price > 0 && (user.balance ?? 0) < price) {
       return {
         success: false,
-        message: "startTime must use HH:mm",
+        message: `This slot costs ${price} ${currency}. Top up your wallet or pay by card.`,
         statusCode: 400,
       };
     }
 
-    const court = await CourtModel.findById(courtId);
-    if (!court) {
-      return { success: false, message: "Court not found", statusCode: 404 };
+    const reservationDoc = await insertCourtReservation(prepared);
+
+    let payment: CourtPaymentWithId | undefined;
+    if (price > 0 || discount) {
+      // Named after the reservation, so a booking that falls through gives the code back
+      const redemption = discount
+        ? {
+            discount: toPaymentDiscount(discount),
+            reference: `court:${reservationDoc._id.toString()}`,
+          }
+        : undefined;
+      if (redemption) {
+        const hold = await redeemDiscountRedemption(
+          redemption.discount,
+          userId,
+          redemption.reference
+        );
+        if (!hold.success) {
+          await reservationDoc.deleteOne();
+          return {
+            success: false,
+            message: hold.message,
+            statusCode: hold.statusCode ?? 400,
+          };
+        }
+      }
+
+      try {
+        payment = await payCourtSlotFromWallet(
+          toCourtSlot(prepared),
+          court,
+          price,
+          redemption
+        );
+      } catch (error) {
+        await reservationDoc.deleteOne();
+        if (redemption) {
+          await releaseDiscountRedemption(redemption.reference);
+        }
+        if (error instanceof InsufficientWalletBalanceError) {
+          return {
+            success: false,
+            message: "Your wallet balance changed while booking. Please try again.",
+            statusCode: 409,
+          };
+        }
+        throw error;
+      }
+      reservationDoc.payment = payment._id;
+      await reservationDoc.save();
     }
 
-    const user = await UserModel.findById(userId);
-    if (!user || user.role !== userRole.STUDENT) {
+    return await completeCourtBooking(
+      prepared,
+      reservationDoc,
+      payment,
+      !payment
+        ? "Court reserved successfully"
+        : discount
+          ? `Court reserved with ${discount.discountRate}% off. ${price} ${currency} was paid from your wallet.`
+          : `Court reserved. ${price} ${currency} was paid from your wallet.`
+    );
+  } catch (error) {
+    console.error("Error reserving court:", error);
+    return {
+      success: false,
+      message: "Failed to reserve court",
+      statusCode: 500,
+    };
+  }
+}
+
+/** Starts a card payment for a paid slot once the slot and quota check out. */
+export async function createCourtReservationPaymentIntent(
+  courtId: string,
+  userId: string,
+  payload: ReservationPayload
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: {
+    clientSecret: string;
+    paymentIntentId: string;
+    amount: number;
+    currency: string;
+  };
+}> {
+  try {
+    if (!isCourtCardPaymentAvailable()) {
       return {
         success: false,
-        message: "Only verified students can reserve courts",
-        statusCode: 403,
+        message: "Stripe is not configured.",
+        statusCode: 500,
       };
     }
 
-    if (!user.studentId) {
+    const prepared = await prepareCourtReservation(courtId, userId, payload);
+    if (!prepared.ok) {
       return {
         success: false,
-        message: "Student record is missing a GUC ID",
-        statusCode: 400,
+        message: prepared.message,
+        statusCode: prepared.statusCode,
       };
     }
 
-    if (isDateWithinExceptions(parsedDate.utcDate, court.exceptions)) {
+    if (prepared.price <= 0) {
       return {
         success: false,
-        message: "Court unavailable on this date",
-        statusCode: 409,
+        message: prepared.discount
+          ? "Your promo code covers the full price; book the slot without a card."
+          : "This court is free to book and does not need a card payment.",
+        statusCode: 400,
       };
     }
 
-    const windows = (court.openingHours ?? []).filter(
-      (window: IOpeningHour) => window.weekday === parsedDate.weekday
+    const currency = getCourtCurrency(prepared.court);
+    const paymentIntent = await createCourtCardIntent(
+      toCourtSlot(prepared),
+      prepared.price,
+      currency,
+      prepared.discount
     );
 
-    if (windows.length === 0) {
+    if (!paymentIntent.client_secret) {
       return {
         success: false,
-        message: "Court is closed on the selected date",
-        statusCode: 409,
+        message: "Failed to create Stripe payment intent.",
+        statusCode: 500,
       };
     }
 
-    const bookingMinutes = court.bookingSlotMinutes ?? DEFAULT_SLOT_MINUTES;
-    const bufferMinutes = court.bufferMinutes ?? 0;
-
-    const slotEndMinutes = payload.endTime
-      ? parseTimeToMinutes(payload.endTime)
-      : slotStartMinutes + bookingMinutes;
+    // Held until the card is charged, so two open checkouts cannot both take the last use
+    if (prepared.discount) {
+      const hold = await reserveDiscountRedemption(
+        toPaymentDiscount(prepared.discount),
+        userId,
+        paymentIntent.id
+      );
+      if (!hold.success) {
+        await cancelCourtCardIntent(paymentIntent.id);
+        return {
+          success: false,
+          message: hold.message,
+          statusCode: 400,
+        };
+      }
+    }
 
-    if (slotEndMinutes === null) {
-      return {
-        success: false,
-        message: "endTime must use HH:mm",
-        statusCode: 400,
+    return {
+      success: true,
+      message: "Stripe payment intent created.",
+      statusCode: 200,
+      data: {
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        amount: prepared.price,
+        currency,
+      },
+    };
+  } catch (error) {
+    console.error("Error creating court payment intent:", error);
+    return {
+      success: false,
+      message: "Failed to initiate card payment",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function finalizeCourtReservationPayment(
+  courtId: string,
+  userId: string,
+  paymentIntentId: string
+): Promise<ReservationResponse> {
+  try {
+    if (!isCourtCardPaymentAvailable()) {
+      return {
+        success: false,
+        message: "Stripe is not configured.",
+        statusCode: 500,
       };
     }
 
-    if (slotEndMinutes - slotStartMinutes !== bookingMinutes) {
+    const paymentIntent = await retrieveCourtPaymentIntent(paymentIntentId);
+    if (
+      !isCourtPaymentIntent(paymentIntent) ||
+      paymentIntent.metadata?.courtId !== courtId ||
+      paymentIntent.metadata?.userId !== userId
+    ) {
       return {
         success: false,
-        message: `Slot length must equal ${bookingMinutes} minutes`,
+        message: "Payment intent does not match this court booking.",
         statusCode: 400,
       };
     }
 
-    const slotWithinWindow = windows.some((window: IOpeningHour) => {
-      const windowStart = parseTimeToMinutes(window.startTime) ?? -1;
-      const windowEnd = parseTimeToMinutes(window.endTime) ?? -1;
-      return slotStartMinutes >= windowStart && slotEndMinutes <= windowEnd;
+    return await applyCourtPaymentIntent(paymentIntent);
+  } catch (error) {
+    console.error("Error finalizing court payment:", error);
+    return {
+      success: false,
+      message: "Failed to confirm card payment",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Books the slot for a succeeded court intent reported by the Stripe webhook,
+ * so a closed tab still ends with a reservation or a refund.
+ */
+export async function reconcileCourtPaymentIntent(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<ReservationResponse> {
+  try {
+    const result = await applyCourtPaymentIntent(paymentIntent);
+    // A refunded payment is settled; retrying the delivery would not book it
+    if (result.refunded) {
+      return { success: true, message: result.message, statusCode: 200 };
+    }
+    return result;
+  } catch (error) {
+    console.error("Error reconciling court payment:", error);
+    return {
+      success: false,
+      message: "Failed to reconcile court payment",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Cancels the reservation behind a court payment that was refunded in full
+ * from the Stripe dashboard, so the slot does not stay booked as Paid.
+ */
+export async function reconcileCourtChargeRefund(
+  charge: Stripe.Charge
+): Promise<{ success: boolean; message: string; statusCode?: number }> {
+  try {
+    const recorded = await recordCourtChargeRefund(charge);
+    if (!recorded.success || !recorded.data?.released) {
+      return recorded;
+    }
+
+    const { payment } = recorded.data;
+    const reservation = payment.reservationId
+      ? await CourtReservationModel.findById(payment.reservationId).populate(
+          "court",
+          "type venue timezone"
+        )
+      : null;
+    if (!reservation) {
+      return { success: true, message: recorded.message, statusCode: 200 };
+    }
+
+    const userId = reservation.user.toString();
+    await reservation.deleteOne();
+    await UserModel.updateOne(
+      { _id: userId },
+      { $pull: { reservedCourts: reservation._id.toString() } }
+    );
+    await recordCourtCancellation(
+      reservation.toObject() as CancellableReservation,
+      userId
+    );
+    await notifyUsers([userId], {
+      type: NotificationType.COURT,
+      message: `Your court booking on ${describeCourtSlot(payment)} was cancelled after your card payment was refunded.`,
+      entity: {
+        kind: NotificationEntityKind.COURT_RESERVATION,
+        id: reservation._id.toString(),
+      },
+      link: "/user/gym",
     });
 
-    if (!slotWithinWindow) {
+    return {
+      success: true,
+      message: "Court reservation cancelled after a card refund.",
+      statusCode: 200,
+    };
+  } catch (error) {
+    console.error("Error reconciling court refund:", error);
+    return {
+      success: false,
+      message: "Failed to reconcile court refund",
+      statusCode: 500,
+    };
+  }
+}
+
+async function describeRecordedCourtPayment(
+  payment: CourtPaymentWithId
+): Promise<ReservationResponse> {
+  if (!payment.reservationId && payment.status === "Paid") {
+    return {
+      success: false,
+      message: "This payment is still being recorded.",
+      statusCode: 409,
+    };
+  }
+
+  const reservation = payment.reservationId
+    ? await CourtReservationModel.findById(payment.reservationId).lean<{
+        _id: Types.ObjectId;
+        court: Types.ObjectId;
+        date: Date;
+        startTime: string;
+        endTime: string;
+        studentName: string;
+        studentGucId: string;
+      } | null>()
+    : null;
+
+  return {
+    success: true,
+    message: "Payment already recorded.",
+    statusCode: 200,
+    data: reservation ? toReservationData(reservation, payment) : undefined,
+  };
+}
+
+// Shared by the browser callback and the webhook; whichever runs second finds the payment
+async function applyCourtPaymentIntent(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<ReservationResponse> {
+  if (paymentIntent.status !== "succeeded") {
+    return {
+      success: false,
+      message: "Stripe payment has not completed.",
+      statusCode: 400,
+    };
+  }
+
+  const existing = await findCourtPaymentByIntent(paymentIntent.id);
+  if (existing) {
+    return describeRecordedCourtPayment(existing);
+  }
+
+  // The promo code was priced and held when the intent was created; it is not resolved again
+  const metadata = paymentIntent.metadata ?? {};
+  const prepared = await prepareCourtReservation(
+    metadata.courtId ?? "",
+    metadata.userId ?? "",
+    {
+      date: metadata.date ?? "",
+      startTime: metadata.startTime ?? "",
+      endTime: metadata.endTime,
+    }
+  );
+  if (!prepared.ok) {
+    // The other callback may have booked this very slot a moment ago
+    const recorded = await findCourtPaymentByIntent(paymentIntent.id);
+    if (recorded) {
+      return describeRecordedCourtPayment(recorded);
+    }
+    await refundUnbookedCourtIntent(paymentIntent.id);
+    await releaseDiscountRedemption(paymentIntent.id);
+    return {
+      success: false,
+      message: `${prepared.message}. Your card payment was refunded.`,
+      statusCode: prepared.statusCode,
+      refunded: true,
+    };
+  }
+
+  // A hold that lapsed while the card was open is checked against the limits again
+  const discount = discountFromMetadata(metadata);
+  if (discount) {
+    const hold = await redeemDiscountRedemption(
+      discount,
+      prepared.user._id.toString(),
+      paymentIntent.id
+    );
+    if (!hold.success) {
+      if ((hold.statusCode ?? 500) >= 500) {
+        return {
+          success: false,
+          message: hold.message,
+          statusCode: hold.statusCode ?? 500,
+        };
+      }
+      await refundUnbookedCourtIntent(paymentIntent.id);
       return {
         success: false,
-        message: "Requested time falls outside opening hours",
+        message: `${hold.message} Your card payment was refunded.`,
         statusCode: 400,
+        refunded: true,
       };
     }
+  }
 
-    const sameDayReservations = (await CourtReservationModel.find({
-      court: court._id,
-      date: { $gte: parsedDate.utcDate, $lt: parsedDate.nextUtcDate },
-    })
-      .select("startTime endTime")
-      .lean()) as unknown as Array<{ startTime: string; endTime: string }>;
+  let payment: CourtPaymentWithId;
+  try {
+    payment = await recordCourtCardPayment(toCourtSlot(prepared), paymentIntent);
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      const recorded = await findCourtPaymentByIntent(paymentIntent.id);
+      if (recorded) {
+        return describeRecordedCourtPayment(recorded);
+      }
+    }
+    throw error;
+  }
 
-    const generatedSlots = buildSlots(
-      windows,
-      bookingMinutes,
-      bufferMinutes,
-      sameDayReservations
-    );
+  let reservationDoc: Awaited<ReturnType<typeof insertCourtReservation>>;
+  try {
+    reservationDoc = await insertCourtReservation(prepared, payment);
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      await discardCourtPayment(payment);
+      return {
+        success: false,
+        message:
+          "Someone booked this slot while you were paying. Your card payment was refunded.",
+        statusCode: 409,
+        refunded: true,
+      };
+    }
+    throw error;
+  }
+
+  return completeCourtBooking(
+    prepared,
+    reservationDoc,
+    payment,
+    "Court reserved and paid successfully"
+  );
+}
+
+type RecurringPlan =
+  | {
+      ok: true;
+      court: SlotSource &
+        Pick<ICourt, "venue" | "pricePerHour" | "currency"> & {
+          _id: Types.ObjectId;
+        };
+      user: ReservingStudent;
+      dates: ParsedDate[];
+      occurrences: RecurringOccurrence[];
+      price: number; // per occurrence, after the promo code
+      discount?: AppliedDiscount; // one redemption covers the whole series
+    }
+  | { ok: false; message: string; statusCode: number };
 
-    const formattedStart = minutesToTime(slotStartMinutes);
-    const formattedEnd = minutesToTime(slotEndMinutes);
-    const matchingSlot = generatedSlots.find(
-      (slot) =>
-        slot.startTime === formattedStart && slot.endTime === formattedEnd
+async function planRecurringReservation(
+  courtId: string,
+  userId: string,
+  payload: RecurringReservationPayload
+): Promise<RecurringPlan> {
+  if (!isValidObjectId(courtId)) {
+    return { ok: false, message: "Invalid court ID", statusCode: 400 };
+  }
+
+  if (!isValidObjectId(userId)) {
+    return { ok: false, message: "Invalid user ID", statusCode: 400 };
+  }
+
+  const slotStartMinutes = parseTimeToMinutes(payload.startTime);
+  if (slotStartMinutes === null) {
+    return { ok: false, message: "startTime must use HH:mm", statusCode: 400 };
+  }
+
+  const schedule = buildWeeklyDates(payload);
+  if (!schedule.ok) {
+    return { ok: false, message: schedule.message, statusCode: 400 };
+  }
+
+  const court = await CourtModel.findById(courtId);
+  if (!court) {
+    return { ok: false, message: "Court not found", statusCode: 404 };
+  }
+
+  const student = await loadReservingStudent(userId);
+  if (!student.ok) {
+    return student;
+  }
+
+  const bookingMinutes = court.bookingSlotMinutes ?? DEFAULT_SLOT_MINUTES;
+  const slotEndMinutes = payload.endTime
+    ? parseTimeToMinutes(payload.endTime)
+    : slotStartMinutes + bookingMinutes;
+
+  if (slotEndMinutes === null) {
+    return { ok: false, message: "endTime must use HH:mm", statusCode: 400 };
+  }
+
+  const occurrences: RecurringOccurrence[] = [];
+  for (const date of schedule.dates) {
+    const slotCheck = await checkCourtSlot(
+      court,
+      date,
+      slotStartMinutes,
+      slotEndMinutes
     );
+    const check = slotCheck.ok
+      ? await checkWeeklyQuota(userId, court.type, date.utcDate)
+      : slotCheck;
+    occurrences.push({
+      date: formatDateKey(date.utcDate),
+      startTime: minutesToTime(slotStartMinutes),
+      endTime: minutesToTime(slotEndMinutes),
+      isAvailable: check.ok,
+      reason: check.ok ? undefined : check.message,
+    });
+  }
+
+  const pricing = await priceWithPromoCode(
+    userId,
+    calculateCourtPrice(court.pricePerHour, slotEndMinutes - slotStartMinutes),
+    payload.promoCode
+  );
+  if (!pricing.ok) {
+    return pricing;
+  }
+
+  return {
+    ok: true,
+    court,
+    user: student.user,
+    dates: schedule.dates,
+    occurrences,
+    price: pricing.price,
+    discount: pricing.discount,
+  };
+}
+
+export async function previewRecurringCourtReservation(
+  courtId: string,
+  userId: string,
+  payload: RecurringReservationPayload
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: {
+    courtId: string;
+    occurrences: RecurringOccurrence[];
+    availableCount: number;
+    conflictCount: number;
+    pricePerOccurrence: number;
+    currency: string;
+  };
+}> {
+  try {
+    const plan = await planRecurringReservation(courtId, userId, payload);
+    if (!plan.ok) {
+      return {
+        success: false,
+        message: plan.message,
+        statusCode: plan.statusCode,
+      };
+    }
+
+    const availableCount = plan.occurrences.filter(
+      (occurrence) => occurrence.isAvailable
+    ).length;
+
+    return {
+      success: true,
+      message:
+        availableCount === plan.occurrences.length
+          ? "All requested dates are available"
+          : `${plan.occurrences.length - availableCount} of ${plan.occurrences.length} dates have conflicts`,
+      statusCode: 200,
+      data: {
+        courtId,
+        occurrences: plan.occurrences,
+        availableCount,
+        conflictCount: plan.occurrences.length - availableCount,
+        pricePerOccurrence: plan.price,
+        currency: getCourtCurrency(plan.court),
+      },
+    };
+  } catch (error) {
+    console.error("Error previewing recurring court reservation:", error);
+    return {
+      success: false,
+      message: "Failed to preview recurring reservation",
+      statusCode: 500,
+    };
+  }
+}
 
-    if (!matchingSlot) {
+export async function reserveRecurringCourtSlots(
+  courtId: string,
+  userId: string,
+  payload: RecurringReservationPayload
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: {
+    seriesId: string;
+    reservations: Array<{
+      id: string;
+      courtId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+    }>;
+    skipped: RecurringOccurrence[];
+    amountCharged: number;
+    currency: string;
+  };
+}> {
+  try {
+    const plan = await planRecurringReservation(courtId, userId, payload);
+    if (!plan.ok) {
+      return {
+        success: false,
+        message: plan.message,
+        statusCode: plan.statusCode,
+      };
+    }
+
+    const { court, user, price, discount } = plan;
+    const currency = getCourtCurrency(court);
+
+    // Series on paid courts are charged per occurrence from the wallet only
+    if (price > 0 && !isWalletCurrency(currency)) {
       return {
         success: false,
-        message: "Requested time does not match any available slot",
+        message: `This court charges in ${currency}, so weekly series cannot be paid from the wallet.`,
         statusCode: 400,
       };
     }
+    if (price > 0) {
+      const availableCount = plan.occurrences.filter(
+        (occurrence) => occurrence.isAvailable
+      ).length;
+      const total = price * availableCount;
+      if ((user.balance ?? 0) < total) {
+        return {
+          success: false,
+          message: `These ${availableCount} slots cost ${total} ${currency}. Top up your wallet before booking the series.`,
+          statusCode: 400,
+        };
+      }
+    }
+
+    const seriesId = new Types.ObjectId().toString();
+    const redemption = discount
+      ? { discount: toPaymentDiscount(discount), reference: `court-series:${seriesId}` }
+      : undefined;
+    if (redemption) {
+      const hold = await redeemDiscountRedemption(
+        redemption.discount,
+        userId,
+        redemption.reference
+      );
+      if (!hold.success) {
+        return {
+          success: false,
+          message: hold.message,
+          statusCode: hold.statusCode ?? 400,
+        };
+      }
+    }
 
-    if (!matchingSlot.isAvailable) {
+    const reservations: Array<{
+      id: string;
+      courtId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+    }> = [];
+    const skipped: RecurringOccurrence[] = [];
+    let amountCharged = 0;
+
+    for (let index = 0; index < plan.occurrences.length; index += 1) {
+      const occurrence = plan.occurrences[index];
+      if (!occurrence.isAvailable) {
+        skipped.push(occurrence);
+        continue;
+      }
+
+      try {
+        const reservationDoc = await CourtReservationModel.create({
+          court: court._id,
+          user: user._id,
+          date: plan.dates[index].utcDate,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          studentName: `${user.firstName} ${user.lastName}`,
+          studentGucId: user.studentId,
+          seriesId,
+        });
+
+        if (price > 0 || redemption) {
+          try {
+            const payment = await payCourtSlotFromWallet(
+              {
+                courtId: court._id.toString(),
+                userId: user._id.toString(),
+                date: occurrence.date,
+                utcDate: plan.dates[index].utcDate,
+                startTime: occurrence.startTime,
+                endTime: occurrence.endTime,
+              },
+              court,
+              price,
+              redemption
+            );
+            reservationDoc.payment = payment._id;
+            await reservationDoc.save();
+            await linkCourtPaymentReservation(payment._id, reservationDoc._id);
+            amountCharged += price;
+          } catch (error) {
+            await reservationDoc.deleteOne();
+            if (error instanceof InsufficientWalletBalanceError) {
+              skipped.push({
+                ...occurrence,
+                isAvailable: false,
+                reason: "Insufficient wallet balance",
+              });
+              continue;
+            }
+            throw error;
+          }
+        }
+
+        reservations.push({
+          id: reservationDoc._id.toString(),
+          courtId: court._id.toString(),
+          date: occurrence.date,
+          startTime: reservationDoc.startTime,
+          endTime: reservationDoc.endTime,
+        });
+      } catch (error) {
+        // Someone else took the slot between the preview and the insert.
+        if ((error as { code?: number })?.code === 11000) {
+          skipped.push({
+            ...occurrence,
+            isAvailable: false,
+            reason: "Selected slot is already reserved",
+          });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (reservations.length === 0) {
+      if (redemption) {
+        await releaseDiscountRedemption(redemption.reference);
+      }
       return {
         success: false,
-        message: "Selected slot is already reserved",
+        message: "None of the requested dates are available",
         statusCode: 409,
       };
     }
 
-    const reservationDoc = await CourtReservationModel.create({
-      court: court._id,
-      user: user._id,
-      date: parsedDate.utcDate,
-      startTime: formattedStart,
-      endTime: formattedEnd,
-      studentName: `${user.firstName} ${user.lastName}`,
-      studentGucId: user.studentId,
-    });
-
     user.reservedCourts = user.reservedCourts ?? [];
-    user.reservedCourts.push(reservationDoc._id.toString());
+    user.reservedCourts.push(...reservations.map((reservation) => reservation.id));
     await user.save();
 
+    const summary =
+      skipped.length === 0
+        ? `Reserved ${reservations.length} weekly slots`
+        : `Reserved ${reservations.length} weekly slots, skipped ${skipped.length} with conflicts`;
+
+    const paid = discount
+      ? `${summary} with ${discount.discountRate}% off`
+      : summary;
+
     return {
       success: true,
-      message: "Court reserved successfully",
+      message:
+        amountCharged > 0
+          ? `${paid}. ${amountCharged} ${currency} was paid from your wallet.`
+          : paid,
       statusCode: 201,
-      data: {
-        reservation: {
-          id: reservationDoc._id.toString(),
-          courtId: court._id.toString(),
-          date: payload.date,
-          startTime: reservationDoc.startTime,
-          endTime: reservationDoc.endTime,
-          studentName: reservationDoc.studentName,
-          studentGucId: reservationDoc.studentGucId,
+      data: { seriesId, reservations, skipped, amountCharged, currency },
+    };
+  } catch (error) {
+    console.error("Error reserving recurring court slots:", error);
+    return {
+      success: false,
+      message: "Failed to reserve recurring court slots",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getStudentCourtReservations(userId: string): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: Array<{
+    id: string;
+    courtId: string;
+    courtType?: string;
+    venue?: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+    seriesId?: string;
+    cancellableUntil: Date;
+    payment?: CourtPaymentSummary;
+  }>;
+}> {
+  try {
+    if (!isValidObjectId(userId)) {
+      return { success: false, message: "Invalid user ID", statusCode: 400 };
+    }
+
+    const reservations = (await CourtReservationModel.find({
+      user: userId,
+      date: { $gte: startOfTodayUtc() },
+    })
+      .sort({ date: 1, startTime: 1 })
+      .populate("court", "type venue timezone")
+      .populate("payment")
+      .lean()) as unknown as Array<{
+      _id: Types.ObjectId;
+      court: {
+        _id: Types.ObjectId;
+        type?: string;
+        venue?: string;
+        timezone?: string;
+      } | null;
+      date: Date;
+      startTime: string;
+      endTime: string;
+      seriesId?: string;
+      payment?: CourtPaymentWithId | null;
+    }>;
+
+    return {
+      success: true,
+      message:
+        reservations.length > 0
+          ? "Reservations loaded"
+          : "No upcoming reservations",
+      statusCode: 200,
+      data: reservations.map((reservation) => ({
+        id: reservation._id.toString(),
+        courtId: reservation.court?._id?.toString() ?? "",
+        courtType: reservation.court?.type,
+        venue: reservation.court?.venue,
+        date: formatDateKey(new Date(reservation.date)),
+        startTime: reservation.startTime,
+        endTime: reservation.endTime,
+        seriesId: reservation.seriesId,
+        cancellableUntil: cancellationDeadline(
+          reservation.date,
+          reservation.startTime,
+          reservation.court?.timezone
+        ),
+        payment: reservation.payment
+          ? toCourtPaymentSummary(reservation.payment)
+          : undefined,
+      })),
+    };
+  } catch (error) {
+    console.error("Error loading court reservations:", error);
+    return {
+      success: false,
+      message: "Failed to load court reservations",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function cancelCourtReservationSeries(
+  seriesId: string,
+  userId: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: { seriesId: string; cancelledCount: number };
+}> {
+  try {
+    if (!isValidObjectId(userId)) {
+      return { success: false, message: "Invalid user ID", statusCode: 400 };
+    }
+
+    const seriesReservations = (await CourtReservationModel.find({
+      seriesId,
+      user: userId,
+    })
+      .select("_id date startTime endTime court payment")
+      .populate("court", "type venue timezone")
+      .lean()) as unknown as CancellableReservation[];
+
+    if (seriesReservations.length === 0) {
+      return {
+        success: false,
+        message: "Reservation series not found",
+        statusCode: 404,
+      };
+    }
+
+    // Past occurrences and those inside the cancellation window stay booked.
+    const now = new Date();
+    const upcoming = seriesReservations.filter(
+      (reservation) =>
+        cancellationDeadline(
+          reservation.date,
+          reservation.startTime,
+          reservation.court?.timezone
+        ) > now
+    );
+
+    if (upcoming.length === 0) {
+      return {
+        success: false,
+        message: "No occurrences of this series can still be cancelled",
+        statusCode: 400,
+      };
+    }
+
+    // Occurrences whose refund fails stay booked so the student can retry
+    const cancelled: CancellableReservation[] = [];
+    let refundedAmount = 0;
+    let refundCurrency = "";
+    for (const reservation of upcoming) {
+      if (reservation.payment) {
+        const refund = await refundCourtPayment(reservation.payment.toString());
+        if (!refund.success) {
+          continue;
+        }
+        refundedAmount += refund.data?.refundAmount ?? 0;
+        refundCurrency = refund.data?.currency ?? refundCurrency;
+      }
+      cancelled.push(reservation);
+    }
+
+    if (cancelled.length === 0) {
+      return {
+        success: false,
+        message: "We couldn't refund these reservations right now. Please try again later.",
+        statusCode: 502,
+      };
+    }
+
+    const upcomingIds = cancelled.map((reservation) => reservation._id);
+
+    await CourtReservationModel.deleteMany({ _id: { $in: upcomingIds } });
+    await UserModel.updateOne(
+      { _id: userId },
+      {
+        $pull: {
+          reservedCourts: { $in: upcomingIds.map((id) => id.toString()) },
         },
+      }
+    );
+    await Promise.all(
+      cancelled.map((reservation) =>
+        recordCourtCancellation(reservation, userId)
+      )
+    );
+
+    let message = `Cancelled ${upcomingIds.length} upcoming reservations`;
+    if (refundedAmount > 0) {
+      message += ` and refunded ${refundedAmount} ${refundCurrency}`;
+    }
+    if (cancelled.length < upcoming.length) {
+      message += `; ${upcoming.length - cancelled.length} could not be refunded and stay booked`;
+    }
+
+    return {
+      success: true,
+      message,
+      statusCode: 200,
+      data: { seriesId, cancelledCount: upcomingIds.length },
+    };
+  } catch (error) {
+    console.error("Error cancelling reservation series:", error);
+    return {
+      success: false,
+      message: "Failed to cancel reservation series",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function cancelCourtReservation(
+  reservationId: string,
+  userId: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+}> {
+  try {
+    if (!isValidObjectId(reservationId)) {
+      return {
+        success: false,
+        message: "Invalid reservation ID",
+        statusCode: 400,
+      };
+    }
+
+    const reservation = await CourtReservationModel.findById(
+      reservationId
+    ).populate("court", "type venue timezone");
+    if (!reservation || reservation.user.toString() !== userId) {
+      return {
+        success: false,
+        message: "Reservation not found",
+        statusCode: 404,
+      };
+    }
+
+    const deadline = cancellationDeadline(
+      reservation.date,
+      reservation.startTime,
+      (reservation.court as { timezone?: string } | null)?.timezone
+    );
+    if (deadline <= new Date()) {
+      return {
+        success: false,
+        message: `Reservations can only be cancelled up to ${
+          CANCELLATION_CUTOFF_MS / (60 * 60 * 1000)
+        } hours before they start`,
+        statusCode: 400,
+      };
+    }
+
+    let refundLabel: string | undefined;
+    if (reservation.payment) {
+      const refund = await refundCourtPayment(reservation.payment.toString());
+      if (!refund.success) {
+        return {
+          success: false,
+          message: refund.message,
+          statusCode: refund.statusCode ?? 500,
+        };
+      }
+      if (refund.data) {
+        refundLabel = `${refund.data.refundAmount} ${refund.data.currency}`;
+      }
+    }
+
+    await reservation.deleteOne();
+    await UserModel.updateOne(
+      { _id: userId },
+      { $pull: { reservedCourts: reservationId } }
+    );
+    await recordCourtCancellation(
+      reservation.toObject() as CancellableReservation,
+      userId
+    );
+
+    return {
+      success: true,
+      message: refundLabel
+        ? `Reservation cancelled and ${refundLabel} refunded`
+        : "Reservation cancelled",
+      statusCode: 200,
+    };
+  } catch (error) {
+    console.error("Error cancelling court reservation:", error);
+    return {
+      success: false,
+      message: "Failed to cancel reservation",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getCourtReservationsForDate(
+  courtId: string,
+  date: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: Array<{
+    id: string;
+    userId: string;
+    studentName: string;
+    studentGucId: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+    seriesId?: string;
+    noShow: boolean;
+  }>;
+}> {
+  try {
+    if (!isValidObjectId(courtId)) {
+      return { success: false, message: "Invalid court ID", statusCode: 400 };
+    }
+
+    const parsedDate = parseDateInput(date);
+    if (!parsedDate) {
+      return {
+        success: false,
+        message: "Date must be in YYYY-MM-DD format",
+        statusCode: 400,
+      };
+    }
+
+    const reservations = (await CourtReservationModel.find({
+      court: courtId,
+      date: { $gte: parsedDate.utcDate, $lt: parsedDate.nextUtcDate },
+    })
+      .sort({ startTime: 1 })
+      .lean()) as unknown as Array<{
+      _id: Types.ObjectId;
+      user: Types.ObjectId;
+      studentName: string;
+      studentGucId: string;
+      date: Date;
+      startTime: string;
+      endTime: string;
+      seriesId?: string;
+      noShow?: boolean;
+    }>;
+
+    return {
+      success: true,
+      message:
+        reservations.length > 0
+          ? "Reservations loaded"
+          : "No reservations for this date",
+      statusCode: 200,
+      data: reservations.map((reservation) => ({
+        id: reservation._id.toString(),
+        userId: reservation.user.toString(),
+        studentName: reservation.studentName,
+        studentGucId: reservation.studentGucId,
+        date,
+        startTime: reservation.startTime,
+        endTime: reservation.endTime,
+        seriesId: reservation.seriesId,
+        noShow: Boolean(reservation.noShow),
+      })),
+    };
+  } catch (error) {
+    console.error("Error loading court reservations:", error);
+    return {
+      success: false,
+      message: "Failed to load court reservations",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Flags (or clears) a no-show. Reaching NO_SHOW_LIMIT no-shows within the
+ * rolling window suspends the student's court bookings for SUSPENSION_DAYS;
+ * clearing one lifts the suspension once the student is back under the limit.
+ */
+export async function markCourtReservationNoShow(
+  reservationId: string,
+  markedBy: string,
+  noShow: boolean
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: { noShow: boolean; suspendedUntil?: Date };
+}> {
+  try {
+    if (!isValidObjectId(reservationId)) {
+      return {
+        success: false,
+        message: "Invalid reservation ID",
+        statusCode: 400,
+      };
+    }
+
+    const reservation = await CourtReservationModel.findById(
+      reservationId
+    ).populate("court", "timezone");
+    if (!reservation) {
+      return {
+        success: false,
+        message: "Reservation not found",
+        statusCode: 404,
+      };
+    }
+
+    const startsAt = reservationStartsAt(
+      reservation.date,
+      reservation.startTime,
+      (reservation.court as { timezone?: string } | null)?.timezone
+    );
+    if (noShow && startsAt > new Date()) {
+      return {
+        success: false,
+        message: "A no-show can only be recorded after the slot starts",
+        statusCode: 400,
+      };
+    }
+
+    // Marking twice must not extend the suspension or notify the student again
+    if (Boolean(reservation.noShow) === noShow) {
+      return {
+        success: true,
+        message: noShow ? "No-show already recorded" : "No-show already cleared",
+        statusCode: 200,
+        data: { noShow },
+      };
+    }
+
+    reservation.noShow = noShow;
+    reservation.noShowMarkedBy = noShow ? markedBy : undefined;
+    reservation.noShowMarkedAt = noShow ? new Date() : undefined;
+    await reservation.save();
+
+    const windowStart = new Date(Date.now() - NO_SHOW_WINDOW_DAYS * ONE_DAY_MS);
+    const recentNoShows = await CourtReservationModel.countDocuments({
+      user: reservation.user,
+      noShow: true,
+      date: { $gte: windowStart },
+    });
+
+    if (!noShow) {
+      // A mistaken mark may be what tipped the student over the limit
+      if (recentNoShows < NO_SHOW_LIMIT) {
+        await UserModel.updateOne(
+          { _id: reservation.user },
+          { $unset: { courtSuspendedUntil: "" } }
+        );
+      }
+      return {
+        success: true,
+        message: "No-show cleared",
+        statusCode: 200,
+        data: { noShow: false },
+      };
+    }
+
+    if (recentNoShows < NO_SHOW_LIMIT) {
+      return {
+        success: true,
+        message: "No-show recorded",
+        statusCode: 200,
+        data: { noShow: true },
+      };
+    }
+
+    const suspendedUntil = new Date(Date.now() + SUSPENSION_DAYS * ONE_DAY_MS);
+    await UserModel.updateOne(
+      { _id: reservation.user },
+      { $set: { courtSuspendedUntil: suspendedUntil } }
+    );
+    await notifyUsers([reservation.user.toString()], {
+      type: NotificationType.COURT,
+      message: `You missed ${recentNoShows} court reservations in the last ${NO_SHOW_WINDOW_DAYS} days. Court booking is suspended until ${formatDate(suspendedUntil)}.`,
+      entity: {
+        kind: NotificationEntityKind.COURT_RESERVATION,
+        id: String(reservation._id),
       },
+      link: "/user/gym",
+    });
+
+    return {
+      success: true,
+      message: "No-show recorded and student suspended from court booking",
+      statusCode: 200,
+      data: { noShow: true, suspendedUntil },
     };
   } catch (error) {
-    console.error("Error reserving court:", error);
+    console.error("Error recording court no-show:", error);
     return {
       success: false,
-      message: "Failed to reserve court",
+      message: "Failed to update no-show status",
       statusCode: 500,
     };
   }
@@ -0,0 +1,1171 @@
+import { Types } from "mongoose";
+import { z } from "zod";
+import CouponModel, { ICoupon } from "../models/Coupon";
+import DiscountCounterModel, { IDiscountCounter } from "../models/DiscountCounter";
+import DiscountRedemptionModel, {
+  DiscountRedemptionStatus,
+  IDiscountRedemption,
+} from "../models/DiscountRedemption";
+import EventModel, { EventType, IEvent } from "../models/Event";
+import UserPaymentModel, {
+  DiscountSource,
+  IPaymentDiscount,
+} from "../models/UserPayment";
+import vendorModel, { IVendor, LoyaltyProgramDetails } from "../models/Vendor";
+import { formatDate } from "../../lib/date";
+
+// How long a loyalty code keeps working after the vendor leaves the program
+export const LOYALTY_CODE_GRACE_DAYS = Number(
+  process.env.LOYALTY_CODE_GRACE_DAYS ?? 7
+);
+// How long a card checkout holds its promo code before an unpaid intent gives it back
+export const DISCOUNT_RESERVATION_MINUTES = Number(
+  process.env.DISCOUNT_RESERVATION_MINUTES ?? 60
+);
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_REDEMPTIONS_LIMIT = 20;
+const RESERVATION_CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type DiscountRules = {
+  discountRate: number;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
+};
+
+export type DiscountContext = {
+  userId: string;
+  amount: number;
+  eventType?: EventType; // unset for court bookings
+};
+
+export type AppliedDiscount = {
+  code: string;
+  source: DiscountSource;
+  vendorId?: string;
+  couponId?: string;
+  label: string;
+  discountRate: number;
+  originalAmount: number;
+  amount: number;
+  finalAmount: number;
+};
+
+export type CouponSummary = {
+  id: string;
+  code: string;
+  description?: string;
+  discountRate: number;
+  eventTypes: EventType[];
+  validFrom?: Date;
+  validUntil?: Date;
+  maxRedemptions?: number;
+  perUserLimit?: number;
+  active: boolean;
+  redemptions: number;
+  discountGiven: number;
+  createdAt?: Date;
+};
+
+export type VendorRedemptionReport = {
+  promoCode?: string;
+  maxRedemptions?: number;
+  remainingRedemptions?: number;
+  codeExpiresAt?: Date;
+  totals: {
+    redemptions: number;
+    refunded: number;
+    discountGiven: number;
+    sales: number;
+  };
+  byEvent: Array<{
+    eventId: string;
+    eventName: string;
+    eventType?: EventType;
+    redemptions: number;
+    discountGiven: number;
+    sales: number;
+    lastRedeemedAt?: Date;
+  }>;
+  recent: Array<{
+    id: string;
+    eventId: string;
+    eventName: string;
+    originalAmount: number;
+    discountAmount: number;
+    paidAmount: number;
+    status: string;
+    redeemedAt: Date;
+  }>;
+};
+
+type CouponWithId = ICoupon & { _id: Types.ObjectId };
+type VendorWithId = IVendor & { _id: Types.ObjectId };
+
+type RedemptionCounter = {
+  counterKey: string;
+  paidFilter: Record<string, unknown>;
+};
+
+type RedemptionHold = { status: DiscountRedemptionStatus };
+
+function isDuplicateKeyError(error: unknown) {
+  return (
+    Boolean(error) &&
+    typeof error === "object" &&
+    (error as { code?: unknown }).code === 11000
+  );
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function normalizeDiscountCode(value: string): string {
+  return value.trim().replace(/\s+/g, "-").toUpperCase();
+}
+
+export function calculateDiscount(originalAmount: number, discountRate: number) {
+  const base = Math.max(originalAmount, 0);
+  const rate = Math.min(Math.max(discountRate, 0), 100);
+  const amount = roundMoney((base * rate) / 100);
+  return { amount, finalAmount: roundMoney(base - amount) };
+}
+
+/** Returns why the code cannot be used at `now`, or null when it can. */
+export function checkRedemptionWindow(
+  rules: Pick<DiscountRules, "validFrom" | "validUntil">,
+  now: Date = new Date()
+): string | null {
+  if (rules.validFrom && now < new Date(rules.validFrom)) {
+    return `This promo code is valid from ${formatDate(rules.validFrom)}.`;
+  }
+  if (rules.validUntil && now > new Date(rules.validUntil)) {
+    return `This promo code expired on ${formatDate(rules.validUntil)}.`;
+  }
+  return null;
+}
+
+export function checkRedemptionLimits(
+  rules: Pick<DiscountRules, "maxRedemptions" | "perUserLimit">,
+  counts: { total: number; byUser: number }
+): string | null {
+  if (rules.maxRedemptions && counts.total >= rules.maxRedemptions) {
+    return "This promo code has reached its redemption limit.";
+  }
+  if (rules.perUserLimit && counts.byUser >= rules.perUserLimit) {
+    return rules.perUserLimit === 1
+      ? "You have already used this promo code."
+      : `You can use this promo code at most ${rules.perUserLimit} times.`;
+  }
+  return null;
+}
+
+export function loyaltyCodeExpiresAt(
+  program: Pick<LoyaltyProgramDetails, "status" | "cancelledAt" | "codeExpiresAt">
+): Date | undefined {
+  if (program.status !== "cancelled") {
+    return undefined;
+  }
+  if (program.codeExpiresAt) {
+    return new Date(program.codeExpiresAt);
+  }
+  const cancelledAt = program.cancelledAt ? new Date(program.cancelledAt) : new Date(0);
+  return new Date(cancelledAt.getTime() + LOYALTY_CODE_GRACE_DAYS * DAY_MS);
+}
+
+export function toPaymentDiscount(discount: AppliedDiscount): IPaymentDiscount {
+  return {
+    code: discount.code,
+    source: discount.source,
+    vendorId: discount.vendorId ? new Types.ObjectId(discount.vendorId) : undefined,
+    couponId: discount.couponId ? new Types.ObjectId(discount.couponId) : undefined,
+    discountRate: discount.discountRate,
+    amount: discount.amount,
+    originalAmount: discount.originalAmount,
+  };
+}
+
+// Stripe metadata only holds strings; the snapshot travels with the intent
+export function discountToMetadata(discount: AppliedDiscount): Record<string, string> {
+  return {
+    discountCode: discount.code,
+    discountSource: discount.source,
+    discountRefId: discount.vendorId ?? discount.couponId ?? "",
+    discountRate: String(discount.discountRate),
+    discountAmount: String(discount.amount),
+    originalAmount: String(discount.originalAmount),
+  };
+}
+
+export function discountFromMetadata(
+  metadata: Record<string, string> | null | undefined
+): IPaymentDiscount | undefined {
+  if (!metadata?.discountCode) {
+    return undefined;
+  }
+  const source = metadata.discountSource as DiscountSource;
+  if (!Object.values(DiscountSource).includes(source)) {
+    return undefined;
+  }
+  const refId = Types.ObjectId.isValid(metadata.discountRefId ?? "")
+    ? new Types.ObjectId(metadata.discountRefId)
+    : undefined;
+  return {
+    code: metadata.discountCode,
+    source,
+    vendorId: source === DiscountSource.LOYALTY ? refId : undefined,
+    couponId: source === DiscountSource.COUPON ? refId : undefined,
+    discountRate: Number(metadata.discountRate) || 0,
+    amount: Number(metadata.discountAmount) || 0,
+    originalAmount: Number(metadata.originalAmount) || 0,
+  };
+}
+
+function couponCounter(couponId: Types.ObjectId): RedemptionCounter {
+  return {
+    counterKey: `coupon:${couponId.toString()}`,
+    paidFilter: { "discount.couponId": couponId },
+  };
+}
+
+// Keyed by code too, so a vendor that changes its code starts a fresh count
+function loyaltyCounter(vendorId: Types.ObjectId, code: string): RedemptionCounter {
+  return {
+    counterKey: `loyalty:${vendorId.toString()}:${code}`,
+    paidFilter: { "discount.vendorId": vendorId, "discount.code": code },
+  };
+}
+
+// Codes redeemed before counters existed start from their Paid payments
+function countPaidRedemptions(
+  counter: RedemptionCounter,
+  userId: Types.ObjectId | null
+) {
+  return UserPaymentModel.countDocuments({
+    ...counter.paidFilter,
+    status: "Paid",
+    ...(userId ? { userId } : {}),
+  });
+}
+
+async function countRedemptions(counter: RedemptionCounter, userId: string) {
+  const userObjectId = new Types.ObjectId(userId);
+  const [totalRow, userRow] = await Promise.all([
+    DiscountCounterModel.findOne({
+      counterKey: counter.counterKey,
+      userId: null,
+    }).lean<IDiscountCounter | null>(),
+    DiscountCounterModel.findOne({
+      counterKey: counter.counterKey,
+      userId: userObjectId,
+    }).lean<IDiscountCounter | null>(),
+  ]);
+  const [total, byUser] = await Promise.all([
+    totalRow ? totalRow.count : countPaidRedemptions(counter, null),
+    userRow ? userRow.count : countPaidRedemptions(counter, userObjectId),
+  ]);
+  return { total, byUser };
+}
+
+/** Takes one redemption from the counter unless it already reached `limit`. */
+async function takeRedemption(
+  counter: RedemptionCounter,
+  userId: Types.ObjectId | null,
+  limit?: number | null
+) {
+  const filter = { counterKey: counter.counterKey, userId };
+  if (!(await DiscountCounterModel.exists(filter))) {
+    const paid = await countPaidRedemptions(counter, userId);
+    try {
+      await DiscountCounterModel.updateOne(
+        filter,
+        { $setOnInsert: { count: paid } },
+        { upsert: true }
+      );
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  const taken = await DiscountCounterModel.findOneAndUpdate(
+    limit ? { ...filter, count: { $lt: limit } } : filter,
+    { $inc: { count: 1 } }
+  ).lean<IDiscountCounter | null>();
+  return Boolean(taken);
+}
+
+async function giveBackRedemption(
+  counterKey: string,
+  userIds: Array<Types.ObjectId | null>
+) {
+  await DiscountCounterModel.updateMany(
+    { counterKey, userId: { $in: userIds }, count: { $gt: 0 } },
+    { $inc: { count: -1 } }
+  );
+}
+
+// Limits are read again at hold time; a code edited since checkout uses its new limits
+async function loadRedemptionLimits(discount: IPaymentDiscount): Promise<{
+  counter: RedemptionCounter;
+  rules: Pick<DiscountRules, "maxRedemptions" | "perUserLimit">;
+}> {
+  if (discount.source === DiscountSource.COUPON && discount.couponId) {
+    const coupon = await CouponModel.findById(discount.couponId)
+      .select("maxRedemptions perUserLimit")
+      .lean<CouponWithId | null>();
+    return { counter: couponCounter(discount.couponId), rules: coupon ?? {} };
+  }
+  if (discount.source === DiscountSource.LOYALTY && discount.vendorId) {
+    const vendor = await vendorModel
+      .findById(discount.vendorId)
+      .select("loyaltyProgram")
+      .lean<VendorWithId | null>();
+    const program =
+      vendor?.loyaltyProgram?.promoCode === discount.code
+        ? vendor.loyaltyProgram
+        : undefined;
+    return {
+      counter: loyaltyCounter(discount.vendorId, discount.code),
+      rules: program ?? {},
+    };
+  }
+  // Snapshot without its coupon or vendor id; count it but there is nothing to enforce
+  return {
+    counter: {
+      counterKey: `code:${discount.code}`,
+      paidFilter: { "discount.code": discount.code },
+    },
+    rules: {},
+  };
+}
+
+async function holdRedemption(
+  discount: IPaymentDiscount,
+  userId: string,
+  reference: string,
+  expiresAt?: Date
+): Promise<ServiceResponse<RedemptionHold>> {
+  const status = expiresAt
+    ? DiscountRedemptionStatus.RESERVED
+    : DiscountRedemptionStatus.REDEEMED;
+
+  const held = expiresAt
+    ? await DiscountRedemptionModel.findOne({
+        reference,
+        status: { $ne: DiscountRedemptionStatus.RELEASED },
+      }).lean<IDiscountRedemption | null>()
+    : await DiscountRedemptionModel.findOneAndUpdate(
+        { reference, status: { $ne: DiscountRedemptionStatus.RELEASED } },
+        { $set: { status }, $unset: { expiresAt: "" } },
+        { new: true }
+      ).lean<IDiscountRedemption | null>();
+  if (held) {
+    return {
+      success: true,
+      message: "Promo code already held for this checkout.",
+      data: { status: held.status },
+    };
+  }
+
+  const { counter, rules } = await loadRedemptionLimits(discount);
+  const userObjectId = new Types.ObjectId(userId);
+
+  if (!(await takeRedemption(counter, userObjectId, rules.perUserLimit))) {
+    return {
+      success: false,
+      message:
+        checkRedemptionLimits(
+          { perUserLimit: rules.perUserLimit },
+          { total: 0, byUser: rules.perUserLimit ?? 0 }
+        ) ?? "You have already used this promo code.",
+      statusCode: 400,
+    };
+  }
+  if (!(await takeRedemption(counter, null, rules.maxRedemptions))) {
+    await giveBackRedemption(counter.counterKey, [userObjectId]);
+    return {
+      success: false,
+      message:
+        checkRedemptionLimits(
+          { maxRedemptions: rules.maxRedemptions },
+          { total: rules.maxRedemptions ?? 0, byUser: 0 }
+        ) ?? "This promo code has reached its redemption limit.",
+      statusCode: 400,
+    };
+  }
+
+  try {
+    await DiscountRedemptionModel.findOneAndUpdate(
+      { reference, status: DiscountRedemptionStatus.RELEASED },
+      {
+        $set: {
+          counterKey: counter.counterKey,
+          code: discount.code,
+          source: discount.source,
+          couponId: discount.couponId,
+          vendorId: discount.vendorId,
+          userId: userObjectId,
+          status,
+          ...(expiresAt ? { expiresAt } : {}),
+        },
+        $unset: { releasedAt: "", ...(expiresAt ? {} : { expiresAt: "" }) },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    await giveBackRedemption(counter.counterKey, [null, userObjectId]);
+    // The other confirmation of this checkout (callback or webhook) got there first
+    if (isDuplicateKeyError(error)) {
+      return holdRedemption(discount, userId, reference, expiresAt);
+    }
+    throw error;
+  }
+
+  return {
+    success: true,
+    message: "Promo code held for this checkout.",
+    data: { status },
+  };
+}
+
+export function discountReservationExpiry(now: Date = new Date()) {
+  return new Date(now.getTime() + DISCOUNT_RESERVATION_MINUTES * MINUTE_MS);
+}
+
+/**
+ * Holds one redemption of the code while a card checkout is open, failing
+ * when its total or per-user limit is already taken. The hold lapses at
+ * `expiresAt` unless the payment is redeemed first.
+ */
+export async function reserveDiscountRedemption(
+  discount: IPaymentDiscount,
+  userId: string,
+  reference: string,
+  expiresAt: Date = discountReservationExpiry()
+): Promise<ServiceResponse<RedemptionHold>> {
+  try {
+    return await holdRedemption(discount, userId, reference, expiresAt);
+  } catch (error) {
+    console.error("reserveDiscountRedemption error:", error);
+    return {
+      success: false,
+      message: "Failed to apply promo code.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Records the redemption for a completed payment. Repeat calls for the same
+ * reference are no-ops; a hold that lapsed meanwhile is checked against the
+ * limits again.
+ */
+export async function redeemDiscountRedemption(
+  discount: IPaymentDiscount,
+  userId: string,
+  reference: string
+): Promise<ServiceResponse<RedemptionHold>> {
+  try {
+    return await holdRedemption(discount, userId, reference);
+  } catch (error) {
+    console.error("redeemDiscountRedemption error:", error);
+    return {
+      success: false,
+      message: "Failed to apply promo code.",
+      statusCode: 500,
+    };
+  }
+}
+
+async function releaseRedemption(filter: Record<string, unknown>) {
+  const redemption = await DiscountRedemptionModel.findOneAndUpdate(
+    { status: { $ne: DiscountRedemptionStatus.RELEASED }, ...filter },
+    {
+      $set: { status: DiscountRedemptionStatus.RELEASED, releasedAt: new Date() },
+      $unset: { expiresAt: "" },
+    }
+  ).lean<IDiscountRedemption | null>();
+  if (!redemption) {
+    return false;
+  }
+  await giveBackRedemption(redemption.counterKey, [null, redemption.userId]);
+  return true;
+}
+
+/** Gives the checkout's redemption back to the code; safe to call more than once. */
+export async function releaseDiscountRedemption(reference: string): Promise<boolean> {
+  try {
+    return await releaseRedemption({ reference });
+  } catch (error) {
+    console.error("releaseDiscountRedemption error:", error);
+    return false;
+  }
+}
+
+/**
+ * Gives back a hold whose card payment failed or was cancelled. Leaves
+ * redemptions of completed payments alone, since Stripe may report an earlier
+ * declined attempt after the intent succeeded.
+ */
+export async function releaseDiscountReservation(reference: string): Promise<boolean> {
+  try {
+    return await releaseRedemption({
+      reference,
+      status: DiscountRedemptionStatus.RESERVED,
+    });
+  } catch (error) {
+    console.error("releaseDiscountReservation error:", error);
+    return false;
+  }
+}
+
+/** Releases holds whose card checkout was abandoned. */
+export async function releaseExpiredDiscountReservations(
+  now: Date = new Date()
+): Promise<number> {
+  const lapsed = { status: DiscountRedemptionStatus.RESERVED, expiresAt: { $lte: now } };
+  const reservations = await DiscountRedemptionModel.find(lapsed)
+    .select("reference")
+    .lean<Array<Pick<IDiscountRedemption, "reference">>>();
+
+  let released = 0;
+  for (const reservation of reservations) {
+    if (await releaseRedemption({ ...lapsed, reference: reservation.reference })) {
+      released += 1;
+    }
+  }
+  return released;
+}
+
+let discountReservationSchedulerStarted = false;
+
+export function startDiscountReservationScheduler(): void {
+  if (discountReservationSchedulerStarted) {
+    return;
+  }
+
+  discountReservationSchedulerStarted = true;
+
+  const tick = async () => {
+    try {
+      await releaseExpiredDiscountReservations();
+    } catch (error) {
+      console.error("Discount reservation scheduler tick error:", error);
+    }
+  };
+
+  void tick();
+
+  setInterval(() => {
+    void tick();
+  }, RESERVATION_CHECK_INTERVAL_MS);
+}
+
+async function findLoyaltyVendor(code: string, now: Date) {
+  const vendors = await vendorModel
+    .find({ "loyaltyProgram.promoCode": code })
+    .select("companyName loyaltyProgram")
+    .lean<VendorWithId[]>();
+
+  // An active program wins over a cancelled one that reused the code
+  return (
+    vendors.find((vendor) => vendor.loyaltyProgram?.status === "active") ??
+    vendors.find((vendor) => {
+      const expiresAt = vendor.loyaltyProgram
+        ? loyaltyCodeExpiresAt(vendor.loyaltyProgram)
+        : undefined;
+      return expiresAt && now < expiresAt;
+    }) ??
+    vendors[0] ??
+    null
+  );
+}
+
+/**
+ * Looks up an Events Office coupon or a vendor loyalty code and checks it can
+ * be used for this checkout. The limit check here only gives early feedback;
+ * checkouts take the redemption with reserveDiscountRedemption or
+ * redeemDiscountRedemption, which enforce the limits atomically.
+ */
+export async function resolveDiscount(
+  rawCode: string,
+  context: DiscountContext,
+  now: Date = new Date()
+): Promise<ServiceResponse<AppliedDiscount>> {
+  try {
+    const code = normalizeDiscountCode(rawCode ?? "");
+    if (!code) {
+      return { success: false, message: "Enter a promo code.", statusCode: 400 };
+    }
+    if (context.amount <= 0) {
+      return {
+        success: false,
+        message: "Promo codes only apply to paid checkouts.",
+        statusCode: 400,
+      };
+    }
+
+    const coupon = await CouponModel.findOne({ code }).lean<CouponWithId | null>();
+    if (coupon) {
+      if (!coupon.active) {
+        return {
+          success: false,
+          message: "This promo code is no longer active.",
+          statusCode: 400,
+        };
+      }
+      if (
+        coupon.eventTypes?.length &&
+        (!context.eventType || !coupon.eventTypes.includes(context.eventType))
+      ) {
+        return {
+          success: false,
+          message: `This promo code only applies to ${coupon.eventTypes.join(", ")} events.`,
+          statusCode: 400,
+        };
+      }
+      const windowError = checkRedemptionWindow(coupon, now);
+      if (windowError) {
+        return { success: false, message: windowError, statusCode: 400 };
+      }
+      const limitError = checkRedemptionLimits(
+        coupon,
+        await countRedemptions(couponCounter(coupon._id), context.userId)
+      );
+      if (limitError) {
+        return { success: false, message: limitError, statusCode: 400 };
+      }
+
+      const { amount, finalAmount } = calculateDiscount(
+        context.amount,
+        coupon.discountRate
+      );
+      return {
+        success: true,
+        message: `${coupon.discountRate}% off applied.`,
+        data: {
+          code,
+          source: DiscountSource.COUPON,
+          couponId: coupon._id.toString(),
+          label: coupon.description || "Events Office coupon",
+          discountRate: coupon.discountRate,
+          originalAmount: roundMoney(context.amount),
+          amount,
+          finalAmount,
+        },
+      };
+    }
+
+    const vendor = await findLoyaltyVendor(code, now);
+    const program = vendor?.loyaltyProgram;
+    if (!vendor || !program) {
+      return { success: false, message: "Promo code not found.", statusCode: 404 };
+    }
+
+    const expiresAt = loyaltyCodeExpiresAt(program);
+    if (expiresAt && now >= expiresAt) {
+      return {
+        success: false,
+        message: `${vendor.companyName} left the loyalty program; this code expired on ${formatDate(expiresAt)}.`,
+        statusCode: 400,
+      };
+    }
+    const windowError = checkRedemptionWindow(program, now);
+    if (windowError) {
+      return { success: false, message: windowError, statusCode: 400 };
+    }
+    const limitError = checkRedemptionLimits(
+      program,
+      await countRedemptions(loyaltyCounter(vendor._id, code), context.userId)
+    );
+    if (limitError) {
+      return { success: false, message: limitError, statusCode: 400 };
+    }
+
+    const { amount, finalAmount } = calculateDiscount(
+      context.amount,
+      program.discountRate
+    );
+    return {
+      success: true,
+      message: `${program.discountRate}% off from ${vendor.companyName} applied.`,
+      data: {
+        code,
+        source: DiscountSource.LOYALTY,
+        vendorId: vendor._id.toString(),
+        label: `${vendor.companyName} loyalty offer`,
+        discountRate: program.discountRate,
+        originalAmount: roundMoney(context.amount),
+        amount,
+        finalAmount,
+      },
+    };
+  } catch (error) {
+    console.error("resolveDiscount error:", error);
+    return {
+      success: false,
+      message: "Failed to apply promo code.",
+      statusCode: 500,
+    };
+  }
+}
+
+/** True when another coupon or vendor program already uses the code. */
+export async function isDiscountCodeTaken(
+  code: string,
+  owner: { vendorId?: string; couponId?: string } = {}
+): Promise<boolean> {
+  const normalized = normalizeDiscountCode(code);
+  const [coupon, vendors] = await Promise.all([
+    CouponModel.findOne({
+      code: normalized,
+      ...(owner.couponId ? { _id: { $ne: owner.couponId } } : {}),
+    })
+      .select("_id")
+      .lean(),
+    vendorModel
+      .find({
+        "loyaltyProgram.promoCode": normalized,
+        ...(owner.vendorId ? { _id: { $ne: owner.vendorId } } : {}),
+      })
+      .select("loyaltyProgram")
+      .lean<VendorWithId[]>(),
+  ]);
+  if (coupon) {
+    return true;
+  }
+  const now = new Date();
+  return vendors.some((vendor) => {
+    if (!vendor.loyaltyProgram) return false;
+    const expiresAt = loyaltyCodeExpiresAt(vendor.loyaltyProgram);
+    return !expiresAt || now < expiresAt;
+  });
+}
+
+const optionalDate = z.preprocess(
+  (value) => (value === "" ? null : value),
+  z.coerce.date().nullable().optional()
+);
+
+const optionalLimit = z.preprocess(
+  (value) => (value === "" ? null : value),
+  z.coerce
+    .number()
+    .int({ message: "Limits must be whole numbers." })
+    .min(1, { message: "Limits must be at least 1." })
+    .nullable()
+    .optional()
+);
+
+export const discountLimitsSchema = z.object({
+  validFrom: optionalDate,
+  validUntil: optionalDate,
+  maxRedemptions: optionalLimit,
+  perUserLimit: optionalLimit,
+});
+
+export function validUntilAfterValidFrom(value: {
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+}) {
+  return !value.validFrom || !value.validUntil || value.validUntil > value.validFrom;
+}
+
+const couponInputSchema = discountLimitsSchema
+  .extend({
+    code: z
+      .string()
+      .trim()
+      .min(3, { message: "Code must be at least 3 characters." })
+      .max(32, { message: "Code must be at most 32 characters." }),
+    description: z.string().trim().max(200).optional(),
+    discountRate: z.coerce
+      .number()
+      .min(1, { message: "Discount rate must be at least 1%." })
+      .max(100, { message: "Discount rate cannot exceed 100%." }),
+    eventTypes: z.array(z.enum(EventType)).optional(),
+    active: z.boolean().optional(),
+  })
+  .refine(validUntilAfterValidFrom, {
+    message: "validUntil must be after validFrom.",
+    path: ["validUntil"],
+  });
+
+async function summarizeCoupons(coupons: CouponWithId[]): Promise<CouponSummary[]> {
+  const stats = await UserPaymentModel.aggregate<{
+    _id: Types.ObjectId;
+    redemptions: number;
+    discountGiven: number;
+  }>([
+    {
+      $match: {
+        "discount.couponId": { $in: coupons.map((coupon) => coupon._id) },
+        status: "Paid",
+      },
+    },
+    {
+      $group: {
+        _id: "$discount.couponId",
+        redemptions: { $sum: 1 },
+        discountGiven: { $sum: "$discount.amount" },
+      },
+    },
+  ]);
+
+  return coupons.map((coupon) => {
+    const stat = stats.find((entry) => entry._id.equals(coupon._id));
+    return {
+      id: coupon._id.toString(),
+      code: coupon.code,
+      description: coupon.description,
+      discountRate: coupon.discountRate,
+      eventTypes: coupon.eventTypes ?? [],
+      validFrom: coupon.validFrom,
+      validUntil: coupon.validUntil,
+      maxRedemptions: coupon.maxRedemptions,
+      perUserLimit: coupon.perUserLimit,
+      active: coupon.active,
+      redemptions: stat?.redemptions ?? 0,
+      discountGiven: roundMoney(stat?.discountGiven ?? 0),
+      createdAt: coupon.createdAt,
+    };
+  });
+}
+
+export async function listCoupons(): Promise<ServiceResponse<CouponSummary[]>> {
+  try {
+    const coupons = await CouponModel.find()
+      .sort({ createdAt: -1 })
+      .lean<CouponWithId[]>();
+    return {
+      success: true,
+      message: "Coupons retrieved successfully.",
+      data: await summarizeCoupons(coupons),
+    };
+  } catch (error) {
+    console.error("Error listing coupons:", error);
+    return {
+      success: false,
+      message: "Failed to load coupons.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function createCoupon(
+  input: unknown,
+  createdBy?: string
+): Promise<ServiceResponse<CouponSummary>> {
+  try {
+    const parsed = couponInputSchema.safeParse(input);
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid coupon.",
+        statusCode: 400,
+      };
+    }
+
+    const code = normalizeDiscountCode(parsed.data.code);
+    if (await isDiscountCodeTaken(code)) {
+      return {
+        success: false,
+        message: `The code ${code} is already in use.`,
+        statusCode: 409,
+      };
+    }
+
+    const coupon = await CouponModel.create({
+      ...parsed.data,
+      code,
+      validFrom: parsed.data.validFrom ?? undefined,
+      validUntil: parsed.data.validUntil ?? undefined,
+      maxRedemptions: parsed.data.maxRedemptions ?? undefined,
+      perUserLimit: parsed.data.perUserLimit ?? undefined,
+      createdBy,
+    });
+
+    const [summary] = await summarizeCoupons([coupon.toObject() as CouponWithId]);
+    return {
+      success: true,
+      message: `Coupon ${code} created.`,
+      statusCode: 201,
+      data: summary,
+    };
+  } catch (error) {
+    console.error("Error creating coupon:", error);
+    return {
+      success: false,
+      message: "Failed to create coupon.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function updateCoupon(
+  couponId: string,
+  input: unknown
+): Promise<ServiceResponse<CouponSummary>> {
+  try {
+    if (!Types.ObjectId.isValid(couponId)) {
+      return { success: false, message: "Invalid coupon id.", statusCode: 400 };
+    }
+
+    const parsed = couponInputSchema.safeParse(input);
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid coupon.",
+        statusCode: 400,
+      };
+    }
+
+    const code = normalizeDiscountCode(parsed.data.code);
+    if (await isDiscountCodeTaken(code, { couponId })) {
+      return {
+        success: false,
+        message: `The code ${code} is already in use.`,
+        statusCode: 409,
+      };
+    }
+
+    const set: Record<string, unknown> = {
+      code,
+      description: parsed.data.description,
+      discountRate: parsed.data.discountRate,
+      eventTypes: parsed.data.eventTypes ?? [],
+    };
+    const unset: Record<string, ""> = {};
+    for (const key of ["validFrom", "validUntil", "maxRedemptions", "perUserLimit"] as const) {
+      const value = parsed.data[key];
+      if (value === null || value === undefined) {
+        unset[key] = "";
+      } else {
+        set[key] = value;
+      }
+    }
+    if (parsed.data.active !== undefined) {
+      set.active = parsed.data.active;
+    }
+
+    const coupon = await CouponModel.findByIdAndUpdate(
+      couponId,
+      { $set: set, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { new: true, runValidators: true }
+    ).lean<CouponWithId | null>();
+    if (!coupon) {
+      return { success: false, message: "Coupon not found.", statusCode: 404 };
+    }
+
+    const [summary] = await summarizeCoupons([coupon]);
+    return {
+      success: true,
+      message: `Coupon ${code} updated.`,
+      data: summary,
+    };
+  } catch (error) {
+    console.error("Error updating coupon:", error);
+    return {
+      success: false,
+      message: "Failed to update coupon.",
+      statusCode: 500,
+    };
+  }
+}
+
+/** Deletes a coupon nobody used; redeemed ones are only deactivated so reports keep them. */
+export async function deleteCoupon(
+  couponId: string
+): Promise<ServiceResponse<{ deleted: boolean }>> {
+  try {
+    if (!Types.ObjectId.isValid(couponId)) {
+      return { success: false, message: "Invalid coupon id.", statusCode: 400 };
+    }
+
+    const coupon = await CouponModel.findById(couponId).lean<CouponWithId | null>();
+    if (!coupon) {
+      return { success: false, message: "Coupon not found.", statusCode: 404 };
+    }
+
+    const redeemed = await UserPaymentModel.exists({ "discount.couponId": coupon._id });
+    if (redeemed) {
+      await CouponModel.updateOne({ _id: coupon._id }, { $set: { active: false } });
+      return {
+        success: true,
+        message: `Coupon ${coupon.code} has redemptions, so it was deactivated instead.`,
+        data: { deleted: false },
+      };
+    }
+
+    await CouponModel.deleteOne({ _id: coupon._id });
+    return {
+      success: true,
+      message: `Coupon ${coupon.code} deleted.`,
+      data: { deleted: true },
+    };
+  } catch (error) {
+    console.error("Error deleting coupon:", error);
+    return {
+      success: false,
+      message: "Failed to delete coupon.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getVendorRedemptionReport(
+  vendorId: string
+): Promise<ServiceResponse<VendorRedemptionReport>> {
+  try {
+    if (!Types.ObjectId.isValid(vendorId)) {
+      return { success: false, message: "Invalid vendor id.", statusCode: 400 };
+    }
+
+    const vendor = await vendorModel
+      .findById(vendorId)
+      .select("loyaltyProgram")
+      .lean<VendorWithId | null>();
+    if (!vendor) {
+      return { success: false, message: "Vendor not found.", statusCode: 404 };
+    }
+
+    const vendorObjectId = new Types.ObjectId(vendorId);
+    const [payments, recentPayments] = await Promise.all([
+      UserPaymentModel.aggregate<{
+        _id: { eventId: Types.ObjectId; status: string };
+        count: number;
+        discountGiven: number;
+        sales: number;
+        lastRedeemedAt: Date;
+      }>([
+        {
+          $match: {
+            "discount.vendorId": vendorObjectId,
+            status: { $in: ["Paid", "Refunded"] },
+          },
+        },
+        {
+          $group: {
+            _id: { eventId: "$eventId", status: "$status" },
+            count: { $sum: 1 },
+            discountGiven: { $sum: "$discount.amount" },
+            sales: { $sum: "$amount" },
+            lastRedeemedAt: { $max: "$paidAt" },
+          },
+        },
+      ]),
+      UserPaymentModel.find({
+        "discount.vendorId": vendorObjectId,
+        status: { $in: ["Paid", "Refunded"] },
+      })
+        .sort({ paidAt: -1 })
+        .limit(RECENT_REDEMPTIONS_LIMIT)
+        .lean<
+          Array<{
+            _id: Types.ObjectId;
+            eventId: Types.ObjectId;
+            amount: number;
+            status: string;
+            paidAt: Date;
+            discount: IPaymentDiscount;
+          }>
+        >(),
+    ]);
+
+    const eventIds = [
+      ...new Set(
+        [...payments.map((row) => row._id.eventId), ...recentPayments.map((row) => row.eventId)].map(
+          (id) => id.toString()
+        )
+      ),
+    ];
+    const events = await EventModel.find({ _id: { $in: eventIds } })
+      .select("name eventType")
+      .lean<Array<Pick<IEvent, "name" | "eventType"> & { _id: Types.ObjectId }>>();
+    const eventById = new Map(events.map((event) => [event._id.toString(), event]));
+
+    const totals = { redemptions: 0, refunded: 0, discountGiven: 0, sales: 0 };
+    const byEvent = new Map<string, VendorRedemptionReport["byEvent"][number]>();
+    for (const row of payments) {
+      if (row._id.status === "Refunded") {
+        totals.refunded += row.count;
+        continue;
+      }
+      const eventId = row._id.eventId.toString();
+      totals.redemptions += row.count;
+      totals.discountGiven += row.discountGiven;
+      totals.sales += row.sales;
+      byEvent.set(eventId, {
+        eventId,
+        eventName: eventById.get(eventId)?.name ?? "Deleted event",
+        eventType: eventById.get(eventId)?.eventType,
+        redemptions: row.count,
+        discountGiven: roundMoney(row.discountGiven),
+        sales: roundMoney(row.sales),
+        lastRedeemedAt: row.lastRedeemedAt,
+      });
+    }
+
+    const program = vendor.loyaltyProgram;
+    const remaining = program?.maxRedemptions
+      ? Math.max(
+          program.maxRedemptions -
+            (await UserPaymentModel.countDocuments({
+              "discount.vendorId": vendorObjectId,
+              "discount.code": program.promoCode,
+              status: "Paid",
+            })),
+          0
+        )
+      : undefined;
+
+    return {
+      success: true,
+      message: "Loyalty redemptions retrieved successfully.",
+      data: {
+        promoCode: program?.promoCode,
+        maxRedemptions: program?.maxRedemptions,
+        remainingRedemptions: remaining,
+        codeExpiresAt: program ? loyaltyCodeExpiresAt(program) : undefined,
+        totals: {
+          ...totals,
+          discountGiven: roundMoney(totals.discountGiven),
+          sales: roundMoney(totals.sales),
+        },
+        byEvent: [...byEvent.values()].sort(
+          (a, b) => b.redemptions - a.redemptions
+        ),
+        recent: recentPayments.map((payment) => ({
+          id: payment._id.toString(),
+          eventId: payment.eventId.toString(),
+          eventName:
+            eventById.get(payment.eventId.toString())?.name ?? "Deleted event",
+          originalAmount: payment.discount.originalAmount,
+          discountAmount: payment.discount.amount,
+          paidAmount: payment.amount,
+          status: payment.status,
+          redeemedAt: payment.paidAt,
+        })),
+      },
+    };
+  } catch (error) {
+    console.error("Error building loyalty redemption report:", error);
+    return {
+      success: false,
+      message: "Failed to load loyalty redemptions.",
+      statusCode: 500,
+    };
+  }
+}
@@ -0,0 +1,424 @@
+import { Types } from "mongoose";
+import type { SendMailOptions } from "nodemailer";
+import EmailMessageModel, {
+  EmailStatus,
+  IEmailAttachment,
+  IEmailMessage,
+} from "../models/EmailMessage";
+import { getEmailTransport } from "./emailTransport";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000; // 1 minute, doubled per failed attempt
+const RETRY_MAX_MS = 60 * 60 * 1000; // 1 hour
+const STALE_SENDING_MS = 10 * 60 * 1000; // 10 minutes
+const OUTBOX_INTERVAL_MS = 60 * 1000; // 1 minute
+const OUTBOX_BATCH_SIZE = 20;
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+let schedulerStarted = false;
+let schedulerBusy = false;
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type EmailMessageWithId = IEmailMessage & { _id: Types.ObjectId };
+
+export type OutboxResult = {
+  id: string;
+  status: EmailStatus;
+  messageId?: string;
+  previewUrl?: string;
+  error?: string;
+};
+
+export type OutboxMessageItem = {
+  id: string;
+  category: string;
+  to: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type OutboxSummary = Record<EmailStatus, number>;
+
+function retryDelayMs(attempts: number) {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function formatAddress(value: SendMailOptions["to"]): string {
+  if (!value) {
+    return "";
+  }
+  const entries = Array.isArray(value) ? value : [value];
+  return entries
+    .map((entry) => (typeof entry === "string" ? entry : entry.address))
+    .join(", ");
+}
+
+function toStoredAttachments(
+  attachments: SendMailOptions["attachments"]
+): IEmailAttachment[] {
+  return (attachments ?? []).flatMap((attachment) => {
+    const { content } = attachment;
+    if (content === undefined || content === null) {
+      return [];
+    }
+    if (!Buffer.isBuffer(content) && typeof content !== "string") {
+      // Streams can't be replayed on retry
+      console.warn(
+        `EmailOutbox: dropping streamed attachment ${attachment.filename ?? ""}`
+      );
+      return [];
+    }
+    return [
+      {
+        filename: attachment.filename || undefined,
+        content: Buffer.isBuffer(content) ? content : Buffer.from(content),
+        contentType: attachment.contentType,
+        cid: attachment.cid,
+      },
+    ];
+  });
+}
+
+function toOutboxItem(message: EmailMessageWithId): OutboxMessageItem {
+  return {
+    id: message._id.toString(),
+    category: message.category,
+    to: message.to,
+    subject: message.subject,
+    status: message.status,
+    attempts: message.attempts,
+    maxAttempts: message.maxAttempts,
+    lastError: message.lastError,
+    nextAttemptAt:
+      message.status === EmailStatus.QUEUED ? message.nextAttemptAt : undefined,
+    sentAt: message.sentAt,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt,
+  };
+}
+
+// Claims a queued message so two workers never send it twice
+async function claimMessage(id: Types.ObjectId) {
+  return EmailMessageModel.findOneAndUpdate(
+    { _id: id, status: EmailStatus.QUEUED },
+    { $set: { status: EmailStatus.SENDING }, $inc: { attempts: 1 } },
+    { new: true }
+  ).lean<EmailMessageWithId | null>();
+}
+
+async function deliverClaimedMessage(
+  message: EmailMessageWithId
+): Promise<OutboxResult> {
+  const id = message._id.toString();
+
+  try {
+    const transport = await getEmailTransport();
+    const result = await transport.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments.map((attachment) => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content),
+        contentType: attachment.contentType,
+        cid: attachment.cid,
+      })),
+    });
+
+    await EmailMessageModel.updateOne(
+      { _id: message._id },
+      {
+        $set: {
+          status: EmailStatus.SENT,
+          sentAt: new Date(),
+          transport: transport.name,
+          messageId: result.messageId,
+          previewUrl: result.previewUrl,
+        },
+        $unset: { lastError: "" },
+      }
+    );
+
+    return {
+      id,
+      status: EmailStatus.SENT,
+      messageId: result.messageId,
+      previewUrl: result.previewUrl,
+    };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const exhausted = message.attempts >= message.maxAttempts;
+    const status = exhausted ? EmailStatus.FAILED : EmailStatus.QUEUED;
+
+    console.error(
+      `EmailOutbox: attempt ${message.attempts}/${message.maxAttempts} for ${message.category} to ${message.to} failed:`,
+      error
+    );
+
+    await EmailMessageModel.updateOne(
+      { _id: message._id },
+      {
+        $set: {
+          status,
+          lastError: reason,
+          nextAttemptAt: new Date(Date.now() + retryDelayMs(message.attempts)),
+        },
+      }
+    );
+
+    return { id, status, error: reason };
+  }
+}
+
+/**
+ * Persists the message and makes the first delivery attempt right away.
+ * Failed attempts stay in the outbox and are retried with backoff by the
+ * outbox scheduler until maxAttempts is reached.
+ */
+export async function enqueueEmail(
+  category: string,
+  options: SendMailOptions,
+  settings: { maxAttempts?: number } = {}
+): Promise<OutboxResult> {
+  const created = await EmailMessageModel.create({
+    category,
+    to: formatAddress(options.to),
+    from: typeof options.from === "string" ? options.from : undefined,
+    subject: options.subject ?? "",
+    html: typeof options.html === "string" ? options.html : undefined,
+    text: typeof options.text === "string" ? options.text : undefined,
+    attachments: toStoredAttachments(options.attachments),
+    maxAttempts: settings.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+  });
+
+  const claimed = await claimMessage(created._id as Types.ObjectId);
+  if (!claimed) {
+    return { id: String(created._id), status: EmailStatus.QUEUED };
+  }
+  return deliverClaimedMessage(claimed);
+}
+
+export async function processEmailOutbox(): Promise<{
+  attempted: number;
+  sent: number;
+}> {
+  // A worker that died mid-send leaves messages in Sending forever
+  await EmailMessageModel.updateMany(
+    {
+      status: EmailStatus.SENDING,
+      updatedAt: { $lte: new Date(Date.now() - STALE_SENDING_MS) },
+    },
+    { $set: { status: EmailStatus.QUEUED, nextAttemptAt: new Date() } }
+  );
+
+  const due = await EmailMessageModel.find({
+    status: EmailStatus.QUEUED,
+    nextAttemptAt: { $lte: new Date() },
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(OUTBOX_BATCH_SIZE)
+    .select("_id")
+    .lean<Array<{ _id: Types.ObjectId }>>();
+
+  let attempted = 0;
+  let sent = 0;
+
+  for (const { _id } of due) {
+    const claimed = await claimMessage(_id);
+    if (!claimed) {
+      continue;
+    }
+    attempted++;
+    const result = await deliverClaimedMessage(claimed);
+    if (result.status === EmailStatus.SENT) {
+      sent++;
+    }
+  }
+
+  return { attempted, sent };
+}
+
+export function startEmailOutboxScheduler() {
+  if (schedulerStarted) {
+    return;
+  }
+
+  schedulerStarted = true;
+
+  const tick = async () => {
+    if (schedulerBusy) {
+      return;
+    }
+
+    schedulerBusy = true;
+    try {
+      const { attempted, sent } = await processEmailOutbox();
+      if (attempted > 0) {
+        console.info(
+          `[EmailOutbox] Retried ${attempted} message(s), ${sent} delivered.`
+        );
+      }
+    } catch (error) {
+      console.error("Email outbox tick error:", error);
+    } finally {
+      schedulerBusy = false;
+    }
+  };
+
+  void tick();
+
+  setInterval(() => {
+    void tick();
+  }, OUTBOX_INTERVAL_MS);
+}
+
+export async function listOutboxMessages(
+  options: { status?: string; page?: number; limit?: number } = {}
+): Promise<
+  ServiceResponse<{
+    messages: OutboxMessageItem[];
+    total: number;
+    page: number;
+    limit: number;
+    summary: OutboxSummary;
+  }>
+> {
+  try {
+    const status = options.status ?? EmailStatus.FAILED;
+    if (!Object.values(EmailStatus).includes(status as EmailStatus)) {
+      return {
+        success: false,
+        message: `status must be one of: ${Object.values(EmailStatus).join(", ")}`,
+        statusCode: 400,
+      };
+    }
+
+    const page = Math.max(1, Math.floor(options.page ?? 1));
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Math.floor(options.limit ?? DEFAULT_PAGE_SIZE))
+    );
+
+    const [messages, total, counts] = await Promise.all([
+      EmailMessageModel.find({ status })
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select("-html -text -attachments")
+        .lean<EmailMessageWithId[]>(),
+      EmailMessageModel.countDocuments({ status }),
+      EmailMessageModel.aggregate<{ _id: EmailStatus; count: number }>([
+        { $group: { _id: "$status", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const summary = Object.values(EmailStatus).reduce((acc, value) => {
+      acc[value] = counts.find((entry) => entry._id === value)?.count ?? 0;
+      return acc;
+    }, {} as OutboxSummary);
+
+    return {
+      success: true,
+      message: "Outbox messages retrieved",
+      statusCode: 200,
+      data: {
+        messages: messages.map(toOutboxItem),
+        total,
+        page,
+        limit,
+        summary,
+      },
+    };
+  } catch (error) {
+    console.error("Error listing outbox messages:", error);
+    return {
+      success: false,
+      message: "Failed to load outbox messages",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function resendOutboxMessage(
+  messageId: string
+): Promise<ServiceResponse<OutboxMessageItem>> {
+  try {
+    if (!Types.ObjectId.isValid(messageId)) {
+      return { success: false, message: "Invalid message ID", statusCode: 400 };
+    }
+
+    const existing = await EmailMessageModel.findById(messageId)
+      .select("status")
+      .lean<{ status: EmailStatus } | null>();
+    if (!existing) {
+      return { success: false, message: "Message not found", statusCode: 404 };
+    }
+    if (existing.status !== EmailStatus.FAILED) {
+      return {
+        success: false,
+        message: `Only failed messages can be resent (this one is ${existing.status.toLowerCase()}).`,
+        statusCode: 409,
+      };
+    }
+
+    // A manual resend starts a fresh retry budget
+    const requeued = await EmailMessageModel.findOneAndUpdate(
+      { _id: messageId, status: EmailStatus.FAILED },
+      {
+        $set: {
+          status: EmailStatus.SENDING,
+          attempts: 1,
+          nextAttemptAt: new Date(),
+        },
+      },
+      { new: true }
+    ).lean<EmailMessageWithId | null>();
+
+    if (!requeued) {
+      return {
+        success: false,
+        message: "Message is already being resent.",
+        statusCode: 409,
+      };
+    }
+
+    const result = await deliverClaimedMessage(requeued);
+    const updated = await EmailMessageModel.findById(messageId)
+      .select("-html -text -attachments")
+      .lean<EmailMessageWithId | null>();
+
+    return {
+      success: result.status === EmailStatus.SENT,
+      message:
+        result.status === EmailStatus.SENT
+          ? "Message resent."
+          : `Resend failed: ${result.error ?? "unknown error"}. It will be retried automatically.`,
+      statusCode: result.status === EmailStatus.SENT ? 200 : 502,
+      data: updated ? toOutboxItem(updated) : undefined,
+    };
+  } catch (error) {
+    console.error("Error resending outbox message:", error);
+    return {
+      success: false,
+      message: "Failed to resend message",
+      statusCode: 500,
+    };
+  }
+}
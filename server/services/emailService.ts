@@ -1,101 +1,15 @@
-import nodemailer, { type Transporter, type SendMailOptions } from "nodemailer";
+import type { SendMailOptions } from "nodemailer";
 import { IUser } from "../models/User";
 import { VendorStatus } from "../models/Vendor";
 import type { IGymSession } from "../models/GymSession";
+import { enqueueEmail } from "./emailOutbox";
 
 const frontendUrl = process.env.FRONTEND_URL || "http://localhost:3000";
-const smtpHost = process.env.SMTP_HOST;
-const smtpPort = process.env.SMTP_PORT
-  ? Number(process.env.SMTP_PORT)
-  : undefined;
-const smtpSecure =
-  process.env.SMTP_SECURE?.toLowerCase() === "true" ||
-  process.env.SMTP_PORT === "465";
-const smtpUser = process.env.SMTP_USER;
-const smtpPass = process.env.SMTP_PASS;
-const configuredFromAddress =
-  process.env.EMAIL_FROM || "Zapvent Dev <no-reply@zapvent.local>";
-
-type TransportContext = {
-  transporter: Transporter;
-  defaultFrom: string;
-  isTestAccount: boolean;
-};
-
-let transportPromise: Promise<TransportContext> | null = null;
-
-async function createTransport(): Promise<TransportContext> {
-  if (smtpHost) {
-    const transporter = nodemailer.createTransport({
-      host: smtpHost,
-      port: smtpPort ?? 587,
-      secure: smtpSecure,
-      auth: smtpUser
-        ? {
-            user: smtpUser,
-            pass: smtpPass ?? "",
-          }
-        : undefined,
-    });
-
-    await transporter.verify().catch((err) => {
-      console.warn("EmailService: SMTP verification failed.", err);
-      throw err;
-    });
-
-    return {
-      transporter,
-      defaultFrom: configuredFromAddress,
-      isTestAccount: false,
-    };
-  }
-
-  const testAccount = await nodemailer.createTestAccount();
-  const transporter = nodemailer.createTransport({
-    host: testAccount.smtp.host,
-    port: testAccount.smtp.port,
-    secure: testAccount.smtp.secure,
-    auth: {
-      user: testAccount.user,
-      pass: testAccount.pass,
-    },
-  });
-
-  console.info(
-    `EmailService: using Ethereal test account (${testAccount.user}).`
-  );
-
-  return {
-    transporter,
-    defaultFrom: `Zapvent Dev <${testAccount.user}>`,
-    isTestAccount: true,
-  };
-}
-
-async function getTransport(): Promise<TransportContext> {
-  if (!transportPromise) {
-    transportPromise = createTransport().catch((err) => {
-      transportPromise = null;
-      throw err;
-    });
-  }
-  return transportPromise;
-}
-
-async function sendEmail(options: SendMailOptions) {
-  const { transporter, defaultFrom, isTestAccount } = await getTransport();
 
-  const info = await transporter.sendMail({
-    from: options.from ?? defaultFrom,
-    ...options,
-  });
-
-  const previewUrl = nodemailer.getTestMessageUrl(info);
-  if (previewUrl && isTestAccount) {
-    console.info(`EmailService: Preview URL ${previewUrl}`);
-  }
-
-  return { messageId: info.messageId, previewUrl };
+// Every message goes through the outbox, so a transport outage leaves it
+// queued for retry instead of losing it.
+async function sendEmail(category: string, options: SendMailOptions) {
+  return enqueueEmail(category, options);
 }
 
 function formatCurrency(amount: number, currency: string) {
@@ -174,7 +88,7 @@ function formatGymSessionDuration(duration?: number): string {
 export class EmailService {
   async sendApprovalEmail(user: IUser) {
     try {
-      const result = await sendEmail({
+      const result = await sendEmail("Approval", {
         to: user.email,
         subject: `Welcome to Zapvent - Your ${user.role} Account is Approved! 🎉`,
         html: `
@@ -203,7 +117,7 @@ export class EmailService {
 
   async sendRejectionEmail(user: IUser, reason?: string) {
     try {
-      const result = await sendEmail({
+      const result = await sendEmail("Rejection", {
         to: user.email,
         subject: `Zapvent Account Application Update`,
         html: `
@@ -243,7 +157,7 @@ export class EmailService {
     });
 
     try {
-      const result = await sendEmail({
+      const result = await sendEmail("StudentVerification", {
         to: user.email,
         subject: "Verify your Zapvent account",
         html: `
@@ -289,7 +203,7 @@ export class EmailService {
       : "the event";
 
     try {
-      const result = await sendEmail({
+      const result = await sendEmail("CommentDeletionWarning", {
         to: user.email,
         subject: `Important: Your comment on ${eventName} was removed`,
         html: `
@@ -334,7 +248,7 @@ export class EmailService {
     });
 
     try {
-      const result = await sendEmail({
+      const result = await sendEmail("WorkshopCertificate", {
         to: user.email,
         subject: `Certificate of Attendance - ${workshopName}`,
         html: `
@@ -395,7 +309,7 @@ export class EmailService {
     const safeDurationDisplay = escapeHtml(durationDisplay);
 
     try {
-      const result = await sendEmail({
+      const result = await sendEmail("GymSessionCancellation", {
         to: user.email,
         subject: `Gym session cancelled: ${safeSessionType}`,
         html: `
@@ -459,7 +373,7 @@ export class EmailService {
       : `<p>Event staff made updates to this session's details.</p>`;
 
     try {
-      const result = await sendEmail({
+      const result = await sendEmail("GymSessionUpdate", {
         to: user.email,
         subject: `Gym session updated: ${safeSessionType}`,
         html: `
@@ -488,6 +402,135 @@ export class EmailService {
     }
   }
 
+  async sendWaitlistOfferEmail(options: {
+    user: Pick<IUser, "email" | "firstName" | "lastName">;
+    eventId: string;
+    eventName: string;
+    eventType: string;
+    offerExpiresAt: Date;
+  }) {
+    const { user, eventId, eventName, eventType, offerExpiresAt } = options;
+    const firstNameDisplay =
+      user.firstName && user.firstName.trim() ? user.firstName : "there";
+    const safeFirstName = escapeHtml(firstNameDisplay);
+    const safeEventName = escapeHtml(eventName);
+    const safeEventType = escapeHtml(eventType.toLowerCase());
+    const expiresDisplay = formatDateTime(offerExpiresAt);
+
+    try {
+      const result = await sendEmail("WaitlistOffer", {
+        to: user.email,
+        subject: `A seat opened up: ${safeEventName}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #2e7d32;">You're off the waitlist!</h2>
+            <p>Hello ${safeFirstName},</p>
+            <p>A seat has opened up for the ${safeEventType} <strong>${safeEventName}</strong> and we are holding it for you.</p>
+            <p><strong>Complete your registration before:</strong> ${expiresDisplay}</p>
+            <p>If you do not register in time, the seat will be offered to the next person on the waitlist.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${frontendUrl}/user/events/${eventId}" style="background-color: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+                Claim My Seat
+              </a>
+            </div>
+            <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+          </div>
+        `,
+      });
+
+      return result;
+    } catch (error) {
+      console.error("Email service error (waitlist offer):", error);
+      throw error;
+    }
+  }
+
+  async sendGroupBookingInvitation(options: {
+    recipientEmail: string;
+    organizerName: string;
+    eventName: string;
+    eventType: string;
+    startDate?: Date;
+    respondBy?: Date;
+  }) {
+    const {
+      recipientEmail,
+      organizerName,
+      eventName,
+      eventType,
+      startDate,
+      respondBy,
+    } = options;
+
+    await sendEmail("GroupBookingInvitation", {
+      to: recipientEmail,
+      subject: `${organizerName} booked you a seat: ${eventName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">You're invited!</h2>
+          <p>Hello,</p>
+          <p><strong>${escapeHtml(organizerName)}</strong> paid for a seat for you at the ${escapeHtml(eventType.toLowerCase())} <strong>${escapeHtml(eventName)}</strong>, starting ${formatDateTime(startDate)}.</p>
+          <p>Sign in to Zapvent with this email address and confirm the seat to get your own ticket${respondBy ? ` before ${formatDateTime(respondBy)}` : ""}. If you can't make it, decline and the organizer is refunded.</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${frontendUrl}/user/registrations" style="background-color: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Answer the invitation
+            </a>
+          </div>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
+  async sendGroupSeatTicket(options: {
+    recipientEmail: string;
+    recipientName: string;
+    attendeeName: string;
+    eventName: string;
+    eventType: string;
+    ticketCode: string;
+    ticketQr: Buffer;
+    forOrganizer: boolean;
+  }) {
+    const {
+      recipientEmail,
+      recipientName,
+      attendeeName,
+      eventName,
+      eventType,
+      ticketCode,
+      ticketQr,
+      forOrganizer,
+    } = options;
+
+    const intro = forOrganizer
+      ? `<strong>${escapeHtml(attendeeName)}</strong> confirmed their seat at the ${escapeHtml(eventType.toLowerCase())} <strong>${escapeHtml(eventName)}</strong>. Their ticket is below in case you arrive together.`
+      : `Your seat at the ${escapeHtml(eventType.toLowerCase())} <strong>${escapeHtml(eventName)}</strong> is confirmed.`;
+
+    await sendEmail("GroupSeatTicket", {
+      to: recipientEmail,
+      subject: forOrganizer
+        ? `${attendeeName} confirmed - ${eventName}`
+        : `Your ticket - ${eventName}`,
+      attachments: [
+        { filename: "ticket.png", content: ticketQr, cid: "event-ticket" },
+      ],
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Zapvent Ticket</h2>
+          <p>Hello ${escapeHtml(recipientName) || "there"},</p>
+          <p>${intro}</p>
+          <div style="text-align: center; margin: 24px 0;">
+            <p><strong>Ticket for ${escapeHtml(attendeeName)}</strong> — show this QR code at the entrance.</p>
+            <img src="cid:event-ticket" alt="Event ticket QR code" style="width: 220px; height: 220px;" />
+            <p style="color: #666; font-size: 11px; word-break: break-all;">${escapeHtml(ticketCode)}</p>
+          </div>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
   async sendVendorApplicationDecisionEmail(options: {
     vendorEmail: string;
     vendorCompany: string;
@@ -541,7 +584,7 @@ export class EmailService {
         ? `<p><strong>Reason provided:</strong> ${reason}</p>`
         : "";
 
-    await sendEmail({
+    await sendEmail("VendorApplicationDecision", {
       to: vendorEmail,
       subject,
       html: `
@@ -569,6 +612,7 @@ export class EmailService {
     paidAt: Date;
     dueDate?: Date;
     transactionReference?: string;
+    invoice?: { filename: string; buffer: Buffer };
   }) {
     const {
       vendorEmail,
@@ -580,15 +624,19 @@ export class EmailService {
       paidAt,
       dueDate,
       transactionReference,
+      invoice,
     } = options;
 
     const formattedAmount = formatCurrency(amount, currency);
     const paidAtDisplay = formatDateTime(paidAt);
     const dueDateDisplay = formatDateTime(dueDate);
 
-    await sendEmail({
+    await sendEmail("VendorPaymentReceipt", {
       to: vendorEmail,
       subject: `Payment Receipt - ${eventName}`,
+      attachments: invoice
+        ? [{ filename: invoice.filename, content: invoice.buffer, contentType: "application/pdf" }]
+        : undefined,
       html: `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
           <h2 style="color: #333;">Payment Receipt</h2>
@@ -601,7 +649,112 @@ export class EmailService {
             <li><strong>Original due date:</strong> ${dueDateDisplay}</li>
             ${transactionReference ? `<li><strong>Reference:</strong> ${transactionReference}</li>` : ""}
           </ul>
-          <p>Keep this email as proof of your payment.</p>
+          <p>Keep this email as proof of your payment.${invoice ? " Your invoice is attached as a PDF." : ""}</p>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
+  async sendVendorPaymentReminder(options: {
+    vendorEmail: string;
+    vendorCompany: string;
+    eventName: string;
+    amount: number;
+    currency: string;
+    dueDate: Date;
+  }) {
+    const { vendorEmail, vendorCompany, eventName, amount, currency, dueDate } =
+      options;
+
+    await sendEmail("VendorPaymentReminder", {
+      to: vendorEmail,
+      subject: `Booth payment due soon - ${eventName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Booth Payment Reminder</h2>
+          <p>Hello ${escapeHtml(vendorCompany)},</p>
+          <p>Your booth fee of <strong>${formatCurrency(amount, currency)}</strong> for <strong>${escapeHtml(eventName)}</strong> is due on <strong>${formatDateTime(dueDate)}</strong>.</p>
+          <p>You can pay from the My Applications page of your vendor dashboard.</p>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
+  async sendVendorPaymentOverdue(options: {
+    vendorEmail: string;
+    vendorCompany: string;
+    eventName: string;
+    amount: number;
+    currency: string;
+    releaseDate: Date;
+  }) {
+    const {
+      vendorEmail,
+      vendorCompany,
+      eventName,
+      amount,
+      currency,
+      releaseDate,
+    } = options;
+
+    await sendEmail("VendorPaymentOverdue", {
+      to: vendorEmail,
+      subject: `Booth payment overdue - ${eventName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #d32f2f;">Booth Payment Overdue</h2>
+          <p>Hello ${escapeHtml(vendorCompany)},</p>
+          <p>We have not received your booth fee of <strong>${formatCurrency(amount, currency)}</strong> for <strong>${escapeHtml(eventName)}</strong>.</p>
+          <p>If it is still unpaid on <strong>${formatDateTime(releaseDate)}</strong>, your booth will be released and offered to other vendors.</p>
+          <p>Contact the Events Office if you need more time.</p>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
+  async sendVendorBoothReleased(options: {
+    vendorEmail: string;
+    vendorCompany: string;
+    eventName: string;
+  }) {
+    const { vendorEmail, vendorCompany, eventName } = options;
+
+    await sendEmail("VendorBoothReleased", {
+      to: vendorEmail,
+      subject: `Booth released - ${eventName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Booth Released</h2>
+          <p>Hello ${escapeHtml(vendorCompany)},</p>
+          <p>The booth fee for <strong>${escapeHtml(eventName)}</strong> was not paid by the end of the grace period, so your booth has been released back to the bazaar.</p>
+          <p>Contact the Events Office if you still want to take part.</p>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
+  async sendVendorPaymentDeadlineExtended(options: {
+    vendorEmail: string;
+    vendorCompany: string;
+    eventName: string;
+    dueDate: Date;
+    reason?: string;
+  }) {
+    const { vendorEmail, vendorCompany, eventName, dueDate, reason } = options;
+
+    await sendEmail("VendorPaymentDeadlineExtended", {
+      to: vendorEmail,
+      subject: `New booth payment deadline - ${eventName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Payment Deadline Extended</h2>
+          <p>Hello ${escapeHtml(vendorCompany)},</p>
+          <p>The Events Office moved the booth payment deadline for <strong>${escapeHtml(eventName)}</strong> to <strong>${formatDateTime(dueDate)}</strong>.</p>
+          ${reason ? `<p><strong>Note:</strong> ${escapeHtml(reason)}</p>` : ""}
           <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
         </div>
       `,
@@ -620,6 +773,10 @@ export class EmailService {
     method: string;
     receiptNumber: string;
     paidAt: Date;
+    ticketCode?: string;
+    ticketQr?: Buffer;
+    discount?: { code: string; amount: number };
+    invoice?: { filename: string; buffer: Buffer };
   }) {
     const {
       recipientEmail,
@@ -633,6 +790,10 @@ export class EmailService {
       method,
       receiptNumber,
       paidAt,
+      ticketCode,
+      ticketQr,
+      discount,
+      invoice,
     } = options;
 
     const formattedAmount = formatCurrency(amount, currency);
@@ -645,10 +806,30 @@ export class EmailService {
       cardPortion > 0
         ? `<li><strong>Card:</strong> ${formatCurrency(cardPortion, currency)}</li>`
         : "";
+    const discountDisplay = discount
+      ? `<li><strong>Promo code ${discount.code}:</strong> -${formatCurrency(discount.amount, currency)}</li>`
+      : "";
+    const ticketSection = ticketQr
+      ? `
+          <div style="text-align: center; margin: 24px 0;">
+            <p><strong>Your ticket</strong> — show this QR code at the entrance.</p>
+            <img src="cid:event-ticket" alt="Event ticket QR code" style="width: 220px; height: 220px;" />
+            ${ticketCode ? `<p style="color: #666; font-size: 11px; word-break: break-all;">${ticketCode}</p>` : ""}
+          </div>
+        `
+      : "";
 
-    await sendEmail({
+    await sendEmail("UserEventPaymentReceipt", {
       to: recipientEmail,
       subject: `Payment Receipt - ${eventName}`,
+      attachments: [
+        ...(ticketQr
+          ? [{ filename: "ticket.png", content: ticketQr, cid: "event-ticket" }]
+          : []),
+        ...(invoice
+          ? [{ filename: invoice.filename, content: invoice.buffer, contentType: "application/pdf" }]
+          : []),
+      ],
       html: `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
           <h2 style="color: #333;">Zapvent Payment Receipt</h2>
@@ -657,12 +838,101 @@ export class EmailService {
           <ul style="padding-left: 18px; color: #333;">
             <li><strong>Receipt No:</strong> ${receiptNumber}</li>
             <li><strong>Total Amount:</strong> ${formattedAmount}</li>
+            ${discountDisplay}
             ${walletDisplay}
             ${cardDisplay}
             <li><strong>Payment Method:</strong> ${method}</li>
             <li><strong>Paid on:</strong> ${paidAtDisplay}</li>
           </ul>
-          <p>Please keep this email for your records.</p>
+          ${ticketSection}
+          <p>Please keep this email for your records.${invoice ? " Your invoice is attached as a PDF." : ""}</p>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
+  async sendCourtPaymentReceipt(options: {
+    recipientEmail: string;
+    recipientName: string;
+    courtLabel: string;
+    venue?: string;
+    slotLabel: string;
+    amount: number;
+    currency: string;
+    method: string;
+    receiptNumber: string;
+    paidAt: Date;
+    invoice?: { filename: string; buffer: Buffer };
+  }) {
+    const {
+      recipientEmail,
+      recipientName,
+      courtLabel,
+      venue,
+      slotLabel,
+      amount,
+      currency,
+      method,
+      receiptNumber,
+      paidAt,
+      invoice,
+    } = options;
+
+    await sendEmail("CourtPaymentReceipt", {
+      to: recipientEmail,
+      subject: `Payment Receipt - ${courtLabel}`,
+      attachments: invoice
+        ? [{ filename: invoice.filename, content: invoice.buffer, contentType: "application/pdf" }]
+        : undefined,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Zapvent Payment Receipt</h2>
+          <p>Hello ${escapeHtml(recipientName) || "there"},</p>
+          <p>Your <strong>${escapeHtml(courtLabel)}</strong>${venue ? ` at ${escapeHtml(venue)}` : ""} booking is confirmed for ${escapeHtml(slotLabel)}.</p>
+          <ul style="padding-left: 18px; color: #333;">
+            <li><strong>Receipt No:</strong> ${escapeHtml(receiptNumber)}</li>
+            <li><strong>Total Amount:</strong> ${formatCurrency(amount, currency)}</li>
+            <li><strong>Payment Method:</strong> ${escapeHtml(method)}</li>
+            <li><strong>Paid on:</strong> ${formatDateTime(paidAt)}</li>
+          </ul>
+          <p>Cancel from the gym page before the cancellation cutoff to get a full refund.${invoice ? " Your invoice is attached as a PDF." : ""}</p>
+          <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
+        </div>
+      `,
+    });
+  }
+
+  async sendCourtRefundNotice(options: {
+    recipientEmail: string;
+    recipientName: string;
+    courtLabel: string;
+    slotLabel: string;
+    refundAmount: number;
+    currency: string;
+    destination: "wallet" | "card";
+    refundReference: string;
+  }) {
+    const {
+      recipientEmail,
+      recipientName,
+      courtLabel,
+      slotLabel,
+      refundAmount,
+      currency,
+      destination,
+      refundReference,
+    } = options;
+
+    await sendEmail("CourtRefundNotice", {
+      to: recipientEmail,
+      subject: `Refund issued - ${courtLabel}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Court booking cancelled</h2>
+          <p>Hello ${escapeHtml(recipientName) || "there"},</p>
+          <p>Your <strong>${escapeHtml(courtLabel)}</strong> booking for ${escapeHtml(slotLabel)} was cancelled and ${formatCurrency(refundAmount, currency)} was refunded to your ${destination}.</p>
+          <p><strong>Refund reference:</strong> ${escapeHtml(refundReference)}</p>
           <p style="color: #999; font-size: 12px; margin-top: 32px;">© ${new Date().getFullYear()} Zapvent. All rights reserved.</p>
         </div>
       `,
@@ -703,7 +973,7 @@ export class EmailService {
       )
       .join("");
 
-    await sendEmail({
+    await sendEmail("VendorVisitorQrCodes", {
       to: vendorEmail,
       subject: `Visitor QR Codes - ${eventName}`,
       html: `
@@ -0,0 +1,194 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer, { type SendMailOptions, type Transporter } from "nodemailer";
+
+export type EmailTransportName = "smtp" | "file" | "memory";
+
+export type DeliveryResult = {
+  messageId: string;
+  previewUrl?: string;
+};
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: SendMailOptions): Promise<DeliveryResult>;
+}
+
+export type MemoryMailboxEntry = SendMailOptions & {
+  messageId: string;
+  deliveredAt: Date;
+};
+
+const smtpHost = process.env.SMTP_HOST;
+const smtpPort = process.env.SMTP_PORT
+  ? Number(process.env.SMTP_PORT)
+  : undefined;
+const smtpSecure =
+  process.env.SMTP_SECURE?.toLowerCase() === "true" ||
+  process.env.SMTP_PORT === "465";
+const smtpUser = process.env.SMTP_USER;
+const smtpPass = process.env.SMTP_PASS;
+const configuredFromAddress =
+  process.env.EMAIL_FROM || "Zapvent Dev <no-reply@zapvent.local>";
+const fileOutputDir = process.env.EMAIL_FILE_DIR || "tmp/emails";
+
+const memoryMailbox: MemoryMailboxEntry[] = [];
+
+let transportPromise: Promise<EmailTransport> | null = null;
+
+function resolveTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT?.toLowerCase();
+  if (configured === "file" || configured === "memory" || configured === "smtp") {
+    return configured;
+  }
+  // Never reach for the network from the test runner
+  return process.env.NODE_ENV === "test" ? "memory" : "smtp";
+}
+
+async function createSmtpTransport(): Promise<EmailTransport> {
+  let transporter: Transporter;
+  let defaultFrom = configuredFromAddress;
+  let isTestAccount = false;
+
+  if (smtpHost) {
+    transporter = nodemailer.createTransport({
+      host: smtpHost,
+      port: smtpPort ?? 587,
+      secure: smtpSecure,
+      auth: smtpUser
+        ? {
+            user: smtpUser,
+            pass: smtpPass ?? "",
+          }
+        : undefined,
+    });
+
+    await transporter.verify().catch((err) => {
+      console.warn("EmailService: SMTP verification failed.", err);
+      throw err;
+    });
+  } else {
+    const testAccount = await nodemailer.createTestAccount();
+    transporter = nodemailer.createTransport({
+      host: testAccount.smtp.host,
+      port: testAccount.smtp.port,
+      secure: testAccount.smtp.secure,
+      auth: {
+        user: testAccount.user,
+        pass: testAccount.pass,
+      },
+    });
+    defaultFrom = `Zapvent Dev <${testAccount.user}>`;
+    isTestAccount = true;
+
+    console.info(
+      `EmailService: using Ethereal test account (${testAccount.user}).`
+    );
+  }
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: message.from ?? defaultFrom,
+        ...message,
+      });
+
+      const previewUrl = nodemailer.getTestMessageUrl(info);
+      if (previewUrl && isTestAccount) {
+        console.info(`EmailService: Preview URL ${previewUrl}`);
+      }
+
+      return {
+        messageId: info.messageId,
+        previewUrl: previewUrl || undefined,
+      };
+    },
+  };
+}
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+// Writes each message as an .eml (open it in any mail client) next to an
+// .html copy for a quick look in the browser.
+function createFileTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: message.from ?? configuredFromAddress,
+        ...message,
+      });
+
+      const directory = path.resolve(fileOutputDir);
+      await fs.mkdir(directory, { recursive: true });
+
+      const basename = `${Date.now()}-${slugify(String(message.subject ?? "email")) || "email"}`;
+      const emlPath = path.join(directory, `${basename}.eml`);
+      await fs.writeFile(emlPath, info.message as Buffer);
+      if (typeof message.html === "string") {
+        await fs.writeFile(path.join(directory, `${basename}.html`), message.html);
+      }
+
+      console.info(`EmailService: wrote ${emlPath}`);
+      return { messageId: info.messageId, previewUrl: `file://${emlPath}` };
+    },
+  };
+}
+
+function createMemoryTransport(): EmailTransport {
+  let sequence = 0;
+
+  return {
+    name: "memory",
+    async send(message) {
+      sequence += 1;
+      const messageId = `<memory-${Date.now()}-${sequence}@zapvent.local>`;
+      memoryMailbox.push({
+        from: configuredFromAddress,
+        ...message,
+        messageId,
+        deliveredAt: new Date(),
+      });
+      return { messageId };
+    },
+  };
+}
+
+export async function getEmailTransport(): Promise<EmailTransport> {
+  if (!transportPromise) {
+    const name = resolveTransportName();
+    const created =
+      name === "file"
+        ? Promise.resolve(createFileTransport())
+        : name === "memory"
+          ? Promise.resolve(createMemoryTransport())
+          : createSmtpTransport();
+
+    transportPromise = created.catch((err) => {
+      transportPromise = null;
+      throw err;
+    });
+  }
+  return transportPromise;
+}
+
+export function getMemoryMailbox(): readonly MemoryMailboxEntry[] {
+  return memoryMailbox;
+}
+
+export function clearMemoryMailbox() {
+  memoryMailbox.length = 0;
+}
@@ -0,0 +1,370 @@
+import { Types } from "mongoose";
+import EventModel, { IEvent, PublicationStatus } from "../models/Event";
+import { notifyUsersOfNewEvent } from "./notificationService";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type PublicationFields = {
+  publicationStatus: PublicationStatus;
+  publishAt?: Date;
+  publishedAt?: Date;
+};
+
+export type EventPublicationData = {
+  id: string;
+  publicationStatus: PublicationStatus;
+  publishAt?: Date;
+  publishedAt?: Date;
+  announced: boolean;
+};
+
+type EventWithId = IEvent & { _id: Types.ObjectId };
+
+const PUBLISH_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+let publishSchedulerStarted = false;
+let publishSchedulerBusy = false;
+
+// `null` also matches events created before drafts existed
+export const PUBLISHED_EVENT_FILTER = {
+  publicationStatus: { $in: [PublicationStatus.PUBLISHED, null] },
+};
+
+export function isEventPublished(event: Pick<IEvent, "publicationStatus">): boolean {
+  return !event.publicationStatus || event.publicationStatus === PublicationStatus.PUBLISHED;
+}
+
+function parseDraftFlag(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * Reads `draft` and `publishAt` from a create request. Without either the
+ * event is published straight away, which is what every create did before.
+ */
+export function parsePublicationInput(
+  input: unknown,
+  now: Date = new Date()
+): { success: true; fields: PublicationFields } | { success: false; message: string } {
+  const body = (input ?? {}) as Record<string, unknown>;
+
+  if (body.publishAt !== undefined && body.publishAt !== null && body.publishAt !== "") {
+    const publishAt = new Date(body.publishAt as string);
+    if (Number.isNaN(publishAt.getTime())) {
+      return { success: false, message: "Publish time is invalid." };
+    }
+    if (publishAt <= now) {
+      return { success: false, message: "Publish time must be in the future." };
+    }
+    return {
+      success: true,
+      fields: {
+        publicationStatus: PublicationStatus.SCHEDULED,
+        publishAt,
+        publishedAt: undefined,
+      },
+    };
+  }
+
+  if (parseDraftFlag(body.draft)) {
+    return {
+      success: true,
+      fields: {
+        publicationStatus: PublicationStatus.DRAFT,
+        publishAt: undefined,
+        publishedAt: undefined,
+      },
+    };
+  }
+
+  return {
+    success: true,
+    fields: {
+      publicationStatus: PublicationStatus.PUBLISHED,
+      publishAt: undefined,
+      publishedAt: now,
+    },
+  };
+}
+
+/**
+ * Sends the new-event announcement for a published event, at most once per
+ * event, so unpublishing and publishing again does not notify everyone twice.
+ */
+export async function announceEvent(
+  event: Pick<IEvent, "name" | "eventType" | "startDate" | "publicationStatus"> & {
+    _id: unknown;
+  }
+): Promise<boolean> {
+  if (!isEventPublished(event)) {
+    return false;
+  }
+
+  const claimed = await EventModel.updateOne(
+    { _id: event._id, announcedAt: { $exists: false } },
+    { $set: { announcedAt: new Date() } }
+  );
+  if (!claimed.modifiedCount) {
+    return false;
+  }
+
+  await notifyUsersOfNewEvent(event);
+  return true;
+}
+
+function toPublicationData(event: EventWithId): EventPublicationData {
+  return {
+    id: event._id.toString(),
+    publicationStatus: event.publicationStatus ?? PublicationStatus.PUBLISHED,
+    publishAt: event.publishAt,
+    publishedAt: event.publishedAt,
+    announced: Boolean(event.announcedAt),
+  };
+}
+
+async function findEvent(eventId: string) {
+  if (!Types.ObjectId.isValid(eventId)) {
+    return { success: false as const, message: "Invalid event ID.", statusCode: 400 };
+  }
+  const event = await EventModel.findById(eventId).lean<EventWithId | null>();
+  if (!event) {
+    return { success: false as const, message: "Event not found.", statusCode: 404 };
+  }
+  return { success: true as const, event };
+}
+
+// `whileScheduled` only publishes the schedule that was read, so an event
+// unpublished or moved to a later time in the meantime is left alone
+async function markPublished(
+  event: EventWithId,
+  publishedAt: Date,
+  { whileScheduled = false } = {}
+) {
+  const filter = whileScheduled
+    ? {
+        _id: event._id,
+        publicationStatus: PublicationStatus.SCHEDULED,
+        publishAt: event.publishAt,
+      }
+    : { _id: event._id };
+  const updated = await EventModel.findOneAndUpdate(
+    filter,
+    {
+      $set: { publicationStatus: PublicationStatus.PUBLISHED, publishedAt },
+      $unset: { publishAt: 1 },
+    },
+    { new: true }
+  ).lean<EventWithId | null>();
+  if (!updated) return null;
+
+  if (await announceEvent(updated)) {
+    updated.announcedAt = new Date();
+  }
+  return updated;
+}
+
+/**
+ * Publishes an event now, or schedules it when `publishAt` is given. The
+ * announcement goes out when the event actually goes live.
+ */
+export async function publishEvent(
+  eventId: string,
+  input: unknown
+): Promise<ServiceResponse<EventPublicationData>> {
+  try {
+    const found = await findEvent(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    const now = new Date();
+    if (new Date(event.endDate) < now) {
+      return {
+        success: false,
+        message: "Events that have ended cannot be published.",
+        statusCode: 400,
+      };
+    }
+
+    const body = (input ?? {}) as Record<string, unknown>;
+    const parsed = parsePublicationInput({ publishAt: body.publishAt }, now);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+
+    const { publicationStatus, publishAt } = parsed.fields;
+    if (publicationStatus === PublicationStatus.SCHEDULED && publishAt) {
+      if (publishAt >= new Date(event.startDate)) {
+        return {
+          success: false,
+          message: "Schedule the publish time before the event starts.",
+          statusCode: 400,
+        };
+      }
+      if (isEventPublished(event)) {
+        return {
+          success: false,
+          message: "This event is already published. Unpublish it first.",
+          statusCode: 409,
+        };
+      }
+
+      const scheduled = await EventModel.findByIdAndUpdate(
+        event._id,
+        { $set: { publicationStatus: PublicationStatus.SCHEDULED, publishAt } },
+        { new: true }
+      ).lean<EventWithId | null>();
+      if (!scheduled) {
+        return { success: false, message: "Event not found.", statusCode: 404 };
+      }
+
+      return {
+        success: true,
+        message: `${event.name} will be published on ${publishAt.toISOString()}.`,
+        data: toPublicationData(scheduled),
+      };
+    }
+
+    if (isEventPublished(event)) {
+      return {
+        success: false,
+        message: "This event is already published.",
+        statusCode: 409,
+      };
+    }
+
+    const published = await markPublished(event, now);
+    if (!published) {
+      return { success: false, message: "Event not found.", statusCode: 404 };
+    }
+
+    return {
+      success: true,
+      message: `${event.name} is now published.`,
+      data: toPublicationData(published),
+    };
+  } catch (error) {
+    console.error("Error publishing event:", error);
+    return { success: false, message: "Failed to publish event.", statusCode: 500 };
+  }
+}
+
+/**
+ * Hides an event from listings and new registrations. Existing registrations,
+ * payments and waitlists are left alone. A scheduled event that never went
+ * live goes back to being a draft.
+ */
+export async function unpublishEvent(
+  eventId: string
+): Promise<ServiceResponse<EventPublicationData>> {
+  try {
+    const found = await findEvent(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    if (
+      event.publicationStatus === PublicationStatus.DRAFT ||
+      event.publicationStatus === PublicationStatus.UNPUBLISHED
+    ) {
+      return {
+        success: false,
+        message: "This event is not published.",
+        statusCode: 409,
+      };
+    }
+
+    const nextStatus =
+      event.publicationStatus === PublicationStatus.SCHEDULED
+        ? PublicationStatus.DRAFT
+        : PublicationStatus.UNPUBLISHED;
+
+    // Events from before drafts were announced when created; keep it that way
+    const legacyAnnouncement =
+      !event.publicationStatus && !event.announcedAt
+        ? { announcedAt: event.createdAt ?? new Date() }
+        : {};
+
+    const updated = await EventModel.findByIdAndUpdate(
+      event._id,
+      {
+        $set: { publicationStatus: nextStatus, ...legacyAnnouncement },
+        $unset: { publishAt: 1 },
+      },
+      { new: true }
+    ).lean<EventWithId | null>();
+    if (!updated) {
+      return { success: false, message: "Event not found.", statusCode: 404 };
+    }
+
+    return {
+      success: true,
+      message:
+        nextStatus === PublicationStatus.DRAFT
+          ? `${event.name} is back to a draft.`
+          : `${event.name} is hidden. Existing registrations are kept.`,
+      data: toPublicationData(updated),
+    };
+  } catch (error) {
+    console.error("Error unpublishing event:", error);
+    return { success: false, message: "Failed to unpublish event.", statusCode: 500 };
+  }
+}
+
+/** Publishes every scheduled event whose publish time has passed. */
+export async function publishDueEvents(now: Date = new Date()): Promise<number> {
+  const due = await EventModel.find({
+    publicationStatus: PublicationStatus.SCHEDULED,
+    publishAt: { $lte: now },
+  }).lean<EventWithId[]>();
+
+  let published = 0;
+  for (const event of due) {
+    try {
+      const publishedAt = event.publishAt ?? now;
+      if (await markPublished(event, publishedAt, { whileScheduled: true })) {
+        published += 1;
+      }
+    } catch (error) {
+      console.error(
+        `[PublishScheduler] Failed to publish event ${event._id.toString()}:`,
+        error
+      );
+    }
+  }
+  return published;
+}
+
+export function startEventPublishScheduler() {
+  if (publishSchedulerStarted) {
+    return;
+  }
+
+  publishSchedulerStarted = true;
+
+  const tick = async () => {
+    if (publishSchedulerBusy) {
+      return;
+    }
+
+    publishSchedulerBusy = true;
+    try {
+      const published = await publishDueEvents();
+      if (published) {
+        console.info(`[PublishScheduler] Published ${published} scheduled event(s)`);
+      }
+    } catch (error) {
+      console.error("Publish scheduler tick error:", error);
+    } finally {
+      publishSchedulerBusy = false;
+    }
+  };
+
+  void tick();
+
+  setInterval(() => {
+    void tick();
+  }, PUBLISH_CHECK_INTERVAL_MS);
+}
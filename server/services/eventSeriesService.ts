@@ -0,0 +1,763 @@
+import { Types } from "mongoose";
+import EventModel, {
+  EventType,
+  IAgendaSession,
+  IEvent,
+  Location,
+  WorkshopStatus,
+} from "../models/Event";
+import EventSeriesModel, { IEventSeries, SeriesFrequency } from "../models/EventSeries";
+import vendorModel from "../models/Vendor";
+import { getCampusTimeZone, timezoneOffsetMinutes } from "./campusService";
+import { announceEvent, parsePublicationInput } from "./eventPublicationService";
+import { deleteEventById } from "./eventService";
+import { checkEventVenue, findVenueConflicts } from "./venueService";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type DateShift = { days?: number; months?: number; years?: number };
+
+export type Recurrence = {
+  frequency: SeriesFrequency;
+  interval: number;
+  count: number; // occurrences including the source event
+};
+
+export type SeriesOccurrence = {
+  id: string;
+  name: string;
+  seriesIndex: number;
+  startDate: Date;
+  endDate: Date;
+  registeredCount: number;
+  archived: boolean;
+};
+
+export type EventSeriesData = {
+  id: string;
+  name: string;
+  eventType: EventType;
+  frequency: SeriesFrequency;
+  interval: number;
+  cancelledAt?: Date;
+  occurrences: SeriesOccurrence[];
+};
+
+export type SeriesCancellationData = {
+  cancelled: number;
+  kept: Array<{ id: string; name: string; startDate: Date; reason: string }>;
+};
+
+type EventWithId = IEvent & { _id: Types.ObjectId };
+
+// Platform booths have no dates to shift
+export const REPEATABLE_EVENT_TYPES = [
+  EventType.BAZAAR,
+  EventType.TRIP,
+  EventType.WORKSHOP,
+  EventType.SEMINAR,
+  EventType.CONFERENCE,
+];
+
+// Everything an occurrence shares with its source; registrations, revenue,
+// vendors, check-ins and certificates start empty
+const COPIED_FIELDS = [
+  "name",
+  "eventType",
+  "description",
+  "location",
+  "venueId",
+  "capacity",
+  "price",
+  "fullAgenda",
+  "faculty",
+  "requiredBudget",
+  "participatingProfessors",
+  "fundingSource",
+  "websiteLink",
+  "extraRequiredResources",
+  "createdBy",
+  "workshopStatus",
+  "allowedRoles",
+  "refundPolicy",
+  "registrationEnabled",
+  "ticketTiers",
+] as const;
+
+const SHIFTED_FIELDS = ["date", "startDate", "endDate", "registrationDeadline"] as const;
+
+// Fields a series-wide edit may change on every upcoming occurrence
+const SERIES_FIELDS = [
+  "name",
+  "description",
+  "location",
+  "capacity",
+  "price",
+  "allowedRoles",
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_OFFSET_DAYS = 5 * 366;
+const MAX_OCCURRENCES = 52;
+
+/**
+ * Moves an instant by whole days, months or years on the campus wall clock,
+ * so a 10:00 bazaar stays at 10:00 across DST changes. Month shifts clamp to
+ * the last day of shorter months.
+ */
+export function shiftEventDate(value: Date, shift: DateShift, timeZone: string) {
+  const instant = new Date(value);
+  const offset = timezoneOffsetMinutes(instant, timeZone);
+  const wall = new Date(instant.getTime() + offset * 60000);
+
+  const targetMonth = wall.getUTCMonth() + (shift.months ?? 0) + 12 * (shift.years ?? 0);
+  const target = new Date(
+    Date.UTC(
+      wall.getUTCFullYear(),
+      targetMonth,
+      1,
+      wall.getUTCHours(),
+      wall.getUTCMinutes(),
+      wall.getUTCSeconds(),
+      wall.getUTCMilliseconds()
+    )
+  );
+  const daysInMonth = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(wall.getUTCDate(), daysInMonth) + (shift.days ?? 0));
+
+  const guess = new Date(target.getTime() - offset * 60000);
+  return new Date(target.getTime() - timezoneOffsetMinutes(guess, timeZone) * 60000);
+}
+
+export function recurrenceShift(
+  recurrence: Pick<Recurrence, "frequency" | "interval">,
+  index: number
+): DateShift {
+  const steps = recurrence.interval * index;
+  switch (recurrence.frequency) {
+    case SeriesFrequency.WEEKLY:
+      return { days: 7 * steps };
+    case SeriesFrequency.MONTHLY:
+      return { months: steps };
+    default:
+      return { years: steps };
+  }
+}
+
+/** A fresh copy of `event` with every date moved by `shift`. */
+export function buildEventCopy(
+  event: Partial<IEvent>,
+  shift: DateShift
+): Partial<IEvent> {
+  const timeZone = getCampusTimeZone(event.location);
+  const copy: Record<string, unknown> = {};
+
+  for (const field of COPIED_FIELDS) {
+    if (event[field] !== undefined && event[field] !== null) {
+      copy[field] = event[field];
+    }
+  }
+  for (const field of SHIFTED_FIELDS) {
+    if (event[field]) {
+      copy[field] = shiftEventDate(event[field] as Date, shift, timeZone);
+    }
+  }
+  if (event.agendaSessions?.length) {
+    copy.agendaSessions = event.agendaSessions.map((session: IAgendaSession) => ({
+      title: session.title,
+      startTime: shiftEventDate(session.startTime, shift, timeZone),
+      endTime: shiftEventDate(session.endTime, shift, timeZone),
+      room: session.room,
+      track: session.track,
+      speakers: session.speakers,
+      abstract: session.abstract,
+      bookmarkedBy: [],
+    }));
+  }
+  // A copied workshop is a new proposal and needs approval again
+  if (event.eventType === EventType.WORKSHOP) {
+    copy.workshopStatus = WorkshopStatus.PENDING;
+  }
+
+  return copy as Partial<IEvent>;
+}
+
+export function parseRecurrence(
+  input: unknown,
+  firstStartDate: Date
+): { success: true; recurrence: Recurrence } | { success: false; message: string } {
+  if (!input || typeof input !== "object") {
+    return { success: false, message: "A recurrence rule is required." };
+  }
+  const { frequency, interval, count, until } = input as Record<string, unknown>;
+
+  if (!Object.values(SeriesFrequency).includes(frequency as SeriesFrequency)) {
+    return {
+      success: false,
+      message: `Frequency must be one of: ${Object.values(SeriesFrequency).join(", ")}.`,
+    };
+  }
+  const parsedInterval = interval === undefined || interval === "" ? 1 : Number(interval);
+  if (!Number.isInteger(parsedInterval) || parsedInterval < 1 || parsedInterval > 12) {
+    return { success: false, message: "Interval must be a whole number from 1 to 12." };
+  }
+
+  const rule = { frequency: frequency as SeriesFrequency, interval: parsedInterval };
+  let parsedCount: number;
+  if (count !== undefined && count !== null && count !== "") {
+    parsedCount = Number(count);
+  } else if (until) {
+    const untilDate = new Date(until as string);
+    if (Number.isNaN(untilDate.getTime())) {
+      return { success: false, message: "Repeat-until date is invalid." };
+    }
+    parsedCount = 1;
+    while (
+      parsedCount <= MAX_OCCURRENCES &&
+      shiftEventDate(firstStartDate, recurrenceShift(rule, parsedCount), "UTC") <= untilDate
+    ) {
+      parsedCount += 1;
+    }
+  } else {
+    return { success: false, message: "Give either a number of occurrences or an end date." };
+  }
+
+  if (!Number.isInteger(parsedCount) || parsedCount < 2 || parsedCount > MAX_OCCURRENCES) {
+    return {
+      success: false,
+      message: `A series needs between 2 and ${MAX_OCCURRENCES} occurrences.`,
+    };
+  }
+
+  return { success: true, recurrence: { ...rule, count: parsedCount } };
+}
+
+function parseDuplicateShift(
+  input: unknown,
+  event: Pick<IEvent, "startDate" | "location">
+): { success: true; shift: DateShift } | { success: false; message: string } {
+  const { offsetDays, startDate } = (input ?? {}) as Record<string, unknown>;
+
+  let days: number;
+  if (offsetDays !== undefined && offsetDays !== null && offsetDays !== "") {
+    days = Number(offsetDays);
+  } else if (startDate) {
+    const target = new Date(startDate as string);
+    if (Number.isNaN(target.getTime())) {
+      return { success: false, message: "New start date is invalid." };
+    }
+    // Whole days between the campus calendar dates, so the time of day is kept
+    const timeZone = getCampusTimeZone(event.location);
+    const dayOf = (value: Date) =>
+      Math.floor((value.getTime() + timezoneOffsetMinutes(value, timeZone) * 60000) / DAY_MS);
+    days = dayOf(target) - dayOf(new Date(event.startDate));
+  } else {
+    return { success: false, message: "Give an offset in days or a new start date." };
+  }
+
+  if (!Number.isInteger(days) || days === 0 || Math.abs(days) > MAX_OFFSET_DAYS) {
+    return {
+      success: false,
+      message: `The offset must be a whole number of days, not 0 and at most ${MAX_OFFSET_DAYS}.`,
+    };
+  }
+  return { success: true, shift: { days } };
+}
+
+async function findRepeatableEvent(eventId: string) {
+  if (!Types.ObjectId.isValid(eventId)) {
+    return { success: false as const, message: "Invalid event ID.", statusCode: 400 };
+  }
+  const event = await EventModel.findById(eventId).lean<EventWithId | null>();
+  if (!event) {
+    return { success: false as const, message: "Event not found.", statusCode: 404 };
+  }
+  if (!REPEATABLE_EVENT_TYPES.includes(event.eventType)) {
+    return {
+      success: false as const,
+      message: `${event.eventType} events cannot be copied.`,
+      statusCode: 400,
+    };
+  }
+  return { success: true as const, event };
+}
+
+/** Copies an event to new dates without its registrations, revenue or vendors. */
+export async function duplicateEvent(
+  eventId: string,
+  input: unknown
+): Promise<ServiceResponse<{ id: string; name: string; startDate: Date; endDate: Date }>> {
+  try {
+    const found = await findRepeatableEvent(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    const parsed = parseDuplicateShift(input, event);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+    const publication = parsePublicationInput(input);
+    if (!publication.success) {
+      return { success: false, message: publication.message, statusCode: 400 };
+    }
+
+    const copy = buildEventCopy(event, parsed.shift);
+    if (!copy.startDate || copy.startDate <= new Date()) {
+      return {
+        success: false,
+        message: "The copy would start in the past. Pick a later date.",
+        statusCode: 400,
+      };
+    }
+
+    // The copy keeps the room, so make sure it is free on the new dates
+    const venueCheck = await checkEventVenue({
+      venueId: copy.venueId,
+      location: copy.location,
+      startDate: copy.startDate,
+      endDate: copy.endDate as Date,
+      capacity: copy.capacity,
+      allowDoubleBooking: (input as Record<string, unknown> | undefined)?.allowDoubleBooking,
+    });
+    if (!venueCheck.success) return venueCheck;
+
+    const created = await EventModel.create({ ...copy, ...publication.fields });
+    await announceEvent(created.toObject());
+
+    return {
+      success: true,
+      message: [
+        `${event.name} copied to ${created.startDate.toISOString().slice(0, 10)}.`,
+        venueCheck.warning,
+      ]
+        .filter(Boolean)
+        .join(" "),
+      statusCode: 201,
+      data: {
+        id: created._id.toString(),
+        name: created.name,
+        startDate: created.startDate,
+        endDate: created.endDate,
+      },
+    };
+  } catch (error) {
+    console.error("Error duplicating event:", error);
+    return { success: false, message: "Failed to duplicate event.", statusCode: 500 };
+  }
+}
+
+function toSeriesData(
+  series: IEventSeries & { _id: Types.ObjectId },
+  occurrences: EventWithId[]
+): EventSeriesData {
+  return {
+    id: series._id.toString(),
+    name: series.name,
+    eventType: series.eventType,
+    frequency: series.frequency,
+    interval: series.interval,
+    cancelledAt: series.cancelledAt,
+    occurrences: occurrences
+      .map((occurrence) => ({
+        id: occurrence._id.toString(),
+        name: occurrence.name,
+        seriesIndex: occurrence.seriesIndex ?? 0,
+        startDate: occurrence.startDate,
+        endDate: occurrence.endDate,
+        registeredCount: occurrence.registeredUsers?.length ?? 0,
+        archived: Boolean(occurrence.archived),
+      }))
+      .sort((a, b) => a.seriesIndex - b.seriesIndex),
+  };
+}
+
+/**
+ * Turns an event into the first occurrence of a series and generates the
+ * rest. Occurrences that would already have started are skipped.
+ */
+export async function createEventSeries(
+  eventId: string,
+  input: unknown,
+  createdBy?: string
+): Promise<ServiceResponse<EventSeriesData>> {
+  try {
+    const found = await findRepeatableEvent(eventId);
+    if (!found.success) return found;
+    const { event } = found;
+
+    if (event.seriesId) {
+      return {
+        success: false,
+        message: "This event already belongs to a series.",
+        statusCode: 409,
+      };
+    }
+
+    const parsed = parseRecurrence(input, event.startDate);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+    const { recurrence } = parsed;
+    // Occurrences can be staged as drafts; published ones are not announced one by one
+    const publication = parsePublicationInput(input);
+    if (!publication.success) {
+      return { success: false, message: publication.message, statusCode: 400 };
+    }
+
+    const gap = shiftEventDate(event.startDate, recurrenceShift(recurrence, 1), "UTC");
+    if (new Date(event.endDate) > gap) {
+      return {
+        success: false,
+        message: "Occurrences would overlap: the event lasts longer than the repeat interval.",
+        statusCode: 400,
+      };
+    }
+
+    const now = new Date();
+    const copies = Array.from({ length: recurrence.count - 1 }, (_, offset) => ({
+      ...buildEventCopy(event, recurrenceShift(recurrence, offset + 1)),
+      seriesIndex: offset + 1,
+    })).filter((copy) => copy.startDate && copy.startDate > now);
+    if (!copies.length) {
+      return {
+        success: false,
+        message: "Every occurrence of this series would be in the past.",
+        statusCode: 400,
+      };
+    }
+
+    const allowDoubleBooking = (input as Record<string, unknown>).allowDoubleBooking;
+    if (event.venueId && allowDoubleBooking !== true && allowDoubleBooking !== "true") {
+      const clashing: string[] = [];
+      for (const copy of copies) {
+        const conflicts = await findVenueConflicts(
+          event.venueId,
+          copy.startDate as Date,
+          copy.endDate as Date
+        );
+        if (conflicts.length) {
+          clashing.push((copy.startDate as Date).toISOString().slice(0, 10));
+        }
+      }
+      if (clashing.length) {
+        return {
+          success: false,
+          message: `The room is already booked on ${clashing.join(", ")}. Pick another interval, or book it anyway.`,
+          statusCode: 409,
+        };
+      }
+    }
+
+    const series = await EventSeriesModel.create({
+      name: event.name,
+      eventType: event.eventType,
+      frequency: recurrence.frequency,
+      interval: recurrence.interval,
+      occurrenceCount: recurrence.count,
+      firstStartDate: event.startDate,
+      createdBy,
+    });
+    const seriesId = series._id.toString();
+
+    await EventModel.updateOne({ _id: event._id }, { seriesId, seriesIndex: 0 });
+    await EventModel.insertMany(
+      copies.map((copy) => ({ ...copy, ...publication.fields, seriesId }))
+    );
+
+    const occurrences = await EventModel.find({ seriesId }).lean<EventWithId[]>();
+    return {
+      success: true,
+      message: `Series created with ${copies.length} more occurrence${
+        copies.length === 1 ? "" : "s"
+      }.`,
+      statusCode: 201,
+      data: toSeriesData(series.toObject(), occurrences),
+    };
+  } catch (error) {
+    console.error("Error creating event series:", error);
+    return { success: false, message: "Failed to create series.", statusCode: 500 };
+  }
+}
+
+async function findSeries(seriesId: string) {
+  if (!Types.ObjectId.isValid(seriesId)) {
+    return { success: false as const, message: "Invalid series ID.", statusCode: 400 };
+  }
+  const series = await EventSeriesModel.findById(seriesId).lean<
+    (IEventSeries & { _id: Types.ObjectId }) | null
+  >();
+  if (!series) {
+    return { success: false as const, message: "Series not found.", statusCode: 404 };
+  }
+  return { success: true as const, series };
+}
+
+export async function getEventSeries(
+  seriesId: string
+): Promise<ServiceResponse<EventSeriesData>> {
+  try {
+    const found = await findSeries(seriesId);
+    if (!found.success) return found;
+
+    const occurrences = await EventModel.find({ seriesId }).lean<EventWithId[]>();
+    return {
+      success: true,
+      message: "Series retrieved successfully.",
+      data: toSeriesData(found.series, occurrences),
+    };
+  } catch (error) {
+    console.error("Error getting event series:", error);
+    return { success: false, message: "Failed to load series.", statusCode: 500 };
+  }
+}
+
+/**
+ * Occurrences a series-wide change applies to: those that have not started,
+ * optionally only from `fromEventId` onwards ("this and following").
+ */
+async function findUpcomingOccurrences(seriesId: string, fromEventId?: string) {
+  const occurrences = await EventModel.find({
+    seriesId,
+    startDate: { $gt: new Date() },
+  }).lean<EventWithId[]>();
+
+  if (!fromEventId) {
+    return { success: true as const, occurrences };
+  }
+  const from = occurrences.find((occurrence) => occurrence._id.equals(fromEventId));
+  if (!from) {
+    return {
+      success: false as const,
+      message: "That occurrence is not an upcoming part of this series.",
+      statusCode: 400,
+    };
+  }
+  return {
+    success: true as const,
+    occurrences: occurrences.filter(
+      (occurrence) => (occurrence.seriesIndex ?? 0) >= (from.seriesIndex ?? 0)
+    ),
+  };
+}
+
+function parseSeriesUpdates(
+  input: unknown
+): { success: true; updates: Partial<IEvent> } | { success: false; message: string } {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const updates: Record<string, unknown> = {};
+
+  for (const field of SERIES_FIELDS) {
+    if (body[field] !== undefined) {
+      updates[field] = body[field];
+    }
+  }
+  if (!Object.keys(updates).length) {
+    return {
+      success: false,
+      message: `Nothing to update. Series edits can change: ${SERIES_FIELDS.join(", ")}.`,
+    };
+  }
+
+  if ("name" in updates && (typeof updates.name !== "string" || !updates.name.trim())) {
+    return { success: false, message: "Name cannot be empty." };
+  }
+  if (
+    "description" in updates &&
+    (typeof updates.description !== "string" || !updates.description.trim())
+  ) {
+    return { success: false, message: "Description cannot be empty." };
+  }
+  if (
+    "location" in updates &&
+    !Object.values(Location).includes(updates.location as Location)
+  ) {
+    return { success: false, message: "Invalid location." };
+  }
+  if ("capacity" in updates && updates.capacity !== null) {
+    const capacity = Number(updates.capacity);
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      return { success: false, message: "Capacity must be a whole number of at least 1." };
+    }
+    updates.capacity = capacity;
+  }
+  if ("price" in updates && updates.price !== null) {
+    const price = Number(updates.price);
+    if (!Number.isFinite(price) || price < 0) {
+      return { success: false, message: "Price must be 0 or more." };
+    }
+    updates.price = price;
+  }
+  if (
+    "allowedRoles" in updates &&
+    (!Array.isArray(updates.allowedRoles) ||
+      updates.allowedRoles.some((role) => typeof role !== "string"))
+  ) {
+    return { success: false, message: "allowedRoles must be a list of roles." };
+  }
+
+  return { success: true, updates: updates as Partial<IEvent> };
+}
+
+/** Applies the same change to every upcoming occurrence (or this and following). */
+export async function updateEventSeries(
+  seriesId: string,
+  input: unknown,
+  fromEventId?: string
+): Promise<ServiceResponse<{ updated: number }>> {
+  try {
+    const found = await findSeries(seriesId);
+    if (!found.success) return found;
+    if (found.series.cancelledAt) {
+      return { success: false, message: "This series was cancelled.", statusCode: 409 };
+    }
+
+    const parsed = parseSeriesUpdates(input);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+    const { updates } = parsed;
+
+    const upcoming = await findUpcomingOccurrences(seriesId, fromEventId);
+    if (!upcoming.success) return upcoming;
+    const { occurrences } = upcoming;
+    if (!occurrences.length) {
+      return {
+        success: false,
+        message: "No upcoming occurrences to update.",
+        statusCode: 400,
+      };
+    }
+
+    if (updates.location !== undefined || typeof updates.capacity === "number") {
+      for (const occurrence of occurrences.filter((item) => item.venueId)) {
+        // Times do not change here, so existing clashes are not re-reported
+        const venueCheck = await checkEventVenue({
+          venueId: occurrence.venueId,
+          location: updates.location ?? occurrence.location,
+          startDate: occurrence.startDate,
+          endDate: occurrence.endDate,
+          capacity:
+            typeof updates.capacity === "number" ? updates.capacity : occurrence.capacity,
+          excludeEventId: occurrence._id.toString(),
+          allowDoubleBooking: true,
+        });
+        if (!venueCheck.success) return venueCheck;
+      }
+    }
+
+    if (typeof updates.capacity === "number") {
+      const overbooked = occurrences.find(
+        (occurrence) => (occurrence.registeredUsers?.length ?? 0) > (updates.capacity as number)
+      );
+      if (overbooked) {
+        return {
+          success: false,
+          message: `${overbooked.name} on ${overbooked.startDate.toISOString().slice(0, 10)} already has ${overbooked.registeredUsers.length} registrations; capacity cannot be lower.`,
+          statusCode: 409,
+        };
+      }
+    }
+
+    const { capacity, price, ...rest } = updates;
+    const unset = {
+      ...(capacity === null ? { capacity: "" } : {}),
+      ...(price === null ? { price: "" } : {}),
+    };
+    await EventModel.updateMany(
+      { _id: { $in: occurrences.map((occurrence) => occurrence._id) } },
+      {
+        $set: {
+          ...rest,
+          ...(capacity !== null && capacity !== undefined ? { capacity } : {}),
+          ...(price !== null && price !== undefined ? { price } : {}),
+        },
+        ...(Object.keys(unset).length ? { $unset: unset } : {}),
+        $inc: { calendarSequence: 1 },
+      },
+      { runValidators: true }
+    );
+    if (updates.name && !fromEventId) {
+      await EventSeriesModel.updateOne({ _id: seriesId }, { name: updates.name });
+    }
+
+    return {
+      success: true,
+      message: `Updated ${occurrences.length} upcoming occurrence${
+        occurrences.length === 1 ? "" : "s"
+      }.`,
+      data: { updated: occurrences.length },
+    };
+  } catch (error) {
+    console.error("Error updating event series:", error);
+    return { success: false, message: "Failed to update series.", statusCode: 500 };
+  }
+}
+
+/**
+ * Cancels every upcoming occurrence (or this and following). Occurrences
+ * that already took registrations or vendor applications are kept so they
+ * can be refunded and cancelled one by one.
+ */
+export async function cancelEventSeries(
+  seriesId: string,
+  fromEventId?: string
+): Promise<ServiceResponse<SeriesCancellationData>> {
+  try {
+    const found = await findSeries(seriesId);
+    if (!found.success) return found;
+
+    const upcoming = await findUpcomingOccurrences(seriesId, fromEventId);
+    if (!upcoming.success) return upcoming;
+    const { occurrences } = upcoming;
+
+    const withApplications = new Set(
+      (
+        await vendorModel.distinct("applications.eventId", {
+          "applications.eventId": { $in: occurrences.map((occurrence) => occurrence._id) },
+        })
+      ).map((id: Types.ObjectId) => id.toString())
+    );
+
+    const kept: SeriesCancellationData["kept"] = [];
+    let cancelled = 0;
+    for (const occurrence of occurrences) {
+      const id = occurrence._id.toString();
+      const registered =
+        (occurrence.registeredUsers?.length ?? 0) + (occurrence.groupHolds?.length ?? 0);
+      const reason = registered
+        ? `${registered} registration${registered === 1 ? "" : "s"}`
+        : withApplications.has(id)
+          ? "vendor applications"
+          : null;
+      if (reason) {
+        kept.push({ id, name: occurrence.name, startDate: occurrence.startDate, reason });
+        continue;
+      }
+      if (await deleteEventById(id)) {
+        cancelled += 1;
+      }
+    }
+
+    if (!fromEventId && !kept.length) {
+      await EventSeriesModel.updateOne({ _id: seriesId }, { cancelledAt: new Date() });
+    }
+
+    return {
+      success: true,
+      message: kept.length
+        ? `Cancelled ${cancelled} occurrence${cancelled === 1 ? "" : "s"}; ${kept.length} with registrations or vendor applications must be cancelled individually.`
+        : `Cancelled ${cancelled} occurrence${cancelled === 1 ? "" : "s"}.`,
+      data: { cancelled, kept },
+    };
+  } catch (error) {
+    console.error("Error cancelling event series:", error);
+    return { success: false, message: "Failed to cancel series.", statusCode: 500 };
+  }
+}
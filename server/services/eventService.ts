@@ -7,8 +7,11 @@ import EventModel, {
   FundingSource,
   Location,
   IEvent,
+  IEventGroupHold,
+  IEventTicketHolder,
   WorkshopStatus,
 } from "../models/Event";
+import GroupBookingModel, { IGroupBooking } from "../models/GroupBooking";
 import AdminModel, { IAdmin } from "../models/Admin";
 import vendorModel, {
   IVendor,
@@ -16,8 +19,41 @@ import vendorModel, {
   BazaarApplication,
 } from "../models/Vendor";
 import UserModel, { IUser, userRole } from "../models/User";
+import UserPaymentModel from "../models/UserPayment";
+import {
+  NotificationEntityKind,
+  NotificationType,
+} from "../models/Notification";
+import { EmailStatus } from "../models/EmailMessage";
+import { recordCalendarCancellation } from "./calendarService";
+import { getCampusCurrency } from "./campusService";
+import { getCourtSales, type CourtSalesItem } from "./courtPaymentService";
 import { emailService } from "./emailService";
-import { notifyUsersOfNewEvent } from "./notificationService";
+import {
+  announceEvent,
+  isEventPublished,
+  PUBLISHED_EVENT_FILTER,
+  type PublicationFields,
+} from "./eventPublicationService";
+import { notifyEventOffice, notifyUsers } from "./notificationService";
+import { publishRegistrationCount } from "./realtimeService";
+import {
+  chooseTicketTier,
+  eventAcceptsRegistrations,
+  hasTicketTiers,
+} from "./ticketTierService";
+import { checkEventVenue, checkEventVenueUpdate } from "./venueService";
+import { countHeldSeats } from "./waitlistService";
+
+// Workshop fields that show up in attendees' calendar feeds
+const CALENDAR_FIELDS = [
+  "name",
+  "description",
+  "location",
+  "venueId",
+  "startDate",
+  "endDate",
+] as const;
 
 type XLSXModule = typeof import("xlsx");
 type QRImageModule = typeof import("qr-image");
@@ -25,7 +61,7 @@ type QRImageModule = typeof import("qr-image");
 let xlsxModulePromise: Promise<XLSXModule> | null = null;
 let qrModulePromise: Promise<QRImageModule> | null = null;
 
-async function loadXlsx() {
+export async function loadXlsx() {
   if (!xlsxModulePromise) {
     xlsxModulePromise = import("xlsx").catch((error) => {
       xlsxModulePromise = null;
@@ -189,6 +225,19 @@ async function enrichEventsWithProfessors<
   });
 }
 
+function recordEventCancellation(event: IEvent & { _id: unknown }) {
+  return recordCalendarCancellation({
+    kind: "event",
+    id: String(event._id),
+    userIds: event.registeredUsers ?? [],
+    summary: event.name,
+    location: event.location,
+    startsAt: event.startDate,
+    endsAt: event.endDate,
+    sequence: event.calendarSequence,
+  });
+}
+
 export async function deleteEventById(eventId: string) {
   if (!Types.ObjectId.isValid(eventId)) {
     throw new Error("INVALID_EVENT_ID");
@@ -203,6 +252,7 @@ export async function deleteEventById(eventId: string) {
     Rating.deleteMany({ event: event._id }),
   ]);
   await event.deleteOne(); // always allow deletion, even if attendees exist
+  await recordEventCancellation(event);
 
   return event;
 }
@@ -267,7 +317,7 @@ export const createTrip = async (
 ): Promise<IEvent> => {
   try {
     const newTrip = await EventModel.create(tripData);
-    await notifyUsersOfNewEvent(newTrip.toObject());
+    await announceEvent(newTrip.toObject());
     return newTrip;
   } catch (error) {
     console.error("Error creating trip:", error);
@@ -340,12 +390,17 @@ export interface ICreateBazaarInput {
   endDate: string | Date;
   registrationDeadline: string | Date;
   location: Location;
+  venueId?: string;
+  allowDoubleBooking?: boolean;
   eventType?: EventType;
+  publication?: PublicationFields;
 }
 
 export interface ICreateBazaarResponse {
   success: boolean;
   message: string;
+  statusCode?: number;
+  warning?: string; // set when the room was double-booked on purpose
   data?: unknown;
 }
 
@@ -365,11 +420,16 @@ export interface ICreateWorkshopInput {
   capacity: number;
   registrationDeadline: string | Date;
   createdBy: string;
+  venueId?: string;
+  allowDoubleBooking?: boolean;
+  publication?: PublicationFields;
 }
 
 export interface ICreateWorkshopResponse {
   success: boolean;
   message: string;
+  statusCode?: number;
+  warning?: string; // set when the room was double-booked on purpose
   data?: unknown;
 }
 
@@ -388,6 +448,8 @@ export interface IEditWorkshopInput {
   extraRequiredResources?: string;
   capacity?: number;
   registrationDeadline?: string | Date;
+  venueId?: string;
+  allowDoubleBooking?: boolean;
 }
 
 export interface ICreateConferenceInput {
@@ -400,10 +462,14 @@ export interface ICreateConferenceInput {
   requiredBudget: number;
   fundingSource: FundingSource;
   extraRequiredResources?: string;
+  venueId?: string;
+  allowDoubleBooking?: boolean;
+  publication?: PublicationFields;
 }
 
 type EventQueryOptions = {
   includePast?: boolean;
+  includeUnpublished?: boolean; // drafts are only listed for the Events Office
 };
 
 const VENDOR_EVENT_TYPES: EventType[] = [
@@ -422,6 +488,7 @@ export async function getAllEvents(
     // Only show approved workshops (including legacy ones with null/missing status) or non-workshop events
     let query = EventModel.find({
       ...(options.includePast ? {} : { endDate: { $gte: currentDate } }),
+      ...(options.includeUnpublished ? {} : PUBLISHED_EVENT_FILTER),
       $or: [
         { eventType: { $ne: EventType.WORKSHOP } },
         {
@@ -457,7 +524,8 @@ export async function getAllEvents(
 }
 
 export async function getEventById(
-  eventId: string
+  eventId: string,
+  options: Pick<EventQueryOptions, "includeUnpublished"> = {}
 ): Promise<
   IGetAllEventsResponse & {
     statusCode?: number;
@@ -474,6 +542,7 @@ export async function getEventById(
 
     const event = await EventModel.findOne({
       _id: eventId,
+      ...(options.includeUnpublished ? {} : PUBLISHED_EVENT_FILTER),
       $or: [
         { eventType: { $ne: EventType.WORKSHOP } },
         {
@@ -512,32 +581,63 @@ export async function getEventById(
   }
 }
 
+export interface IUpdateConferenceResponse {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  warning?: string; // set when the room was double-booked on purpose
+  data?: IEvent | null;
+}
+
 export async function updateConferenceById(
   eventId: string,
-  updateData: Partial<IEvent>
-): Promise<IEvent | null> {
+  updateData: Partial<IEvent> & { allowDoubleBooking?: boolean }
+): Promise<IUpdateConferenceResponse> {
   try {
     const event = await EventModel.findById(eventId);
 
     if (!event) {
-      throw new Error("Event not found");
+      return { success: false, message: "Conference not found", statusCode: 404 };
     }
 
     if (event.eventType !== EventType.CONFERENCE) {
-      throw new Error("Event is not a conference");
+      return { success: false, message: "Event is not a conference", statusCode: 400 };
+    }
+
+    const { allowDoubleBooking, ...updates } = updateData;
+    // The room decides the campus, as when the conference was created
+    const venueCheck = await checkEventVenueUpdate(
+      event,
+      { ...updates, allowDoubleBooking },
+      { campusFromVenue: true }
+    );
+    if (!venueCheck.success) {
+      return venueCheck;
+    }
+    if (venueCheck.venue) {
+      updates.location = venueCheck.venue.campus;
     }
 
-    return await EventModel.findByIdAndUpdate(eventId, updateData, {
+    const updated = await EventModel.findByIdAndUpdate(eventId, updates, {
       new: true,
       runValidators: true,
     });
+    return {
+      success: true,
+      message: "Conference updated successfully.",
+      warning: venueCheck.warning,
+      data: updated,
+    };
   } catch (error) {
     console.error("Error updating conference:", error);
     throw error;
   }
 }
 
-export async function getUpcomingBazaars(types?: string[]) {
+export async function getUpcomingBazaars(
+  types?: string[],
+  options: Pick<EventQueryOptions, "includeUnpublished"> = {}
+) {
   const now = new Date();
 
   const normalizedTypes = Array.isArray(types)
@@ -556,6 +656,7 @@ export async function getUpcomingBazaars(types?: string[]) {
   const allBazaars = await EventModel.find({
     eventType: { $in: eventTypes },
     archived: false,
+    ...(options.includeUnpublished ? {} : PUBLISHED_EVENT_FILTER),
   });
 
   allBazaars.forEach((bazaar) => {
@@ -583,7 +684,10 @@ export async function createBazaar(
       endDate,
       registrationDeadline,
       location,
+      venueId,
+      allowDoubleBooking,
       eventType,
+      publication,
     } = payload;
 
     const resolvedEventType = VENDOR_EVENT_TYPES.includes(
@@ -629,6 +733,21 @@ export async function createBazaar(
       }
     }
 
+    // Platform booths are online and never hold a room
+    const venueCheck =
+      resolvedEventType === EventType.BOOTH_IN_PLATFORM
+        ? null
+        : await checkEventVenue({
+            venueId,
+            location,
+            startDate: parsedStart,
+            endDate: parsedEnd,
+            allowDoubleBooking,
+          });
+    if (venueCheck && !venueCheck.success) {
+      return venueCheck;
+    }
+
     const bazaar = await EventModel.create({
       name,
       description,
@@ -638,20 +757,24 @@ export async function createBazaar(
       date: parsedStart,
       registrationDeadline: parsedDeadline,
       location,
+      venueId: venueCheck?.venue?._id.toString(),
       fundingSource: FundingSource.GUC,
+      ...publication,
     });
 
-    await notifyUsersOfNewEvent(bazaar.toObject());
+    await announceEvent(bazaar.toObject());
 
     return {
       success: true,
       message: `${resolvedEventType} created successfully.`,
+      warning: venueCheck?.warning,
       data: {
         id: bazaar._id.toString(),
         name: bazaar.name,
         startDate: bazaar.startDate,
         endDate: bazaar.endDate,
         location: bazaar.location,
+        venueId: bazaar.venueId,
         registrationDeadline: bazaar.registrationDeadline,
         description: bazaar.description,
       },
@@ -685,6 +808,9 @@ export async function createWorkshop(
       capacity,
       registrationDeadline,
       createdBy,
+      venueId,
+      allowDoubleBooking,
+      publication,
     } = payload;
 
     // Parse and validate dates
@@ -758,6 +884,18 @@ export async function createWorkshop(
 
     const normalizedPrice = typeof price === "number" ? price : undefined;
 
+    const venueCheck = await checkEventVenue({
+      venueId,
+      location,
+      startDate: parsedStart,
+      endDate: parsedEnd,
+      capacity,
+      allowDoubleBooking,
+    });
+    if (!venueCheck.success) {
+      return venueCheck;
+    }
+
     // Create the workshop
     const workshop = await EventModel.create({
       name,
@@ -765,6 +903,7 @@ export async function createWorkshop(
       description,
       date: parsedStart,
       location,
+      venueId: venueCheck.venue?._id.toString(),
       capacity,
       startDate: parsedStart,
       endDate: parsedEnd,
@@ -778,9 +917,10 @@ export async function createWorkshop(
       extraRequiredResources: extraRequiredResources || "",
       createdBy,
       workshopStatus: WorkshopStatus.PENDING,
+      ...publication,
     });
 
-    await notifyUsersOfNewEvent(workshop.toObject());
+    await announceEvent(workshop.toObject());
 
     const plainWorkshop = workshop.toObject({ virtuals: false }) as Pick<
       IEvent,
@@ -814,11 +954,20 @@ export async function createWorkshop(
     // Notify Event Office about the new workshop request
     const creatorName = creatorDetails.get(createdBy)?.name || "A professor";
     const notificationMessage = `${creatorName} has submitted a new workshop request: "${name}" scheduled for ${parsedStart.toLocaleDateString()}`;
-    await notifyEventOffice(notificationMessage);
+    await notifyEventOffice({
+      type: NotificationType.WORKSHOP_REVIEW,
+      message: notificationMessage,
+      entity: {
+        kind: NotificationEntityKind.EVENT,
+        id: String(workshop._id),
+      },
+      link: `/events-office/workshops/${String(workshop._id)}`,
+    });
 
     return {
       success: true,
       message: "Workshop created successfully.",
+      warning: venueCheck.warning,
       data: serialized,
     };
   } catch (error) {
@@ -968,9 +1117,23 @@ export async function editWorkshop(
         .participatingProfessorIds;
     }
 
+    const venueCheck = await checkEventVenueUpdate(
+      workshop,
+      updates as Record<string, unknown>
+    );
+    if (!venueCheck.success) {
+      return venueCheck;
+    }
+    delete (updatePayload as { allowDoubleBooking?: boolean }).allowDoubleBooking;
+
+    const changesCalendar = CALENDAR_FIELDS.some(
+      (field) => field in updatePayload
+    );
     const updatedWorkshop = await EventModel.findByIdAndUpdate(
       workshopId,
-      updatePayload,
+      changesCalendar
+        ? { ...updatePayload, $inc: { calendarSequence: 1 } }
+        : updatePayload,
       { new: true, runValidators: true }
     ).lean<(IEvent & { _id: Types.ObjectId }) | null>();
 
@@ -990,6 +1153,7 @@ export async function editWorkshop(
     return {
       success: true,
       message: "Workshop updated successfully.",
+      warning: venueCheck.warning,
       data: serialized,
     };
   } catch (error) {
@@ -1015,7 +1179,8 @@ export interface IRegisterWorkshopResponse {
 
 export async function registerUserForWorkshop(
   eventId: string,
-  userId: string
+  userId: string,
+  options: { ticketTier?: string } = {}
 ): Promise<IRegisterWorkshopResponse> {
   try {
     if (!Types.ObjectId.isValid(eventId)) {
@@ -1066,13 +1231,10 @@ export async function registerUserForWorkshop(
       }
     }
 
-    if (
-      event.eventType !== EventType.WORKSHOP &&
-      event.eventType !== EventType.TRIP
-    ) {
+    if (!eventAcceptsRegistrations(event)) {
       return {
         success: false,
-        message: "Only workshops and trips support registrations.",
+        message: "Registration is not open for this event.",
         statusCode: 400,
       };
     }
@@ -1086,6 +1248,14 @@ export async function registerUserForWorkshop(
       };
     }
 
+    if (!isEventPublished(event)) {
+      return {
+        success: false,
+        message: "This event is not published yet.",
+        statusCode: 400,
+      };
+    }
+
     if (event.registrationDeadline < now) {
       return {
         success: false,
@@ -1107,7 +1277,10 @@ export async function registerUserForWorkshop(
       };
     }
 
-    const currentRegistrations = event.registeredUsers?.length ?? 0;
+    // Seats held for promoted waitlist users count as taken, except the
+    // one held for this user.
+    const currentRegistrations =
+      (event.registeredUsers?.length ?? 0) + countHeldSeats(event, userId);
     if (
       typeof event.capacity === "number" &&
       event.capacity > 0 &&
@@ -1115,14 +1288,34 @@ export async function registerUserForWorkshop(
     ) {
       return {
         success: false,
-        message: "Event has reached its capacity.",
+        message:
+          "Event has reached its capacity. You can join the waitlist instead.",
         statusCode: 400,
       };
     }
 
+    const tierChoice = chooseTicketTier(event, user.role, options.ticketTier);
+    if (!tierChoice.success) {
+      return {
+        success: false,
+        message: tierChoice.message,
+        statusCode: tierChoice.statusCode,
+      };
+    }
+
     const updatedEvent = await EventModel.findByIdAndUpdate(
       eventId,
-      { $addToSet: { registeredUsers: userId } },
+      {
+        $addToSet: { registeredUsers: userId },
+        $pull: { waitlist: { userId } },
+        ...(tierChoice.tier
+          ? {
+              $push: {
+                ticketHolders: { userId, audience: tierChoice.tier.audience },
+              },
+            }
+          : {}),
+      },
       { new: true }
     );
 
@@ -1146,6 +1339,12 @@ export async function registerUserForWorkshop(
       $addToSet: addToSet,
     });
 
+    publishRegistrationCount({
+      eventId,
+      registeredCount: updatedEvent.registeredUsers.length,
+      capacity: updatedEvent.capacity,
+    });
+
     const message =
       event.eventType === EventType.WORKSHOP
         ? "Registration successful."
@@ -1175,36 +1374,15 @@ function buildAdminName(admin: Pick<IAdmin, "firstName" | "lastName">): string {
   return [admin.firstName, admin.lastName].filter(Boolean).join(" ").trim();
 }
 
-function buildNotificationEntry(message: string) {
-  return {
-    message,
-    seen: false,
-    createdAt: new Date(),
-  };
-}
-
-async function notifyEventOffice(message: string): Promise<void> {
-  try {
-    await AdminModel.updateMany(
-      { adminType: "EventOffice", status: "Active" },
-      { $push: { notifications: buildNotificationEntry(message) } }
-    );
-  } catch (error) {
-    console.error("Error sending notification to Event Office:", error);
-  }
-}
-
 async function notifyProfessorWorkshopStatus(
-  professorId: string,
-  workshopName: string,
+  professorIds: string[],
+  workshop: { _id: unknown; name: string },
   status: "approved" | "rejected" | "pending",
   reason?: string
 ): Promise<void> {
   try {
-    if (!Types.ObjectId.isValid(professorId)) {
-      return;
-    }
-
+    const workshopId = String(workshop._id);
+    const workshopName = workshop.name;
     let message: string;
     if (status === "approved") {
       message = `Your workshop "${workshopName}" has been approved and published by the Event Office.`;
@@ -1216,12 +1394,12 @@ async function notifyProfessorWorkshopStatus(
       message = `Your workshop "${workshopName}" has been moved back to pending for further review.`;
     }
 
-    await UserModel.findOneAndUpdate(
-      { _id: new Types.ObjectId(professorId), role: userRole.PROFESSOR },
-      {
-        $push: { notifications: buildNotificationEntry(message) },
-      }
-    );
+    await notifyUsers(professorIds, {
+      type: NotificationType.WORKSHOP_REVIEW,
+      message,
+      entity: { kind: NotificationEntityKind.EVENT, id: workshopId },
+      link: `/user/workshops/${workshopId}`,
+    });
   } catch (error) {
     console.error("Error sending notification to professor:", error);
   }
@@ -1250,7 +1428,9 @@ function collectWorkshopProfessorRecipients(
 }
 
 async function notifyWorkshopProfessorsOfStatus(
-  workshop: Pick<IEvent, "createdBy" | "participatingProfessors" | "name">,
+  workshop: Pick<IEvent, "createdBy" | "participatingProfessors" | "name"> & {
+    _id: unknown;
+  },
   status: "approved" | "rejected",
   reason?: string
 ) {
@@ -1258,11 +1438,7 @@ async function notifyWorkshopProfessorsOfStatus(
   if (!recipients.length) {
     return;
   }
-  await Promise.all(
-    recipients.map((professorId) =>
-      notifyProfessorWorkshopStatus(professorId, workshop.name, status, reason)
-    )
-  );
+  await notifyProfessorWorkshopStatus(recipients, workshop, status, reason);
 }
 
 interface WorkshopCreatorDetails {
@@ -1288,6 +1464,7 @@ type WorkshopRecordInput = Pick<
   | "createdBy"
   | "workshopStatus"
   | "requestedEdits"
+  | "venueId"
 > & {
   _id: Types.ObjectId;
   participatingProfessorIds: string[];
@@ -1324,6 +1501,7 @@ function serializeWorkshopRecord<T extends WorkshopRecordInput>(
     createdByRole: creatorDetails?.role,
     workshopStatus: workshop.workshopStatus ?? WorkshopStatus.PENDING,
     requestedEdits: workshop.requestedEdits ?? null,
+    venueId: workshop.venueId,
   };
 }
 
@@ -1551,6 +1729,7 @@ export async function deleteWorkshopById(
       Rating.deleteMany({ event: workshop._id }),
     ]);
     await workshop.deleteOne();
+    await recordEventCancellation(workshop);
 
     return {
       success: true,
@@ -1610,6 +1789,9 @@ export async function createConference(
       requiredBudget,
       fundingSource,
       extraRequiredResources,
+      venueId,
+      allowDoubleBooking,
+      publication,
     } = payload;
 
     // Parse and validate dates
@@ -1650,6 +1832,16 @@ export async function createConference(
       };
     }
 
+    const venueCheck = await checkEventVenue({
+      venueId,
+      startDate: parsedStart,
+      endDate: parsedEnd,
+      allowDoubleBooking,
+    });
+    if (!venueCheck.success) {
+      return venueCheck;
+    }
+
     // Create the conference - set default location and registration deadline
     const registrationDeadline = new Date(parsedStart);
     registrationDeadline.setDate(registrationDeadline.getDate() - 7); // Default: 7 days before start
@@ -1659,7 +1851,9 @@ export async function createConference(
       eventType: EventType.CONFERENCE,
       description,
       date: parsedStart,
-      location: Location.GUCCAIRO, // Default location, can be changed later
+      // The room decides the campus; Cairo until one is picked
+      location: venueCheck.venue?.campus ?? Location.GUCCAIRO,
+      venueId: venueCheck.venue?._id.toString(),
       startDate: parsedStart,
       endDate: parsedEnd,
       registrationDeadline,
@@ -1668,15 +1862,19 @@ export async function createConference(
       requiredBudget,
       fundingSource,
       extraRequiredResources: extraRequiredResources || "",
+      ...publication,
     });
 
-    await notifyUsersOfNewEvent(conference.toObject());
+    await announceEvent(conference.toObject());
 
     return {
       success: true,
       message: "Conference created successfully.",
+      warning: venueCheck.warning,
       data: {
         id: conference._id.toString(),
+        location: conference.location,
+        venueId: conference.venueId,
         name: conference.name,
         startDate: conference.startDate,
         endDate: conference.endDate,
@@ -2031,8 +2229,8 @@ export async function setWorkshopToPending(
     // Notify the professor about status change
     if (workshop.createdBy) {
       await notifyProfessorWorkshopStatus(
-        workshop.createdBy,
-        workshop.name,
+        [workshop.createdBy],
+        workshop,
         "pending"
       );
     }
@@ -2332,18 +2530,11 @@ export async function exportEventRegistrations(eventId: string): Promise<{
       };
     }
 
-    // Conferences don't support user registrations export
-    if (event.eventType === EventType.CONFERENCE) {
-      return {
-        success: false,
-        message: "Conferences do not support registration exports.",
-      };
-    }
-
     // Get registered user IDs
     const registeredUserIds = event.registeredUsers ?? [];
+    const groupHolds = event.groupHolds ?? [];
 
-    if (registeredUserIds.length === 0) {
+    if (registeredUserIds.length === 0 && groupHolds.length === 0) {
       return {
         success: false,
         message: "No users registered for this event.",
@@ -2355,13 +2546,57 @@ export async function exportEventRegistrations(eventId: string): Promise<{
       _id: { $in: registeredUserIds },
     }).select("firstName lastName email role studentId staffId");
 
-    if (users.length === 0) {
+    if (users.length === 0 && groupHolds.length === 0) {
       return {
         success: false,
         message: "No valid user data found for registered users.",
       };
     }
 
+    // Seats paid for by a group organizer name who booked them
+    const groupSeatPayments = await UserPaymentModel.find({
+      eventId: event._id,
+      status: "Paid",
+      purchasedBy: { $exists: true },
+    })
+      .select("userId purchasedBy")
+      .lean<Array<{ userId: Types.ObjectId; purchasedBy: Types.ObjectId }>>();
+    const groupBookings = groupHolds.length
+      ? await GroupBookingModel.find({
+          _id: { $in: groupHolds.map((hold: IEventGroupHold) => hold.bookingId) },
+        })
+          .select("organizerId seats paidAt")
+          .lean<Array<IGroupBooking & { _id: Types.ObjectId }>>()
+      : [];
+    const organizers = await UserModel.find({
+      _id: {
+        $in: [
+          ...groupSeatPayments.map((payment) => payment.purchasedBy),
+          ...groupBookings.map((booking) => booking.organizerId),
+        ],
+      },
+    }).select("firstName lastName email");
+    const organizerMap = new Map(
+      organizers.map((organizer) => [
+        organizer._id.toString(),
+        `${organizer.firstName} ${organizer.lastName} (${organizer.email})`,
+      ])
+    );
+    const bookedByMap = new Map(
+      groupSeatPayments.map((payment) => [
+        payment.userId.toString(),
+        organizerMap.get(payment.purchasedBy.toString()) ?? "N/A",
+      ])
+    );
+
+    const sellsTiers = hasTicketTiers(event);
+    const tierMap = new Map(
+      (event.ticketHolders ?? []).map((holder: IEventTicketHolder) => [
+        holder.userId,
+        holder.audience,
+      ])
+    );
+
     // Prepare data for Excel
     const excelData = users.map((user) => ({
       "First Name": user.firstName,
@@ -2370,6 +2605,10 @@ export async function exportEventRegistrations(eventId: string): Promise<{
       Role: user.role,
       "Student ID": user.studentId || "N/A",
       "Staff ID": user.staffId || "N/A",
+      "Booked By": bookedByMap.get(user._id.toString()) ?? "Self",
+      ...(sellsTiers
+        ? { "Ticket Tier": tierMap.get(user._id.toString()) ?? "N/A" }
+        : {}),
     }));
 
     let XLSX: XLSXModule;
@@ -2395,11 +2634,92 @@ export async function exportEventRegistrations(eventId: string): Promise<{
       { wch: 12 }, // Role
       { wch: 15 }, // Student ID
       { wch: 15 }, // Staff ID
+      { wch: 40 }, // Booked By
+      ...(sellsTiers ? [{ wch: 12 }] : []), // Ticket Tier
     ];
 
     // Add worksheet to workbook
     XLSX.utils.book_append_sheet(workbook, worksheet, "Registrations");
 
+    // Paid group seats the invitee has not confirmed yet still take capacity
+    if (groupHolds.length > 0) {
+      const bookingMap = new Map(
+        groupBookings.map((booking) => [booking._id.toString(), booking])
+      );
+      const pendingData = groupHolds.map((hold: IEventGroupHold) => {
+        const booking = bookingMap.get(hold.bookingId);
+        const seat = booking?.seats.find(
+          (candidate) => candidate._id.toString() === hold.seatId
+        );
+        return {
+          "Invitee Email": seat?.email ?? "N/A",
+          "Booked By": booking
+            ? (organizerMap.get(booking.organizerId.toString()) ?? "N/A")
+            : "N/A",
+          "Paid At": booking?.paidAt
+            ? new Date(booking.paidAt).toISOString()
+            : "N/A",
+        };
+      });
+      const pendingSheet = XLSX.utils.json_to_sheet(pendingData);
+      pendingSheet["!cols"] = [
+        { wch: 30 }, // Invitee Email
+        { wch: 40 }, // Booked By
+        { wch: 25 }, // Paid At
+      ];
+      XLSX.utils.book_append_sheet(workbook, pendingSheet, "Pending Group Seats");
+    }
+
+    // Waitlisted users go on their own sheet, in queue order
+    const waitlist = event.waitlist ?? [];
+    if (waitlist.length > 0) {
+      const waitlistUsers = await UserModel.find({
+        _id: { $in: waitlist.map((entry: { userId: string }) => entry.userId) },
+      }).select("firstName lastName email role");
+      const waitlistUserMap = new Map(
+        waitlistUsers.map((user) => [user._id.toString(), user])
+      );
+
+      const waitlistData = waitlist.map(
+        (
+          entry: {
+            userId: string;
+            joinedAt: Date;
+            status: string;
+            offerExpiresAt?: Date;
+          },
+          index: number
+        ) => {
+          const user = waitlistUserMap.get(entry.userId);
+          return {
+            Position: index + 1,
+            "First Name": user?.firstName ?? "N/A",
+            "Last Name": user?.lastName ?? "N/A",
+            Email: user?.email ?? "N/A",
+            Role: user?.role ?? "N/A",
+            "Joined At": new Date(entry.joinedAt).toISOString(),
+            Status: entry.status,
+            "Seat Held Until": entry.offerExpiresAt
+              ? new Date(entry.offerExpiresAt).toISOString()
+              : "N/A",
+          };
+        }
+      );
+
+      const waitlistSheet = XLSX.utils.json_to_sheet(waitlistData);
+      waitlistSheet["!cols"] = [
+        { wch: 10 }, // Position
+        { wch: 15 }, // First Name
+        { wch: 15 }, // Last Name
+        { wch: 30 }, // Email
+        { wch: 12 }, // Role
+        { wch: 25 }, // Joined At
+        { wch: 10 }, // Status
+        { wch: 25 }, // Seat Held Until
+      ];
+      XLSX.utils.book_append_sheet(workbook, waitlistSheet, "Waitlist");
+    }
+
     // Generate Excel file buffer
     const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
 
@@ -2540,7 +2860,7 @@ export async function sendWorkshopCertificates(
 ): Promise<{
   success: boolean;
   message: string;
-  data?: { sentCount: number; failedCount: number };
+  data?: { sentCount: number; queuedCount: number; failedCount: number };
 }> {
   try {
     if (!Types.ObjectId.isValid(workshopId)) {
@@ -2576,6 +2896,7 @@ export async function sendWorkshopCertificates(
         message: `Certificates were already sent on ${workshop.certificateSentAt.toISOString()}.`,
         data: {
           sentCount: workshop.certificateSentCount ?? 0,
+          queuedCount: 0,
           failedCount: 0,
         },
       };
@@ -2622,32 +2943,42 @@ export async function sendWorkshopCertificates(
       };
     }
 
-    // Send certificates to all participants
+    // Certificates go through the email outbox: "queued" ones hit a transport
+    // error and will be retried, "failed" ones could not be queued at all.
     let sentCount = 0;
+    let queuedCount = 0;
     let failedCount = 0;
 
     for (const participant of eligibleParticipants) {
       try {
-        await emailService.sendWorkshopCertificate({
+        const delivery = await emailService.sendWorkshopCertificate({
           user: participant,
           workshopName: workshop.name,
           workshopDate: workshop.endDate,
         });
-        sentCount++;
+        if (delivery?.status === EmailStatus.SENT) {
+          sentCount++;
+        } else if (delivery?.status === EmailStatus.FAILED) {
+          failedCount++;
+        } else {
+          queuedCount++;
+        }
       } catch (error) {
         console.error(
-          `Failed to send certificate to ${participant.email}:`,
+          `Failed to queue certificate for ${participant.email}:`,
           error
         );
         failedCount++;
       }
     }
 
+    const acceptedCount = sentCount + queuedCount;
+
     try {
-      if (sentCount > 0) {
+      if (acceptedCount > 0) {
         workshop.certificateSentAt = new Date();
         workshop.certificateSentBy = options?.source ?? "manual";
-        workshop.certificateSentCount = sentCount;
+        workshop.certificateSentCount = acceptedCount;
       } else {
         workshop.certificateSentAt = undefined;
         workshop.certificateSentBy = undefined;
@@ -2658,11 +2989,20 @@ export async function sendWorkshopCertificates(
       console.error("Failed to record certificate dispatch metadata:", persistError);
     }
 
+    const summary = [`Certificates sent to ${sentCount} participant(s).`];
+    if (queuedCount > 0) {
+      summary.push(`${queuedCount} queued for retry.`);
+    }
+    if (failedCount > 0) {
+      summary.push(`${failedCount} failed.`);
+    }
+
     return {
       success: true,
-      message: `Certificates sent successfully to ${sentCount} participant(s).${failedCount > 0 ? ` ${failedCount} failed.` : ""}`,
+      message: summary.join(" "),
       data: {
         sentCount,
+        queuedCount,
         failedCount,
       },
     };
@@ -2692,7 +3032,8 @@ export interface AttendanceReportItem {
   eventType: EventType;
   startDate: Date;
   endDate: Date;
-  totalAttendees: number;
+  registeredCount: number;
+  totalAttendees: number; // Tickets checked in at the door
 }
 
 export interface AttendanceReportData {
@@ -2756,7 +3097,14 @@ export async function getEventAttendanceReport(
     const match = buildAttendanceReportMatch(filters);
 
     const events = await EventModel.find(match)
-      .select(["name", "eventType", "startDate", "endDate", "registeredUsers"])
+      .select([
+        "name",
+        "eventType",
+        "startDate",
+        "endDate",
+        "registeredUsers",
+        "checkIns",
+      ])
       .sort({ startDate: 1 })
       .lean<Array<IEvent & { _id: Types.ObjectId }>>();
 
@@ -2766,7 +3114,8 @@ export async function getEventAttendanceReport(
       eventType: event.eventType,
       startDate: event.startDate,
       endDate: event.endDate,
-      totalAttendees: event.registeredUsers?.length ?? 0,
+      registeredCount: event.registeredUsers?.length ?? 0,
+      totalAttendees: event.checkIns?.length ?? 0,
     }));
 
     const totalAttendees = items.reduce(
@@ -2790,20 +3139,33 @@ export async function getEventAttendanceReport(
   }
 }
 
-export type SalesReportFilters = EventReportFiltersBase;
+export type SalesReportFilters = EventReportFiltersBase & {
+  location?: Location;
+};
 
 export interface SalesReportItem {
   eventId: string;
   name: string;
   eventType: EventType;
+  location: Location;
+  currency: string;
   startDate: Date;
   endDate: Date;
   revenue: number;
 }
 
+export interface SalesReportCurrencyTotal {
+  currency: string;
+  eventRevenue: number;
+  courtRevenue: number;
+  totalRevenue: number;
+}
+
 export interface SalesReportData {
   events: SalesReportItem[];
-  totalRevenue: number;
+  courts: CourtSalesItem[];
+  // One entry per currency; amounts in different currencies are never summed
+  totals: SalesReportCurrencyTotal[];
 }
 
 export interface SalesReportResponse {
@@ -2823,6 +3185,10 @@ function buildSalesReportMatch(
     match.eventType = filters.eventType;
   }
 
+  if (filters.location) {
+    match.location = filters.location;
+  }
+
   const startDateConditions: Record<string, Date> = {};
   const endDateConditions: Record<string, Date> = {};
 
@@ -2850,6 +3216,35 @@ function buildSalesReportMatch(
   return match;
 }
 
+function buildCurrencyTotals(
+  events: SalesReportItem[],
+  courts: CourtSalesItem[]
+): SalesReportCurrencyTotal[] {
+  const totals = new Map<string, SalesReportCurrencyTotal>();
+  const entryFor = (currency: string) => {
+    let entry = totals.get(currency);
+    if (!entry) {
+      entry = { currency, eventRevenue: 0, courtRevenue: 0, totalRevenue: 0 };
+      totals.set(currency, entry);
+    }
+    return entry;
+  };
+
+  events.forEach((event) => {
+    entryFor(event.currency).eventRevenue += event.revenue;
+  });
+  courts.forEach((court) => {
+    entryFor(court.currency).courtRevenue += court.revenue;
+  });
+
+  return Array.from(totals.values())
+    .map((entry) => ({
+      ...entry,
+      totalRevenue: entry.eventRevenue + entry.courtRevenue,
+    }))
+    .sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
 export async function getEventSalesReport(
   filters: SalesReportFilters,
   sortOrder: SalesSortOrder = "desc"
@@ -2859,7 +3254,7 @@ export async function getEventSalesReport(
     const sortDirection = sortOrder === "asc" ? 1 : -1;
 
     const events = await EventModel.find(match)
-      .select(["name", "eventType", "startDate", "endDate", "revenue"])
+      .select(["name", "eventType", "location", "startDate", "endDate", "revenue"])
       .sort({ revenue: sortDirection, name: 1 })
       .lean<Array<IEvent & { _id: Types.ObjectId }>>();
 
@@ -2867,18 +3262,32 @@ export async function getEventSalesReport(
       eventId: event._id.toString(),
       name: event.name,
       eventType: event.eventType,
+      location: event.location,
+      currency: getCampusCurrency(event.location),
       startDate: event.startDate,
       endDate: event.endDate,
       revenue: typeof event.revenue === "number" ? event.revenue : 0,
     }));
 
-    const totalRevenue = items.reduce((sum, item) => sum + item.revenue, 0);
+    // Court bookings have no event type or campus, so those filters leave them out
+    const courts =
+      filters.eventType || filters.location
+        ? []
+      : await getCourtSales({
+          date: filters.date,
+          startDate: filters.startDate,
+          endDate: filters.endDate,
+        });
+    courts.sort(
+      (a, b) => (a.revenue - b.revenue) * sortDirection || a.courtId.localeCompare(b.courtId)
+    );
 
     return {
       success: true,
       data: {
         events: items,
-        totalRevenue,
+        courts,
+        totals: buildCurrencyTotals(items, courts),
       },
     };
   } catch (error) {
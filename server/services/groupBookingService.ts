@@ -0,0 +1,1611 @@
+import { Types } from "mongoose";
+import Stripe from "stripe";
+import EventModel, { EventType, IEvent } from "../models/Event";
+import GroupBookingModel, {
+  GroupBookingMethod,
+  GroupBookingStatus,
+  GroupSeatStatus,
+  IGroupBooking,
+  IGroupSeat,
+} from "../models/GroupBooking";
+import UserModel, { IUser } from "../models/User";
+import UserPaymentModel from "../models/UserPayment";
+import {
+  NotificationEntityKind,
+  NotificationType,
+} from "../models/Notification";
+import { WalletTransactionType } from "../models/WalletTransaction";
+import { emailService } from "./emailService";
+import { isEventPublished } from "./eventPublicationService";
+import { registerUserForWorkshop } from "./eventService";
+import { notifyUsers } from "./notificationService";
+import { cancelRegistrationAndRefund } from "./paymentService";
+import { buildTicketCode, renderTicketQr } from "./ticketService";
+import { countHeldSeats, promoteNextWaitlistedUsers } from "./waitlistService";
+import {
+  InsufficientWalletBalanceError,
+  recordWalletTransaction,
+} from "./walletService";
+import { getCampusCurrency, isWalletCurrency } from "./campusService";
+
+const stripeClient = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    })
+  : null;
+
+export const GROUP_BOOKING_PAYMENT_PURPOSE = "group-booking";
+export const MAX_GROUP_SEATS =
+  Number(process.env.GROUP_BOOKING_MAX_SEATS) || 10;
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+const GROUP_SEAT_HOLD_MS =
+  (Number(process.env.GROUP_SEAT_HOLD_HOURS) || 72) * ONE_HOUR_MS;
+const GROUP_HOLD_CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type EventWithId = IEvent & { _id: Types.ObjectId };
+type UserWithId = IUser & { _id: Types.ObjectId };
+type GroupBookingWithId = IGroupBooking & { _id: Types.ObjectId };
+
+type PaymentIntentWithOptionalCharges = Stripe.PaymentIntent & {
+  charges?: Stripe.ApiList<Stripe.Charge>;
+};
+
+// `settled` marks a failure that needs no further work (the card was refunded)
+type AppliedGroupPayment = ServiceResponse<GroupBookingItem> & {
+  settled?: boolean;
+};
+
+export type GroupBookingInput = {
+  emails?: unknown;
+  includeSelf?: unknown;
+};
+
+export type GroupSeatItem = {
+  id: string;
+  email: string;
+  status: GroupSeatStatus;
+  attendeeName?: string;
+  isOrganizer: boolean;
+  refundAmount?: number;
+  hasTicket: boolean;
+};
+
+export type GroupBookingItem = {
+  id: string;
+  eventId: string;
+  eventName: string;
+  eventType?: EventType;
+  location?: string;
+  startDate?: Date;
+  seatPrice: number;
+  currency: string;
+  totalAmount: number;
+  method: GroupBookingMethod;
+  receiptNumber: string;
+  paidAt?: Date;
+  seats: GroupSeatItem[];
+};
+
+export type GroupInvitationItem = {
+  bookingId: string;
+  seatId: string;
+  eventId: string;
+  eventName: string;
+  eventType?: EventType;
+  location?: string;
+  startDate?: Date;
+  registrationDeadline?: Date;
+  expiresAt?: Date;
+  organizerName: string;
+};
+
+type GroupIntentData = {
+  clientSecret: string;
+  paymentIntentId: string;
+  bookingId: string;
+};
+
+type PreparedGroupBooking = {
+  event: EventWithId;
+  organizer: UserWithId;
+  seats: Array<{ email: string; userId?: Types.ObjectId }>;
+  seatPrice: number;
+  currency: string;
+};
+
+function generateReference(prefix: string): string {
+  const random = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}-${random}`;
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function fullName(user?: Pick<IUser, "firstName" | "lastName"> | null) {
+  return [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+}
+
+function hasLapsed(seat: Pick<IGroupSeat, "expiresAt">, now = new Date()) {
+  return Boolean(seat.expiresAt) && new Date(seat.expiresAt as Date) <= now;
+}
+
+/**
+ * When unanswered seats of a booking paid now are released: after the hold
+ * period, and no later than the event's registration deadline.
+ */
+export function groupSeatHoldExpiry(
+  paidAt: Date,
+  registrationDeadline?: Date
+): Date {
+  const held = paidAt.getTime() + GROUP_SEAT_HOLD_MS;
+  const deadline = registrationDeadline
+    ? new Date(registrationDeadline).getTime()
+    : Infinity;
+  return new Date(Math.min(held, deadline));
+}
+
+/**
+ * Normalizes the invitee list. The organizer's own address is dropped (they
+ * take a seat through `includeSelf`), and a group needs at least one guest.
+ */
+export function parseGroupEmails(
+  input: GroupBookingInput,
+  organizerEmail: string
+):
+  | { success: true; emails: string[]; includeSelf: boolean }
+  | { success: false; message: string } {
+  if (!Array.isArray(input.emails)) {
+    return { success: false, message: "Provide the attendees' email addresses." };
+  }
+
+  const organizer = organizerEmail.trim().toLowerCase();
+  const emails: string[] = [];
+  for (const raw of input.emails) {
+    const email = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+    if (!EMAIL_PATTERN.test(email)) {
+      return {
+        success: false,
+        message: `"${String(raw)}" is not a valid email address.`,
+      };
+    }
+    if (email !== organizer && !emails.includes(email)) {
+      emails.push(email);
+    }
+  }
+
+  if (emails.length === 0) {
+    return {
+      success: false,
+      message: "Add at least one other attendee, or register on your own instead.",
+    };
+  }
+
+  const includeSelf = input.includeSelf !== false;
+  const seatCount = emails.length + (includeSelf ? 1 : 0);
+  if (seatCount > MAX_GROUP_SEATS) {
+    return {
+      success: false,
+      message: `A group booking can hold at most ${MAX_GROUP_SEATS} seats.`,
+    };
+  }
+
+  return { success: true, emails, includeSelf };
+}
+
+function isRoleAllowed(event: IEvent, user: Pick<IUser, "role">) {
+  return !event.allowedRoles?.length || event.allowedRoles.includes(user.role);
+}
+
+async function prepareGroupBooking(
+  eventId: string,
+  organizerId: string,
+  input: GroupBookingInput
+): Promise<
+  | { success: false; message: string; statusCode: number }
+  | { success: true; prepared: PreparedGroupBooking }
+> {
+  if (!Types.ObjectId.isValid(eventId) || !Types.ObjectId.isValid(organizerId)) {
+    return {
+      success: false,
+      message: "Invalid event or user identifier.",
+      statusCode: 400,
+    };
+  }
+
+  const [event, organizer] = await Promise.all([
+    EventModel.findById(eventId).lean<EventWithId | null>(),
+    UserModel.findById(organizerId).lean<UserWithId | null>(),
+  ]);
+  if (!event) {
+    return { success: false, message: "Event not found.", statusCode: 404 };
+  }
+  if (!organizer) {
+    return { success: false, message: "User not found.", statusCode: 404 };
+  }
+
+  if (
+    event.eventType !== EventType.WORKSHOP &&
+    event.eventType !== EventType.TRIP
+  ) {
+    return {
+      success: false,
+      message: "Group bookings are only available for workshops and trips.",
+      statusCode: 400,
+    };
+  }
+  if (event.archived) {
+    return { success: false, message: "Event is archived.", statusCode: 400 };
+  }
+  if (!isEventPublished(event)) {
+    return { success: false, message: "This event is not published yet.", statusCode: 400 };
+  }
+  if (new Date(event.registrationDeadline) < new Date()) {
+    return {
+      success: false,
+      message: "Registration deadline has passed.",
+      statusCode: 400,
+    };
+  }
+
+  const parsed = parseGroupEmails(input, organizer.email);
+  if (!parsed.success) {
+    return { success: false, message: parsed.message, statusCode: 400 };
+  }
+
+  const registered = new Set(
+    (event.registeredUsers ?? []).map((entry) => entry.toString())
+  );
+  if (parsed.includeSelf) {
+    if (!isRoleAllowed(event, organizer)) {
+      return {
+        success: false,
+        message: `This event is restricted to the following roles: ${event.allowedRoles?.join(", ")}.`,
+        statusCode: 403,
+      };
+    }
+    if (registered.has(organizerId)) {
+      return {
+        success: false,
+        message: "You are already registered; untick your own seat to book for the others.",
+        statusCode: 409,
+      };
+    }
+  }
+
+  const knownUsers = await UserModel.find({ email: { $in: parsed.emails } })
+    .select(["email", "role", "verified"])
+    .lean<Array<Pick<UserWithId, "_id" | "email" | "role" | "verified">>>();
+  const usersByEmail = new Map(
+    knownUsers.map((user) => [user.email.toLowerCase(), user])
+  );
+
+  for (const email of parsed.emails) {
+    const user = usersByEmail.get(email);
+    if (!user) continue;
+    if (!user.verified) {
+      return {
+        success: false,
+        message: `${email} has not verified their account yet.`,
+        statusCode: 400,
+      };
+    }
+    if (!isRoleAllowed(event, user)) {
+      return {
+        success: false,
+        message: `${email} is not allowed to attend this event (${user.role}).`,
+        statusCode: 403,
+      };
+    }
+    if (registered.has(user._id.toString())) {
+      return {
+        success: false,
+        message: `${email} is already registered for this event.`,
+        statusCode: 409,
+      };
+    }
+  }
+
+  const alreadyInvited = await GroupBookingModel.findOne({
+    eventId: event._id,
+    status: GroupBookingStatus.PAID,
+    seats: {
+      $elemMatch: {
+        email: { $in: parsed.emails },
+        status: GroupSeatStatus.PENDING,
+      },
+    },
+  })
+    .select("seats")
+    .lean<GroupBookingWithId | null>();
+  if (alreadyInvited) {
+    const email = alreadyInvited.seats.find(
+      (seat) =>
+        seat.status === GroupSeatStatus.PENDING &&
+        parsed.emails.includes(seat.email)
+    )?.email;
+    return {
+      success: false,
+      message: `${email ?? "An attendee"} already has a pending invitation for this event.`,
+      statusCode: 409,
+    };
+  }
+
+  const seats: PreparedGroupBooking["seats"] = parsed.emails.map((email) => ({
+    email,
+    userId: usersByEmail.get(email)?._id,
+  }));
+  if (parsed.includeSelf) {
+    seats.unshift({ email: organizer.email.toLowerCase(), userId: organizer._id });
+  }
+
+  if (typeof event.capacity === "number" && event.capacity > 0) {
+    const occupied =
+      (event.registeredUsers?.length ?? 0) + countHeldSeats(event, organizerId);
+    const available = Math.max(event.capacity - occupied, 0);
+    if (seats.length > available) {
+      return {
+        success: false,
+        message:
+          available === 0
+            ? "Event has reached its capacity. You can join the waitlist instead."
+            : `Only ${available} seat${available === 1 ? " is" : "s are"} left for this event.`,
+        statusCode: 400,
+      };
+    }
+  }
+
+  const priceRaw =
+    typeof event.price === "number" && !Number.isNaN(event.price)
+      ? event.price
+      : 0;
+
+  return {
+    success: true,
+    prepared: {
+      event,
+      organizer,
+      seats,
+      seatPrice: Math.max(priceRaw, 0),
+      currency: getCampusCurrency(event.location),
+    },
+  };
+}
+
+/**
+ * Pays out a booked group: holds every seat until the answer deadline, books
+ * the organizer's own seat straight away and invites everyone else.
+ */
+async function activateGroupBooking(
+  booking: GroupBookingWithId,
+  event: EventWithId,
+  organizer: UserWithId
+) {
+  const bookingId = booking._id.toString();
+  const total = roundMoney(booking.seatPrice * booking.seats.length);
+  const expiresAt = groupSeatHoldExpiry(
+    booking.paidAt ?? new Date(),
+    event.registrationDeadline
+  );
+
+  await EventModel.updateOne(
+    { _id: event._id },
+    {
+      $push: {
+        groupHolds: {
+          $each: booking.seats.map((seat) => ({
+            bookingId,
+            seatId: seat._id.toString(),
+            userId: seat.userId?.toString(),
+            expiresAt,
+          })),
+        },
+      },
+      ...(total > 0 ? { $inc: { revenue: total } } : {}),
+    }
+  );
+  await GroupBookingModel.updateOne(
+    { _id: booking._id },
+    { $set: { "seats.$[seat].expiresAt": expiresAt } },
+    { arrayFilters: [{ "seat.status": GroupSeatStatus.PENDING }] }
+  );
+
+  const organizerName = fullName(organizer);
+  const ownSeat = booking.seats.find(
+    (seat) => seat.userId?.toString() === organizer._id.toString()
+  );
+  if (ownSeat) {
+    const confirmed = await confirmGroupSeat(bookingId, ownSeat, organizer);
+    if (!confirmed.success) {
+      console.error("Failed to confirm organizer seat:", confirmed.message);
+    }
+  }
+
+  const guests = booking.seats.filter((seat) => seat !== ownSeat);
+  await notifyUsers(
+    guests
+      .map((seat) => seat.userId?.toString())
+      .filter((value): value is string => Boolean(value)),
+    {
+      type: NotificationType.GENERAL,
+      message: `${organizerName} booked you a seat at "${event.name}". Confirm it to get your ticket.`,
+      entity: { kind: NotificationEntityKind.EVENT, id: event._id.toString() },
+      link: "/user/registrations",
+    }
+  );
+
+  for (const seat of guests) {
+    try {
+      await emailService.sendGroupBookingInvitation({
+        recipientEmail: seat.email,
+        organizerName,
+        eventName: event.name,
+        eventType: event.eventType,
+        startDate: event.startDate,
+        respondBy: expiresAt,
+      });
+    } catch (emailError) {
+      console.error("Failed to send group booking invitation:", emailError);
+    }
+  }
+
+  try {
+    await emailService.sendUserEventPaymentReceipt({
+      recipientEmail: organizer.email,
+      recipientName: organizerName,
+      eventName: `${event.name} (${booking.seats.length} seats)`,
+      eventType: event.eventType,
+      amount: total,
+      currency: booking.currency,
+      walletPortion: booking.method === "Wallet" ? total : 0,
+      cardPortion: booking.method === "CreditCard" ? total : 0,
+      method: booking.method,
+      receiptNumber: booking.receiptNumber,
+      paidAt: booking.paidAt ?? new Date(),
+    });
+  } catch (emailError) {
+    console.error("Failed to send group booking receipt:", emailError);
+  }
+}
+
+/**
+ * Registers the invitee and issues their seat ticket, charged to the
+ * organizer's booking. The seat's hold is handed over to the registration.
+ */
+async function confirmGroupSeat(
+  bookingId: string,
+  seat: IGroupSeat,
+  attendee: UserWithId
+): Promise<ServiceResponse<{ paymentId: string }>> {
+  const booking = await GroupBookingModel.findById(bookingId);
+  if (!booking) {
+    return { success: false, message: "Group booking not found.", statusCode: 404 };
+  }
+  const seatId = seat._id.toString();
+  const attendeeId = attendee._id.toString();
+  const eventId = booking.eventId.toString();
+
+  // Tag the hold with the attendee so the capacity check lets them through
+  await EventModel.updateOne(
+    { _id: booking.eventId, "groupHolds.seatId": seatId },
+    { $set: { "groupHolds.$.userId": attendeeId } }
+  );
+
+  const registration = await registerUserForWorkshop(eventId, attendeeId);
+  if (!registration.success) {
+    return {
+      success: false,
+      message: registration.message,
+      statusCode: registration.statusCode ?? 400,
+    };
+  }
+
+  const isCard = booking.method === "CreditCard";
+  const payment = await UserPaymentModel.create({
+    userId: attendee._id,
+    eventId: booking.eventId,
+    amount: booking.seatPrice,
+    currency: booking.currency,
+    method: booking.method,
+    walletPortion: isCard ? 0 : booking.seatPrice,
+    cardPortion: isCard ? booking.seatPrice : 0,
+    cardType: isCard ? "CreditCard" : undefined,
+    cardLast4: booking.cardLast4,
+    status: "Paid",
+    receiptNumber: generateReference("GRP"),
+    paidAt: booking.paidAt ?? new Date(),
+    transactionReference: booking.transactionReference ?? booking.receiptNumber,
+    groupBookingId: booking._id,
+    purchasedBy: booking.organizerId,
+  });
+
+  await EventModel.updateOne(
+    { _id: booking.eventId },
+    { $pull: { groupHolds: { seatId } } }
+  );
+
+  const stored = booking.seats.find(
+    (candidate: IGroupSeat) => candidate._id.toString() === seatId
+  );
+  if (stored) {
+    stored.status = GroupSeatStatus.CONFIRMED;
+    stored.userId = attendee._id;
+    stored.paymentId = payment._id;
+    stored.respondedAt = new Date();
+  }
+  await booking.save();
+
+  try {
+    const [event, organizer] = await Promise.all([
+      EventModel.findById(booking.eventId)
+        .select(["name", "eventType"])
+        .lean<Pick<IEvent, "name" | "eventType"> | null>(),
+      UserModel.findById(booking.organizerId)
+        .select(["firstName", "lastName", "email"])
+        .lean<Pick<IUser, "firstName" | "lastName" | "email"> | null>(),
+    ]);
+    const ticket = {
+      attendeeName: fullName(attendee) || attendee.email,
+      eventName: event?.name ?? "your event",
+      eventType: event?.eventType ?? "event",
+      ticketCode: buildTicketCode(payment._id.toString()),
+      ticketQr: renderTicketQr(payment._id.toString()),
+    };
+    await emailService.sendGroupSeatTicket({
+      ...ticket,
+      recipientEmail: attendee.email,
+      recipientName: fullName(attendee),
+      forOrganizer: false,
+    });
+    if (organizer && booking.organizerId.toString() !== attendeeId) {
+      await emailService.sendGroupSeatTicket({
+        ...ticket,
+        recipientEmail: organizer.email,
+        recipientName: fullName(organizer),
+        forOrganizer: true,
+      });
+    }
+  } catch (emailError) {
+    console.error("Failed to send group seat ticket:", emailError);
+  }
+
+  return {
+    success: true,
+    message: "Seat confirmed. Your ticket has been emailed to you.",
+    data: { paymentId: payment._id.toString() },
+  };
+}
+
+/**
+ * Gives an unanswered seat back: the organizer gets the full seat price and
+ * the held seat is offered to the waitlist.
+ */
+async function releasePendingSeat(
+  bookingId: string,
+  seatId: string,
+  status:
+    | GroupSeatStatus.DECLINED
+    | GroupSeatStatus.CANCELLED
+    | GroupSeatStatus.EXPIRED
+): Promise<ServiceResponse<{ refundAmount: number }>> {
+  const booking = await GroupBookingModel.findById(bookingId);
+  const seat = booking?.seats.find(
+    (candidate: IGroupSeat) => candidate._id.toString() === seatId
+  );
+  if (!booking || !seat || seat.status !== GroupSeatStatus.PENDING) {
+    return {
+      success: false,
+      message: "This seat is no longer waiting for an answer.",
+      statusCode: 409,
+    };
+  }
+
+  const refundAmount = booking.seatPrice;
+  if (refundAmount > 0 && booking.method === "CreditCard") {
+    if (!stripeClient || !booking.transactionReference) {
+      return {
+        success: false,
+        message: "Card refunds are unavailable because Stripe is not configured.",
+        statusCode: 503,
+      };
+    }
+    try {
+      await stripeClient.refunds.create({
+        payment_intent: booking.transactionReference,
+        amount: Math.round(refundAmount * 100),
+        reason: "requested_by_customer",
+      });
+    } catch (stripeError) {
+      console.error("Stripe group seat refund failed:", stripeError);
+      return {
+        success: false,
+        message: "We couldn't refund the card right now. Please try again later.",
+        statusCode: 502,
+      };
+    }
+  }
+
+  seat.status = status;
+  seat.respondedAt = new Date();
+  seat.refundAmount = refundAmount;
+  seat.refundedAt = new Date();
+  await booking.save();
+
+  if (refundAmount > 0 && booking.method === "Wallet") {
+    await recordWalletTransaction({
+      userId: booking.organizerId.toString(),
+      type: WalletTransactionType.REFUND,
+      amount: refundAmount,
+      description: `Refund for an unused group seat (${seat.email})`,
+      receiptNumber: generateReference("REF"),
+      eventId: booking.eventId.toString(),
+    });
+  }
+
+  await EventModel.updateOne(
+    { _id: booking.eventId },
+    {
+      $pull: { groupHolds: { seatId } },
+      ...(refundAmount > 0 ? { $inc: { revenue: -refundAmount } } : {}),
+    }
+  );
+  await promoteNextWaitlistedUsers(booking.eventId.toString());
+
+  return {
+    success: true,
+    message: "Seat released.",
+    data: { refundAmount },
+  };
+}
+
+export async function bookGroupWithWallet(
+  eventId: string,
+  organizerId: string,
+  input: GroupBookingInput
+): Promise<ServiceResponse<GroupBookingItem>> {
+  try {
+    const resolved = await prepareGroupBooking(eventId, organizerId, input);
+    if (!resolved.success) {
+      return resolved;
+    }
+    const { event, organizer, seats, seatPrice, currency } = resolved.prepared;
+
+    if (seatPrice > 0 && !isWalletCurrency(currency)) {
+      return {
+        success: false,
+        message: `Events at ${event.location} are charged in ${currency} and can only be paid by card.`,
+        statusCode: 400,
+      };
+    }
+
+    const total = roundMoney(seatPrice * seats.length);
+    const booking = await GroupBookingModel.create({
+      eventId: event._id,
+      organizerId: organizer._id,
+      seats: seats.map((seat) => ({ ...seat, status: GroupSeatStatus.PENDING })),
+      seatPrice,
+      currency,
+      method: "Wallet",
+      status: GroupBookingStatus.PAID,
+      receiptNumber: generateReference("GRP"),
+      paidAt: new Date(),
+    });
+
+    if (total > 0) {
+      try {
+        await recordWalletTransaction({
+          userId: organizerId,
+          type: WalletTransactionType.EVENT_PAYMENT,
+          amount: -total,
+          description: `Group booking for ${event.name} (${seats.length} seats)`,
+          receiptNumber: booking.receiptNumber,
+          eventId: event._id.toString(),
+        });
+      } catch (error) {
+        await GroupBookingModel.deleteOne({ _id: booking._id });
+        if (error instanceof InsufficientWalletBalanceError) {
+          return {
+            success: false,
+            message: `Insufficient wallet balance for ${seats.length} seats. Please pay by card instead.`,
+            statusCode: 400,
+          };
+        }
+        throw error;
+      }
+    }
+
+    const created = booking.toObject() as GroupBookingWithId;
+    await activateGroupBooking(created, event, organizer);
+
+    return {
+      success: true,
+      message: "Group booked. Your guests have been invited to confirm their seats.",
+      statusCode: 201,
+      data: await loadGroupBookingItem(created._id.toString()),
+    };
+  } catch (error) {
+    console.error("bookGroupWithWallet error:", error);
+    return {
+      success: false,
+      message: "Failed to book the group.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function createGroupBookingPaymentIntent(
+  eventId: string,
+  organizerId: string,
+  input: GroupBookingInput
+): Promise<ServiceResponse<GroupIntentData>> {
+  try {
+    if (!stripeClient) {
+      return {
+        success: false,
+        message: "Stripe is not configured.",
+        statusCode: 500,
+      };
+    }
+
+    const resolved = await prepareGroupBooking(eventId, organizerId, input);
+    if (!resolved.success) {
+      return resolved;
+    }
+    const { event, organizer, seats, seatPrice, currency } = resolved.prepared;
+    if (seatPrice <= 0) {
+      return {
+        success: false,
+        message: "This event does not require card payments.",
+        statusCode: 400,
+      };
+    }
+
+    const booking = await GroupBookingModel.create({
+      eventId: event._id,
+      organizerId: organizer._id,
+      seats: seats.map((seat) => ({ ...seat, status: GroupSeatStatus.PENDING })),
+      seatPrice,
+      currency,
+      method: "CreditCard",
+      status: GroupBookingStatus.AWAITING_PAYMENT,
+      receiptNumber: generateReference("GRP"),
+    });
+
+    const paymentIntent = await stripeClient.paymentIntents.create({
+      amount: Math.round(seatPrice * seats.length * 100),
+      currency: currency.toLowerCase(),
+      payment_method_types: ["card"],
+      metadata: {
+        purpose: GROUP_BOOKING_PAYMENT_PURPOSE,
+        groupBookingId: booking._id.toString(),
+        eventId: event._id.toString(),
+        userId: organizerId,
+      },
+    });
+
+    if (!paymentIntent.client_secret) {
+      await GroupBookingModel.deleteOne({ _id: booking._id });
+      return {
+        success: false,
+        message: "Failed to create Stripe payment intent.",
+        statusCode: 500,
+      };
+    }
+
+    booking.transactionReference = paymentIntent.id;
+    await booking.save();
+
+    return {
+      success: true,
+      message: "Stripe payment intent created.",
+      data: {
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        bookingId: booking._id.toString(),
+      },
+    };
+  } catch (error) {
+    console.error("createGroupBookingPaymentIntent error:", error);
+    return {
+      success: false,
+      message: "Failed to initiate Stripe payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+export function isGroupBookingPaymentIntent(paymentIntent: Stripe.PaymentIntent) {
+  return paymentIntent.metadata?.purpose === GROUP_BOOKING_PAYMENT_PURPOSE;
+}
+
+export async function finalizeGroupBookingPayment(
+  organizerId: string,
+  paymentIntentId: string
+): Promise<ServiceResponse<GroupBookingItem>> {
+  try {
+    if (!stripeClient) {
+      return {
+        success: false,
+        message: "Stripe is not configured.",
+        statusCode: 500,
+      };
+    }
+
+    const paymentIntent = (await stripeClient.paymentIntents.retrieve(
+      paymentIntentId
+    )) as PaymentIntentWithOptionalCharges;
+    if (
+      !isGroupBookingPaymentIntent(paymentIntent) ||
+      paymentIntent.metadata?.userId !== organizerId
+    ) {
+      return {
+        success: false,
+        message: "Payment intent does not match this group booking.",
+        statusCode: 400,
+      };
+    }
+
+    const applied = await applyGroupBookingPaymentIntent(paymentIntent);
+    return {
+      success: applied.success,
+      message: applied.message,
+      statusCode: applied.statusCode,
+      data: applied.data,
+    };
+  } catch (error) {
+    console.error("finalizeGroupBookingPayment error:", error);
+    return {
+      success: false,
+      message: "Failed to confirm Stripe payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Webhook counterpart of finalizeGroupBookingPayment. A booking that failed
+ * and had its card refunded counts as handled, so Stripe stops redelivering.
+ */
+export async function reconcileGroupBookingPaymentIntent(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<ServiceResponse<GroupBookingItem>> {
+  try {
+    const applied = await applyGroupBookingPaymentIntent(paymentIntent);
+    return applied.settled
+      ? { success: true, message: applied.message }
+      : {
+          success: applied.success,
+          message: applied.message,
+          statusCode: applied.statusCode,
+          data: applied.data,
+        };
+  } catch (error) {
+    console.error("reconcileGroupBookingPaymentIntent error:", error);
+    return {
+      success: false,
+      message: "Failed to reconcile Stripe payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Refunds the card of a booking that could not be completed. Safe to call
+ * from both the browser callback and the webhook: Stripe dedupes the refund.
+ */
+async function refundFailedGroupBooking(
+  booking: GroupBookingWithId,
+  paymentIntentId: string
+): Promise<AppliedGroupPayment> {
+  const message =
+    booking.failureReason ?? "This group booking could not be completed.";
+  if (booking.refundedAt) {
+    return { success: false, message, statusCode: 409, settled: true };
+  }
+  if (!stripeClient) {
+    return {
+      success: false,
+      message: "Card refunds are unavailable because Stripe is not configured.",
+      statusCode: 503,
+    };
+  }
+
+  try {
+    await stripeClient.refunds.create(
+      { payment_intent: paymentIntentId, reason: "requested_by_customer" },
+      { idempotencyKey: `group-booking-refund-${booking._id.toString()}` }
+    );
+  } catch (refundError) {
+    console.error("Failed to auto-refund group booking:", refundError);
+    return {
+      success: false,
+      message: "We couldn't refund the card yet. It will be retried.",
+      statusCode: 502,
+    };
+  }
+
+  await GroupBookingModel.updateOne(
+    { _id: booking._id },
+    { $set: { refundedAt: new Date() } }
+  );
+  return { success: false, message, statusCode: 409, settled: true };
+}
+
+// Shared by the browser callback and the webhook; only one of them claims the booking
+async function applyGroupBookingPaymentIntent(
+  paymentIntent: PaymentIntentWithOptionalCharges
+): Promise<AppliedGroupPayment> {
+  const bookingId = paymentIntent.metadata?.groupBookingId ?? "";
+  if (!Types.ObjectId.isValid(bookingId)) {
+    return {
+      success: false,
+      message: "Payment intent has no group booking.",
+      statusCode: 400,
+    };
+  }
+
+  if (paymentIntent.status !== "succeeded") {
+    return {
+      success: false,
+      message: "Stripe payment has not completed.",
+      statusCode: 400,
+    };
+  }
+
+  const booking = await GroupBookingModel.findOne({
+    _id: bookingId,
+    transactionReference: paymentIntent.id,
+  }).lean<GroupBookingWithId | null>();
+  if (!booking) {
+    return {
+      success: false,
+      message: "Group booking not found.",
+      statusCode: 404,
+    };
+  }
+
+  if (booking.status === GroupBookingStatus.PAID) {
+    return {
+      success: true,
+      message: "Group booking already recorded.",
+      data: await loadGroupBookingItem(bookingId),
+    };
+  }
+  if (booking.status === GroupBookingStatus.FAILED) {
+    // The charge went through after all, but no seats are held for it
+    return refundFailedGroupBooking(booking, paymentIntent.id);
+  }
+
+  const [event, organizer] = await Promise.all([
+    EventModel.findById(booking.eventId).lean<EventWithId | null>(),
+    UserModel.findById(booking.organizerId).lean<UserWithId | null>(),
+  ]);
+
+  // Seats were not held while the card was being charged
+  const available =
+    event && typeof event.capacity === "number" && event.capacity > 0
+      ? event.capacity -
+        (event.registeredUsers?.length ?? 0) -
+        countHeldSeats(event, booking.organizerId.toString())
+      : Infinity;
+  const unavailableReason = !event
+    ? "The event no longer exists."
+    : !organizer
+      ? "The organizer account no longer exists."
+      : booking.seats.length > available
+        ? "The event filled up before the payment completed."
+        : null;
+
+  if (unavailableReason) {
+    const failed = await GroupBookingModel.findOneAndUpdate(
+      { _id: bookingId, status: { $ne: GroupBookingStatus.PAID } },
+      {
+        $set: {
+          status: GroupBookingStatus.FAILED,
+          failureReason: `${unavailableReason} Your card has been refunded.`,
+        },
+      },
+      { new: true }
+    ).lean<GroupBookingWithId | null>();
+    if (!failed) {
+      return {
+        success: true,
+        message: "Group booking already recorded.",
+        data: await loadGroupBookingItem(bookingId),
+      };
+    }
+    return refundFailedGroupBooking(failed, paymentIntent.id);
+  }
+
+  const claimed = await GroupBookingModel.findOneAndUpdate(
+    { _id: bookingId, status: GroupBookingStatus.AWAITING_PAYMENT },
+    {
+      $set: {
+        status: GroupBookingStatus.PAID,
+        paidAt: new Date(),
+        cardLast4:
+          paymentIntent.charges?.data?.[0]?.payment_method_details?.card?.last4 ??
+          undefined,
+      },
+    },
+    { new: true }
+  ).lean<GroupBookingWithId | null>();
+
+  if (claimed && event && organizer) {
+    await activateGroupBooking(claimed, event, organizer);
+  }
+
+  return {
+    success: true,
+    message: "Group booked. Your guests have been invited to confirm their seats.",
+    data: await loadGroupBookingItem(bookingId),
+  };
+}
+
+/** Marks a declined card attempt so the organizer can try again. */
+export async function recordGroupBookingPaymentFailure(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<ServiceResponse<{ bookingId: string }>> {
+  try {
+    const bookingId = paymentIntent.metadata?.groupBookingId ?? "";
+    if (!Types.ObjectId.isValid(bookingId)) {
+      return {
+        success: false,
+        message: "Payment intent has no group booking.",
+        statusCode: 400,
+      };
+    }
+
+    const failureReason =
+      paymentIntent.last_payment_error?.message ?? "The card payment was declined.";
+    const booking = await GroupBookingModel.findOneAndUpdate(
+      {
+        _id: bookingId,
+        transactionReference: paymentIntent.id,
+        status: GroupBookingStatus.AWAITING_PAYMENT,
+      },
+      { $set: { status: GroupBookingStatus.FAILED, failureReason } }
+    ).lean<GroupBookingWithId | null>();
+
+    if (!booking) {
+      return {
+        success: false,
+        message: "No pending group booking matches this payment.",
+        statusCode: 404,
+      };
+    }
+
+    return {
+      success: true,
+      message: "Payment failure recorded.",
+      data: { bookingId },
+    };
+  } catch (error) {
+    console.error("recordGroupBookingPaymentFailure error:", error);
+    return {
+      success: false,
+      message: "Failed to record payment failure.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function respondToGroupInvitation(
+  bookingId: string,
+  seatId: string,
+  userId: string,
+  accept: boolean
+): Promise<ServiceResponse<{ status: GroupSeatStatus }>> {
+  try {
+    if (!Types.ObjectId.isValid(bookingId) || !Types.ObjectId.isValid(seatId)) {
+      return {
+        success: false,
+        message: "Invalid invitation identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const [booking, user] = await Promise.all([
+      GroupBookingModel.findOne({
+        _id: bookingId,
+        status: GroupBookingStatus.PAID,
+      }).lean<GroupBookingWithId | null>(),
+      UserModel.findById(userId).lean<UserWithId | null>(),
+    ]);
+    if (!user) {
+      return { success: false, message: "User not found.", statusCode: 404 };
+    }
+
+    const seat = booking?.seats.find(
+      (candidate) => candidate._id.toString() === seatId
+    );
+    const isInvitee =
+      seat &&
+      (seat.userId
+        ? seat.userId.toString() === userId
+        : seat.email === user.email.toLowerCase());
+    if (!booking || !seat || !isInvitee) {
+      return {
+        success: false,
+        message: "Invitation not found.",
+        statusCode: 404,
+      };
+    }
+    if (seat.status !== GroupSeatStatus.PENDING) {
+      return {
+        success: false,
+        message: `You already ${seat.status === GroupSeatStatus.CONFIRMED ? "confirmed" : "answered"} this invitation.`,
+        statusCode: 409,
+      };
+    }
+    if (hasLapsed(seat)) {
+      return {
+        success: false,
+        message: "This invitation has expired and the seat was released.",
+        statusCode: 409,
+      };
+    }
+
+    if (accept && !user.verified) {
+      return {
+        success: false,
+        message: "Verify your account before confirming the seat.",
+        statusCode: 403,
+      };
+    }
+
+    const result = accept
+      ? await confirmGroupSeat(bookingId, seat, user)
+      : await releasePendingSeat(bookingId, seatId, GroupSeatStatus.DECLINED);
+    if (!result.success) {
+      return {
+        success: false,
+        message: result.message,
+        statusCode: result.statusCode ?? 400,
+      };
+    }
+
+    const event = await EventModel.findById(booking.eventId)
+      .select("name")
+      .lean<Pick<IEvent, "name"> | null>();
+    await notifyUsers([booking.organizerId.toString()], {
+      type: NotificationType.GENERAL,
+      message: accept
+        ? `${fullName(user)} confirmed their seat at "${event?.name ?? "your event"}".`
+        : `${fullName(user)} declined their seat at "${event?.name ?? "your event"}". The seat price was refunded to you.`,
+      entity: {
+        kind: NotificationEntityKind.EVENT,
+        id: booking.eventId.toString(),
+      },
+      link: "/user/registrations",
+    });
+
+    return {
+      success: true,
+      message: accept
+        ? result.message
+        : "Invitation declined. The organizer has been refunded.",
+      data: {
+        status: accept ? GroupSeatStatus.CONFIRMED : GroupSeatStatus.DECLINED,
+      },
+    };
+  } catch (error) {
+    console.error("respondToGroupInvitation error:", error);
+    return {
+      success: false,
+      message: "Failed to answer the invitation.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Lets the organizer give up a seat. Unanswered seats are refunded in full;
+ * confirmed ones follow the event's refund policy, like any registration.
+ */
+export async function cancelGroupSeat(
+  bookingId: string,
+  seatId: string,
+  organizerId: string
+): Promise<ServiceResponse<{ refundAmount: number }>> {
+  try {
+    if (!Types.ObjectId.isValid(bookingId) || !Types.ObjectId.isValid(seatId)) {
+      return {
+        success: false,
+        message: "Invalid seat identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const booking = await GroupBookingModel.findOne({
+      _id: bookingId,
+      organizerId,
+      status: GroupBookingStatus.PAID,
+    }).lean<GroupBookingWithId | null>();
+    const seat = booking?.seats.find(
+      (candidate) => candidate._id.toString() === seatId
+    );
+    if (!booking || !seat) {
+      return { success: false, message: "Seat not found.", statusCode: 404 };
+    }
+
+    if (seat.status === GroupSeatStatus.PENDING) {
+      const released = await releasePendingSeat(
+        bookingId,
+        seatId,
+        GroupSeatStatus.CANCELLED
+      );
+      return released.success
+        ? { ...released, message: "Seat cancelled and refunded in full." }
+        : released;
+    }
+
+    if (seat.status === GroupSeatStatus.CONFIRMED && seat.userId) {
+      const cancelled = await cancelRegistrationAndRefund(
+        booking.eventId.toString(),
+        seat.userId.toString()
+      );
+      if (!cancelled.success || !cancelled.data) {
+        return {
+          success: false,
+          message: cancelled.message,
+          statusCode: cancelled.statusCode ?? 400,
+        };
+      }
+      return {
+        success: true,
+        message:
+          cancelled.data.refundAmount > 0
+            ? `Seat cancelled. ${cancelled.data.refundPercentage}% of the seat price was refunded to you.`
+            : "Seat cancelled. No refund applies at this point.",
+        data: { refundAmount: cancelled.data.refundAmount },
+      };
+    }
+
+    return {
+      success: false,
+      message: "This seat was already released.",
+      statusCode: 409,
+    };
+  } catch (error) {
+    console.error("cancelGroupSeat error:", error);
+    return {
+      success: false,
+      message: "Failed to cancel the seat.",
+      statusCode: 500,
+    };
+  }
+}
+
+async function loadGroupBookingItem(bookingId: string) {
+  const booking = await GroupBookingModel.findById(
+    bookingId
+  ).lean<GroupBookingWithId | null>();
+  if (!booking) {
+    return undefined;
+  }
+  const [item] = await toGroupBookingItems([booking]);
+  return item;
+}
+
+async function toGroupBookingItems(
+  bookings: GroupBookingWithId[]
+): Promise<GroupBookingItem[]> {
+  const eventIds = bookings.map((booking) => booking.eventId);
+  const userIds = bookings.flatMap((booking) =>
+    booking.seats
+      .map((seat) => seat.userId)
+      .filter((value): value is Types.ObjectId => Boolean(value))
+  );
+
+  const [events, users] = await Promise.all([
+    EventModel.find({ _id: { $in: eventIds } })
+      .select(["name", "eventType", "location", "startDate"])
+      .lean<EventWithId[]>(),
+    UserModel.find({ _id: { $in: userIds } })
+      .select(["firstName", "lastName"])
+      .lean<UserWithId[]>(),
+  ]);
+  const eventMap = new Map(events.map((event) => [event._id.toString(), event]));
+  const userMap = new Map(users.map((user) => [user._id.toString(), user]));
+
+  return bookings.map((booking) => {
+    const event = eventMap.get(booking.eventId.toString());
+    return {
+      id: booking._id.toString(),
+      eventId: booking.eventId.toString(),
+      eventName: event?.name ?? "Deleted event",
+      eventType: event?.eventType,
+      location: event?.location,
+      startDate: event?.startDate,
+      seatPrice: booking.seatPrice,
+      currency: booking.currency,
+      totalAmount: roundMoney(booking.seatPrice * booking.seats.length),
+      method: booking.method,
+      receiptNumber: booking.receiptNumber,
+      paidAt: booking.paidAt,
+      seats: booking.seats.map((seat) => {
+        const attendee = seat.userId
+          ? userMap.get(seat.userId.toString())
+          : undefined;
+        return {
+          id: seat._id.toString(),
+          email: seat.email,
+          status: seat.status,
+          attendeeName: attendee ? fullName(attendee) : undefined,
+          isOrganizer: seat.userId?.toString() === booking.organizerId.toString(),
+          refundAmount: seat.refundAmount,
+          hasTicket:
+            seat.status === GroupSeatStatus.CONFIRMED && Boolean(seat.paymentId),
+        };
+      }),
+    };
+  });
+}
+
+export async function getOrganizerGroupBookings(
+  organizerId: string
+): Promise<ServiceResponse<GroupBookingItem[]>> {
+  try {
+    if (!Types.ObjectId.isValid(organizerId)) {
+      return { success: false, message: "Invalid user ID.", statusCode: 400 };
+    }
+
+    const bookings = await GroupBookingModel.find({
+      organizerId,
+      status: GroupBookingStatus.PAID,
+    })
+      .sort({ paidAt: -1 })
+      .lean<GroupBookingWithId[]>();
+
+    return {
+      success: true,
+      message: "Group bookings retrieved successfully.",
+      data: await toGroupBookingItems(bookings),
+    };
+  } catch (error) {
+    console.error("getOrganizerGroupBookings error:", error);
+    return {
+      success: false,
+      message: "Failed to load group bookings.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getPendingGroupInvitations(
+  userId: string
+): Promise<ServiceResponse<GroupInvitationItem[]>> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, message: "Invalid user ID.", statusCode: 400 };
+    }
+
+    const user = await UserModel.findById(userId)
+      .select("email")
+      .lean<Pick<UserWithId, "_id" | "email"> | null>();
+    if (!user) {
+      return { success: false, message: "User not found.", statusCode: 404 };
+    }
+
+    const email = user.email.toLowerCase();
+    const now = new Date();
+    const bookings = await GroupBookingModel.find({
+      status: GroupBookingStatus.PAID,
+      seats: { $elemMatch: { email, status: GroupSeatStatus.PENDING } },
+    }).lean<GroupBookingWithId[]>();
+
+    const [events, organizers] = await Promise.all([
+      EventModel.find({ _id: { $in: bookings.map((b) => b.eventId) } })
+        .select(["name", "eventType", "location", "startDate", "registrationDeadline"])
+        .lean<EventWithId[]>(),
+      UserModel.find({ _id: { $in: bookings.map((b) => b.organizerId) } })
+        .select(["firstName", "lastName"])
+        .lean<UserWithId[]>(),
+    ]);
+    const eventMap = new Map(events.map((event) => [event._id.toString(), event]));
+    const organizerMap = new Map(
+      organizers.map((organizer) => [organizer._id.toString(), organizer])
+    );
+
+    const invitations = bookings.flatMap((booking) => {
+      const event = eventMap.get(booking.eventId.toString());
+      return booking.seats
+        .filter(
+          (seat) =>
+            seat.email === email &&
+            seat.status === GroupSeatStatus.PENDING &&
+            !hasLapsed(seat, now)
+        )
+        .map((seat) => ({
+          bookingId: booking._id.toString(),
+          seatId: seat._id.toString(),
+          eventId: booking.eventId.toString(),
+          eventName: event?.name ?? "Deleted event",
+          eventType: event?.eventType,
+          location: event?.location,
+          startDate: event?.startDate,
+          registrationDeadline: event?.registrationDeadline,
+          expiresAt: seat.expiresAt ?? event?.registrationDeadline,
+          organizerName: fullName(
+            organizerMap.get(booking.organizerId.toString())
+          ),
+        }));
+    });
+
+    return {
+      success: true,
+      message: "Invitations retrieved successfully.",
+      data: invitations,
+    };
+  } catch (error) {
+    console.error("getPendingGroupInvitations error:", error);
+    return {
+      success: false,
+      message: "Failed to load invitations.",
+      statusCode: 500,
+    };
+  }
+}
+
+/** Ticket of a confirmed seat, downloadable by the organizer who paid for it. */
+export async function getGroupSeatTicket(
+  bookingId: string,
+  seatId: string,
+  organizerId: string
+): Promise<ServiceResponse<{ filename: string; buffer: Buffer }>> {
+  try {
+    if (!Types.ObjectId.isValid(bookingId) || !Types.ObjectId.isValid(seatId)) {
+      return {
+        success: false,
+        message: "Invalid seat identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const booking = await GroupBookingModel.findOne({
+      _id: bookingId,
+      organizerId,
+    }).lean<GroupBookingWithId | null>();
+    const seat = booking?.seats.find(
+      (candidate) => candidate._id.toString() === seatId
+    );
+    if (!seat || seat.status !== GroupSeatStatus.CONFIRMED || !seat.paymentId) {
+      return {
+        success: false,
+        message: "Tickets are issued once the attendee confirms the seat.",
+        statusCode: 404,
+      };
+    }
+
+    const payment = await UserPaymentModel.findOne({
+      _id: seat.paymentId,
+      status: "Paid",
+    })
+      .select("receiptNumber")
+      .lean<{ _id: Types.ObjectId; receiptNumber: string } | null>();
+    if (!payment) {
+      return {
+        success: false,
+        message: "This seat was cancelled.",
+        statusCode: 404,
+      };
+    }
+
+    return {
+      success: true,
+      message: "Ticket generated.",
+      statusCode: 200,
+      data: {
+        filename: `ticket-${payment.receiptNumber}.png`,
+        buffer: renderTicketQr(payment._id.toString()),
+      },
+    };
+  } catch (error) {
+    console.error("Error generating group seat ticket:", error);
+    return {
+      success: false,
+      message: "Failed to generate ticket.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Releases held seats whose invitee did not answer in time. The organizer is
+ * refunded the seat price and the seat goes to the waitlist.
+ */
+export async function expireGroupSeatHolds(): Promise<void> {
+  try {
+    const now = new Date();
+    const events = await EventModel.find({
+      groupHolds: { $elemMatch: { expiresAt: { $lte: now } } },
+    })
+      .select(["name", "groupHolds"])
+      .lean<Array<Pick<IEvent, "name" | "groupHolds"> & { _id: Types.ObjectId }>>();
+
+    for (const event of events) {
+      const lapsed = (event.groupHolds ?? []).filter(
+        (hold) => hold.expiresAt && new Date(hold.expiresAt) <= now
+      );
+
+      for (const hold of lapsed) {
+        const released = await releasePendingSeat(
+          hold.bookingId,
+          hold.seatId,
+          GroupSeatStatus.EXPIRED
+        );
+        if (!released.success) {
+          if (released.statusCode === 409) {
+            // The seat was answered meanwhile; only the hold was left behind
+            await EventModel.updateOne(
+              { _id: event._id },
+              { $pull: { groupHolds: { seatId: hold.seatId } } }
+            );
+          } else {
+            console.error("Failed to release expired group seat:", released.message);
+          }
+          continue;
+        }
+
+        const booking = await GroupBookingModel.findById(hold.bookingId)
+          .select(["organizerId", "seats"])
+          .lean<GroupBookingWithId | null>();
+        const seat = booking?.seats.find(
+          (candidate) => candidate._id.toString() === hold.seatId
+        );
+        if (!booking || !seat) continue;
+
+        await notifyUsers([booking.organizerId.toString()], {
+          type: NotificationType.GENERAL,
+          message: `${seat.email} did not confirm their seat at "${event.name}" in time. The seat price was refunded to you.`,
+          entity: { kind: NotificationEntityKind.EVENT, id: event._id.toString() },
+          link: "/user/registrations",
+        });
+        if (seat.userId) {
+          await notifyUsers([seat.userId.toString()], {
+            type: NotificationType.GENERAL,
+            message: `Your invitation to "${event.name}" expired and the seat was released.`,
+            entity: { kind: NotificationEntityKind.EVENT, id: event._id.toString() },
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Failed to expire group seat holds:", error);
+  }
+}
+
+let groupBookingSchedulerStarted = false;
+
+export function startGroupBookingScheduler(): void {
+  if (groupBookingSchedulerStarted) {
+    return;
+  }
+
+  groupBookingSchedulerStarted = true;
+
+  const tick = async () => {
+    try {
+      await expireGroupSeatHolds();
+    } catch (error) {
+      console.error("Group booking scheduler tick error:", error);
+    }
+  };
+
+  void tick();
+
+  setInterval(() => {
+    void tick();
+  }, GROUP_HOLD_CHECK_INTERVAL_MS);
+}
@@ -1,7 +1,40 @@
 import { isValidObjectId, UpdateQuery } from "mongoose";
-import GymSessionModel, { IGymSession } from "../models/GymSession";
+import { imageSync } from "qr-image";
+import GymSessionModel, {
+  GymCheckInMethod,
+  GymSessionType,
+  IGymAttendance,
+  IGymSession,
+} from "../models/GymSession";
+import GymSessionTemplateModel, {
+  IGymSessionTemplate,
+} from "../models/GymSessionTemplate";
 import UserModel, { IUser, userRole, userStatus } from "../models/User";
+import {
+  NotificationEntityKind,
+  NotificationType,
+} from "../models/Notification";
+import { Location } from "../models/Event";
+import { recordCalendarCancellation } from "./calendarService";
+import { getCampusTimeZone, timezoneOffsetMinutes } from "./campusService";
 import { emailService } from "./emailService";
+import { notifyUsers } from "./notificationService";
+import { signQrPayload, verifyQrPayload } from "./ticketService";
+
+const GYM_PASS_PREFIX = "GYM";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TEMPLATE_RANGE_DAYS = 366;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// The gym is on the Cairo campus, so session times are Cairo wall-clock times
+const GYM_TIME_ZONE = getCampusTimeZone(Location.GUCCAIRO);
+
+// Fields a template shares with the sessions generated from it
+const TEMPLATE_SESSION_FIELDS = [
+  "time",
+  "duration",
+  "type",
+  "maxParticipants",
+] as const;
 
 const REGISTERABLE_ROLES = new Set<userRole>([
   userRole.STUDENT,
@@ -230,6 +263,88 @@ async function notifyGymSessionUpdate(
   }
 }
 
+async function checkParticipantEligibility(
+  userId: string
+): Promise<{ success: true } | { success: false; message: string; statusCode: number }> {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    return {
+      success: false,
+      message: "User not found",
+      statusCode: 404,
+    };
+  }
+
+  if (!REGISTERABLE_ROLES.has(user.role)) {
+    return {
+      success: false,
+      message: "Only students, staff, professors, and TAs can register for sessions",
+      statusCode: 403,
+    };
+  }
+
+  if (user.status === userStatus.BLOCKED) {
+    return {
+      success: false,
+      message: "Blocked accounts cannot register for sessions",
+      statusCode: 403,
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Sessions store a calendar date plus an HH:mm start in the gym's local time.
+ * This resolves the actual instant the session begins.
+ */
+export function sessionStartsAt(session: Pick<IGymSession, "date" | "time">): Date {
+  const wallClock = new Date(session.date);
+  const [hours, minutes] = (session.time ?? "").split(":").map(Number);
+  wallClock.setUTCHours(hours || 0, minutes || 0, 0, 0);
+  const offset = timezoneOffsetMinutes(wallClock, GYM_TIME_ZONE);
+  return new Date(wallClock.getTime() - offset * 60000);
+}
+
+/** When the session runs, for calendar feeds and their cancellations. */
+export function sessionWindow(
+  session: Pick<IGymSession, "date" | "time" | "duration">
+): { startsAt: Date; endsAt: Date } {
+  const startsAt = sessionStartsAt(session);
+  return {
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + session.duration * 60000),
+  };
+}
+
+/**
+ * Builds the text encoded in a participant's gym pass QR code. The signature
+ * stops a pass from being forged for another user or session.
+ */
+export function buildGymPassCode(sessionId: string, userId: string): string {
+  return [
+    GYM_PASS_PREFIX,
+    sessionId,
+    userId,
+    signQrPayload(`${sessionId}:${userId}`),
+  ].join(":");
+}
+
+function parseGymPassCode(
+  code: string
+): { sessionId: string; userId: string } | null {
+  const [prefix, sessionId, userId, signature] = code.trim().split(":");
+  if (prefix !== GYM_PASS_PREFIX || !sessionId || !userId || !signature) {
+    return null;
+  }
+
+  if (!verifyQrPayload(`${sessionId}:${userId}`, signature)) {
+    return null;
+  }
+
+  return { sessionId, userId };
+}
+
 export async function cancelGymSession(sessionId: string) {
   try {
     const deletedSession = await GymSessionModel.findByIdAndDelete(sessionId);
@@ -245,6 +360,15 @@ export async function cancelGymSession(sessionId: string) {
       deletedSession.toObject() as GymSessionNotificationSession;
     void notifyGymSessionCancellation(sessionSnapshot);
 
+    await recordCalendarCancellation({
+      kind: "gym",
+      id: sessionId,
+      userIds: deletedSession.registeredUsers ?? [],
+      summary: `${deletedSession.type} gym session`,
+      ...sessionWindow(deletedSession),
+      sequence: deletedSession.calendarSequence,
+    });
+
     return {
       success: true,
       message: "Gym session successfully cancelled.",
@@ -316,8 +440,15 @@ export async function editGymSession(
       updatedGymSession.toObject() as GymSessionNotificationSession;
     const changes = detectGymSessionChanges(previousSnapshot, updatedSnapshot);
     if (changes.length > 0) {
+      await GymSessionModel.updateOne(
+        { _id: sessionId },
+        { $inc: { calendarSequence: 1 } }
+      );
       void notifyGymSessionUpdate(updatedSnapshot, changes);
     }
+    if (updatedSnapshot.maxParticipants > previousSnapshot.maxParticipants) {
+      await promoteGymSessionWaitlist(sessionId);
+    }
     return {
       success: true,
       message: "Gym session successfully updated.",
@@ -399,29 +530,9 @@ export async function registerForGymSession(
       };
     }
 
-    const user = await UserModel.findById(userId);
-    if (!user) {
-      return {
-        success: false,
-        message: "User not found",
-        statusCode: 404,
-      };
-    }
-
-    if (!REGISTERABLE_ROLES.has(user.role)) {
-      return {
-        success: false,
-        message: "Only students, staff, professors, and TAs can register for sessions",
-        statusCode: 403,
-      };
-    }
-
-    if (user.status === userStatus.BLOCKED) {
-      return {
-        success: false,
-        message: "Blocked accounts cannot register for sessions",
-        statusCode: 403,
-      };
+    const participant = await checkParticipantEligibility(userId);
+    if (!participant.success) {
+      return participant;
     }
 
     const session = await GymSessionModel.findById(sessionId);
@@ -457,6 +568,9 @@ export async function registerForGymSession(
 
     session.registeredUsers = session.registeredUsers ?? [];
     session.registeredUsers.push(userId);
+    session.waitlist = (session.waitlist ?? []).filter(
+      (waitingId: string) => waitingId !== userId
+    );
     await session.save();
 
     await UserModel.findByIdAndUpdate(userId, {
@@ -482,3 +596,1048 @@ export async function registerForGymSession(
     };
   }
 }
+
+/**
+ * Moves waitlisted users into free spots, oldest first. Each move is guarded so
+ * that concurrent registrations can never push a session over capacity.
+ */
+export async function promoteGymSessionWaitlist(
+  sessionId: string
+): Promise<string[]> {
+  const promoted: string[] = [];
+
+  try {
+    let session = await GymSessionModel.findById(sessionId);
+
+    while (session && sessionStartsAt(session) > new Date()) {
+      const nextUserId: string | undefined = session.waitlist?.[0];
+      const registeredCount = session.registeredUsers?.length ?? 0;
+      if (!nextUserId || registeredCount >= session.maxParticipants) {
+        break;
+      }
+
+      const updated = await GymSessionModel.findOneAndUpdate(
+        {
+          _id: sessionId,
+          "waitlist.0": nextUserId,
+          [`registeredUsers.${session.maxParticipants - 1}`]: {
+            $exists: false,
+          },
+        },
+        {
+          $pop: { waitlist: -1 },
+          $addToSet: { registeredUsers: nextUserId },
+        },
+        { new: true }
+      );
+
+      if (!updated) {
+        break;
+      }
+
+      await UserModel.findByIdAndUpdate(nextUserId, {
+        $addToSet: { registeredGymSessions: sessionId },
+      });
+      promoted.push(nextUserId);
+      session = updated;
+    }
+
+    if (session && promoted.length > 0) {
+      await notifyUsers(promoted, {
+        type: NotificationType.GYM,
+        message: `A spot opened up in the ${session.type} gym session on ${formatSessionChangeValue(
+          "date",
+          session.date
+        )} at ${session.time}. You have been registered from the waitlist.`,
+        entity: { kind: NotificationEntityKind.GYM_SESSION, id: sessionId },
+        link: "/user/gym",
+      });
+    }
+  } catch (error) {
+    console.error("Error promoting gym session waitlist:", error);
+  }
+
+  return promoted;
+}
+
+export async function unregisterFromGymSession(
+  sessionId: string,
+  userId: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: { promotedUserIds: string[] };
+}> {
+  try {
+    if (!isValidObjectId(sessionId)) {
+      return {
+        success: false,
+        message: "Invalid gym session ID",
+        statusCode: 400,
+      };
+    }
+
+    const session = await GymSessionModel.findById(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        message: "Gym session not found",
+        statusCode: 404,
+      };
+    }
+
+    if (!session.registeredUsers?.includes(userId)) {
+      return {
+        success: false,
+        message: "You are not registered for this session",
+        statusCode: 404,
+      };
+    }
+
+    if (sessionStartsAt(session) <= new Date()) {
+      return {
+        success: false,
+        message: "This session has already started",
+        statusCode: 400,
+      };
+    }
+
+    await GymSessionModel.updateOne(
+      { _id: sessionId },
+      { $pull: { registeredUsers: userId } }
+    );
+    await UserModel.findByIdAndUpdate(userId, {
+      $pull: { registeredGymSessions: sessionId },
+    });
+
+    const promotedUserIds = await promoteGymSessionWaitlist(sessionId);
+
+    return {
+      success: true,
+      message: "You have left the gym session",
+      statusCode: 200,
+      data: { promotedUserIds },
+    };
+  } catch (error) {
+    console.error("Error unregistering from gym session:", error);
+    return {
+      success: false,
+      message: "Failed to leave gym session",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function joinGymSessionWaitlist(
+  sessionId: string,
+  userId: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: { position: number; waitlistSize: number };
+}> {
+  try {
+    if (!isValidObjectId(sessionId)) {
+      return {
+        success: false,
+        message: "Invalid gym session ID",
+        statusCode: 400,
+      };
+    }
+
+    if (!isValidObjectId(userId)) {
+      return {
+        success: false,
+        message: "Invalid user ID",
+        statusCode: 400,
+      };
+    }
+
+    const participant = await checkParticipantEligibility(userId);
+    if (!participant.success) {
+      return participant;
+    }
+
+    const session = await GymSessionModel.findById(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        message: "Gym session not found",
+        statusCode: 404,
+      };
+    }
+
+    if (sessionStartsAt(session) <= new Date()) {
+      return {
+        success: false,
+        message: "This session has already started",
+        statusCode: 400,
+      };
+    }
+
+    if (session.registeredUsers?.includes(userId)) {
+      return {
+        success: false,
+        message: "You are already registered for this session",
+        statusCode: 409,
+      };
+    }
+
+    if ((session.registeredUsers?.length ?? 0) < session.maxParticipants) {
+      return {
+        success: false,
+        message: "Spots are still available. Please register directly",
+        statusCode: 400,
+      };
+    }
+
+    const updated = await GymSessionModel.findOneAndUpdate(
+      { _id: sessionId, waitlist: { $ne: userId } },
+      { $push: { waitlist: userId } },
+      { new: true }
+    );
+
+    if (!updated) {
+      return {
+        success: false,
+        message: "You are already on the waitlist for this session",
+        statusCode: 409,
+      };
+    }
+
+    const position = updated.waitlist.indexOf(userId) + 1;
+    return {
+      success: true,
+      message: `You joined the waitlist at position ${position}`,
+      statusCode: 201,
+      data: { position, waitlistSize: updated.waitlist.length },
+    };
+  } catch (error) {
+    console.error("Error joining gym session waitlist:", error);
+    return {
+      success: false,
+      message: "Failed to join the waitlist",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function leaveGymSessionWaitlist(
+  sessionId: string,
+  userId: string
+): Promise<{ success: boolean; message: string; statusCode?: number }> {
+  try {
+    if (!isValidObjectId(sessionId)) {
+      return {
+        success: false,
+        message: "Invalid gym session ID",
+        statusCode: 400,
+      };
+    }
+
+    const result = await GymSessionModel.updateOne(
+      { _id: sessionId, waitlist: userId },
+      { $pull: { waitlist: userId } }
+    );
+
+    if (result.modifiedCount === 0) {
+      return {
+        success: false,
+        message: "You are not on the waitlist for this session",
+        statusCode: 404,
+      };
+    }
+
+    return {
+      success: true,
+      message: "You left the waitlist",
+      statusCode: 200,
+    };
+  } catch (error) {
+    console.error("Error leaving gym session waitlist:", error);
+    return {
+      success: false,
+      message: "Failed to leave the waitlist",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function generateGymSessionPass(
+  sessionId: string,
+  userId: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  buffer?: Buffer;
+  filename?: string;
+}> {
+  try {
+    if (!isValidObjectId(sessionId)) {
+      return {
+        success: false,
+        message: "Invalid gym session ID",
+        statusCode: 400,
+      };
+    }
+
+    const session = await GymSessionModel.findById(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        message: "Gym session not found",
+        statusCode: 404,
+      };
+    }
+
+    if (!session.registeredUsers?.includes(userId)) {
+      return {
+        success: false,
+        message: "Only registered participants have a gym pass",
+        statusCode: 403,
+      };
+    }
+
+    const buffer = imageSync(buildGymPassCode(sessionId, userId), {
+      type: "png",
+      size: 8,
+      margin: 2,
+      ec_level: "M",
+    });
+
+    if (typeof buffer === "string") {
+      return {
+        success: false,
+        message: "Failed to generate gym pass",
+        statusCode: 500,
+      };
+    }
+
+    const dateStr = new Date(session.date).toISOString().split("T")[0];
+    return {
+      success: true,
+      message: "Gym pass generated",
+      statusCode: 200,
+      buffer,
+      filename: `gym_pass_${session.type}_${dateStr}.png`,
+    };
+  } catch (error) {
+    console.error("Error generating gym pass:", error);
+    return {
+      success: false,
+      message: "Failed to generate gym pass",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function checkInGymSessionAttendees(
+  sessionId: string,
+  staffId: string,
+  payload: { userIds?: string[]; passCode?: string }
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: {
+    checkedIn: string[];
+    alreadyCheckedIn: string[];
+    notRegistered: string[];
+    attendedCount: number;
+  };
+}> {
+  try {
+    if (!isValidObjectId(sessionId)) {
+      return {
+        success: false,
+        message: "Invalid gym session ID",
+        statusCode: 400,
+      };
+    }
+
+    let method = GymCheckInMethod.MANUAL;
+    let userIds: string[] = [];
+
+    if (payload.passCode) {
+      const pass = parseGymPassCode(payload.passCode);
+      if (!pass) {
+        return {
+          success: false,
+          message: "This gym pass is not valid",
+          statusCode: 400,
+        };
+      }
+      if (pass.sessionId !== sessionId) {
+        return {
+          success: false,
+          message: "This gym pass belongs to a different session",
+          statusCode: 400,
+        };
+      }
+      method = GymCheckInMethod.QR;
+      userIds = [pass.userId];
+    } else if (Array.isArray(payload.userIds)) {
+      userIds = Array.from(
+        new Set(payload.userIds.filter((id) => typeof id === "string"))
+      );
+    }
+
+    if (userIds.length === 0) {
+      return {
+        success: false,
+        message: "Provide a gym pass or at least one user to check in",
+        statusCode: 400,
+      };
+    }
+
+    const session = await GymSessionModel.findById(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        message: "Gym session not found",
+        statusCode: 404,
+      };
+    }
+
+    const registered = new Set<string>(session.registeredUsers ?? []);
+    const attended = new Set<string>(
+      (session.attendance ?? []).map((entry: IGymAttendance) => entry.userId)
+    );
+
+    const checkedIn: string[] = [];
+    const alreadyCheckedIn: string[] = [];
+    const notRegistered: string[] = [];
+
+    userIds.forEach((id) => {
+      if (!registered.has(id)) {
+        notRegistered.push(id);
+      } else if (attended.has(id)) {
+        alreadyCheckedIn.push(id);
+      } else {
+        checkedIn.push(id);
+      }
+    });
+
+    if (checkedIn.length === 0 && alreadyCheckedIn.length === 0) {
+      return {
+        success: false,
+        message:
+          method === GymCheckInMethod.QR
+            ? "This pass holder is not registered for the session"
+            : "None of the selected users are registered for this session",
+        statusCode: 400,
+      };
+    }
+
+    if (checkedIn.length > 0) {
+      const checkedInAt = new Date();
+      await GymSessionModel.updateOne(
+        { _id: sessionId },
+        {
+          $push: {
+            attendance: {
+              $each: checkedIn.map((userId) => ({
+                userId,
+                checkedInAt,
+                checkedInBy: staffId,
+                method,
+              })),
+            },
+          },
+        }
+      );
+    }
+
+    return {
+      success: true,
+      message:
+        checkedIn.length > 0
+          ? `Checked in ${checkedIn.length} participant${checkedIn.length === 1 ? "" : "s"}`
+          : "Already checked in",
+      statusCode: 200,
+      data: {
+        checkedIn,
+        alreadyCheckedIn,
+        notRegistered,
+        attendedCount: attended.size + checkedIn.length,
+      },
+    };
+  } catch (error) {
+    console.error("Error checking in gym session attendees:", error);
+    return {
+      success: false,
+      message: "Failed to check in attendees",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getGymSessionParticipants(sessionId: string): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: {
+    registered: Array<{
+      id: string;
+      name: string;
+      email: string;
+      checkedInAt?: Date;
+      method?: GymCheckInMethod;
+    }>;
+    waitlist: Array<{ id: string; name: string; email: string }>;
+  };
+}> {
+  try {
+    if (!isValidObjectId(sessionId)) {
+      return {
+        success: false,
+        message: "Invalid gym session ID",
+        statusCode: 400,
+      };
+    }
+
+    const session = await GymSessionModel.findById(sessionId).lean<IGymSession>();
+    if (!session) {
+      return {
+        success: false,
+        message: "Gym session not found",
+        statusCode: 404,
+      };
+    }
+
+    const userIds = [
+      ...(session.registeredUsers ?? []),
+      ...(session.waitlist ?? []),
+    ].filter((id) => isValidObjectId(id));
+    const users = await UserModel.find({ _id: { $in: userIds } })
+      .select(["firstName", "lastName", "email"])
+      .lean<Array<Pick<IUser, "firstName" | "lastName" | "email"> & { _id: unknown }>>();
+    const usersById = new Map(users.map((user) => [String(user._id), user]));
+    const attendanceByUser = new Map(
+      (session.attendance ?? []).map((entry) => [entry.userId, entry])
+    );
+
+    const describe = (id: string) => {
+      const user = usersById.get(id);
+      return {
+        id,
+        name: user ? `${user.firstName} ${user.lastName}`.trim() : "Unknown user",
+        email: user?.email ?? "",
+      };
+    };
+
+    return {
+      success: true,
+      message: "Participants loaded",
+      statusCode: 200,
+      data: {
+        registered: (session.registeredUsers ?? []).map((id) => ({
+          ...describe(id),
+          checkedInAt: attendanceByUser.get(id)?.checkedInAt,
+          method: attendanceByUser.get(id)?.method,
+        })),
+        waitlist: (session.waitlist ?? []).map(describe),
+      },
+    };
+  } catch (error) {
+    console.error("Error loading gym session participants:", error);
+    return {
+      success: false,
+      message: "Failed to load participants",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getGymAttendanceStats(
+  year: number,
+  month: number
+): Promise<{
+  success: boolean;
+  message: string;
+  data?: Array<{
+    type: GymSessionType;
+    sessions: number;
+    registrations: number;
+    checkIns: number;
+    attendanceRate: number | null;
+  }>;
+}> {
+  try {
+    // month: 1-12
+    const startDate = new Date(year, month - 1, 1);
+    const endDate = new Date(year, month, 1);
+    const now = new Date();
+
+    const sessions = await GymSessionModel.find({
+      date: { $gte: startDate, $lt: endDate },
+    })
+      .select(["date", "time", "type", "registeredUsers", "attendance"])
+      .lean<IGymSession[]>();
+
+    const stats = Object.values(GymSessionType).map((type) => {
+      const ofType = sessions.filter((session) => session.type === type);
+      // Only sessions that already started can have meaningful attendance.
+      const started = ofType.filter((session) => sessionStartsAt(session) <= now);
+      const countRegistrations = (list: IGymSession[]) =>
+        list.reduce(
+          (total, session) => total + (session.registeredUsers?.length ?? 0),
+          0
+        );
+      const countCheckIns = (list: IGymSession[]) =>
+        list.reduce(
+          (total, session) => total + (session.attendance?.length ?? 0),
+          0
+        );
+      const startedRegistrations = countRegistrations(started);
+
+      return {
+        type,
+        sessions: ofType.length,
+        registrations: countRegistrations(ofType),
+        checkIns: countCheckIns(ofType),
+        attendanceRate:
+          startedRegistrations > 0
+            ? Math.round((countCheckIns(started) / startedRegistrations) * 100)
+            : null,
+      };
+    });
+
+    return {
+      success: true,
+      message: "Attendance statistics loaded",
+      data: stats,
+    };
+  } catch (error) {
+    console.error("Error loading gym attendance stats:", error);
+    return {
+      success: false,
+      message: "Failed to load attendance statistics",
+    };
+  }
+}
+
+export type GymSessionTemplatePayload = {
+  weekday: number;
+  time: string;
+  duration: number;
+  type: GymSessionType;
+  maxParticipants: number;
+  startDate: string | Date;
+  endDate: string | Date;
+  blackoutDates?: Array<string | Date>;
+};
+
+type TemplateSchedule = Pick<
+  IGymSessionTemplate,
+  "weekday" | "startDate" | "endDate" | "blackoutDates"
+>;
+
+function toUtcDay(value: string | Date): Date | null {
+  const parsed = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+  return new Date(
+    Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate())
+  );
+}
+
+function validateTemplatePayload(
+  payload: GymSessionTemplatePayload
+): string | null {
+  if (
+    !Number.isInteger(payload.weekday) ||
+    payload.weekday < 0 ||
+    payload.weekday > 6
+  ) {
+    return "Weekday must be between 0 (Sunday) and 6 (Saturday)";
+  }
+  if (typeof payload.time !== "string" || !TIME_PATTERN.test(payload.time)) {
+    return "Time must be in HH:mm format";
+  }
+  if (!Number.isInteger(payload.duration) || payload.duration < 1) {
+    return "Duration must be a positive number of minutes";
+  }
+  if (!Object.values(GymSessionType).includes(payload.type)) {
+    return "Invalid gym session type";
+  }
+  if (!Number.isInteger(payload.maxParticipants) || payload.maxParticipants < 1) {
+    return "Max participants must be greater than zero";
+  }
+
+  const startDate = toUtcDay(payload.startDate);
+  const endDate = toUtcDay(payload.endDate);
+  if (!startDate || !endDate) {
+    return "Valid start and end dates are required";
+  }
+  if (endDate < startDate) {
+    return "End date must be on or after the start date";
+  }
+  if (endDate.getTime() - startDate.getTime() > MAX_TEMPLATE_RANGE_DAYS * DAY_MS) {
+    return `A template can cover at most ${MAX_TEMPLATE_RANGE_DAYS} days`;
+  }
+  if ((payload.blackoutDates ?? []).some((date) => !toUtcDay(date))) {
+    return "Blackout dates must be valid dates";
+  }
+
+  return null;
+}
+
+/**
+ * Lists the dates a template produces on or after `from`, split into the
+ * dates to generate and the blackout dates that were skipped.
+ */
+function listTemplateDates(
+  template: TemplateSchedule,
+  from: Date
+): { dates: Date[]; skipped: Date[] } {
+  const blackout = new Set(
+    (template.blackoutDates ?? [])
+      .map((date) => toUtcDay(date)?.getTime())
+      .filter((time): time is number => typeof time === "number")
+  );
+  const start = toUtcDay(template.startDate)!;
+  const end = toUtcDay(template.endDate)!;
+  const cursor = new Date(Math.max(start.getTime(), toUtcDay(from)!.getTime()));
+  cursor.setUTCDate(
+    cursor.getUTCDate() + ((template.weekday - cursor.getUTCDay() + 7) % 7)
+  );
+
+  const dates: Date[] = [];
+  const skipped: Date[] = [];
+  while (cursor <= end) {
+    const date = new Date(cursor);
+    if (blackout.has(date.getTime())) {
+      skipped.push(date);
+    } else {
+      dates.push(date);
+    }
+    cursor.setUTCDate(cursor.getUTCDate() + 7);
+  }
+
+  return { dates, skipped };
+}
+
+async function generateTemplateSessions(
+  template: IGymSessionTemplate,
+  from: Date
+): Promise<{ created: number; skippedDates: string[] }> {
+  const templateId = String(template._id);
+  const { dates, skipped } = listTemplateDates(template, from);
+
+  const existing = await GymSessionModel.find({
+    templateId,
+    date: { $in: dates },
+  })
+    .select("date")
+    .lean<Array<Pick<IGymSession, "date">>>();
+  const taken = new Set(existing.map((session) => session.date.getTime()));
+
+  const now = new Date();
+  const toCreate = dates.filter(
+    (date) =>
+      !taken.has(date.getTime()) &&
+      sessionStartsAt({ date, time: template.time }) > now
+  );
+
+  if (toCreate.length > 0) {
+    await GymSessionModel.insertMany(
+      toCreate.map((date) => ({
+        date,
+        time: template.time,
+        duration: template.duration,
+        type: template.type,
+        maxParticipants: template.maxParticipants,
+        registeredUsers: [],
+        templateId,
+      }))
+    );
+  }
+
+  return {
+    created: toCreate.length,
+    skippedDates: skipped.map((date) => date.toISOString().slice(0, 10)),
+  };
+}
+
+export async function createGymSessionTemplate(
+  payload: GymSessionTemplatePayload,
+  createdBy?: string
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: {
+    template: IGymSessionTemplate;
+    createdSessions: number;
+    skippedDates: string[];
+  };
+}> {
+  try {
+    const validationError = validateTemplatePayload(payload);
+    if (validationError) {
+      return { success: false, message: validationError, statusCode: 400 };
+    }
+
+    const template = await GymSessionTemplateModel.create({
+      weekday: payload.weekday,
+      time: payload.time,
+      duration: payload.duration,
+      type: payload.type,
+      maxParticipants: payload.maxParticipants,
+      startDate: toUtcDay(payload.startDate),
+      endDate: toUtcDay(payload.endDate),
+      blackoutDates: (payload.blackoutDates ?? []).map((date) => toUtcDay(date)),
+      createdBy,
+    });
+
+    const { created, skippedDates } = await generateTemplateSessions(
+      template,
+      new Date()
+    );
+
+    return {
+      success: true,
+      message: `Template created with ${created} gym session${created === 1 ? "" : "s"}`,
+      statusCode: 201,
+      data: { template, createdSessions: created, skippedDates },
+    };
+  } catch (error) {
+    console.error("Error creating gym session template:", error);
+    return {
+      success: false,
+      message: "Failed to create gym session template",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getGymSessionTemplates(): Promise<{
+  success: boolean;
+  message: string;
+  data?: Array<Record<string, unknown> & { upcomingSessions: number }>;
+}> {
+  try {
+    const templates = await GymSessionTemplateModel.find()
+      .sort({ weekday: 1, time: 1 })
+      .lean<IGymSessionTemplate[]>();
+
+    const upcoming = await GymSessionModel.aggregate<{
+      _id: string;
+      count: number;
+    }>([
+      {
+        $match: {
+          templateId: { $in: templates.map((t) => String(t._id)) },
+          date: { $gte: toUtcDay(new Date()) },
+        },
+      },
+      { $group: { _id: "$templateId", count: { $sum: 1 } } },
+    ]);
+    const counts = new Map(upcoming.map((entry) => [entry._id, entry.count]));
+
+    return {
+      success: true,
+      message: "Gym session templates loaded",
+      data: templates.map((template) => ({
+        ...template,
+        upcomingSessions: counts.get(String(template._id)) ?? 0,
+      })),
+    };
+  } catch (error) {
+    console.error("Error loading gym session templates:", error);
+    return {
+      success: false,
+      message: "Failed to load gym session templates",
+    };
+  }
+}
+
+/**
+ * Updates a template. With `applyToFuture`, sessions that have not started
+ * yet are brought in line: changed fields are edited (emailing registered
+ * participants), sessions now on a blackout date or past the end date are
+ * cancelled, and missing dates are generated. Without it only dates added
+ * past the previous end date are generated.
+ */
+export async function updateGymSessionTemplate(
+  templateId: string,
+  updates: Partial<GymSessionTemplatePayload>,
+  applyToFuture = false
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: {
+    template: IGymSessionTemplate;
+    updatedSessions: number;
+    cancelledSessions: number;
+    createdSessions: number;
+  };
+}> {
+  try {
+    if (!isValidObjectId(templateId)) {
+      return {
+        success: false,
+        message: "Invalid template ID",
+        statusCode: 400,
+      };
+    }
+
+    const template = await GymSessionTemplateModel.findById(templateId);
+    if (!template) {
+      return {
+        success: false,
+        message: "Gym session template not found",
+        statusCode: 404,
+      };
+    }
+
+    if (updates.weekday !== undefined && updates.weekday !== template.weekday) {
+      return {
+        success: false,
+        message:
+          "The weekday of a template cannot be changed. Create a new template instead",
+        statusCode: 400,
+      };
+    }
+
+    const merged: GymSessionTemplatePayload = {
+      weekday: template.weekday,
+      time: updates.time ?? template.time,
+      duration: updates.duration ?? template.duration,
+      type: updates.type ?? template.type,
+      maxParticipants: updates.maxParticipants ?? template.maxParticipants,
+      startDate: updates.startDate ?? template.startDate,
+      endDate: updates.endDate ?? template.endDate,
+      blackoutDates: updates.blackoutDates ?? template.blackoutDates,
+    };
+    const validationError = validateTemplatePayload(merged);
+    if (validationError) {
+      return { success: false, message: validationError, statusCode: 400 };
+    }
+
+    const previousEndDate = toUtcDay(template.endDate)!;
+    template.set({
+      time: merged.time,
+      duration: merged.duration,
+      type: merged.type,
+      maxParticipants: merged.maxParticipants,
+      startDate: toUtcDay(merged.startDate),
+      endDate: toUtcDay(merged.endDate),
+      blackoutDates: (merged.blackoutDates ?? []).map((date) => toUtcDay(date)),
+    });
+    await template.save();
+
+    let updatedSessions = 0;
+    let cancelledSessions = 0;
+    let createdSessions = 0;
+    const now = new Date();
+
+    if (applyToFuture) {
+      const { dates } = listTemplateDates(template, now);
+      const scheduled = new Set(dates.map((date) => date.getTime()));
+      const futureSessions = (
+        await GymSessionModel.find({
+          templateId,
+          date: { $gte: toUtcDay(now) },
+        })
+      ).filter((session) => sessionStartsAt(session) > now);
+
+      for (const session of futureSessions) {
+        const sessionId = session._id.toString();
+        if (!scheduled.has(toUtcDay(session.date)!.getTime())) {
+          const cancelled = await cancelGymSession(sessionId);
+          if (cancelled.success) {
+            cancelledSessions += 1;
+          }
+          continue;
+        }
+
+        const changes = Object.fromEntries(
+          TEMPLATE_SESSION_FIELDS.filter(
+            (field) => session.get(field) !== template.get(field)
+          ).map((field) => [field, template.get(field)])
+        );
+        if (Object.keys(changes).length > 0) {
+          const edited = await editGymSession(sessionId, changes);
+          if (edited.success) {
+            updatedSessions += 1;
+          }
+        }
+      }
+
+      createdSessions = (await generateTemplateSessions(template, now)).created;
+    } else if (toUtcDay(template.endDate)! > previousEndDate) {
+      const from = new Date(
+        Math.max(previousEndDate.getTime() + DAY_MS, now.getTime())
+      );
+      createdSessions = (await generateTemplateSessions(template, from)).created;
+    }
+
+    return {
+      success: true,
+      message: "Gym session template updated",
+      statusCode: 200,
+      data: { template, updatedSessions, cancelledSessions, createdSessions },
+    };
+  } catch (error) {
+    console.error("Error updating gym session template:", error);
+    return {
+      success: false,
+      message: "Failed to update gym session template",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Deletes a template. Sessions it already generated stay on the schedule
+ * as one-off sessions.
+ */
+export async function deleteGymSessionTemplate(templateId: string): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+}> {
+  try {
+    if (!isValidObjectId(templateId)) {
+      return {
+        success: false,
+        message: "Invalid template ID",
+        statusCode: 400,
+      };
+    }
+
+    const deleted = await GymSessionTemplateModel.findByIdAndDelete(templateId);
+    if (!deleted) {
+      return {
+        success: false,
+        message: "Gym session template not found",
+        statusCode: 404,
+      };
+    }
+
+    await GymSessionModel.updateMany(
+      { templateId },
+      { $unset: { templateId: "" } }
+    );
+
+    return {
+      success: true,
+      message: "Gym session template deleted",
+      statusCode: 200,
+    };
+  } catch (error) {
+    console.error("Error deleting gym session template:", error);
+    return {
+      success: false,
+      message: "Failed to delete gym session template",
+      statusCode: 500,
+    };
+  }
+}
@@ -0,0 +1,579 @@
+import PDFDocument from "pdfkit";
+import { Types } from "mongoose";
+import EventModel from "../models/Event";
+import UserModel from "../models/User";
+import UserPaymentModel, { IUserPayment } from "../models/UserPayment";
+import type { ICourtPayment } from "../models/CourtPayment";
+import vendorModel, { ApplicationPayment, IVendor } from "../models/Vendor";
+
+const ISSUER_NAME = process.env.INVOICE_ISSUER_NAME || "Zapvent Events Office";
+const CREDIT_NOTE_PREFIX = "CN";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type PaymentWithId = IUserPayment & { _id: Types.ObjectId };
+
+export type InvoiceKind = "invoice" | "creditNote";
+
+export type InvoiceLine = {
+  description: string;
+  amount: number;
+};
+
+// Everything printed on one PDF; builders below fill it from payment records
+export type InvoiceDocument = {
+  kind: InvoiceKind;
+  number: string;
+  issuedAt: Date;
+  billedTo: { name: string; email?: string };
+  currency: string;
+  lines: InvoiceLine[];
+  total: number;
+  details: Array<[string, string]>;
+};
+
+type InvoiceEvent = { name: string; eventType?: string };
+
+export type InvoiceFile = {
+  filename: string;
+  buffer: Buffer;
+};
+
+export type UserInvoiceSummary = {
+  paymentId: string;
+  eventId: string;
+  eventName?: string;
+  receiptNumber: string;
+  amount: number;
+  currency: string;
+  method: string;
+  status: IUserPayment["status"];
+  paidAt: Date;
+  refundAmount?: number;
+  refundedAt?: Date;
+  hasInvoice: boolean;
+  hasCreditNote: boolean;
+};
+
+export function creditNoteNumber(receiptNumber: string): string {
+  return `${CREDIT_NOTE_PREFIX}-${receiptNumber}`;
+}
+
+function formatCurrency(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-EG", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDateTime(value: Date) {
+  return new Intl.DateTimeFormat("en-GB", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(value);
+}
+
+function describeMethod(payment: IUserPayment) {
+  if (payment.method === "Mixed") {
+    return "Wallet and card";
+  }
+  if (payment.method === "Wallet") {
+    return "Wallet";
+  }
+  return payment.cardLast4 ? `Card ending ${payment.cardLast4}` : "Card";
+}
+
+export function hasUserCreditNote(payment: IUserPayment) {
+  return payment.status === "Refunded" && (payment.refundAmount ?? 0) > 0;
+}
+
+export function hasVendorInvoice(payment?: ApplicationPayment) {
+  return Boolean(
+    payment?.receiptNumber &&
+      payment.paidAt &&
+      (payment.status === "paid" || payment.status === "refunded")
+  );
+}
+
+export function hasVendorCreditNote(payment?: ApplicationPayment) {
+  return hasVendorInvoice(payment) && (payment?.refundAmount ?? 0) > 0;
+}
+
+export function buildUserPaymentInvoice(options: {
+  payment: IUserPayment;
+  customer: { name: string; email?: string };
+  event: InvoiceEvent;
+}): InvoiceDocument {
+  const { payment, customer, event } = options;
+  const { discount } = payment;
+  const lines: InvoiceLine[] = [
+    {
+      description: `${event.eventType ?? "Event"} registration: ${event.name}`,
+      amount: discount ? discount.originalAmount : payment.amount,
+    },
+  ];
+  if (discount) {
+    lines.push({
+      description: `Promo code ${discount.code} (${discount.discountRate}% off)`,
+      amount: -discount.amount,
+    });
+  }
+
+  const details: Array<[string, string]> = [
+    ["Payment method", describeMethod(payment)],
+  ];
+  if (payment.method === "Mixed") {
+    details.push(
+      ["Paid from wallet", formatCurrency(payment.walletPortion, payment.currency)],
+      ["Paid by card", formatCurrency(payment.cardPortion, payment.currency)]
+    );
+  }
+  if (payment.transactionReference) {
+    details.push(["Transaction reference", payment.transactionReference]);
+  }
+
+  return {
+    kind: "invoice",
+    number: payment.receiptNumber,
+    issuedAt: new Date(payment.paidAt),
+    billedTo: customer,
+    currency: payment.currency,
+    lines,
+    total: payment.amount,
+    details,
+  };
+}
+
+export function buildUserPaymentCreditNote(options: {
+  payment: IUserPayment;
+  customer: { name: string; email?: string };
+  event: InvoiceEvent;
+}): InvoiceDocument {
+  const { payment, customer, event } = options;
+  const refundAmount = payment.refundAmount ?? 0;
+
+  const details: Array<[string, string]> = [
+    ["Original invoice", payment.receiptNumber],
+  ];
+  if (payment.refundPercentage !== undefined) {
+    details.push(["Refund rate", `${payment.refundPercentage}%`]);
+  }
+  if ((payment.walletRefundAmount ?? 0) > 0) {
+    details.push([
+      "Credited to wallet",
+      formatCurrency(payment.walletRefundAmount ?? 0, payment.currency),
+    ]);
+  }
+  if ((payment.cardRefundAmount ?? 0) > 0) {
+    details.push([
+      "Returned to card",
+      formatCurrency(payment.cardRefundAmount ?? 0, payment.currency),
+    ]);
+  }
+  if (payment.refundReference) {
+    details.push(["Refund reference", payment.refundReference]);
+  }
+
+  return {
+    kind: "creditNote",
+    number: creditNoteNumber(payment.receiptNumber),
+    issuedAt: new Date(payment.refundedAt ?? payment.updatedAt ?? Date.now()),
+    billedTo: customer,
+    currency: payment.currency,
+    lines: [
+      {
+        description: `Refund of ${(event.eventType ?? "event").toLowerCase()} registration: ${event.name}`,
+        amount: refundAmount,
+      },
+    ],
+    total: refundAmount,
+    details,
+  };
+}
+
+export function buildVendorPaymentInvoice(options: {
+  payment: ApplicationPayment;
+  vendor: Pick<IVendor, "companyName" | "email">;
+  eventName: string;
+  boothSize?: string;
+}): InvoiceDocument {
+  const { payment, vendor, eventName, boothSize } = options;
+  const details: Array<[string, string]> = [];
+  if (payment.transactionReference) {
+    details.push(["Transaction reference", payment.transactionReference]);
+  }
+
+  return {
+    kind: "invoice",
+    number: payment.receiptNumber ?? "",
+    issuedAt: new Date(payment.paidAt ?? Date.now()),
+    billedTo: { name: vendor.companyName, email: vendor.email },
+    currency: payment.currency,
+    lines: [
+      {
+        description: `Booth fee: ${eventName}${boothSize ? ` (${boothSize} booth)` : ""}`,
+        amount: payment.amount,
+      },
+    ],
+    total: payment.amount,
+    details,
+  };
+}
+
+export function buildVendorPaymentCreditNote(options: {
+  payment: ApplicationPayment;
+  vendor: Pick<IVendor, "companyName" | "email">;
+  eventName: string;
+}): InvoiceDocument {
+  const { payment, vendor, eventName } = options;
+  const refundAmount = payment.refundAmount ?? 0;
+
+  return {
+    kind: "creditNote",
+    number: creditNoteNumber(payment.receiptNumber ?? ""),
+    issuedAt: new Date(payment.refundedAt ?? Date.now()),
+    billedTo: { name: vendor.companyName, email: vendor.email },
+    currency: payment.currency,
+    lines: [{ description: `Refund of booth fee: ${eventName}`, amount: refundAmount }],
+    total: refundAmount,
+    details: [["Original invoice", payment.receiptNumber ?? "—"]],
+  };
+}
+
+export function buildCourtPaymentInvoice(options: {
+  payment: ICourtPayment;
+  customer: { name: string; email?: string };
+  courtLabel: string;
+  venue?: string;
+}): InvoiceDocument {
+  const { payment, customer, courtLabel, venue } = options;
+  const slotDate = new Date(payment.date).toISOString().slice(0, 10);
+  const cardLabel = payment.cardLast4
+    ? `Card ending ${payment.cardLast4}`
+    : "Card";
+  const details: Array<[string, string]> = [
+    ["Payment method", payment.method === "Wallet" ? "Wallet" : cardLabel],
+  ];
+  if (payment.transactionReference) {
+    details.push(["Transaction reference", payment.transactionReference]);
+  }
+
+  return {
+    kind: "invoice",
+    number: payment.receiptNumber,
+    issuedAt: new Date(payment.paidAt),
+    billedTo: customer,
+    currency: payment.currency,
+    lines: [
+      {
+        description: `${courtLabel}${venue ? ` at ${venue}` : ""}: ${slotDate} ${payment.startTime}-${payment.endTime}`,
+        amount: payment.amount,
+      },
+    ],
+    total: payment.amount,
+    details,
+  };
+}
+
+export function invoiceFilename(document: InvoiceDocument) {
+  const prefix = document.kind === "invoice" ? "invoice" : "credit-note";
+  const safeNumber = document.number.replace(/[^A-Za-z0-9-]/g, "");
+  return `${prefix}-${safeNumber}.pdf`;
+}
+
+export function renderInvoicePdf(document: InvoiceDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    const title = document.kind === "invoice" ? "INVOICE" : "CREDIT NOTE";
+    const left = pdf.page.margins.left;
+    const right = pdf.page.width - pdf.page.margins.right;
+    const amountWidth = 120;
+    const money = (amount: number) => formatCurrency(amount, document.currency);
+
+    pdf.font("Helvetica-Bold").fontSize(20).text("Zapvent", left, 50);
+    pdf.font("Helvetica").fontSize(10).fillColor("#555").text(ISSUER_NAME);
+    pdf
+      .font("Helvetica-Bold")
+      .fontSize(16)
+      .fillColor("#000")
+      .text(title, left, 50, { align: "right" });
+    pdf
+      .font("Helvetica")
+      .fontSize(10)
+      .text(`No. ${document.number}`, { align: "right" })
+      .text(`Issued ${formatDateTime(document.issuedAt)}`, { align: "right" });
+
+    pdf.moveDown(2);
+    pdf.font("Helvetica-Bold").text(document.kind === "invoice" ? "Billed to" : "Credited to", left);
+    pdf.font("Helvetica").text(document.billedTo.name);
+    if (document.billedTo.email) {
+      pdf.text(document.billedTo.email);
+    }
+
+    pdf.moveDown(1.5);
+    let y = pdf.y;
+    pdf.font("Helvetica-Bold").text("Description", left, y);
+    pdf.text("Amount", right - amountWidth, y, { width: amountWidth, align: "right" });
+    y = pdf.y + 4;
+    pdf.moveTo(left, y).lineTo(right, y).strokeColor("#ccc").stroke();
+
+    pdf.font("Helvetica");
+    for (const line of document.lines) {
+      y += 8;
+      pdf.text(line.description, left, y, { width: right - left - amountWidth - 10 });
+      const nextY = pdf.y;
+      pdf.text(money(line.amount), right - amountWidth, y, {
+        width: amountWidth,
+        align: "right",
+      });
+      y = Math.max(nextY, pdf.y);
+    }
+
+    y += 6;
+    pdf.moveTo(left, y).lineTo(right, y).strokeColor("#ccc").stroke();
+    y += 8;
+    pdf
+      .font("Helvetica-Bold")
+      .text(document.kind === "invoice" ? "Total paid" : "Total credited", left, y);
+    pdf.text(money(document.total), right - amountWidth, y, {
+      width: amountWidth,
+      align: "right",
+    });
+
+    if (document.details.length) {
+      pdf.moveDown(2);
+      pdf.x = left;
+      for (const [label, value] of document.details) {
+        pdf.font("Helvetica-Bold").text(`${label}: `, { continued: true });
+        pdf.font("Helvetica").text(value);
+      }
+    }
+
+    pdf
+      .fontSize(8)
+      .fillColor("#999")
+      .text(
+        `Generated by Zapvent on ${formatDateTime(new Date())}.`,
+        left,
+        pdf.page.height - pdf.page.margins.bottom - 20,
+        { align: "center", width: right - left }
+      );
+
+    pdf.end();
+  });
+}
+
+async function renderInvoiceFile(document: InvoiceDocument): Promise<InvoiceFile> {
+  return {
+    filename: invoiceFilename(document),
+    buffer: await renderInvoicePdf(document),
+  };
+}
+
+/** For receipt emails: a missing attachment should never stop the email itself. */
+export async function renderInvoiceAttachment(
+  document: InvoiceDocument
+): Promise<InvoiceFile | undefined> {
+  try {
+    return await renderInvoiceFile(document);
+  } catch (error) {
+    console.error(`Failed to render invoice ${document.number}:`, error);
+    return undefined;
+  }
+}
+
+export async function listUserInvoices(
+  userId: string
+): Promise<ServiceResponse<UserInvoiceSummary[]>> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, message: "Invalid user identifier.", statusCode: 400 };
+    }
+
+    const payments = await UserPaymentModel.find({
+      userId: new Types.ObjectId(userId),
+      status: { $in: ["Paid", "Refunded"] },
+    })
+      .sort({ paidAt: -1 })
+      .lean<PaymentWithId[]>();
+
+    const eventIds = Array.from(new Set(payments.map((payment) => payment.eventId.toString())));
+    const events = eventIds.length
+      ? await EventModel.find({ _id: { $in: eventIds } })
+          .select(["name"])
+          .lean<Array<{ _id: Types.ObjectId; name: string }>>()
+      : [];
+    const eventNames = new Map(events.map((event) => [event._id.toString(), event.name]));
+
+    return {
+      success: true,
+      message: "Payments retrieved successfully.",
+      data: payments.map((payment) => ({
+        paymentId: payment._id.toString(),
+        eventId: payment.eventId.toString(),
+        eventName: eventNames.get(payment.eventId.toString()),
+        receiptNumber: payment.receiptNumber,
+        amount: payment.amount,
+        currency: payment.currency,
+        method: payment.method,
+        status: payment.status,
+        paidAt: payment.paidAt,
+        refundAmount: payment.refundAmount,
+        refundedAt: payment.refundedAt,
+        hasInvoice: true,
+        hasCreditNote: hasUserCreditNote(payment),
+      })),
+    };
+  } catch (error) {
+    console.error("listUserInvoices error:", error);
+    return { success: false, message: "Failed to load payments.", statusCode: 500 };
+  }
+}
+
+export async function getUserPaymentDocument(
+  userId: string,
+  paymentId: string,
+  kind: InvoiceKind
+): Promise<ServiceResponse<InvoiceFile>> {
+  try {
+    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(paymentId)) {
+      return { success: false, message: "Invalid payment identifier.", statusCode: 400 };
+    }
+
+    const payment = await UserPaymentModel.findOne({
+      _id: new Types.ObjectId(paymentId),
+      userId: new Types.ObjectId(userId),
+      status: { $in: ["Paid", "Refunded"] },
+    }).lean<PaymentWithId | null>();
+
+    if (!payment) {
+      return { success: false, message: "Payment not found.", statusCode: 404 };
+    }
+
+    if (kind === "creditNote" && !hasUserCreditNote(payment)) {
+      return {
+        success: false,
+        message: "This payment has not been refunded.",
+        statusCode: 404,
+      };
+    }
+
+    const [user, event] = await Promise.all([
+      UserModel.findById(userId)
+        .select(["firstName", "lastName", "email"])
+        .lean<{ firstName?: string; lastName?: string; email: string } | null>(),
+      EventModel.findById(payment.eventId)
+        .select(["name", "eventType"])
+        .lean<InvoiceEvent | null>(),
+    ]);
+
+    const options = {
+      payment,
+      customer: {
+        name: `${user?.firstName ?? ""} ${user?.lastName ?? ""}`.trim() || "Zapvent user",
+        email: user?.email,
+      },
+      event: event ?? { name: "Deleted event" },
+    };
+    const document =
+      kind === "invoice"
+        ? buildUserPaymentInvoice(options)
+        : buildUserPaymentCreditNote(options);
+
+    return {
+      success: true,
+      message: "Document generated.",
+      data: await renderInvoiceFile(document),
+    };
+  } catch (error) {
+    console.error("getUserPaymentDocument error:", error);
+    return { success: false, message: "Failed to generate document.", statusCode: 500 };
+  }
+}
+
+export async function getVendorPaymentDocument(
+  vendorId: string,
+  eventId: string,
+  kind: InvoiceKind
+): Promise<ServiceResponse<InvoiceFile>> {
+  try {
+    if (!Types.ObjectId.isValid(vendorId) || !Types.ObjectId.isValid(eventId)) {
+      return {
+        success: false,
+        message: "Invalid vendor or event identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const vendor = await vendorModel
+      .findById(vendorId)
+      .select(["companyName", "email", "applications"])
+      .lean<IVendor | null>();
+
+    if (!vendor) {
+      return { success: false, message: "Vendor not found.", statusCode: 404 };
+    }
+
+    const application = (vendor.applications ?? []).find(
+      (app) => app.eventId.toString() === eventId
+    );
+    const payment = application?.payment;
+
+    if (!application || !hasVendorInvoice(payment)) {
+      return {
+        success: false,
+        message: "No booth payment found for this event.",
+        statusCode: 404,
+      };
+    }
+
+    if (kind === "creditNote" && !hasVendorCreditNote(payment)) {
+      return {
+        success: false,
+        message: "This booth fee has not been refunded.",
+        statusCode: 404,
+      };
+    }
+
+    const event = await EventModel.findById(eventId)
+      .select("name")
+      .lean<{ name: string } | null>();
+    const eventName = event?.name ?? "Deleted event";
+    const document =
+      kind === "invoice"
+        ? buildVendorPaymentInvoice({
+            payment: payment as ApplicationPayment,
+            vendor,
+            eventName,
+            boothSize: application.boothSize,
+          })
+        : buildVendorPaymentCreditNote({
+            payment: payment as ApplicationPayment,
+            vendor,
+            eventName,
+          });
+
+    return {
+      success: true,
+      message: "Document generated.",
+      data: await renderInvoiceFile(document),
+    };
+  } catch (error) {
+    console.error("getVendorPaymentDocument error:", error);
+    return { success: false, message: "Failed to generate document.", statusCode: 500 };
+  }
+}
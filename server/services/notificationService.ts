@@ -1,8 +1,17 @@
-import { Types } from "mongoose";
-import EventModel, { IEvent } from "../models/Event";
+import { FilterQuery, Types } from "mongoose";
+import EventModel, { EventType, IEvent } from "../models/Event";
 import UserModel, { userRole } from "../models/User";
 import AdminModel from "../models/Admin";
+import NotificationModel, {
+  INotification,
+  INotificationEntity,
+  MUTABLE_NOTIFICATION_TYPES,
+  NotificationEntityKind,
+  NotificationRecipientModel,
+  NotificationType,
+} from "../models/Notification";
 import { formatDate } from "../../lib/date";
+import { publishToSubscribers } from "./realtimeService";
 
 const TARGET_USER_ROLES = [
   userRole.STUDENT,
@@ -16,57 +25,146 @@ const ONE_DAY_MS = 24 * ONE_HOUR_MS;
 const REMINDER_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
 const REMINDER_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 
-function buildNotification(message: string) {
-  return {
-    message,
-    seen: false,
-    createdAt: new Date(),
-  };
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Events Office pages that list each event type
+const EVENT_OFFICE_EVENT_PAGES: Partial<Record<EventType, string>> = {
+  [EventType.WORKSHOP]: "workshops",
+  [EventType.TRIP]: "trips",
+  [EventType.BAZAAR]: "bazaars",
+  [EventType.CONFERENCE]: "conferences",
+};
+
+export type NotificationPayload = {
+  type: NotificationType;
+  message: string;
+  entity?: INotificationEntity;
+  link?: string;
+};
+
+export type NotificationRecipient = {
+  id: string;
+  model: NotificationRecipientModel;
+};
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type NotificationWithId = INotification & { _id: Types.ObjectId };
+
+export type NotificationItem = {
+  id: string;
+  type: NotificationType;
+  message: string;
+  entity?: INotificationEntity;
+  link?: string;
+  read: boolean;
+  archived: boolean;
+  createdAt: Date;
+};
+
+export type NotificationPage = {
+  notifications: NotificationItem[];
+  page: number;
+  limit: number;
+  total: number;
+  unreadCount: number;
+  hasMore: boolean;
+};
+
+export type NotificationPreferences = {
+  mutedTypes: NotificationType[];
+  mutableTypes: NotificationType[];
+};
+
+function eventEntity(eventId: string): INotificationEntity {
+  return { kind: NotificationEntityKind.EVENT, id: eventId };
 }
 
-async function pushNotificationsToUsers(
-  userIds: Types.ObjectId[],
-  message: string
-): Promise<void> {
-  if (!userIds.length) {
-    return;
+function eventOfficeEventLink(eventType: EventType, eventId: string) {
+  const page = EVENT_OFFICE_EVENT_PAGES[eventType];
+  if (!page) {
+    return undefined;
   }
-
-  await UserModel.updateMany(
-    {
-      _id: { $in: userIds },
-      role: { $in: TARGET_USER_ROLES },
-    },
-    {
-      $push: { notifications: buildNotification(message) },
-    }
-  ).exec();
+  return eventType === EventType.WORKSHOP
+    ? `/events-office/${page}/${eventId}`
+    : `/events-office/${page}`;
 }
 
-async function pushNotificationsToEventOfficeAdmins(
-  adminIds: Types.ObjectId[],
-  message: string
+async function insertNotifications(
+  recipientIds: Types.ObjectId[],
+  recipientModel: NotificationRecipientModel,
+  payload: NotificationPayload
 ): Promise<void> {
-  if (!adminIds.length) {
+  if (!recipientIds.length) {
     return;
   }
 
-  await AdminModel.updateMany(
-    {
-      _id: { $in: adminIds },
-      adminType: "EventOffice",
-    },
-    {
-      $push: { notifications: buildNotification(message) },
-    }
-  ).exec();
+  const created = await NotificationModel.insertMany(
+    recipientIds.map((recipientId) => ({
+      recipientId,
+      recipientModel,
+      type: payload.type,
+      message: payload.message,
+      entity: payload.entity,
+      link: payload.link,
+    }))
+  );
+
+  // Live delivery to open notification streams; everyone else picks the
+  // notification up on their next fetch.
+  created.forEach((notification) => {
+    const item = notification.toObject() as NotificationWithId;
+    publishToSubscribers(
+      [{ id: String(item.recipientId), model: recipientModel }],
+      "notification",
+      serializeNotification(item)
+    );
+  });
+}
+
+// Recipients who muted the payload's category are dropped here, so every
+// sender gets preference handling for free.
+async function pushNotificationsToUsers(
+  filter: FilterQuery<unknown>,
+  payload: NotificationPayload
+): Promise<void> {
+  const recipients = await UserModel.find({
+    ...filter,
+    role: { $in: TARGET_USER_ROLES },
+    mutedNotificationTypes: { $ne: payload.type },
+  })
+    .select("_id")
+    .lean<Array<{ _id: Types.ObjectId }>>();
+
+  await insertNotifications(
+    recipients.map((recipient) => recipient._id),
+    NotificationRecipientModel.USER,
+    payload
+  );
 }
 
-async function broadcastToEventOffice(message: string): Promise<void> {
-  await AdminModel.updateMany(
-    { adminType: "EventOffice" },
-    { $push: { notifications: buildNotification(message) } }
-  ).exec();
+async function pushNotificationsToAdmins(
+  filter: FilterQuery<unknown>,
+  payload: NotificationPayload
+): Promise<void> {
+  const recipients = await AdminModel.find({
+    ...filter,
+    mutedNotificationTypes: { $ne: payload.type },
+  })
+    .select("_id")
+    .lean<Array<{ _id: Types.ObjectId }>>();
+
+  await insertNotifications(
+    recipients.map((recipient) => recipient._id),
+    NotificationRecipientModel.ADMIN,
+    payload
+  );
 }
 
 function toObjectIds(values: string[] | undefined | null): Types.ObjectId[] {
@@ -92,22 +190,64 @@ function toObjectIds(values: string[] | undefined | null): Types.ObjectId[] {
   return Array.from(unique).map((id) => new Types.ObjectId(id));
 }
 
+export async function notifyUsers(
+  userIds: string[],
+  payload: NotificationPayload
+): Promise<void> {
+  try {
+    const recipientIds = toObjectIds(userIds);
+    if (!recipientIds.length) {
+      return;
+    }
+    await pushNotificationsToUsers({ _id: { $in: recipientIds } }, payload);
+  } catch (error) {
+    console.error("Failed to send user notification:", error);
+  }
+}
+
+export async function notifyEventOffice(
+  payload: NotificationPayload
+): Promise<void> {
+  try {
+    await pushNotificationsToAdmins(
+      { adminType: "EventOffice", status: "Active" },
+      payload
+    );
+  } catch (error) {
+    console.error("Error sending notification to Event Office:", error);
+  }
+}
+
 export async function notifyUsersOfNewEvent(
-  event: Pick<IEvent, "name" | "eventType" | "startDate">
+  event: Pick<IEvent, "name" | "eventType" | "startDate"> & { _id: unknown }
 ): Promise<void> {
   try {
+    const eventId = String(event._id);
     const startDate = event.startDate instanceof Date
       ? event.startDate
       : new Date(event.startDate);
 
-  const message = `New event "${event.name}" (${event.eventType}) scheduled for ${formatDate(startDate, "MMM D, YYYY HH:mm")}.`;
+    const message = `New event "${event.name}" (${event.eventType}) scheduled for ${formatDate(startDate, "MMM D, YYYY HH:mm")}.`;
 
     await Promise.all([
-      UserModel.updateMany(
-        { role: { $in: TARGET_USER_ROLES } },
-        { $push: { notifications: buildNotification(message) } }
-      ).exec(),
-      broadcastToEventOffice(message),
+      pushNotificationsToUsers(
+        {},
+        {
+          type: NotificationType.NEW_EVENT,
+          message,
+          entity: eventEntity(eventId),
+          link: `/user/events/${eventId}`,
+        }
+      ),
+      pushNotificationsToAdmins(
+        { adminType: "EventOffice" },
+        {
+          type: NotificationType.NEW_EVENT,
+          message,
+          entity: eventEntity(eventId),
+          link: eventOfficeEventLink(event.eventType, eventId),
+        }
+      ),
     ]);
   } catch (error) {
     console.error("Failed to send new event notification:", error);
@@ -124,28 +264,71 @@ export async function notifyUsersOfNewLoyaltyPartner(options: {
       2
     )}% off with code ${options.promoCode}.`;
 
-    await UserModel.updateMany(
-      { role: { $in: TARGET_USER_ROLES } },
-      { $push: { notifications: buildNotification(message) } }
-    ).exec();
+    await pushNotificationsToUsers(
+      {},
+      {
+        type: NotificationType.LOYALTY_PARTNER,
+        message,
+        link: "/user/loyalty",
+      }
+    );
   } catch (error) {
     console.error("Failed to send loyalty partner notification:", error);
   }
 }
 
+export async function notifyUsersOfNewPoll(poll: {
+  _id: unknown;
+  boothName: string;
+}): Promise<void> {
+  try {
+    await pushNotificationsToUsers(
+      {},
+      {
+        type: NotificationType.POLL,
+        message: `Vote for the vendor you want at "${poll.boothName}".`,
+        entity: { kind: NotificationEntityKind.POLL, id: String(poll._id) },
+        link: "/user/polls",
+      }
+    );
+  } catch (error) {
+    console.error("Failed to send poll notification:", error);
+  }
+}
+
 export async function notifyAdminsOfPendingVendors(
-  pendingCount: number
+  pendingCount: number,
+  vendorId?: string
 ): Promise<void> {
   try {
+    const entity: INotificationEntity | undefined = vendorId
+      ? { kind: NotificationEntityKind.VENDOR_APPLICATION, id: vendorId }
+      : undefined;
     const message =
       pendingCount === 1
         ? "There is 1 vendor request waiting for review."
         : `There are ${pendingCount} vendor requests waiting for review.`;
 
-    await AdminModel.updateMany(
-      { adminType: { $in: ["Admin", "EventOffice"] } },
-      { $push: { notifications: buildNotification(message) } }
-    ).exec();
+    await Promise.all([
+      pushNotificationsToAdmins(
+        { adminType: "Admin" },
+        {
+          type: NotificationType.VENDOR_APPLICATION,
+          message,
+          entity,
+          link: "/admin/vendors",
+        }
+      ),
+      pushNotificationsToAdmins(
+        { adminType: "EventOffice" },
+        {
+          type: NotificationType.VENDOR_APPLICATION,
+          message,
+          entity,
+          link: "/events-office/vendors",
+        }
+      ),
+    ]);
   } catch (error) {
     console.error("Failed to send pending vendor notification:", error);
   }
@@ -182,6 +365,7 @@ async function sendReminderForEvent(
     return;
   }
 
+  const eventId = event._id.toString();
   const formattedDate = formatDate(startDate, "MMM D, YYYY HH:mm");
   const messages: string[] = [];
 
@@ -200,8 +384,24 @@ async function sendReminderForEvent(
   await Promise.all(
     messages.map(async (message) => {
       await Promise.all([
-        pushNotificationsToUsers(recipientIds, message),
-        pushNotificationsToEventOfficeAdmins(recipientIds, message),
+        pushNotificationsToUsers(
+          { _id: { $in: recipientIds } },
+          {
+            type: NotificationType.REMINDER,
+            message,
+            entity: eventEntity(eventId),
+            link: `/user/events/${eventId}`,
+          }
+        ),
+        pushNotificationsToAdmins(
+          { _id: { $in: recipientIds }, adminType: "EventOffice" },
+          {
+            type: NotificationType.REMINDER,
+            message,
+            entity: eventEntity(eventId),
+            link: eventOfficeEventLink(event.eventType, eventId),
+          }
+        ),
       ]);
     })
   );
@@ -258,3 +458,283 @@ export function startReminderScheduler(): void {
     void tick();
   }, REMINDER_INTERVAL_MS);
 }
+
+function recipientFilter(recipient: NotificationRecipient) {
+  return {
+    recipientId: new Types.ObjectId(recipient.id),
+    recipientModel: recipient.model,
+  };
+}
+
+function serializeNotification(notification: NotificationWithId): NotificationItem {
+  return {
+    id: notification._id.toString(),
+    type: notification.type,
+    message: notification.message,
+    entity: notification.entity,
+    link: notification.link,
+    read: Boolean(notification.readAt),
+    archived: Boolean(notification.archivedAt),
+    createdAt: notification.createdAt,
+  };
+}
+
+function recipientAccountModel(recipient: NotificationRecipient) {
+  return recipient.model === NotificationRecipientModel.ADMIN
+    ? AdminModel
+    : UserModel;
+}
+
+export async function listNotifications(
+  recipient: NotificationRecipient,
+  options: {
+    page?: number;
+    limit?: number;
+    archived?: boolean;
+    unreadOnly?: boolean;
+  } = {}
+): Promise<ServiceResponse<NotificationPage>> {
+  try {
+    if (!Types.ObjectId.isValid(recipient.id)) {
+      return { success: false, message: "Invalid recipient ID", statusCode: 400 };
+    }
+
+    const page = Math.max(1, Math.floor(options.page ?? 1));
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Math.floor(options.limit ?? DEFAULT_PAGE_SIZE))
+    );
+    const base = recipientFilter(recipient);
+    const filter: FilterQuery<INotification> = {
+      ...base,
+      archivedAt: { $exists: Boolean(options.archived) },
+    };
+    if (options.unreadOnly) {
+      filter.readAt = { $exists: false };
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      NotificationModel.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<NotificationWithId[]>(),
+      NotificationModel.countDocuments(filter),
+      NotificationModel.countDocuments({
+        ...base,
+        archivedAt: { $exists: false },
+        readAt: { $exists: false },
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: "Notifications retrieved",
+      statusCode: 200,
+      data: {
+        notifications: notifications.map(serializeNotification),
+        page,
+        limit,
+        total,
+        unreadCount,
+        hasMore: page * limit < total,
+      },
+    };
+  } catch (error) {
+    console.error("Error listing notifications:", error);
+    return {
+      success: false,
+      message: "Failed to load notifications",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function updateNotificationState(
+  recipient: NotificationRecipient,
+  notificationId: string,
+  changes: { read?: boolean; archived?: boolean }
+): Promise<ServiceResponse<NotificationItem>> {
+  try {
+    if (
+      !Types.ObjectId.isValid(recipient.id) ||
+      !Types.ObjectId.isValid(notificationId)
+    ) {
+      return {
+        success: false,
+        message: "Invalid notification ID",
+        statusCode: 400,
+      };
+    }
+
+    if (changes.read === undefined && changes.archived === undefined) {
+      return {
+        success: false,
+        message: "Nothing to update",
+        statusCode: 400,
+      };
+    }
+
+    const $set: Record<string, Date> = {};
+    const $unset: Record<string, ""> = {};
+    const now = new Date();
+    if (changes.read !== undefined) {
+      if (changes.read) $set.readAt = now;
+      else $unset.readAt = "";
+    }
+    if (changes.archived !== undefined) {
+      if (changes.archived) {
+        $set.archivedAt = now;
+        // Archiving implies the user has dealt with it
+        $set.readAt = now;
+        delete $unset.readAt;
+      } else {
+        $unset.archivedAt = "";
+      }
+    }
+
+    const update: Record<string, object> = {};
+    if (Object.keys($set).length) update.$set = $set;
+    if (Object.keys($unset).length) update.$unset = $unset;
+
+    const notification = await NotificationModel.findOneAndUpdate(
+      { _id: notificationId, ...recipientFilter(recipient) },
+      update,
+      { new: true }
+    ).lean<NotificationWithId | null>();
+
+    if (!notification) {
+      return {
+        success: false,
+        message: "Notification not found",
+        statusCode: 404,
+      };
+    }
+
+    return {
+      success: true,
+      message: "Notification updated",
+      statusCode: 200,
+      data: serializeNotification(notification),
+    };
+  } catch (error) {
+    console.error("Error updating notification:", error);
+    return {
+      success: false,
+      message: "Failed to update notification",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function markAllNotificationsRead(
+  recipient: NotificationRecipient
+): Promise<ServiceResponse<{ updated: number }>> {
+  try {
+    if (!Types.ObjectId.isValid(recipient.id)) {
+      return { success: false, message: "Invalid recipient ID", statusCode: 400 };
+    }
+
+    const result = await NotificationModel.updateMany(
+      { ...recipientFilter(recipient), readAt: { $exists: false } },
+      { $set: { readAt: new Date() } }
+    );
+
+    return {
+      success: true,
+      message: "Notifications marked as read",
+      statusCode: 200,
+      data: { updated: result.modifiedCount },
+    };
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return {
+      success: false,
+      message: "Failed to update notifications",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function getNotificationPreferences(
+  recipient: NotificationRecipient
+): Promise<ServiceResponse<NotificationPreferences>> {
+  try {
+    const account = await recipientAccountModel(recipient)
+      .findById(recipient.id)
+      .select("mutedNotificationTypes")
+      .lean<{ mutedNotificationTypes?: NotificationType[] } | null>();
+
+    if (!account) {
+      return { success: false, message: "Account not found", statusCode: 404 };
+    }
+
+    return {
+      success: true,
+      message: "Notification preferences retrieved",
+      statusCode: 200,
+      data: {
+        mutedTypes: account.mutedNotificationTypes ?? [],
+        mutableTypes: MUTABLE_NOTIFICATION_TYPES,
+      },
+    };
+  } catch (error) {
+    console.error("Error loading notification preferences:", error);
+    return {
+      success: false,
+      message: "Failed to load notification preferences",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function updateNotificationPreferences(
+  recipient: NotificationRecipient,
+  mutedTypes: unknown
+): Promise<ServiceResponse<NotificationPreferences>> {
+  try {
+    if (
+      !Array.isArray(mutedTypes) ||
+      mutedTypes.some(
+        (type) => !MUTABLE_NOTIFICATION_TYPES.includes(type as NotificationType)
+      )
+    ) {
+      return {
+        success: false,
+        message: `mutedTypes must only contain: ${MUTABLE_NOTIFICATION_TYPES.join(", ")}`,
+        statusCode: 400,
+      };
+    }
+
+    const uniqueTypes = Array.from(new Set(mutedTypes as NotificationType[]));
+    const account = await recipientAccountModel(recipient)
+      .findByIdAndUpdate(
+        recipient.id,
+        { $set: { mutedNotificationTypes: uniqueTypes } },
+        { new: true }
+      )
+      .select("mutedNotificationTypes")
+      .lean<{ mutedNotificationTypes?: NotificationType[] } | null>();
+
+    if (!account) {
+      return { success: false, message: "Account not found", statusCode: 404 };
+    }
+
+    return {
+      success: true,
+      message: "Notification preferences updated",
+      statusCode: 200,
+      data: {
+        mutedTypes: account.mutedNotificationTypes ?? [],
+        mutableTypes: MUTABLE_NOTIFICATION_TYPES,
+      },
+    };
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return {
+      success: false,
+      message: "Failed to update notification preferences",
+      statusCode: 500,
+    };
+  }
+}
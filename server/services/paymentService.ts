@@ -1,15 +1,56 @@
 import { Types } from "mongoose";
-import EventModel, { EventType, IEvent } from "../models/Event";
+import EventModel, { EventType, IEvent, IEventTicketTier } from "../models/Event";
 import UserModel, { IUser } from "../models/User";
 import UserPaymentModel, {
   PaymentMethod,
   IUserPayment,
 } from "../models/UserPayment";
+import GroupBookingModel, { GroupSeatStatus } from "../models/GroupBooking";
 import { emailService } from "./emailService";
 import Stripe from "stripe";
 import { registerUserForWorkshop } from "./eventService";
+import { promoteNextWaitlistedUsers } from "./waitlistService";
+import { buildTicketCode, renderTicketQr } from "./ticketService";
+import {
+  buildUserPaymentInvoice,
+  renderInvoiceAttachment,
+} from "./invoiceService";
+import { publishRegistrationCount } from "./realtimeService";
+import { notifyUsers } from "./notificationService";
+import {
+  NotificationEntityKind,
+  NotificationType,
+} from "../models/Notification";
+import {
+  InsufficientWalletBalanceError,
+  recordWalletTransaction,
+} from "./walletService";
+import { WalletTransactionType } from "../models/WalletTransaction";
+import {
+  quoteRefund,
+  refundRulesForPayment,
+  resolveRefundPolicy,
+  type RefundQuote,
+} from "./refundPolicyService";
+import {
+  discountFromMetadata,
+  discountToMetadata,
+  redeemDiscountRedemption,
+  releaseDiscountRedemption,
+  releaseDiscountReservation,
+  reserveDiscountRedemption,
+  resolveDiscount,
+  toPaymentDiscount,
+  type AppliedDiscount,
+} from "./discountService";
+import { getCampusCurrency, isWalletCurrency } from "./campusService";
+import {
+  chooseTicketTier,
+  eventAcceptsRegistrations,
+  findHeldTier,
+  ticketListPrice,
+} from "./ticketTierService";
 
-const DEFAULT_CURRENCY = process.env.EVENT_PAYMENT_CURRENCY || "EGP";
 const stripeClient = process.env.STRIPE_SECRET_KEY
   ? new Stripe(process.env.STRIPE_SECRET_KEY, {
       apiVersion: "2023-10-16",
@@ -27,6 +68,8 @@ export type PayByWalletInput = {
   paymentSource?: string;
   useWalletBalance?: boolean;
   cardLast4?: string;
+  promoCode?: string;
+  ticketTier?: string;
 };
 
 export type PayByWalletData = {
@@ -40,10 +83,14 @@ export type PayByWalletData = {
   eventName: string;
   balance: number;
   transactionReference: string;
+  discount?: { code: string; amount: number; originalAmount: number };
 };
 
 export type CancelRegistrationData = {
   refundAmount: number;
+  refundPercentage: number;
+  walletRefundAmount: number;
+  cardRefundAmount: number;
   balance: number;
   refundReference: string;
   refundedAt: Date;
@@ -96,6 +143,35 @@ function generateReference(prefix: string): string {
   return `${prefix}-${Date.now().toString(36).toUpperCase()}-${random}`;
 }
 
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function formatHoursBefore(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days === 1 ? "" : "s"}`;
+  }
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+function describeRefund(quote: RefundQuote, paidByOrganizer = false): string {
+  if (quote.refundAmount === 0) {
+    return "Registration cancelled. No refund applies at this point.";
+  }
+  if (paidByOrganizer) {
+    return "Registration cancelled. The refund went to the group organizer who paid for your seat.";
+  }
+  const share = quote.percentage < 100 ? `${quote.percentage}% of your payment` : "Your payment";
+  if (quote.cardRefundAmount > 0 && quote.walletRefundAmount > 0) {
+    return `Registration cancelled. ${share} was refunded to your card and wallet.`;
+  }
+  if (quote.cardRefundAmount > 0) {
+    return `Registration cancelled. ${share} was refunded to your card.`;
+  }
+  return `Registration cancelled. ${share} was refunded to your wallet.`;
+}
+
 function isDuplicateKeyError(
   error: unknown
 ): error is { code: number; keyValue?: Record<string, unknown> } {
@@ -137,9 +213,30 @@ async function ensureEventAndUser(
 }
 
 function isRegistrationAllowed(event: IEvent) {
-  return (
-    event.eventType === EventType.WORKSHOP || event.eventType === EventType.TRIP
-  );
+  return eventAcceptsRegistrations(event);
+}
+
+/** List price for the user: the tier they hold, or the one they are buying. */
+function priceRegistration(
+  event: EventWithId,
+  user: UserWithId,
+  requestedTier?: string
+):
+  | { success: true; listPrice: number; tier?: IEventTicketTier }
+  | { success: false; message: string; statusCode: number } {
+  const heldTier = findHeldTier(event, user._id.toString());
+  if (heldTier) {
+    return { success: true, tier: heldTier, listPrice: ticketListPrice(event, heldTier) };
+  }
+  const choice = chooseTicketTier(event, user.role, requestedTier);
+  if (!choice.success) {
+    return choice;
+  }
+  return {
+    success: true,
+    tier: choice.tier,
+    listPrice: ticketListPrice(event, choice.tier),
+  };
 }
 
 function userIsRegistered(event: IEvent, userId: string) {
@@ -152,6 +249,18 @@ export async function payByWallet(
   userId: string,
   payload: PayByWalletInput = {}
 ): Promise<ServiceResponse<PayByWalletData>> {
+  const transactionReference = generateReference("PAY");
+  let discountHeld = false;
+  // Every failure after the code is taken hands the redemption back
+  const fail = async (
+    response: ServiceResponse<PayByWalletData>
+  ): Promise<ServiceResponse<PayByWalletData>> => {
+    if (discountHeld) {
+      await releaseDiscountRedemption(transactionReference);
+    }
+    return response;
+  };
+
   try {
     const resolved = await ensureEventAndUser(eventId, userId);
     if (!resolved.success) {
@@ -163,31 +272,78 @@ export async function payByWallet(
     if (!isRegistrationAllowed(event)) {
       return {
         success: false,
-        message: "Payments are only supported for workshops and trips.",
+        message: "Registration is not open for this event.",
         statusCode: 400,
       };
     }
 
+    const pricing = priceRegistration(event, user, payload.ticketTier);
+    if (!pricing.success) {
+      return pricing;
+    }
+    const { listPrice, tier } = pricing;
+
+    // Check the code before registering so a bad code leaves nothing behind
+    let discount: AppliedDiscount | undefined;
+    if (payload.promoCode?.trim()) {
+      const discountResult = await resolveDiscount(payload.promoCode, {
+        userId,
+        amount: listPrice,
+        eventType: event.eventType,
+      });
+      if (!discountResult.success || !discountResult.data) {
+        return {
+          success: false,
+          message: discountResult.message,
+          statusCode: discountResult.statusCode ?? 400,
+        };
+      }
+      discount = discountResult.data;
+    }
+    const price = discount ? discount.finalAmount : listPrice;
+    const currency = getCampusCurrency(event.location);
+
+    // The wallet holds the home currency, so other campuses go through Stripe
+    if (price > 0 && !isWalletCurrency(currency)) {
+      return {
+        success: false,
+        message: `Events at ${event.location} are charged in ${currency} and can only be paid by card.`,
+        statusCode: 400,
+      };
+    }
+
+    if (discount) {
+      const hold = await redeemDiscountRedemption(
+        toPaymentDiscount(discount),
+        userId,
+        transactionReference
+      );
+      if (!hold.success) {
+        return {
+          success: false,
+          message: hold.message,
+          statusCode: hold.statusCode ?? 400,
+        };
+      }
+      discountHeld = true;
+    }
+
     const alreadyRegistered = userIsRegistered(event, userId);
     if (!alreadyRegistered) {
-      const registrationResult = await registerUserForWorkshop(eventId, userId);
+      const registrationResult = await registerUserForWorkshop(eventId, userId, {
+        ticketTier: tier?.audience,
+      });
       if (!registrationResult.success) {
-        return {
+        return fail({
           success: false,
           message:
             registrationResult.message ??
             "Unable to register for this event before processing payment.",
           statusCode: registrationResult.statusCode ?? 400,
-        };
+        });
       }
     }
 
-    const priceRaw =
-      typeof event.price === "number" && !Number.isNaN(event.price)
-        ? event.price
-        : 0;
-    const price = Math.max(priceRaw, 0);
-
     const wantWallet =
       payload.useWalletBalance ??
       (!payload.paymentSource ||
@@ -201,12 +357,12 @@ export async function payByWallet(
     const cardType = normalizeCardType(payload.paymentSource);
 
     if (remaining > 0 && !cardType) {
-      return {
+      return fail({
         success: false,
         message:
           "Insufficient wallet balance. Please specify credit or debit card payment.",
         statusCode: 400,
-      };
+      });
     }
 
     const method: PaymentMethod =
@@ -219,7 +375,6 @@ export async function payByWallet(
     const resolvedEventId = event._id.toString();
 
     const receiptNumber = generateReference("EVT");
-    const transactionReference = generateReference("PAY");
     const paidAt = new Date();
     const sanitizedLast4 =
       cardType && payload.cardLast4
@@ -230,7 +385,7 @@ export async function payByWallet(
       userId,
       eventId,
       amount: price,
-      currency: DEFAULT_CURRENCY,
+      currency,
       method,
       walletPortion,
       cardPortion: remaining,
@@ -240,28 +395,48 @@ export async function payByWallet(
       paidAt,
       transactionReference,
       status: "Paid",
+      discount: discount ? toPaymentDiscount(discount) : undefined,
+      ticketTier: tier?.audience,
     });
 
     try {
       await paymentDoc.save();
     } catch (error) {
       if (isDuplicateKeyError(error)) {
-        return {
+        return fail({
           success: false,
           message: "Payment already recorded for this event.",
           statusCode: 409,
-        };
+        });
       }
       throw error;
     }
 
-    let updatedUser: UserWithId | null = user;
+    let balance = user.balance ?? 0;
     if (walletPortion > 0) {
-      updatedUser = await UserModel.findByIdAndUpdate(
-        userId,
-        { $inc: { balance: -walletPortion } },
-        { new: true }
-      ).lean<UserWithId | null>();
+      try {
+        const debit = await recordWalletTransaction({
+          userId,
+          type: WalletTransactionType.EVENT_PAYMENT,
+          amount: -walletPortion,
+          description: `Payment for ${event.name}`,
+          receiptNumber,
+          eventId: resolvedEventId,
+          paymentId: paymentDoc._id.toString(),
+        });
+        balance = debit.balance;
+      } catch (error) {
+        await UserPaymentModel.deleteOne({ _id: paymentDoc._id });
+        if (error instanceof InsufficientWalletBalanceError) {
+          return fail({
+            success: false,
+            message:
+              "Your wallet balance changed while paying. Please try again.",
+            statusCode: 409,
+          });
+        }
+        throw error;
+      }
     }
 
     if (price > 0) {
@@ -271,18 +446,30 @@ export async function payByWallet(
     }
 
     try {
+      const recipientName = `${user.firstName} ${user.lastName}`.trim();
+      const invoice = await renderInvoiceAttachment(
+        buildUserPaymentInvoice({
+          payment: paymentDoc,
+          customer: { name: recipientName, email: user.email },
+          event,
+        })
+      );
       await emailService.sendUserEventPaymentReceipt({
         recipientEmail: user.email,
-        recipientName: `${user.firstName} ${user.lastName}`.trim(),
+        recipientName,
         eventName: event.name,
         eventType: event.eventType,
         amount: price,
-        currency: DEFAULT_CURRENCY,
+        currency,
         walletPortion,
         cardPortion: remaining,
         method,
         receiptNumber,
         paidAt,
+        ticketCode: buildTicketCode(paymentDoc._id.toString()),
+        ticketQr: renderTicketQr(paymentDoc._id.toString()),
+        discount,
+        invoice,
       });
     } catch (emailError) {
       console.error("Failed to send payment receipt email:", emailError);
@@ -297,23 +484,79 @@ export async function payByWallet(
         walletPortion,
         cardPortion: remaining,
         amount: price,
-        currency: DEFAULT_CURRENCY,
+        currency,
         eventId: resolvedEventId,
         eventName: event.name,
-        balance: updatedUser?.balance ?? 0,
+        balance,
         transactionReference,
+        discount: discount
+          ? {
+              code: discount.code,
+              amount: discount.amount,
+              originalAmount: discount.originalAmount,
+            }
+          : undefined,
       },
     };
   } catch (error) {
     console.error("payByWallet error:", error);
-    return {
+    return fail({
       success: false,
       message: "Failed to record payment.",
       statusCode: 500,
-    };
+    });
   }
 }
 
+/**
+ * Removes the user from the event, takes the refund off the event revenue and
+ * hands the seat to the waiting list. Returns the updated user.
+ */
+async function releaseSeat(
+  event: EventWithId,
+  userId: string,
+  refundAmount: number
+): Promise<UserWithId | null> {
+  const eventId = event._id.toString();
+  const updateOps: Record<string, unknown> = {
+    $pull: { registeredUsers: userId, ticketHolders: { userId } },
+  };
+
+  if (refundAmount > 0) {
+    updateOps.$inc = { revenue: -refundAmount };
+  }
+
+  const updatedEvent = await EventModel.findByIdAndUpdate(eventId, updateOps, {
+    new: true,
+  }).lean<EventWithId | null>();
+
+  const pullOps: Record<string, unknown> = {
+    registeredEvents: eventId,
+  };
+
+  if (event.eventType === EventType.WORKSHOP) {
+    pullOps.workshops = eventId;
+  }
+
+  const updatedUser = await UserModel.findByIdAndUpdate(
+    userId,
+    { $pull: pullOps },
+    { new: true }
+  ).lean<UserWithId | null>();
+
+  await promoteNextWaitlistedUsers(eventId);
+
+  if (updatedEvent) {
+    publishRegistrationCount({
+      eventId,
+      registeredCount: updatedEvent.registeredUsers?.length ?? 0,
+      capacity: updatedEvent.capacity,
+    });
+  }
+
+  return updatedUser;
+}
+
 export async function cancelRegistrationAndRefund(
   eventId: string,
   userId: string
@@ -353,62 +596,119 @@ export async function cancelRegistrationAndRefund(
       };
     }
 
-    const now = new Date();
     const startDate = event.startDate instanceof Date ? event.startDate : new Date(event.startDate);
-    const fourteenDaysMs = 14 * 24 * 60 * 60 * 1000;
+    const policy = refundRulesForPayment(
+      await resolveRefundPolicy(event),
+      payment
+    );
+    const quote = quoteRefund(policy, payment, startDate);
 
-    if (startDate.getTime() - now.getTime() < fourteenDaysMs) {
+    if (!quote.allowed) {
+      const latestTier = policy.tiers[policy.tiers.length - 1];
       return {
         success: false,
-        message: "Cancellations are only allowed up to 14 days before the event starts.",
+        message:
+          latestTier && latestTier.hoursBeforeStart > 0
+            ? `Cancellations are only allowed up to ${formatHoursBefore(latestTier.hoursBeforeStart)} before the event starts.`
+            : "Cancellations are closed once the event has started.",
         statusCode: 400,
       };
     }
 
-    const refundAmount = payment.amount ?? 0;
-    const updateOps: Record<string, unknown> = {
-      $pull: { registeredUsers: userId },
-    };
-
-    if (refundAmount > 0) {
-      updateOps.$inc = { revenue: -refundAmount };
-    }
-
-    await EventModel.findByIdAndUpdate(eventId, updateOps);
+    const refundAmount = quote.refundAmount;
+    let stripeRefundId: string | undefined;
 
-    const pullOps: Record<string, unknown> = {
-      registeredEvents: eventId,
-    };
-
-    if (event.eventType === EventType.WORKSHOP) {
-      pullOps.workshops = eventId;
+    // Reverse the card share first so a Stripe failure leaves the seat untouched
+    if (quote.cardRefundAmount > 0) {
+      if (!stripeClient) {
+        return {
+          success: false,
+          message: "Card refunds are unavailable because Stripe is not configured.",
+          statusCode: 503,
+        };
+      }
+      payment.refundRequestedAt = new Date();
+      await payment.save();
+      try {
+        const stripeRefund = await stripeClient.refunds.create({
+          payment_intent: payment.transactionReference,
+          amount: Math.round(quote.cardRefundAmount * 100),
+          reason: "requested_by_customer",
+        });
+        stripeRefundId = stripeRefund.id;
+      } catch (stripeError) {
+        console.error("Stripe refund failed:", stripeError);
+        payment.refundRequestedAt = undefined;
+        await payment.save();
+        return {
+          success: false,
+          message: "We couldn't refund your card right now. Please try again later.",
+          statusCode: 502,
+        };
+      }
     }
 
-    const updatedUser = await UserModel.findByIdAndUpdate(
-      userId,
-      {
-        $pull: pullOps,
-        ...(refundAmount > 0
-          ? {
-              $inc: { balance: refundAmount },
-            }
-          : {}),
-      },
-      { new: true }
-    ).lean<UserWithId | null>();
-
     payment.status = "Refunded";
     payment.refundAmount = refundAmount;
+    payment.refundPercentage = quote.percentage;
+    payment.walletRefundAmount = quote.walletRefundAmount;
+    payment.cardRefundAmount = quote.cardRefundAmount;
+    payment.stripeRefundId = stripeRefundId;
+    payment.refundPolicy = policy;
     payment.refundedAt = new Date();
     payment.refundReference = generateReference("REF");
+    payment.refundRequestedAt = undefined;
     await payment.save();
 
+    if (payment.discount && payment.transactionReference) {
+      await releaseDiscountRedemption(payment.transactionReference);
+    }
+
+    const updatedUser = await releaseSeat(event, userId, refundAmount);
+
+    // Seats bought in a group booking are refunded to the organizer
+    const payerId = payment.purchasedBy?.toString() ?? userId;
+    if (payment.groupBookingId) {
+      await GroupBookingModel.updateOne(
+        { _id: payment.groupBookingId, "seats.paymentId": payment._id },
+        {
+          $set: {
+            "seats.$.status": GroupSeatStatus.CANCELLED,
+            "seats.$.refundAmount": refundAmount,
+            "seats.$.refundedAt": payment.refundedAt,
+          },
+        }
+      );
+    }
+
+    let balance = updatedUser?.balance ?? 0;
+    if (quote.walletRefundAmount > 0) {
+      const credit = await recordWalletTransaction({
+        userId: payerId,
+        type: WalletTransactionType.REFUND,
+        amount: quote.walletRefundAmount,
+        description:
+          quote.percentage < 100
+            ? `${quote.percentage}% refund for ${event.name}`
+            : `Refund for ${event.name}`,
+        receiptNumber: payment.refundReference,
+        eventId: event._id.toString(),
+        paymentId: payment._id.toString(),
+      });
+      if (payerId === userId) {
+        balance = credit.balance;
+      }
+    }
+
     return {
       success: true,
-      message: "Registration cancelled and amount refunded to wallet.",
+      message: describeRefund(quote, payerId !== userId),
       data: {
         refundAmount,
-        balance: updatedUser?.balance ?? 0,
+        refundPercentage: quote.percentage,
+        walletRefundAmount: quote.walletRefundAmount,
+        cardRefundAmount: quote.cardRefundAmount,
+        balance,
         refundReference: payment.refundReference,
         refundedAt: payment.refundedAt ?? new Date(),
         eventId: event._id.toString(),
@@ -501,9 +801,52 @@ export async function getWalletRefundSummary(
   }
 }
 
+/** Prices the event with a promo code so checkout can show it before paying. */
+export async function previewEventDiscount(
+  eventId: string,
+  userId: string,
+  promoCode: string,
+  ticketTier?: string
+): Promise<ServiceResponse<AppliedDiscount>> {
+  try {
+    const resolved = await ensureEventAndUser(eventId, userId);
+    if (!resolved.success) {
+      return resolved;
+    }
+
+    const { event, user } = resolved;
+    if (!isRegistrationAllowed(event)) {
+      return {
+        success: false,
+        message: "Registration is not open for this event.",
+        statusCode: 400,
+      };
+    }
+
+    const pricing = priceRegistration(event, user, ticketTier);
+    if (!pricing.success) {
+      return pricing;
+    }
+    return await resolveDiscount(promoCode, {
+      userId,
+      amount: pricing.listPrice,
+      eventType: event.eventType,
+    });
+  } catch (error) {
+    console.error("previewEventDiscount error:", error);
+    return {
+      success: false,
+      message: "Failed to apply promo code.",
+      statusCode: 500,
+    };
+  }
+}
+
 export async function createStripePaymentIntent(
   eventId: string,
-  userId: string
+  userId: string,
+  promoCode?: string,
+  ticketTier?: string
 ): Promise<ServiceResponse<StripeIntentData>> {
   try {
     if (!stripeClient) {
@@ -519,19 +862,20 @@ export async function createStripePaymentIntent(
       return resolved;
     }
 
-    const { event } = resolved;
+    const { event, user } = resolved;
     if (!isRegistrationAllowed(event)) {
       return {
         success: false,
-        message: "Payments are only supported for workshops and trips.",
+        message: "Registration is not open for this event.",
         statusCode: 400,
       };
     }
 
-    const priceRaw =
-      typeof event.price === "number" && !Number.isNaN(event.price)
-        ? event.price
-        : 0;
+    const pricing = priceRegistration(event, user, ticketTier);
+    if (!pricing.success) {
+      return pricing;
+    }
+    const priceRaw = pricing.listPrice;
     if (priceRaw <= 0) {
       return {
         success: false,
@@ -540,8 +884,35 @@ export async function createStripePaymentIntent(
       };
     }
 
-    const amountInMinorUnits = Math.round(priceRaw * 100);
-    const currency = (DEFAULT_CURRENCY || "usd").toLowerCase();
+    let discount: AppliedDiscount | undefined;
+    if (promoCode?.trim()) {
+      const discountResult = await resolveDiscount(promoCode, {
+        userId,
+        amount: priceRaw,
+        eventType: event.eventType,
+      });
+      if (!discountResult.success || !discountResult.data) {
+        return {
+          success: false,
+          message: discountResult.message,
+          statusCode: discountResult.statusCode ?? 400,
+        };
+      }
+      discount = discountResult.data;
+      if (discount.finalAmount <= 0) {
+        return {
+          success: false,
+          message:
+            "This promo code covers the full price. Confirm with the wallet option instead.",
+          statusCode: 400,
+        };
+      }
+    }
+
+    const amountInMinorUnits = Math.round(
+      (discount ? discount.finalAmount : priceRaw) * 100
+    );
+    const currency = getCampusCurrency(event.location).toLowerCase();
 
     const paymentIntent = await stripeClient.paymentIntents.create({
       amount: amountInMinorUnits,
@@ -550,6 +921,8 @@ export async function createStripePaymentIntent(
       metadata: {
         eventId: event._id.toString(),
         userId,
+        ...(pricing.tier ? { ticketTier: pricing.tier.audience } : {}),
+        ...(discount ? discountToMetadata(discount) : {}),
       },
     });
 
@@ -561,6 +934,26 @@ export async function createStripePaymentIntent(
       };
     }
 
+    if (discount) {
+      const hold = await reserveDiscountRedemption(
+        toPaymentDiscount(discount),
+        userId,
+        paymentIntent.id
+      );
+      if (!hold.success) {
+        try {
+          await stripeClient.paymentIntents.cancel(paymentIntent.id);
+        } catch (cancelError) {
+          console.error("Failed to cancel intent after promo code was taken:", cancelError);
+        }
+        return {
+          success: false,
+          message: hold.message,
+          statusCode: hold.statusCode ?? 400,
+        };
+      }
+    }
+
     return {
       success: true,
       message: "Stripe payment intent created.",
@@ -622,130 +1015,456 @@ export async function finalizeStripePayment(
       };
     }
 
-    if (paymentIntent.status !== "succeeded") {
-      return {
-        success: false,
-        message: "Stripe payment has not completed.",
-        statusCode: 400,
-      };
+    return await applyEventPaymentIntent(event, user, paymentIntent);
+  } catch (error) {
+    console.error("finalizeStripePayment error:", error);
+    return {
+      success: false,
+      message: "Failed to confirm Stripe payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+export function isEventPaymentIntent(paymentIntent: Stripe.PaymentIntent) {
+  return Boolean(
+    paymentIntent.metadata?.eventId &&
+      paymentIntent.metadata?.userId &&
+      !paymentIntent.metadata?.vendorId &&
+      !paymentIntent.metadata?.purpose
+  );
+}
+
+/**
+ * Records a succeeded registration intent reported by the Stripe webhook, so
+ * users are registered even if they closed the tab before the callback ran.
+ */
+export async function reconcileEventPaymentIntent(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<ServiceResponse<PayByWalletData>> {
+  try {
+    const resolved = await ensureEventAndUser(
+      paymentIntent.metadata?.eventId ?? "",
+      paymentIntent.metadata?.userId ?? ""
+    );
+    if (!resolved.success) {
+      return resolved;
     }
 
+    return await applyEventPaymentIntent(
+      resolved.event,
+      resolved.user,
+      paymentIntent
+    );
+  } catch (error) {
+    console.error("reconcileEventPaymentIntent error:", error);
+    return {
+      success: false,
+      message: "Failed to reconcile Stripe payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+// Shared by the browser callback and the webhook; whichever runs second finds the payment
+async function applyEventPaymentIntent(
+  event: EventWithId,
+  user: UserWithId,
+  paymentIntent: PaymentIntentWithOptionalCharges
+): Promise<ServiceResponse<PayByWalletData>> {
+  const eventId = event._id.toString();
+  const userId = user._id.toString();
+
+  if (paymentIntent.status !== "succeeded") {
+    return {
+      success: false,
+      message: "Stripe payment has not completed.",
+      statusCode: 400,
+    };
+  }
+
+  const loadExisting = async () => {
     const existingPayment = await UserPaymentModel.findOne({
       transactionReference: paymentIntent.id,
+      status: { $ne: "Failed" },
     }).lean<IUserPayment | null>();
+    if (!existingPayment) return null;
+    return {
+      success: true,
+      message: "Payment already recorded.",
+      data: {
+        receiptNumber: existingPayment.receiptNumber,
+        method: existingPayment.method,
+        walletPortion: existingPayment.walletPortion,
+        cardPortion: existingPayment.cardPortion,
+        amount: existingPayment.amount,
+        currency: existingPayment.currency,
+        eventId: existingPayment.eventId.toString(),
+        eventName: event.name,
+        balance: user.balance ?? 0,
+        transactionReference:
+          existingPayment.transactionReference ?? paymentIntent.id,
+        discount: existingPayment.discount
+          ? {
+              code: existingPayment.discount.code,
+              amount: existingPayment.discount.amount,
+              originalAmount: existingPayment.discount.originalAmount,
+            }
+          : undefined,
+      },
+    };
+  };
 
-    if (existingPayment) {
-      return {
-        success: true,
-        message: "Payment already recorded.",
-        data: {
-          receiptNumber: existingPayment.receiptNumber,
-          method: existingPayment.method,
-          walletPortion: existingPayment.walletPortion,
-          cardPortion: existingPayment.cardPortion,
-          amount: existingPayment.amount,
-          currency: existingPayment.currency,
-          eventId: existingPayment.eventId.toString(),
-          eventName: event.name,
-          balance: user.balance ?? 0,
-          transactionReference:
-            existingPayment.transactionReference ?? paymentIntent.id,
-        },
-      };
-    }
+  const alreadyRecorded = await loadExisting();
+  if (alreadyRecorded) {
+    return alreadyRecorded;
+  }
 
-    const amountReceived =
-      typeof paymentIntent.amount_received === "number"
-        ? paymentIntent.amount_received
-        : typeof paymentIntent.amount === "number"
-          ? paymentIntent.amount
-          : 0;
-    const price = amountReceived / 100;
+  const amountReceived =
+    typeof paymentIntent.amount_received === "number"
+      ? paymentIntent.amount_received
+      : typeof paymentIntent.amount === "number"
+        ? paymentIntent.amount
+        : 0;
+  const price = amountReceived / 100;
+  const ticketTier = paymentIntent.metadata?.ticketTier || undefined;
 
-    if (!userIsRegistered(event, userId)) {
-      const registrationResult = await registerUserForWorkshop(eventId, userId);
-      if (!registrationResult.success) {
-        try {
-          await stripeClient.refunds.create({
-            payment_intent: paymentIntent.id,
-            reason: "requested_by_customer",
-          });
-        } catch (refundError) {
-          console.error("Failed to auto-refund after registration error:", refundError);
-        }
+  const refundIntent = async () => {
+    if (!stripeClient) return;
+    try {
+      await stripeClient.refunds.create({
+        payment_intent: paymentIntent.id,
+        reason: "requested_by_customer",
+      });
+    } catch (refundError) {
+      console.error("Failed to auto-refund after registration error:", refundError);
+    }
+  };
+
+  // The code was held when the intent was created; if that hold lapsed, the
+  // limits are checked again and a code that ran out meanwhile is refunded
+  const discount = discountFromMetadata(paymentIntent.metadata);
+  if (discount) {
+    const hold = await redeemDiscountRedemption(discount, userId, paymentIntent.id);
+    if (!hold.success) {
+      if ((hold.statusCode ?? 500) >= 500) {
         return {
           success: false,
-          message:
-            registrationResult.message ??
-            "Payment succeeded but we couldn't finalize your registration. Please contact support.",
-          statusCode: registrationResult.statusCode ?? 400,
+          message: hold.message,
+          statusCode: hold.statusCode ?? 500,
         };
       }
+      await refundIntent();
+      return {
+        success: false,
+        message: `${hold.message} Your card payment was refunded.`,
+        statusCode: 400,
+      };
     }
+  }
 
-    const receiptNumber = generateReference("STR");
-
-    const paymentRecord = new UserPaymentModel({
-      userId,
-      eventId,
-      amount: price,
-      currency: (paymentIntent.currency ?? DEFAULT_CURRENCY).toUpperCase(),
-      method: "CreditCard",
-      walletPortion: 0,
-      cardPortion: price,
-      cardType: "CreditCard",
-      cardLast4:
-        typeof paymentIntent.charges?.data?.[0]?.payment_method_details?.card?.last4 ===
-        "string"
-          ? paymentIntent.charges.data[0].payment_method_details.card.last4
-          : undefined,
-      status: "Paid",
-      receiptNumber,
-      paidAt: new Date(),
-      transactionReference: paymentIntent.id,
+  if (!userIsRegistered(event, userId)) {
+    const registrationResult = await registerUserForWorkshop(eventId, userId, {
+      ticketTier,
     });
+    // A concurrent callback may have registered the user in the meantime
+    const registeredMeanwhile =
+      !registrationResult.success &&
+      Boolean(
+        await EventModel.exists({ _id: eventId, registeredUsers: user._id })
+      );
+    if (!registrationResult.success && !registeredMeanwhile) {
+      await refundIntent();
+      if (discount) {
+        await releaseDiscountRedemption(paymentIntent.id);
+      }
+      return {
+        success: false,
+        message:
+          registrationResult.message ??
+          "Payment succeeded but we couldn't finalize your registration. Please contact support.",
+        statusCode: registrationResult.statusCode ?? 400,
+      };
+    }
+  }
+
+  const receiptNumber = generateReference("STR");
+
+  const paymentRecord = new UserPaymentModel({
+    userId,
+    eventId,
+    amount: price,
+    currency: (
+      paymentIntent.currency ?? getCampusCurrency(event.location)
+    ).toUpperCase(),
+    method: "CreditCard",
+    walletPortion: 0,
+    cardPortion: price,
+    cardType: "CreditCard",
+    cardLast4:
+      typeof paymentIntent.charges?.data?.[0]?.payment_method_details?.card?.last4 ===
+      "string"
+        ? paymentIntent.charges.data[0].payment_method_details.card.last4
+        : undefined,
+    status: "Paid",
+    receiptNumber,
+    paidAt: new Date(),
+    transactionReference: paymentIntent.id,
+    discount,
+    ticketTier,
+  });
 
+  try {
     await paymentRecord.save();
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      const recorded = await loadExisting();
+      if (recorded) {
+        return recorded;
+      }
+    }
+    throw error;
+  }
 
-    await EventModel.findByIdAndUpdate(eventId, {
-      $inc: { revenue: price },
-    });
+  await EventModel.findByIdAndUpdate(eventId, {
+    $inc: { revenue: price },
+  });
 
+  try {
+    const recipientName = `${user.firstName} ${user.lastName}`.trim();
+    const invoice = await renderInvoiceAttachment(
+      buildUserPaymentInvoice({
+        payment: paymentRecord,
+        customer: { name: recipientName, email: user.email },
+        event,
+      })
+    );
     await emailService.sendUserEventPaymentReceipt({
       recipientEmail: user.email,
-      recipientName: `${user.firstName} ${user.lastName}`.trim(),
+      recipientName,
       eventName: event.name,
       eventType: event.eventType,
       amount: price,
-      currency: DEFAULT_CURRENCY,
+      currency: paymentRecord.currency,
       walletPortion: 0,
       cardPortion: price,
       method: "CreditCard",
       receiptNumber,
-      paidAt: new Date(),
+      paidAt: paymentRecord.paidAt,
+      ticketCode: buildTicketCode(paymentRecord._id.toString()),
+      ticketQr: renderTicketQr(paymentRecord._id.toString()),
+      discount,
+      invoice,
+    });
+  } catch (emailError) {
+    console.error("Failed to send payment receipt email:", emailError);
+  }
+
+  return {
+    success: true,
+    message: "Payment confirmed successfully.",
+    data: {
+      receiptNumber,
+      method: "CreditCard",
+      walletPortion: 0,
+      cardPortion: price,
+      amount: price,
+      currency: paymentRecord.currency,
+      eventId,
+      eventName: event.name,
+      balance: user.balance ?? 0,
+      transactionReference: paymentIntent.id,
+      discount: discount
+        ? {
+            code: discount.code,
+            amount: discount.amount,
+            originalAmount: discount.originalAmount,
+          }
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Logs a declined card attempt as a Failed payment and tells the user, so a
+ * closed tab does not leave them wondering whether they are registered.
+ */
+export async function recordEventPaymentFailure(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<ServiceResponse<{ paymentId: string }>> {
+  try {
+    const resolved = await ensureEventAndUser(
+      paymentIntent.metadata?.eventId ?? "",
+      paymentIntent.metadata?.userId ?? ""
+    );
+    if (!resolved.success) {
+      return resolved;
+    }
+    const { event, user } = resolved;
+
+    const failureReason =
+      paymentIntent.last_payment_error?.message ?? "The card payment was declined.";
+
+    const attempt = await UserPaymentModel.findOneAndUpdate(
+      { transactionReference: paymentIntent.id, status: "Failed" },
+      {
+        $set: { failureReason, failedAt: new Date() },
+        $setOnInsert: {
+          userId: user._id,
+          eventId: event._id,
+          amount: (paymentIntent.amount ?? 0) / 100,
+          currency: (
+            paymentIntent.currency ?? getCampusCurrency(event.location)
+          ).toUpperCase(),
+          method: "CreditCard",
+          walletPortion: 0,
+          cardPortion: (paymentIntent.amount ?? 0) / 100,
+          receiptNumber: generateReference("FLD"),
+          paidAt: new Date(),
+        },
+      },
+      { new: true, upsert: true }
+    ).lean<(IUserPayment & { _id: Types.ObjectId }) | null>();
+
+    // A retry with another card re-checks the code's limits when it succeeds
+    await releaseDiscountReservation(paymentIntent.id);
+
+    if (!userIsRegistered(event, user._id.toString())) {
+      await notifyUsers([user._id.toString()], {
+        type: NotificationType.GENERAL,
+        message: `Your card payment for "${event.name}" didn't go through: ${failureReason}`,
+        entity: { kind: NotificationEntityKind.EVENT, id: event._id.toString() },
+        link: `/user/events/${event._id.toString()}`,
+      });
+    }
+
+    return {
+      success: true,
+      message: "Payment failure recorded.",
+      data: { paymentId: attempt?._id.toString() ?? "" },
+    };
+  } catch (error) {
+    console.error("recordEventPaymentFailure error:", error);
+    return {
+      success: false,
+      message: "Failed to record payment failure.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Applies refunds issued from the Stripe dashboard. A full refund cancels the
+ * registration; a partial one only adjusts the recorded refund amount.
+ * Refunds started by cancelRegistrationAndRefund are already accounted for.
+ */
+export async function reconcileEventChargeRefund(
+  charge: Stripe.Charge
+): Promise<ServiceResponse<{ refundAmount: number; cancelled: boolean }>> {
+  try {
+    const paymentIntentId =
+      typeof charge.payment_intent === "string"
+        ? charge.payment_intent
+        : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+      return {
+        success: false,
+        message: "Charge has no payment intent.",
+        statusCode: 400,
+      };
+    }
+
+    const payment = await UserPaymentModel.findOne({
+      transactionReference: paymentIntentId,
+      status: { $in: ["Paid", "Refunded"] },
     });
+    if (!payment) {
+      return {
+        success: false,
+        message: "No payment matches this charge.",
+        statusCode: 404,
+      };
+    }
+
+    if (payment.status === "Refunded") {
+      return {
+        success: true,
+        message: "Refund already recorded.",
+        data: { refundAmount: payment.refundAmount ?? 0, cancelled: true },
+      };
+    }
+
+    // One intent pays for a whole group; its seats are refunded one by one
+    if (payment.groupBookingId) {
+      return {
+        success: true,
+        message: "Group booking refunds are recorded per seat.",
+        data: { refundAmount: payment.refundAmount ?? 0, cancelled: false },
+      };
+    }
+
+    // cancelRegistrationAndRefund records its own refund once Stripe answers
+    if (payment.refundRequestedAt) {
+      return {
+        success: false,
+        message: "A refund for this payment is still being recorded.",
+        statusCode: 409,
+      };
+    }
+
+    const refunded = charge.amount_refunded / 100;
+    const delta = roundMoney(refunded - (payment.cardRefundAmount ?? 0));
+    if (delta <= 0) {
+      return {
+        success: true,
+        message: "Refund already recorded.",
+        data: { refundAmount: payment.refundAmount ?? 0, cancelled: false },
+      };
+    }
+
+    payment.refundAmount = refunded;
+    payment.cardRefundAmount = refunded;
+    payment.walletRefundAmount = 0;
+    payment.refundedAt = new Date();
+
+    if (!charge.refunded) {
+      await payment.save();
+      await EventModel.updateOne(
+        { _id: payment.eventId },
+        { $inc: { revenue: -delta } }
+      );
+      return {
+        success: true,
+        message: "Partial refund recorded.",
+        data: { refundAmount: refunded, cancelled: false },
+      };
+    }
+
+    const event = await EventModel.findById(payment.eventId).lean<EventWithId | null>();
+    payment.status = "Refunded";
+    payment.refundPercentage = payment.amount
+      ? Math.round((refunded / payment.amount) * 100)
+      : 100;
+    payment.refundReference = generateReference("REF");
+    await payment.save();
+
+    if (payment.discount) {
+      await releaseDiscountRedemption(paymentIntentId);
+    }
+    if (event) {
+      await releaseSeat(event, payment.userId.toString(), delta);
+    }
 
     return {
       success: true,
-      message: "Payment confirmed successfully.",
-      data: {
-        receiptNumber,
-        method: "CreditCard",
-        walletPortion: 0,
-        cardPortion: price,
-        amount: price,
-        currency: DEFAULT_CURRENCY,
-        eventId: event._id.toString(),
-        eventName: event.name,
-        balance: user.balance ?? 0,
-        transactionReference: paymentIntent.id,
-      },
+      message: "Registration cancelled after a card refund.",
+      data: { refundAmount: refunded, cancelled: true },
     };
   } catch (error) {
-    console.error("finalizeStripePayment error:", error);
+    console.error("reconcileEventChargeRefund error:", error);
     return {
       success: false,
-      message: "Failed to confirm Stripe payment.",
+      message: "Failed to reconcile refund.",
       statusCode: 500,
     };
   }
@@ -2,6 +2,8 @@ import { Types, isValidObjectId } from "mongoose";
 import PollModel, { IDurationRange } from "../models/Poll";
 import VendorModel, { BazaarApplication, VendorStatus } from "../models/Vendor";
 import EventModel from "../models/Event";
+import { notifyUsersOfNewPoll } from "./notificationService";
+import { publishPollVotes } from "./realtimeService";
 
 type DurationInput = {
   start: string;
@@ -159,6 +161,8 @@ export async function createVendorBoothPoll(input: CreateVendorBoothPollInput) {
       })),
     });
 
+    await notifyUsersOfNewPoll(poll);
+
     return {
       success: true,
       statusCode: 201,
@@ -259,6 +263,18 @@ export async function voteForVendor(
     vendorEntry.votes += 1;
     await poll.save();
 
+    publishPollVotes({
+      pollId,
+      vendors: poll.vendorsWithVotes.map((entry) => ({
+        vendorId: entry.vendor.toString(),
+        votes: entry.votes,
+      })),
+      totalVotes: poll.vendorsWithVotes.reduce(
+        (sum, entry) => sum + entry.votes,
+        0
+      ),
+    });
+
     return {
       success: true,
       statusCode: 200,
@@ -0,0 +1,99 @@
+import type { Request, Response } from "express";
+
+export type RealtimeEventName =
+  | "ready"
+  | "notification"
+  | "registration-count"
+  | "poll-votes";
+
+export type RealtimeSubscriber = {
+  id: string;
+  model: string;
+};
+
+export type RegistrationCountUpdate = {
+  eventId: string;
+  registeredCount: number;
+  capacity?: number;
+};
+
+export type PollVotesUpdate = {
+  pollId: string;
+  vendors: Array<{ vendorId: string; votes: number }>;
+  totalVotes: number;
+};
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const CLIENT_RETRY_MS = 5 * 1000;
+
+// Open streams on this API instance, keyed by "<model>:<id>". Each browser
+// tab holds its own connection.
+const streams = new Map<string, Set<Response>>();
+
+function subscriberKey(subscriber: RealtimeSubscriber) {
+  return `${subscriber.model}:${subscriber.id}`;
+}
+
+function writeEvent(res: Response, event: RealtimeEventName, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function openEventStream(
+  subscriber: RealtimeSubscriber,
+  req: Request,
+  res: Response
+): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Stops nginx-style proxies from buffering the stream
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+  writeEvent(res, "ready", { connectedAt: new Date().toISOString() });
+
+  const key = subscriberKey(subscriber);
+  const connections = streams.get(key) ?? new Set<Response>();
+  connections.add(res);
+  streams.set(key, connections);
+
+  const heartbeat = setInterval(() => {
+    res.write(": keep-alive\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    connections.delete(res);
+    if (!connections.size) {
+      streams.delete(key);
+    }
+  });
+}
+
+export function publishToSubscribers(
+  subscribers: RealtimeSubscriber[],
+  event: RealtimeEventName,
+  data: unknown
+): void {
+  subscribers.forEach((subscriber) => {
+    streams.get(subscriberKey(subscriber))?.forEach((res) => {
+      writeEvent(res, event, data);
+    });
+  });
+}
+
+export function broadcast(event: RealtimeEventName, data: unknown): void {
+  streams.forEach((connections) => {
+    connections.forEach((res) => writeEvent(res, event, data));
+  });
+}
+
+export function publishRegistrationCount(update: RegistrationCountUpdate) {
+  broadcast("registration-count", update);
+}
+
+export function publishPollVotes(update: PollVotesUpdate) {
+  broadcast("poll-votes", update);
+}
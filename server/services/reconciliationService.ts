@@ -0,0 +1,805 @@
+import { Types } from "mongoose";
+import CourtModel, { ICourt } from "../models/Court";
+import CourtPaymentModel, { ICourtPayment } from "../models/CourtPayment";
+import EventModel, { IEvent } from "../models/Event";
+import GroupBookingModel, {
+  GroupBookingStatus,
+  IGroupBooking,
+} from "../models/GroupBooking";
+import UserModel, { IUser } from "../models/User";
+import UserPaymentModel, { IUserPayment } from "../models/UserPayment";
+import vendorModel, { IVendor } from "../models/Vendor";
+import { getCampusCurrency, getCampusTimeZone } from "./campusService";
+import { describeCourt } from "./courtPaymentService";
+import { loadXlsx } from "./eventService";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type ReconciliationFilters = {
+  startDate: Date;
+  endDate: Date;
+};
+
+export type ReconciliationSource =
+  | "Event payment"
+  | "Group booking"
+  | "Vendor booth fee"
+  | "Court booking";
+
+export type ReconciliationMethod = "Wallet" | "Card" | "Mixed";
+
+/** One money movement; refunds carry a negative amount. */
+export type ReconciliationEntry = {
+  kind: "Payment" | "Refund";
+  source: ReconciliationSource;
+  occurredAt: Date;
+  day: string; // YYYY-MM-DD in the campus time zone
+  eventId?: string;
+  eventName: string;
+  eventType?: string;
+  campus?: string; // courts have no campus
+  currency: string;
+  method: ReconciliationMethod;
+  amount: number;
+  walletAmount: number;
+  cardAmount: number;
+  receiptNumber?: string;
+  stripeReference?: string;
+  paidBy?: string;
+};
+
+export type ReconciliationTotal = {
+  key: string;
+  label: string;
+  currency: string;
+  payments: number;
+  refunds: number;
+  net: number;
+  walletNet: number;
+  cardNet: number;
+  count: number;
+};
+
+export type RevenueCheck = {
+  eventId: string;
+  eventName: string;
+  currency: string;
+  recordedRevenue: number; // Event.revenue
+  expectedRevenue: number; // lifetime payments minus refunds
+  difference: number;
+  mismatch: boolean;
+};
+
+export type ReconciliationReport = {
+  startDate: Date;
+  endDate: Date;
+  entries: ReconciliationEntry[];
+  byEvent: ReconciliationTotal[];
+  byCampus: ReconciliationTotal[];
+  byDay: ReconciliationTotal[];
+  revenueChecks: RevenueCheck[];
+};
+
+type EventWithId = Pick<IEvent, "name" | "eventType" | "location" | "revenue"> & {
+  _id: Types.ObjectId;
+};
+type UserPaymentWithId = IUserPayment & { _id: Types.ObjectId };
+type GroupBookingWithId = IGroupBooking & { _id: Types.ObjectId };
+type CourtPaymentWithId = ICourtPayment & { _id: Types.ObjectId };
+type VendorWithId = Pick<IVendor, "companyName" | "email" | "applications"> & {
+  _id: Types.ObjectId;
+};
+
+// Differences below a cent are rounding noise, not drift
+const REVENUE_TOLERANCE = 0.01;
+const COURTS_CAMPUS = "Courts";
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function campusDay(value: Date, location?: string | null) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: getCampusTimeZone(location),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(value);
+}
+
+function inRange(value: Date | undefined, filters: ReconciliationFilters) {
+  if (!value) return false;
+  const time = new Date(value).getTime();
+  return time >= filters.startDate.getTime() && time <= filters.endDate.getTime();
+}
+
+function rangeMatch(field: string, filters: ReconciliationFilters) {
+  return { [field]: { $gte: filters.startDate, $lte: filters.endDate } };
+}
+
+function splitMethod(walletAmount: number, cardAmount: number): ReconciliationMethod {
+  if (walletAmount > 0 && cardAmount > 0) return "Mixed";
+  return cardAmount > 0 ? "Card" : "Wallet";
+}
+
+function fullName(user?: Pick<IUser, "firstName" | "lastName" | "email">) {
+  if (!user) return undefined;
+  const name = `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim();
+  return name ? `${name} <${user.email}>` : user.email;
+}
+
+type EventInfo = Pick<ReconciliationEntry, "eventId" | "eventName" | "eventType" | "campus">;
+
+function eventInfo(event?: EventWithId, eventId?: Types.ObjectId): EventInfo {
+  return {
+    eventId: (event?._id ?? eventId)?.toString(),
+    eventName: event?.name ?? "Deleted event",
+    eventType: event?.eventType,
+    campus: event?.location,
+  };
+}
+
+function userPaymentEntries(
+  payment: UserPaymentWithId,
+  event: EventWithId | undefined,
+  payer: string | undefined,
+  filters: ReconciliationFilters
+): ReconciliationEntry[] {
+  const info = eventInfo(event, payment.eventId);
+  const currency = payment.currency || getCampusCurrency(event?.location);
+  const entries: ReconciliationEntry[] = [];
+
+  // Group seats are paid through the booking; only their refunds count here
+  if (!payment.groupBookingId && inRange(payment.paidAt, filters)) {
+    const walletAmount = payment.walletPortion ?? 0;
+    const cardAmount = payment.cardPortion ?? 0;
+    entries.push({
+      kind: "Payment",
+      source: "Event payment",
+      occurredAt: payment.paidAt,
+      day: campusDay(payment.paidAt, info.campus),
+      ...info,
+      currency,
+      method:
+        payment.method === "Mixed"
+          ? "Mixed"
+          : payment.method === "Wallet"
+            ? "Wallet"
+            : "Card",
+      amount: roundMoney(payment.amount),
+      walletAmount: roundMoney(walletAmount),
+      cardAmount: roundMoney(cardAmount),
+      receiptNumber: payment.receiptNumber,
+      stripeReference: cardAmount > 0 ? payment.transactionReference : undefined,
+      paidBy: payer,
+    });
+  }
+
+  if (payment.refundAmount && payment.refundedAt && inRange(payment.refundedAt, filters)) {
+    // Webhook-reconciled refunds carry no split and went back to the card
+    const hasSplit =
+      payment.walletRefundAmount !== undefined || payment.cardRefundAmount !== undefined;
+    const walletAmount = hasSplit
+      ? (payment.walletRefundAmount ?? 0)
+      : payment.method === "Wallet"
+        ? payment.refundAmount
+        : 0;
+    const cardAmount = hasSplit
+      ? (payment.cardRefundAmount ?? 0)
+      : payment.refundAmount - walletAmount;
+    entries.push({
+      kind: "Refund",
+      source: payment.groupBookingId ? "Group booking" : "Event payment",
+      occurredAt: payment.refundedAt,
+      day: campusDay(payment.refundedAt, info.campus),
+      ...info,
+      currency,
+      method: splitMethod(walletAmount, cardAmount),
+      amount: -roundMoney(payment.refundAmount),
+      walletAmount: -roundMoney(walletAmount),
+      cardAmount: -roundMoney(cardAmount),
+      receiptNumber: payment.refundReference ?? payment.receiptNumber,
+      stripeReference:
+        cardAmount > 0
+          ? (payment.stripeRefundId ?? payment.transactionReference)
+          : undefined,
+      paidBy: payer,
+    });
+  }
+
+  return entries;
+}
+
+function groupBookingEntries(
+  booking: GroupBookingWithId,
+  event: EventWithId | undefined,
+  payer: string | undefined,
+  filters: ReconciliationFilters
+): ReconciliationEntry[] {
+  const info = eventInfo(event, booking.eventId);
+  const isCard = booking.method === "CreditCard";
+  const method: ReconciliationMethod = isCard ? "Card" : "Wallet";
+  const stripeReference = isCard ? booking.transactionReference : undefined;
+  const entries: ReconciliationEntry[] = [];
+
+  if (booking.paidAt && inRange(booking.paidAt, filters)) {
+    const total = roundMoney(booking.seatPrice * booking.seats.length);
+    entries.push({
+      kind: "Payment",
+      source: "Group booking",
+      occurredAt: booking.paidAt,
+      day: campusDay(booking.paidAt, info.campus),
+      ...info,
+      currency: booking.currency,
+      method,
+      amount: total,
+      walletAmount: isCard ? 0 : total,
+      cardAmount: isCard ? total : 0,
+      receiptNumber: booking.receiptNumber,
+      stripeReference,
+      paidBy: payer,
+    });
+  }
+
+  // Seats released before confirmation; confirmed seats refund through their own payment
+  booking.seats.forEach((seat) => {
+    if (seat.paymentId || !seat.refundAmount || !seat.refundedAt) return;
+    if (!inRange(seat.refundedAt, filters)) return;
+    const amount = roundMoney(seat.refundAmount);
+    entries.push({
+      kind: "Refund",
+      source: "Group booking",
+      occurredAt: seat.refundedAt,
+      day: campusDay(seat.refundedAt, info.campus),
+      ...info,
+      currency: booking.currency,
+      method,
+      amount: -amount,
+      walletAmount: isCard ? 0 : -amount,
+      cardAmount: isCard ? -amount : 0,
+      receiptNumber: booking.receiptNumber,
+      stripeReference,
+      paidBy: payer,
+    });
+  });
+
+  return entries;
+}
+
+function vendorEntries(
+  vendor: VendorWithId,
+  eventsById: Map<string, EventWithId>,
+  filters: ReconciliationFilters
+): ReconciliationEntry[] {
+  const entries: ReconciliationEntry[] = [];
+  const paidBy = vendor.companyName
+    ? `${vendor.companyName} <${vendor.email}>`
+    : vendor.email;
+
+  (vendor.applications ?? []).forEach((application) => {
+    const payment = application.payment;
+    if (!payment || (payment.status !== "paid" && payment.status !== "refunded")) {
+      return;
+    }
+    const event = eventsById.get(application.eventId.toString());
+    const info = eventInfo(event, application.eventId);
+    const currency = payment.currency || getCampusCurrency(event?.location);
+
+    // Booth fees are only paid by card
+    if (payment.paidAt && inRange(payment.paidAt, filters)) {
+      const amount = roundMoney(payment.amount);
+      entries.push({
+        kind: "Payment",
+        source: "Vendor booth fee",
+        occurredAt: payment.paidAt,
+        day: campusDay(payment.paidAt, info.campus),
+        ...info,
+        currency,
+        method: "Card",
+        amount,
+        walletAmount: 0,
+        cardAmount: amount,
+        receiptNumber: payment.receiptNumber,
+        stripeReference: payment.transactionReference,
+        paidBy,
+      });
+    }
+    if (payment.refundAmount && payment.refundedAt && inRange(payment.refundedAt, filters)) {
+      const amount = roundMoney(payment.refundAmount);
+      entries.push({
+        kind: "Refund",
+        source: "Vendor booth fee",
+        occurredAt: payment.refundedAt,
+        day: campusDay(payment.refundedAt, info.campus),
+        ...info,
+        currency,
+        method: "Card",
+        amount: -amount,
+        walletAmount: 0,
+        cardAmount: -amount,
+        receiptNumber: payment.receiptNumber,
+        stripeReference: payment.transactionReference,
+        paidBy,
+      });
+    }
+  });
+
+  return entries;
+}
+
+function courtEntries(
+  payment: CourtPaymentWithId,
+  court: Pick<ICourt, "type" | "venue"> | undefined,
+  payer: string | undefined,
+  filters: ReconciliationFilters
+): ReconciliationEntry[] {
+  const isCard = payment.method === "CreditCard";
+  const method: ReconciliationMethod = isCard ? "Card" : "Wallet";
+  const eventName = [describeCourt(court), court?.venue].filter(Boolean).join(" - ");
+  const entries: ReconciliationEntry[] = [];
+
+  if (inRange(payment.paidAt, filters)) {
+    const amount = roundMoney(payment.amount);
+    entries.push({
+      kind: "Payment",
+      source: "Court booking",
+      occurredAt: payment.paidAt,
+      day: campusDay(payment.paidAt),
+      eventName,
+      currency: payment.currency,
+      method,
+      amount,
+      walletAmount: isCard ? 0 : amount,
+      cardAmount: isCard ? amount : 0,
+      receiptNumber: payment.receiptNumber,
+      stripeReference: isCard ? payment.transactionReference : undefined,
+      paidBy: payer,
+    });
+  }
+  if (payment.refundAmount && payment.refundedAt && inRange(payment.refundedAt, filters)) {
+    const amount = roundMoney(payment.refundAmount);
+    entries.push({
+      kind: "Refund",
+      source: "Court booking",
+      occurredAt: payment.refundedAt,
+      day: campusDay(payment.refundedAt),
+      eventName,
+      currency: payment.currency,
+      method,
+      amount: -amount,
+      walletAmount: isCard ? 0 : -amount,
+      cardAmount: isCard ? -amount : 0,
+      receiptNumber: payment.refundReference ?? payment.receiptNumber,
+      stripeReference: isCard
+        ? (payment.stripeRefundId ?? payment.transactionReference)
+        : undefined,
+      paidBy: payer,
+    });
+  }
+
+  return entries;
+}
+
+/** Sums entries per key and currency; refunds lower the net. */
+export function totalEntries(
+  entries: ReconciliationEntry[],
+  keyOf: (entry: ReconciliationEntry) => string,
+  labelOf: (entry: ReconciliationEntry) => string = keyOf
+): ReconciliationTotal[] {
+  const totals = new Map<string, ReconciliationTotal>();
+
+  entries.forEach((entry) => {
+    const key = keyOf(entry);
+    const mapKey = `${key}\u0000${entry.currency}`;
+    let total = totals.get(mapKey);
+    if (!total) {
+      total = {
+        key,
+        label: labelOf(entry),
+        currency: entry.currency,
+        payments: 0,
+        refunds: 0,
+        net: 0,
+        walletNet: 0,
+        cardNet: 0,
+        count: 0,
+      };
+      totals.set(mapKey, total);
+    }
+    if (entry.kind === "Payment") {
+      total.payments += entry.amount;
+    } else {
+      total.refunds -= entry.amount;
+    }
+    total.net += entry.amount;
+    total.walletNet += entry.walletAmount;
+    total.cardNet += entry.cardAmount;
+    total.count += 1;
+  });
+
+  return Array.from(totals.values())
+    .map((total) => ({
+      ...total,
+      payments: roundMoney(total.payments),
+      refunds: roundMoney(total.refunds),
+      net: roundMoney(total.net),
+      walletNet: roundMoney(total.walletNet),
+      cardNet: roundMoney(total.cardNet),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label) || a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Compares each event's stored revenue with what its payment records add up
+ * to over the event's whole life, so drift shows even for older payments.
+ */
+export function checkEventRevenue(
+  event: EventWithId,
+  records: {
+    payments: Array<
+      Pick<IUserPayment, "amount" | "status" | "refundAmount" | "groupBookingId">
+    >;
+    groupBookings: Array<Pick<IGroupBooking, "seatPrice" | "seats" | "status">>;
+    boothFees: Array<{ amount: number; refundAmount?: number }>;
+  }
+): RevenueCheck {
+  let expected = 0;
+
+  records.payments.forEach((payment) => {
+    if (payment.status !== "Paid" && payment.status !== "Refunded") return;
+    if (!payment.groupBookingId) {
+      expected += payment.amount;
+    }
+    expected -= payment.refundAmount ?? 0;
+  });
+  records.groupBookings.forEach((booking) => {
+    if (booking.status !== GroupBookingStatus.PAID) return;
+    expected += booking.seatPrice * booking.seats.length;
+    booking.seats.forEach((seat) => {
+      if (!seat.paymentId) {
+        expected -= seat.refundAmount ?? 0;
+      }
+    });
+  });
+  records.boothFees.forEach((fee) => {
+    expected += fee.amount - (fee.refundAmount ?? 0);
+  });
+
+  const recordedRevenue = roundMoney(typeof event.revenue === "number" ? event.revenue : 0);
+  const expectedRevenue = roundMoney(expected);
+  const difference = roundMoney(recordedRevenue - expectedRevenue);
+
+  return {
+    eventId: event._id.toString(),
+    eventName: event.name,
+    currency: getCampusCurrency(event.location),
+    recordedRevenue,
+    expectedRevenue,
+    difference,
+    mismatch: Math.abs(difference) >= REVENUE_TOLERANCE,
+  };
+}
+
+async function loadRevenueChecks(events: EventWithId[]): Promise<RevenueCheck[]> {
+  if (!events.length) return [];
+  const eventIds = events.map((event) => event._id);
+
+  const [payments, groupBookings, vendors] = await Promise.all([
+    UserPaymentModel.find({
+      eventId: { $in: eventIds },
+      status: { $in: ["Paid", "Refunded"] },
+    })
+      .select("eventId amount status refundAmount groupBookingId")
+      .lean<UserPaymentWithId[]>(),
+    GroupBookingModel.find({
+      eventId: { $in: eventIds },
+      status: GroupBookingStatus.PAID,
+    })
+      .select("eventId seatPrice seats status")
+      .lean<GroupBookingWithId[]>(),
+    vendorModel
+      .find({
+        "applications.eventId": { $in: eventIds },
+        "applications.payment.status": { $in: ["paid", "refunded"] },
+      })
+      .select("applications")
+      .lean<VendorWithId[]>(),
+  ]);
+
+  return events.map((event) => {
+    const id = event._id.toString();
+    const boothFees = vendors.flatMap((vendor) =>
+      (vendor.applications ?? [])
+        .filter(
+          (application) =>
+            application.eventId.toString() === id &&
+            (application.payment?.status === "paid" ||
+              application.payment?.status === "refunded")
+        )
+        .map((application) => ({
+          amount: application.payment?.amount ?? 0,
+          refundAmount: application.payment?.refundAmount,
+        }))
+    );
+    return checkEventRevenue(event, {
+      payments: payments.filter((payment) => payment.eventId.toString() === id),
+      groupBookings: groupBookings.filter(
+        (booking) => booking.eventId.toString() === id
+      ),
+      boothFees,
+    });
+  });
+}
+
+export async function getReconciliationReport(
+  filters: ReconciliationFilters
+): Promise<ServiceResponse<ReconciliationReport>> {
+  try {
+    if (filters.startDate.getTime() > filters.endDate.getTime()) {
+      return {
+        success: false,
+        message: "startDate must be before endDate.",
+        statusCode: 400,
+      };
+    }
+
+    const [payments, groupBookings, vendors, courtPayments] = await Promise.all([
+      UserPaymentModel.find({
+        status: { $in: ["Paid", "Refunded"] },
+        $or: [rangeMatch("paidAt", filters), rangeMatch("refundedAt", filters)],
+      }).lean<UserPaymentWithId[]>(),
+      GroupBookingModel.find({
+        status: GroupBookingStatus.PAID,
+        $or: [rangeMatch("paidAt", filters), rangeMatch("seats.refundedAt", filters)],
+      }).lean<GroupBookingWithId[]>(),
+      vendorModel
+        .find({
+          $or: [
+            rangeMatch("applications.payment.paidAt", filters),
+            rangeMatch("applications.payment.refundedAt", filters),
+          ],
+        })
+        .select("companyName email applications")
+        .lean<VendorWithId[]>(),
+      CourtPaymentModel.find({
+        status: { $in: ["Paid", "Refunded"] },
+        $or: [rangeMatch("paidAt", filters), rangeMatch("refundedAt", filters)],
+      }).lean<CourtPaymentWithId[]>(),
+    ]);
+
+    const eventIds = new Set<string>();
+    payments.forEach((payment) => eventIds.add(payment.eventId.toString()));
+    groupBookings.forEach((booking) => eventIds.add(booking.eventId.toString()));
+    vendors.forEach((vendor) =>
+      (vendor.applications ?? []).forEach((application) => {
+        if (application.payment) eventIds.add(application.eventId.toString());
+      })
+    );
+
+    const userIds = new Set<string>();
+    payments.forEach((payment) =>
+      userIds.add((payment.purchasedBy ?? payment.userId).toString())
+    );
+    groupBookings.forEach((booking) => userIds.add(booking.organizerId.toString()));
+    courtPayments.forEach((payment) => userIds.add(payment.userId.toString()));
+
+    const [events, users, courts] = await Promise.all([
+      EventModel.find({ _id: { $in: Array.from(eventIds) } })
+        .select("name eventType location revenue")
+        .lean<EventWithId[]>(),
+      UserModel.find({ _id: { $in: Array.from(userIds) } })
+        .select("firstName lastName email")
+        .lean<Array<Pick<IUser, "firstName" | "lastName" | "email"> & { _id: Types.ObjectId }>>(),
+      CourtModel.find({
+        _id: { $in: courtPayments.map((payment) => payment.courtId) },
+      })
+        .select("type venue")
+        .lean<Array<Pick<ICourt, "type" | "venue"> & { _id: Types.ObjectId }>>(),
+    ]);
+
+    const eventsById = new Map(events.map((event) => [event._id.toString(), event]));
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+    const courtsById = new Map(courts.map((court) => [court._id.toString(), court]));
+    const payerName = (id: Types.ObjectId) => fullName(usersById.get(id.toString()));
+
+    const entries: ReconciliationEntry[] = [
+      ...payments.flatMap((payment) =>
+        userPaymentEntries(
+          payment,
+          eventsById.get(payment.eventId.toString()),
+          payerName(payment.purchasedBy ?? payment.userId),
+          filters
+        )
+      ),
+      ...groupBookings.flatMap((booking) =>
+        groupBookingEntries(
+          booking,
+          eventsById.get(booking.eventId.toString()),
+          payerName(booking.organizerId),
+          filters
+        )
+      ),
+      ...vendors.flatMap((vendor) => vendorEntries(vendor, eventsById, filters)),
+      ...courtPayments.flatMap((payment) =>
+        courtEntries(
+          payment,
+          courtsById.get(payment.courtId.toString()),
+          payerName(payment.userId),
+          filters
+        )
+      ),
+    ].sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+
+    return {
+      success: true,
+      message: "Reconciliation report generated.",
+      data: {
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+        entries,
+        byEvent: totalEntries(
+          entries,
+          (entry) => entry.eventId ?? entry.eventName,
+          (entry) => entry.eventName
+        ),
+        byCampus: totalEntries(entries, (entry) => entry.campus ?? COURTS_CAMPUS),
+        byDay: totalEntries(entries, (entry) => entry.day),
+        revenueChecks: await loadRevenueChecks(
+          events.filter((event) =>
+            entries.some((entry) => entry.eventId === event._id.toString())
+          )
+        ),
+      },
+    };
+  } catch (error) {
+    console.error("Error building reconciliation report:", error);
+    return {
+      success: false,
+      message: "Failed to build reconciliation report.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function exportReconciliationReport(
+  filters: ReconciliationFilters
+): Promise<ServiceResponse<{ buffer: Buffer; filename: string }>> {
+  const report = await getReconciliationReport(filters);
+  if (!report.success || !report.data) {
+    return { success: false, message: report.message, statusCode: report.statusCode };
+  }
+
+  try {
+    let XLSX: Awaited<ReturnType<typeof loadXlsx>>;
+    try {
+      XLSX = await loadXlsx();
+    } catch (importError) {
+      console.error("Failed to load xlsx module:", importError);
+      return {
+        success: false,
+        message: "Excel export is temporarily unavailable.",
+        statusCode: 503,
+      };
+    }
+
+    const { entries, byEvent, byCampus, byDay, revenueChecks } = report.data;
+    const checksByEvent = new Map(revenueChecks.map((check) => [check.eventId, check]));
+    const totalRow = (label: string) => (total: ReconciliationTotal) => ({
+      [label]: total.label,
+      Currency: total.currency,
+      Transactions: total.count,
+      Payments: total.payments,
+      Refunds: total.refunds,
+      Net: total.net,
+      "Wallet Net": total.walletNet,
+      "Card Net": total.cardNet,
+    });
+
+    const workbook = XLSX.utils.book_new();
+
+    const transactionsSheet = XLSX.utils.json_to_sheet(
+      entries.map((entry) => ({
+        Date: new Date(entry.occurredAt).toISOString(),
+        Day: entry.day,
+        Type: entry.kind,
+        Source: entry.source,
+        Event: entry.eventName,
+        "Event Type": entry.eventType ?? "",
+        Campus: entry.campus ?? COURTS_CAMPUS,
+        Method: entry.method,
+        Currency: entry.currency,
+        Amount: entry.amount,
+        Wallet: entry.walletAmount,
+        Card: entry.cardAmount,
+        Receipt: entry.receiptNumber ?? "",
+        "Stripe Reference": entry.stripeReference ?? "",
+        "Paid By": entry.paidBy ?? "",
+      }))
+    );
+    transactionsSheet["!cols"] = [
+      { wch: 24 }, // Date
+      { wch: 12 }, // Day
+      { wch: 9 }, // Type
+      { wch: 17 }, // Source
+      { wch: 30 }, // Event
+      { wch: 12 }, // Event Type
+      { wch: 12 }, // Campus
+      { wch: 8 }, // Method
+      { wch: 8 }, // Currency
+      { wch: 10 }, // Amount
+      { wch: 10 }, // Wallet
+      { wch: 10 }, // Card
+      { wch: 22 }, // Receipt
+      { wch: 30 }, // Stripe Reference
+      { wch: 35 }, // Paid By
+    ];
+    XLSX.utils.book_append_sheet(workbook, transactionsSheet, "Transactions");
+
+    const eventSheet = XLSX.utils.json_to_sheet(
+      byEvent.map((total) => {
+        const check = checksByEvent.get(total.key);
+        return {
+          ...totalRow("Event")(total),
+          "Event.revenue": check?.recordedRevenue ?? "",
+          "Expected Revenue": check?.expectedRevenue ?? "",
+          "Revenue Check": check ? (check.mismatch ? "MISMATCH" : "OK") : "",
+        };
+      })
+    );
+    XLSX.utils.book_append_sheet(workbook, eventSheet, "By Event");
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(byCampus.map(totalRow("Campus"))),
+      "By Campus"
+    );
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(byDay.map(totalRow("Day"))),
+      "By Day"
+    );
+
+    const mismatches = revenueChecks.filter((check) => check.mismatch);
+    if (mismatches.length > 0) {
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.json_to_sheet(
+          mismatches.map((check) => ({
+            Event: check.eventName,
+            "Event ID": check.eventId,
+            Currency: check.currency,
+            "Event.revenue": check.recordedRevenue,
+            "Expected Revenue": check.expectedRevenue,
+            Difference: check.difference,
+          }))
+        ),
+        "Revenue Mismatches"
+      );
+    }
+
+    const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+    const range = `${filters.startDate.toISOString().slice(0, 10)}_${filters.endDate
+      .toISOString()
+      .slice(0, 10)}`;
+
+    return {
+      success: true,
+      message: "Reconciliation export generated successfully.",
+      data: {
+        buffer: Buffer.from(buffer),
+        filename: `Reconciliation_${range}.xlsx`,
+      },
+    };
+  } catch (error) {
+    console.error("Error exporting reconciliation report:", error);
+    return {
+      success: false,
+      message: "An error occurred while exporting the reconciliation report.",
+      statusCode: 500,
+    };
+  }
+}
@@ -0,0 +1,454 @@
+import { Types } from "mongoose";
+import EventModel, {
+  EventType,
+  IEvent,
+  IRefundPolicyRules,
+  IRefundTier,
+  RefundDestination,
+} from "../models/Event";
+import RefundPolicyModel, { IRefundPolicy } from "../models/RefundPolicy";
+import UserPaymentModel, { IUserPayment } from "../models/UserPayment";
+import { isWalletCurrency } from "./campusService";
+
+const MAX_TIERS = 10;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Event types that can take paid registrations (seminars and conferences once opted in)
+export const REFUNDABLE_EVENT_TYPES = [
+  EventType.WORKSHOP,
+  EventType.TRIP,
+  EventType.SEMINAR,
+  EventType.CONFERENCE,
+];
+
+// Matches the original rule: full refund up to 14 days before the start
+export const DEFAULT_REFUND_POLICY: IRefundPolicyRules = {
+  tiers: [{ hoursBeforeStart: 14 * 24, percentage: 100 }],
+  destination: RefundDestination.WALLET,
+};
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type RefundPolicySource = "Event" | "EventType" | "Default";
+
+export type ResolvedRefundPolicy = IRefundPolicyRules & {
+  source: RefundPolicySource;
+};
+
+export type RefundQuote = {
+  allowed: boolean;
+  percentage: number;
+  refundAmount: number;
+  walletRefundAmount: number;
+  cardRefundAmount: number;
+  destination: RefundDestination;
+  // Last moment the current percentage still applies
+  tierEndsAt?: Date;
+};
+
+export type EventRefundPolicyData = {
+  policy: ResolvedRefundPolicy;
+  quote?: RefundQuote;
+};
+
+export type RefundPolicyListItem = ResolvedRefundPolicy & {
+  eventType: EventType;
+  updatedAt?: Date;
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function sortTiers(tiers: IRefundTier[]) {
+  return [...tiers].sort((a, b) => b.hoursBeforeStart - a.hoursBeforeStart);
+}
+
+function toRules(source: IRefundPolicyRules): IRefundPolicyRules {
+  return {
+    tiers: sortTiers(
+      (source.tiers ?? []).map((tier) => ({
+        hoursBeforeStart: tier.hoursBeforeStart,
+        percentage: tier.percentage,
+      }))
+    ),
+    destination: source.destination ?? RefundDestination.WALLET,
+  };
+}
+
+export function parseRefundPolicy(
+  input: unknown
+): { success: true; rules: IRefundPolicyRules } | { success: false; message: string } {
+  if (!input || typeof input !== "object") {
+    return { success: false, message: "A refund policy is required." };
+  }
+
+  const { tiers, destination } = input as {
+    tiers?: unknown;
+    destination?: unknown;
+  };
+
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return { success: false, message: "tiers must be a non-empty array." };
+  }
+  if (tiers.length > MAX_TIERS) {
+    return {
+      success: false,
+      message: `A refund policy can have at most ${MAX_TIERS} tiers.`,
+    };
+  }
+
+  const parsedTiers: IRefundTier[] = [];
+  for (const tier of tiers) {
+    const hours = Number((tier as IRefundTier | null)?.hoursBeforeStart);
+    const percentage = Number((tier as IRefundTier | null)?.percentage);
+    if (!Number.isFinite(hours) || hours < 0) {
+      return {
+        success: false,
+        message: "hoursBeforeStart must be zero or a positive number.",
+      };
+    }
+    if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+      return {
+        success: false,
+        message: "percentage must be between 0 and 100.",
+      };
+    }
+    if (parsedTiers.some((existing) => existing.hoursBeforeStart === hours)) {
+      return {
+        success: false,
+        message: "Each tier needs a different hoursBeforeStart.",
+      };
+    }
+    parsedTiers.push({ hoursBeforeStart: hours, percentage });
+  }
+
+  if (
+    destination !== undefined &&
+    !Object.values(RefundDestination).includes(destination as RefundDestination)
+  ) {
+    return {
+      success: false,
+      message: `destination must be one of: ${Object.values(RefundDestination).join(", ")}`,
+    };
+  }
+
+  return {
+    success: true,
+    rules: toRules({
+      tiers: parsedTiers,
+      destination:
+        (destination as RefundDestination | undefined) ??
+        RefundDestination.WALLET,
+    }),
+  };
+}
+
+/** Event override first, then the event type's policy, then the default. */
+export async function resolveRefundPolicy(
+  event: Pick<IEvent, "eventType" | "refundPolicy">
+): Promise<ResolvedRefundPolicy> {
+  if (event.refundPolicy?.tiers?.length) {
+    return { ...toRules(event.refundPolicy), source: "Event" };
+  }
+
+  const typePolicy = await RefundPolicyModel.findOne({
+    eventType: event.eventType,
+  }).lean<IRefundPolicy | null>();
+  if (typePolicy?.tiers?.length) {
+    return { ...toRules(typePolicy), source: "EventType" };
+  }
+
+  return { ...toRules(DEFAULT_REFUND_POLICY), source: "Default" };
+}
+
+/**
+ * Payments in another campus currency cannot be credited to the wallet, so
+ * they are always refunded to the card that paid them.
+ */
+export function refundRulesForPayment(
+  rules: IRefundPolicyRules,
+  payment: Pick<IUserPayment, "currency">
+): IRefundPolicyRules {
+  return isWalletCurrency(payment.currency)
+    ? rules
+    : { ...rules, destination: RefundDestination.ORIGINAL_PAYMENT };
+}
+
+/**
+ * Picks the most generous tier whose cut-off has not passed yet. When no tier
+ * applies the registration can no longer be cancelled.
+ */
+export function quoteRefund(
+  rules: IRefundPolicyRules,
+  payment: Pick<IUserPayment, "amount" | "cardPortion" | "transactionReference">,
+  startDate: Date,
+  now: Date = new Date()
+): RefundQuote {
+  const hoursUntilStart = (startDate.getTime() - now.getTime()) / HOUR_MS;
+  const tier = sortTiers(rules.tiers).find(
+    (candidate) => hoursUntilStart >= candidate.hoursBeforeStart
+  );
+  const destination = rules.destination ?? RefundDestination.WALLET;
+
+  if (!tier) {
+    return {
+      allowed: false,
+      percentage: 0,
+      refundAmount: 0,
+      walletRefundAmount: 0,
+      cardRefundAmount: 0,
+      destination,
+    };
+  }
+
+  const amount = Math.max(payment.amount ?? 0, 0);
+  const refundAmount = roundMoney((amount * tier.percentage) / 100);
+
+  // Only Stripe charges can be reversed; simulated card payments go to the wallet
+  const stripeCharged =
+    typeof payment.transactionReference === "string" &&
+    payment.transactionReference.startsWith("pi_");
+  const cardRefundAmount =
+    destination === RefundDestination.ORIGINAL_PAYMENT && stripeCharged
+      ? Math.min(
+          refundAmount,
+          roundMoney(((payment.cardPortion ?? 0) * tier.percentage) / 100)
+        )
+      : 0;
+
+  return {
+    allowed: true,
+    percentage: tier.percentage,
+    refundAmount,
+    walletRefundAmount: roundMoney(refundAmount - cardRefundAmount),
+    cardRefundAmount,
+    destination,
+    tierEndsAt: new Date(startDate.getTime() - tier.hoursBeforeStart * HOUR_MS),
+  };
+}
+
+export async function getEventRefundPolicy(
+  eventId: string,
+  userId?: string
+): Promise<ServiceResponse<EventRefundPolicyData>> {
+  try {
+    if (!Types.ObjectId.isValid(eventId)) {
+      return { success: false, message: "Invalid event ID.", statusCode: 400 };
+    }
+
+    const event = await EventModel.findById(eventId)
+      .select(["eventType", "refundPolicy", "startDate"])
+      .lean<IEvent | null>();
+    if (!event) {
+      return { success: false, message: "Event not found.", statusCode: 404 };
+    }
+
+    const policy = await resolveRefundPolicy(event);
+
+    let quote: RefundQuote | undefined;
+    if (userId && Types.ObjectId.isValid(userId)) {
+      const payment = await UserPaymentModel.findOne({
+        eventId,
+        userId,
+        status: "Paid",
+      }).lean<IUserPayment | null>();
+      if (payment) {
+        quote = quoteRefund(
+          refundRulesForPayment(policy, payment),
+          payment,
+          new Date(event.startDate)
+        );
+      }
+    }
+
+    return {
+      success: true,
+      message: "Refund policy retrieved successfully.",
+      data: { policy, quote },
+    };
+  } catch (error) {
+    console.error("Error loading event refund policy:", error);
+    return {
+      success: false,
+      message: "Failed to load refund policy.",
+      statusCode: 500,
+    };
+  }
+}
+
+/** Sets or, with a null policy, clears an event's own refund policy. */
+export async function setEventRefundPolicy(
+  eventId: string,
+  input: unknown | null
+): Promise<ServiceResponse<EventRefundPolicyData>> {
+  try {
+    if (!Types.ObjectId.isValid(eventId)) {
+      return { success: false, message: "Invalid event ID.", statusCode: 400 };
+    }
+
+    const event = await EventModel.findById(eventId);
+    if (!event) {
+      return { success: false, message: "Event not found.", statusCode: 404 };
+    }
+    if (!REFUNDABLE_EVENT_TYPES.includes(event.eventType)) {
+      return {
+        success: false,
+        message: "Refund policies only apply to events that take registrations.",
+        statusCode: 400,
+      };
+    }
+
+    if (input === null) {
+      event.refundPolicy = undefined;
+    } else {
+      const parsed = parseRefundPolicy(input);
+      if (!parsed.success) {
+        return { success: false, message: parsed.message, statusCode: 400 };
+      }
+      event.refundPolicy = parsed.rules;
+    }
+    await event.save();
+
+    return {
+      success: true,
+      message:
+        input === null
+          ? "Event now follows its event type's refund policy."
+          : "Event refund policy updated.",
+      data: { policy: await resolveRefundPolicy(event) },
+    };
+  } catch (error) {
+    console.error("Error updating event refund policy:", error);
+    return {
+      success: false,
+      message: "Failed to update refund policy.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function listRefundPolicies(): Promise<
+  ServiceResponse<RefundPolicyListItem[]>
+> {
+  try {
+    const stored = await RefundPolicyModel.find({
+      eventType: { $in: REFUNDABLE_EVENT_TYPES },
+    }).lean<IRefundPolicy[]>();
+
+    const policies = REFUNDABLE_EVENT_TYPES.map((eventType) => {
+      const match = stored.find((policy) => policy.eventType === eventType);
+      return match?.tiers?.length
+        ? {
+            eventType,
+            ...toRules(match),
+            source: "EventType" as const,
+            updatedAt: match.updatedAt,
+          }
+        : {
+            eventType,
+            ...toRules(DEFAULT_REFUND_POLICY),
+            source: "Default" as const,
+          };
+    });
+
+    return {
+      success: true,
+      message: "Refund policies retrieved successfully.",
+      data: policies,
+    };
+  } catch (error) {
+    console.error("Error listing refund policies:", error);
+    return {
+      success: false,
+      message: "Failed to load refund policies.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function saveRefundPolicy(
+  eventType: string,
+  input: unknown,
+  updatedBy?: string
+): Promise<ServiceResponse<RefundPolicyListItem>> {
+  try {
+    if (!REFUNDABLE_EVENT_TYPES.includes(eventType as EventType)) {
+      return {
+        success: false,
+        message: `eventType must be one of: ${REFUNDABLE_EVENT_TYPES.join(", ")}`,
+        statusCode: 400,
+      };
+    }
+
+    const parsed = parseRefundPolicy(input);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+
+    const saved = await RefundPolicyModel.findOneAndUpdate(
+      { eventType },
+      { $set: { ...parsed.rules, updatedBy } },
+      { new: true, upsert: true, runValidators: true }
+    ).lean<IRefundPolicy | null>();
+    if (!saved) {
+      throw new Error(`Refund policy for ${eventType} was not saved`);
+    }
+
+    return {
+      success: true,
+      message: `${eventType} refund policy saved.`,
+      data: {
+        eventType: eventType as EventType,
+        ...toRules(saved),
+        source: "EventType",
+        updatedAt: saved.updatedAt,
+      },
+    };
+  } catch (error) {
+    console.error("Error saving refund policy:", error);
+    return {
+      success: false,
+      message: "Failed to save refund policy.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function resetRefundPolicy(
+  eventType: string
+): Promise<ServiceResponse<RefundPolicyListItem>> {
+  try {
+    if (!REFUNDABLE_EVENT_TYPES.includes(eventType as EventType)) {
+      return {
+        success: false,
+        message: `eventType must be one of: ${REFUNDABLE_EVENT_TYPES.join(", ")}`,
+        statusCode: 400,
+      };
+    }
+
+    await RefundPolicyModel.deleteOne({ eventType });
+
+    return {
+      success: true,
+      message: `${eventType} events now use the default refund policy.`,
+      data: {
+        eventType: eventType as EventType,
+        ...toRules(DEFAULT_REFUND_POLICY),
+        source: "Default",
+      },
+    };
+  } catch (error) {
+    console.error("Error resetting refund policy:", error);
+    return {
+      success: false,
+      message: "Failed to reset refund policy.",
+      statusCode: 500,
+    };
+  }
+}
@@ -0,0 +1,321 @@
+import Stripe from "stripe";
+import StripeWebhookEventModel, {
+  IStripeWebhookEvent,
+  StripeWebhookStatus,
+} from "../models/StripeWebhookEvent";
+import {
+  reconcileCourtChargeRefund,
+  reconcileCourtPaymentIntent,
+} from "./courtService";
+import {
+  isGroupBookingPaymentIntent,
+  reconcileGroupBookingPaymentIntent,
+  recordGroupBookingPaymentFailure,
+} from "./groupBookingService";
+import { isCourtPaymentIntent } from "./courtPaymentService";
+import { releaseDiscountReservation } from "./discountService";
+import {
+  isEventPaymentIntent,
+  reconcileEventChargeRefund,
+  reconcileEventPaymentIntent,
+  recordEventPaymentFailure,
+} from "./paymentService";
+import {
+  isVendorPaymentIntent,
+  reconcileVendorChargeRefund,
+  reconcileVendorPaymentIntent,
+  recordVendorPaymentFailure,
+} from "./vendorService";
+import { creditWalletTopUp, isWalletTopUpIntent } from "./walletService";
+
+// A delivery still marked Processing after this long is assumed to have crashed
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type HandlerResult = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+};
+
+export type StripeWebhookResult = {
+  stripeEventId: string;
+  type: string;
+  status: StripeWebhookStatus;
+};
+
+type WebhookEventWithId = IStripeWebhookEvent & { _id: unknown };
+
+function isDuplicateKeyError(error: unknown) {
+  return (
+    Boolean(error) &&
+    typeof error === "object" &&
+    (error as { code?: unknown }).code === 11000
+  );
+}
+
+// Missing rows and invalid metadata will not fix themselves, so Stripe should stop retrying
+function isPermanentFailure(result: HandlerResult) {
+  const status = result.statusCode ?? 400;
+  return status >= 400 && status < 500 && status !== 409;
+}
+
+async function handlePaymentIntentSucceeded(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<HandlerResult | null> {
+  if (isWalletTopUpIntent(paymentIntent)) {
+    return creditWalletTopUp(paymentIntent);
+  }
+  if (isCourtPaymentIntent(paymentIntent)) {
+    return reconcileCourtPaymentIntent(paymentIntent);
+  }
+  if (isGroupBookingPaymentIntent(paymentIntent)) {
+    return reconcileGroupBookingPaymentIntent(paymentIntent);
+  }
+  if (isVendorPaymentIntent(paymentIntent)) {
+    return reconcileVendorPaymentIntent(paymentIntent);
+  }
+  if (isEventPaymentIntent(paymentIntent)) {
+    return reconcileEventPaymentIntent(paymentIntent);
+  }
+  return null;
+}
+
+async function handlePaymentIntentFailed(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<HandlerResult | null> {
+  if (isGroupBookingPaymentIntent(paymentIntent)) {
+    return recordGroupBookingPaymentFailure(paymentIntent);
+  }
+  if (isVendorPaymentIntent(paymentIntent)) {
+    return recordVendorPaymentFailure(paymentIntent);
+  }
+  if (isEventPaymentIntent(paymentIntent)) {
+    return recordEventPaymentFailure(paymentIntent);
+  }
+  return null;
+}
+
+// Registration and court intents hold a promo code until they are paid
+async function handlePaymentIntentCanceled(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<HandlerResult | null> {
+  const holdsCode =
+    isEventPaymentIntent(paymentIntent) || isCourtPaymentIntent(paymentIntent);
+  if (!holdsCode || !paymentIntent.metadata?.discountCode) {
+    return null;
+  }
+  const released = await releaseDiscountReservation(paymentIntent.id);
+  return {
+    success: true,
+    message: released ? "Promo code released." : "No promo code hold to release.",
+  };
+}
+
+async function handleChargeRefunded(
+  charge: Stripe.Charge
+): Promise<HandlerResult | null> {
+  const eventRefund = await reconcileEventChargeRefund(charge);
+  if (eventRefund.statusCode !== 404) {
+    return eventRefund;
+  }
+  const vendorRefund = await reconcileVendorChargeRefund(charge);
+  if (vendorRefund.statusCode !== 404) {
+    return vendorRefund;
+  }
+  const courtRefund = await reconcileCourtChargeRefund(charge);
+  if (courtRefund.statusCode !== 404) {
+    return courtRefund;
+  }
+  return null;
+}
+
+async function dispatchStripeEvent(
+  event: Stripe.Event
+): Promise<HandlerResult | null> {
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      return handlePaymentIntentSucceeded(event.data.object);
+    case "payment_intent.payment_failed":
+      return handlePaymentIntentFailed(event.data.object);
+    case "payment_intent.canceled":
+      return handlePaymentIntentCanceled(event.data.object);
+    case "charge.refunded":
+      return handleChargeRefunded(event.data.object);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Records the delivery, or takes over a failed or stale one. Hands back the
+ * existing row when the event was handled already or is being handled now.
+ */
+async function claimStripeEvent(
+  event: Stripe.Event
+): Promise<{ claimed: WebhookEventWithId } | { existing: WebhookEventWithId }> {
+  const objectId = (event.data.object as { id?: string }).id;
+  try {
+    const created = await StripeWebhookEventModel.create({
+      stripeEventId: event.id,
+      type: event.type,
+      objectId,
+      status: StripeWebhookStatus.PROCESSING,
+    });
+    return { claimed: created.toObject() as WebhookEventWithId };
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+  }
+
+  const existing = await StripeWebhookEventModel.findOne({
+    stripeEventId: event.id,
+  }).lean<WebhookEventWithId | null>();
+  if (!existing) {
+    throw new Error(`Stripe event ${event.id} vanished while being claimed`);
+  }
+
+  const retryable =
+    existing.status === StripeWebhookStatus.FAILED ||
+    (existing.status === StripeWebhookStatus.PROCESSING &&
+      Date.now() - new Date(existing.updatedAt ?? 0).getTime() >
+        STALE_PROCESSING_MS);
+  if (!retryable) {
+    return { existing };
+  }
+
+  const claimed = await StripeWebhookEventModel.findOneAndUpdate(
+    { _id: existing._id, status: existing.status, updatedAt: existing.updatedAt },
+    {
+      $set: { status: StripeWebhookStatus.PROCESSING },
+      $inc: { attempts: 1 },
+    },
+    { new: true }
+  ).lean<WebhookEventWithId | null>();
+
+  return claimed ? { claimed } : { existing };
+}
+
+export function constructStripeWebhookEvent(
+  payload: Buffer | string,
+  signature: string | string[] | undefined,
+  secret: string
+): Stripe.Event {
+  const header = Array.isArray(signature) ? signature[0] : signature;
+  return Stripe.webhooks.constructEvent(payload, header ?? "", secret);
+}
+
+/**
+ * Verifies a Stripe webhook delivery and applies it once. Failures that a
+ * retry could fix answer with an error so Stripe redelivers the event.
+ */
+export async function handleStripeWebhook(
+  payload: Buffer | string,
+  signature: string | string[] | undefined
+): Promise<ServiceResponse<StripeWebhookResult>> {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    return {
+      success: false,
+      message: "Stripe webhooks are not configured.",
+      statusCode: 503,
+    };
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = constructStripeWebhookEvent(payload, signature, secret);
+  } catch (error) {
+    console.warn(
+      "Rejected Stripe webhook:",
+      error instanceof Error ? error.message : error
+    );
+    return {
+      success: false,
+      message: "Invalid Stripe signature.",
+      statusCode: 400,
+    };
+  }
+
+  try {
+    const claim = await claimStripeEvent(event);
+    if ("existing" in claim) {
+      const inFlight = claim.existing.status === StripeWebhookStatus.PROCESSING;
+      return {
+        success: !inFlight,
+        message: inFlight
+          ? "Event is already being processed."
+          : "Event already processed.",
+        statusCode: inFlight ? 409 : 200,
+        data: {
+          stripeEventId: event.id,
+          type: event.type,
+          status: claim.existing.status,
+        },
+      };
+    }
+
+    let result: HandlerResult | null;
+    try {
+      result = await dispatchStripeEvent(event);
+    } catch (error) {
+      console.error(`Stripe webhook ${event.type} handler error:`, error);
+      result = {
+        success: false,
+        message: "Failed to process Stripe event.",
+        statusCode: 500,
+      };
+    }
+
+    const status = !result
+      ? StripeWebhookStatus.IGNORED
+      : result.success
+        ? StripeWebhookStatus.PROCESSED
+        : isPermanentFailure(result)
+          ? StripeWebhookStatus.IGNORED
+          : StripeWebhookStatus.FAILED;
+    const message = result?.message ?? `No handler for ${event.type}.`;
+
+    await StripeWebhookEventModel.updateOne(
+      { _id: claim.claimed._id },
+      {
+        $set: {
+          status,
+          message,
+          ...(status === StripeWebhookStatus.FAILED
+            ? {}
+            : { processedAt: new Date() }),
+        },
+      }
+    );
+
+    if (status === StripeWebhookStatus.FAILED) {
+      return {
+        success: false,
+        message,
+        statusCode: result?.statusCode ?? 500,
+        data: { stripeEventId: event.id, type: event.type, status },
+      };
+    }
+
+    return {
+      success: true,
+      message,
+      data: { stripeEventId: event.id, type: event.type, status },
+    };
+  } catch (error) {
+    console.error("handleStripeWebhook error:", error);
+    return {
+      success: false,
+      message: "Failed to process Stripe event.",
+      statusCode: 500,
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { Types } from "mongoose";
+import { imageSync } from "qr-image";
+import EventModel, { IEventCheckIn } from "../models/Event";
+import UserModel from "../models/User";
+import UserPaymentModel, { IUserPayment } from "../models/UserPayment";
+
+const TICKET_PREFIX = "TKT";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type PaymentWithId = IUserPayment & { _id: Types.ObjectId };
+
+/**
+ * Signs the payload of a QR pass (event tickets, gym passes) so it cannot be
+ * forged. Throws when JWT_SECRET is missing rather than signing with no key.
+ */
+export function signQrPayload(payload: string): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is required to sign QR passes");
+  }
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/** Checks a signature made by signQrPayload in constant time. */
+export function verifyQrPayload(payload: string, signature: string): boolean {
+  const expected = Buffer.from(signQrPayload(payload));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Builds the text encoded in a registration's ticket QR. Tickets point at
+ * the UserPayment they were issued for; the signature stops forgery.
+ */
+export function buildTicketCode(paymentId: string): string {
+  return [
+    TICKET_PREFIX,
+    paymentId,
+    signQrPayload(`${TICKET_PREFIX}:${paymentId}`),
+  ].join(":");
+}
+
+function parseTicketCode(code: string): string | null {
+  const [prefix, paymentId, signature] = code.trim().split(":");
+  if (prefix !== TICKET_PREFIX || !paymentId || !signature) {
+    return null;
+  }
+
+  if (!verifyQrPayload(`${TICKET_PREFIX}:${paymentId}`, signature)) {
+    return null;
+  }
+
+  return Types.ObjectId.isValid(paymentId) ? paymentId : null;
+}
+
+export function renderTicketQr(paymentId: string): Buffer {
+  return imageSync(buildTicketCode(paymentId), {
+    type: "png",
+    size: 8,
+    margin: 2,
+  }) as Buffer;
+}
+
+export async function getUserEventTicket(
+  eventId: string,
+  userId: string
+): Promise<ServiceResponse<{ filename: string; buffer: Buffer }>> {
+  try {
+    if (!Types.ObjectId.isValid(eventId) || !Types.ObjectId.isValid(userId)) {
+      return {
+        success: false,
+        message: "Invalid event or user identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const payment = await UserPaymentModel.findOne({
+      eventId: new Types.ObjectId(eventId),
+      userId: new Types.ObjectId(userId),
+      status: "Paid",
+    }).lean<PaymentWithId | null>();
+
+    if (!payment) {
+      return {
+        success: false,
+        message: "No paid registration found for this event.",
+        statusCode: 404,
+      };
+    }
+
+    return {
+      success: true,
+      message: "Ticket generated.",
+      statusCode: 200,
+      data: {
+        filename: `ticket-${payment.receiptNumber}.png`,
+        buffer: renderTicketQr(payment._id.toString()),
+      },
+    };
+  } catch (error) {
+    console.error("Error generating event ticket:", error);
+    return {
+      success: false,
+      message: "Failed to generate ticket.",
+      statusCode: 500,
+    };
+  }
+}
+
+export type TicketCheckInData = {
+  userId: string;
+  attendeeName: string;
+  checkedInAt: Date;
+  checkedInCount: number;
+};
+
+export async function checkInEventTicket(
+  eventId: string,
+  ticketCode: string,
+  staffId: string
+): Promise<ServiceResponse<TicketCheckInData>> {
+  try {
+    if (!Types.ObjectId.isValid(eventId)) {
+      return { success: false, message: "Invalid event ID.", statusCode: 400 };
+    }
+
+    const paymentId =
+      typeof ticketCode === "string" ? parseTicketCode(ticketCode) : null;
+    if (!paymentId) {
+      return {
+        success: false,
+        message: "This ticket is not valid.",
+        statusCode: 400,
+      };
+    }
+
+    const payment = await UserPaymentModel.findById(
+      paymentId
+    ).lean<PaymentWithId | null>();
+    if (!payment || payment.eventId.toString() !== eventId) {
+      return {
+        success: false,
+        message: "This ticket is not for this event.",
+        statusCode: 400,
+      };
+    }
+
+    if (payment.status !== "Paid") {
+      return {
+        success: false,
+        message: "This registration was cancelled.",
+        statusCode: 400,
+      };
+    }
+
+    const userId = payment.userId.toString();
+    const event = await EventModel.findById(eventId).select([
+      "registeredUsers",
+      "checkIns",
+    ]);
+    if (!event) {
+      return { success: false, message: "Event not found.", statusCode: 404 };
+    }
+
+    if (!(event.registeredUsers ?? []).includes(userId)) {
+      return {
+        success: false,
+        message: "This registration was cancelled.",
+        statusCode: 400,
+      };
+    }
+
+    const checkIn: IEventCheckIn = {
+      userId,
+      paymentId,
+      checkedInAt: new Date(),
+      checkedInBy: staffId,
+    };
+    // The userId guard makes concurrent scans of the same ticket record once.
+    const updated = await EventModel.findOneAndUpdate(
+      { _id: eventId, "checkIns.userId": { $ne: userId } },
+      { $push: { checkIns: checkIn } },
+      { new: true }
+    ).select("checkIns");
+
+    if (!updated) {
+      const previous = (event.checkIns ?? []).find(
+        (entry: IEventCheckIn) => entry.userId === userId
+      );
+      return {
+        success: false,
+        message: previous
+          ? `Ticket already checked in at ${previous.checkedInAt.toISOString()}.`
+          : "Ticket already checked in.",
+        statusCode: 409,
+      };
+    }
+
+    const attendee = await UserModel.findById(userId)
+      .select(["firstName", "lastName"])
+      .lean<{ firstName?: string; lastName?: string } | null>();
+
+    return {
+      success: true,
+      message: "Attendee checked in.",
+      statusCode: 200,
+      data: {
+        userId,
+        attendeeName: [attendee?.firstName, attendee?.lastName]
+          .filter(Boolean)
+          .join(" "),
+        checkedInAt: checkIn.checkedInAt,
+        checkedInCount: updated.checkIns.length,
+      },
+    };
+  } catch (error) {
+    console.error("Error checking in event ticket:", error);
+    return {
+      success: false,
+      message: "Failed to check in ticket.",
+      statusCode: 500,
+    };
+  }
+}
@@ -0,0 +1,381 @@
+import { Types } from "mongoose";
+import EventModel, {
+  EventType,
+  IEvent,
+  IEventTicketTier,
+  TicketTierAudience,
+} from "../models/Event";
+import { userRole } from "../models/User";
+import { checkEventVenue } from "./venueService";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type RegistrationSettings = {
+  registrationEnabled: boolean;
+  capacity?: number;
+  price?: number;
+  ticketTiers: IEventTicketTier[];
+};
+
+export type RegistrationSettingsData = RegistrationSettings & {
+  registeredCount: number;
+  ticketTiers: Array<IEventTicketTier & { sold: number }>;
+};
+
+type TierChoice =
+  | { success: true; tier?: IEventTicketTier }
+  | { success: false; message: string; statusCode: number };
+
+// Workshops and trips always take registrations; these opt in per event
+export const OPT_IN_REGISTRATION_TYPES = [EventType.SEMINAR, EventType.CONFERENCE];
+
+// null means every role may buy the tier
+const TIER_AUDIENCE_ROLES: Record<TicketTierAudience, string[] | null> = {
+  [TicketTierAudience.STUDENT]: [userRole.STUDENT],
+  [TicketTierAudience.STAFF]: [userRole.STAFF, userRole.PROFESSOR, userRole.TA],
+  [TicketTierAudience.EXTERNAL]: null,
+};
+
+const TIER_AUDIENCES = Object.values(TicketTierAudience);
+
+export function eventAcceptsRegistrations(
+  event: Pick<IEvent, "eventType" | "registrationEnabled">
+) {
+  if (event.eventType === EventType.WORKSHOP || event.eventType === EventType.TRIP) {
+    return true;
+  }
+  return (
+    OPT_IN_REGISTRATION_TYPES.includes(event.eventType) &&
+    Boolean(event.registrationEnabled)
+  );
+}
+
+export function hasTicketTiers(event: Pick<IEvent, "ticketTiers">) {
+  return (event.ticketTiers?.length ?? 0) > 0;
+}
+
+export function tierIsOpenTo(
+  tier: Pick<IEventTicketTier, "audience">,
+  role?: string
+) {
+  const roles = TIER_AUDIENCE_ROLES[tier.audience];
+  return !roles || (Boolean(role) && roles.includes(role as string));
+}
+
+export function countTierHolders(
+  event: Pick<IEvent, "ticketHolders">,
+  audience: TicketTierAudience
+) {
+  return (event.ticketHolders ?? []).filter((holder) => holder.audience === audience)
+    .length;
+}
+
+/** Tier the user registered with, if the event sells tiers. */
+export function findHeldTier(
+  event: Pick<IEvent, "ticketTiers" | "ticketHolders">,
+  userId: string
+): IEventTicketTier | undefined {
+  const holder = (event.ticketHolders ?? []).find(
+    (entry) => entry.userId === userId.toString()
+  );
+  if (!holder) return undefined;
+  return (event.ticketTiers ?? []).find((tier) => tier.audience === holder.audience);
+}
+
+/**
+ * Picks the tier a new registration is sold at. Without an explicit choice
+ * the only tier open to the user's role is used.
+ */
+export function chooseTicketTier(
+  event: Pick<IEvent, "ticketTiers" | "ticketHolders">,
+  role: string | undefined,
+  requested?: string
+): TierChoice {
+  const tiers = event.ticketTiers ?? [];
+  if (!tiers.length) {
+    return { success: true };
+  }
+
+  const open = tiers.filter((tier) => tierIsOpenTo(tier, role));
+  let tier: IEventTicketTier | undefined;
+
+  if (requested) {
+    tier = tiers.find((candidate) => candidate.audience === requested);
+    if (!tier) {
+      return {
+        success: false,
+        message: `This event does not sell ${requested} tickets.`,
+        statusCode: 400,
+      };
+    }
+    if (!open.includes(tier)) {
+      return {
+        success: false,
+        message: `${tier.audience} tickets are not available to your role (${role ?? "unknown"}).`,
+        statusCode: 403,
+      };
+    }
+  } else if (open.length === 1) {
+    tier = open[0];
+  } else if (open.length === 0) {
+    return {
+      success: false,
+      message: "None of this event's ticket tiers are open to your role.",
+      statusCode: 403,
+    };
+  } else {
+    return {
+      success: false,
+      message: `Choose a ticket tier: ${open.map((entry) => entry.audience).join(", ")}.`,
+      statusCode: 400,
+    };
+  }
+
+  if (
+    typeof tier.capacity === "number" &&
+    tier.capacity > 0 &&
+    countTierHolders(event, tier.audience) >= tier.capacity
+  ) {
+    return {
+      success: false,
+      message: `${tier.audience} tickets are sold out.`,
+      statusCode: 400,
+    };
+  }
+
+  return { success: true, tier };
+}
+
+/** Price before discounts: the tier's when the event sells tiers. */
+export function ticketListPrice(
+  event: Pick<IEvent, "price">,
+  tier?: Pick<IEventTicketTier, "price">
+) {
+  const raw = tier ? tier.price : event.price;
+  return typeof raw === "number" && !Number.isNaN(raw) ? Math.max(raw, 0) : 0;
+}
+
+function parseOptionalNumber(
+  value: unknown,
+  field: string,
+  options: { integer?: boolean; min: number }
+): { success: true; value?: number } | { success: false; message: string } {
+  if (value === undefined || value === null || value === "") {
+    return { success: true };
+  }
+  const parsed = Number(value);
+  if (
+    !Number.isFinite(parsed) ||
+    parsed < options.min ||
+    (options.integer && !Number.isInteger(parsed))
+  ) {
+    return {
+      success: false,
+      message: options.integer
+        ? `${field} must be a whole number of at least ${options.min}.`
+        : `${field} must be ${options.min} or more.`,
+    };
+  }
+  return { success: true, value: parsed };
+}
+
+export function parseRegistrationSettings(
+  input: unknown
+):
+  | { success: true; settings: RegistrationSettings }
+  | { success: false; message: string } {
+  if (!input || typeof input !== "object") {
+    return { success: false, message: "Registration settings are required." };
+  }
+
+  const { registrationEnabled, capacity, price, ticketTiers } = input as {
+    registrationEnabled?: unknown;
+    capacity?: unknown;
+    price?: unknown;
+    ticketTiers?: unknown;
+  };
+
+  if (typeof registrationEnabled !== "boolean") {
+    return { success: false, message: "registrationEnabled must be true or false." };
+  }
+
+  const parsedCapacity = parseOptionalNumber(capacity, "capacity", {
+    integer: true,
+    min: 1,
+  });
+  if (!parsedCapacity.success) return parsedCapacity;
+  const parsedPrice = parseOptionalNumber(price, "price", { min: 0 });
+  if (!parsedPrice.success) return parsedPrice;
+
+  if (ticketTiers !== undefined && ticketTiers !== null && !Array.isArray(ticketTiers)) {
+    return { success: false, message: "ticketTiers must be an array." };
+  }
+
+  const tiers: IEventTicketTier[] = [];
+  for (const entry of (ticketTiers as unknown[] | null | undefined) ?? []) {
+    const { audience, price: tierPrice, capacity: tierCapacity } = (entry ?? {}) as {
+      audience?: unknown;
+      price?: unknown;
+      capacity?: unknown;
+    };
+    if (!TIER_AUDIENCES.includes(audience as TicketTierAudience)) {
+      return {
+        success: false,
+        message: `Ticket tier audience must be one of: ${TIER_AUDIENCES.join(", ")}.`,
+      };
+    }
+    if (tiers.some((tier) => tier.audience === audience)) {
+      return {
+        success: false,
+        message: `Only one ${audience as string} ticket tier is allowed.`,
+      };
+    }
+    if (tierPrice === undefined || tierPrice === null || tierPrice === "") {
+      return { success: false, message: `${audience as string} tickets need a price.` };
+    }
+    const parsedTierPrice = parseOptionalNumber(tierPrice, `${audience as string} price`, {
+      min: 0,
+    });
+    if (!parsedTierPrice.success) return parsedTierPrice;
+    const parsedTierCapacity = parseOptionalNumber(
+      tierCapacity,
+      `${audience as string} capacity`,
+      { integer: true, min: 1 }
+    );
+    if (!parsedTierCapacity.success) return parsedTierCapacity;
+
+    tiers.push({
+      audience: audience as TicketTierAudience,
+      price: parsedTierPrice.value ?? 0,
+      ...(parsedTierCapacity.value !== undefined
+        ? { capacity: parsedTierCapacity.value }
+        : {}),
+    });
+  }
+
+  return {
+    success: true,
+    settings: {
+      registrationEnabled,
+      capacity: parsedCapacity.value,
+      price: parsedPrice.value,
+      ticketTiers: tiers,
+    },
+  };
+}
+
+function toSettingsData(
+  event: Pick<
+    IEvent,
+    "registrationEnabled" | "capacity" | "price" | "ticketTiers" | "ticketHolders" | "registeredUsers"
+  >
+): RegistrationSettingsData {
+  return {
+    registrationEnabled: Boolean(event.registrationEnabled),
+    capacity: event.capacity ?? undefined,
+    price: event.price ?? undefined,
+    registeredCount: event.registeredUsers?.length ?? 0,
+    ticketTiers: (event.ticketTiers ?? []).map((tier) => ({
+      audience: tier.audience,
+      price: tier.price,
+      capacity: tier.capacity ?? undefined,
+      sold: countTierHolders(event, tier.audience),
+    })),
+  };
+}
+
+/** Opens or closes registration on a seminar or conference and sets its tiers. */
+export async function updateEventRegistrationSettings(
+  eventId: string,
+  input: unknown
+): Promise<ServiceResponse<RegistrationSettingsData>> {
+  try {
+    if (!Types.ObjectId.isValid(eventId)) {
+      return { success: false, message: "Invalid event ID.", statusCode: 400 };
+    }
+
+    const event = await EventModel.findById(eventId);
+    if (!event) {
+      return { success: false, message: "Event not found.", statusCode: 404 };
+    }
+    if (!OPT_IN_REGISTRATION_TYPES.includes(event.eventType)) {
+      return {
+        success: false,
+        message: "Registration settings only apply to seminars and conferences.",
+        statusCode: 400,
+      };
+    }
+
+    const parsed = parseRegistrationSettings(input);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+    const { settings } = parsed;
+
+    const registeredCount = event.registeredUsers?.length ?? 0;
+    if (settings.capacity !== undefined && settings.capacity < registeredCount) {
+      return {
+        success: false,
+        message: `${registeredCount} people are already registered; capacity cannot be lower.`,
+        statusCode: 409,
+      };
+    }
+    if (event.venueId && settings.capacity !== undefined) {
+      // Only the room size matters here; the dates are not changing
+      const venueCheck = await checkEventVenue({
+        venueId: event.venueId,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        capacity: settings.capacity,
+        excludeEventId: event._id.toString(),
+        allowDoubleBooking: true,
+      });
+      if (!venueCheck.success) return venueCheck;
+    }
+    for (const audience of TIER_AUDIENCES) {
+      const sold = countTierHolders(event, audience);
+      if (!sold) continue;
+      const tier = settings.ticketTiers.find((entry) => entry.audience === audience);
+      if (!tier) {
+        return {
+          success: false,
+          message: `${sold} ${audience} tickets were already sold, so that tier must stay.`,
+          statusCode: 409,
+        };
+      }
+      if (tier.capacity !== undefined && tier.capacity < sold) {
+        return {
+          success: false,
+          message: `${sold} ${audience} tickets were already sold; the tier capacity cannot be lower.`,
+          statusCode: 409,
+        };
+      }
+    }
+
+    event.registrationEnabled = settings.registrationEnabled;
+    event.capacity = settings.capacity;
+    event.price = settings.price;
+    event.ticketTiers = settings.ticketTiers.length ? settings.ticketTiers : undefined;
+    await event.save();
+
+    return {
+      success: true,
+      message: settings.registrationEnabled
+        ? "Registration is open for this event."
+        : "Registration is closed for this event.",
+      data: toSettingsData(event),
+    };
+  } catch (error) {
+    console.error("Error updating registration settings:", error);
+    return {
+      success: false,
+      message: "Failed to update registration settings.",
+      statusCode: 500,
+    };
+  }
+}
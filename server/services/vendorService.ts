@@ -24,6 +24,21 @@ import {
   notifyUsersOfNewLoyaltyPartner,
   notifyAdminsOfPendingVendors,
 } from "./notificationService";
+import {
+  discountLimitsSchema,
+  isDiscountCodeTaken,
+  LOYALTY_CODE_GRACE_DAYS,
+  normalizeDiscountCode,
+  validUntilAfterValidFrom,
+} from "./discountService";
+import { getBoothReleaseDate } from "./boothPaymentScheduler";
+import { getCampusCurrency } from "./campusService";
+import {
+  buildVendorPaymentInvoice,
+  hasVendorCreditNote,
+  hasVendorInvoice,
+  renderInvoiceAttachment,
+} from "./invoiceService";
 import crypto from "node:crypto";
 import Stripe from "stripe";
 
@@ -109,23 +124,28 @@ const loyaltyDiscountSchema = z.preprocess(
     .max(100, { message: "Discount rate cannot exceed 100%." })
 );
 
-const loyaltyProgramApplicationSchema = z.object({
-  discountRate: loyaltyDiscountSchema,
-  promoCode: z
-    .string()
-    .trim()
-    .min(3, { message: "Promo code must be at least 3 characters." })
-    .max(32, { message: "Promo code must be at most 32 characters." }),
-  termsAndConditions: z
-    .string()
-    .trim()
-    .min(20, {
-      message: "Terms and conditions must be at least 20 characters long.",
-    })
-    .max(2000, {
-      message: "Terms and conditions cannot exceed 2000 characters.",
-    }),
-});
+const loyaltyProgramApplicationSchema = discountLimitsSchema
+  .extend({
+    discountRate: loyaltyDiscountSchema,
+    promoCode: z
+      .string()
+      .trim()
+      .min(3, { message: "Promo code must be at least 3 characters." })
+      .max(32, { message: "Promo code must be at most 32 characters." }),
+    termsAndConditions: z
+      .string()
+      .trim()
+      .min(20, {
+        message: "Terms and conditions must be at least 20 characters long.",
+      })
+      .max(2000, {
+        message: "Terms and conditions cannot exceed 2000 characters.",
+      }),
+  })
+  .refine(validUntilAfterValidFrom, {
+    message: "The end date must be after the start date.",
+    path: ["validUntil"],
+  });
 
 // type LoyaltyProgramApplicationData = z.infer<
 //   typeof loyaltyProgramApplicationSchema
@@ -133,10 +153,6 @@ const loyaltyProgramApplicationSchema = z.object({
 
 type FieldErrors = Record<string, string[]>;
 
-function sanitizePromoCode(value: string): string {
-  return value.trim().replace(/\s+/g, "-").toUpperCase();
-}
-
 const VALID_BOOTH_SIZES = new Map<string, BazaarBoothSize>(
   Object.values(BazaarBoothSize).map((size) => [size.toLowerCase(), size])
 );
@@ -218,6 +234,11 @@ function serializeLoyaltyProgram(loyalty?: LoyaltyProgramDetails | null):
     status: loyalty.status,
     appliedAt: loyalty.appliedAt,
     cancelledAt: loyalty.cancelledAt,
+    validFrom: loyalty.validFrom,
+    validUntil: loyalty.validUntil,
+    maxRedemptions: loyalty.maxRedemptions,
+    perUserLimit: loyalty.perUserLimit,
+    codeExpiresAt: loyalty.codeExpiresAt,
   };
 }
 
@@ -227,12 +248,12 @@ export async function findAll() {
   return vendorModel.find().lean();
 }
 
-async function notifyAdminsAboutPendingTotal() {
+async function notifyAdminsAboutPendingTotal(vendorId?: string) {
   const pendingCount = await vendorModel.countDocuments({
     verificationStatus: VendorStatus.PENDING,
   });
   if (pendingCount > 0) {
-    await notifyAdminsOfPendingVendors(pendingCount);
+    await notifyAdminsOfPendingVendors(pendingCount, vendorId);
   }
 }
 
@@ -260,7 +281,6 @@ const BAZAAR_FEE_TABLE: Record<Location, Record<BazaarBoothSize, number>> = {
   },
 };
 
-const PAYMENT_CURRENCY = "EGP";
 
 function generateReceiptNumber(): string {
   const random = crypto.randomBytes(4).toString("hex").toUpperCase();
@@ -304,7 +324,7 @@ function buildPaymentRecord(
 
   return {
     amount,
-    currency: PAYMENT_CURRENCY,
+    currency: getCampusCurrency(event.location),
     status: "pending",
     dueDate,
   };
@@ -385,7 +405,7 @@ export async function signup(vendorData: vendorSignupData) {
   await vendor.save();
 
   if (vendor.verificationStatus === VendorStatus.PENDING) {
-    await notifyAdminsAboutPendingTotal();
+    await notifyAdminsAboutPendingTotal(String(vendor._id));
   }
 
   // Return vendor without password
@@ -763,7 +783,6 @@ export async function getVendorApplications(vendorId: string) {
           location?: string;
           eventType?: EventType;
         }>();
-        const resolvedPaymentStatus = resolvePaymentStatus(app.payment);
         return {
           eventId: app.eventId.toString(),
           eventName: event?.name || "Unknown Event",
@@ -780,17 +799,7 @@ export async function getVendorApplications(vendorId: string) {
           boothEndTime: app.boothInfo?.boothEndTime,
           boothDurationWeeks: app.boothInfo?.boothDurationWeeks,
           hasPaid: Boolean(app.hasPaid),
-          payment: app.payment
-            ? {
-                amount: app.payment.amount,
-                currency: app.payment.currency,
-                status: resolvedPaymentStatus,
-                dueDate: app.payment.dueDate,
-                paidAt: app.payment.paidAt,
-                receiptNumber: app.payment.receiptNumber,
-                transactionReference: app.payment.transactionReference,
-              }
-            : undefined,
+          payment: serializeApplicationPayment(app.payment),
           qrCodes: app.qrCodes ?? [],
         };
       })
@@ -817,8 +826,8 @@ function resolvePaymentStatus(
     return undefined;
   }
 
-  if (payment.status === "paid") {
-    return "paid";
+  if (payment.status === "paid" || payment.status === "refunded") {
+    return payment.status;
   }
 
   if (payment.dueDate && payment.dueDate.getTime() < Date.now()) {
@@ -828,6 +837,39 @@ function resolvePaymentStatus(
   return "pending";
 }
 
+// Shared by the vendor and admin views; releaseAfter is when the scheduler gives an unpaid booth back
+function serializeApplicationPayment(payment?: ApplicationPayment) {
+  if (!payment) {
+    return undefined;
+  }
+
+  const isUnpaid = payment.status !== "paid" && payment.status !== "refunded";
+
+  return {
+    amount: payment.amount,
+    currency: payment.currency,
+    status: resolvePaymentStatus(payment),
+    dueDate: payment.dueDate,
+    paidAt: payment.paidAt,
+    receiptNumber: payment.receiptNumber,
+    transactionReference: payment.transactionReference,
+    failureReason: payment.failureReason,
+    failedAt: payment.failedAt,
+    refundAmount: payment.refundAmount,
+    refundedAt: payment.refundedAt,
+    reminderSentAt: payment.reminderSentAt,
+    overdueAt: payment.overdueAt,
+    releasedAt: payment.releasedAt,
+    releaseAfter:
+      isUnpaid && !payment.releasedAt && payment.dueDate
+        ? getBoothReleaseDate(payment.dueDate)
+        : undefined,
+    deadlineExtensions: payment.deadlineExtensions ?? [],
+    hasInvoice: hasVendorInvoice(payment),
+    hasCreditNote: hasVendorCreditNote(payment),
+  };
+}
+
 export async function updateBazaarApplicationStatus(options: {
   vendorId: string;
   eventId: string;
@@ -957,6 +999,123 @@ export async function updateBazaarApplicationStatus(options: {
   }
 }
 
+/** Admin override: moves an unpaid booth's due date and restarts the reminder/overdue steps. */
+export async function extendApplicationPaymentDeadline(options: {
+  vendorId: string;
+  eventId: string;
+  dueDate: Date;
+  reason?: string;
+  extendedBy?: string;
+}): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+}> {
+  try {
+    const { vendorId, eventId, dueDate, reason, extendedBy } = options;
+
+    if (!Types.ObjectId.isValid(vendorId) || !Types.ObjectId.isValid(eventId)) {
+      return {
+        success: false,
+        message: "Invalid vendor or event identifier provided.",
+        statusCode: 400,
+      };
+    }
+
+    if (Number.isNaN(dueDate.getTime()) || dueDate.getTime() <= Date.now()) {
+      return {
+        success: false,
+        message: "The new due date must be in the future.",
+        statusCode: 400,
+      };
+    }
+
+    const [vendor, event] = await Promise.all([
+      vendorModel.findById(vendorId),
+      EventModel.findById(eventId).select("name"),
+    ]);
+
+    if (!vendor) {
+      return { success: false, message: "Vendor not found", statusCode: 404 };
+    }
+
+    const application = getVendorApplicationsArray(vendor).find(
+      (app) => app.eventId.toString() === eventId
+    );
+
+    if (!application) {
+      return { success: false, message: "Application not found", statusCode: 404 };
+    }
+
+    const payment = application.payment;
+
+    if (payment?.releasedAt) {
+      return {
+        success: false,
+        message: "This booth was already released for non-payment.",
+        statusCode: 409,
+      };
+    }
+
+    if (
+      application.status !== VendorStatus.APPROVED ||
+      !payment ||
+      payment.status === "paid" ||
+      payment.status === "refunded"
+    ) {
+      return {
+        success: false,
+        message: "Only unpaid approved applications have a payment deadline.",
+        statusCode: 400,
+      };
+    }
+
+    const trimmedReason = reason?.trim() || undefined;
+    payment.deadlineExtensions = [
+      ...(payment.deadlineExtensions ?? []),
+      {
+        previousDueDate: payment.dueDate,
+        dueDate,
+        extendedAt: new Date(),
+        extendedBy,
+        reason: trimmedReason,
+      },
+    ];
+    payment.dueDate = dueDate;
+    payment.status = "pending";
+    payment.reminderSentAt = undefined;
+    payment.overdueAt = undefined;
+
+    sanitizeVendorApplicationsBoothSizes(vendor);
+    vendor.markModified("applications");
+    await vendor.save();
+
+    try {
+      await emailService.sendVendorPaymentDeadlineExtended({
+        vendorEmail: vendor.email,
+        vendorCompany: vendor.companyName,
+        eventName: event?.name ?? "your event",
+        dueDate,
+        reason: trimmedReason,
+      });
+    } catch (emailError) {
+      console.error("Failed to send payment deadline email:", emailError);
+    }
+
+    return {
+      success: true,
+      message: "Payment deadline extended.",
+    };
+  } catch (error) {
+    console.error("Error extending payment deadline:", error);
+    return {
+      success: false,
+      message: "Failed to extend payment deadline",
+      statusCode: 500,
+    };
+  }
+}
+
 export async function recordVendorPayment(options: {
   vendorId: string;
   eventId: string;
@@ -1010,7 +1169,7 @@ export async function recordVendorPayment(options: {
 
     if (application.payment) {
       application.payment.amount = BAZAAR_FIXED_FEE;
-      application.payment.currency = PAYMENT_CURRENCY;
+      application.payment.currency = getCampusCurrency(event.location);
     }
 
     if (application.payment.status === "paid") {
@@ -1046,11 +1205,12 @@ export async function recordVendorPayment(options: {
       };
     }
 
-    const paymentCurrency = application.payment.currency ?? PAYMENT_CURRENCY;
-    if (paymentCurrency !== PAYMENT_CURRENCY) {
+    const expectedCurrency = getCampusCurrency(event.location);
+    const paymentCurrency = application.payment.currency ?? expectedCurrency;
+    if (paymentCurrency !== expectedCurrency) {
       return {
         success: false,
-        message: `Unsupported payment currency '${paymentCurrency}'. Expected ${PAYMENT_CURRENCY}.`,
+        message: `Unsupported payment currency '${paymentCurrency}'. Expected ${expectedCurrency}.`,
       };
     }
 
@@ -1076,6 +1236,15 @@ export async function recordVendorPayment(options: {
     vendor.markModified("applications");
     await vendor.save();
 
+    const invoice = await renderInvoiceAttachment(
+      buildVendorPaymentInvoice({
+        payment: application.payment,
+        vendor,
+        eventName: event.name,
+        boothSize: application.boothSize,
+      })
+    );
+
     await Promise.all([
       emailService.sendVendorPaymentReceipt({
         vendorEmail: vendor.email,
@@ -1087,6 +1256,7 @@ export async function recordVendorPayment(options: {
         paidAt,
         dueDate: application.payment.dueDate,
         transactionReference,
+        invoice,
       }),
       emailService.sendVendorVisitorQrCodes({
         vendorEmail: vendor.email,
@@ -1173,7 +1343,7 @@ export async function createVendorStripePaymentIntent(options: {
 
     if (application.payment) {
       application.payment.amount = BAZAAR_FIXED_FEE;
-      application.payment.currency = PAYMENT_CURRENCY;
+      application.payment.currency = getCampusCurrency(event.location);
     }
 
     if (!application.payment) {
@@ -1184,7 +1354,10 @@ export async function createVendorStripePaymentIntent(options: {
       };
     }
 
-    if (application.payment.status === "paid") {
+    if (
+      application.payment.status === "paid" ||
+      application.payment.status === "refunded"
+    ) {
       return {
         success: false,
         message: "Payment has already been recorded for this application.",
@@ -1193,7 +1366,7 @@ export async function createVendorStripePaymentIntent(options: {
     }
 
     application.payment.currency =
-      (application.payment.currency || PAYMENT_CURRENCY).toUpperCase();
+      (application.payment.currency || getCampusCurrency(event.location)).toUpperCase();
 
     const amount = Number(application.payment.amount ?? 0);
     if (!Number.isFinite(amount) || amount <= 0) {
@@ -1204,7 +1377,7 @@ export async function createVendorStripePaymentIntent(options: {
       };
     }
 
-    const currency = (application.payment.currency || PAYMENT_CURRENCY).toLowerCase();
+    const currency = (application.payment.currency || getCampusCurrency(event.location)).toLowerCase();
 
     const paymentIntent = await stripeClient.paymentIntents.create({
       amount: Math.round(amount * 100),
@@ -1278,44 +1451,6 @@ export async function finalizeVendorStripePayment(options: {
       };
     }
 
-    const [vendor, event] = await Promise.all([
-      vendorModel.findById(vendorId),
-      EventModel.findById(eventId),
-    ]);
-
-    if (!vendor) {
-      return { success: false, message: "Vendor not found", statusCode: 404 };
-    }
-
-    if (!event) {
-      return { success: false, message: "Event not found", statusCode: 404 };
-    }
-
-    const application = getVendorApplicationsArray(vendor).find(
-      (app) => app.eventId.toString() === eventId
-    );
-
-    if (!application) {
-      return { success: false, message: "Application not found", statusCode: 404 };
-    }
-
-    if (application.payment?.status === "paid") {
-      return {
-        success: true,
-        message: "Payment already recorded.",
-        statusCode: 200,
-      };
-    }
-
-    if (!application.payment) {
-      application.payment = buildPaymentRecord(event, application);
-    }
-
-    if (application.payment) {
-      application.payment.amount = BAZAAR_FIXED_FEE;
-      application.payment.currency = PAYMENT_CURRENCY;
-    }
-
     const paymentIntent = await stripeClient.paymentIntents.retrieve(paymentIntentId);
 
     if (
@@ -1340,65 +1475,280 @@ export async function finalizeVendorStripePayment(options: {
       };
     }
 
-    if (paymentIntent.status !== "succeeded") {
+    return await applyVendorPaymentIntent(vendorId, eventId, paymentIntent);
+  } catch (error) {
+    console.error("Error finalizing vendor Stripe payment:", error);
+    return {
+      success: false,
+      message: "Failed to confirm Stripe payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+export function isVendorPaymentIntent(paymentIntent: Stripe.PaymentIntent) {
+  return Boolean(
+    paymentIntent.metadata?.vendorId && paymentIntent.metadata?.eventId
+  );
+}
+
+/**
+ * Records a succeeded booth fee intent reported by the Stripe webhook. Safe to
+ * call after the browser already confirmed the payment.
+ */
+export async function reconcileVendorPaymentIntent(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+}> {
+  try {
+    const vendorId = paymentIntent.metadata?.vendorId ?? "";
+    const eventId = paymentIntent.metadata?.eventId ?? "";
+    if (!Types.ObjectId.isValid(vendorId) || !Types.ObjectId.isValid(eventId)) {
       return {
         success: false,
-        message: "Stripe payment has not completed.",
+        message: "Payment intent is not linked to a vendor application.",
         statusCode: 400,
       };
     }
 
-    const amountReceived =
-      typeof paymentIntent.amount_received === "number"
-        ? paymentIntent.amount_received
-        : typeof paymentIntent.amount === "number"
-          ? paymentIntent.amount
-          : 0;
+    return await applyVendorPaymentIntent(vendorId, eventId, paymentIntent);
+  } catch (error) {
+    console.error("Error reconciling vendor Stripe payment:", error);
+    return {
+      success: false,
+      message: "Failed to reconcile Stripe payment.",
+      statusCode: 500,
+    };
+  }
+}
+
+async function applyVendorPaymentIntent(
+  vendorId: string,
+  eventId: string,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+}> {
+  const [vendor, event] = await Promise.all([
+    vendorModel.findById(vendorId),
+    EventModel.findById(eventId),
+  ]);
+
+  if (!vendor) {
+    return { success: false, message: "Vendor not found", statusCode: 404 };
+  }
+
+  if (!event) {
+    return { success: false, message: "Event not found", statusCode: 404 };
+  }
+
+  const application = getVendorApplicationsArray(vendor).find(
+    (app) => app.eventId.toString() === eventId
+  );
+
+  if (!application) {
+    return { success: false, message: "Application not found", statusCode: 404 };
+  }
+
+  if (
+    application.payment?.status === "paid" ||
+    application.payment?.status === "refunded"
+  ) {
+    return {
+      success: true,
+      message: "Payment already recorded.",
+      statusCode: 200,
+    };
+  }
+
+  if (!application.payment) {
+    application.payment = buildPaymentRecord(event, application);
+  }
+
+  if (application.payment) {
+    application.payment.amount = BAZAAR_FIXED_FEE;
+    application.payment.currency = getCampusCurrency(event.location);
+  }
+
+  if (paymentIntent.status !== "succeeded") {
+    return {
+      success: false,
+      message: "Stripe payment has not completed.",
+      statusCode: 400,
+    };
+  }
+
+  const amountReceived =
+    typeof paymentIntent.amount_received === "number"
+      ? paymentIntent.amount_received
+      : typeof paymentIntent.amount === "number"
+        ? paymentIntent.amount
+        : 0;
+
+  const expectedAmount = application.payment?.amount ?? 0;
+  const expectedCurrency = (application.payment?.currency || getCampusCurrency(event.location)).toLowerCase();
+
+  if (paymentIntent.currency && paymentIntent.currency.toLowerCase() !== expectedCurrency) {
+    return {
+      success: false,
+      message: "Payment currency did not match the expected booth fee currency.",
+      statusCode: 400,
+    };
+  }
+
+  if (!Number.isFinite(expectedAmount) || expectedAmount <= 0) {
+    return {
+      success: false,
+      message: "Invalid booth fee amount for this application.",
+      statusCode: 400,
+    };
+  }
+
+  if (Math.round(expectedAmount * 100) > amountReceived) {
+    return {
+      success: false,
+      message: "Received payment is less than the required booth fee.",
+      statusCode: 400,
+    };
+  }
+
+  const paymentResult = await recordVendorPayment({
+    vendorId,
+    eventId,
+    amountPaid: expectedAmount,
+    transactionReference: paymentIntent.id,
+  });
 
-    const expectedAmount = application.payment?.amount ?? 0;
-    const expectedCurrency = (application.payment?.currency || PAYMENT_CURRENCY).toLowerCase();
+  return {
+    success: paymentResult.success,
+    message: paymentResult.message,
+    statusCode: paymentResult.success ? 200 : 400,
+  };
+}
 
-    if (paymentIntent.currency && paymentIntent.currency.toLowerCase() !== expectedCurrency) {
+/** Keeps the last declined attempt on the application so the vendor can see why. */
+export async function recordVendorPaymentFailure(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+}> {
+  try {
+    const vendorId = paymentIntent.metadata?.vendorId ?? "";
+    const eventId = paymentIntent.metadata?.eventId ?? "";
+    if (!Types.ObjectId.isValid(vendorId) || !Types.ObjectId.isValid(eventId)) {
       return {
         success: false,
-        message: "Payment currency did not match the expected booth fee currency.",
+        message: "Payment intent is not linked to a vendor application.",
         statusCode: 400,
       };
     }
 
-    if (!Number.isFinite(expectedAmount) || expectedAmount <= 0) {
-      return {
-        success: false,
-        message: "Invalid booth fee amount for this application.",
-        statusCode: 400,
-      };
+    const vendor = await vendorModel.findById(vendorId);
+    const application = vendor
+      ? getVendorApplicationsArray(vendor).find(
+          (app) => app.eventId.toString() === eventId
+        )
+      : undefined;
+
+    if (!vendor || !application?.payment) {
+      return { success: false, message: "Application not found", statusCode: 404 };
     }
 
-    if (Math.round(expectedAmount * 100) > amountReceived) {
+    if (application.payment.status === "paid") {
       return {
-        success: false,
-        message: "Received payment is less than the required booth fee.",
-        statusCode: 400,
+        success: true,
+        message: "Application is already paid.",
       };
     }
 
-    const paymentResult = await recordVendorPayment({
-      vendorId,
-      eventId,
-      amountPaid: expectedAmount,
-      transactionReference: paymentIntent.id,
+    application.payment.failureReason =
+      paymentIntent.last_payment_error?.message ?? "The card payment was declined.";
+    application.payment.failedAt = new Date();
+    vendor.markModified("applications");
+    await vendor.save();
+
+    return {
+      success: true,
+      message: "Payment failure recorded.",
+    };
+  } catch (error) {
+    console.error("Error recording vendor payment failure:", error);
+    return {
+      success: false,
+      message: "Failed to record payment failure.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Applies refunds issued from the Stripe dashboard. A full refund marks the
+ * booth fee as refunded; partial refunds only adjust the recorded amount.
+ */
+export async function reconcileVendorChargeRefund(charge: Stripe.Charge): Promise<{
+  success: boolean;
+  message: string;
+  statusCode?: number;
+}> {
+  try {
+    const paymentIntentId =
+      typeof charge.payment_intent === "string"
+        ? charge.payment_intent
+        : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+      return { success: false, message: "Charge has no payment intent.", statusCode: 400 };
+    }
+
+    const vendor = await vendorModel.findOne({
+      "applications.payment.transactionReference": paymentIntentId,
     });
+    const application = vendor
+      ? getVendorApplicationsArray(vendor).find(
+          (app) => app.payment?.transactionReference === paymentIntentId
+        )
+      : undefined;
+
+    if (!vendor || !application?.payment) {
+      return { success: false, message: "Application not found", statusCode: 404 };
+    }
+
+    const refunded = charge.amount_refunded / 100;
+    const delta = refunded - (application.payment.refundAmount ?? 0);
+    if (delta <= 0) {
+      return { success: true, message: "Refund already recorded." };
+    }
+
+    application.payment.refundAmount = refunded;
+    application.payment.refundedAt = new Date();
+    if (charge.refunded) {
+      application.payment.status = "refunded";
+    }
+    vendor.markModified("applications");
+    await vendor.save();
+
+    await EventModel.updateOne(
+      { _id: application.eventId },
+      { $inc: { revenue: -delta } }
+    );
 
     return {
-      success: paymentResult.success,
-      message: paymentResult.message,
-      statusCode: paymentResult.success ? 200 : 400,
+      success: true,
+      message: charge.refunded
+        ? "Booth fee marked as refunded."
+        : "Partial booth fee refund recorded.",
     };
   } catch (error) {
-    console.error("Error finalizing vendor Stripe payment:", error);
+    console.error("Error reconciling vendor refund:", error);
     return {
       success: false,
-      message: "Failed to confirm Stripe payment.",
+      message: "Failed to reconcile refund.",
       statusCode: 500,
     };
   }
@@ -1551,10 +1901,6 @@ export async function findAllForAdmin(): Promise<{
               .select("name eventType startDate endDate location")
               .lean<{ name: string; eventType?: EventType; startDate?: Date; endDate?: Date; location?: string }>();
 
-            const resolvedPaymentStatus = resolvePaymentStatus(
-              application.payment
-            );
-
             return {
               eventId: application.eventId.toString(),
               eventName: event?.name || "Unknown Event",
@@ -1570,18 +1916,7 @@ export async function findAllForAdmin(): Promise<{
               boothEndTime: application.boothInfo?.boothEndTime,
               boothDurationWeeks: application.boothInfo?.boothDurationWeeks,
               hasPaid: Boolean(application.hasPaid),
-              payment: application.payment
-                ? {
-                    amount: application.payment.amount,
-                    currency: application.payment.currency,
-                    status: resolvedPaymentStatus,
-                    dueDate: application.payment.dueDate,
-                    paidAt: application.payment.paidAt,
-                    receiptNumber: application.payment.receiptNumber,
-                    transactionReference:
-                      application.payment.transactionReference,
-                  }
-                : undefined,
+              payment: serializeApplicationPayment(application.payment),
               qrCodes: application.qrCodes ?? [],
             };
           })
@@ -1909,15 +2244,29 @@ export async function applyToLoyaltyProgram(
 
     const previouslyActive = existingVendor.loyaltyProgram?.status === "active";
 
-    const normalizedPromo = sanitizePromoCode(parsed.data.promoCode);
+    const normalizedPromo = normalizeDiscountCode(parsed.data.promoCode);
     const normalizedTerms = parsed.data.termsAndConditions.trim();
 
+    if (await isDiscountCodeTaken(normalizedPromo, { vendorId })) {
+      return {
+        success: false,
+        message: "Invalid loyalty program submission",
+        issues: {
+          promoCode: ["This promo code is already used by another offer."],
+        },
+      };
+    }
+
     existingVendor.loyaltyProgram = {
       discountRate: parsed.data.discountRate,
       promoCode: normalizedPromo,
       termsAndConditions: normalizedTerms,
       status: "active" as LoyaltyProgramStatus,
       appliedAt: new Date(),
+      validFrom: parsed.data.validFrom ?? undefined,
+      validUntil: parsed.data.validUntil ?? undefined,
+      maxRedemptions: parsed.data.maxRedemptions ?? undefined,
+      perUserLimit: parsed.data.perUserLimit ?? undefined,
     };
 
     await existingVendor.save();
@@ -1971,8 +2320,13 @@ export async function cancelLoyaltyProgram(
       };
     }
 
+    const cancelledAt = new Date();
     vendor.loyaltyProgram.status = "cancelled";
-    vendor.loyaltyProgram.cancelledAt = new Date();
+    vendor.loyaltyProgram.cancelledAt = cancelledAt;
+    // Shoppers who already have the code get a grace period before it stops working
+    vendor.loyaltyProgram.codeExpiresAt = new Date(
+      cancelledAt.getTime() + LOYALTY_CODE_GRACE_DAYS * 24 * 60 * 60 * 1000
+    );
     vendor.markModified("loyaltyProgram");
     await vendor.save();
 
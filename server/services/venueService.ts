@@ -0,0 +1,513 @@
+import { Types } from "mongoose";
+import VenueModel, { IVenue, VenueKind } from "../models/Venue";
+import EventModel, { EventType, IEvent, Location, WorkshopStatus } from "../models/Event";
+import { findClashes } from "./agendaService";
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+export type VenueInput = {
+  name: string;
+  kind: VenueKind;
+  campus: Location;
+  building?: string;
+  capacity: number;
+  equipment: string[];
+  notes?: string;
+};
+
+export type VenueBooking = {
+  eventId: string;
+  name: string;
+  eventType: EventType;
+  startDate: Date;
+  endDate: Date;
+  capacity?: number;
+  clashesWith: string[]; // ids of other bookings in the same room that overlap
+};
+
+export type VenueCalendar = {
+  venue: VenueWithId;
+  from: Date;
+  to: Date;
+  bookings: VenueBooking[];
+};
+
+export type VenueCheckInput = {
+  venueId?: unknown;
+  location?: Location;
+  startDate: Date;
+  endDate: Date;
+  capacity?: number;
+  excludeEventId?: string;
+  allowDoubleBooking?: unknown;
+};
+
+export type VenueCheckResult =
+  | { success: true; venue?: VenueWithId; warning?: string }
+  | { success: false; message: string; statusCode: number; conflicts?: VenueBooking[] };
+
+type VenueWithId = IVenue & { _id: Types.ObjectId };
+type EventWithId = IEvent & { _id: Types.ObjectId };
+
+const MAX_NAME_LENGTH = 100;
+const MAX_CALENDAR_DAYS = 62;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rejected workshop proposals never happen, so they do not hold the room
+const ACTIVE_BOOKING_FILTER = { workshopStatus: { $ne: WorkshopStatus.REJECTED } };
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parseEquipment(value: unknown) {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  const equipment: string[] = [];
+  for (const entry of raw) {
+    const item = typeof entry === "string" ? entry.trim() : "";
+    if (item && !equipment.some((existing) => existing.toLowerCase() === item.toLowerCase())) {
+      equipment.push(item);
+    }
+  }
+  return equipment;
+}
+
+export function parseVenueInput(
+  input: unknown
+): { success: true; venue: VenueInput } | { success: false; message: string } {
+  if (!input || typeof input !== "object") {
+    return { success: false, message: "Venue details are required." };
+  }
+
+  const { name, kind, campus, building, capacity, equipment, notes } = input as Record<
+    string,
+    unknown
+  >;
+
+  const parsedName = optionalText(name);
+  if (!parsedName) {
+    return { success: false, message: "Venue name is required." };
+  }
+  if (parsedName.length > MAX_NAME_LENGTH) {
+    return {
+      success: false,
+      message: `Venue name must be at most ${MAX_NAME_LENGTH} characters.`,
+    };
+  }
+  if (!Object.values(VenueKind).includes(kind as VenueKind)) {
+    return { success: false, message: "Venue type must be a hall, lab, classroom or outdoor area." };
+  }
+  if (!Object.values(Location).includes(campus as Location)) {
+    return { success: false, message: "Campus is invalid." };
+  }
+
+  const parsedCapacity = Number(capacity);
+  if (!Number.isInteger(parsedCapacity) || parsedCapacity < 1) {
+    return { success: false, message: "Capacity must be a whole number of at least 1." };
+  }
+
+  return {
+    success: true,
+    venue: {
+      name: parsedName,
+      kind: kind as VenueKind,
+      campus: campus as Location,
+      building: optionalText(building),
+      capacity: parsedCapacity,
+      equipment: parseEquipment(equipment),
+      notes: optionalText(notes),
+    },
+  };
+}
+
+function toBooking(event: EventWithId, clashesWith: string[] = []): VenueBooking {
+  return {
+    eventId: event._id.toString(),
+    name: event.name,
+    eventType: event.eventType,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    capacity: event.capacity,
+    clashesWith,
+  };
+}
+
+/** Events already holding the room at any point between `start` and `end`. */
+export async function findVenueConflicts(
+  venueId: string,
+  start: Date,
+  end: Date,
+  excludeEventId?: string
+): Promise<VenueBooking[]> {
+  const filter: Record<string, unknown> = {
+    ...ACTIVE_BOOKING_FILTER,
+    venueId,
+    startDate: { $lt: end },
+    endDate: { $gt: start },
+  };
+  if (excludeEventId && Types.ObjectId.isValid(excludeEventId)) {
+    filter._id = { $ne: new Types.ObjectId(excludeEventId) };
+  }
+
+  const events = await EventModel.find(filter)
+    .sort({ startDate: 1 })
+    .lean<EventWithId[]>();
+  return events.map((event) => toBooking(event));
+}
+
+function describeConflicts(conflicts: VenueBooking[]) {
+  return conflicts
+    .map((conflict) => `${conflict.name} (${conflict.startDate.toISOString()})`)
+    .join(", ");
+}
+
+/**
+ * Validates the room an event is being created or moved into: it must exist,
+ * be on the event's campus and hold the event's capacity. A room already in
+ * use is refused with 409 unless the caller chose to book it anyway, in which
+ * case the clash comes back as a warning.
+ */
+export async function checkEventVenue(input: VenueCheckInput): Promise<VenueCheckResult> {
+  const venueId = optionalText(input.venueId);
+  if (!venueId) {
+    return { success: true };
+  }
+  if (!Types.ObjectId.isValid(venueId)) {
+    return { success: false, message: "Invalid venue ID.", statusCode: 400 };
+  }
+
+  const venue = await VenueModel.findById(venueId).lean<VenueWithId | null>();
+  if (!venue) {
+    return { success: false, message: "Venue not found.", statusCode: 404 };
+  }
+  if (!venue.active) {
+    return { success: false, message: `${venue.name} is no longer bookable.`, statusCode: 400 };
+  }
+  if (input.location && input.location !== venue.campus) {
+    return {
+      success: false,
+      message: `${venue.name} is on the ${venue.campus} campus, not ${input.location}.`,
+      statusCode: 400,
+    };
+  }
+  if (input.capacity !== undefined && input.capacity > venue.capacity) {
+    return {
+      success: false,
+      message: `Capacity ${input.capacity} exceeds ${venue.name}'s capacity of ${venue.capacity}.`,
+      statusCode: 400,
+    };
+  }
+
+  const conflicts = await findVenueConflicts(
+    venueId,
+    input.startDate,
+    input.endDate,
+    input.excludeEventId
+  );
+  if (!conflicts.length) {
+    return { success: true, venue };
+  }
+
+  const clash = `${venue.name} is already booked for ${describeConflicts(conflicts)}.`;
+  if (input.allowDoubleBooking === true || input.allowDoubleBooking === "true") {
+    return { success: true, venue, warning: clash };
+  }
+  return {
+    success: false,
+    message: `${clash} Pick another room or time, or book it anyway.`,
+    statusCode: 409,
+    conflicts,
+  };
+}
+
+function sameInstant(a: Date | undefined, b: Date | undefined) {
+  return new Date(a ?? 0).getTime() === new Date(b ?? 0).getTime();
+}
+
+/**
+ * Re-checks an existing event's room when an edit changes its room, campus,
+ * times or capacity; edits to anything else leave an earlier booking alone.
+ * With `campusFromVenue` the event follows the room to its campus instead of
+ * having to match it.
+ */
+export async function checkEventVenueUpdate(
+  event: Pick<IEvent, "venueId" | "location" | "startDate" | "endDate" | "capacity"> & {
+    _id: unknown;
+  },
+  updates: Record<string, unknown>,
+  options: { campusFromVenue?: boolean } = {}
+): Promise<VenueCheckResult> {
+  const venueId = updates.venueId !== undefined ? optionalText(updates.venueId) : event.venueId;
+  const location = (updates.location as Location | undefined) ?? event.location;
+  const startDate = new Date((updates.startDate as string | Date | undefined) ?? event.startDate);
+  const endDate = new Date((updates.endDate as string | Date | undefined) ?? event.endDate);
+  const capacity = updates.capacity !== undefined ? Number(updates.capacity) : event.capacity;
+
+  if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+    return { success: false, message: "Invalid date format provided.", statusCode: 400 };
+  }
+
+  const changed =
+    (venueId ?? "") !== (event.venueId ?? "") ||
+    (!options.campusFromVenue && location !== event.location) ||
+    !sameInstant(startDate, event.startDate) ||
+    !sameInstant(endDate, event.endDate) ||
+    capacity !== event.capacity;
+  if (!changed) {
+    return { success: true };
+  }
+
+  return checkEventVenue({
+    venueId,
+    location: options.campusFromVenue ? undefined : location,
+    startDate,
+    endDate,
+    capacity,
+    excludeEventId: String(event._id),
+    allowDoubleBooking: updates.allowDoubleBooking,
+  });
+}
+
+export async function listVenues(
+  filters: { campus?: string; includeInactive?: boolean } = {}
+): Promise<ServiceResponse<VenueWithId[]>> {
+  try {
+    const query: Record<string, unknown> = {};
+    if (filters.campus) {
+      if (!Object.values(Location).includes(filters.campus as Location)) {
+        return { success: false, message: "Campus is invalid.", statusCode: 400 };
+      }
+      query.campus = filters.campus;
+    }
+    if (!filters.includeInactive) {
+      query.active = true;
+    }
+
+    const venues = await VenueModel.find(query)
+      .sort({ campus: 1, name: 1 })
+      .lean<VenueWithId[]>();
+    return { success: true, message: "Venues retrieved successfully.", data: venues };
+  } catch (error) {
+    console.error("Error listing venues:", error);
+    return { success: false, message: "Failed to load venues.", statusCode: 500 };
+  }
+}
+
+async function nameTaken(venue: VenueInput, excludeId?: string) {
+  const filter: Record<string, unknown> = {
+    campus: venue.campus,
+    name: new RegExp(`^${venue.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, "i"),
+  };
+  if (excludeId) {
+    filter._id = { $ne: new Types.ObjectId(excludeId) };
+  }
+  return Boolean(await VenueModel.exists(filter));
+}
+
+export async function createVenue(input: unknown): Promise<ServiceResponse<VenueWithId>> {
+  try {
+    const parsed = parseVenueInput(input);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+    if (await nameTaken(parsed.venue)) {
+      return {
+        success: false,
+        message: `${parsed.venue.campus} already has a venue called ${parsed.venue.name}.`,
+        statusCode: 409,
+      };
+    }
+
+    const venue = await VenueModel.create({ ...parsed.venue, active: true });
+    return {
+      success: true,
+      message: `${venue.name} added.`,
+      statusCode: 201,
+      data: venue.toObject(),
+    };
+  } catch (error) {
+    console.error("Error creating venue:", error);
+    return { success: false, message: "Failed to create venue.", statusCode: 500 };
+  }
+}
+
+/**
+ * Updates a room. Shrinking it or moving it to another campus is refused
+ * while upcoming events booked into it would no longer fit.
+ */
+export async function updateVenue(
+  venueId: string,
+  input: unknown
+): Promise<ServiceResponse<VenueWithId>> {
+  try {
+    if (!Types.ObjectId.isValid(venueId)) {
+      return { success: false, message: "Invalid venue ID.", statusCode: 400 };
+    }
+    const existing = await VenueModel.findById(venueId).lean<VenueWithId | null>();
+    if (!existing) {
+      return { success: false, message: "Venue not found.", statusCode: 404 };
+    }
+
+    const parsed = parseVenueInput(input);
+    if (!parsed.success) {
+      return { success: false, message: parsed.message, statusCode: 400 };
+    }
+    const { venue } = parsed;
+    if (await nameTaken(venue, venueId)) {
+      return {
+        success: false,
+        message: `${venue.campus} already has a venue called ${venue.name}.`,
+        statusCode: 409,
+      };
+    }
+
+    const upcoming = await EventModel.find({
+      ...ACTIVE_BOOKING_FILTER,
+      venueId,
+      endDate: { $gte: new Date() },
+    }).lean<EventWithId[]>();
+    if (venue.campus !== existing.campus && upcoming.length) {
+      return {
+        success: false,
+        message: `${existing.name} has ${upcoming.length} upcoming event(s); move them before changing its campus.`,
+        statusCode: 409,
+      };
+    }
+    const overflowing = upcoming.filter(
+      (event) => event.capacity !== undefined && event.capacity > venue.capacity
+    );
+    if (overflowing.length) {
+      return {
+        success: false,
+        message: `${overflowing.map((event) => event.name).join(", ")} expect more than ${venue.capacity} attendees.`,
+        statusCode: 409,
+      };
+    }
+
+    const updated = await VenueModel.findByIdAndUpdate(
+      venueId,
+      { $set: venue },
+      { new: true, runValidators: true }
+    ).lean<VenueWithId | null>();
+    if (!updated) {
+      return { success: false, message: "Venue not found.", statusCode: 404 };
+    }
+
+    return { success: true, message: `${updated.name} updated.`, data: updated };
+  } catch (error) {
+    console.error("Error updating venue:", error);
+    return { success: false, message: "Failed to update venue.", statusCode: 500 };
+  }
+}
+
+/**
+ * Takes a room out of the picker. Past events keep pointing at it; upcoming
+ * ones have to be moved first.
+ */
+export async function retireVenue(venueId: string): Promise<ServiceResponse<VenueWithId>> {
+  try {
+    if (!Types.ObjectId.isValid(venueId)) {
+      return { success: false, message: "Invalid venue ID.", statusCode: 400 };
+    }
+
+    const upcoming = await EventModel.countDocuments({
+      ...ACTIVE_BOOKING_FILTER,
+      venueId,
+      endDate: { $gte: new Date() },
+    });
+    if (upcoming) {
+      return {
+        success: false,
+        message: `This venue has ${upcoming} upcoming event(s); move them to another room first.`,
+        statusCode: 409,
+      };
+    }
+
+    const retired = await VenueModel.findByIdAndUpdate(
+      venueId,
+      { $set: { active: false } },
+      { new: true }
+    ).lean<VenueWithId | null>();
+    if (!retired) {
+      return { success: false, message: "Venue not found.", statusCode: 404 };
+    }
+
+    return { success: true, message: `${retired.name} retired.`, data: retired };
+  } catch (error) {
+    console.error("Error retiring venue:", error);
+    return { success: false, message: "Failed to retire venue.", statusCode: 500 };
+  }
+}
+
+/** Everything booked into one room in a window, with double bookings marked. */
+export async function getVenueCalendar(
+  venueId: string,
+  fromInput?: unknown,
+  toInput?: unknown
+): Promise<ServiceResponse<VenueCalendar>> {
+  try {
+    if (!Types.ObjectId.isValid(venueId)) {
+      return { success: false, message: "Invalid venue ID.", statusCode: 400 };
+    }
+
+    const from = fromInput ? new Date(fromInput as string) : new Date();
+    const to = toInput ? new Date(toInput as string) : new Date(from.getTime() + 7 * DAY_MS);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return { success: false, message: "Calendar range is invalid.", statusCode: 400 };
+    }
+    if (to.getTime() - from.getTime() > MAX_CALENDAR_DAYS * DAY_MS) {
+      return {
+        success: false,
+        message: `Calendar range must be at most ${MAX_CALENDAR_DAYS} days.`,
+        statusCode: 400,
+      };
+    }
+
+    const venue = await VenueModel.findById(venueId).lean<VenueWithId | null>();
+    if (!venue) {
+      return { success: false, message: "Venue not found.", statusCode: 404 };
+    }
+
+    const events = await EventModel.find({
+      ...ACTIVE_BOOKING_FILTER,
+      venueId,
+      startDate: { $lt: to },
+      endDate: { $gt: from },
+    })
+      .sort({ startDate: 1 })
+      .lean<EventWithId[]>();
+
+    const clashes = findClashes(
+      events.map((event) => ({
+        id: event._id.toString(),
+        startTime: event.startDate,
+        endTime: event.endDate,
+      }))
+    );
+
+    return {
+      success: true,
+      message: "Venue calendar retrieved successfully.",
+      data: {
+        venue,
+        from,
+        to,
+        bookings: events.map((event) =>
+          toBooking(event, clashes.get(event._id.toString()) ?? [])
+        ),
+      },
+    };
+  } catch (error) {
+    console.error("Error loading venue calendar:", error);
+    return { success: false, message: "Failed to load venue calendar.", statusCode: 500 };
+  }
+}
@@ -0,0 +1,496 @@
+import { Types } from "mongoose";
+import EventModel, {
+  IEvent,
+  IEventWaitlistEntry,
+  WaitlistStatus,
+} from "../models/Event";
+import UserModel, { IUser } from "../models/User";
+import {
+  NotificationEntityKind,
+  NotificationType,
+} from "../models/Notification";
+import { emailService } from "./emailService";
+import { isEventPublished } from "./eventPublicationService";
+import { notifyUsers, type NotificationPayload } from "./notificationService";
+import { eventAcceptsRegistrations } from "./ticketTierService";
+import { formatDate } from "../../lib/date";
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+const WAITLIST_OFFER_HOLD_MS =
+  (Number(process.env.WAITLIST_OFFER_HOLD_HOURS) || 24) * ONE_HOUR_MS;
+const WAITLIST_CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type EventWithId = IEvent & { _id: Types.ObjectId };
+
+export type WaitlistStatusData = {
+  eventId: string;
+  waitlistSize: number;
+  heldSeats: number;
+  position: number | null;
+  status: WaitlistStatus | null;
+  offerExpiresAt?: Date;
+};
+
+function isWaitlistEnabled(
+  event: Pick<IEvent, "eventType" | "registrationEnabled" | "capacity">
+) {
+  return (
+    eventAcceptsRegistrations(event) &&
+    typeof event.capacity === "number" &&
+    event.capacity > 0
+  );
+}
+
+function isActiveOffer(entry: IEventWaitlistEntry, now = new Date()) {
+  return (
+    entry.status === WaitlistStatus.OFFERED &&
+    Boolean(entry.offerExpiresAt) &&
+    new Date(entry.offerExpiresAt as Date).getTime() > now.getTime()
+  );
+}
+
+/**
+ * Number of seats currently held for promoted waitlist users and unanswered
+ * group booking invites that have not lapsed. A user's own hold can be excluded so that they can
+ * claim the seat reserved for them.
+ */
+export function countHeldSeats(
+  event: Pick<IEvent, "waitlist" | "groupHolds">,
+  excludeUserId?: string
+): number {
+  const now = new Date();
+  const offers = (event.waitlist ?? []).filter(
+    (entry) => isActiveOffer(entry, now) && entry.userId !== excludeUserId
+  ).length;
+  const groupSeats = (event.groupHolds ?? []).filter(
+    (hold) =>
+      (!hold.expiresAt || new Date(hold.expiresAt).getTime() > now.getTime()) &&
+      (!excludeUserId || hold.userId !== excludeUserId)
+  ).length;
+  return offers + groupSeats;
+}
+
+function buildStatus(event: EventWithId, userId?: string): WaitlistStatusData {
+  const waitlist = event.waitlist ?? [];
+  const index = userId
+    ? waitlist.findIndex((entry) => entry.userId === userId)
+    : -1;
+  const entry = index >= 0 ? waitlist[index] : undefined;
+
+  return {
+    eventId: event._id.toString(),
+    waitlistSize: waitlist.length,
+    heldSeats: countHeldSeats(event),
+    position: index >= 0 ? index + 1 : null,
+    status: entry?.status ?? null,
+    offerExpiresAt: entry?.offerExpiresAt,
+  };
+}
+
+async function loadEvent(
+  eventId: string
+): Promise<ServiceResponse<never> | { success: true; event: EventWithId }> {
+  if (!Types.ObjectId.isValid(eventId)) {
+    return { success: false, message: "Invalid event ID.", statusCode: 400 };
+  }
+
+  const event = await EventModel.findById(eventId).lean<EventWithId | null>();
+  if (!event) {
+    return { success: false, message: "Event not found.", statusCode: 404 };
+  }
+
+  return { success: true, event };
+}
+
+export async function getEventWaitlistStatus(
+  eventId: string,
+  userId?: string
+): Promise<ServiceResponse<WaitlistStatusData>> {
+  try {
+    const resolved = await loadEvent(eventId);
+    if (!("event" in resolved)) {
+      return resolved;
+    }
+
+    return {
+      success: true,
+      message: "Waitlist status retrieved successfully.",
+      statusCode: 200,
+      data: buildStatus(resolved.event, userId),
+    };
+  } catch (error) {
+    console.error("Error fetching waitlist status:", error);
+    return {
+      success: false,
+      message: "Failed to load waitlist status.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function joinEventWaitlist(
+  eventId: string,
+  userId: string
+): Promise<ServiceResponse<WaitlistStatusData>> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, message: "Invalid user ID.", statusCode: 400 };
+    }
+
+    const resolved = await loadEvent(eventId);
+    if (!("event" in resolved)) {
+      return resolved;
+    }
+    const { event } = resolved;
+
+    const user = await UserModel.findById(userId).lean<IUser | null>();
+    if (!user) {
+      return { success: false, message: "User not found.", statusCode: 404 };
+    }
+
+    if (!isWaitlistEnabled(event)) {
+      return {
+        success: false,
+        message: "Only events that take registrations and have a capacity have a waitlist.",
+        statusCode: 400,
+      };
+    }
+
+    if (event.archived) {
+      return { success: false, message: "Event is archived.", statusCode: 400 };
+    }
+
+    if (!isEventPublished(event)) {
+      return { success: false, message: "This event is not published yet.", statusCode: 400 };
+    }
+
+    if (new Date(event.registrationDeadline) < new Date()) {
+      return {
+        success: false,
+        message: "Registration deadline has passed.",
+        statusCode: 400,
+      };
+    }
+
+    if (
+      event.allowedRoles &&
+      event.allowedRoles.length > 0 &&
+      !event.allowedRoles.includes(user.role)
+    ) {
+      return {
+        success: false,
+        message: `This event is restricted to the following roles: ${event.allowedRoles.join(", ")}.`,
+        statusCode: 403,
+      };
+    }
+
+    if ((event.registeredUsers ?? []).includes(userId)) {
+      return {
+        success: false,
+        message: "User already registered for this event.",
+        statusCode: 409,
+      };
+    }
+
+    if ((event.waitlist ?? []).some((entry) => entry.userId === userId)) {
+      return {
+        success: false,
+        message: "You are already on the waitlist for this event.",
+        statusCode: 409,
+      };
+    }
+
+    const occupied =
+      (event.registeredUsers?.length ?? 0) + countHeldSeats(event);
+    if (occupied < (event.capacity ?? 0)) {
+      return {
+        success: false,
+        message: "Seats are still available. Please register directly.",
+        statusCode: 400,
+      };
+    }
+
+    const updated = await EventModel.findOneAndUpdate(
+      { _id: event._id, "waitlist.userId": { $ne: userId } },
+      {
+        $push: {
+          waitlist: {
+            userId,
+            joinedAt: new Date(),
+            status: WaitlistStatus.WAITING,
+          },
+        },
+      },
+      { new: true }
+    ).lean<EventWithId | null>();
+
+    if (!updated) {
+      return {
+        success: false,
+        message: "You are already on the waitlist for this event.",
+        statusCode: 409,
+      };
+    }
+
+    const status = buildStatus(updated, userId);
+
+    return {
+      success: true,
+      message: `You joined the waitlist at position ${status.position}.`,
+      statusCode: 201,
+      data: status,
+    };
+  } catch (error) {
+    console.error("Error joining waitlist:", error);
+    return {
+      success: false,
+      message: "Failed to join the waitlist.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function leaveEventWaitlist(
+  eventId: string,
+  userId: string
+): Promise<ServiceResponse<WaitlistStatusData>> {
+  try {
+    const resolved = await loadEvent(eventId);
+    if (!("event" in resolved)) {
+      return resolved;
+    }
+
+    const entry = (resolved.event.waitlist ?? []).find(
+      (item) => item.userId === userId
+    );
+    if (!entry) {
+      return {
+        success: false,
+        message: "You are not on the waitlist for this event.",
+        statusCode: 404,
+      };
+    }
+
+    const updated = await EventModel.findByIdAndUpdate(
+      eventId,
+      { $pull: { waitlist: { userId } } },
+      { new: true }
+    ).lean<EventWithId | null>();
+
+    // Giving up a held seat passes it on to the next person in line.
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await promoteNextWaitlistedUsers(eventId);
+    }
+
+    return {
+      success: true,
+      message: "You left the waitlist.",
+      statusCode: 200,
+      data: updated ? buildStatus(updated) : undefined,
+    };
+  } catch (error) {
+    console.error("Error leaving waitlist:", error);
+    return {
+      success: false,
+      message: "Failed to leave the waitlist.",
+      statusCode: 500,
+    };
+  }
+}
+
+function waitlistNotification(
+  event: { _id: unknown },
+  message: string
+): NotificationPayload {
+  const eventId = String(event._id);
+  return {
+    type: NotificationType.WAITLIST,
+    message,
+    entity: { kind: NotificationEntityKind.EVENT, id: eventId },
+    link: `/user/events/${eventId}`,
+  };
+}
+
+async function sendWaitlistOfferNotifications(
+  event: EventWithId,
+  userIds: string[],
+  offerExpiresAt: Date
+): Promise<void> {
+  const message = `A seat opened up for "${event.name}". It is held for you until ${formatDate(offerExpiresAt, "MMM D, YYYY HH:mm")}.`;
+  await notifyUsers(userIds, waitlistNotification(event, message));
+
+  const users = await UserModel.find({ _id: { $in: userIds } })
+    .select(["email", "firstName", "lastName"])
+    .lean<Array<Pick<IUser, "email" | "firstName" | "lastName">>>();
+
+  const results = await Promise.allSettled(
+    users.map((user) =>
+      emailService.sendWaitlistOfferEmail({
+        user,
+        eventId: event._id.toString(),
+        eventName: event.name,
+        eventType: event.eventType,
+        offerExpiresAt,
+      })
+    )
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(
+        `Failed to send waitlist offer email to ${users[index]?.email}:`,
+        result.reason
+      );
+    }
+  });
+}
+
+/**
+ * Offers every seat that is neither registered nor held to the next waiting
+ * users, in the order they joined. Returns the promoted user IDs.
+ */
+export async function promoteNextWaitlistedUsers(
+  eventId: string
+): Promise<string[]> {
+  try {
+    const event = await EventModel.findById(eventId).lean<EventWithId | null>();
+    if (!event || !isWaitlistEnabled(event) || event.archived) {
+      return [];
+    }
+
+    const now = new Date();
+    if (new Date(event.registrationDeadline) < now) {
+      return [];
+    }
+
+    const freeSeats =
+      (event.capacity ?? 0) -
+      (event.registeredUsers?.length ?? 0) -
+      countHeldSeats(event);
+    if (freeSeats <= 0) {
+      return [];
+    }
+
+    const candidates = (event.waitlist ?? [])
+      .filter((entry) => entry.status === WaitlistStatus.WAITING)
+      .slice(0, freeSeats)
+      .map((entry) => entry.userId);
+    if (!candidates.length) {
+      return [];
+    }
+
+    const offerExpiresAt = new Date(
+      Math.min(
+        now.getTime() + WAITLIST_OFFER_HOLD_MS,
+        new Date(event.registrationDeadline).getTime()
+      )
+    );
+
+    await EventModel.updateOne(
+      { _id: event._id },
+      {
+        $set: {
+          "waitlist.$[entry].status": WaitlistStatus.OFFERED,
+          "waitlist.$[entry].offeredAt": now,
+          "waitlist.$[entry].offerExpiresAt": offerExpiresAt,
+        },
+      },
+      {
+        arrayFilters: [
+          {
+            "entry.userId": { $in: candidates },
+            "entry.status": WaitlistStatus.WAITING,
+          },
+        ],
+      }
+    );
+
+    await sendWaitlistOfferNotifications(event, candidates, offerExpiresAt);
+
+    return candidates;
+  } catch (error) {
+    console.error("Error promoting waitlisted users:", error);
+    return [];
+  }
+}
+
+export async function expireWaitlistOffers(): Promise<void> {
+  try {
+    const now = new Date();
+    const events = await EventModel.find({
+      waitlist: {
+        $elemMatch: {
+          status: WaitlistStatus.OFFERED,
+          offerExpiresAt: { $lte: now },
+        },
+      },
+    })
+      .select(["name", "waitlist"])
+      .lean<Array<Pick<IEvent, "name" | "waitlist"> & { _id: Types.ObjectId }>>();
+
+    for (const event of events) {
+      const expiredUserIds = (event.waitlist ?? [])
+        .filter(
+          (entry) =>
+            entry.status === WaitlistStatus.OFFERED &&
+            entry.offerExpiresAt &&
+            new Date(entry.offerExpiresAt) <= now
+        )
+        .map((entry) => entry.userId);
+
+      await EventModel.updateOne(
+        { _id: event._id },
+        {
+          $pull: {
+            waitlist: {
+              status: WaitlistStatus.OFFERED,
+              offerExpiresAt: { $lte: now },
+            },
+          },
+        }
+      );
+
+      await notifyUsers(
+        expiredUserIds,
+        waitlistNotification(
+          event,
+          `Your held seat for "${event.name}" has expired and was offered to the next person on the waitlist.`
+        )
+      );
+      await promoteNextWaitlistedUsers(event._id.toString());
+    }
+  } catch (error) {
+    console.error("Failed to expire waitlist offers:", error);
+  }
+}
+
+let waitlistSchedulerStarted = false;
+
+export function startWaitlistScheduler(): void {
+  if (waitlistSchedulerStarted) {
+    return;
+  }
+
+  waitlistSchedulerStarted = true;
+
+  const tick = async () => {
+    try {
+      await expireWaitlistOffers();
+    } catch (error) {
+      console.error("Waitlist scheduler tick error:", error);
+    }
+  };
+
+  void tick();
+
+  setInterval(() => {
+    void tick();
+  }, WAITLIST_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,666 @@
+import { Types } from "mongoose";
+import Stripe from "stripe";
+import UserModel from "../models/User";
+import WalletTransactionModel, {
+  IWalletTransaction,
+  WalletTransactionType,
+} from "../models/WalletTransaction";
+import { WALLET_CURRENCY } from "./campusService";
+
+const MIN_TOP_UP_AMOUNT = 10;
+const MAX_TOP_UP_AMOUNT = 10000;
+const STATEMENT_LIMIT = 500;
+const TOP_UP_PURPOSE = "wallet_top_up";
+
+const stripeClient = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    })
+  : null;
+
+type ServiceResponse<T> = {
+  success: boolean;
+  message: string;
+  statusCode?: number;
+  data?: T;
+};
+
+type WalletTransactionWithId = IWalletTransaction & { _id: Types.ObjectId };
+
+export class InsufficientWalletBalanceError extends Error {
+  constructor(message = "Insufficient wallet balance.") {
+    super(message);
+    this.name = "InsufficientWalletBalanceError";
+  }
+}
+
+export type RecordWalletTransactionInput = {
+  userId: string;
+  type: WalletTransactionType;
+  amount: number;
+  description: string;
+  receiptNumber?: string;
+  eventId?: string;
+  paymentId?: string;
+  externalReference?: string;
+  createdBy?: string;
+};
+
+export type WalletTransactionItem = {
+  id: string;
+  type: WalletTransactionType;
+  amount: number;
+  balanceAfter: number;
+  currency: string;
+  receiptNumber: string;
+  description: string;
+  eventId?: string;
+  createdAt: Date;
+};
+
+export type WalletStatement = {
+  balance: number;
+  currency: string;
+  totalCredits: number;
+  totalDebits: number;
+  transactions: WalletTransactionItem[];
+};
+
+export type WalletStatementFilters = {
+  type?: string;
+  from?: string;
+  to?: string;
+};
+
+export type WalletTopUpIntentData = {
+  clientSecret: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+};
+
+export type WalletRebuildData = {
+  previousBalance: number;
+  balance: number;
+  transactionCount: number;
+};
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function generateReceiptNumber(prefix: string): string {
+  const random = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}-${random}`;
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (
+    Boolean(error) &&
+    typeof error === "object" &&
+    (error as { code?: unknown }).code === 11000
+  );
+}
+
+function toTransactionItem(
+  entry: WalletTransactionWithId
+): WalletTransactionItem {
+  return {
+    id: entry._id.toString(),
+    type: entry.type,
+    amount: entry.amount,
+    balanceAfter: entry.balanceAfter,
+    currency: entry.currency,
+    receiptNumber: entry.receiptNumber,
+    description: entry.description,
+    eventId: entry.eventId?.toString(),
+    createdAt: entry.createdAt,
+  };
+}
+
+function parseDate(value: string | undefined, endOfDay = false) {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return null;
+  // Plain dates (YYYY-MM-DD) cover the whole day on the upper bound
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    parsed.setUTCHours(23, 59, 59, 999);
+  }
+  return parsed;
+}
+
+/**
+ * Balances that predate the ledger are carried over as a single opening
+ * adjustment the first time the user's wallet is touched, so the entries
+ * always add up to the stored balance.
+ */
+async function ensureOpeningBalance(userId: string) {
+  const hasEntries = await WalletTransactionModel.exists({ userId });
+  if (hasEntries) return;
+
+  const user = await UserModel.findById(userId)
+    .select("balance")
+    .lean<{ balance?: number } | null>();
+  const balance = roundMoney(user?.balance ?? 0);
+  if (!user || balance === 0) return;
+
+  try {
+    await WalletTransactionModel.create({
+      userId,
+      type: WalletTransactionType.ADMIN_ADJUSTMENT,
+      amount: balance,
+      balanceAfter: balance,
+      currency: WALLET_CURRENCY,
+      receiptNumber: generateReceiptNumber("OPN"),
+      description: "Opening balance carried over",
+      externalReference: `opening:${userId}`,
+    });
+  } catch (error) {
+    // Another request carried it over first
+    if (!isDuplicateKeyError(error)) throw error;
+  }
+}
+
+/**
+ * Applies a signed amount to the user's balance and appends the matching
+ * ledger entry. Debits never take the balance below zero and throw
+ * InsufficientWalletBalanceError instead.
+ */
+export async function recordWalletTransaction(
+  input: RecordWalletTransactionInput
+): Promise<{ transaction: WalletTransactionItem; balance: number }> {
+  const amount = roundMoney(input.amount);
+  await ensureOpeningBalance(input.userId);
+
+  const filter: Record<string, unknown> = { _id: input.userId };
+  if (amount < 0) {
+    filter.balance = { $gte: -amount };
+  }
+
+  const updatedUser = await UserModel.findOneAndUpdate(
+    filter,
+    { $inc: { balance: amount } },
+    { new: true }
+  )
+    .select("balance")
+    .lean<{ balance?: number } | null>();
+
+  if (!updatedUser) {
+    const exists = await UserModel.exists({ _id: input.userId });
+    if (!exists) {
+      throw new Error("User not found.");
+    }
+    throw new InsufficientWalletBalanceError();
+  }
+
+  const balance = roundMoney(updatedUser.balance ?? 0);
+
+  try {
+    const created = await WalletTransactionModel.create({
+      userId: input.userId,
+      type: input.type,
+      amount,
+      balanceAfter: balance,
+      currency: WALLET_CURRENCY,
+      receiptNumber: input.receiptNumber ?? generateReceiptNumber("WLT"),
+      description: input.description,
+      eventId: input.eventId,
+      paymentId: input.paymentId,
+      externalReference: input.externalReference,
+      createdBy: input.createdBy,
+    });
+
+    return {
+      transaction: toTransactionItem(
+        created.toObject() as WalletTransactionWithId
+      ),
+      balance,
+    };
+  } catch (error) {
+    // Keep balance and ledger in step when the entry can't be written
+    await UserModel.updateOne(
+      { _id: input.userId },
+      { $inc: { balance: -amount } }
+    );
+    throw error;
+  }
+}
+
+export async function getWalletStatement(
+  userId: string,
+  filters: WalletStatementFilters = {}
+): Promise<ServiceResponse<WalletStatement>> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return {
+        success: false,
+        message: "Invalid user identifier.",
+        statusCode: 400,
+      };
+    }
+
+    if (
+      filters.type &&
+      !Object.values(WalletTransactionType).includes(
+        filters.type as WalletTransactionType
+      )
+    ) {
+      return {
+        success: false,
+        message: `type must be one of: ${Object.values(WalletTransactionType).join(", ")}`,
+        statusCode: 400,
+      };
+    }
+
+    const from = parseDate(filters.from);
+    const to = parseDate(filters.to, true);
+    if (from === null || to === null) {
+      return {
+        success: false,
+        message: "from and to must be valid dates.",
+        statusCode: 400,
+      };
+    }
+
+    const user = await UserModel.findById(userId)
+      .select("balance")
+      .lean<{ balance?: number } | null>();
+    if (!user) {
+      return {
+        success: false,
+        message: "User not found.",
+        statusCode: 404,
+      };
+    }
+
+    await ensureOpeningBalance(userId);
+
+    const query: Record<string, unknown> = { userId };
+    if (filters.type) {
+      query.type = filters.type;
+    }
+    if (from || to) {
+      query.createdAt = {
+        ...(from ? { $gte: from } : {}),
+        ...(to ? { $lte: to } : {}),
+      };
+    }
+
+    const entries = await WalletTransactionModel.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(STATEMENT_LIMIT)
+      .lean<WalletTransactionWithId[]>();
+
+    const totalCredits = entries
+      .filter((entry) => entry.amount > 0)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    const totalDebits = entries
+      .filter((entry) => entry.amount < 0)
+      .reduce((sum, entry) => sum - entry.amount, 0);
+
+    return {
+      success: true,
+      message: "Wallet statement retrieved successfully.",
+      data: {
+        balance: roundMoney(user.balance ?? 0),
+        currency: WALLET_CURRENCY,
+        totalCredits: roundMoney(totalCredits),
+        totalDebits: roundMoney(totalDebits),
+        transactions: entries.map(toTransactionItem),
+      },
+    };
+  } catch (error) {
+    console.error("getWalletStatement error:", error);
+    return {
+      success: false,
+      message: "Failed to load wallet statement.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function createWalletTopUpIntent(
+  userId: string,
+  amount: number
+): Promise<ServiceResponse<WalletTopUpIntentData>> {
+  try {
+    if (!stripeClient) {
+      return {
+        success: false,
+        message: "Stripe is not configured.",
+        statusCode: 500,
+      };
+    }
+
+    if (!Types.ObjectId.isValid(userId)) {
+      return {
+        success: false,
+        message: "Invalid user identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const topUpAmount = roundMoney(Number(amount));
+    if (
+      !Number.isFinite(topUpAmount) ||
+      topUpAmount < MIN_TOP_UP_AMOUNT ||
+      topUpAmount > MAX_TOP_UP_AMOUNT
+    ) {
+      return {
+        success: false,
+        message: `Top-up amount must be between ${MIN_TOP_UP_AMOUNT} and ${MAX_TOP_UP_AMOUNT} ${WALLET_CURRENCY}.`,
+        statusCode: 400,
+      };
+    }
+
+    const userExists = await UserModel.exists({ _id: userId });
+    if (!userExists) {
+      return {
+        success: false,
+        message: "User not found.",
+        statusCode: 404,
+      };
+    }
+
+    const paymentIntent = await stripeClient.paymentIntents.create({
+      amount: Math.round(topUpAmount * 100),
+      currency: WALLET_CURRENCY.toLowerCase(),
+      payment_method_types: ["card"],
+      metadata: {
+        purpose: TOP_UP_PURPOSE,
+        userId,
+      },
+    });
+
+    if (!paymentIntent.client_secret) {
+      return {
+        success: false,
+        message: "Failed to create Stripe payment intent.",
+        statusCode: 500,
+      };
+    }
+
+    return {
+      success: true,
+      message: "Stripe payment intent created.",
+      data: {
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        amount: topUpAmount,
+        currency: WALLET_CURRENCY,
+      },
+    };
+  } catch (error) {
+    console.error("createWalletTopUpIntent error:", error);
+    return {
+      success: false,
+      message: "Failed to initiate wallet top-up.",
+      statusCode: 500,
+    };
+  }
+}
+
+export function isWalletTopUpIntent(paymentIntent: Stripe.PaymentIntent) {
+  return paymentIntent.metadata?.purpose === TOP_UP_PURPOSE;
+}
+
+export async function finalizeWalletTopUp(
+  userId: string,
+  paymentIntentId: string
+): Promise<ServiceResponse<{ transaction: WalletTransactionItem; balance: number }>> {
+  try {
+    if (!stripeClient) {
+      return {
+        success: false,
+        message: "Stripe is not configured.",
+        statusCode: 500,
+      };
+    }
+
+    const paymentIntent =
+      await stripeClient.paymentIntents.retrieve(paymentIntentId);
+
+    if (
+      !isWalletTopUpIntent(paymentIntent) ||
+      paymentIntent.metadata?.userId !== userId
+    ) {
+      return {
+        success: false,
+        message: "Payment intent does not match this wallet top-up.",
+        statusCode: 400,
+      };
+    }
+
+    return await creditWalletTopUp(paymentIntent);
+  } catch (error) {
+    console.error("finalizeWalletTopUp error:", error);
+    return {
+      success: false,
+      message: "Failed to confirm wallet top-up.",
+      statusCode: 500,
+    };
+  }
+}
+
+/**
+ * Credits a succeeded top-up intent once. Shared by the browser callback and
+ * the Stripe webhook, whichever arrives first.
+ */
+export async function creditWalletTopUp(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<ServiceResponse<{ transaction: WalletTransactionItem; balance: number }>> {
+  try {
+    const userId = paymentIntent.metadata?.userId;
+    if (!isWalletTopUpIntent(paymentIntent) || !userId || !Types.ObjectId.isValid(userId)) {
+      return {
+        success: false,
+        message: "Payment intent is not a wallet top-up.",
+        statusCode: 400,
+      };
+    }
+
+    if (paymentIntent.status !== "succeeded") {
+      return {
+        success: false,
+        message: "Stripe payment has not completed.",
+        statusCode: 400,
+      };
+    }
+
+    const loadExisting = async () => {
+      const existing = await WalletTransactionModel.findOne({
+        externalReference: paymentIntent.id,
+      }).lean<WalletTransactionWithId | null>();
+      if (!existing) return null;
+      const user = await UserModel.findById(userId)
+        .select("balance")
+        .lean<{ balance?: number } | null>();
+      return {
+        transaction: toTransactionItem(existing),
+        balance: roundMoney(user?.balance ?? 0),
+      };
+    };
+
+    const alreadyCredited = await loadExisting();
+    if (alreadyCredited) {
+      return {
+        success: true,
+        message: "Top-up already credited.",
+        data: alreadyCredited,
+      };
+    }
+
+    const amountReceived =
+      typeof paymentIntent.amount_received === "number" &&
+      paymentIntent.amount_received > 0
+        ? paymentIntent.amount_received
+        : paymentIntent.amount;
+
+    try {
+      const result = await recordWalletTransaction({
+        userId,
+        type: WalletTransactionType.TOP_UP,
+        amount: amountReceived / 100,
+        description: "Wallet top-up by card",
+        receiptNumber: generateReceiptNumber("TOP"),
+        externalReference: paymentIntent.id,
+      });
+
+      return {
+        success: true,
+        message: "Wallet topped up successfully.",
+        data: result,
+      };
+    } catch (error) {
+      // A concurrent finalize already credited this intent
+      if (isDuplicateKeyError(error)) {
+        const existing = await loadExisting();
+        if (existing) {
+          return {
+            success: true,
+            message: "Top-up already credited.",
+            data: existing,
+          };
+        }
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("creditWalletTopUp error:", error);
+    return {
+      success: false,
+      message: "Failed to confirm wallet top-up.",
+      statusCode: 500,
+    };
+  }
+}
+
+export async function adjustWalletBalance(
+  userId: string,
+  payload: { amount?: unknown; reason?: unknown },
+  adminId?: string
+): Promise<ServiceResponse<{ transaction: WalletTransactionItem; balance: number }>> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return {
+        success: false,
+        message: "Invalid user identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const amount = roundMoney(Number(payload.amount));
+    if (!Number.isFinite(amount) || amount === 0) {
+      return {
+        success: false,
+        message: "amount must be a non-zero number.",
+        statusCode: 400,
+      };
+    }
+
+    const reason =
+      typeof payload.reason === "string" ? payload.reason.trim() : "";
+    if (!reason) {
+      return {
+        success: false,
+        message: "A reason is required for wallet adjustments.",
+        statusCode: 400,
+      };
+    }
+
+    const userExists = await UserModel.exists({ _id: userId });
+    if (!userExists) {
+      return {
+        success: false,
+        message: "User not found.",
+        statusCode: 404,
+      };
+    }
+
+    const result = await recordWalletTransaction({
+      userId,
+      type: WalletTransactionType.ADMIN_ADJUSTMENT,
+      amount,
+      description: reason,
+      receiptNumber: generateReceiptNumber("ADJ"),
+      createdBy:
+        adminId && Types.ObjectId.isValid(adminId) ? adminId : undefined,
+    });
+
+    return {
+      success: true,
+      message: "Wallet adjusted successfully.",
+      data: result,
+    };
+  } catch (error) {
+    if (error instanceof InsufficientWalletBalanceError) {
+      return {
+        success: false,
+        message: "Adjustment would take the wallet below zero.",
+        statusCode: 400,
+      };
+    }
+    console.error("adjustWalletBalance error:", error);
+    return {
+      success: false,
+      message: "Failed to adjust wallet.",
+      statusCode: 500,
+    };
+  }
+}
+
+/** Recomputes the stored balance as the sum of the user's ledger entries. */
+export async function rebuildWalletBalance(
+  userId: string
+): Promise<ServiceResponse<WalletRebuildData>> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return {
+        success: false,
+        message: "Invalid user identifier.",
+        statusCode: 400,
+      };
+    }
+
+    const user = await UserModel.findById(userId)
+      .select("balance")
+      .lean<{ balance?: number } | null>();
+    if (!user) {
+      return {
+        success: false,
+        message: "User not found.",
+        statusCode: 404,
+      };
+    }
+
+    await ensureOpeningBalance(userId);
+
+    const [totals] = await WalletTransactionModel.aggregate<{
+      total: number;
+      count: number;
+    }>([
+      { $match: { userId: new Types.ObjectId(userId) } },
+      { $group: { _id: null, total: { $sum: "$amount" }, count: { $sum: 1 } } },
+    ]);
+
+    const balance = roundMoney(totals?.total ?? 0);
+    await UserModel.updateOne({ _id: userId }, { $set: { balance } });
+
+    return {
+      success: true,
+      message: "Wallet balance rebuilt from the ledger.",
+      data: {
+        previousBalance: roundMoney(user.balance ?? 0),
+        balance,
+        transactionCount: totals?.count ?? 0,
+      },
+    };
+  } catch (error) {
+    console.error("rebuildWalletBalance error:", error);
+    return {
+      success: false,
+      message: "Failed to rebuild wallet balance.",
+      statusCode: 500,
+    };
+  }
+}
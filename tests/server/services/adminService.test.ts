@@ -18,8 +18,6 @@ import {
   updateAdmin,
   blockAdminAccount,
   unblockAdminAccount,
-  getEventOfficeNotifications,
-  markEventOfficeNotificationsSeen,
   CreateAdminData,
 } from "../../../server/services/adminService";
 import { emailService } from "../../../server/services/emailService";
@@ -776,7 +774,6 @@ describe("viewAllUsers", () => {
     expect(userResult).toHaveProperty("balance");
     expect(userResult).toHaveProperty("verified");
     expect(userResult).toHaveProperty("favorites");
-    expect(userResult).toHaveProperty("notifications");
     expect(userResult).toHaveProperty("workshops");
     expect(userResult).toHaveProperty("registeredGymSessions");
     expect(userResult).toHaveProperty("reservedCourts");
@@ -1185,161 +1182,3 @@ describe("unblockAdminAccount", () => {
   });
 });
 
-describe("getEventOfficeNotifications", () => {
-  it("should return notifications for EventOffice admin", async () => {
-    const admin = new AdminModel({
-      firstName: "Event",
-      lastName: "Office",
-      email: "eventoffice@example.com",
-      password: "password123",
-      status: "Active",
-      adminType: "EventOffice",
-      notifications: [
-        { message: "Notification 1", seen: false },
-        { message: "Notification 2", seen: true },
-      ],
-    });
-    await admin.save();
-    const adminId = admin._id.toString();
-
-    const result = await getEventOfficeNotifications(adminId);
-
-    expect(result.success).toBe(true);
-    expect(result.notifications).toHaveLength(2);
-    expect(result.notifications?.[0].message).toBe("Notification 1");
-    expect(result.notifications?.[0].seen).toBe(false);
-    expect(result.notifications?.[1].message).toBe("Notification 2");
-    expect(result.notifications?.[1].seen).toBe(true);
-  });
-
-  // it("should return notifications for Admin type", async () => {
-  //   const admin = new AdminModel({
-  //     firstName: "Admin",
-  //     lastName: "User",
-  //     email: "admin@example.com",
-  //     password: "password123",
-  //     status: "Active",
-  //     adminType: "Admin",
-  //     notifications: [{ message: "Admin notification", seen: false }],
-  //   });
-  //   await admin.save();
-  //   const adminId = admin._id.toString();
-
-  //   const result = await getEventOfficeNotifications(adminId);
-  //   console.log(result);
-  //   expect(result.success).toBe(true);
-  //   expect(result.notifications).toHaveLength(1);
-  // });
-
-  it("should return empty array when no notifications", async () => {
-    const admin = new AdminModel({
-      firstName: "Event",
-      lastName: "Office",
-      email: "eventoffice@example.com",
-      password: "password123",
-      status: "Active",
-      adminType: "EventOffice",
-    });
-    await admin.save();
-    const adminId = admin._id.toString();
-
-    const result = await getEventOfficeNotifications(adminId);
-
-    expect(result.success).toBe(true);
-    expect(result.notifications).toEqual([]);
-  });
-
-  it("should fail with invalid admin ID", async () => {
-    const result = await getEventOfficeNotifications("invalid-id");
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("Invalid admin ID");
-  });
-
-  it("should fail when admin not found", async () => {
-    const fakeId = new mongoose.Types.ObjectId().toString();
-    const result = await getEventOfficeNotifications(fakeId);
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("Admin not found");
-  });
-});
-
-describe("markEventOfficeNotificationsSeen", () => {
-  it("should mark all notifications as seen", async () => {
-    const admin = new AdminModel({
-      firstName: "Event",
-      lastName: "Office",
-      email: "eventoffice@example.com",
-      password: "password123",
-      status: "Active",
-      adminType: "EventOffice",
-      notifications: [
-        { message: "Notification 1", seen: false },
-        { message: "Notification 2", seen: false },
-        { message: "Notification 3", seen: true },
-      ],
-    });
-    await admin.save();
-    const adminId = admin._id.toString();
-
-    const result = await markEventOfficeNotificationsSeen(adminId);
-
-    expect(result.success).toBe(true);
-    expect(result.message).toBe("Notifications marked as seen.");
-
-    const updatedAdmin = await AdminModel.findById(adminId);
-    expect(updatedAdmin?.notifications?.every((n) => n.seen === true)).toBe(
-      true
-    );
-  });
-
-  // it("should work with Admin type", async () => {
-  //   const admin = new AdminModel({
-  //     firstName: "Admin",
-  //     lastName: "User",
-  //     email: "admin@example.com",
-  //     password: "password123",
-  //     status: "Active",
-  //     adminType: "Admin",
-  //     notifications: [{ message: "Notification", seen: false }],
-  //   });
-  //   await admin.save();
-  //   const adminId = admin._id.toString();
-  //   const result = await markEventOfficeNotificationsSeen(adminId);
-  //   expect(result.success).toBe(true);
-  // });
-
-  it("should fail with invalid admin ID", async () => {
-    const result = await markEventOfficeNotificationsSeen("invalid-id");
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("Invalid admin ID");
-  });
-
-  it("should fail when admin not found", async () => {
-    const fakeId = new mongoose.Types.ObjectId().toString();
-    const result = await markEventOfficeNotificationsSeen(fakeId);
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("Admin not found");
-  });
-
-  it("should handle empty notifications array", async () => {
-    const admin = new AdminModel({
-      firstName: "Event",
-      lastName: "Office",
-      email: "eventoffice@example.com",
-      password: "password123",
-      status: "Active",
-      adminType: "EventOffice",
-      notifications: [],
-    });
-    await admin.save();
-    const adminId = admin._id.toString();
-
-    const result = await markEventOfficeNotificationsSeen(adminId);
-
-    expect(result.success).toBe(true);
-  });
-});
@@ -0,0 +1,91 @@
+import {
+  findClashes,
+  parseAgendaSession,
+  sessionsOverlap,
+} from "../../../server/services/agendaService";
+
+jest.mock("../../../server/services/emailService");
+
+const conference = {
+  startDate: new Date("2026-11-10T08:00:00Z"),
+  endDate: new Date("2026-11-11T18:00:00Z"),
+};
+
+const at = (time: string) => new Date(`2026-11-10T${time}:00Z`);
+
+describe("sessionsOverlap", () => {
+  it("should not treat back-to-back sessions as a clash", () => {
+    const keynote = { startTime: at("09:00"), endTime: at("10:00") };
+
+    expect(sessionsOverlap(keynote, { startTime: at("10:00"), endTime: at("11:00") })).toBe(
+      false
+    );
+    expect(sessionsOverlap(keynote, { startTime: at("09:30"), endTime: at("10:30") })).toBe(
+      true
+    );
+  });
+});
+
+describe("findClashes", () => {
+  it("should pair every overlapping session both ways", () => {
+    const clashes = findClashes([
+      { id: "panel", startTime: at("11:00"), endTime: at("12:00") },
+      { id: "keynote", startTime: at("09:00"), endTime: at("11:30") },
+      { id: "workshop", startTime: at("10:00"), endTime: at("10:30") },
+      { id: "lunch", startTime: at("12:00"), endTime: at("13:00") },
+    ]);
+
+    expect(clashes.get("keynote")).toEqual(["workshop", "panel"]);
+    expect(clashes.get("workshop")).toEqual(["keynote"]);
+    expect(clashes.get("panel")).toEqual(["keynote"]);
+    expect(clashes.get("lunch")).toEqual([]);
+  });
+});
+
+describe("parseAgendaSession", () => {
+  it("should trim fields and dedupe a comma-separated speaker list", () => {
+    const parsed = parseAgendaSession(
+      {
+        title: "  Opening keynote ",
+        startTime: "2026-11-10T09:00:00Z",
+        endTime: "2026-11-10T10:00:00Z",
+        room: "Hall A",
+        track: "",
+        speakers: "Dr. Hana Adel, Omar Tarek, dr. hana adel",
+      },
+      conference
+    );
+
+    expect(parsed).toEqual({
+      success: true,
+      session: {
+        title: "Opening keynote",
+        startTime: at("09:00"),
+        endTime: at("10:00"),
+        room: "Hall A",
+        track: undefined,
+        speakers: ["Dr. Hana Adel", "Omar Tarek"],
+        abstract: undefined,
+      },
+    });
+  });
+
+  it("should keep sessions inside the conference dates", () => {
+    expect(
+      parseAgendaSession(
+        { title: "Late talk", startTime: "2026-11-11T17:00:00Z", endTime: "2026-11-11T19:00:00Z" },
+        conference
+      )
+    ).toEqual({
+      success: false,
+      message: "Session must take place within the conference dates.",
+    });
+
+    expect(
+      parseAgendaSession(
+        { title: "Backwards", startTime: "2026-11-10T10:00:00Z", endTime: "2026-11-10T09:00:00Z" },
+        conference
+      )
+    ).toEqual({ success: false, message: "Session must end after it starts." });
+  });
+});
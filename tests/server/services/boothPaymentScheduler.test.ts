@@ -0,0 +1,77 @@
+import {
+  BOOTH_PAYMENT_GRACE_DAYS,
+  BOOTH_PAYMENT_REMINDER_HOURS,
+  getBoothPaymentAction,
+  getBoothReleaseDate,
+} from "../../../server/services/boothPaymentScheduler";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const dueDate = new Date("2025-03-10T12:00:00.000Z");
+
+const at = (offsetMs: number) => new Date(dueDate.getTime() + offsetMs);
+
+describe("getBoothReleaseDate", () => {
+  it("should add the grace period to the due date", () => {
+    expect(getBoothReleaseDate(dueDate)).toEqual(
+      at(BOOTH_PAYMENT_GRACE_DAYS * DAY_MS)
+    );
+  });
+});
+
+describe("getBoothPaymentAction", () => {
+  it("should wait until the reminder window opens", () => {
+    const action = getBoothPaymentAction(
+      { status: "pending", dueDate },
+      at(-(BOOTH_PAYMENT_REMINDER_HOURS + 1) * HOUR_MS)
+    );
+
+    expect(action).toBeNull();
+  });
+
+  it("should remind once inside the reminder window", () => {
+    const now = at(-HOUR_MS);
+
+    expect(getBoothPaymentAction({ status: "pending", dueDate }, now)).toBe(
+      "remind"
+    );
+    expect(
+      getBoothPaymentAction(
+        { status: "pending", dueDate, reminderSentAt: at(-2 * HOUR_MS) },
+        now
+      )
+    ).toBeNull();
+  });
+
+  it("should mark the payment overdue once after the due date", () => {
+    const now = at(HOUR_MS);
+
+    expect(getBoothPaymentAction({ status: "pending", dueDate }, now)).toBe(
+      "markOverdue"
+    );
+    expect(
+      getBoothPaymentAction({ status: "overdue", dueDate, overdueAt: now }, now)
+    ).toBeNull();
+  });
+
+  it("should release the booth after the grace period", () => {
+    const action = getBoothPaymentAction(
+      { status: "overdue", dueDate, overdueAt: at(HOUR_MS) },
+      at(BOOTH_PAYMENT_GRACE_DAYS * DAY_MS)
+    );
+
+    expect(action).toBe("release");
+  });
+
+  it("should leave paid and released booths alone", () => {
+    const now = at(30 * DAY_MS);
+
+    expect(getBoothPaymentAction({ status: "paid", dueDate }, now)).toBeNull();
+    expect(
+      getBoothPaymentAction(
+        { status: "overdue", dueDate, releasedAt: at(3 * DAY_MS) },
+        now
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import EventModel, {
+  EventType,
+  FundingSource,
+  Location,
+} from "../../../server/models/Event";
+import GymSessionModel, { GymSessionType } from "../../../server/models/GymSession";
+import UserModel, { userRole, userStatus } from "../../../server/models/User";
+import {
+  buildEventCalendarFile,
+  buildUserCalendarFeed,
+  calendarUid,
+  getCalendarFeedToken,
+} from "../../../server/services/calendarService";
+import {
+  cancelGymSession,
+  editGymSession,
+} from "../../../server/services/gymSessionService";
+
+jest.mock("../../../server/services/emailService");
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  process.env.ENCRYPTION_SALT_ROUNDS = "4";
+  mongoServer = await MongoMemoryServer.create();
+  const mongoUri = mongoServer.getUri();
+  await mongoose.connect(mongoUri);
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createStudent() {
+  return UserModel.create({
+    firstName: "Calendar",
+    lastName: "Fan",
+    email: "calendar@student.guc.edu.eg",
+    password: "password123",
+    role: userRole.STUDENT,
+    studentId: "STU321",
+    status: userStatus.ACTIVE,
+    verified: true,
+  });
+}
+
+async function createWorkshop(registeredUsers: string[]) {
+  const start = new Date(Date.now() + 10 * DAY_MS);
+  return EventModel.create({
+    name: "Intro to Robotics, Part 1",
+    eventType: EventType.WORKSHOP,
+    description: "Hands-on session",
+    date: start,
+    location: Location.GUCCAIRO,
+    startDate: start,
+    endDate: new Date(start.getTime() + 2 * 60 * 60 * 1000),
+    registrationDeadline: new Date(Date.now() + 5 * DAY_MS),
+    fundingSource: FundingSource.GUC,
+    registeredUsers,
+  });
+}
+
+async function feedFor(userId: string) {
+  const link = await getCalendarFeedToken(userId);
+  return buildUserCalendarFeed(link.data!.token);
+}
+
+describe("getCalendarFeedToken", () => {
+  it("should reuse the token until it is rotated", async () => {
+    const student = await createStudent();
+
+    const first = await getCalendarFeedToken(student._id.toString());
+    const second = await getCalendarFeedToken(student._id.toString());
+    const rotated = await getCalendarFeedToken(student._id.toString(), true);
+
+    expect(first.data?.token).toHaveLength(48);
+    expect(second.data?.token).toBe(first.data?.token);
+    expect(rotated.data?.token).not.toBe(first.data?.token);
+    expect(rotated.data?.path).toBe(`/users/calendar/${rotated.data?.token}.ics`);
+
+    const stale = await buildUserCalendarFeed(first.data!.token);
+    expect(stale.statusCode).toBe(404);
+  });
+});
+
+describe("buildUserCalendarFeed", () => {
+  it("should list registered events and gym sessions", async () => {
+    const student = await createStudent();
+    const userId = student._id.toString();
+    const workshop = await createWorkshop([userId]);
+    const session = await GymSessionModel.create({
+      date: new Date("2030-01-07"),
+      time: "18:30",
+      duration: 45,
+      type: GymSessionType.PILATES,
+      maxParticipants: 10,
+      registeredUsers: [userId],
+    });
+
+    const result = await feedFor(userId);
+
+    expect(result.success).toBe(true);
+    const ics = result.data!;
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain(`UID:${calendarUid("event", workshop._id.toString())}`);
+    expect(ics).toContain("SUMMARY:Intro to Robotics\\, Part 1");
+    expect(ics).toContain(`UID:${calendarUid("gym", session._id.toString())}`);
+    expect(ics).toContain("DTSTART:20300107T163000Z");
+    expect(ics).toContain("DTEND:20300107T171500Z");
+  });
+
+  it("should bump SEQUENCE when a gym session is edited", async () => {
+    const student = await createStudent();
+    const userId = student._id.toString();
+    const session = await GymSessionModel.create({
+      date: new Date("2030-01-07"),
+      time: "18:30",
+      duration: 45,
+      type: GymSessionType.YOGA,
+      maxParticipants: 10,
+      registeredUsers: [userId],
+    });
+
+    await editGymSession(session._id.toString(), { time: "19:00" });
+    const result = await feedFor(userId);
+
+    expect(result.data).toContain("DTSTART:20300107T170000Z");
+    expect(result.data).toContain("SEQUENCE:1");
+  });
+
+  it("should keep cancelled gym sessions as CANCELLED entries", async () => {
+    const student = await createStudent();
+    const userId = student._id.toString();
+    const session = await GymSessionModel.create({
+      date: new Date("2030-01-07"),
+      time: "18:30",
+      duration: 45,
+      type: GymSessionType.CARDIO,
+      maxParticipants: 10,
+      registeredUsers: [userId],
+    });
+
+    await cancelGymSession(session._id.toString());
+    const result = await feedFor(userId);
+
+    expect(result.data).toContain(`UID:${calendarUid("gym", session._id.toString())}`);
+    expect(result.data).toContain("STATUS:CANCELLED");
+    expect(result.data).toContain("SEQUENCE:1");
+    expect(result.data).toContain("DTSTART:20300107T163000Z");
+    expect(result.data).toContain("DTEND:20300107T171500Z");
+  });
+
+  it("should return 404 for an unknown token", async () => {
+    const result = await buildUserCalendarFeed("a".repeat(48));
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(404);
+  });
+});
+
+describe("buildEventCalendarFile", () => {
+  it("should build a single-event calendar file", async () => {
+    const workshop = await createWorkshop([]);
+
+    const result = await buildEventCalendarFile(workshop._id.toString());
+
+    expect(result.success).toBe(true);
+    expect(result.data?.filename).toBe("intro-to-robotics-part-1.ics");
+    expect(result.data?.content).toContain("LOCATION:GUC Cairo");
+    expect(result.data?.content.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+});
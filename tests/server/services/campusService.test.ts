@@ -0,0 +1,187 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose, { Types } from "mongoose";
+import CourtPaymentModel from "../../../server/models/CourtPayment";
+import EventModel, {
+  EventType,
+  FundingSource,
+  Location,
+} from "../../../server/models/Event";
+import UserModel, { userRole } from "../../../server/models/User";
+import UserPaymentModel from "../../../server/models/UserPayment";
+import {
+  getCampusCurrency,
+  getCampusTimeZone,
+  isWalletCurrency,
+  listCampusSettings,
+  timezoneOffsetMinutes,
+} from "../../../server/services/campusService";
+import { getEventSalesReport } from "../../../server/services/eventService";
+import { payByWallet } from "../../../server/services/paymentService";
+
+jest.mock("../../../server/services/emailService");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("campus settings", () => {
+  it("should charge Berlin events in euros", () => {
+    expect(getCampusCurrency(Location.GUCCBERLIN)).toBe("EUR");
+    expect(getCampusTimeZone(Location.GUCCBERLIN)).toBe("Europe/Berlin");
+  });
+
+  it("should fall back to Cairo for unknown locations", () => {
+    expect(getCampusCurrency("Somewhere else")).toBe("EGP");
+    expect(getCampusTimeZone(undefined)).toBe("Africa/Cairo");
+  });
+
+  it("should only accept the home currency in wallets", () => {
+    expect(isWalletCurrency("egp")).toBe(true);
+    expect(isWalletCurrency(undefined)).toBe(true);
+    expect(isWalletCurrency("EUR")).toBe(false);
+  });
+
+  it("should list every campus for the web app", () => {
+    expect(listCampusSettings()).toEqual({
+      walletCurrency: "EGP",
+      campuses: [
+        { location: Location.GUCCAIRO, currency: "EGP", timeZone: "Africa/Cairo" },
+        { location: Location.GUCCBERLIN, currency: "EUR", timeZone: "Europe/Berlin" },
+      ],
+    });
+  });
+
+  it("should report how far a time zone is ahead of UTC", () => {
+    const winter = new Date("2030-01-07T12:00:00.000Z");
+
+    expect(timezoneOffsetMinutes(winter, "Africa/Cairo")).toBe(120);
+    expect(timezoneOffsetMinutes(winter, "Europe/Berlin")).toBe(60);
+    expect(timezoneOffsetMinutes(winter, "Not/AZone")).toBe(0);
+  });
+});
+
+describe("campus currencies", () => {
+  let mongoServer: MongoMemoryServer;
+
+  beforeAll(async () => {
+    process.env.ENCRYPTION_SALT_ROUNDS = "4";
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  afterEach(async () => {
+    const collections = mongoose.connection.collections;
+    for (const key in collections) {
+      await collections[key].deleteMany({});
+    }
+    jest.restoreAllMocks();
+  });
+
+  async function createStudent(balance = 0) {
+    return UserModel.create({
+      firstName: "Campus",
+      lastName: "Traveller",
+      email: "campus@student.guc.edu.eg",
+      password: "password123",
+      role: userRole.STUDENT,
+      studentId: "STU880",
+      verified: true,
+      balance,
+    });
+  }
+
+  async function createTrip(location: Location, revenue = 0, name = "Campus Trip") {
+    const now = Date.now();
+    return EventModel.create({
+      name,
+      eventType: EventType.TRIP,
+      description: "Day trip",
+      date: new Date(now + 30 * DAY_MS),
+      location,
+      capacity: 10,
+      startDate: new Date(now + 30 * DAY_MS),
+      endDate: new Date(now + 31 * DAY_MS),
+      registrationDeadline: new Date(now + 20 * DAY_MS),
+      price: 40,
+      revenue,
+      fundingSource: FundingSource.GUC,
+    });
+  }
+
+  it("should refuse wallet payments for events outside the wallet currency", async () => {
+    const student = await createStudent(500);
+    const trip = await createTrip(Location.GUCCBERLIN);
+
+    const result = await payByWallet(trip._id.toString(), student._id.toString());
+
+    expect(result).toMatchObject({ success: false, statusCode: 400 });
+    expect(result.message).toMatch(/charged in EUR and can only be paid by card/);
+    expect((await UserModel.findById(student._id))?.balance).toBe(500);
+    expect(await UserPaymentModel.countDocuments()).toBe(0);
+    expect((await EventModel.findById(trip._id))?.registeredUsers ?? []).toHaveLength(0);
+  });
+
+  it("should still take wallet payments for Cairo events", async () => {
+    const student = await createStudent(500);
+    const trip = await createTrip(Location.GUCCAIRO);
+
+    const result = await payByWallet(trip._id.toString(), student._id.toString());
+
+    expect(result.success).toBe(true);
+    expect(result.data?.currency).toBe("EGP");
+  });
+
+  it("should total sales per currency instead of adding euros to pounds", async () => {
+    await createTrip(Location.GUCCAIRO, 300, "Fayoum Trip");
+    await createTrip(Location.GUCCAIRO, 200, "Siwa Trip");
+    await createTrip(Location.GUCCBERLIN, 45, "Potsdam Trip");
+    await CourtPaymentModel.create({
+      userId: new Types.ObjectId(),
+      courtId: new Types.ObjectId(),
+      date: new Date(),
+      startTime: "18:00",
+      endTime: "19:00",
+      amount: 150,
+      currency: "EGP",
+      receiptNumber: "CRT-fixture",
+    });
+
+    const result = await getEventSalesReport({});
+
+    expect(result.success).toBe(true);
+    expect(
+      result.data?.events.find((event) => event.name === "Potsdam Trip")?.currency
+    ).toBe("EUR");
+    expect(result.data?.totals).toEqual([
+      { currency: "EGP", eventRevenue: 500, courtRevenue: 150, totalRevenue: 650 },
+      { currency: "EUR", eventRevenue: 45, courtRevenue: 0, totalRevenue: 45 },
+    ]);
+  });
+
+  it("should leave courts out of campus-filtered totals", async () => {
+    await createTrip(Location.GUCCBERLIN, 45, "Potsdam Trip");
+    await CourtPaymentModel.create({
+      userId: new Types.ObjectId(),
+      courtId: new Types.ObjectId(),
+      date: new Date(),
+      startTime: "18:00",
+      endTime: "19:00",
+      amount: 150,
+      receiptNumber: "CRT-fixture",
+    });
+
+    const result = await getEventSalesReport({ location: Location.GUCCBERLIN });
+
+    expect(result.data?.courts).toHaveLength(0);
+    expect(result.data?.totals).toEqual([
+      { currency: "EUR", eventRevenue: 45, courtRevenue: 0, totalRevenue: 45 },
+    ]);
+  });
+});
@@ -0,0 +1,568 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import Stripe from "stripe";
+import CouponModel from "../../../server/models/Coupon";
+import CourtModel, { CourtType } from "../../../server/models/Court";
+import CourtPaymentModel, {
+  ICourtPayment,
+} from "../../../server/models/CourtPayment";
+import CourtReservationModel from "../../../server/models/CourtReservation";
+import DiscountRedemptionModel, {
+  DiscountRedemptionStatus,
+} from "../../../server/models/DiscountRedemption";
+import UserModel, { userRole } from "../../../server/models/User";
+import { StripeWebhookStatus } from "../../../server/models/StripeWebhookEvent";
+import {
+  calculateCourtPrice,
+  describeCourt,
+  describeCourtSlot,
+} from "../../../server/services/courtPaymentService";
+import {
+  cancelCourtReservation,
+  createCourtReservationPaymentIntent,
+  reconcileCourtPaymentIntent,
+  reserveCourtSlot,
+} from "../../../server/services/courtService";
+import { handleStripeWebhook } from "../../../server/services/stripeWebhookService";
+
+type StripeClientMock = {
+  paymentIntents: { create: jest.Mock; retrieve: jest.Mock; cancel: jest.Mock };
+  refunds: { create: jest.Mock };
+};
+
+jest.mock("../../../server/services/emailService");
+jest.mock("stripe", () => {
+  const actual = jest.requireActual("stripe");
+  // The Stripe clients are created when the payment services load
+  process.env.STRIPE_SECRET_KEY = "sk_test_court";
+  const client = {
+    paymentIntents: { create: jest.fn(), retrieve: jest.fn(), cancel: jest.fn() },
+    refunds: { create: jest.fn() },
+  };
+  return {
+    __esModule: true,
+    default: Object.assign(
+      jest.fn().mockImplementation(() => client),
+      { webhooks: actual.webhooks ?? actual.default.webhooks }
+    ),
+  };
+});
+
+// Every service shares the one mocked client
+const stripeClient = new (Stripe as unknown as new (
+  key: string
+) => StripeClientMock)("sk_test_court");
+
+const WEBHOOK_SECRET = "whsec_court_fixture";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  process.env.ENCRYPTION_SALT_ROUNDS = "4";
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  stripeClient.paymentIntents.create.mockReset();
+  stripeClient.refunds.create.mockReset();
+  stripeClient.refunds.create.mockResolvedValue({ id: "re_court_fixture" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+function daysFromToday(days: number) {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+async function createPaidCourt(pricePerHour = 200) {
+  return CourtModel.create({
+    type: CourtType.TENNIS,
+    venue: "Sports Center",
+    timezone: "UTC",
+    bookingSlotMinutes: 60,
+    bufferMinutes: 0,
+    pricePerHour,
+    currency: "EGP",
+    openingHours: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+      weekday,
+      startTime: "08:00",
+      endTime: "22:00",
+    })),
+  });
+}
+
+async function createStudent(balance = 0, index = 1) {
+  return UserModel.create({
+    studentId: `20230${index}`,
+    firstName: "Court",
+    lastName: `Player${index}`,
+    email: `player${index}@student.guc.edu.eg`,
+    password: "password123",
+    role: userRole.STUDENT,
+    verified: true,
+    balance,
+  });
+}
+
+function courtIntent(
+  courtId: string,
+  userId: string,
+  date: string,
+  amount = 200
+) {
+  return {
+    id: "pi_court_fixture",
+    object: "payment_intent",
+    status: "succeeded",
+    amount: amount * 100,
+    amount_received: amount * 100,
+    currency: "egp",
+    metadata: {
+      purpose: "court_reservation",
+      courtId,
+      userId,
+      date,
+      startTime: "18:00",
+      endTime: "19:00",
+    },
+  } as unknown as Stripe.PaymentIntent;
+}
+
+function deliverWebhook(id: string, type: string, object: object) {
+  const payload = JSON.stringify({ id, object: "event", type, data: { object } });
+  const signature = Stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret: WEBHOOK_SECRET,
+  });
+  return handleStripeWebhook(Buffer.from(payload), signature);
+}
+
+function deliverRefund(amountRefunded: number, refunded: boolean) {
+  return deliverWebhook(`evt_court_refund_${amountRefunded}`, "charge.refunded", {
+    id: "ch_court_fixture",
+    object: "charge",
+    amount: 20000,
+    amount_refunded: amountRefunded,
+    currency: "egp",
+    refunded,
+    payment_intent: "pi_court_fixture",
+  });
+}
+
+async function bookByCard() {
+  const court = await createPaidCourt();
+  const student = await createStudent();
+  const date = daysFromToday(3);
+  const result = await reconcileCourtPaymentIntent(
+    courtIntent(court._id.toString(), student._id.toString(), date)
+  );
+  return { court, student, date, result };
+}
+
+describe("calculateCourtPrice", () => {
+  it("should charge the hourly rate pro rata for the slot length", () => {
+    expect(calculateCourtPrice(200, 60)).toBe(200);
+    expect(calculateCourtPrice(200, 90)).toBe(300);
+    expect(calculateCourtPrice(150, 45)).toBe(112.5);
+  });
+
+  it("should keep courts without a rate free", () => {
+    expect(calculateCourtPrice(undefined, 60)).toBe(0);
+    expect(calculateCourtPrice(0, 60)).toBe(0);
+    expect(calculateCourtPrice(-50, 60)).toBe(0);
+    expect(calculateCourtPrice(200, 0)).toBe(0);
+  });
+});
+
+describe("describeCourt", () => {
+  it("should label the court by its type", () => {
+    expect(describeCourt({ type: CourtType.TENNIS })).toBe("Tennis court");
+    expect(describeCourt(null)).toBe("Court");
+  });
+});
+
+describe("describeCourtSlot", () => {
+  it("should print the booking day and times", () => {
+    expect(
+      describeCourtSlot({
+        date: new Date("2025-03-04T00:00:00.000Z"),
+        startTime: "18:00",
+        endTime: "19:30",
+      })
+    ).toBe("2025-03-04, 18:00–19:30");
+  });
+});
+
+describe("paid court bookings by wallet", () => {
+  it("should debit the slot price and link the payment to the reservation", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent(500);
+
+    const result = await reserveCourtSlot(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00" }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.reservation.payment?.amount).toBe(200);
+    expect(result.data?.reservation.payment?.method).toBe("Wallet");
+    const user = await UserModel.findById(student._id);
+    expect(user?.balance).toBe(300);
+    const reservation = await CourtReservationModel.findById(
+      result.data?.reservation.id
+    );
+    const payment = await CourtPaymentModel.findById(reservation?.payment);
+    expect(payment?.reservationId?.toString()).toBe(result.data?.reservation.id);
+  });
+
+  it("should not book the slot when the wallet cannot cover it", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent(50);
+
+    const result = await reserveCourtSlot(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00" }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+    expect(await CourtReservationModel.countDocuments()).toBe(0);
+    expect(await CourtPaymentModel.countDocuments()).toBe(0);
+  });
+
+  it("should take a promo code off the price and record it on the payment", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent(500);
+    await CouponModel.create({ code: "SPRING20", discountRate: 20 });
+
+    const result = await reserveCourtSlot(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00", promoCode: "SPRING20" }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.message).toMatch(/20% off/);
+    expect(result.data?.reservation.payment?.amount).toBe(160);
+    const user = await UserModel.findById(student._id);
+    expect(user?.balance).toBe(340);
+    const payment = await CourtPaymentModel.findOne().lean<ICourtPayment | null>();
+    expect(payment?.discount).toMatchObject({
+      code: "SPRING20",
+      amount: 40,
+      originalAmount: 200,
+    });
+    expect(
+      await DiscountRedemptionModel.findOne({
+        reference: payment?.discountReference,
+      }).lean()
+    ).toMatchObject({ status: DiscountRedemptionStatus.REDEEMED });
+  });
+
+  it("should not book the slot once the promo code is used up", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent(500);
+    const rival = await createStudent(500, 2);
+    await CouponModel.create({
+      code: "SPRING20",
+      discountRate: 20,
+      maxRedemptions: 1,
+    });
+    await reserveCourtSlot(court._id.toString(), rival._id.toString(), {
+      date: daysFromToday(3),
+      startTime: "18:00",
+      promoCode: "SPRING20",
+    });
+
+    const result = await reserveCourtSlot(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "20:00", promoCode: "SPRING20" }
+    );
+
+    expect(result).toMatchObject({ success: false, statusCode: 400 });
+    expect(result.message).toMatch(/redemption limit/);
+    expect(await CourtReservationModel.countDocuments()).toBe(1);
+    const user = await UserModel.findById(student._id);
+    expect(user?.balance).toBe(500);
+  });
+
+  it("should give the promo code back when the booking is cancelled", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent(500);
+    await CouponModel.create({ code: "SPRING20", discountRate: 20 });
+    const booked = await reserveCourtSlot(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00", promoCode: "SPRING20" }
+    );
+
+    const result = await cancelCourtReservation(
+      booked.data?.reservation.id ?? "",
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    const user = await UserModel.findById(student._id);
+    expect(user?.balance).toBe(500);
+    expect(await DiscountRedemptionModel.findOne().lean()).toMatchObject({
+      status: DiscountRedemptionStatus.RELEASED,
+    });
+  });
+
+  it("should refund the wallet when cancelled before the cutoff", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent(500);
+    const booked = await reserveCourtSlot(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00" }
+    );
+
+    const result = await cancelCourtReservation(
+      booked.data?.reservation.id ?? "",
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe("Reservation cancelled and 200 EGP refunded");
+    const user = await UserModel.findById(student._id);
+    expect(user?.balance).toBe(500);
+    const payment = await CourtPaymentModel.findOne().lean<ICourtPayment | null>();
+    expect(payment?.status).toBe("Refunded");
+    expect(payment?.refundAmount).toBe(200);
+    expect(await CourtReservationModel.countDocuments()).toBe(0);
+  });
+});
+
+describe("paid court bookings by card", () => {
+  it("should start a card payment for the slot price", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent();
+    stripeClient.paymentIntents.create.mockResolvedValue({
+      id: "pi_court_fixture",
+      client_secret: "pi_court_fixture_secret",
+    });
+
+    const result = await createCourtReservationPaymentIntent(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00" }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.amount).toBe(200);
+    expect(stripeClient.paymentIntents.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 20000,
+        currency: "egp",
+        metadata: expect.objectContaining({ purpose: "court_reservation" }),
+      })
+    );
+    expect(await CourtReservationModel.countDocuments()).toBe(0);
+  });
+
+  it("should price the card payment with the promo code and hold it", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent();
+    await CouponModel.create({ code: "SPRING20", discountRate: 20 });
+    stripeClient.paymentIntents.create.mockResolvedValue({
+      id: "pi_court_fixture",
+      client_secret: "pi_court_fixture_secret",
+    });
+
+    const result = await createCourtReservationPaymentIntent(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00", promoCode: "SPRING20" }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.amount).toBe(160);
+    expect(stripeClient.paymentIntents.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 16000,
+        metadata: expect.objectContaining({ discountCode: "SPRING20" }),
+      })
+    );
+    expect(
+      await DiscountRedemptionModel.findOne({ reference: "pi_court_fixture" }).lean()
+    ).toMatchObject({ status: DiscountRedemptionStatus.RESERVED });
+  });
+
+  it("should give the promo code back when the card checkout is cancelled", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent();
+    await CouponModel.create({ code: "SPRING20", discountRate: 20 });
+    stripeClient.paymentIntents.create.mockResolvedValue({
+      id: "pi_court_fixture",
+      client_secret: "pi_court_fixture_secret",
+    });
+    await createCourtReservationPaymentIntent(
+      court._id.toString(),
+      student._id.toString(),
+      { date: daysFromToday(3), startTime: "18:00", promoCode: "SPRING20" }
+    );
+    const [{ metadata }] = stripeClient.paymentIntents.create.mock.calls[0];
+
+    const result = await deliverWebhook("evt_court_cancel", "payment_intent.canceled", {
+      id: "pi_court_fixture",
+      object: "payment_intent",
+      status: "canceled",
+      metadata,
+    });
+
+    expect(result.success).toBe(true);
+    expect(
+      await DiscountRedemptionModel.findOne({ reference: "pi_court_fixture" }).lean()
+    ).toMatchObject({ status: DiscountRedemptionStatus.RELEASED });
+  });
+
+  it("should book the slot when the payment succeeds", async () => {
+    const { result } = await bookByCard();
+
+    expect(result.success).toBe(true);
+    expect(result.data?.reservation.payment?.method).toBe("CreditCard");
+    expect(await CourtReservationModel.countDocuments()).toBe(1);
+    const payment = await CourtPaymentModel.findOne({
+      transactionReference: "pi_court_fixture",
+    }).lean<ICourtPayment | null>();
+    expect(payment?.status).toBe("Paid");
+    expect(payment?.amount).toBe(200);
+  });
+
+  it("should book the slot only once when the webhook repeats the browser", async () => {
+    const { court, student, date } = await bookByCard();
+
+    const second = await reconcileCourtPaymentIntent(
+      courtIntent(court._id.toString(), student._id.toString(), date)
+    );
+
+    expect(second.success).toBe(true);
+    expect(second.message).toBe("Payment already recorded.");
+    expect(await CourtReservationModel.countDocuments()).toBe(1);
+    expect(await CourtPaymentModel.countDocuments()).toBe(1);
+  });
+
+  it("should refund the card when the slot went while paying", async () => {
+    const court = await createPaidCourt();
+    const student = await createStudent();
+    const rival = await createStudent(500, 2);
+    const date = daysFromToday(3);
+    await reserveCourtSlot(court._id.toString(), rival._id.toString(), {
+      date,
+      startTime: "18:00",
+    });
+
+    const result = await reconcileCourtPaymentIntent(
+      courtIntent(court._id.toString(), student._id.toString(), date)
+    );
+
+    expect(result.success).toBe(true);
+    expect(stripeClient.refunds.create).toHaveBeenCalledWith({
+      payment_intent: "pi_court_fixture",
+      reason: "requested_by_customer",
+    });
+    expect(
+      await CourtPaymentModel.countDocuments({ transactionReference: "pi_court_fixture" })
+    ).toBe(0);
+  });
+
+  it("should refund the card when cancelled before the cutoff", async () => {
+    const { student, result: booked } = await bookByCard();
+
+    const result = await cancelCourtReservation(
+      booked.data?.reservation.id ?? "",
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(stripeClient.refunds.create).toHaveBeenCalledWith({
+      payment_intent: "pi_court_fixture",
+      reason: "requested_by_customer",
+    });
+    const payment = await CourtPaymentModel.findOne().lean<ICourtPayment | null>();
+    expect(payment?.status).toBe("Refunded");
+    expect(payment?.stripeRefundId).toBe("re_court_fixture");
+    expect(await CourtReservationModel.countDocuments()).toBe(0);
+  });
+
+  it("should keep the reservation when the card refund fails", async () => {
+    const { student, result: booked } = await bookByCard();
+    stripeClient.refunds.create.mockRejectedValue(new Error("Stripe is down"));
+
+    const result = await cancelCourtReservation(
+      booked.data?.reservation.id ?? "",
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(502);
+    expect(await CourtReservationModel.countDocuments()).toBe(1);
+    const payment = await CourtPaymentModel.findOne().lean<ICourtPayment | null>();
+    expect(payment?.status).toBe("Paid");
+  });
+});
+
+describe("court card refunds from the Stripe dashboard", () => {
+  it("should cancel the reservation after a full refund", async () => {
+    const { student } = await bookByCard();
+
+    const result = await deliverRefund(20000, true);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe(StripeWebhookStatus.PROCESSED);
+    const payment = await CourtPaymentModel.findOne().lean<ICourtPayment | null>();
+    expect(payment?.status).toBe("Refunded");
+    expect(payment?.refundAmount).toBe(200);
+    expect(await CourtReservationModel.countDocuments()).toBe(0);
+    const user = await UserModel.findById(student._id);
+    expect(user?.reservedCourts).toHaveLength(0);
+  });
+
+  it("should keep the slot booked after a partial refund", async () => {
+    await bookByCard();
+
+    const result = await deliverRefund(5000, false);
+
+    expect(result.success).toBe(true);
+    const payment = await CourtPaymentModel.findOne().lean<ICourtPayment | null>();
+    expect(payment?.status).toBe("Paid");
+    expect(payment?.refundAmount).toBe(50);
+    expect(await CourtReservationModel.countDocuments()).toBe(1);
+  });
+
+  it("should not record a refund it issued itself twice", async () => {
+    const { student, result: booked } = await bookByCard();
+    await cancelCourtReservation(
+      booked.data?.reservation.id ?? "",
+      student._id.toString()
+    );
+
+    const result = await deliverRefund(20000, true);
+
+    expect(result.success).toBe(true);
+    const payment = await CourtPaymentModel.findOne().lean<ICourtPayment | null>();
+    expect(payment?.refundAmount).toBe(200);
+    expect(payment?.refundReference).toBeDefined();
+  });
+});
@@ -7,6 +7,11 @@ import {
   viewAllCourts,
   getCourtAvailability,
   reserveCourtSlot,
+  previewRecurringCourtReservation,
+  reserveRecurringCourtSlots,
+  cancelCourtReservationSeries,
+  cancelCourtReservation,
+  markCourtReservationNoShow,
 } from "../../../server/services/courtService";
 
 let mongoServer: MongoMemoryServer;
@@ -1151,3 +1156,455 @@ describe("Edge Cases and Security", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("recurring court reservations", () => {
+  const validCourtData = {
+    type: CourtType.FOOTBALL,
+    venue: "Sports Center",
+    timezone: "Africa/Cairo",
+    bookingSlotMinutes: 60,
+    bufferMinutes: 0,
+    openingHours: [{ weekday: 1, startTime: "17:00", endTime: "21:00" }],
+  };
+
+  const validUserData = {
+    studentId: "2023001",
+    firstName: "John",
+    lastName: "Doe",
+    email: "john@example.com",
+    password: "password123",
+    role: "Student",
+    status: "Active",
+    verified: true,
+  };
+
+  function upcomingMonday(weeksAhead = 1) {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    const daysUntilMonday = (8 - date.getUTCDay()) % 7 || 7;
+    date.setUTCDate(date.getUTCDate() + daysUntilMonday + (weeksAhead - 1) * 7);
+    return date;
+  }
+
+  function toKey(date: Date) {
+    return date.toISOString().slice(0, 10);
+  }
+
+  it("should preview every weekly occurrence as available", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+
+    const result = await previewRecurringCourtReservation(
+      court._id.toString(),
+      user._id.toString(),
+      { startDate: toKey(upcomingMonday()), startTime: "18:00", weeks: 4 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.occurrences).toHaveLength(4);
+    expect(result.data!.availableCount).toBe(4);
+    expect(result.data!.occurrences[1].date).toBe(toKey(upcomingMonday(2)));
+  });
+
+  it("should flag reserved dates and exceptions in the preview", async () => {
+    const court = await CourtModel.create({
+      ...validCourtData,
+      exceptions: [
+        { startDate: upcomingMonday(3), endDate: upcomingMonday(3), reason: "Maintenance" },
+      ],
+    });
+    const user = await UserModel.create(validUserData);
+    const other = await UserModel.create({
+      ...validUserData,
+      studentId: "2023002",
+      email: "jane@example.com",
+    });
+
+    await CourtReservationModel.create({
+      court: court._id,
+      user: other._id,
+      date: upcomingMonday(2),
+      startTime: "18:00",
+      endTime: "19:00",
+      studentName: "Jane Doe",
+      studentGucId: "2023002",
+    });
+
+    const result = await previewRecurringCourtReservation(
+      court._id.toString(),
+      user._id.toString(),
+      { startDate: toKey(upcomingMonday()), startTime: "18:00", weeks: 3 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.availableCount).toBe(1);
+    expect(result.data!.occurrences[1].reason).toBe(
+      "Selected slot is already reserved"
+    );
+    expect(result.data!.occurrences[2].reason).toBe(
+      "Court unavailable on this date"
+    );
+  });
+
+  it("should expand an until date into weekly occurrences", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+
+    const result = await previewRecurringCourtReservation(
+      court._id.toString(),
+      user._id.toString(),
+      {
+        startDate: toKey(upcomingMonday()),
+        startTime: "18:00",
+        until: toKey(upcomingMonday(3)),
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.occurrences).toHaveLength(3);
+  });
+
+  it("should reject requests with both weeks and until", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+
+    const result = await previewRecurringCourtReservation(
+      court._id.toString(),
+      user._id.toString(),
+      {
+        startDate: toKey(upcomingMonday()),
+        startTime: "18:00",
+        weeks: 2,
+        until: toKey(upcomingMonday(3)),
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should book free occurrences under one series and skip conflicts", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const other = await UserModel.create({
+      ...validUserData,
+      studentId: "2023002",
+      email: "jane@example.com",
+    });
+
+    await CourtReservationModel.create({
+      court: court._id,
+      user: other._id,
+      date: upcomingMonday(2),
+      startTime: "18:00",
+      endTime: "19:00",
+      studentName: "Jane Doe",
+      studentGucId: "2023002",
+    });
+
+    const result = await reserveRecurringCourtSlots(
+      court._id.toString(),
+      user._id.toString(),
+      { startDate: toKey(upcomingMonday()), startTime: "18:00", weeks: 3 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.statusCode).toBe(201);
+    expect(result.data!.reservations).toHaveLength(2);
+    expect(result.data!.skipped).toHaveLength(1);
+
+    const stored = await CourtReservationModel.find({
+      seriesId: result.data!.seriesId,
+    });
+    expect(stored).toHaveLength(2);
+
+    const updatedUser = await UserModel.findById(user._id);
+    expect(updatedUser!.reservedCourts).toHaveLength(2);
+  });
+
+  it("should cancel every upcoming occurrence of a series", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+
+    const booking = await reserveRecurringCourtSlots(
+      court._id.toString(),
+      user._id.toString(),
+      { startDate: toKey(upcomingMonday()), startTime: "18:00", weeks: 3 }
+    );
+
+    const result = await cancelCourtReservationSeries(
+      booking.data!.seriesId,
+      user._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.cancelledCount).toBe(3);
+    expect(await CourtReservationModel.countDocuments()).toBe(0);
+
+    const updatedUser = await UserModel.findById(user._id);
+    expect(updatedUser!.reservedCourts).toHaveLength(0);
+  });
+
+  it("should not let another student cancel the series", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const other = await UserModel.create({
+      ...validUserData,
+      studentId: "2023002",
+      email: "jane@example.com",
+    });
+
+    const booking = await reserveRecurringCourtSlots(
+      court._id.toString(),
+      user._id.toString(),
+      { startDate: toKey(upcomingMonday()), startTime: "18:00", weeks: 2 }
+    );
+
+    const result = await cancelCourtReservationSeries(
+      booking.data!.seriesId,
+      other._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(404);
+  });
+});
+
+describe("court cancellation, quotas and no-shows", () => {
+  const validCourtData = {
+    type: CourtType.FOOTBALL,
+    venue: "Sports Center",
+    timezone: "UTC",
+    bookingSlotMinutes: 60,
+    bufferMinutes: 0,
+    openingHours: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+      weekday,
+      startTime: "00:00",
+      endTime: "23:00",
+    })),
+  };
+
+  const validUserData = {
+    studentId: "2023001",
+    firstName: "John",
+    lastName: "Doe",
+    email: "john@example.com",
+    password: "password123",
+    role: "Student",
+    status: "Active",
+    verified: true,
+  };
+
+  function daysFromToday(days: number) {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date;
+  }
+
+  async function createReservation(
+    courtId: unknown,
+    userId: unknown,
+    date: Date,
+    startTime: string
+  ) {
+    const [hours] = startTime.split(":").map(Number);
+    return CourtReservationModel.create({
+      court: courtId,
+      user: userId,
+      date,
+      startTime,
+      endTime: `${String(hours + 1).padStart(2, "0")}:00`,
+      studentName: "John Doe",
+      studentGucId: "2023001",
+    });
+  }
+
+  it("should cancel a reservation outside the cutoff window", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const reservation = await createReservation(
+      court._id,
+      user._id,
+      daysFromToday(3),
+      "18:00"
+    );
+
+    const result = await cancelCourtReservation(
+      reservation._id.toString(),
+      user._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(await CourtReservationModel.countDocuments()).toBe(0);
+  });
+
+  it("should refuse to cancel once the cutoff has passed", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const reservation = await createReservation(
+      court._id,
+      user._id,
+      daysFromToday(-1),
+      "18:00"
+    );
+
+    const result = await cancelCourtReservation(
+      reservation._id.toString(),
+      user._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+    expect(await CourtReservationModel.countDocuments()).toBe(1);
+  });
+
+  it("should not let a student cancel someone else's reservation", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const other = await UserModel.create({
+      ...validUserData,
+      studentId: "2023002",
+      email: "jane@example.com",
+    });
+    const reservation = await createReservation(
+      court._id,
+      user._id,
+      daysFromToday(3),
+      "18:00"
+    );
+
+    const result = await cancelCourtReservation(
+      reservation._id.toString(),
+      other._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("should enforce the weekly quota per court type", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const target = daysFromToday(14);
+    const sameWeek = new Date(target);
+    sameWeek.setUTCDate(sameWeek.getUTCDate() - sameWeek.getUTCDay());
+
+    await createReservation(court._id, user._id, sameWeek, "10:00");
+    await createReservation(court._id, user._id, sameWeek, "11:00");
+
+    const result = await reserveCourtSlot(
+      court._id.toString(),
+      user._id.toString(),
+      { date: target.toISOString().slice(0, 10), startTime: "18:00" }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(409);
+    expect(result.message).toBe("Weekly limit of 2 football reservations reached");
+  });
+
+  it("should not record a no-show before the slot starts", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const reservation = await createReservation(
+      court._id,
+      user._id,
+      daysFromToday(3),
+      "18:00"
+    );
+
+    const result = await markCourtReservationNoShow(
+      reservation._id.toString(),
+      "staff-id",
+      true
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should suspend booking after repeated no-shows", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const reservations = await Promise.all(
+      [-3, -2, -1].map((offset) =>
+        createReservation(court._id, user._id, daysFromToday(offset), "10:00")
+      )
+    );
+
+    const results = [];
+    for (const reservation of reservations) {
+      results.push(
+        await markCourtReservationNoShow(
+          reservation._id.toString(),
+          "staff-id",
+          true
+        )
+      );
+    }
+
+    expect(results[1].data!.suspendedUntil).toBeUndefined();
+    expect(results[2].data!.suspendedUntil).toBeDefined();
+
+    const suspended = await UserModel.findById(user._id);
+    expect(suspended!.courtSuspendedUntil).toBeDefined();
+    expect(suspended!.notifications).toHaveLength(1);
+
+    const attempt = await reserveCourtSlot(
+      court._id.toString(),
+      user._id.toString(),
+      { date: daysFromToday(2).toISOString().slice(0, 10), startTime: "18:00" }
+    );
+
+    expect(attempt.success).toBe(false);
+    expect(attempt.statusCode).toBe(403);
+  });
+
+  async function markNoShows(courtId: unknown, userId: unknown) {
+    const reservations = await Promise.all(
+      [-3, -2, -1].map((offset) =>
+        createReservation(courtId, userId, daysFromToday(offset), "10:00")
+      )
+    );
+    for (const reservation of reservations) {
+      await markCourtReservationNoShow(reservation._id.toString(), "staff-id", true);
+    }
+    return reservations;
+  }
+
+  it("should not extend the suspension when a no-show is marked again", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const reservations = await markNoShows(court._id, user._id);
+    const before = await UserModel.findById(user._id);
+
+    const result = await markCourtReservationNoShow(
+      reservations[2]._id.toString(),
+      "staff-id",
+      true
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.suspendedUntil).toBeUndefined();
+    const after = await UserModel.findById(user._id);
+    expect(after!.courtSuspendedUntil).toEqual(before!.courtSuspendedUntil);
+    expect(after!.notifications).toHaveLength(1);
+  });
+
+  it("should lift the suspension when a no-show is cleared below the limit", async () => {
+    const court = await CourtModel.create(validCourtData);
+    const user = await UserModel.create(validUserData);
+    const reservations = await markNoShows(court._id, user._id);
+
+    const result = await markCourtReservationNoShow(
+      reservations[0]._id.toString(),
+      "staff-id",
+      false
+    );
+
+    expect(result.success).toBe(true);
+    const cleared = await UserModel.findById(user._id);
+    expect(cleared!.courtSuspendedUntil).toBeUndefined();
+  });
+});
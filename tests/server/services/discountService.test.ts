@@ -0,0 +1,308 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose, { Types } from "mongoose";
+import CouponModel from "../../../server/models/Coupon";
+import { EventType } from "../../../server/models/Event";
+import DiscountCounterModel from "../../../server/models/DiscountCounter";
+import DiscountRedemptionModel, {
+  DiscountRedemptionStatus,
+} from "../../../server/models/DiscountRedemption";
+import UserPaymentModel, {
+  DiscountSource,
+  IPaymentDiscount,
+} from "../../../server/models/UserPayment";
+import {
+  LOYALTY_CODE_GRACE_DAYS,
+  calculateDiscount,
+  checkRedemptionLimits,
+  checkRedemptionWindow,
+  discountFromMetadata,
+  discountToMetadata,
+  loyaltyCodeExpiresAt,
+  normalizeDiscountCode,
+  redeemDiscountRedemption,
+  releaseDiscountRedemption,
+  releaseDiscountReservation,
+  releaseExpiredDiscountReservations,
+  reserveDiscountRedemption,
+  resolveDiscount,
+} from "../../../server/services/discountService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-03-01T10:00:00.000Z");
+
+describe("normalizeDiscountCode", () => {
+  it("should upper-case codes and join words with dashes", () => {
+    expect(normalizeDiscountCode("  spring  sale ")).toBe("SPRING-SALE");
+  });
+});
+
+describe("calculateDiscount", () => {
+  it("should round the discount to piasters", () => {
+    expect(calculateDiscount(199.99, 15)).toEqual({
+      amount: 30,
+      finalAmount: 169.99,
+    });
+  });
+
+  it("should never discount below zero", () => {
+    expect(calculateDiscount(300, 100).finalAmount).toBe(0);
+  });
+});
+
+describe("checkRedemptionWindow", () => {
+  it("should accept codes without a window", () => {
+    expect(checkRedemptionWindow({}, now)).toBeNull();
+  });
+
+  it("should reject codes that have not started", () => {
+    const message = checkRedemptionWindow(
+      { validFrom: new Date(now.getTime() + DAY_MS) },
+      now
+    );
+
+    expect(message).toMatch(/valid from/);
+  });
+
+  it("should reject expired codes", () => {
+    const message = checkRedemptionWindow(
+      { validUntil: new Date(now.getTime() - DAY_MS) },
+      now
+    );
+
+    expect(message).toMatch(/expired/);
+  });
+});
+
+describe("checkRedemptionLimits", () => {
+  it("should stop at the total limit", () => {
+    expect(
+      checkRedemptionLimits({ maxRedemptions: 50 }, { total: 50, byUser: 0 })
+    ).toMatch(/redemption limit/);
+  });
+
+  it("should stop users at their own limit", () => {
+    expect(
+      checkRedemptionLimits({ perUserLimit: 1 }, { total: 3, byUser: 1 })
+    ).toBe("You have already used this promo code.");
+  });
+
+  it("should allow redemptions under both limits", () => {
+    expect(
+      checkRedemptionLimits(
+        { maxRedemptions: 50, perUserLimit: 2 },
+        { total: 49, byUser: 1 }
+      )
+    ).toBeNull();
+  });
+});
+
+describe("loyaltyCodeExpiresAt", () => {
+  it("should not expire active programs", () => {
+    expect(loyaltyCodeExpiresAt({ status: "active" })).toBeUndefined();
+  });
+
+  it("should fall back to the grace period after cancellation", () => {
+    expect(loyaltyCodeExpiresAt({ status: "cancelled", cancelledAt: now })).toEqual(
+      new Date(now.getTime() + LOYALTY_CODE_GRACE_DAYS * DAY_MS)
+    );
+  });
+});
+
+describe("discount metadata", () => {
+  it("should restore the snapshot stored on a payment intent", () => {
+    const vendorId = new Types.ObjectId().toString();
+    const metadata = discountToMetadata({
+      code: "CAFE20",
+      source: DiscountSource.LOYALTY,
+      vendorId,
+      label: "Cafe loyalty offer",
+      discountRate: 20,
+      originalAmount: 300,
+      amount: 60,
+      finalAmount: 240,
+    });
+
+    const restored = discountFromMetadata({ eventId: "e", userId: "u", ...metadata });
+
+    expect(restored).toMatchObject({
+      code: "CAFE20",
+      source: DiscountSource.LOYALTY,
+      discountRate: 20,
+      amount: 60,
+      originalAmount: 300,
+    });
+    expect(restored?.vendorId?.toString()).toBe(vendorId);
+    expect(restored?.couponId).toBeUndefined();
+  });
+
+  it("should ignore intents without a code", () => {
+    expect(discountFromMetadata({ eventId: "e", userId: "u" })).toBeUndefined();
+  });
+});
+
+describe("redemption holds", () => {
+  let mongoServer: MongoMemoryServer;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+    await Promise.all([
+      DiscountCounterModel.syncIndexes(),
+      DiscountRedemptionModel.syncIndexes(),
+    ]);
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  afterEach(async () => {
+    const collections = mongoose.connection.collections;
+    for (const key in collections) {
+      await collections[key].deleteMany({});
+    }
+  });
+
+  async function couponDiscount(
+    limits: { maxRedemptions?: number; perUserLimit?: number }
+  ): Promise<IPaymentDiscount> {
+    const coupon = await CouponModel.create({
+      code: "SPRING20",
+      discountRate: 20,
+      ...limits,
+    });
+    return {
+      code: "SPRING20",
+      source: DiscountSource.COUPON,
+      couponId: coupon._id,
+      discountRate: 20,
+      amount: 60,
+      originalAmount: 300,
+    };
+  }
+
+  const userA = new Types.ObjectId().toString();
+  const userB = new Types.ObjectId().toString();
+
+  it("should give the last redemption to only one of two racing checkouts", async () => {
+    const discount = await couponDiscount({ maxRedemptions: 1 });
+
+    const results = await Promise.all([
+      reserveDiscountRedemption(discount, userA, "pi_first"),
+      reserveDiscountRedemption(discount, userB, "pi_second"),
+    ]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.find((result) => !result.success)?.message).toMatch(
+      /redemption limit/
+    );
+  });
+
+  it("should stop a user at their own limit but not others", async () => {
+    const discount = await couponDiscount({ perUserLimit: 1 });
+
+    await reserveDiscountRedemption(discount, userA, "pi_first");
+    const again = await reserveDiscountRedemption(discount, userA, "pi_second");
+    const other = await reserveDiscountRedemption(discount, userB, "pi_third");
+
+    expect(again).toMatchObject({
+      success: false,
+      message: "You have already used this promo code.",
+    });
+    expect(other.success).toBe(true);
+  });
+
+  it("should count a checkout confirmed twice only once", async () => {
+    const discount = await couponDiscount({ maxRedemptions: 2 });
+
+    await reserveDiscountRedemption(discount, userA, "pi_first");
+    await redeemDiscountRedemption(discount, userA, "pi_first");
+    await redeemDiscountRedemption(discount, userA, "pi_first");
+    const other = await redeemDiscountRedemption(discount, userB, "PAY-wallet");
+
+    expect(other.success).toBe(true);
+    expect(
+      await DiscountRedemptionModel.findOne({ reference: "pi_first" }).lean()
+    ).toMatchObject({ status: DiscountRedemptionStatus.REDEEMED });
+  });
+
+  it("should give the redemption back once when released repeatedly", async () => {
+    const discount = await couponDiscount({ maxRedemptions: 2 });
+    await redeemDiscountRedemption(discount, userA, "pi_first");
+    await redeemDiscountRedemption(discount, userA, "pi_second");
+
+    expect(await releaseDiscountRedemption("pi_first")).toBe(true);
+    expect(await releaseDiscountRedemption("pi_first")).toBe(false);
+
+    expect((await reserveDiscountRedemption(discount, userB, "pi_third")).success).toBe(
+      true
+    );
+    expect((await reserveDiscountRedemption(discount, userB, "pi_fourth")).success).toBe(
+      false
+    );
+  });
+
+  it("should keep redeemed codes when a declined attempt arrives late", async () => {
+    const discount = await couponDiscount({ maxRedemptions: 1 });
+    await redeemDiscountRedemption(discount, userA, "pi_first");
+
+    expect(await releaseDiscountReservation("pi_first")).toBe(false);
+    expect((await reserveDiscountRedemption(discount, userB, "pi_second")).success).toBe(
+      false
+    );
+  });
+
+  it("should release abandoned checkouts and re-check them when they are paid late", async () => {
+    const discount = await couponDiscount({ maxRedemptions: 1 });
+    const reservedAt = new Date("2025-03-01T10:00:00.000Z");
+    await reserveDiscountRedemption(
+      discount,
+      userA,
+      "pi_abandoned",
+      new Date(reservedAt.getTime() + 60 * 60 * 1000)
+    );
+
+    expect(
+      await releaseExpiredDiscountReservations(
+        new Date(reservedAt.getTime() + 2 * 60 * 60 * 1000)
+      )
+    ).toBe(1);
+    expect((await redeemDiscountRedemption(discount, userB, "PAY-wallet")).success).toBe(
+      true
+    );
+
+    const late = await redeemDiscountRedemption(discount, userA, "pi_abandoned");
+    expect(late).toMatchObject({ success: false, statusCode: 400 });
+  });
+
+  it("should count redemptions paid before holds existed", async () => {
+    const discount = await couponDiscount({ maxRedemptions: 1 });
+    await UserPaymentModel.create({
+      userId: userA,
+      eventId: new Types.ObjectId(),
+      amount: 240,
+      receiptNumber: "EVT-legacy",
+      status: "Paid",
+      discount,
+    });
+
+    const hold = await reserveDiscountRedemption(discount, userB, "pi_first");
+
+    expect(hold.success).toBe(false);
+  });
+
+  it("should refuse codes whose last redemption is held by an open checkout", async () => {
+    const discount = await couponDiscount({ maxRedemptions: 1 });
+    await reserveDiscountRedemption(discount, userA, "pi_first");
+
+    const result = await resolveDiscount("spring20", {
+      userId: userB,
+      amount: 300,
+      eventType: EventType.WORKSHOP,
+    });
+
+    expect(result).toMatchObject({ success: false, statusCode: 400 });
+    expect(result.message).toMatch(/redemption limit/);
+  });
+});
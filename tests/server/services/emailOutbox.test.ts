@@ -0,0 +1,218 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import EmailMessageModel, {
+  EmailStatus,
+} from "../../../server/models/EmailMessage";
+import {
+  enqueueEmail,
+  listOutboxMessages,
+  processEmailOutbox,
+  resendOutboxMessage,
+} from "../../../server/services/emailOutbox";
+
+const mockSend = jest.fn();
+
+jest.mock("../../../server/services/emailTransport", () => ({
+  getEmailTransport: jest.fn(async () => ({
+    name: "memory",
+    send: (...args: unknown[]) => mockSend(...args),
+  })),
+}));
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const mongoUri = mongoServer.getUri();
+  await mongoose.connect(mongoUri);
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  mockSend.mockReset();
+  mockSend.mockResolvedValue({ messageId: "<test@zapvent.local>" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+const message = {
+  to: "student@guc.edu.eg",
+  subject: "Certificate of Attendance",
+  html: "<p>Thanks for attending</p>",
+};
+
+describe("enqueueEmail", () => {
+  it("should persist and deliver the message right away", async () => {
+    const result = await enqueueEmail("WorkshopCertificate", message);
+
+    expect(result.status).toBe(EmailStatus.SENT);
+    expect(mockSend).toHaveBeenCalledWith(
+      expect.objectContaining({ to: message.to, subject: message.subject })
+    );
+
+    const stored = await EmailMessageModel.findById(result.id);
+    expect(stored?.status).toBe(EmailStatus.SENT);
+    expect(stored?.attempts).toBe(1);
+    expect(stored?.messageId).toBe("<test@zapvent.local>");
+    expect(stored?.sentAt).toBeDefined();
+  });
+
+  it("should keep the message queued with a backoff when delivery fails", async () => {
+    mockSend.mockRejectedValueOnce(new Error("SMTP unavailable"));
+    const before = Date.now();
+
+    const result = await enqueueEmail("WorkshopCertificate", message);
+
+    expect(result.status).toBe(EmailStatus.QUEUED);
+    expect(result.error).toBe("SMTP unavailable");
+
+    const stored = await EmailMessageModel.findById(result.id);
+    expect(stored?.status).toBe(EmailStatus.QUEUED);
+    expect(stored?.lastError).toBe("SMTP unavailable");
+    expect(stored?.nextAttemptAt.getTime()).toBeGreaterThan(before);
+  });
+
+  it("should mark the message failed once attempts are exhausted", async () => {
+    mockSend.mockRejectedValue(new Error("SMTP unavailable"));
+
+    const result = await enqueueEmail("Approval", message, { maxAttempts: 1 });
+
+    expect(result.status).toBe(EmailStatus.FAILED);
+  });
+
+  it("should store buffer attachments for retries", async () => {
+    mockSend.mockRejectedValueOnce(new Error("SMTP unavailable"));
+
+    const result = await enqueueEmail("UserEventPaymentReceipt", {
+      ...message,
+      attachments: [
+        { filename: "ticket.png", content: Buffer.from("png"), cid: "event-ticket" },
+      ],
+    });
+
+    const stored = await EmailMessageModel.findById(result.id);
+    expect(stored?.attachments).toHaveLength(1);
+    expect(stored?.attachments[0].cid).toBe("event-ticket");
+    expect(Buffer.from(stored!.attachments[0].content).toString()).toBe("png");
+  });
+});
+
+describe("processEmailOutbox", () => {
+  it("should retry due messages", async () => {
+    mockSend.mockRejectedValueOnce(new Error("SMTP unavailable"));
+    const queued = await enqueueEmail("WorkshopCertificate", message);
+    await EmailMessageModel.updateOne(
+      { _id: queued.id },
+      { nextAttemptAt: new Date(Date.now() - 1000) }
+    );
+
+    const result = await processEmailOutbox();
+
+    expect(result).toEqual({ attempted: 1, sent: 1 });
+    const stored = await EmailMessageModel.findById(queued.id);
+    expect(stored?.status).toBe(EmailStatus.SENT);
+    expect(stored?.attempts).toBe(2);
+  });
+
+  it("should skip messages whose backoff has not elapsed", async () => {
+    mockSend.mockRejectedValueOnce(new Error("SMTP unavailable"));
+    await enqueueEmail("WorkshopCertificate", message);
+
+    const result = await processEmailOutbox();
+
+    expect(result.attempted).toBe(0);
+  });
+
+  it("should requeue messages stuck in sending", async () => {
+    const stuck = await EmailMessageModel.create({
+      category: "Approval",
+      ...message,
+      status: EmailStatus.SENDING,
+      attempts: 1,
+    });
+    await EmailMessageModel.collection.updateOne(
+      { _id: stuck._id },
+      { $set: { updatedAt: new Date(Date.now() - 60 * 60 * 1000) } }
+    );
+
+    const result = await processEmailOutbox();
+
+    expect(result.sent).toBe(1);
+  });
+});
+
+describe("listOutboxMessages", () => {
+  it("should list failed messages with a status summary", async () => {
+    mockSend.mockRejectedValue(new Error("SMTP unavailable"));
+    await enqueueEmail("Approval", message, { maxAttempts: 1 });
+    await enqueueEmail("Rejection", message);
+
+    const result = await listOutboxMessages();
+
+    expect(result.success).toBe(true);
+    expect(result.data?.messages).toHaveLength(1);
+    expect(result.data?.messages[0].category).toBe("Approval");
+    expect(result.data?.summary[EmailStatus.FAILED]).toBe(1);
+    expect(result.data?.summary[EmailStatus.QUEUED]).toBe(1);
+  });
+
+  it("should reject unknown statuses", async () => {
+    const result = await listOutboxMessages({ status: "Bounced" });
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+});
+
+describe("resendOutboxMessage", () => {
+  it("should resend a failed message", async () => {
+    mockSend.mockRejectedValueOnce(new Error("SMTP unavailable"));
+    const failed = await enqueueEmail("Approval", message, { maxAttempts: 1 });
+
+    const result = await resendOutboxMessage(failed.id);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe(EmailStatus.SENT);
+  });
+
+  it("should requeue the message when the resend fails", async () => {
+    mockSend.mockRejectedValue(new Error("SMTP unavailable"));
+    const failed = await enqueueEmail("Approval", message, { maxAttempts: 2 });
+    await EmailMessageModel.updateOne(
+      { _id: failed.id },
+      { status: EmailStatus.FAILED }
+    );
+
+    const result = await resendOutboxMessage(failed.id);
+
+    expect(result.success).toBe(false);
+    expect(result.data?.status).toBe(EmailStatus.QUEUED);
+  });
+
+  it("should refuse to resend messages that did not fail", async () => {
+    const sent = await enqueueEmail("Approval", message);
+
+    const result = await resendOutboxMessage(sent.id);
+
+    expect(result.statusCode).toBe(409);
+  });
+
+  it("should return 404 for unknown messages", async () => {
+    const result = await resendOutboxMessage(
+      new mongoose.Types.ObjectId().toString()
+    );
+
+    expect(result.statusCode).toBe(404);
+  });
+});
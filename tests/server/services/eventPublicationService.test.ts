@@ -0,0 +1,218 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import EventModel, {
+  EventType,
+  FundingSource,
+  Location,
+  PublicationStatus,
+} from "../../../server/models/Event";
+import {
+  announceEvent,
+  isEventPublished,
+  parsePublicationInput,
+  publishDueEvents,
+  PUBLISHED_EVENT_FILTER,
+} from "../../../server/services/eventPublicationService";
+import {
+  getAllEvents,
+  IGetAllEventsResponse,
+} from "../../../server/services/eventService";
+import * as notificationService from "../../../server/services/notificationService";
+
+jest.mock("../../../server/services/emailService");
+jest.mock("../../../server/services/notificationService");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("parsePublicationInput", () => {
+  const now = new Date("2026-09-01T10:00:00Z");
+
+  it("should publish straight away when neither draft nor publishAt is given", () => {
+    const result = parsePublicationInput({ name: "Autumn bazaar" }, now);
+
+    expect(result).toEqual({
+      success: true,
+      fields: {
+        publicationStatus: PublicationStatus.PUBLISHED,
+        publishAt: undefined,
+        publishedAt: now,
+      },
+    });
+  });
+
+  it("should keep drafts unpublished and schedule future publish times", () => {
+    const draft = parsePublicationInput({ draft: "true" }, now);
+    const scheduled = parsePublicationInput(
+      { draft: true, publishAt: "2026-09-15T08:00:00Z" },
+      now
+    );
+
+    expect(draft.success && draft.fields.publicationStatus).toBe(PublicationStatus.DRAFT);
+    expect(scheduled.success && scheduled.fields).toEqual({
+      publicationStatus: PublicationStatus.SCHEDULED,
+      publishAt: new Date("2026-09-15T08:00:00Z"),
+      publishedAt: undefined,
+    });
+  });
+
+  it("should reject publish times that are invalid or already passed", () => {
+    expect(parsePublicationInput({ publishAt: "soon" }, now)).toEqual({
+      success: false,
+      message: "Publish time is invalid.",
+    });
+    expect(parsePublicationInput({ publishAt: "2026-08-31T10:00:00Z" }, now)).toEqual({
+      success: false,
+      message: "Publish time must be in the future.",
+    });
+  });
+});
+
+describe("isEventPublished", () => {
+  it("should treat events from before drafts existed as published", () => {
+    expect(isEventPublished({})).toBe(true);
+    expect(isEventPublished({ publicationStatus: PublicationStatus.PUBLISHED })).toBe(true);
+    expect(isEventPublished({ publicationStatus: PublicationStatus.SCHEDULED })).toBe(false);
+    expect(isEventPublished({ publicationStatus: PublicationStatus.UNPUBLISHED })).toBe(false);
+  });
+});
+
+describe("event publication", () => {
+  let mongoServer: MongoMemoryServer;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  beforeEach(() => {
+    (notificationService.notifyUsersOfNewEvent as jest.Mock).mockClear();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  afterEach(async () => {
+    const collections = mongoose.connection.collections;
+    for (const key in collections) {
+      await collections[key].deleteMany({});
+    }
+    jest.restoreAllMocks();
+  });
+
+  async function createTrip(name: string, fields: Record<string, unknown> = {}) {
+    const now = Date.now();
+    return EventModel.create({
+      name,
+      eventType: EventType.TRIP,
+      description: "Day trip",
+      date: new Date(now + 30 * DAY_MS),
+      location: Location.GUCCAIRO,
+      capacity: 10,
+      startDate: new Date(now + 30 * DAY_MS),
+      endDate: new Date(now + 31 * DAY_MS),
+      registrationDeadline: new Date(now + 20 * DAY_MS),
+      price: 40,
+      fundingSource: FundingSource.GUC,
+      ...fields,
+    });
+  }
+
+  function listedNames(result: IGetAllEventsResponse) {
+    return (result.data as Array<{ name: string }>).map((event) => event.name).sort();
+  }
+
+  it("should hide drafts, scheduled and unpublished events from listings", async () => {
+    await createTrip("Legacy Trip");
+    await createTrip("Live Trip", { publicationStatus: PublicationStatus.PUBLISHED });
+    await createTrip("Draft Trip", { publicationStatus: PublicationStatus.DRAFT });
+    await createTrip("Scheduled Trip", {
+      publicationStatus: PublicationStatus.SCHEDULED,
+      publishAt: new Date(Date.now() + DAY_MS),
+    });
+    await createTrip("Hidden Trip", { publicationStatus: PublicationStatus.UNPUBLISHED });
+
+    const listed = await getAllEvents();
+    const filtered = await EventModel.find(PUBLISHED_EVENT_FILTER).lean();
+    const everything = await getAllEvents(0, { includeUnpublished: true });
+
+    expect(listed.success).toBe(true);
+    expect(listedNames(listed)).toEqual(["Legacy Trip", "Live Trip"]);
+    expect(filtered.map((event) => event.name).sort()).toEqual(["Legacy Trip", "Live Trip"]);
+    expect(listedNames(everything)).toHaveLength(5);
+  });
+
+  it("should publish scheduled events once their publish time has passed", async () => {
+    const publishAt = new Date("2026-09-10T08:00:00Z");
+    const trip = await createTrip("Scheduled Trip", {
+      publicationStatus: PublicationStatus.SCHEDULED,
+      publishAt,
+    });
+
+    expect(await publishDueEvents(new Date("2026-09-10T07:59:00Z"))).toBe(0);
+    expect((await EventModel.findById(trip._id))?.publicationStatus).toBe(
+      PublicationStatus.SCHEDULED
+    );
+
+    expect(await publishDueEvents(new Date("2026-09-10T08:01:00Z"))).toBe(1);
+
+    const published = await EventModel.findById(trip._id);
+    expect(published?.publicationStatus).toBe(PublicationStatus.PUBLISHED);
+    expect(published?.publishedAt).toEqual(publishAt);
+    expect(published?.publishAt).toBeUndefined();
+    expect(published?.announcedAt).toBeInstanceOf(Date);
+    expect(notificationService.notifyUsersOfNewEvent).toHaveBeenCalledTimes(1);
+    expect(listedNames(await getAllEvents())).toEqual(["Scheduled Trip"]);
+  });
+
+  it("should leave an event unpublished while the scheduler was running", async () => {
+    const trip = await createTrip("Scheduled Trip", {
+      publicationStatus: PublicationStatus.SCHEDULED,
+      publishAt: new Date("2026-09-10T08:00:00Z"),
+    });
+    const find = EventModel.find.bind(EventModel);
+    // The organiser takes the event back to a draft right after the due list is read
+    jest.spyOn(EventModel, "find").mockImplementationOnce(((filter: object) => ({
+      lean: async () => {
+        const due = await find(filter).lean();
+        await EventModel.updateOne(
+          { _id: trip._id },
+          { $set: { publicationStatus: PublicationStatus.DRAFT }, $unset: { publishAt: 1 } }
+        );
+        return due;
+      },
+    })) as unknown as typeof EventModel.find);
+
+    expect(await publishDueEvents(new Date("2026-09-10T08:01:00Z"))).toBe(0);
+
+    expect((await EventModel.findById(trip._id))?.publicationStatus).toBe(
+      PublicationStatus.DRAFT
+    );
+    expect(notificationService.notifyUsersOfNewEvent).not.toHaveBeenCalled();
+  });
+
+  it("should announce an event only once", async () => {
+    const trip = await createTrip("Live Trip", {
+      publicationStatus: PublicationStatus.PUBLISHED,
+    });
+
+    expect(await announceEvent(trip)).toBe(true);
+    expect(await announceEvent(trip)).toBe(false);
+
+    expect(notificationService.notifyUsersOfNewEvent).toHaveBeenCalledTimes(1);
+    expect((await EventModel.findById(trip._id))?.announcedAt).toBeInstanceOf(Date);
+  });
+
+  it("should not announce events that are not published", async () => {
+    const draft = await createTrip("Draft Trip", {
+      publicationStatus: PublicationStatus.DRAFT,
+    });
+
+    expect(await announceEvent(draft)).toBe(false);
+
+    expect(notificationService.notifyUsersOfNewEvent).not.toHaveBeenCalled();
+    expect((await EventModel.findById(draft._id))?.announcedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  EventType,
+  FundingSource,
+  Location,
+  WorkshopStatus,
+} from "../../../server/models/Event";
+import { SeriesFrequency } from "../../../server/models/EventSeries";
+import {
+  buildEventCopy,
+  parseRecurrence,
+  recurrenceShift,
+  shiftEventDate,
+} from "../../../server/services/eventSeriesService";
+
+jest.mock("../../../server/services/emailService");
+
+describe("shiftEventDate", () => {
+  it("should keep the campus wall-clock time across a DST change", () => {
+    // 10:00 in Berlin: CET (UTC+1) in March, CEST (UTC+2) a week later
+    const before = new Date("2026-03-22T09:00:00Z");
+    const shifted = shiftEventDate(before, { days: 7 }, "Europe/Berlin");
+
+    expect(shifted.toISOString()).toBe("2026-03-29T08:00:00.000Z");
+  });
+
+  it("should clamp monthly shifts to the end of shorter months", () => {
+    const endOfJanuary = new Date("2026-01-31T12:00:00Z");
+
+    expect(shiftEventDate(endOfJanuary, { months: 1 }, "UTC").toISOString()).toBe(
+      "2026-02-28T12:00:00.000Z"
+    );
+    expect(shiftEventDate(endOfJanuary, { months: 2 }, "UTC").toISOString()).toBe(
+      "2026-03-31T12:00:00.000Z"
+    );
+    expect(recurrenceShift({ frequency: SeriesFrequency.YEARLY, interval: 2 }, 3)).toEqual({
+      years: 6,
+    });
+  });
+});
+
+describe("parseRecurrence", () => {
+  const firstStart = new Date("2026-11-05T08:00:00Z");
+
+  it("should count occurrences up to an end date", () => {
+    expect(
+      parseRecurrence(
+        { frequency: "Monthly", until: "2027-02-05T08:00:00Z" },
+        firstStart
+      )
+    ).toEqual({
+      success: true,
+      recurrence: { frequency: SeriesFrequency.MONTHLY, interval: 1, count: 4 },
+    });
+  });
+
+  it("should reject unknown frequencies and single-occurrence series", () => {
+    expect(parseRecurrence({ frequency: "Daily", count: 3 }, firstStart)).toMatchObject({
+      success: false,
+    });
+    expect(parseRecurrence({ frequency: "Weekly", count: 1 }, firstStart)).toEqual({
+      success: false,
+      message: "A series needs between 2 and 52 occurrences.",
+    });
+  });
+});
+
+describe("buildEventCopy", () => {
+  it("should copy the event without registrations, revenue or vendors", () => {
+    const copy = buildEventCopy(
+      {
+        name: "Winter Bazaar",
+        eventType: EventType.BAZAAR,
+        description: "Monthly market",
+        location: Location.GUCCAIRO,
+        fundingSource: FundingSource.GUC,
+        date: new Date("2026-12-01T08:00:00Z"),
+        startDate: new Date("2026-12-01T08:00:00Z"),
+        endDate: new Date("2026-12-01T16:00:00Z"),
+        registrationDeadline: new Date("2026-11-20T08:00:00Z"),
+        registeredUsers: ["u1"],
+        vendors: ["v1"],
+        revenue: 1200,
+        archived: true,
+      },
+      { months: 1 }
+    );
+
+    expect(copy).toEqual({
+      name: "Winter Bazaar",
+      eventType: EventType.BAZAAR,
+      description: "Monthly market",
+      location: Location.GUCCAIRO,
+      fundingSource: FundingSource.GUC,
+      date: new Date("2027-01-01T08:00:00Z"),
+      startDate: new Date("2027-01-01T08:00:00Z"),
+      endDate: new Date("2027-01-01T16:00:00Z"),
+      registrationDeadline: new Date("2026-12-20T08:00:00Z"),
+    });
+  });
+
+  it("should send copied workshops back for approval", () => {
+    const copy = buildEventCopy(
+      {
+        eventType: EventType.WORKSHOP,
+        workshopStatus: WorkshopStatus.APPROVED,
+        startDate: new Date("2026-12-01T08:00:00Z"),
+      },
+      { days: 7 }
+    );
+
+    expect(copy.workshopStatus).toBe(WorkshopStatus.PENDING);
+  });
+});
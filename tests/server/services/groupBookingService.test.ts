@@ -0,0 +1,676 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import Stripe from "stripe";
+import EventModel, {
+  EventType,
+  FundingSource,
+  IEvent,
+  Location,
+} from "../../../server/models/Event";
+import GroupBookingModel, {
+  GroupBookingStatus,
+  GroupSeatStatus,
+  IGroupBooking,
+} from "../../../server/models/GroupBooking";
+import UserModel, { userRole } from "../../../server/models/User";
+import UserPaymentModel, {
+  IUserPayment,
+} from "../../../server/models/UserPayment";
+import StripeWebhookEventModel, {
+  StripeWebhookStatus,
+} from "../../../server/models/StripeWebhookEvent";
+import {
+  bookGroupWithWallet,
+  cancelGroupSeat,
+  createGroupBookingPaymentIntent,
+  expireGroupSeatHolds,
+  GROUP_BOOKING_PAYMENT_PURPOSE,
+  groupSeatHoldExpiry,
+  MAX_GROUP_SEATS,
+  parseGroupEmails,
+  reconcileGroupBookingPaymentIntent,
+  respondToGroupInvitation,
+} from "../../../server/services/groupBookingService";
+import { handleStripeWebhook } from "../../../server/services/stripeWebhookService";
+import { countHeldSeats } from "../../../server/services/waitlistService";
+
+type StripeClientMock = {
+  paymentIntents: { create: jest.Mock; retrieve: jest.Mock };
+  refunds: { create: jest.Mock };
+};
+
+jest.mock("../../../server/services/emailService");
+jest.mock("stripe", () => {
+  const actual = jest.requireActual("stripe");
+  // The Stripe clients are created when the payment services load
+  process.env.STRIPE_SECRET_KEY = "sk_test_group";
+  const client = {
+    paymentIntents: { create: jest.fn(), retrieve: jest.fn() },
+    refunds: { create: jest.fn() },
+  };
+  return {
+    __esModule: true,
+    default: Object.assign(
+      jest.fn().mockImplementation(() => client),
+      { webhooks: actual.webhooks ?? actual.default.webhooks }
+    ),
+  };
+});
+
+// Every service shares the one mocked client
+const stripeClient = new (Stripe as unknown as new (
+  key: string
+) => StripeClientMock)("sk_test_group");
+
+const WEBHOOK_SECRET = "whsec_group_fixture";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  process.env.ENCRYPTION_SALT_ROUNDS = "4";
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  stripeClient.paymentIntents.create.mockReset();
+  stripeClient.paymentIntents.retrieve.mockReset();
+  stripeClient.refunds.create.mockReset();
+  stripeClient.refunds.create.mockResolvedValue({ id: "re_group_fixture" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+async function createStudent(index: number, balance = 0) {
+  return UserModel.create({
+    firstName: `Student${index}`,
+    lastName: "Tester",
+    email: `student${index}@student.guc.edu.eg`,
+    password: "password123",
+    role: userRole.STUDENT,
+    studentId: `STU${(900 + index).toString()}`,
+    verified: true,
+    balance,
+  });
+}
+
+async function createTrip(capacity = 10, price = 200) {
+  const now = Date.now();
+  return EventModel.create({
+    name: "Siwa Trip",
+    eventType: EventType.TRIP,
+    description: "Weekend trip",
+    date: new Date(now + 30 * DAY_MS),
+    location: Location.GUCCAIRO,
+    capacity,
+    startDate: new Date(now + 30 * DAY_MS),
+    endDate: new Date(now + 32 * DAY_MS),
+    registrationDeadline: new Date(now + 20 * DAY_MS),
+    price,
+    fundingSource: FundingSource.GUC,
+  });
+}
+
+async function loadBooking(bookingId: string) {
+  return GroupBookingModel.findById(bookingId).lean<
+    (IGroupBooking & { _id: mongoose.Types.ObjectId }) | null
+  >();
+}
+
+async function loadTrip(tripId: string) {
+  return EventModel.findById(tripId).lean<IEvent | null>();
+}
+
+function succeededIntent(bookingId: string, organizerId: string, amount: number) {
+  return {
+    id: "pi_group_fixture",
+    object: "payment_intent",
+    status: "succeeded",
+    amount: amount * 100,
+    amount_received: amount * 100,
+    currency: "egp",
+    metadata: {
+      purpose: GROUP_BOOKING_PAYMENT_PURPOSE,
+      groupBookingId: bookingId,
+      userId: organizerId,
+    },
+  } as unknown as Stripe.PaymentIntent;
+}
+
+function deliver(paymentIntent: Stripe.PaymentIntent, id = "evt_group_fixture") {
+  const payload = JSON.stringify({
+    id,
+    object: "event",
+    type: "payment_intent.succeeded",
+    data: { object: paymentIntent },
+  });
+  const signature = Stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret: WEBHOOK_SECRET,
+  });
+  return handleStripeWebhook(Buffer.from(payload), signature);
+}
+
+/** Organizer with one friend, booked by card and still awaiting payment. */
+async function startCardBooking(capacity = 10) {
+  const organizer = await createStudent(1);
+  const friend = await createStudent(2);
+  const trip = await createTrip(capacity);
+  stripeClient.paymentIntents.create.mockResolvedValue({
+    id: "pi_group_fixture",
+    client_secret: "pi_group_fixture_secret",
+  });
+
+  const intent = await createGroupBookingPaymentIntent(
+    trip._id.toString(),
+    organizer._id.toString(),
+    { emails: [friend.email] }
+  );
+
+  return { organizer, friend, trip, bookingId: intent.data?.bookingId ?? "" };
+}
+
+describe("parseGroupEmails", () => {
+  const organizer = "organizer@guc.edu.eg";
+
+  it("should normalize, dedupe and drop the organizer's own address", () => {
+    const result = parseGroupEmails(
+      {
+        emails: [" Friend@guc.edu.eg", "friend@guc.edu.eg", "ORGANIZER@guc.edu.eg"],
+      },
+      organizer
+    );
+
+    expect(result).toEqual({
+      success: true,
+      emails: ["friend@guc.edu.eg"],
+      includeSelf: true,
+    });
+  });
+
+  it("should only leave the organizer out when asked to", () => {
+    const result = parseGroupEmails(
+      { emails: ["friend@guc.edu.eg"], includeSelf: false },
+      organizer
+    );
+
+    expect(result.success && result.includeSelf).toBe(false);
+  });
+
+  it("should reject invalid addresses", () => {
+    const result = parseGroupEmails({ emails: ["not-an-email"] }, organizer);
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should require at least one guest", () => {
+    const result = parseGroupEmails({ emails: [organizer] }, organizer);
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should cap the number of seats, counting the organizer", () => {
+    const emails = Array.from(
+      { length: MAX_GROUP_SEATS },
+      (_value, index) => `guest${index}@guc.edu.eg`
+    );
+
+    expect(parseGroupEmails({ emails }, organizer).success).toBe(false);
+    expect(
+      parseGroupEmails({ emails, includeSelf: false }, organizer).success
+    ).toBe(true);
+  });
+});
+
+describe("groupSeatHoldExpiry", () => {
+  it("should hold seats for three days by default", () => {
+    const paidAt = new Date("2026-03-01T10:00:00.000Z");
+
+    expect(groupSeatHoldExpiry(paidAt).toISOString()).toBe(
+      "2026-03-04T10:00:00.000Z"
+    );
+  });
+
+  it("should never hold seats past the registration deadline", () => {
+    const paidAt = new Date("2026-03-01T10:00:00.000Z");
+    const deadline = new Date("2026-03-02T08:00:00.000Z");
+
+    expect(groupSeatHoldExpiry(paidAt, deadline)).toEqual(deadline);
+  });
+});
+
+describe("bookGroupWithWallet", () => {
+  it("should charge every seat, seat the organizer and hold the rest", async () => {
+    const organizer = await createStudent(1, 1000);
+    const friend = await createStudent(2);
+    const trip = await createTrip(10, 200);
+
+    const result = await bookGroupWithWallet(
+      trip._id.toString(),
+      organizer._id.toString(),
+      { emails: [friend.email, "guest@guc.edu.eg"] }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.statusCode).toBe(201);
+    expect(result.data?.totalAmount).toBe(600);
+    const payer = await UserModel.findById(organizer._id);
+    expect(payer?.balance).toBe(400);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.registeredUsers).toEqual([organizer._id.toString()]);
+    expect(updatedTrip?.groupHolds).toHaveLength(2);
+    expect(updatedTrip?.groupHolds.every((hold) => hold.expiresAt)).toBe(true);
+    expect(countHeldSeats(updatedTrip as IEvent)).toBe(2);
+    const booking = await loadBooking(result.data?.id ?? "");
+    expect(booking?.seats.map((seat) => seat.status)).toEqual([
+      GroupSeatStatus.CONFIRMED,
+      GroupSeatStatus.PENDING,
+      GroupSeatStatus.PENDING,
+    ]);
+  });
+
+  it("should refuse groups larger than the seats left", async () => {
+    const organizer = await createStudent(1, 1000);
+    const friend = await createStudent(2);
+    const trip = await createTrip(1, 200);
+
+    const result = await bookGroupWithWallet(
+      trip._id.toString(),
+      organizer._id.toString(),
+      { emails: [friend.email] }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("Only 1 seat is left for this event.");
+    expect(await GroupBookingModel.countDocuments()).toBe(0);
+  });
+
+  it("should count held seats against later registrations", async () => {
+    const organizer = await createStudent(1, 1000);
+    const friend = await createStudent(2);
+    const latecomer = await createStudent(3, 1000);
+    const trip = await createTrip(2, 200);
+    await bookGroupWithWallet(trip._id.toString(), organizer._id.toString(), {
+      emails: [friend.email],
+    });
+
+    const result = await bookGroupWithWallet(
+      trip._id.toString(),
+      latecomer._id.toString(),
+      { emails: ["guest@guc.edu.eg"] }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      "Event has reached its capacity. You can join the waitlist instead."
+    );
+  });
+
+  it("should leave nothing behind when the wallet cannot cover the group", async () => {
+    const organizer = await createStudent(1, 100);
+    const friend = await createStudent(2);
+    const trip = await createTrip(10, 200);
+
+    const result = await bookGroupWithWallet(
+      trip._id.toString(),
+      organizer._id.toString(),
+      { emails: [friend.email] }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+    expect(await GroupBookingModel.countDocuments()).toBe(0);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(0);
+    expect(updatedTrip?.registeredUsers).toHaveLength(0);
+  });
+});
+
+describe("respondToGroupInvitation", () => {
+  async function bookWithFriend(capacity = 10) {
+    const organizer = await createStudent(1, 1000);
+    const friend = await createStudent(2);
+    const trip = await createTrip(capacity, 200);
+    const booked = await bookGroupWithWallet(
+      trip._id.toString(),
+      organizer._id.toString(),
+      { emails: [friend.email] }
+    );
+    const bookingId = booked.data?.id ?? "";
+    const seatId =
+      booked.data?.seats.find((seat) => seat.email === friend.email)?.id ?? "";
+    return { organizer, friend, trip, bookingId, seatId };
+  }
+
+  it("should register the invitee with a ticket paid by the organizer", async () => {
+    const { organizer, friend, trip, bookingId, seatId } = await bookWithFriend();
+
+    const result = await respondToGroupInvitation(
+      bookingId,
+      seatId,
+      friend._id.toString(),
+      true
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe(GroupSeatStatus.CONFIRMED);
+    const payment = await UserPaymentModel.findOne({
+      userId: friend._id,
+    }).lean<IUserPayment | null>();
+    expect(payment?.status).toBe("Paid");
+    expect(payment?.amount).toBe(200);
+    expect(payment?.purchasedBy?.toString()).toBe(organizer._id.toString());
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.registeredUsers).toContain(friend._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(0);
+  });
+
+  it("should let the invitee confirm the seat held for them on a full event", async () => {
+    const { friend, trip, bookingId, seatId } = await bookWithFriend(2);
+
+    const result = await respondToGroupInvitation(
+      bookingId,
+      seatId,
+      friend._id.toString(),
+      true
+    );
+
+    expect(result.success).toBe(true);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.registeredUsers).toHaveLength(2);
+  });
+
+  it("should refund the organizer in full when the invitee declines", async () => {
+    const { organizer, friend, trip, bookingId, seatId } = await bookWithFriend();
+
+    const result = await respondToGroupInvitation(
+      bookingId,
+      seatId,
+      friend._id.toString(),
+      false
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe(GroupSeatStatus.DECLINED);
+    const payer = await UserModel.findById(organizer._id);
+    expect(payer?.balance).toBe(800);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(0);
+    expect(updatedTrip?.revenue).toBe(200);
+  });
+
+  it("should only let the invited user answer", async () => {
+    const { bookingId, seatId } = await bookWithFriend();
+    const stranger = await createStudent(3);
+
+    const result = await respondToGroupInvitation(
+      bookingId,
+      seatId,
+      stranger._id.toString(),
+      true
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("should not accept answers once the hold has lapsed", async () => {
+    const { friend, bookingId, seatId } = await bookWithFriend();
+    await GroupBookingModel.updateOne(
+      { _id: bookingId },
+      { $set: { "seats.$[].expiresAt": new Date(Date.now() - 1000) } }
+    );
+
+    const result = await respondToGroupInvitation(
+      bookingId,
+      seatId,
+      friend._id.toString(),
+      true
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(409);
+  });
+});
+
+describe("cancelGroupSeat", () => {
+  it("should refund a confirmed seat to the organizer, not the attendee", async () => {
+    const organizer = await createStudent(1, 1000);
+    const friend = await createStudent(2, 50);
+    const trip = await createTrip(10, 200);
+    const booked = await bookGroupWithWallet(
+      trip._id.toString(),
+      organizer._id.toString(),
+      { emails: [friend.email] }
+    );
+    const bookingId = booked.data?.id ?? "";
+    const seatId =
+      booked.data?.seats.find((seat) => seat.email === friend.email)?.id ?? "";
+    await respondToGroupInvitation(bookingId, seatId, friend._id.toString(), true);
+
+    const result = await cancelGroupSeat(
+      bookingId,
+      seatId,
+      organizer._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.refundAmount).toBe(200);
+    const [payer, attendee] = await Promise.all([
+      UserModel.findById(organizer._id),
+      UserModel.findById(friend._id),
+    ]);
+    expect(payer?.balance).toBe(800);
+    expect(attendee?.balance).toBe(50);
+    const booking = await loadBooking(bookingId);
+    expect(
+      booking?.seats.find((seat) => seat._id.toString() === seatId)?.status
+    ).toBe(GroupSeatStatus.CANCELLED);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.registeredUsers).not.toContain(friend._id.toString());
+  });
+
+  it("should refund an unanswered card seat on the group's payment", async () => {
+    const { organizer, friend, bookingId } = await startCardBooking();
+    await reconcileGroupBookingPaymentIntent(
+      succeededIntent(bookingId, organizer._id.toString(), 400)
+    );
+    const booking = await loadBooking(bookingId);
+    const seatId =
+      booking?.seats
+        .find((seat) => seat.email === friend.email)
+        ?._id.toString() ?? "";
+
+    const result = await cancelGroupSeat(
+      bookingId,
+      seatId,
+      organizer._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(stripeClient.refunds.create).toHaveBeenCalledWith({
+      payment_intent: "pi_group_fixture",
+      amount: 20000,
+      reason: "requested_by_customer",
+    });
+  });
+
+  it("should keep the seat when the card refund fails", async () => {
+    const { organizer, friend, trip, bookingId } = await startCardBooking();
+    await reconcileGroupBookingPaymentIntent(
+      succeededIntent(bookingId, organizer._id.toString(), 400)
+    );
+    const booking = await loadBooking(bookingId);
+    const seatId =
+      booking?.seats
+        .find((seat) => seat.email === friend.email)
+        ?._id.toString() ?? "";
+    stripeClient.refunds.create.mockRejectedValue(new Error("Stripe is down"));
+
+    const result = await cancelGroupSeat(
+      bookingId,
+      seatId,
+      organizer._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(502);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(1);
+  });
+});
+
+describe("expireGroupSeatHolds", () => {
+  it("should release lapsed seats and refund the organizer", async () => {
+    const organizer = await createStudent(1, 1000);
+    const friend = await createStudent(2);
+    const trip = await createTrip(10, 200);
+    const booked = await bookGroupWithWallet(
+      trip._id.toString(),
+      organizer._id.toString(),
+      { emails: [friend.email] }
+    );
+    const lapsedAt = new Date(Date.now() - 1000);
+    await EventModel.updateOne(
+      { _id: trip._id },
+      { $set: { "groupHolds.$[].expiresAt": lapsedAt } }
+    );
+
+    const before = await loadTrip(trip._id.toString());
+    expect(countHeldSeats(before as IEvent)).toBe(0);
+
+    await expireGroupSeatHolds();
+
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(0);
+    const payer = await UserModel.findById(organizer._id);
+    expect(payer?.balance).toBe(800);
+    const booking = await loadBooking(booked.data?.id ?? "");
+    expect(
+      booking?.seats.find((seat) => seat.email === friend.email)?.status
+    ).toBe(GroupSeatStatus.EXPIRED);
+  });
+
+  it("should leave holds that have not lapsed", async () => {
+    const organizer = await createStudent(1, 1000);
+    const friend = await createStudent(2);
+    const trip = await createTrip(10, 200);
+    await bookGroupWithWallet(trip._id.toString(), organizer._id.toString(), {
+      emails: [friend.email],
+    });
+
+    await expireGroupSeatHolds();
+
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(1);
+    const payer = await UserModel.findById(organizer._id);
+    expect(payer?.balance).toBe(600);
+  });
+});
+
+describe("card group bookings", () => {
+  it("should create a card intent for every seat without holding them yet", async () => {
+    const { trip, bookingId } = await startCardBooking();
+
+    expect(stripeClient.paymentIntents.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 40000, currency: "egp" })
+    );
+    const booking = await loadBooking(bookingId);
+    expect(booking?.status).toBe(GroupBookingStatus.AWAITING_PAYMENT);
+    expect(booking?.transactionReference).toBe("pi_group_fixture");
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(0);
+  });
+
+  it("should activate the booking from the webhook", async () => {
+    const { organizer, trip, bookingId } = await startCardBooking();
+
+    const result = await deliver(
+      succeededIntent(bookingId, organizer._id.toString(), 400)
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe(StripeWebhookStatus.PROCESSED);
+    const booking = await loadBooking(bookingId);
+    expect(booking?.status).toBe(GroupBookingStatus.PAID);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.registeredUsers).toEqual([organizer._id.toString()]);
+    expect(updatedTrip?.groupHolds).toHaveLength(1);
+    expect(updatedTrip?.revenue).toBe(400);
+  });
+
+  it("should activate the booking only once", async () => {
+    const { organizer, trip, bookingId } = await startCardBooking();
+    const intent = succeededIntent(bookingId, organizer._id.toString(), 400);
+
+    await reconcileGroupBookingPaymentIntent(intent);
+    const second = await reconcileGroupBookingPaymentIntent(intent);
+
+    expect(second.success).toBe(true);
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(1);
+    expect(updatedTrip?.revenue).toBe(400);
+  });
+
+  it("should refund once and settle the webhook when the event filled up", async () => {
+    const { organizer, trip, bookingId } = await startCardBooking(2);
+    const others = await Promise.all([createStudent(3), createStudent(4)]);
+    await EventModel.updateOne(
+      { _id: trip._id },
+      { $set: { registeredUsers: others.map((user) => user._id.toString()) } }
+    );
+    const intent = succeededIntent(bookingId, organizer._id.toString(), 400);
+
+    const first = await deliver(intent);
+    const redelivered = await deliver(intent, "evt_group_fixture_again");
+
+    expect(first.success).toBe(true);
+    expect(first.data?.status).toBe(StripeWebhookStatus.PROCESSED);
+    expect(redelivered.success).toBe(true);
+    expect(stripeClient.refunds.create).toHaveBeenCalledTimes(1);
+    const booking = await loadBooking(bookingId);
+    expect(booking?.status).toBe(GroupBookingStatus.FAILED);
+    expect(booking?.refundedAt).toBeDefined();
+    const updatedTrip = await loadTrip(trip._id.toString());
+    expect(updatedTrip?.groupHolds).toHaveLength(0);
+  });
+
+  it("should ask Stripe to retry when the automatic refund fails", async () => {
+    const { organizer, trip, bookingId } = await startCardBooking(1);
+    const other = await createStudent(3);
+    await EventModel.updateOne(
+      { _id: trip._id },
+      { $set: { registeredUsers: [other._id.toString()] } }
+    );
+    stripeClient.refunds.create.mockRejectedValueOnce(new Error("Stripe is down"));
+    const intent = succeededIntent(bookingId, organizer._id.toString(), 400);
+
+    const first = await deliver(intent);
+
+    expect(first.success).toBe(false);
+    const stored = await StripeWebhookEventModel.findOne({
+      stripeEventId: "evt_group_fixture",
+    });
+    expect(stored?.status).toBe(StripeWebhookStatus.FAILED);
+
+    const retried = await deliver(intent);
+
+    expect(retried.success).toBe(true);
+    const booking = await loadBooking(bookingId);
+    expect(booking?.refundedAt).toBeDefined();
+  });
+});
@@ -1,16 +1,26 @@
 import { MongoMemoryServer } from "mongodb-memory-server";
 import mongoose, { Types } from "mongoose";
 import GymSessionModel, {
+  GymCheckInMethod,
   GymSessionType,
   IGymSession,
 } from "../../../server/models/GymSession";
 import UserModel, { userRole, userStatus } from "../../../server/models/User";
 import {
+  buildGymPassCode,
   cancelGymSession,
+  checkInGymSessionAttendees,
   createGymSession,
+  createGymSessionTemplate,
   editGymSession,
+  getGymAttendanceStats,
   getGymSessionsByMonth,
+  joinGymSessionWaitlist,
+  leaveGymSessionWaitlist,
   registerForGymSession,
+  sessionStartsAt,
+  unregisterFromGymSession,
+  updateGymSessionTemplate,
 } from "../../../server/services/gymSessionService";
 import { emailService } from "../../../server/services/emailService";
 
@@ -53,6 +63,20 @@ afterEach(async () => {
   jest.restoreAllMocks();
 });
 
+describe("sessionStartsAt", () => {
+  it("should read the start time as Cairo time", () => {
+    expect(
+      sessionStartsAt({ date: new Date("2030-01-07"), time: "18:30" })
+    ).toEqual(new Date("2030-01-07T16:30:00.000Z"));
+  });
+
+  it("should fall on the previous UTC day for sessions just after midnight", () => {
+    expect(
+      sessionStartsAt({ date: new Date("2030-01-07"), time: "00:30" })
+    ).toEqual(new Date("2030-01-06T22:30:00.000Z"));
+  });
+});
+
 describe("createGymSession", () => {
   it("should create a gym session with valid data", async () => {
     const sessionData: Partial<IGymSession> = {
@@ -1112,3 +1136,376 @@ describe("Gym Session Service - Integration and Edge Cases", () => {
     expect(updatedUser?.registeredGymSessions).toHaveLength(2);
   });
 });
+
+describe("Gym session waitlist", () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  async function createStudent(index: number) {
+    return UserModel.create({
+      firstName: `Student${index}`,
+      lastName: "Tester",
+      email: `student${index}@student.guc.edu.eg`,
+      password: "password123",
+      role: userRole.STUDENT,
+      studentId: `STU${index.toString().padStart(3, "0")}`,
+      status: userStatus.ACTIVE,
+      verified: true,
+    });
+  }
+
+  async function createFullSession(registeredUsers: string[]) {
+    return GymSessionModel.create({
+      date: new Date(Date.now() + 7 * DAY_MS),
+      time: "18:00",
+      duration: 60,
+      type: GymSessionType.CARDIO,
+      maxParticipants: registeredUsers.length,
+      registeredUsers,
+    });
+  }
+
+  it("should reject joining while spots are available", async () => {
+    const student = await createStudent(1);
+    const session = await GymSessionModel.create({
+      date: new Date(Date.now() + 7 * DAY_MS),
+      time: "18:00",
+      duration: 60,
+      type: GymSessionType.CARDIO,
+      maxParticipants: 5,
+      registeredUsers: [],
+    });
+
+    const result = await joinGymSessionWaitlist(
+      session._id.toString(),
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should queue users in join order and reject duplicates", async () => {
+    const registered = await createStudent(1);
+    const first = await createStudent(2);
+    const second = await createStudent(3);
+    const session = await createFullSession([registered._id.toString()]);
+
+    const firstResult = await joinGymSessionWaitlist(
+      session._id.toString(),
+      first._id.toString()
+    );
+    const secondResult = await joinGymSessionWaitlist(
+      session._id.toString(),
+      second._id.toString()
+    );
+    const duplicate = await joinGymSessionWaitlist(
+      session._id.toString(),
+      first._id.toString()
+    );
+
+    expect(firstResult.statusCode).toBe(201);
+    expect(firstResult.data?.position).toBe(1);
+    expect(secondResult.data?.position).toBe(2);
+    expect(duplicate.statusCode).toBe(409);
+  });
+
+  it("should register the first waiting user when a participant leaves", async () => {
+    const registered = await createStudent(1);
+    const waiting = await createStudent(2);
+    const session = await createFullSession([registered._id.toString()]);
+    await joinGymSessionWaitlist(session._id.toString(), waiting._id.toString());
+
+    const result = await unregisterFromGymSession(
+      session._id.toString(),
+      registered._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.promotedUserIds).toEqual([waiting._id.toString()]);
+
+    const updated = await GymSessionModel.findById(session._id).lean<IGymSession>();
+    expect(updated?.registeredUsers).toEqual([waiting._id.toString()]);
+    expect(updated?.waitlist).toHaveLength(0);
+
+    const promoted = await UserModel.findById(waiting._id).lean();
+    expect(promoted?.registeredGymSessions).toContain(session._id.toString());
+    expect(promoted?.notifications?.[0]?.message).toContain("waitlist");
+  });
+
+  it("should promote waiting users when capacity is raised", async () => {
+    const registered = await createStudent(1);
+    const waiting = await createStudent(2);
+    const session = await createFullSession([registered._id.toString()]);
+    await joinGymSessionWaitlist(session._id.toString(), waiting._id.toString());
+
+    await editGymSession(session._id.toString(), { maxParticipants: 2 });
+
+    const updated = await GymSessionModel.findById(session._id).lean<IGymSession>();
+    expect(updated?.registeredUsers).toContain(waiting._id.toString());
+    expect(updated?.waitlist).toHaveLength(0);
+  });
+
+  it("should let a user leave the waitlist", async () => {
+    const registered = await createStudent(1);
+    const waiting = await createStudent(2);
+    const session = await createFullSession([registered._id.toString()]);
+    await joinGymSessionWaitlist(session._id.toString(), waiting._id.toString());
+
+    const result = await leaveGymSessionWaitlist(
+      session._id.toString(),
+      waiting._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    const updated = await GymSessionModel.findById(session._id).lean<IGymSession>();
+    expect(updated?.waitlist).toHaveLength(0);
+  });
+});
+
+describe("checkInGymSessionAttendees", () => {
+  const staffId = new Types.ObjectId().toString();
+  const userA = new Types.ObjectId().toString();
+  const userB = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = "test-secret";
+  });
+
+  async function createSession() {
+    return GymSessionModel.create({
+      date: new Date(),
+      time: "00:00",
+      duration: 60,
+      type: GymSessionType.STRENGTH,
+      maxParticipants: 10,
+      registeredUsers: [userA, userB],
+    });
+  }
+
+  it("should check in selected participants manually", async () => {
+    const session = await createSession();
+    const outsider = new Types.ObjectId().toString();
+
+    const result = await checkInGymSessionAttendees(
+      session._id.toString(),
+      staffId,
+      { userIds: [userA, outsider] }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.checkedIn).toEqual([userA]);
+    expect(result.data?.notRegistered).toEqual([outsider]);
+    expect(result.data?.attendedCount).toBe(1);
+
+    const updated = await GymSessionModel.findById(session._id).lean<IGymSession>();
+    expect(updated?.attendance[0].method).toBe(GymCheckInMethod.MANUAL);
+    expect(updated?.attendance[0].checkedInBy).toBe(staffId);
+  });
+
+  it("should accept a valid gym pass and not double count", async () => {
+    const session = await createSession();
+    const passCode = buildGymPassCode(session._id.toString(), userB);
+
+    const first = await checkInGymSessionAttendees(
+      session._id.toString(),
+      staffId,
+      { passCode }
+    );
+    const second = await checkInGymSessionAttendees(
+      session._id.toString(),
+      staffId,
+      { passCode }
+    );
+
+    expect(first.data?.checkedIn).toEqual([userB]);
+    expect(second.success).toBe(true);
+    expect(second.data?.alreadyCheckedIn).toEqual([userB]);
+
+    const updated = await GymSessionModel.findById(session._id).lean<IGymSession>();
+    expect(updated?.attendance).toHaveLength(1);
+    expect(updated?.attendance[0].method).toBe(GymCheckInMethod.QR);
+  });
+
+  it("should reject a tampered gym pass", async () => {
+    const session = await createSession();
+    const passCode = buildGymPassCode(session._id.toString(), userA).replace(
+      userA,
+      userB
+    );
+
+    const result = await checkInGymSessionAttendees(
+      session._id.toString(),
+      staffId,
+      { passCode }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("This gym pass is not valid");
+  });
+});
+
+describe("getGymAttendanceStats", () => {
+  it("should report check-ins per session type for past sessions", async () => {
+    const userA = new Types.ObjectId().toString();
+    const userB = new Types.ObjectId().toString();
+    await GymSessionModel.create({
+      date: new Date("2025-03-10"),
+      time: "09:00",
+      duration: 60,
+      type: GymSessionType.PILATES,
+      maxParticipants: 10,
+      registeredUsers: [userA, userB],
+      attendance: [
+        {
+          userId: userA,
+          checkedInAt: new Date("2025-03-10T09:05:00Z"),
+          checkedInBy: new Types.ObjectId().toString(),
+          method: GymCheckInMethod.MANUAL,
+        },
+      ],
+    });
+
+    const result = await getGymAttendanceStats(2025, 3);
+
+    expect(result.success).toBe(true);
+    const pilates = result.data?.find(
+      (stat) => stat.type === GymSessionType.PILATES
+    );
+    expect(pilates).toEqual({
+      type: GymSessionType.PILATES,
+      sessions: 1,
+      registrations: 2,
+      checkIns: 1,
+      attendanceRate: 50,
+    });
+    const yoga = result.data?.find((stat) => stat.type === GymSessionType.YOGA);
+    expect(yoga?.attendanceRate).toBeNull();
+  });
+});
+
+describe("Gym session templates", () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  function upcomingWeekday(weekday: number, weeksAhead = 1) {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    date.setUTCDate(
+      date.getUTCDate() + ((weekday - date.getUTCDay() + 7) % 7) + 7 * weeksAhead
+    );
+    return date;
+  }
+
+  function templatePayload(overrides: Record<string, unknown> = {}) {
+    const start = upcomingWeekday(1);
+    return {
+      weekday: 1,
+      time: "18:00",
+      duration: 60,
+      type: GymSessionType.YOGA,
+      maxParticipants: 15,
+      startDate: start.toISOString(),
+      endDate: new Date(start.getTime() + 21 * DAY_MS).toISOString(),
+      ...overrides,
+    };
+  }
+
+  it("should generate one session per week and skip blackout dates", async () => {
+    const blackout = upcomingWeekday(1, 2);
+
+    const result = await createGymSessionTemplate(
+      templatePayload({ blackoutDates: [blackout.toISOString()] })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.statusCode).toBe(201);
+    expect(result.data?.createdSessions).toBe(3);
+    expect(result.data?.skippedDates).toEqual([
+      blackout.toISOString().slice(0, 10),
+    ]);
+
+    const sessions = await GymSessionModel.find({
+      templateId: String(result.data?.template._id),
+    }).lean<IGymSession[]>();
+    expect(sessions).toHaveLength(3);
+    sessions.forEach((session) => {
+      expect(session.date.getUTCDay()).toBe(1);
+      expect(session.date.getTime()).not.toBe(blackout.getTime());
+    });
+  });
+
+  it("should reject an invalid time", async () => {
+    const result = await createGymSessionTemplate(
+      templatePayload({ time: "25:00" })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should update future sessions and email participants when requested", async () => {
+    const participant = await UserModel.create({
+      firstName: "Gym",
+      lastName: "Goer",
+      email: "goer@student.guc.edu.eg",
+      password: "password123",
+      role: userRole.STUDENT,
+      studentId: "STU900",
+      status: userStatus.ACTIVE,
+      verified: true,
+    });
+    const created = await createGymSessionTemplate(templatePayload());
+    const templateId = String(created.data?.template._id);
+    await GymSessionModel.updateMany(
+      { templateId },
+      { $set: { registeredUsers: [participant._id.toString()] } }
+    );
+
+    const result = await updateGymSessionTemplate(
+      templateId,
+      { time: "19:30" },
+      true
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.updatedSessions).toBe(4);
+    const sessions = await GymSessionModel.find({ templateId }).lean<
+      IGymSession[]
+    >();
+    sessions.forEach((session) => expect(session.time).toBe("19:30"));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(emailService.sendGymSessionUpdateEmail).toHaveBeenCalled();
+  });
+
+  it("should leave existing sessions alone without applyToFuture", async () => {
+    const created = await createGymSessionTemplate(templatePayload());
+    const templateId = String(created.data?.template._id);
+
+    const result = await updateGymSessionTemplate(templateId, {
+      time: "07:00",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.updatedSessions).toBe(0);
+    const sessions = await GymSessionModel.find({ templateId }).lean<
+      IGymSession[]
+    >();
+    sessions.forEach((session) => expect(session.time).toBe("18:00"));
+  });
+
+  it("should cancel future sessions that fall on a new blackout date", async () => {
+    const created = await createGymSessionTemplate(templatePayload());
+    const templateId = String(created.data?.template._id);
+    const blackout = upcomingWeekday(1, 3);
+
+    const result = await updateGymSessionTemplate(
+      templateId,
+      { blackoutDates: [blackout.toISOString()] },
+      true
+    );
+
+    expect(result.data?.cancelledSessions).toBe(1);
+    expect(
+      await GymSessionModel.countDocuments({ templateId, date: blackout })
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { Types } from "mongoose";
+import type { IUserPayment } from "../../../server/models/UserPayment";
+import { DiscountSource } from "../../../server/models/UserPayment";
+import type { ApplicationPayment } from "../../../server/models/Vendor";
+import {
+  buildUserPaymentCreditNote,
+  buildUserPaymentInvoice,
+  buildVendorPaymentInvoice,
+  hasVendorCreditNote,
+  invoiceFilename,
+  renderInvoicePdf,
+} from "../../../server/services/invoiceService";
+
+const paidAt = new Date("2025-03-01T10:00:00.000Z");
+const customer = { name: "Mona Adel", email: "mona@example.com" };
+const event = { name: "Spring Workshop", eventType: "Workshop" };
+
+const userPayment = (overrides: Partial<IUserPayment> = {}) =>
+  ({
+    userId: new Types.ObjectId(),
+    eventId: new Types.ObjectId(),
+    amount: 240,
+    currency: "EGP",
+    method: "Wallet",
+    walletPortion: 240,
+    cardPortion: 0,
+    status: "Paid",
+    receiptNumber: "RCPT-2025-0001",
+    paidAt,
+    ...overrides,
+  }) as IUserPayment;
+
+const vendorPayment = (
+  overrides: Partial<ApplicationPayment> = {}
+): ApplicationPayment => ({
+  amount: 1500,
+  currency: "EGP",
+  status: "paid",
+  dueDate: paidAt,
+  paidAt,
+  receiptNumber: "VND-2025-0001",
+  ...overrides,
+});
+
+describe("buildUserPaymentInvoice", () => {
+  it("should list the promo code as a negative line", () => {
+    const invoice = buildUserPaymentInvoice({
+      payment: userPayment({
+        discount: {
+          code: "CAFE20",
+          source: DiscountSource.LOYALTY,
+          discountRate: 20,
+          originalAmount: 300,
+          amount: 60,
+        },
+      }),
+      customer,
+      event,
+    });
+
+    expect(invoice.lines.map((line) => line.amount)).toEqual([300, -60]);
+    expect(invoice.total).toBe(240);
+    expect(invoice.number).toBe("RCPT-2025-0001");
+  });
+});
+
+describe("buildUserPaymentCreditNote", () => {
+  it("should number the credit note after the original receipt", () => {
+    const creditNote = buildUserPaymentCreditNote({
+      payment: userPayment({
+        status: "Refunded",
+        refundAmount: 120,
+        refundPercentage: 50,
+        refundedAt: new Date("2025-03-05T10:00:00.000Z"),
+      }),
+      customer,
+      event,
+    });
+
+    expect(creditNote.kind).toBe("creditNote");
+    expect(creditNote.total).toBe(120);
+    expect(invoiceFilename(creditNote)).toBe("credit-note-CN-RCPT-2025-0001.pdf");
+  });
+});
+
+describe("hasVendorCreditNote", () => {
+  it("should only issue credit notes for refunded booth fees", () => {
+    expect(hasVendorCreditNote(vendorPayment())).toBe(false);
+    expect(
+      hasVendorCreditNote(vendorPayment({ status: "refunded", refundAmount: 1500 }))
+    ).toBe(true);
+    expect(
+      hasVendorCreditNote(
+        vendorPayment({ status: "pending", paidAt: undefined, refundAmount: 1500 })
+      )
+    ).toBe(false);
+  });
+});
+
+describe("renderInvoicePdf", () => {
+  it("should render a PDF document", async () => {
+    const buffer = await renderInvoicePdf(
+      buildVendorPaymentInvoice({
+        payment: vendorPayment(),
+        vendor: { companyName: "Cairo Crafts", email: "crafts@example.com" },
+        eventName: "Spring Bazaar",
+        boothSize: "2x2",
+      })
+    );
+
+    expect(buffer.subarray(0, 4).toString()).toBe("%PDF");
+  });
+});
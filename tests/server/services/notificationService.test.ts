@@ -1,18 +1,30 @@
 import { MongoMemoryServer } from "mongodb-memory-server";
 import mongoose, { Types } from "mongoose";
 import AdminModel, { IAdmin } from "../../../server/models/Admin";
-import EventModel from "../../../server/models/Event";
+import EventModel, { EventType } from "../../../server/models/Event";
+import NotificationModel, {
+  INotification,
+  NotificationEntityKind,
+  NotificationRecipientModel,
+  NotificationType,
+} from "../../../server/models/Notification";
 import UserModel, {
   IUser,
   userRole,
   userStatus,
 } from "../../../server/models/User";
 import {
+  getNotificationPreferences,
+  listNotifications,
+  markAllNotificationsRead,
   notifyAdminsOfPendingVendors,
   notifyUsersOfNewEvent,
   notifyUsersOfNewLoyaltyPartner,
+  notifyUsersOfNewPoll,
   sendReminderNotifications,
   startReminderScheduler,
+  updateNotificationPreferences,
+  updateNotificationState,
 } from "../../../server/services/notificationService";
 
 let mongoServer: MongoMemoryServer;
@@ -21,6 +33,12 @@ let mongoServer: MongoMemoryServer;
 const originalSetInterval = global.setInterval;
 let mockIntervalId: NodeJS.Timeout | null = null;
 
+async function notificationsFor(recipientId: Types.ObjectId) {
+  return NotificationModel.find({ recipientId })
+    .sort({ createdAt: 1, _id: 1 })
+    .lean<INotification[]>();
+}
+
 beforeAll(async () => {
   process.env.ENCRYPTION_SALT_ROUNDS = "4";
   mongoServer = await MongoMemoryServer.create();
@@ -156,6 +174,7 @@ describe("notifyUsersOfNewEvent", () => {
 
   it("should notify all target user roles of new event", async () => {
     const event = {
+      _id: new Types.ObjectId(),
       name: "Tech Conference 2025",
       eventType: "Conference",
       startDate: new Date("2025-12-01T10:00:00Z"),
@@ -163,25 +182,26 @@ describe("notifyUsersOfNewEvent", () => {
 
     await notifyUsersOfNewEvent(event);
 
-    const updatedStudent = await UserModel.findById(student._id);
-    const updatedProfessor = await UserModel.findById(professor._id);
-    const updatedStaff = await UserModel.findById(staff._id);
-    const updatedTA = await UserModel.findById(ta._id);
+    const studentNotifications = await notificationsFor(student._id);
+    const professorNotifications = await notificationsFor(professor._id);
+    const staffNotifications = await notificationsFor(staff._id);
+    const taNotifications = await notificationsFor(ta._id);
 
-    expect(updatedStudent?.notifications).toHaveLength(1);
-    expect(updatedProfessor?.notifications).toHaveLength(1);
-    expect(updatedStaff?.notifications).toHaveLength(1);
-    expect(updatedTA?.notifications).toHaveLength(1);
+    expect(studentNotifications).toHaveLength(1);
+    expect(professorNotifications).toHaveLength(1);
+    expect(staffNotifications).toHaveLength(1);
+    expect(taNotifications).toHaveLength(1);
 
-    expect(updatedStudent?.notifications?.[0].message).toContain(
+    expect(studentNotifications[0].message).toContain(
       "Tech Conference 2025"
     );
-    expect(updatedStudent?.notifications?.[0].message).toContain("Conference");
-    expect(updatedStudent?.notifications?.[0].seen).toBe(false);
+    expect(studentNotifications[0].message).toContain("Conference");
+    expect(studentNotifications[0].readAt).toBeUndefined();
   });
 
   it("should notify event office admins of new event", async () => {
     const event = {
+      _id: new Types.ObjectId(),
       name: "Workshop Series",
       eventType: "Workshop",
       startDate: new Date("2025-11-25T14:00:00Z"),
@@ -189,18 +209,19 @@ describe("notifyUsersOfNewEvent", () => {
 
     await notifyUsersOfNewEvent(event);
 
-    const updatedEventOffice = await AdminModel.findById(eventOfficeAdmin._id);
-    const updatedSuperAdmin = await AdminModel.findById(superAdmin._id);
+    const eventOfficeNotifications = await notificationsFor(eventOfficeAdmin._id);
+    const superAdminNotifications = await notificationsFor(superAdmin._id);
 
-    expect(updatedEventOffice?.notifications).toHaveLength(1);
-    expect(updatedEventOffice?.notifications?.[0].message).toContain(
+    expect(eventOfficeNotifications).toHaveLength(1);
+    expect(eventOfficeNotifications[0].message).toContain(
       "Workshop Series"
     );
-    expect(updatedSuperAdmin?.notifications).toHaveLength(0);
+    expect(superAdminNotifications).toHaveLength(0);
   });
 
   it("should format event date in notification message", async () => {
     const event = {
+      _id: new Types.ObjectId(),
       name: "Annual Gala",
       eventType: "Social",
       startDate: new Date("2025-12-31T20:00:00Z"),
@@ -208,17 +229,18 @@ describe("notifyUsersOfNewEvent", () => {
 
     await notifyUsersOfNewEvent(event);
 
-    const updatedStudent = await UserModel.findById(student._id);
+    const studentNotifications = await notificationsFor(student._id);
 
-    expect(updatedStudent?.notifications?.[0].message).toContain("Annual Gala");
-    expect(updatedStudent?.notifications?.[0].message).toContain("Social");
-    expect(updatedStudent?.notifications?.[0].message).toMatch(
+    expect(studentNotifications[0].message).toContain("Annual Gala");
+    expect(studentNotifications[0].message).toContain("Social");
+    expect(studentNotifications[0].message).toMatch(
       /Dec \d{1,2}, 2025/
     );
   });
 
   it("should handle startDate as string", async () => {
     const event = {
+      _id: new Types.ObjectId(),
       name: "String Date Event",
       eventType: "Seminar",
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -227,9 +249,9 @@ describe("notifyUsersOfNewEvent", () => {
 
     await notifyUsersOfNewEvent(event);
 
-    const updatedStudent = await UserModel.findById(student._id);
-    expect(updatedStudent?.notifications).toHaveLength(1);
-    expect(updatedStudent?.notifications?.[0].message).toContain(
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications).toHaveLength(1);
+    expect(studentNotifications[0].message).toContain(
       "String Date Event"
     );
   });
@@ -239,6 +261,7 @@ describe("notifyUsersOfNewEvent", () => {
     await AdminModel.deleteMany({});
 
     const event = {
+      _id: new Types.ObjectId(),
       name: "Empty Event",
       eventType: "Workshop",
       startDate: new Date("2025-12-01T10:00:00Z"),
@@ -251,6 +274,7 @@ describe("notifyUsersOfNewEvent", () => {
     await mongoose.connection.close();
 
     const event = {
+      _id: new Types.ObjectId(),
       name: "Error Event",
       eventType: "Conference",
       startDate: new Date("2025-12-01T10:00:00Z"),
@@ -268,6 +292,7 @@ describe("notifyUsersOfNewEvent", () => {
 
   it("should set notification as unseen by default", async () => {
     const event = {
+      _id: new Types.ObjectId(),
       name: "Test Event",
       eventType: "Test",
       startDate: new Date("2025-12-01T10:00:00Z"),
@@ -275,14 +300,15 @@ describe("notifyUsersOfNewEvent", () => {
 
     await notifyUsersOfNewEvent(event);
 
-    const updatedStudent = await UserModel.findById(student._id);
-    expect(updatedStudent?.notifications?.[0].seen).toBe(false);
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications[0].readAt).toBeUndefined();
   });
 
   it("should set createdAt timestamp", async () => {
     const before = new Date();
 
     const event = {
+      _id: new Types.ObjectId(),
       name: "Timestamp Test",
       eventType: "Test",
       startDate: new Date("2025-12-01T10:00:00Z"),
@@ -291,8 +317,8 @@ describe("notifyUsersOfNewEvent", () => {
     await notifyUsersOfNewEvent(event);
 
     const after = new Date();
-    const updatedStudent = await UserModel.findById(student._id);
-    const createdAt = updatedStudent?.notifications?.[0].createdAt;
+    const studentNotifications = await notificationsFor(student._id);
+    const createdAt = studentNotifications[0].createdAt;
 
     expect(createdAt).toBeDefined();
     expect(createdAt!.getTime()).toBeGreaterThanOrEqual(before.getTime());
@@ -343,15 +369,15 @@ describe("notifyUsersOfNewLoyaltyPartner", () => {
 
     await notifyUsersOfNewLoyaltyPartner(options);
 
-    const updatedStudent = await UserModel.findById(student._id);
-    const updatedProfessor = await UserModel.findById(professor._id);
+    const studentNotifications = await notificationsFor(student._id);
+    const professorNotifications = await notificationsFor(professor._id);
 
-    expect(updatedStudent?.notifications).toHaveLength(1);
-    expect(updatedProfessor?.notifications).toHaveLength(1);
+    expect(studentNotifications).toHaveLength(1);
+    expect(professorNotifications).toHaveLength(1);
 
-    expect(updatedStudent?.notifications?.[0].message).toContain("Coffee Shop");
-    expect(updatedStudent?.notifications?.[0].message).toContain("15.50%");
-    expect(updatedStudent?.notifications?.[0].message).toContain("COFFEE15");
+    expect(studentNotifications[0].message).toContain("Coffee Shop");
+    expect(studentNotifications[0].message).toContain("15.50%");
+    expect(studentNotifications[0].message).toContain("COFFEE15");
   });
 
   it("should format discount rate with two decimal places", async () => {
@@ -363,8 +389,8 @@ describe("notifyUsersOfNewLoyaltyPartner", () => {
 
     await notifyUsersOfNewLoyaltyPartner(options);
 
-    const updatedStudent = await UserModel.findById(student._id);
-    expect(updatedStudent?.notifications?.[0].message).toContain("20.00%");
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications[0].message).toContain("20.00%");
   });
 
   it("should handle decimal discount rates", async () => {
@@ -376,8 +402,8 @@ describe("notifyUsersOfNewLoyaltyPartner", () => {
 
     await notifyUsersOfNewLoyaltyPartner(options);
 
-    const updatedStudent = await UserModel.findById(student._id);
-    expect(updatedStudent?.notifications?.[0].message).toContain("12.75%");
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications[0].message).toContain("12.75%");
   });
 
   it("should notify all target user roles", async () => {
@@ -413,11 +439,11 @@ describe("notifyUsersOfNewLoyaltyPartner", () => {
 
     await notifyUsersOfNewLoyaltyPartner(options);
 
-    const updatedStaff = await UserModel.findById(staffDoc._id);
-    const updatedTA = await UserModel.findById(taDoc._id);
+    const staffNotifications = await notificationsFor(staffDoc._id);
+    const taNotifications = await notificationsFor(taDoc._id);
 
-    expect(updatedStaff?.notifications).toHaveLength(1);
-    expect(updatedTA?.notifications).toHaveLength(1);
+    expect(staffNotifications).toHaveLength(1);
+    expect(taNotifications).toHaveLength(1);
   });
 
   it("should not notify admins", async () => {
@@ -439,8 +465,8 @@ describe("notifyUsersOfNewLoyaltyPartner", () => {
 
     await notifyUsersOfNewLoyaltyPartner(options);
 
-    const updatedAdmin = await AdminModel.findById(adminDoc._id);
-    expect(updatedAdmin?.notifications).toHaveLength(0);
+    const adminNotifications = await notificationsFor(adminDoc._id);
+    expect(adminNotifications).toHaveLength(0);
   });
 
   it("should handle errors gracefully", async () => {
@@ -471,8 +497,8 @@ describe("notifyUsersOfNewLoyaltyPartner", () => {
 
     await notifyUsersOfNewLoyaltyPartner(options);
 
-    const updatedStudent = await UserModel.findById(student._id);
-    expect(updatedStudent?.notifications?.[0].seen).toBe(false);
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications[0].readAt).toBeUndefined();
   });
 });
 
@@ -511,13 +537,13 @@ describe("notifyAdminsOfPendingVendors", () => {
   it("should notify admins of single pending vendor", async () => {
     await notifyAdminsOfPendingVendors(1);
 
-    const updatedEventOffice = await AdminModel.findById(eventOfficeAdmin._id);
-    const updatedSuperAdmin = await AdminModel.findById(superAdmin._id);
+    const eventOfficeNotifications = await notificationsFor(eventOfficeAdmin._id);
+    const superAdminNotifications = await notificationsFor(superAdmin._id);
 
-    expect(updatedEventOffice?.notifications).toHaveLength(1);
-    expect(updatedSuperAdmin?.notifications).toHaveLength(1);
+    expect(eventOfficeNotifications).toHaveLength(1);
+    expect(superAdminNotifications).toHaveLength(1);
 
-    expect(updatedEventOffice?.notifications?.[0].message).toBe(
+    expect(eventOfficeNotifications[0].message).toBe(
       "There is 1 vendor request waiting for review."
     );
   });
@@ -525,10 +551,10 @@ describe("notifyAdminsOfPendingVendors", () => {
   it("should notify admins of multiple pending vendors", async () => {
     await notifyAdminsOfPendingVendors(5);
 
-    const updatedEventOffice = await AdminModel.findById(eventOfficeAdmin._id);
+    const eventOfficeNotifications = await notificationsFor(eventOfficeAdmin._id);
 
-    expect(updatedEventOffice?.notifications).toHaveLength(1);
-    expect(updatedEventOffice?.notifications?.[0].message).toBe(
+    expect(eventOfficeNotifications).toHaveLength(1);
+    expect(eventOfficeNotifications[0].message).toBe(
       "There are 5 vendor requests waiting for review."
     );
   });
@@ -536,18 +562,18 @@ describe("notifyAdminsOfPendingVendors", () => {
   it("should notify both EventOffice and Admin types", async () => {
     await notifyAdminsOfPendingVendors(3);
 
-    const updatedEventOffice = await AdminModel.findById(eventOfficeAdmin._id);
-    const updatedSuperAdmin = await AdminModel.findById(superAdmin._id);
+    const eventOfficeNotifications = await notificationsFor(eventOfficeAdmin._id);
+    const superAdminNotifications = await notificationsFor(superAdmin._id);
 
-    expect(updatedEventOffice?.notifications).toHaveLength(1);
-    expect(updatedSuperAdmin?.notifications).toHaveLength(1);
+    expect(eventOfficeNotifications).toHaveLength(1);
+    expect(superAdminNotifications).toHaveLength(1);
   });
 
   it("should handle large numbers correctly", async () => {
     await notifyAdminsOfPendingVendors(100);
 
-    const updatedEventOffice = await AdminModel.findById(eventOfficeAdmin._id);
-    expect(updatedEventOffice?.notifications?.[0].message).toBe(
+    const eventOfficeNotifications = await notificationsFor(eventOfficeAdmin._id);
+    expect(eventOfficeNotifications[0].message).toBe(
       "There are 100 vendor requests waiting for review."
     );
   });
@@ -555,8 +581,8 @@ describe("notifyAdminsOfPendingVendors", () => {
   it("should handle zero pending vendors with singular message", async () => {
     await notifyAdminsOfPendingVendors(0);
 
-    const updatedEventOffice = await AdminModel.findById(eventOfficeAdmin._id);
-    expect(updatedEventOffice?.notifications?.[0].message).toContain(
+    const eventOfficeNotifications = await notificationsFor(eventOfficeAdmin._id);
+    expect(eventOfficeNotifications[0].message).toContain(
       "There are 0"
     );
   });
@@ -576,8 +602,8 @@ describe("notifyAdminsOfPendingVendors", () => {
 
     await notifyAdminsOfPendingVendors(2);
 
-    const updatedStudent = await UserModel.findById(studentDoc._id);
-    expect(updatedStudent?.notifications).toHaveLength(0);
+    const studentNotifications = await notificationsFor(studentDoc._id);
+    expect(studentNotifications).toHaveLength(0);
   });
 
   it("should handle errors gracefully", async () => {
@@ -596,8 +622,8 @@ describe("notifyAdminsOfPendingVendors", () => {
   it("should set notification as unseen", async () => {
     await notifyAdminsOfPendingVendors(1);
 
-    const updatedEventOffice = await AdminModel.findById(eventOfficeAdmin._id);
-    expect(updatedEventOffice?.notifications?.[0].seen).toBe(false);
+    const eventOfficeNotifications = await notificationsFor(eventOfficeAdmin._id);
+    expect(eventOfficeNotifications[0].readAt).toBeUndefined();
   });
 });
 
@@ -655,10 +681,10 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    expect(updatedStudent1?.notifications?.length).toBeGreaterThan(0);
+    const student1Notifications = await notificationsFor(student1._id);
+    expect(student1Notifications.length).toBeGreaterThan(0);
 
-    const dayReminder = updatedStudent1?.notifications?.find((n) =>
+    const dayReminder = student1Notifications.find((n) =>
       n.message.includes("within 1 day")
     );
     expect(dayReminder).toBeDefined();
@@ -685,9 +711,9 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
+    const student1Notifications = await notificationsFor(student1._id);
 
-    const hourReminder = updatedStudent1?.notifications?.find((n) =>
+    const hourReminder = student1Notifications.find((n) =>
       n.message.includes("within 1 hour")
     );
     expect(hourReminder).toBeDefined();
@@ -714,8 +740,8 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    expect(updatedStudent1?.notifications).toHaveLength(0);
+    const student1Notifications = await notificationsFor(student1._id);
+    expect(student1Notifications).toHaveLength(0);
   });
 
   it("should not send reminder for archived events", async () => {
@@ -738,8 +764,8 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    expect(updatedStudent1?.notifications).toHaveLength(0);
+    const student1Notifications = await notificationsFor(student1._id);
+    expect(student1Notifications).toHaveLength(0);
   });
 
   it("should not send reminder for past events", async () => {
@@ -762,8 +788,8 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    expect(updatedStudent1?.notifications).toHaveLength(0);
+    const student1Notifications = await notificationsFor(student1._id);
+    expect(student1Notifications).toHaveLength(0);
   });
 
   it("should not send reminder for events too far in the future", async () => {
@@ -786,8 +812,8 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    expect(updatedStudent1?.notifications).toHaveLength(0);
+    const student1Notifications = await notificationsFor(student1._id);
+    expect(student1Notifications).toHaveLength(0);
   });
 
   it("should notify only registered users", async () => {
@@ -810,11 +836,11 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    const updatedStudent2 = await UserModel.findById(student2._id);
+    const student1Notifications = await notificationsFor(student1._id);
+    const student2Notifications = await notificationsFor(student2._id);
 
-    expect(updatedStudent1?.notifications?.length).toBeGreaterThan(0);
-    expect(updatedStudent2?.notifications).toHaveLength(0);
+    expect(student1Notifications.length).toBeGreaterThan(0);
+    expect(student2Notifications).toHaveLength(0);
   });
 
   it("should notify multiple registered users", async () => {
@@ -837,11 +863,11 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    const updatedStudent2 = await UserModel.findById(student2._id);
+    const student1Notifications = await notificationsFor(student1._id);
+    const student2Notifications = await notificationsFor(student2._id);
 
-    expect(updatedStudent1?.notifications?.length).toBeGreaterThan(0);
-    expect(updatedStudent2?.notifications?.length).toBeGreaterThan(0);
+    expect(student1Notifications.length).toBeGreaterThan(0);
+    expect(student2Notifications.length).toBeGreaterThan(0);
   });
 
   it("should handle invalid user IDs gracefully", async () => {
@@ -865,8 +891,8 @@ describe("sendReminderNotifications", () => {
     await sendReminderNotifications();
 
     // Should not throw error and should still notify valid user
-    const updatedStudent1 = await UserModel.findById(student1._id);
-    expect(updatedStudent1?.notifications?.length).toBeGreaterThan(0);
+    const student1Notifications = await notificationsFor(student1._id);
+    expect(student1Notifications.length).toBeGreaterThan(0);
   });
 
   //   it("should handle blocked users appropriately", async () => {
@@ -897,8 +923,8 @@ describe("sendReminderNotifications", () => {
   //     await sendReminderNotifications();
 
   //     // Blocked users should not receive notifications
-  //     const updatedStudent1 = await UserModel.findById(student1._id);
-  //     expect(updatedStudent1?.notifications).toHaveLength(0);
+  //     const student1Notifications = await notificationsFor(student1._id);
+  //     expect(student1Notifications).toHaveLength(0);
   //   });
 
   it("should handle errors gracefully", async () => {
@@ -949,14 +975,14 @@ describe("sendReminderNotifications", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent1 = await UserModel.findById(student1._id);
+    const student1Notifications = await notificationsFor(student1._id);
 
     // Should have notifications from both events
-    expect(updatedStudent1?.notifications?.length).toBeGreaterThan(0);
-    const event1Notif = updatedStudent1?.notifications?.find((n) =>
+    expect(student1Notifications.length).toBeGreaterThan(0);
+    const event1Notif = student1Notifications.find((n) =>
       n.message.includes("Event 1")
     );
-    const event2Notif = updatedStudent1?.notifications?.find((n) =>
+    const event2Notif = student1Notifications.find((n) =>
       n.message.includes("Event 2")
     );
 
@@ -1021,8 +1047,8 @@ describe("startReminderScheduler", () => {
   //     // Wait for initial tick
   //     await new Promise((resolve) => setTimeout(resolve, 100));
 
-  //     const updatedStudent = await UserModel.findById(studentDoc._id);
-  //     expect(updatedStudent?.notifications?.length).toBeGreaterThan(0);
+  //     const studentNotifications = await notificationsFor(studentDoc._id);
+  //     expect(studentNotifications.length).toBeGreaterThan(0);
   //   });
 });
 
@@ -1042,6 +1068,7 @@ describe("Notification Service - Edge Cases and Integration", () => {
 
     // Add event notification
     await notifyUsersOfNewEvent({
+      _id: new Types.ObjectId(),
       name: "Event 1",
       eventType: "Conference",
       startDate: new Date("2025-12-01"),
@@ -1054,8 +1081,8 @@ describe("Notification Service - Edge Cases and Integration", () => {
       promoCode: "SAVE10",
     });
 
-    const updatedStudent = await UserModel.findById(studentDoc._id);
-    expect(updatedStudent?.notifications).toHaveLength(2);
+    const studentNotifications = await notificationsFor(studentDoc._id);
+    expect(studentNotifications).toHaveLength(2);
   });
 
   it("should preserve existing notifications when adding new ones", async () => {
@@ -1068,28 +1095,30 @@ describe("Notification Service - Edge Cases and Integration", () => {
       studentId: "STU001",
       status: userStatus.ACTIVE,
       verified: true,
-      notifications: [
-        {
-          message: "Existing notification",
-          seen: true,
-          createdAt: new Date(),
-        },
-      ],
     });
     await studentDoc.save();
+    await NotificationModel.create({
+      recipientId: studentDoc._id,
+      recipientModel: NotificationRecipientModel.USER,
+      type: NotificationType.GENERAL,
+      message: "Existing notification",
+      readAt: new Date(),
+      createdAt: new Date(Date.now() - 60 * 1000),
+    });
 
     await notifyUsersOfNewEvent({
+      _id: new Types.ObjectId(),
       name: "New Event",
       eventType: "Workshop",
       startDate: new Date("2025-12-15"),
     });
 
-    const updatedStudent = await UserModel.findById(studentDoc._id);
-    expect(updatedStudent?.notifications).toHaveLength(2);
-    expect(updatedStudent?.notifications?.[0].message).toBe(
+    const studentNotifications = await notificationsFor(studentDoc._id);
+    expect(studentNotifications).toHaveLength(2);
+    expect(studentNotifications[0].message).toBe(
       "Existing notification"
     );
-    expect(updatedStudent?.notifications?.[0].seen).toBe(true);
+    expect(studentNotifications[0].readAt).toBeDefined();
   });
 
   it("should handle event reminders at exact boundaries", async () => {
@@ -1125,7 +1154,283 @@ describe("Notification Service - Edge Cases and Integration", () => {
 
     await sendReminderNotifications();
 
-    const updatedStudent = await UserModel.findById(studentDoc._id);
-    expect(updatedStudent?.notifications?.length).toBeGreaterThan(0);
+    const studentNotifications = await notificationsFor(studentDoc._id);
+    expect(studentNotifications.length).toBeGreaterThan(0);
+  });
+});
+
+describe("notification deep links and entities", () => {
+  let student: IUser & { _id: Types.ObjectId };
+
+  beforeEach(async () => {
+    const studentDoc = new UserModel({
+      firstName: "John",
+      lastName: "Student",
+      email: "john@student.guc.edu.eg",
+      password: "password123",
+      role: userRole.STUDENT,
+      studentId: "STU001",
+      status: userStatus.ACTIVE,
+      verified: true,
+    });
+    await studentDoc.save();
+    student = studentDoc.toObject() as IUser & { _id: Types.ObjectId };
+    student._id = studentDoc._id as Types.ObjectId;
+  });
+
+  it("should link new event notifications to the event page", async () => {
+    const eventId = new Types.ObjectId();
+
+    await notifyUsersOfNewEvent({
+      _id: eventId,
+      name: "Linked Event",
+      eventType: EventType.CONFERENCE,
+      startDate: new Date("2025-12-01T10:00:00Z"),
+    });
+
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications[0].type).toBe(NotificationType.NEW_EVENT);
+    expect(studentNotifications[0].entity).toEqual({
+      kind: NotificationEntityKind.EVENT,
+      id: eventId.toString(),
+    });
+    expect(studentNotifications[0].link).toBe(`/user/events/${eventId}`);
+  });
+
+  it("should notify users of a new poll", async () => {
+    const pollId = new Types.ObjectId();
+
+    await notifyUsersOfNewPoll({ _id: pollId, boothName: "Booth A" });
+
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications).toHaveLength(1);
+    expect(studentNotifications[0].type).toBe(NotificationType.POLL);
+    expect(studentNotifications[0].message).toContain("Booth A");
+    expect(studentNotifications[0].entity?.id).toBe(pollId.toString());
+    expect(studentNotifications[0].link).toBe("/user/polls");
+  });
+
+  it("should skip recipients who muted the notification type", async () => {
+    await UserModel.findByIdAndUpdate(student._id, {
+      mutedNotificationTypes: [NotificationType.LOYALTY_PARTNER],
+    });
+
+    await notifyUsersOfNewLoyaltyPartner({
+      companyName: "Muted Store",
+      discountRate: 10,
+      promoCode: "MUTE10",
+    });
+    await notifyUsersOfNewPoll({
+      _id: new Types.ObjectId(),
+      boothName: "Booth B",
+    });
+
+    const studentNotifications = await notificationsFor(student._id);
+    expect(studentNotifications).toHaveLength(1);
+    expect(studentNotifications[0].type).toBe(NotificationType.POLL);
+  });
+});
+
+describe("notification inbox", () => {
+  let recipient: { id: string; model: NotificationRecipientModel };
+  let studentId: Types.ObjectId;
+
+  const seed = (count: number, overrides: Partial<INotification> = {}) =>
+    NotificationModel.insertMany(
+      Array.from({ length: count }, (_, index) => ({
+        recipientId: studentId,
+        recipientModel: NotificationRecipientModel.USER,
+        type: NotificationType.GENERAL,
+        message: `Notification ${index + 1}`,
+        createdAt: new Date(Date.now() - (count - index) * 1000),
+        ...overrides,
+      }))
+    );
+
+  beforeEach(async () => {
+    const studentDoc = await UserModel.create({
+      firstName: "Inbox",
+      lastName: "Owner",
+      email: "inbox@student.guc.edu.eg",
+      password: "password123",
+      role: userRole.STUDENT,
+      studentId: "STU010",
+      status: userStatus.ACTIVE,
+      verified: true,
+    });
+    studentId = studentDoc._id as Types.ObjectId;
+    recipient = {
+      id: studentId.toString(),
+      model: NotificationRecipientModel.USER,
+    };
+  });
+
+  it("should paginate notifications newest first", async () => {
+    await seed(5);
+
+    const firstPage = await listNotifications(recipient, { page: 1, limit: 2 });
+    const lastPage = await listNotifications(recipient, { page: 3, limit: 2 });
+
+    expect(firstPage.success).toBe(true);
+    expect(firstPage.data?.notifications).toHaveLength(2);
+    expect(firstPage.data?.notifications[0].message).toBe("Notification 5");
+    expect(firstPage.data?.total).toBe(5);
+    expect(firstPage.data?.unreadCount).toBe(5);
+    expect(firstPage.data?.hasMore).toBe(true);
+    expect(lastPage.data?.notifications).toHaveLength(1);
+    expect(lastPage.data?.hasMore).toBe(false);
+  });
+
+  it("should only return notifications owned by the recipient", async () => {
+    await seed(2);
+    await NotificationModel.create({
+      recipientId: new Types.ObjectId(),
+      recipientModel: NotificationRecipientModel.USER,
+      type: NotificationType.GENERAL,
+      message: "Someone else",
+    });
+
+    const result = await listNotifications(recipient);
+
+    expect(result.data?.total).toBe(2);
+  });
+
+  it("should separate archived notifications from the inbox", async () => {
+    await seed(2);
+    await seed(1, { archivedAt: new Date(), message: "Archived one" });
+
+    const inbox = await listNotifications(recipient);
+    const archived = await listNotifications(recipient, { archived: true });
+
+    expect(inbox.data?.total).toBe(2);
+    expect(archived.data?.total).toBe(1);
+    expect(archived.data?.notifications[0].archived).toBe(true);
+  });
+
+  it("should mark a notification as read and unread", async () => {
+    const [notification] = await seed(1);
+    const id = String(notification._id);
+
+    const read = await updateNotificationState(recipient, id, { read: true });
+    expect(read.success).toBe(true);
+    expect(read.data?.read).toBe(true);
+
+    const unread = await updateNotificationState(recipient, id, {
+      read: false,
+    });
+    expect(unread.data?.read).toBe(false);
+  });
+
+  it("should mark archived notifications as read", async () => {
+    const [notification] = await seed(1);
+
+    const result = await updateNotificationState(
+      recipient,
+      String(notification._id),
+      { archived: true }
+    );
+
+    expect(result.data?.archived).toBe(true);
+    expect(result.data?.read).toBe(true);
+  });
+
+  it("should reject empty updates", async () => {
+    const [notification] = await seed(1);
+
+    const result = await updateNotificationState(
+      recipient,
+      String(notification._id),
+      {}
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should not update another recipient's notification", async () => {
+    const other = await NotificationModel.create({
+      recipientId: new Types.ObjectId(),
+      recipientModel: NotificationRecipientModel.USER,
+      type: NotificationType.GENERAL,
+      message: "Not yours",
+    });
+
+    const result = await updateNotificationState(recipient, String(other._id), {
+      read: true,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("should mark all notifications as read", async () => {
+    await seed(3);
+
+    const result = await markAllNotificationsRead(recipient);
+    const inbox = await listNotifications(recipient);
+
+    expect(result.data?.updated).toBe(3);
+    expect(inbox.data?.unreadCount).toBe(0);
+  });
+});
+
+describe("notification preferences", () => {
+  let recipient: { id: string; model: NotificationRecipientModel };
+
+  beforeEach(async () => {
+    const studentDoc = await UserModel.create({
+      firstName: "Prefs",
+      lastName: "Owner",
+      email: "prefs@student.guc.edu.eg",
+      password: "password123",
+      role: userRole.STUDENT,
+      studentId: "STU011",
+      status: userStatus.ACTIVE,
+      verified: true,
+    });
+    recipient = {
+      id: String(studentDoc._id),
+      model: NotificationRecipientModel.USER,
+    };
+  });
+
+  it("should return no muted types by default", async () => {
+    const result = await getNotificationPreferences(recipient);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.mutedTypes).toEqual([]);
+    expect(result.data?.mutableTypes).toContain(NotificationType.NEW_EVENT);
+  });
+
+  it("should save muted types", async () => {
+    const result = await updateNotificationPreferences(recipient, [
+      NotificationType.NEW_EVENT,
+      NotificationType.NEW_EVENT,
+      NotificationType.REMINDER,
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.mutedTypes).toEqual([
+      NotificationType.NEW_EVENT,
+      NotificationType.REMINDER,
+    ]);
+  });
+
+  it("should reject types that cannot be muted", async () => {
+    const result = await updateNotificationPreferences(recipient, [
+      NotificationType.WAITLIST,
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should return 404 for unknown accounts", async () => {
+    const result = await getNotificationPreferences({
+      id: new Types.ObjectId().toString(),
+      model: NotificationRecipientModel.USER,
+    });
+
+    expect(result.statusCode).toBe(404);
   });
 });
@@ -0,0 +1,150 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import {
+  broadcast,
+  openEventStream,
+  publishPollVotes,
+  publishRegistrationCount,
+  publishToSubscribers,
+} from "../../../server/services/realtimeService";
+
+type FakeResponse = Response & { chunks: string[] };
+
+function createStream(id: string, model = "User") {
+  const req = new EventEmitter() as unknown as Request;
+  const chunks: string[] = [];
+  const res = {
+    chunks,
+    status: jest.fn().mockReturnThis(),
+    setHeader: jest.fn(),
+    flushHeaders: jest.fn(),
+    write: jest.fn((chunk: string) => {
+      chunks.push(chunk);
+      return true;
+    }),
+  } as unknown as FakeResponse;
+
+  openEventStream({ id, model }, req, res);
+  res.chunks.length = 0;
+
+  return {
+    res,
+    close: () => (req as unknown as EventEmitter).emit("close"),
+  };
+}
+
+const openStreams: Array<() => void> = [];
+
+function trackedStream(id: string, model?: string) {
+  const stream = createStream(id, model);
+  openStreams.push(stream.close);
+  return stream;
+}
+
+afterEach(() => {
+  openStreams.splice(0).forEach((close) => close());
+});
+
+describe("openEventStream", () => {
+  it("should send SSE headers and a ready event", () => {
+    const req = new EventEmitter() as unknown as Request;
+    const res = {
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      write: jest.fn(),
+    } as unknown as Response;
+
+    openEventStream({ id: "user-1", model: "User" }, req, res);
+    openStreams.push(() => (req as unknown as EventEmitter).emit("close"));
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "Content-Type",
+      "text/event-stream"
+    );
+    expect(res.flushHeaders).toHaveBeenCalled();
+    expect(res.write).toHaveBeenCalledWith(
+      expect.stringContaining("event: ready")
+    );
+  });
+});
+
+describe("publishToSubscribers", () => {
+  it("should only write to the matching recipient", () => {
+    const mine = trackedStream("user-1");
+    const other = trackedStream("user-2");
+
+    publishToSubscribers([{ id: "user-1", model: "User" }], "notification", {
+      id: "n1",
+    });
+
+    expect(mine.res.chunks).toEqual([
+      'event: notification\ndata: {"id":"n1"}\n\n',
+    ]);
+    expect(other.res.chunks).toHaveLength(0);
+  });
+
+  it("should keep user and admin accounts with the same id apart", () => {
+    const user = trackedStream("shared-id", "User");
+    const admin = trackedStream("shared-id", "Admin");
+
+    publishToSubscribers([{ id: "shared-id", model: "Admin" }], "notification", {
+      id: "n2",
+    });
+
+    expect(user.res.chunks).toHaveLength(0);
+    expect(admin.res.chunks).toHaveLength(1);
+  });
+
+  it("should write to every open tab of the recipient", () => {
+    const firstTab = trackedStream("user-1");
+    const secondTab = trackedStream("user-1");
+
+    publishToSubscribers([{ id: "user-1", model: "User" }], "notification", {
+      id: "n3",
+    });
+
+    expect(firstTab.res.chunks).toHaveLength(1);
+    expect(secondTab.res.chunks).toHaveLength(1);
+  });
+
+  it("should stop writing once the client disconnects", () => {
+    const stream = createStream("user-1");
+    stream.close();
+
+    publishToSubscribers([{ id: "user-1", model: "User" }], "notification", {
+      id: "n4",
+    });
+
+    expect(stream.res.chunks).toHaveLength(0);
+  });
+});
+
+describe("broadcast helpers", () => {
+  it("should send registration counts to every stream", () => {
+    const first = trackedStream("user-1");
+    const second = trackedStream("admin-1", "Admin");
+
+    publishRegistrationCount({ eventId: "e1", registeredCount: 4, capacity: 10 });
+
+    expect(first.res.chunks[0]).toContain("event: registration-count");
+    expect(second.res.chunks[0]).toContain('"registeredCount":4');
+  });
+
+  it("should send poll vote totals to every stream", () => {
+    const stream = trackedStream("user-1");
+
+    publishPollVotes({
+      pollId: "p1",
+      vendors: [{ vendorId: "v1", votes: 2 }],
+      totalVotes: 2,
+    });
+
+    expect(stream.res.chunks[0]).toContain("event: poll-votes");
+    expect(stream.res.chunks[0]).toContain('"totalVotes":2');
+  });
+
+  it("should do nothing when nobody is connected", () => {
+    expect(() => broadcast("notification", { id: "n5" })).not.toThrow();
+  });
+});
@@ -0,0 +1,146 @@
+import { Types } from "mongoose";
+import { EventType, Location } from "../../../server/models/Event";
+import {
+  GroupBookingStatus,
+  GroupSeatStatus,
+} from "../../../server/models/GroupBooking";
+import {
+  checkEventRevenue,
+  totalEntries,
+  type ReconciliationEntry,
+} from "../../../server/services/reconciliationService";
+
+jest.mock("../../../server/services/emailService");
+
+function entry(overrides: Partial<ReconciliationEntry>): ReconciliationEntry {
+  return {
+    kind: "Payment",
+    source: "Event payment",
+    occurredAt: new Date("2026-10-01T10:00:00Z"),
+    day: "2026-10-01",
+    eventId: "event-1",
+    eventName: "Trip to Siwa",
+    campus: Location.GUCCAIRO,
+    currency: "EGP",
+    method: "Wallet",
+    amount: 100,
+    walletAmount: 100,
+    cardAmount: 0,
+    ...overrides,
+  };
+}
+
+describe("totalEntries", () => {
+  it("should net refunds against payments per key and currency", () => {
+    const totals = totalEntries(
+      [
+        entry({}),
+        entry({ method: "Card", amount: 50, walletAmount: 0, cardAmount: 50 }),
+        entry({
+          kind: "Refund",
+          amount: -30,
+          walletAmount: -30,
+          cardAmount: 0,
+        }),
+        entry({ eventId: "event-2", eventName: "Berlin Fair", currency: "EUR" }),
+      ],
+      (item) => item.eventId ?? item.eventName,
+      (item) => item.eventName
+    );
+
+    expect(totals).toEqual([
+      {
+        key: "event-2",
+        label: "Berlin Fair",
+        currency: "EUR",
+        payments: 100,
+        refunds: 0,
+        net: 100,
+        walletNet: 100,
+        cardNet: 0,
+        count: 1,
+      },
+      {
+        key: "event-1",
+        label: "Trip to Siwa",
+        currency: "EGP",
+        payments: 150,
+        refunds: 30,
+        net: 120,
+        walletNet: 70,
+        cardNet: 50,
+        count: 3,
+      },
+    ]);
+  });
+});
+
+describe("checkEventRevenue", () => {
+  const event = {
+    _id: new Types.ObjectId(),
+    name: "Trip to Siwa",
+    eventType: EventType.TRIP,
+    location: Location.GUCCAIRO,
+    revenue: 370,
+  };
+
+  const records = {
+    payments: [
+      { amount: 100, status: "Paid" as const },
+      { amount: 100, status: "Refunded" as const, refundAmount: 50 },
+      { amount: 80, status: "Failed" as const },
+      // Seat of the group booking below, cancelled after confirming
+      {
+        amount: 60,
+        status: "Refunded" as const,
+        refundAmount: 60,
+        groupBookingId: new Types.ObjectId(),
+      },
+    ],
+    groupBookings: [
+      {
+        seatPrice: 60,
+        status: GroupBookingStatus.PAID,
+        seats: [
+          {
+            _id: new Types.ObjectId(),
+            email: "a@guc.edu.eg",
+            status: GroupSeatStatus.CANCELLED,
+            paymentId: new Types.ObjectId(),
+            refundAmount: 60,
+          },
+          {
+            _id: new Types.ObjectId(),
+            email: "b@guc.edu.eg",
+            status: GroupSeatStatus.DECLINED,
+            refundAmount: 60,
+          },
+          {
+            _id: new Types.ObjectId(),
+            email: "c@guc.edu.eg",
+            status: GroupSeatStatus.PENDING,
+          },
+        ],
+      },
+      { seatPrice: 60, status: GroupBookingStatus.FAILED, seats: [] },
+    ],
+    boothFees: [{ amount: 200, refundAmount: 20 }],
+  };
+
+  it("should add up payments, group seats and booth fees over the event's life", () => {
+    const check = checkEventRevenue(event, records);
+
+    // 100 + 50 + (180 - 60 - 60) + 180
+    expect(check.expectedRevenue).toBe(390);
+    expect(check.recordedRevenue).toBe(370);
+    expect(check.difference).toBe(-20);
+    expect(check.mismatch).toBe(true);
+    expect(check.currency).toBe("EGP");
+  });
+
+  it("should ignore sub-cent rounding differences", () => {
+    const check = checkEventRevenue({ ...event, revenue: 390.004 }, records);
+
+    expect(check.mismatch).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import { EventType, RefundDestination } from "../../../server/models/Event";
+import {
+  REFUNDABLE_EVENT_TYPES,
+  parseRefundPolicy,
+  quoteRefund,
+  refundRulesForPayment,
+} from "../../../server/services/refundPolicyService";
+import { eventAcceptsRegistrations } from "../../../server/services/ticketTierService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TIERED_POLICY = {
+  tiers: [
+    { hoursBeforeStart: 48, percentage: 50 },
+    { hoursBeforeStart: 7 * 24, percentage: 100 },
+  ],
+  destination: RefundDestination.WALLET,
+};
+
+const now = new Date("2025-03-01T10:00:00.000Z");
+
+function startsIn(hours: number) {
+  return new Date(now.getTime() + hours * HOUR_MS);
+}
+
+describe("parseRefundPolicy", () => {
+  it("should sort tiers from the earliest cut-off", () => {
+    const result = parseRefundPolicy(TIERED_POLICY);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.rules.tiers.map((tier) => tier.hoursBeforeStart)).toEqual([
+        168, 48,
+      ]);
+    }
+  });
+
+  it("should default the destination to the wallet", () => {
+    const result = parseRefundPolicy({ tiers: TIERED_POLICY.tiers });
+
+    expect(result.success && result.rules.destination).toBe(
+      RefundDestination.WALLET
+    );
+  });
+
+  it("should reject percentages above 100", () => {
+    const result = parseRefundPolicy({
+      tiers: [{ hoursBeforeStart: 24, percentage: 120 }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject duplicate cut-offs", () => {
+    const result = parseRefundPolicy({
+      tiers: [
+        { hoursBeforeStart: 24, percentage: 100 },
+        { hoursBeforeStart: 24, percentage: 50 },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject unknown destinations", () => {
+    const result = parseRefundPolicy({
+      tiers: TIERED_POLICY.tiers,
+      destination: "Cash",
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("quoteRefund", () => {
+  const walletPayment = { amount: 300, cardPortion: 0 };
+
+  it("should refund in full before the first cut-off", () => {
+    const quote = quoteRefund(TIERED_POLICY, walletPayment, startsIn(10 * 24), now);
+
+    expect(quote).toMatchObject({
+      allowed: true,
+      percentage: 100,
+      refundAmount: 300,
+      walletRefundAmount: 300,
+      cardRefundAmount: 0,
+    });
+  });
+
+  it("should apply the partial tier closer to the start", () => {
+    const quote = quoteRefund(TIERED_POLICY, walletPayment, startsIn(72), now);
+
+    expect(quote.percentage).toBe(50);
+    expect(quote.refundAmount).toBe(150);
+    expect(quote.tierEndsAt).toEqual(startsIn(72 - 48));
+  });
+
+  it("should refuse cancellations after the last cut-off", () => {
+    const quote = quoteRefund(TIERED_POLICY, walletPayment, startsIn(12), now);
+
+    expect(quote.allowed).toBe(false);
+    expect(quote.refundAmount).toBe(0);
+  });
+
+  it("should send the card share back to Stripe charges", () => {
+    const quote = quoteRefund(
+      { ...TIERED_POLICY, destination: RefundDestination.ORIGINAL_PAYMENT },
+      { amount: 300, cardPortion: 200, transactionReference: "pi_123" },
+      startsIn(72),
+      now
+    );
+
+    expect(quote.cardRefundAmount).toBe(100);
+    expect(quote.walletRefundAmount).toBe(50);
+  });
+
+  it("should credit simulated card payments to the wallet", () => {
+    const quote = quoteRefund(
+      { ...TIERED_POLICY, destination: RefundDestination.ORIGINAL_PAYMENT },
+      { amount: 300, cardPortion: 300, transactionReference: "CARD-123" },
+      startsIn(10 * 24),
+      now
+    );
+
+    expect(quote.cardRefundAmount).toBe(0);
+    expect(quote.walletRefundAmount).toBe(300);
+  });
+});
+
+describe("refundRulesForPayment", () => {
+  it("should keep the configured destination for wallet-currency payments", () => {
+    expect(refundRulesForPayment(TIERED_POLICY, { currency: "EGP" })).toBe(
+      TIERED_POLICY
+    );
+  });
+
+  it("should refund other currencies to the original payment", () => {
+    const rules = refundRulesForPayment(TIERED_POLICY, { currency: "EUR" });
+
+    expect(rules.destination).toBe(RefundDestination.ORIGINAL_PAYMENT);
+    expect(rules.tiers).toBe(TIERED_POLICY.tiers);
+  });
+});
+
+describe("REFUNDABLE_EVENT_TYPES", () => {
+  it("should cover every event type that can take registrations", () => {
+    const registrable = Object.values(EventType).filter((eventType) =>
+      eventAcceptsRegistrations({ eventType, registrationEnabled: true })
+    );
+
+    expect([...REFUNDABLE_EVENT_TYPES].sort()).toEqual(registrable.sort());
+  });
+});
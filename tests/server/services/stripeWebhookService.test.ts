@@ -0,0 +1,280 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import Stripe from "stripe";
+import EventModel, {
+  BazaarBoothSize,
+  EventType,
+  FundingSource,
+  Location,
+} from "../../../server/models/Event";
+import UserModel, { userRole } from "../../../server/models/User";
+import UserPaymentModel, {
+  IUserPayment,
+} from "../../../server/models/UserPayment";
+import VendorModel, { IVendor, VendorStatus } from "../../../server/models/Vendor";
+import StripeWebhookEventModel, {
+  StripeWebhookStatus,
+} from "../../../server/models/StripeWebhookEvent";
+import { handleStripeWebhook } from "../../../server/services/stripeWebhookService";
+
+jest.mock("../../../server/services/emailService");
+jest.mock("stripe", () => {
+  const actual = jest.requireActual("stripe");
+  // The Stripe clients are created when the payment services load
+  process.env.STRIPE_SECRET_KEY = "sk_test_webhook";
+  const StripeMock = Object.assign(
+    jest.fn().mockImplementation(() => ({
+      paymentIntents: { create: jest.fn(), retrieve: jest.fn() },
+      refunds: { create: jest.fn() },
+    })),
+    { webhooks: actual.webhooks ?? actual.default.webhooks }
+  );
+  return { __esModule: true, default: StripeMock };
+});
+
+const WEBHOOK_SECRET = "whsec_test_fixture";
+const FIXTURE_DIR = path.join(
+  __dirname,
+  "../../../server/scripts/fixtures/stripe"
+);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FixtureEvent = {
+  id: string;
+  data: { object: Record<string, unknown> };
+};
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  process.env.ENCRYPTION_SALT_ROUNDS = "4";
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+function loadFixture(
+  name: string,
+  overrides: Record<string, unknown> = {},
+  metadata: Record<string, string> = {}
+): FixtureEvent {
+  const event = JSON.parse(
+    readFileSync(path.join(FIXTURE_DIR, `${name}.json`), "utf8")
+  ) as FixtureEvent;
+  const object = event.data.object;
+  Object.assign(object, overrides);
+  object.metadata = {
+    ...(object.metadata as Record<string, string>),
+    ...metadata,
+  };
+  return event;
+}
+
+function deliver(event: FixtureEvent, secret = WEBHOOK_SECRET) {
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret,
+  });
+  return handleStripeWebhook(Buffer.from(payload), signature);
+}
+
+async function createStudent() {
+  return UserModel.create({
+    firstName: "Webhook",
+    lastName: "Student",
+    email: "webhook@student.guc.edu.eg",
+    password: "password123",
+    role: userRole.STUDENT,
+    studentId: "STU800",
+    verified: true,
+  });
+}
+
+async function createTrip(eventType = EventType.TRIP) {
+  const now = Date.now();
+  return EventModel.create({
+    name: eventType === EventType.BAZAAR ? "Spring Bazaar" : "Siwa Trip",
+    eventType,
+    description: "Fixture event",
+    date: new Date(now + 30 * DAY_MS),
+    location: Location.GUCCAIRO,
+    capacity: 10,
+    startDate: new Date(now + 30 * DAY_MS),
+    endDate: new Date(now + 31 * DAY_MS),
+    registrationDeadline: new Date(now + 20 * DAY_MS),
+    price: 300,
+    fundingSource: FundingSource.GUC,
+  });
+}
+
+async function registrationFixture(name: string) {
+  const [student, trip] = await Promise.all([createStudent(), createTrip()]);
+  const event = loadFixture(
+    name,
+    {},
+    { eventId: trip._id.toString(), userId: student._id.toString() }
+  );
+  return { student, trip, event };
+}
+
+describe("handleStripeWebhook", () => {
+  it("should reject payloads with a bad signature", async () => {
+    const { event } = await registrationFixture("payment_intent.succeeded");
+
+    const result = await deliver(event, "whsec_someone_else");
+
+    expect(result.statusCode).toBe(400);
+    expect(await UserPaymentModel.countDocuments()).toBe(0);
+  });
+
+  it("should register the user when the browser never called back", async () => {
+    const { student, trip, event } = await registrationFixture(
+      "payment_intent.succeeded"
+    );
+
+    const result = await deliver(event);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe(StripeWebhookStatus.PROCESSED);
+    const payment = await UserPaymentModel.findOne({
+      transactionReference: "pi_fixture_registration",
+    }).lean<IUserPayment | null>();
+    expect(payment?.status).toBe("Paid");
+    expect(payment?.amount).toBe(300);
+    const updatedTrip = await EventModel.findById(trip._id);
+    expect(updatedTrip?.registeredUsers.map(String)).toContain(
+      student._id.toString()
+    );
+  });
+
+  it("should apply a redelivered event only once", async () => {
+    const { trip, event } = await registrationFixture("payment_intent.succeeded");
+
+    await deliver(event);
+    const second = await deliver(event);
+
+    expect(second.success).toBe(true);
+    expect(second.message).toBe("Event already processed.");
+    expect(await UserPaymentModel.countDocuments()).toBe(1);
+    const updatedTrip = await EventModel.findById(trip._id);
+    expect(updatedTrip?.revenue).toBe(300);
+  });
+
+  it("should not duplicate a payment reported by two different events", async () => {
+    const { event } = await registrationFixture("payment_intent.succeeded");
+
+    await deliver(event);
+    const second = await deliver({ ...event, id: "evt_fixture_resent" });
+
+    expect(second.success).toBe(true);
+    expect(await UserPaymentModel.countDocuments()).toBe(1);
+    expect(await StripeWebhookEventModel.countDocuments()).toBe(2);
+  });
+
+  it("should record declined payments without registering the user", async () => {
+    const { student, trip, event } = await registrationFixture(
+      "payment_intent.payment_failed"
+    );
+
+    const result = await deliver(event);
+
+    expect(result.success).toBe(true);
+    const attempt = await UserPaymentModel.findOne({
+      transactionReference: "pi_fixture_declined",
+    }).lean<IUserPayment | null>();
+    expect(attempt?.status).toBe("Failed");
+    expect(attempt?.failureReason).toBe("Your card has insufficient funds.");
+    const updatedTrip = await EventModel.findById(trip._id);
+    expect(updatedTrip?.registeredUsers.map(String)).not.toContain(
+      student._id.toString()
+    );
+  });
+
+  it("should cancel the registration after a dashboard refund", async () => {
+    const { student, trip, event } = await registrationFixture(
+      "payment_intent.succeeded"
+    );
+    await deliver(event);
+
+    const result = await deliver(loadFixture("charge.refunded"));
+
+    expect(result.data?.status).toBe(StripeWebhookStatus.PROCESSED);
+    const payment = await UserPaymentModel.findOne({
+      transactionReference: "pi_fixture_registration",
+    }).lean<IUserPayment | null>();
+    expect(payment?.status).toBe("Refunded");
+    expect(payment?.cardRefundAmount).toBe(300);
+    const updatedTrip = await EventModel.findById(trip._id);
+    expect(updatedTrip?.revenue).toBe(0);
+    expect(updatedTrip?.registeredUsers.map(String)).not.toContain(
+      student._id.toString()
+    );
+  });
+
+  it("should mark approved booth fees as paid", async () => {
+    const bazaar = await createTrip(EventType.BAZAAR);
+    const vendor = await VendorModel.create({
+      email: "booth@vendor.com",
+      password: "password123",
+      companyName: "Booth Co",
+      verified: true,
+      verificationStatus: VendorStatus.APPROVED,
+      applications: [
+        {
+          eventId: bazaar._id,
+          status: VendorStatus.APPROVED,
+          boothSize: BazaarBoothSize.SMALL,
+          attendees: [{ name: "Booth Lead", email: "lead@vendor.com" }],
+        },
+      ],
+    });
+    const event = loadFixture(
+      "payment_intent.succeeded",
+      { id: "pi_fixture_booth", amount: 100000, amount_received: 100000 },
+      {
+        eventId: bazaar._id.toString(),
+        vendorId: vendor._id.toString(),
+        userId: "",
+      }
+    );
+
+    const result = await deliver(event);
+
+    expect(result.success).toBe(true);
+    const updatedVendor = await VendorModel.findById(vendor._id).lean<IVendor | null>();
+    expect(updatedVendor?.applications?.[0].payment?.status).toBe("paid");
+    expect(updatedVendor?.applications?.[0].payment?.transactionReference).toBe(
+      "pi_fixture_booth"
+    );
+  });
+
+  it("should acknowledge events it does not handle", async () => {
+    const event = loadFixture("payment_intent.succeeded");
+
+    const result = await deliver({ ...event, id: "evt_unlinked" });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe(StripeWebhookStatus.IGNORED);
+  });
+});
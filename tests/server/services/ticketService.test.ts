@@ -0,0 +1,208 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import EventModel, {
+  EventType,
+  FundingSource,
+  Location,
+} from "../../../server/models/Event";
+import UserModel, { userRole } from "../../../server/models/User";
+import UserPaymentModel from "../../../server/models/UserPayment";
+import { payByWallet } from "../../../server/services/paymentService";
+import {
+  buildTicketCode,
+  checkInEventTicket,
+  getUserEventTicket,
+  signQrPayload,
+  verifyQrPayload,
+} from "../../../server/services/ticketService";
+import { getEventAttendanceReport } from "../../../server/services/eventService";
+import { emailService } from "../../../server/services/emailService";
+
+jest.mock("../../../server/services/emailService");
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  process.env.ENCRYPTION_SALT_ROUNDS = "4";
+  process.env.JWT_SECRET = "ticket-test-secret";
+  mongoServer = await MongoMemoryServer.create();
+  const mongoUri = mongoServer.getUri();
+  await mongoose.connect(mongoUri);
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  jest.clearAllMocks();
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STAFF_ID = new mongoose.Types.ObjectId().toString();
+
+async function createStudent() {
+  return UserModel.create({
+    firstName: "Ticket",
+    lastName: "Holder",
+    email: "ticket@student.guc.edu.eg",
+    password: "password123",
+    role: userRole.STUDENT,
+    studentId: "STU900",
+    verified: true,
+    balance: 1000,
+  });
+}
+
+async function createTrip() {
+  const now = Date.now();
+  return EventModel.create({
+    name: "Siwa Trip",
+    eventType: EventType.TRIP,
+    description: "Weekend trip",
+    date: new Date(now + 30 * DAY_MS),
+    location: Location.GUCCAIRO,
+    capacity: 10,
+    startDate: new Date(now + 30 * DAY_MS),
+    endDate: new Date(now + 32 * DAY_MS),
+    registrationDeadline: new Date(now + 20 * DAY_MS),
+    price: 500,
+    fundingSource: FundingSource.GUC,
+  });
+}
+
+async function payForTrip() {
+  const student = await createStudent();
+  const trip = await createTrip();
+  const result = await payByWallet(trip._id.toString(), student._id.toString());
+  expect(result.success).toBe(true);
+
+  const payment = await UserPaymentModel.findOne({ eventId: trip._id });
+  return {
+    student,
+    trip,
+    payment,
+    ticketCode: buildTicketCode(payment!._id.toString()),
+  };
+}
+
+describe("signQrPayload", () => {
+  it("should verify its own signatures and reject altered payloads", () => {
+    const signature = signQrPayload("TKT:payment");
+
+    expect(verifyQrPayload("TKT:payment", signature)).toBe(true);
+    expect(verifyQrPayload("TKT:other", signature)).toBe(false);
+  });
+
+  it("should refuse to sign without JWT_SECRET", () => {
+    const secret = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+    try {
+      expect(() => signQrPayload("TKT:payment")).toThrow(/JWT_SECRET/);
+    } finally {
+      process.env.JWT_SECRET = secret;
+    }
+  });
+});
+
+describe("ticket issuing", () => {
+  it("should attach the ticket QR to the payment receipt", async () => {
+    const { ticketCode } = await payForTrip();
+
+    const receipt = (emailService.sendUserEventPaymentReceipt as jest.Mock).mock
+      .calls[0][0];
+    expect(receipt.ticketCode).toBe(ticketCode);
+    expect(Buffer.isBuffer(receipt.ticketQr)).toBe(true);
+  });
+
+  it("should let the attendee download their ticket", async () => {
+    const { student, trip, payment } = await payForTrip();
+
+    const result = await getUserEventTicket(
+      trip._id.toString(),
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.filename).toBe(`ticket-${payment!.receiptNumber}.png`);
+  });
+});
+
+describe("checkInEventTicket", () => {
+  it("should check in a valid ticket once", async () => {
+    const { trip, ticketCode } = await payForTrip();
+
+    const first = await checkInEventTicket(trip._id.toString(), ticketCode, STAFF_ID);
+    const second = await checkInEventTicket(trip._id.toString(), ticketCode, STAFF_ID);
+
+    expect(first.success).toBe(true);
+    expect(first.data?.attendeeName).toBe("Ticket Holder");
+    expect(first.data?.checkedInCount).toBe(1);
+    expect(second.success).toBe(false);
+    expect(second.statusCode).toBe(409);
+  });
+
+  it("should reject tampered tickets", async () => {
+    const { trip, ticketCode } = await payForTrip();
+
+    const result = await checkInEventTicket(
+      trip._id.toString(),
+      `${ticketCode.slice(0, -2)}xx`,
+      STAFF_ID
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("This ticket is not valid.");
+  });
+
+  it("should reject tickets for another event", async () => {
+    const { ticketCode } = await payForTrip();
+    const otherTrip = await createTrip();
+
+    const result = await checkInEventTicket(
+      otherTrip._id.toString(),
+      ticketCode,
+      STAFF_ID
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should reject cancelled registrations", async () => {
+    const { trip, payment, ticketCode } = await payForTrip();
+    await UserPaymentModel.updateOne(
+      { _id: payment!._id },
+      { status: "Refunded" }
+    );
+
+    const result = await checkInEventTicket(trip._id.toString(), ticketCode, STAFF_ID);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("This registration was cancelled.");
+  });
+});
+
+describe("getEventAttendanceReport", () => {
+  it("should count check-ins rather than registrations", async () => {
+    const { trip, ticketCode } = await payForTrip();
+
+    const before = await getEventAttendanceReport({});
+    await checkInEventTicket(trip._id.toString(), ticketCode, STAFF_ID);
+    const after = await getEventAttendanceReport({});
+
+    expect(before.data?.events[0].registeredCount).toBe(1);
+    expect(before.data?.totalAttendees).toBe(0);
+    expect(after.data?.totalAttendees).toBe(1);
+  });
+});
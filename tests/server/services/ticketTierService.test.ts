@@ -0,0 +1,124 @@
+import { EventType, TicketTierAudience } from "../../../server/models/Event";
+import { userRole } from "../../../server/models/User";
+import {
+  chooseTicketTier,
+  eventAcceptsRegistrations,
+  findHeldTier,
+  parseRegistrationSettings,
+  ticketListPrice,
+} from "../../../server/services/ticketTierService";
+
+jest.mock("../../../server/services/emailService");
+
+const tiers = [
+  { audience: TicketTierAudience.STUDENT, price: 50, capacity: 2 },
+  { audience: TicketTierAudience.STAFF, price: 80 },
+  { audience: TicketTierAudience.EXTERNAL, price: 120 },
+];
+
+describe("eventAcceptsRegistrations", () => {
+  it("should only open seminars and conferences when registration is enabled", () => {
+    expect(eventAcceptsRegistrations({ eventType: EventType.WORKSHOP })).toBe(true);
+    expect(eventAcceptsRegistrations({ eventType: EventType.SEMINAR })).toBe(false);
+    expect(
+      eventAcceptsRegistrations({
+        eventType: EventType.CONFERENCE,
+        registrationEnabled: true,
+      })
+    ).toBe(true);
+    expect(
+      eventAcceptsRegistrations({ eventType: EventType.BAZAAR, registrationEnabled: true })
+    ).toBe(false);
+  });
+});
+
+describe("chooseTicketTier", () => {
+  it("should sell events without tiers at the event price", () => {
+    const choice = chooseTicketTier({ ticketHolders: [] }, userRole.STUDENT);
+
+    expect(choice).toEqual({ success: true });
+    expect(ticketListPrice({ price: 30 })).toBe(30);
+  });
+
+  it("should ask for a tier when the role can buy more than one", () => {
+    const choice = chooseTicketTier({ ticketTiers: tiers, ticketHolders: [] }, userRole.TA);
+
+    expect(choice).toMatchObject({ success: false, statusCode: 400 });
+    expect(choice.success ? "" : choice.message).toBe(
+      "Choose a ticket tier: Staff, External."
+    );
+  });
+
+  it("should keep role-specific tiers to their audience", () => {
+    const choice = chooseTicketTier(
+      { ticketTiers: tiers, ticketHolders: [] },
+      userRole.PROFESSOR,
+      TicketTierAudience.STUDENT
+    );
+
+    expect(choice).toMatchObject({ success: false, statusCode: 403 });
+  });
+
+  it("should stop selling a tier once its capacity is taken", () => {
+    const event = {
+      ticketTiers: tiers,
+      ticketHolders: [
+        { userId: "a", audience: TicketTierAudience.STUDENT },
+        { userId: "b", audience: TicketTierAudience.STUDENT },
+      ],
+    };
+
+    expect(
+      chooseTicketTier(event, userRole.STUDENT, TicketTierAudience.STUDENT)
+    ).toMatchObject({ success: false, message: "Student tickets are sold out." });
+
+    const external = chooseTicketTier(event, userRole.STUDENT, TicketTierAudience.EXTERNAL);
+    expect(external.success && ticketListPrice({}, external.tier)).toBe(120);
+    expect(findHeldTier(event, "b")?.price).toBe(50);
+  });
+});
+
+describe("parseRegistrationSettings", () => {
+  it("should accept tiers with a price and optional capacity", () => {
+    const parsed = parseRegistrationSettings({
+      registrationEnabled: true,
+      capacity: "100",
+      ticketTiers: [
+        { audience: "Student", price: 0, capacity: 40 },
+        { audience: "External", price: "150" },
+      ],
+    });
+
+    expect(parsed).toEqual({
+      success: true,
+      settings: {
+        registrationEnabled: true,
+        capacity: 100,
+        price: undefined,
+        ticketTiers: [
+          { audience: TicketTierAudience.STUDENT, price: 0, capacity: 40 },
+          { audience: TicketTierAudience.EXTERNAL, price: 150 },
+        ],
+      },
+    });
+  });
+
+  it("should reject duplicate audiences and tiers without a price", () => {
+    expect(
+      parseRegistrationSettings({
+        registrationEnabled: true,
+        ticketTiers: [
+          { audience: "Staff", price: 10 },
+          { audience: "Staff", price: 20 },
+        ],
+      })
+    ).toEqual({ success: false, message: "Only one Staff ticket tier is allowed." });
+
+    expect(
+      parseRegistrationSettings({
+        registrationEnabled: true,
+        ticketTiers: [{ audience: "Staff" }],
+      })
+    ).toEqual({ success: false, message: "Staff tickets need a price." });
+  });
+});
@@ -11,8 +11,6 @@ import {
   findRegisteredEvents,
   addEventToFavorites,
   getFavoriteEvents,
-  getProfessorNotifications,
-  markNotificationsAsSeen,
 } from "../../../server/services/userService";
 import { issueStudentVerification } from "../../../server/services/emailVerificationService";
 
@@ -1012,170 +1010,3 @@ describe("getFavoriteEvents", () => {
   });
 });
 
-describe("getProfessorNotifications", () => {
-  it("should fail with invalid user ID", async () => {
-    const result = await getProfessorNotifications("invalid-id");
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("Invalid user ID.");
-  });
-
-  it("should fail when user not found", async () => {
-    const fakeId = new Types.ObjectId().toString();
-    const result = await getProfessorNotifications(fakeId);
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("User not found.");
-  });
-
-  it("should return empty notifications when user has none", async () => {
-    const user = new UserModel({
-      firstName: "John",
-      lastName: "Doe",
-      email: "john@example.com",
-      password: "password123",
-      role: "Professor",
-      staffId: "PROF001",
-      status: "Active",
-      verified: true,
-    });
-    await user.save();
-
-    const result = await getProfessorNotifications(user._id.toString());
-
-    expect(result.success).toBe(true);
-    expect(result.message).toBe("Notifications retrieved successfully.");
-    expect(result.data?.notifications).toEqual([]);
-  });
-
-  it("should return user notifications", async () => {
-    const user = new UserModel({
-      firstName: "John",
-      lastName: "Doe",
-      email: "john@example.com",
-      password: "password123",
-      role: "Professor",
-      staffId: "PROF001",
-      status: "Active",
-      verified: true,
-      notifications: [
-        { message: "Notification 1", seen: false },
-        { message: "Notification 2", seen: true },
-      ],
-    });
-    await user.save();
-
-    const result = await getProfessorNotifications(user._id.toString());
-
-    expect(result.success).toBe(true);
-    expect(result.data?.notifications).toHaveLength(2);
-    expect(result.data?.notifications[0].message).toBe("Notification 1");
-    expect(result.data?.notifications[0].seen).toBe(false);
-    expect(result.data?.notifications[1].message).toBe("Notification 2");
-    expect(result.data?.notifications[1].seen).toBe(true);
-  });
-
-  it("should work for all user roles", async () => {
-    const student = new UserModel({
-      firstName: "Student",
-      lastName: "User",
-      email: "student@example.com",
-      password: "password123",
-      role: "Student",
-      studentId: "STU001",
-      status: "Active",
-      verified: true,
-      notifications: [{ message: "Student notification", seen: false }],
-    });
-    await student.save();
-
-    const result = await getProfessorNotifications(student._id.toString());
-
-    expect(result.success).toBe(true);
-    expect(result.data?.notifications).toHaveLength(1);
-  });
-});
-
-describe("markNotificationsAsSeen", () => {
-  it("should fail with invalid user ID", async () => {
-    const result = await markNotificationsAsSeen("invalid-id");
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("Invalid user ID.");
-  });
-
-  it("should fail when user not found", async () => {
-    const fakeId = new Types.ObjectId().toString();
-    const result = await markNotificationsAsSeen(fakeId);
-
-    expect(result.success).toBe(false);
-    expect(result.message).toBe("User not found.");
-  });
-
-  it("should mark all notifications as seen", async () => {
-    const user = new UserModel({
-      firstName: "John",
-      lastName: "Doe",
-      email: "john@example.com",
-      password: "password123",
-      role: "Professor",
-      staffId: "PROF001",
-      status: "Active",
-      verified: true,
-      notifications: [
-        { message: "Notification 1", seen: false },
-        { message: "Notification 2", seen: false },
-        { message: "Notification 3", seen: true },
-      ],
-    });
-    await user.save();
-
-    const result = await markNotificationsAsSeen(user._id.toString());
-
-    expect(result.success).toBe(true);
-    expect(result.message).toBe("Notifications marked as seen.");
-
-    const updatedUser = await UserModel.findById(user._id);
-    expect(updatedUser?.notifications?.every((n) => n.seen === true)).toBe(
-      true
-    );
-  });
-
-  it("should handle user with no notifications", async () => {
-    const user = new UserModel({
-      firstName: "John",
-      lastName: "Doe",
-      email: "john@example.com",
-      password: "password123",
-      role: "Student",
-      studentId: "STU001",
-      status: "Active",
-      verified: true,
-    });
-    await user.save();
-
-    const result = await markNotificationsAsSeen(user._id.toString());
-
-    expect(result.success).toBe(true);
-    expect(result.message).toBe("Notifications marked as seen.");
-  });
-
-  it("should handle user with empty notifications array", async () => {
-    const user = new UserModel({
-      firstName: "John",
-      lastName: "Doe",
-      email: "john@example.com",
-      password: "password123",
-      role: "Student",
-      studentId: "STU001",
-      status: "Active",
-      verified: true,
-      notifications: [],
-    });
-    await user.save();
-
-    const result = await markNotificationsAsSeen(user._id.toString());
-
-    expect(result.success).toBe(true);
-  });
-});
@@ -0,0 +1,398 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import EventModel, {
+  EventType,
+  FundingSource,
+  Location,
+  WorkshopStatus,
+} from "../../../server/models/Event";
+import EventSeriesModel, { SeriesFrequency } from "../../../server/models/EventSeries";
+import VenueModel, { VenueKind } from "../../../server/models/Venue";
+import {
+  createBazaar,
+  createConference,
+  updateConferenceById,
+} from "../../../server/services/eventService";
+import { createEventSeries } from "../../../server/services/eventSeriesService";
+import {
+  checkEventVenue,
+  checkEventVenueUpdate,
+  findVenueConflicts,
+  parseVenueInput,
+  updateVenue,
+} from "../../../server/services/venueService";
+
+jest.mock("../../../server/services/emailService");
+jest.mock("../../../server/services/notificationService");
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe("parseVenueInput", () => {
+  const base = {
+    name: "  Hall H12 ",
+    kind: VenueKind.HALL,
+    campus: Location.GUCCAIRO,
+    capacity: "120",
+  };
+
+  it("should trim the name and coerce capacity", () => {
+    const result = parseVenueInput({ ...base, building: " ", notes: "Back entrance" });
+
+    expect(result).toEqual({
+      success: true,
+      venue: {
+        name: "Hall H12",
+        kind: VenueKind.HALL,
+        campus: Location.GUCCAIRO,
+        building: undefined,
+        capacity: 120,
+        equipment: [],
+        notes: "Back entrance",
+      },
+    });
+  });
+
+  it("should accept equipment as a list or comma separated text without duplicates", () => {
+    const fromText = parseVenueInput({ ...base, equipment: "Projector, PA system,, projector" });
+    const fromList = parseVenueInput({ ...base, equipment: ["Projector", " Whiteboard ", 3] });
+
+    expect(fromText.success && fromText.venue.equipment).toEqual(["Projector", "PA system"]);
+    expect(fromList.success && fromList.venue.equipment).toEqual(["Projector", "Whiteboard"]);
+  });
+
+  it("should reject missing names, unknown types and campuses", () => {
+    expect(parseVenueInput(undefined)).toEqual({
+      success: false,
+      message: "Venue details are required.",
+    });
+    expect(parseVenueInput({ ...base, name: " " })).toEqual({
+      success: false,
+      message: "Venue name is required.",
+    });
+    expect(parseVenueInput({ ...base, kind: "Garage" }).success).toBe(false);
+    expect(parseVenueInput({ ...base, campus: "GUC Paris" })).toEqual({
+      success: false,
+      message: "Campus is invalid.",
+    });
+  });
+
+  it("should reject capacities that are not positive whole numbers", () => {
+    for (const capacity of [0, -5, 12.5, "many", undefined]) {
+      expect(parseVenueInput({ ...base, capacity })).toEqual({
+        success: false,
+        message: "Capacity must be a whole number of at least 1.",
+      });
+    }
+  });
+});
+
+describe("venue bookings", () => {
+  let mongoServer: MongoMemoryServer;
+  // A Monday morning well in the future, so every booking is upcoming
+  const start = new Date("2030-03-04T08:00:00.000Z");
+  const at = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  afterEach(async () => {
+    const collections = mongoose.connection.collections;
+    for (const key in collections) {
+      await collections[key].deleteMany({});
+    }
+    jest.restoreAllMocks();
+  });
+
+  async function createRoom(capacity = 50, campus = Location.GUCCAIRO) {
+    return VenueModel.create({
+      name: "Hall H12",
+      kind: VenueKind.HALL,
+      campus,
+      capacity,
+    });
+  }
+
+  async function bookRoom(
+    venueId: string,
+    startDate: Date,
+    endDate: Date,
+    fields: Record<string, unknown> = {}
+  ) {
+    return EventModel.create({
+      name: "Career Talk",
+      eventType: EventType.TRIP,
+      description: "Booked session",
+      date: startDate,
+      location: Location.GUCCAIRO,
+      venueId,
+      capacity: 40,
+      startDate,
+      endDate,
+      registrationDeadline: new Date(startDate.getTime() - DAY_MS),
+      price: 0,
+      fundingSource: FundingSource.GUC,
+      ...fields,
+    });
+  }
+
+  describe("findVenueConflicts", () => {
+    it("should return bookings that overlap the window", async () => {
+      const room = await createRoom();
+      const booked = await bookRoom(room._id.toString(), at(0), at(2));
+      await bookRoom(room._id.toString(), at(2), at(3), { name: "Back to back" });
+      await bookRoom(room._id.toString(), at(0), at(2), {
+        name: "Rejected proposal",
+        eventType: EventType.WORKSHOP,
+        workshopStatus: WorkshopStatus.REJECTED,
+      });
+
+      const conflicts = await findVenueConflicts(room._id.toString(), at(1), at(2));
+
+      expect(conflicts.map((conflict) => conflict.eventId)).toEqual([booked._id.toString()]);
+    });
+
+    it("should leave out the event being moved", async () => {
+      const room = await createRoom();
+      const booked = await bookRoom(room._id.toString(), at(0), at(2));
+
+      expect(
+        await findVenueConflicts(room._id.toString(), at(1), at(3), booked._id.toString())
+      ).toEqual([]);
+    });
+  });
+
+  describe("checkEventVenue", () => {
+    it("should refuse an overlapping booking with 409 and list the clash", async () => {
+      const room = await createRoom();
+      const booked = await bookRoom(room._id.toString(), at(0), at(2));
+
+      const result = await checkEventVenue({
+        venueId: room._id.toString(),
+        location: Location.GUCCAIRO,
+        startDate: at(1),
+        endDate: at(3),
+      });
+
+      expect(result).toMatchObject({ success: false, statusCode: 409 });
+      expect(!result.success && result.conflicts?.map((conflict) => conflict.eventId)).toEqual([
+        booked._id.toString(),
+      ]);
+    });
+
+    it("should book the room anyway with a warning when asked to", async () => {
+      const room = await createRoom();
+      await bookRoom(room._id.toString(), at(0), at(2));
+
+      const result = await checkEventVenue({
+        venueId: room._id.toString(),
+        startDate: at(1),
+        endDate: at(3),
+        allowDoubleBooking: "true",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.warning).toMatch(/Hall H12 is already booked for Career Talk/);
+    });
+
+    it("should reject events larger than the room", async () => {
+      const room = await createRoom(30);
+
+      const result = await checkEventVenue({
+        venueId: room._id.toString(),
+        startDate: at(0),
+        endDate: at(2),
+        capacity: 31,
+      });
+
+      expect(result).toEqual({
+        success: false,
+        message: "Capacity 31 exceeds Hall H12's capacity of 30.",
+        statusCode: 400,
+      });
+    });
+
+    it("should reject rooms on another campus or no longer bookable", async () => {
+      const room = await createRoom(50, Location.GUCCBERLIN);
+      const window = { venueId: room._id.toString(), startDate: at(0), endDate: at(2) };
+
+      expect(await checkEventVenue({ ...window, location: Location.GUCCAIRO })).toMatchObject({
+        success: false,
+        statusCode: 400,
+      });
+
+      await VenueModel.updateOne({ _id: room._id }, { active: false });
+      expect(await checkEventVenue(window)).toMatchObject({ success: false, statusCode: 400 });
+    });
+
+    it("should only re-check an edited event when its booking changes", async () => {
+      const room = await createRoom(50);
+      await bookRoom(room._id.toString(), at(3), at(5), { name: "Later Talk" });
+      const event = await bookRoom(room._id.toString(), at(0), at(2));
+
+      expect(await checkEventVenueUpdate(event, { description: "New text" })).toEqual({
+        success: true,
+      });
+      expect(await checkEventVenueUpdate(event, { capacity: 60 })).toMatchObject({
+        success: false,
+        statusCode: 400,
+      });
+      expect(await checkEventVenueUpdate(event, { endDate: at(4) })).toMatchObject({
+        success: false,
+        statusCode: 409,
+      });
+    });
+  });
+
+  describe("event create and update", () => {
+    const conference = {
+      name: "AI Summit",
+      description: "Talks",
+      fullAgenda: "Keynotes",
+      websiteLink: "https://summit.example.com",
+      requiredBudget: 1000,
+      fundingSource: FundingSource.GUC,
+    };
+
+    it("should not create a bazaar in a room that is already booked", async () => {
+      const room = await createRoom();
+      await bookRoom(room._id.toString(), at(0), at(8));
+
+      const result = await createBazaar({
+        name: "Spring Bazaar",
+        description: "Vendors",
+        startDate: at(4),
+        endDate: at(10),
+        registrationDeadline: at(-48),
+        location: Location.GUCCAIRO,
+        venueId: room._id.toString(),
+      });
+
+      expect(result).toMatchObject({ success: false, statusCode: 409 });
+      expect(await EventModel.countDocuments({ eventType: EventType.BAZAAR })).toBe(0);
+    });
+
+    it("should create a double-booked bazaar when asked to and say so", async () => {
+      const room = await createRoom();
+      await bookRoom(room._id.toString(), at(0), at(8));
+
+      const result = await createBazaar({
+        name: "Spring Bazaar",
+        description: "Vendors",
+        startDate: at(4),
+        endDate: at(10),
+        registrationDeadline: at(-48),
+        location: Location.GUCCAIRO,
+        venueId: room._id.toString(),
+        allowDoubleBooking: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.warning).toMatch(/already booked/);
+      const bazaar = await EventModel.findOne({ eventType: EventType.BAZAAR });
+      expect(bazaar?.venueId).toBe(room._id.toString());
+    });
+
+    it("should refuse to create a conference over another booking", async () => {
+      const room = await createRoom();
+      await bookRoom(room._id.toString(), at(0), at(8));
+
+      const result = await createConference({
+        ...conference,
+        startDate: at(6),
+        endDate: at(12),
+        venueId: room._id.toString(),
+      });
+
+      expect(result).toMatchObject({ success: false, statusCode: 409 });
+      expect(await EventModel.countDocuments({ eventType: EventType.CONFERENCE })).toBe(0);
+    });
+
+    it("should refuse to move a conference onto another booking", async () => {
+      const room = await createRoom();
+      await bookRoom(room._id.toString(), at(0), at(8));
+      const created = await createConference({
+        ...conference,
+        startDate: at(24),
+        endDate: at(30),
+        venueId: room._id.toString(),
+      });
+      const conferenceId = (created.data as { id: string }).id;
+
+      const moved = await updateConferenceById(conferenceId, {
+        startDate: at(6),
+        endDate: at(12),
+      });
+      const renamed = await updateConferenceById(conferenceId, { name: "AI Summit 2030" });
+
+      expect(moved).toMatchObject({ success: false, statusCode: 409 });
+      expect(renamed.success).toBe(true);
+      expect((await EventModel.findById(conferenceId))?.startDate).toEqual(at(24));
+    });
+  });
+
+  describe("series generation", () => {
+    it("should refuse a series when any occurrence clashes with the room", async () => {
+      const room = await createRoom();
+      const first = await bookRoom(room._id.toString(), at(0), at(2));
+      await bookRoom(room._id.toString(), at(14 * 24 + 1), at(14 * 24 + 3), {
+        name: "Guest Lecture",
+      });
+
+      const result = await createEventSeries(first._id.toString(), {
+        frequency: SeriesFrequency.WEEKLY,
+        count: 3,
+      });
+
+      expect(result).toEqual({
+        success: false,
+        message:
+          "The room is already booked on 2030-03-18. Pick another interval, or book it anyway.",
+        statusCode: 409,
+      });
+      expect(await EventSeriesModel.countDocuments()).toBe(0);
+      expect(await EventModel.countDocuments({ venueId: room._id.toString() })).toBe(2);
+    });
+
+    it("should book every occurrence into the room when it is free", async () => {
+      const room = await createRoom();
+      const first = await bookRoom(room._id.toString(), at(0), at(2));
+
+      const result = await createEventSeries(first._id.toString(), {
+        frequency: SeriesFrequency.WEEKLY,
+        count: 3,
+      });
+
+      expect(result.success).toBe(true);
+      expect(await EventModel.countDocuments({ venueId: room._id.toString() })).toBe(3);
+    });
+  });
+
+  describe("updateVenue", () => {
+    it("should not shrink a room below an upcoming event's capacity", async () => {
+      const room = await createRoom(50);
+      await bookRoom(room._id.toString(), at(0), at(2));
+
+      const result = await updateVenue(room._id.toString(), {
+        name: "Hall H12",
+        kind: VenueKind.HALL,
+        campus: Location.GUCCAIRO,
+        capacity: 30,
+      });
+
+      expect(result).toMatchObject({ success: false, statusCode: 409 });
+      expect((await VenueModel.findById(room._id))?.capacity).toBe(50);
+    });
+  });
+});
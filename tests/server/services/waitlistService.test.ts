@@ -0,0 +1,314 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose, { Types } from "mongoose";
+import EventModel, {
+  EventType,
+  FundingSource,
+  Location,
+  WaitlistStatus,
+} from "../../../server/models/Event";
+import UserModel, { userRole } from "../../../server/models/User";
+import {
+  countHeldSeats,
+  expireWaitlistOffers,
+  getEventWaitlistStatus,
+  joinEventWaitlist,
+  leaveEventWaitlist,
+  promoteNextWaitlistedUsers,
+} from "../../../server/services/waitlistService";
+import { registerUserForWorkshop } from "../../../server/services/eventService";
+import { emailService } from "../../../server/services/emailService";
+
+jest.mock("../../../server/services/emailService");
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  process.env.ENCRYPTION_SALT_ROUNDS = "4";
+  mongoServer = await MongoMemoryServer.create();
+  const mongoUri = mongoServer.getUri();
+  await mongoose.connect(mongoUri);
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  jest.clearAllMocks();
+  (emailService.sendWaitlistOfferEmail as jest.Mock).mockResolvedValue({
+    messageId: "test-message-id",
+  });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createStudent(index: number) {
+  return UserModel.create({
+    firstName: `Student${index}`,
+    lastName: "Tester",
+    email: `student${index}@student.guc.edu.eg`,
+    password: "password123",
+    role: userRole.STUDENT,
+    studentId: `STU${index.toString().padStart(3, "0")}`,
+    verified: true,
+  });
+}
+
+async function createTrip(capacity: number, registeredUsers: string[] = []) {
+  const now = Date.now();
+  return EventModel.create({
+    name: "Siwa Trip",
+    eventType: EventType.TRIP,
+    description: "Weekend trip",
+    date: new Date(now + 30 * DAY_MS),
+    location: Location.GUCCAIRO,
+    capacity,
+    startDate: new Date(now + 30 * DAY_MS),
+    endDate: new Date(now + 32 * DAY_MS),
+    registrationDeadline: new Date(now + 20 * DAY_MS),
+    price: 500,
+    fundingSource: FundingSource.GUC,
+    registeredUsers,
+  });
+}
+
+describe("joinEventWaitlist", () => {
+  it("should reject joining while seats are still available", async () => {
+    const student = await createStudent(1);
+    const trip = await createTrip(2);
+
+    const result = await joinEventWaitlist(
+      trip._id.toString(),
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(400);
+    expect(result.message).toBe(
+      "Seats are still available. Please register directly."
+    );
+  });
+
+  it("should queue users in join order once the event is full", async () => {
+    const registered = await createStudent(1);
+    const first = await createStudent(2);
+    const second = await createStudent(3);
+    const trip = await createTrip(1, [registered._id.toString()]);
+
+    const firstResult = await joinEventWaitlist(
+      trip._id.toString(),
+      first._id.toString()
+    );
+    const secondResult = await joinEventWaitlist(
+      trip._id.toString(),
+      second._id.toString()
+    );
+
+    expect(firstResult.success).toBe(true);
+    expect(firstResult.statusCode).toBe(201);
+    expect(firstResult.data?.position).toBe(1);
+    expect(secondResult.data?.position).toBe(2);
+    expect(secondResult.data?.waitlistSize).toBe(2);
+  });
+
+  it("should not allow joining twice", async () => {
+    const registered = await createStudent(1);
+    const student = await createStudent(2);
+    const trip = await createTrip(1, [registered._id.toString()]);
+
+    await joinEventWaitlist(trip._id.toString(), student._id.toString());
+    const result = await joinEventWaitlist(
+      trip._id.toString(),
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(409);
+  });
+
+  it("should reject registered users", async () => {
+    const registered = await createStudent(1);
+    const trip = await createTrip(1, [registered._id.toString()]);
+
+    const result = await joinEventWaitlist(
+      trip._id.toString(),
+      registered._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(409);
+  });
+
+  it("should return 404 for a missing event", async () => {
+    const student = await createStudent(1);
+
+    const result = await joinEventWaitlist(
+      new Types.ObjectId().toString(),
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(404);
+  });
+});
+
+describe("promoteNextWaitlistedUsers", () => {
+  it("should hold a freed seat for the first waiting user and notify them", async () => {
+    const registered = await createStudent(1);
+    const first = await createStudent(2);
+    const second = await createStudent(3);
+    const trip = await createTrip(1, [registered._id.toString()]);
+
+    await joinEventWaitlist(trip._id.toString(), first._id.toString());
+    await joinEventWaitlist(trip._id.toString(), second._id.toString());
+    await EventModel.findByIdAndUpdate(trip._id, {
+      $pull: { registeredUsers: registered._id.toString() },
+    });
+
+    const promoted = await promoteNextWaitlistedUsers(trip._id.toString());
+
+    expect(promoted).toEqual([first._id.toString()]);
+
+    const updated = await EventModel.findById(trip._id).lean();
+    expect(updated?.waitlist[0].status).toBe(WaitlistStatus.OFFERED);
+    expect(updated?.waitlist[0].offerExpiresAt).toBeDefined();
+    expect(updated?.waitlist[1].status).toBe(WaitlistStatus.WAITING);
+    expect(countHeldSeats(updated!)).toBe(1);
+
+    const notifiedUser = await UserModel.findById(first._id).lean();
+    expect(notifiedUser?.notifications?.[0]?.message).toContain("Siwa Trip");
+    expect(emailService.sendWaitlistOfferEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not promote anyone when no seat is free", async () => {
+    const registered = await createStudent(1);
+    const waiting = await createStudent(2);
+    const trip = await createTrip(1, [registered._id.toString()]);
+    await joinEventWaitlist(trip._id.toString(), waiting._id.toString());
+
+    const promoted = await promoteNextWaitlistedUsers(trip._id.toString());
+
+    expect(promoted).toEqual([]);
+    expect(emailService.sendWaitlistOfferEmail).not.toHaveBeenCalled();
+  });
+
+  it("should let only the promoted user claim the held seat", async () => {
+    const registered = await createStudent(1);
+    const first = await createStudent(2);
+    const second = await createStudent(3);
+    const trip = await createTrip(1, [registered._id.toString()]);
+
+    await joinEventWaitlist(trip._id.toString(), first._id.toString());
+    await joinEventWaitlist(trip._id.toString(), second._id.toString());
+    await EventModel.findByIdAndUpdate(trip._id, {
+      $pull: { registeredUsers: registered._id.toString() },
+    });
+    await promoteNextWaitlistedUsers(trip._id.toString());
+
+    const secondAttempt = await registerUserForWorkshop(
+      trip._id.toString(),
+      second._id.toString()
+    );
+    expect(secondAttempt.success).toBe(false);
+
+    const firstAttempt = await registerUserForWorkshop(
+      trip._id.toString(),
+      first._id.toString()
+    );
+    expect(firstAttempt.success).toBe(true);
+
+    const status = await getEventWaitlistStatus(
+      trip._id.toString(),
+      second._id.toString()
+    );
+    expect(status.data?.waitlistSize).toBe(1);
+    expect(status.data?.position).toBe(1);
+  });
+});
+
+describe("leaveEventWaitlist", () => {
+  it("should pass a held seat on to the next user", async () => {
+    const registered = await createStudent(1);
+    const first = await createStudent(2);
+    const second = await createStudent(3);
+    const trip = await createTrip(1, [registered._id.toString()]);
+
+    await joinEventWaitlist(trip._id.toString(), first._id.toString());
+    await joinEventWaitlist(trip._id.toString(), second._id.toString());
+    await EventModel.findByIdAndUpdate(trip._id, {
+      $pull: { registeredUsers: registered._id.toString() },
+    });
+    await promoteNextWaitlistedUsers(trip._id.toString());
+
+    const result = await leaveEventWaitlist(
+      trip._id.toString(),
+      first._id.toString()
+    );
+
+    expect(result.success).toBe(true);
+    const updated = await EventModel.findById(trip._id).lean();
+    expect(updated?.waitlist).toHaveLength(1);
+    expect(updated?.waitlist[0].userId).toBe(second._id.toString());
+    expect(updated?.waitlist[0].status).toBe(WaitlistStatus.OFFERED);
+  });
+
+  it("should return 404 when the user is not waitlisted", async () => {
+    const student = await createStudent(1);
+    const trip = await createTrip(1);
+
+    const result = await leaveEventWaitlist(
+      trip._id.toString(),
+      student._id.toString()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(404);
+  });
+});
+
+describe("expireWaitlistOffers", () => {
+  it("should drop expired holds and promote the next user", async () => {
+    const expired = await createStudent(1);
+    const next = await createStudent(2);
+    const trip = await createTrip(1);
+
+    await EventModel.findByIdAndUpdate(trip._id, {
+      $set: {
+        waitlist: [
+          {
+            userId: expired._id.toString(),
+            joinedAt: new Date(Date.now() - 2 * DAY_MS),
+            status: WaitlistStatus.OFFERED,
+            offeredAt: new Date(Date.now() - 2 * DAY_MS),
+            offerExpiresAt: new Date(Date.now() - DAY_MS),
+          },
+          {
+            userId: next._id.toString(),
+            joinedAt: new Date(Date.now() - DAY_MS),
+            status: WaitlistStatus.WAITING,
+          },
+        ],
+      },
+    });
+
+    await expireWaitlistOffers();
+
+    const updated = await EventModel.findById(trip._id).lean();
+    expect(updated?.waitlist).toHaveLength(1);
+    expect(updated?.waitlist[0].userId).toBe(next._id.toString());
+    expect(updated?.waitlist[0].status).toBe(WaitlistStatus.OFFERED);
+
+    const expiredUser = await UserModel.findById(expired._id).lean();
+    expect(expiredUser?.notifications?.[0]?.message).toContain("expired");
+  });
+});
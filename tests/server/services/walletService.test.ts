@@ -0,0 +1,328 @@
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import EventModel, {
+  EventType,
+  FundingSource,
+  Location,
+} from "../../../server/models/Event";
+import UserModel, { userRole } from "../../../server/models/User";
+import WalletTransactionModel, {
+  IWalletTransaction,
+  WalletTransactionType,
+} from "../../../server/models/WalletTransaction";
+import {
+  cancelRegistrationAndRefund,
+  payByWallet,
+} from "../../../server/services/paymentService";
+import {
+  adjustWalletBalance,
+  finalizeWalletTopUp,
+  getWalletStatement,
+  InsufficientWalletBalanceError,
+  rebuildWalletBalance,
+  recordWalletTransaction,
+} from "../../../server/services/walletService";
+
+const mockRetrieveIntent = jest.fn();
+
+jest.mock("../../../server/services/emailService");
+jest.mock("stripe", () => {
+  // The Stripe client is created when walletService loads
+  process.env.STRIPE_SECRET_KEY = "sk_test_wallet";
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({
+      paymentIntents: {
+        create: jest.fn(),
+        retrieve: (...args: unknown[]) => mockRetrieveIntent(...args),
+      },
+      refunds: { create: jest.fn() },
+    })),
+  };
+});
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  process.env.ENCRYPTION_SALT_ROUNDS = "4";
+  mongoServer = await MongoMemoryServer.create();
+  const mongoUri = mongoServer.getUri();
+  await mongoose.connect(mongoUri);
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  mockRetrieveIntent.mockReset();
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  const collections = mongoose.connection.collections;
+  for (const key in collections) {
+    await collections[key].deleteMany({});
+  }
+  jest.restoreAllMocks();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createStudent(balance = 0) {
+  return UserModel.create({
+    firstName: "Wallet",
+    lastName: "Owner",
+    email: "wallet@student.guc.edu.eg",
+    password: "password123",
+    role: userRole.STUDENT,
+    studentId: "STU700",
+    verified: true,
+    balance,
+  });
+}
+
+async function createTrip(price = 300) {
+  const now = Date.now();
+  return EventModel.create({
+    name: "Fayoum Trip",
+    eventType: EventType.TRIP,
+    description: "Day trip",
+    date: new Date(now + 30 * DAY_MS),
+    location: Location.GUCCAIRO,
+    capacity: 10,
+    startDate: new Date(now + 30 * DAY_MS),
+    endDate: new Date(now + 31 * DAY_MS),
+    registrationDeadline: new Date(now + 20 * DAY_MS),
+    price,
+    fundingSource: FundingSource.GUC,
+  });
+}
+
+function succeededIntent(userId: string, amount: number) {
+  return {
+    id: "pi_wallet_topup",
+    status: "succeeded",
+    amount,
+    amount_received: amount,
+    metadata: { purpose: "wallet_top_up", userId },
+  };
+}
+
+describe("recordWalletTransaction", () => {
+  it("should update the balance and append a ledger entry", async () => {
+    const student = await createStudent();
+
+    const result = await recordWalletTransaction({
+      userId: student._id.toString(),
+      type: WalletTransactionType.TOP_UP,
+      amount: 150,
+      description: "Wallet top-up by card",
+    });
+
+    expect(result.balance).toBe(150);
+    expect(result.transaction.balanceAfter).toBe(150);
+    const user = await UserModel.findById(student._id);
+    expect(user?.balance).toBe(150);
+  });
+
+  it("should refuse debits that would overdraw the wallet", async () => {
+    const student = await createStudent();
+    await recordWalletTransaction({
+      userId: student._id.toString(),
+      type: WalletTransactionType.TOP_UP,
+      amount: 50,
+      description: "Wallet top-up by card",
+    });
+
+    await expect(
+      recordWalletTransaction({
+        userId: student._id.toString(),
+        type: WalletTransactionType.EVENT_PAYMENT,
+        amount: -80,
+        description: "Payment for Fayoum Trip",
+      })
+    ).rejects.toBeInstanceOf(InsufficientWalletBalanceError);
+
+    const user = await UserModel.findById(student._id);
+    expect(user?.balance).toBe(50);
+    expect(await WalletTransactionModel.countDocuments()).toBe(1);
+  });
+
+  it("should carry over balances that predate the ledger", async () => {
+    const student = await createStudent(200);
+
+    await recordWalletTransaction({
+      userId: student._id.toString(),
+      type: WalletTransactionType.EVENT_PAYMENT,
+      amount: -120,
+      description: "Payment for Fayoum Trip",
+    });
+
+    const entries = await WalletTransactionModel.find({ userId: student._id })
+      .sort({ createdAt: 1, _id: 1 })
+      .lean<IWalletTransaction[]>();
+    expect(entries.map((entry) => entry.amount)).toEqual([200, -120]);
+    expect(entries[1].balanceAfter).toBe(80);
+  });
+
+  it("should not allow ledger entries to be rewritten", async () => {
+    const student = await createStudent();
+    const { transaction } = await recordWalletTransaction({
+      userId: student._id.toString(),
+      type: WalletTransactionType.TOP_UP,
+      amount: 100,
+      description: "Wallet top-up by card",
+    });
+
+    await expect(
+      WalletTransactionModel.updateOne(
+        { _id: transaction.id },
+        { amount: 1000 }
+      )
+    ).rejects.toThrow("append-only");
+  });
+});
+
+describe("event payments and refunds", () => {
+  it("should debit the wallet with the payment receipt number", async () => {
+    const student = await createStudent(500);
+    const trip = await createTrip(300);
+
+    const payment = await payByWallet(
+      trip._id.toString(),
+      student._id.toString()
+    );
+
+    expect(payment.success).toBe(true);
+    expect(payment.data?.balance).toBe(200);
+    const debit = await WalletTransactionModel.findOne({
+      type: WalletTransactionType.EVENT_PAYMENT,
+    }).lean<IWalletTransaction | null>();
+    expect(debit?.amount).toBe(-300);
+    expect(debit?.receiptNumber).toBe(payment.data?.receiptNumber);
+  });
+
+  it("should credit refunds to the ledger", async () => {
+    const student = await createStudent(500);
+    const trip = await createTrip(300);
+    await payByWallet(trip._id.toString(), student._id.toString());
+
+    const refund = await cancelRegistrationAndRefund(
+      trip._id.toString(),
+      student._id.toString()
+    );
+
+    expect(refund.success).toBe(true);
+    expect(refund.data?.balance).toBe(500);
+    const credit = await WalletTransactionModel.findOne({
+      type: WalletTransactionType.REFUND,
+    }).lean<IWalletTransaction | null>();
+    expect(credit?.amount).toBe(300);
+    expect(credit?.receiptNumber).toBe(refund.data?.refundReference);
+  });
+});
+
+describe("getWalletStatement", () => {
+  it("should list entries newest first with their running balance", async () => {
+    const student = await createStudent(500);
+    const trip = await createTrip(300);
+    await payByWallet(trip._id.toString(), student._id.toString());
+
+    const result = await getWalletStatement(student._id.toString());
+
+    expect(result.success).toBe(true);
+    expect(result.data?.balance).toBe(200);
+    expect(result.data?.transactions.map((entry) => entry.balanceAfter)).toEqual([
+      200, 500,
+    ]);
+    expect(result.data?.totalCredits).toBe(500);
+    expect(result.data?.totalDebits).toBe(300);
+  });
+
+  it("should filter by transaction type", async () => {
+    const student = await createStudent(500);
+    const trip = await createTrip(300);
+    await payByWallet(trip._id.toString(), student._id.toString());
+
+    const result = await getWalletStatement(student._id.toString(), {
+      type: WalletTransactionType.EVENT_PAYMENT,
+    });
+
+    expect(result.data?.transactions).toHaveLength(1);
+    expect(result.data?.transactions[0].type).toBe(
+      WalletTransactionType.EVENT_PAYMENT
+    );
+  });
+
+  it("should reject unknown transaction types", async () => {
+    const student = await createStudent();
+
+    const result = await getWalletStatement(student._id.toString(), {
+      type: "Cashback",
+    });
+
+    expect(result.statusCode).toBe(400);
+  });
+});
+
+describe("finalizeWalletTopUp", () => {
+  it("should credit a succeeded top-up only once", async () => {
+    const student = await createStudent();
+    const userId = student._id.toString();
+    mockRetrieveIntent.mockResolvedValue(succeededIntent(userId, 25000));
+
+    const first = await finalizeWalletTopUp(userId, "pi_wallet_topup");
+    const second = await finalizeWalletTopUp(userId, "pi_wallet_topup");
+
+    expect(first.success).toBe(true);
+    expect(first.data?.balance).toBe(250);
+    expect(second.success).toBe(true);
+    expect(second.message).toBe("Top-up already credited.");
+    expect(await WalletTransactionModel.countDocuments()).toBe(1);
+  });
+
+  it("should reject intents created for another user", async () => {
+    const student = await createStudent();
+    mockRetrieveIntent.mockResolvedValue(
+      succeededIntent(new mongoose.Types.ObjectId().toString(), 25000)
+    );
+
+    const result = await finalizeWalletTopUp(
+      student._id.toString(),
+      "pi_wallet_topup"
+    );
+
+    expect(result.statusCode).toBe(400);
+  });
+});
+
+describe("admin wallet tools", () => {
+  it("should require a reason for adjustments", async () => {
+    const student = await createStudent();
+
+    const result = await adjustWalletBalance(student._id.toString(), {
+      amount: 50,
+    });
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("should rebuild a drifted balance from the ledger", async () => {
+    const student = await createStudent();
+    await adjustWalletBalance(student._id.toString(), {
+      amount: 75,
+      reason: "Goodwill credit",
+    });
+    await UserModel.updateOne({ _id: student._id }, { balance: 999 });
+
+    const result = await rebuildWalletBalance(student._id.toString());
+
+    expect(result.data).toEqual({
+      previousBalance: 999,
+      balance: 75,
+      transactionCount: 1,
+    });
+  });
+});